@@ -1,4 +1,5 @@
 export type BattleShareTarget = 'battle' | 'feedback';
+export type BattleOgFormat = 'duel' | 'cypher';
 
 export interface BattleOgData {
   id: string;
@@ -6,6 +7,7 @@ export interface BattleOgData {
   title: string;
   description: string | null;
   status: string;
+  format: BattleOgFormat;
   producer1Id: string | null;
   producer2Id: string | null;
   winnerId: string | null;
@@ -18,6 +20,23 @@ export interface BattleOgData {
   product1Title: string;
   product2Title: string;
   loserShare: BattleOgLoserShareData | null;
+  entrants: BattleOgEntrant[];
+}
+
+export interface BattleOgEntrant {
+  producerId: string;
+  producerName: string;
+  producerAvatarUrl: string | null;
+  productTitle: string;
+  position: number;
+  points: number;
+  firstPlaceVotes: number;
+  finalRank: number | null;
+}
+
+export interface BattleOgPodiumEntry {
+  entrant: BattleOgEntrant;
+  rank: number;
 }
 
 export interface BattleOgLoserTrait {
@@ -71,6 +90,8 @@ interface BattleRow {
   title: string | null;
   description: string | null;
   status: string | null;
+  battle_format: string | null;
+  blind_voting: boolean | null;
   producer1_id: string | null;
   producer2_id: string | null;
   winner_id: string | null;
@@ -85,6 +106,20 @@ interface BattleSnapshotRow {
   title_snapshot: string | null;
 }
 
+interface BattleEntrantRow {
+  producer_id: string;
+  product_id: string | null;
+  position: number;
+  points: number | null;
+  first_place_votes: number | null;
+  final_rank: number | null;
+}
+
+interface ProductTitleRow {
+  id: string;
+  title: string | null;
+}
+
 interface PublicProducerProfileRow {
   user_id: string;
   username: string | null;
@@ -290,7 +325,7 @@ export async function fetchBattleOgData(
   options: FetchBattleOgOptions = {},
 ): Promise<BattleOgData | null> {
   const [battle] = await fetchSupabaseRows<BattleRow>('battles', {
-    select: 'id,slug,title,description,status,producer1_id,producer2_id,winner_id,votes_producer1,votes_producer2',
+    select: 'id,slug,title,description,status,battle_format,blind_voting,producer1_id,producer2_id,winner_id,votes_producer1,votes_producer2',
     slug: `eq.${slug}`,
     limit: '1',
   });
@@ -303,6 +338,16 @@ export async function fetchBattleOgData(
     order: 'slot.asc',
   });
 
+  const format: BattleOgFormat = battle.battle_format === 'cypher' ? 'cypher' : 'duel';
+  const entrantRows = format === 'cypher'
+    ? await fetchSupabaseRows<BattleEntrantRow>('battle_entrants', {
+        select: 'producer_id,product_id,position,points,first_place_votes,final_rank',
+        battle_id: `eq.${battle.id}`,
+        order: 'position.asc',
+      }).catch(() => [])
+    : [];
+  const entrantProductIds = entrantRows.flatMap((row) => (row.product_id ? [row.product_id] : []));
+
   const product1 = snapshots.find((snapshot) => snapshot.slot === 'producer1');
   const product2 = snapshots.find((snapshot) => snapshot.slot === 'producer2');
   const profileIds = [
@@ -310,14 +355,22 @@ export async function fetchBattleOgData(
     battle.producer2_id,
     product1?.producer_id,
     product2?.producer_id,
+    ...entrantRows.map((row) => row.producer_id),
   ];
-  const [profiles, feedbackPayload, loserSharePayload] = await Promise.all([
+  const [profiles, feedbackPayload, loserSharePayload, entrantProducts] = await Promise.all([
     fetchProducerProfiles(profileIds),
     fetchSupabaseRpc<FeedbackPayload>('get_battle_feedback_payload', { p_battle_id: battle.id }).catch(() => null),
     options.isLoserCard
       ? fetchSupabaseRpc<LoserShareRpcResponse>('get_loser_share_data', { p_battle_id: battle.id }).catch(() => null)
       : Promise.resolve(null),
+    entrantProductIds.length > 0
+      ? fetchSupabaseRows<ProductTitleRow>('products', {
+          select: 'id,title',
+          id: `in.(${entrantProductIds.join(',')})`,
+        }).catch(() => [])
+      : Promise.resolve([]),
   ]);
+  const entrantProductTitles = new Map(entrantProducts.map((row) => [row.id, row.title]));
   const feedbackSnapshots = getFeedbackSnapshotsByProduct(feedbackPayload);
   const feedback1 = product1?.product_id ? feedbackSnapshots.get(product1.product_id) : null;
   const feedback2 = product2?.product_id ? feedbackSnapshots.get(product2.product_id) : null;
@@ -326,12 +379,13 @@ export async function fetchBattleOgData(
   const producer1 = producer1Id ? profiles.get(producer1Id) : null;
   const producer2 = producer2Id ? profiles.get(producer2Id) : null;
 
-  return {
+  const data: BattleOgData = {
     id: battle.id,
     slug: battle.slug,
     title: battle.title ?? 'Battle Beatelion',
     description: battle.description,
     status: battle.status ?? 'battle',
+    format,
     producer1Id,
     producer2Id,
     winnerId: battle.winner_id,
@@ -344,6 +398,46 @@ export async function fetchBattleOgData(
     product1Title: product1?.title_snapshot ?? 'Produit 1',
     product2Title: product2?.title_snapshot ?? 'Produit 2',
     loserShare: parseLoserShareRpcResponse(loserSharePayload),
+    entrants: entrantRows.map((row) => {
+      const profile = profiles.get(row.producer_id);
+      return {
+        producerId: row.producer_id,
+        producerName: profile?.username ?? profile?.raw_username ?? `Producteur ${row.position}`,
+        producerAvatarUrl: profile?.avatar_url ?? null,
+        productTitle: (row.product_id ? entrantProductTitles.get(row.product_id) : null) ?? `Produit ${row.position}`,
+        position: row.position,
+        points: row.points ?? 0,
+        firstPlaceVotes: row.first_place_votes ?? 0,
+        finalRank: row.final_rank,
+      };
+    }),
+  };
+
+  return battle.blind_voting && battle.status !== 'completed' ? maskBlindBattle(data) : data;
+}
+
+function getBlindBeatLabel(index: number) {
+  return `Beat ${String.fromCharCode(65 + index)}`;
+}
+
+// Blind battles must not leak names, avatars or beat titles through share cards
+// before they complete.
+function maskBlindBattle(battle: BattleOgData): BattleOgData {
+  return {
+    ...battle,
+    producer1Name: getBlindBeatLabel(0),
+    producer2Name: getBlindBeatLabel(1),
+    producer1AvatarUrl: null,
+    producer2AvatarUrl: null,
+    product1Title: getBlindBeatLabel(0),
+    product2Title: getBlindBeatLabel(1),
+    loserShare: null,
+    entrants: battle.entrants.map((entrant, index) => ({
+      ...entrant,
+      producerName: getBlindBeatLabel(index),
+      producerAvatarUrl: null,
+      productTitle: getBlindBeatLabel(index),
+    })),
   };
 }
 
@@ -414,6 +508,35 @@ export function getBattleParticipants(battle: BattleOgData | null): [BattleOgPar
   ];
 }
 
+/**
+ * Ranks cypher entrants by points then first-place votes (the final ranking
+ * once the battle is finalized) and keeps the podium: ranks 1 to 3.
+ */
+export function getBattlePodium(battle: BattleOgData | null): BattleOgPodiumEntry[] {
+  const entrants = [...(battle?.entrants ?? [])].sort((left, right) =>
+    right.points - left.points
+    || right.firstPlaceVotes - left.firstPlaceVotes
+    || left.position - right.position);
+
+  return entrants
+    .map((entrant) => ({
+      entrant,
+      rank: entrant.finalRank ?? entrants.findIndex((candidate) =>
+        candidate.points === entrant.points && candidate.firstPlaceVotes === entrant.firstPlaceVotes) + 1,
+    }))
+    .filter((entry) => entry.rank <= 3)
+    .sort((left, right) => left.rank - right.rank || left.entrant.position - right.entrant.position);
+}
+
+export function getCypherBallotCount(battle: BattleOgData | null) {
+  return (battle?.entrants ?? []).reduce((total, entrant) => total + entrant.firstPlaceVotes, 0);
+}
+
+function getCypherWinner(battle: BattleOgData) {
+  const leaders = getBattlePodium(battle).filter((entry) => entry.rank === 1);
+  return leaders.length === 1 && leaders[0].entrant.points > 0 ? leaders[0].entrant : null;
+}
+
 export function getBattleOutcome(battle: BattleOgData | null): BattleOgOutcome {
   const participants = getBattleParticipants(battle);
   const [producer1, producer2] = participants;
@@ -452,6 +575,13 @@ export function buildBattleShareTitle(
     return `${battle.loserShare.producerName} vs ${battle.loserShare.opponentName} | Beatelion`;
   }
 
+  if (target === 'feedback' && battle.format === 'cypher') {
+    const winner = getCypherWinner(battle);
+    return winner
+      ? `${winner.producerName} remporte ${battle.title} | Beatelion`
+      : `${battle.title} - Resultats | Beatelion`;
+  }
+
   if (target === 'feedback') {
     const outcome = getBattleOutcome(battle);
 
@@ -486,6 +616,21 @@ export function buildBattleDescription(
       : `Decouvre cette battle sur Beatelion.`;
   }
 
+  if (battle.format === 'cypher') {
+    const ballots = getCypherBallotCount(battle);
+
+    if (target === 'feedback') {
+      const podium = getBattlePodium(battle)
+        .map((entry) => `${entry.rank}. ${entry.entrant.producerName} (${entry.entrant.points} pts)`)
+        .join(', ');
+      return podium && ballots > 0
+        ? `Podium: ${podium}. Voir le feedback complet sur Beatelion.`
+        : `Voir les resultats et le feedback complet de ${battle.title} sur Beatelion.`;
+    }
+
+    return `Cypher a ${battle.entrants.length} producteurs - ${ballots} ${getVoteLabel(ballots)} sur Beatelion.`;
+  }
+
   if (target === 'feedback') {
     const outcome = getBattleOutcome(battle);
 
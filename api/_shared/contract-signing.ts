@@ -0,0 +1,110 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  randomBytes,
+  sign,
+  verify,
+  type KeyObject,
+} from "node:crypto";
+
+// Crockford base32: no I, L, O or U, so references survive being read aloud
+// or retyped from a printout.
+const REFERENCE_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const REFERENCE_PREFIX = "BTL";
+const REFERENCE_GROUPS = 4;
+const REFERENCE_GROUP_LENGTH = 4;
+const REFERENCE_PATTERN = /^BTL-[0-9A-HJKMNP-TV-Z]{4}(?:-[0-9A-HJKMNP-TV-Z]{4}){3}$/;
+const SIGNATURE_CONTEXT = "beatelion-contract-v1";
+
+export interface ContractSignatureFields {
+  reference: string;
+  purchaseId: string;
+  sha256: string;
+  issuedAt: string;
+}
+
+export interface ContractSigningKey {
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  keyId: string;
+}
+
+/** Random public reference printed on the contract (80 bits). */
+export const createContractReference = (): string => {
+  const bytes = randomBytes(REFERENCE_GROUPS * REFERENCE_GROUP_LENGTH);
+  const chars = Array.from(bytes, (byte) => REFERENCE_ALPHABET[byte % REFERENCE_ALPHABET.length]);
+  const groups: string[] = [];
+
+  for (let index = 0; index < chars.length; index += REFERENCE_GROUP_LENGTH) {
+    groups.push(chars.slice(index, index + REFERENCE_GROUP_LENGTH).join(""));
+  }
+
+  return [REFERENCE_PREFIX, ...groups].join("-");
+};
+
+/** Upper-cases a typed reference and maps look-alike letters; null if malformed. */
+export const normalizeContractReference = (value: string): string | null => {
+  const compact = value.trim().toUpperCase().replace(/\s+/g, "");
+  if (!compact.startsWith(`${REFERENCE_PREFIX}-`)) return null;
+
+  const normalized = `${REFERENCE_PREFIX}-${compact
+    .slice(REFERENCE_PREFIX.length + 1)
+    .replace(/[IL]/g, "1")
+    .replace(/O/g, "0")}`;
+
+  return REFERENCE_PATTERN.test(normalized) ? normalized : null;
+};
+
+export const sha256Hex = (bytes: Uint8Array): string =>
+  createHash("sha256").update(bytes).digest("hex");
+
+export const buildContractSignaturePayload = (fields: ContractSignatureFields): string =>
+  [SIGNATURE_CONTEXT, fields.reference, fields.purchaseId, fields.sha256, fields.issuedAt].join("\n");
+
+// Escaped newlines are accepted since most hosting dashboards store a PEM
+// key on a single line.
+const unescapePem = (pem: string) => pem.replace(/\\n/g, "\n");
+
+/** Fingerprint stored with each signature, to tell keys apart after a rotation. */
+export const getContractKeyId = (publicKey: KeyObject): string =>
+  sha256Hex(publicKey.export({ type: "spki", format: "der" })).slice(0, 16);
+
+export const loadContractSigningKey = (pem: string): ContractSigningKey => {
+  const privateKey = createPrivateKey(unescapePem(pem));
+  if (privateKey.asymmetricKeyType !== "ed25519") {
+    throw new Error("CONTRACT_SIGNING_PRIVATE_KEY must be an Ed25519 private key");
+  }
+
+  const publicKey = createPublicKey(privateKey);
+  return { privateKey, publicKey, keyId: getContractKeyId(publicKey) };
+};
+
+/** Public half of a signing key; accepts either a public or a private PEM. */
+export const loadContractVerificationKey = (pem: string): KeyObject => {
+  const publicKey = createPublicKey(unescapePem(pem));
+  if (publicKey.asymmetricKeyType !== "ed25519") {
+    throw new Error("Contract verification key must be an Ed25519 key");
+  }
+  return publicKey;
+};
+
+export const signContract = (key: ContractSigningKey, fields: ContractSignatureFields): string =>
+  sign(null, Buffer.from(buildContractSignaturePayload(fields)), key.privateKey).toString("base64");
+
+export const verifyContractSignature = (
+  publicKey: KeyObject,
+  fields: ContractSignatureFields,
+  signature: string,
+): boolean => {
+  try {
+    return verify(
+      null,
+      Buffer.from(buildContractSignaturePayload(fields)),
+      publicKey,
+      Buffer.from(signature, "base64"),
+    );
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,66 @@
+// Vercel rejects larger bodies anyway; contracts are a few dozen KB.
+export const MAX_PDF_BYTES = 4 * 1024 * 1024;
+const PDF_MAGIC = "%PDF-";
+
+export interface RawBodyRequest extends AsyncIterable<unknown> {
+  headers?: Record<string, string | string[] | undefined>;
+}
+
+export type VerificationBody =
+  | { kind: "pdf"; bytes: Buffer }
+  | { kind: "json"; value: unknown }
+  | { kind: "error"; error: string; status: number };
+
+export const isPdf = (bytes: Uint8Array) =>
+  Buffer.from(bytes.subarray(0, PDF_MAGIC.length)).toString("latin1") === PDF_MAGIC;
+
+const getContentType = (req: RawBodyRequest) => {
+  const header = req.headers?.["content-type"];
+  const value = Array.isArray(header) ? header[0] : header;
+  return value?.split(";")[0]?.trim().toLowerCase() ?? "";
+};
+
+// Stops reading past `limit` so an oversized upload is not buffered whole.
+const readRawBody = async (req: RawBodyRequest, limit: number): Promise<Buffer | null> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const bytes = typeof chunk === "string" ? Buffer.from(chunk) : Buffer.from(chunk as Uint8Array);
+    size += bytes.length;
+    if (size > limit) return null;
+    chunks.push(bytes);
+  }
+
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Reads a POST to /api/verify-contract, which runs without Vercel's body
+ * parser: that parser only hands over bytes for application/octet-stream
+ * and leaves an application/pdf body undefined. PDFs are accepted under
+ * either type; anything else is read as a JSON body.
+ */
+export async function readVerificationBody(req: RawBodyRequest): Promise<VerificationBody> {
+  const contentType = getContentType(req);
+  const isUpload = contentType === "application/pdf" || contentType === "application/octet-stream";
+  const raw = await readRawBody(req, isUpload ? MAX_PDF_BYTES : 64 * 1024);
+
+  if (!raw) {
+    return isUpload
+      ? { kind: "error", error: "pdf_too_large", status: 413 }
+      : { kind: "error", error: "invalid_body", status: 400 };
+  }
+
+  if (isUpload) {
+    return isPdf(raw) ? { kind: "pdf", bytes: raw } : { kind: "error", error: "invalid_pdf", status: 400 };
+  }
+
+  if (raw.length === 0) return { kind: "json", value: null };
+
+  try {
+    return { kind: "json", value: JSON.parse(raw.toString("utf8")) };
+  } catch {
+    return { kind: "json", value: null };
+  }
+}
@@ -2,6 +2,23 @@ import { createClient } from "@supabase/supabase-js";
 import PDFDocument from "pdfkit";
 import { timingSafeEqual } from "node:crypto";
 import { captureApiException, initApiSentry } from "./_shared/sentry.js";
+import {
+  createContractReference,
+  loadContractSigningKey,
+  sha256Hex,
+  signContract,
+  type ContractSigningKey,
+} from "./_shared/contract-signing.js";
+import {
+  DEFAULT_CONTRACT_TEMPLATE_KEY,
+  renderContract,
+} from "../contract-service/src/contractTemplates.js";
+import type {
+  ContractLanguage,
+  ContractPayloadSource,
+  ContractTemplateRow,
+  RenderedContract,
+} from "../contract-service/src/types.js";
 
 const CONTRACT_BUCKET = "contracts";
 const CONTRACT_SERVICE_SECRET = process.env.CONTRACT_SERVICE_SECRET?.trim();
@@ -10,6 +27,20 @@ if (!CONTRACT_SERVICE_SECRET) {
   throw new Error("Missing CONTRACT_SERVICE_SECRET environment variable");
 }
 
+const SITE_URL = (
+  process.env.SITE_URL?.trim() ||
+  process.env.PUBLIC_SITE_URL?.trim() ||
+  process.env.VITE_SITE_URL?.trim() ||
+  "https://www.beatelion.com"
+).replace(/\/+$/, "");
+
+const VERIFICATION_LABELS: Record<ContractLanguage, string> = {
+  fr: "Référence de vérification",
+  en: "Verification reference",
+  de: "Verifizierungsreferenz",
+  es: "Referencia de verificación",
+};
+
 initApiSentry("api-contract-handler");
 
 interface ApiRequest {
@@ -25,21 +56,18 @@ interface ApiResponse {
   json: (payload: unknown) => void;
 }
 
-interface ContractData {
-  producerName: string;
-  buyerName: string;
-  trackTitle: string;
-  purchaseDate: string;
-  licenseName: string;
-  youtubeMonetization: string;
-  musicVideoAllowed: string;
-  maxStreams: string;
-  maxSales: string;
-  creditRequired: string;
+interface ContractVerification {
+  reference: string;
+  url: string;
 }
 
 interface PurchaseContractSeed {
-  contractData: ContractData;
+  source: ContractPayloadSource;
+  // Template already used for this purchase, else the license's template.
+  purchaseTemplateId: string | null;
+  licenseTemplateId: string | null;
+  // Language recorded on the purchase, else the buyer's profile language.
+  language: string | null;
   declaredStoragePath: string | null;
 }
 
@@ -80,16 +108,6 @@ const asPositiveInteger = (value: unknown): number | null => {
   return null;
 };
 
-const yesNo = (value: boolean | null): string => {
-  if (value === null) return "Non défini";
-  return value ? "Oui" : "Non";
-};
-
-const formatLimit = (value: number | null): string => {
-  if (value === null) return "∞";
-  return value.toLocaleString("fr-FR");
-};
-
 const sanitizePathSegment = (value: string | null, fallback: string): string => {
   if (!value) return fallback;
   const normalized = value
@@ -194,9 +212,12 @@ const parseBody = (body: unknown): Record<string, unknown> | null => {
   return asRecord(body);
 };
 
-function generateContractPDF(contractData: ContractData): Promise<Uint8Array> {
+function generateContractPDF(
+  contract: RenderedContract,
+  verification: ContractVerification,
+): Promise<Uint8Array> {
   return new Promise((resolve, reject) => {
-    const doc = new PDFDocument({ margin: 40, size: "A4" });
+    const doc = new PDFDocument({ margin: 40, size: "A4", lang: contract.language });
     const chunks: Uint8Array[] = [];
 
     doc.on("data", (chunk: unknown) => {
@@ -213,33 +234,59 @@ function generateContractPDF(contractData: ContractData): Promise<Uint8Array> {
       reject(error);
     });
 
-    doc.fontSize(18).text("CONTRAT DE LICENCE NON EXCLUSIVE", { align: "center" });
-    doc.moveDown(2);
+    doc.fontSize(18).text(contract.title, { align: "center" });
+    doc.moveDown(0.5);
+    doc.fontSize(10).fillColor("#555555").text(contract.reference, { align: "center" });
+    doc.fillColor("#000000").moveDown(1.5);
 
-    doc
-      .fontSize(12)
-      .text(`Producteur : ${contractData.producerName}`)
-      .text(`Acheteur : ${contractData.buyerName}`)
-      .text(`Titre : ${contractData.trackTitle}`)
-      .text(`Date : ${contractData.purchaseDate}`)
-      .moveDown();
+    doc.fontSize(12);
+    for (const line of contract.parties) {
+      doc.text(line);
+    }
+    doc.moveDown();
 
-    doc.text(`Type de licence : ${contractData.licenseName}`).moveDown();
+    for (const section of contract.sections) {
+      doc.fontSize(13).text(section.heading, { underline: true });
+      doc.moveDown(0.4);
+      doc.fontSize(11).text(section.body, { lineGap: 3 });
+      doc.moveDown();
+    }
 
-    doc.text("Droits accordés :");
-    doc.text(`- Monétisation YouTube : ${contractData.youtubeMonetization}`);
-    doc.text(`- Clip autorisé : ${contractData.musicVideoAllowed}`);
-    doc.text(`- Streams max : ${contractData.maxStreams}`);
-    doc.text(`- Ventes max : ${contractData.maxSales}`);
-    doc.text(`Crédit obligatoire : ${contractData.creditRequired}`).moveDown(2);
+    doc.moveDown();
+    doc.fontSize(12);
+    for (const line of contract.signatures) {
+      doc.text(line);
+    }
 
-    doc.text("Signature Producteur : ______________________");
-    doc.text("Signature Acheteur : ______________________");
+    doc.moveDown(2);
+    doc
+      .fontSize(9)
+      .fillColor("#555555")
+      .text(`${VERIFICATION_LABELS[contract.language]}: ${verification.reference}`, { align: "center" })
+      .text(verification.url, { align: "center", link: verification.url });
 
     doc.end();
   });
 }
 
+let signingKey: ContractSigningKey | null = null;
+
+// Loaded on first use so a missing key fails generation (and the job is
+// retried) without taking the GET deprecation answers down with it.
+const getSigningKey = (): ContractSigningKey => {
+  if (!signingKey) {
+    const pem = asNonEmptyString(process.env.CONTRACT_SIGNING_PRIVATE_KEY);
+    if (!pem) {
+      throw new Error("Missing CONTRACT_SIGNING_PRIVATE_KEY environment variable");
+    }
+    signingKey = loadContractSigningKey(pem);
+  }
+  return signingKey;
+};
+
+const buildVerificationUrl = (reference: string) =>
+  `${SITE_URL}/api/verify-contract?reference=${encodeURIComponent(reference)}`;
+
 const getSupabaseAdmin = () => {
   const supabaseUrl = asNonEmptyString(process.env.SUPABASE_URL) ??
     asNonEmptyString(process.env.VITE_SUPABASE_URL);
@@ -277,6 +324,23 @@ const uploadContractToSupabase = async (
   return storagePath;
 };
 
+const removeOrphanedContract = async (
+  supabase: SupabaseAdminClient,
+  purchaseId: string,
+  storagePath: string,
+) => {
+  const { error: cleanupError } = await supabase.storage
+    .from(CONTRACT_BUCKET)
+    .remove([storagePath]);
+  if (cleanupError) {
+    console.error("[api/contracts] Failed to cleanup orphaned contract PDF after DB error", {
+      purchaseId,
+      storagePath,
+      cleanupError,
+    });
+  }
+};
+
 const isAuthorized = (
   headers: Record<string, string | string[] | undefined> | undefined,
 ): boolean => {
@@ -315,19 +379,25 @@ const getPurchaseContractSeed = async (
       license_type,
       completed_at,
       contract_pdf_path,
-      buyer:user_profiles!purchases_user_id_fkey(username, full_name, email),
+      contract_template_id,
+      contract_language,
+      metadata,
+      buyer:user_profiles!purchases_user_id_fkey(username, full_name, email, language),
       product:products!purchases_product_id_fkey(
         title,
         producer:user_profiles!products_producer_id_fkey(username, full_name, email)
       ),
       license:licenses!purchases_license_id_fkey(
         name,
+        description,
+        contract_template_id,
         max_streams,
         max_sales,
         youtube_monetization,
         music_video_allowed,
         credit_required
-      )
+      ),
+      exclusive_sale:exclusive_sale_records!exclusive_sale_records_purchase_id_fkey(prior_leases)
     `)
     .eq("id", purchaseId)
     .maybeSingle();
@@ -349,23 +419,41 @@ const getPurchaseContractSeed = async (
 
   const licenseRaw = toOne(purchase.license as MaybeMany<unknown>);
   const license = asRecord(licenseRaw);
+  // Tiers can be edited after a sale: the terms snapshotted on the purchase win.
+  const snapshot = asRecord(purchase.metadata);
+  const licenseTerm = (key: string): unknown => (
+    snapshot && key in snapshot ? snapshot[key] : license?.[key]
+  );
 
   const buyerName = asNonEmptyString(buyer?.full_name) ??
     asNonEmptyString(buyer?.username) ??
-    asNonEmptyString(buyer?.email) ??
-    "Acheteur";
+    asNonEmptyString(buyer?.email);
   const producerName = asNonEmptyString(producer?.full_name) ??
     asNonEmptyString(producer?.username) ??
-    asNonEmptyString(producer?.email) ??
-    "Producteur";
-  const trackTitle = asNonEmptyString(product?.title) ?? "Titre non renseigné";
-
-  const completedAt = asNonEmptyString(purchase.completed_at);
-  const purchaseDate = new Date(completedAt ?? Date.now()).toLocaleDateString("fr-FR");
+    asNonEmptyString(producer?.email);
 
-  const licenseName = asNonEmptyString(license?.name) ??
+  const licenseName = asNonEmptyString(snapshot?.license_name) ??
+    asNonEmptyString(license?.name) ??
     asNonEmptyString(purchase.license_type) ??
     "Standard";
+  // Recorded by complete_license_purchase when this purchase upgraded another.
+  const supersededPurchaseId = asNonEmptyString(snapshot?.upgraded_from_purchase_id);
+  const supersededLicenseName = asNonEmptyString(snapshot?.upgraded_from_license_name);
+  // Recorded by record_exclusive_sale when this purchase is an exclusive.
+  const exclusiveSale = asRecord(toOne(purchase.exclusive_sale as MaybeMany<unknown>));
+  const priorLeases = (Array.isArray(exclusiveSale?.prior_leases) ? exclusiveSale.prior_leases : [])
+    .map(asRecord)
+    .flatMap((lease) => {
+      const leasePurchaseId = asNonEmptyString(lease?.purchase_id);
+      const purchasedAt = asNonEmptyString(lease?.purchased_at);
+      return leasePurchaseId && purchasedAt
+        ? [{
+            purchaseId: leasePurchaseId,
+            licenseName: asNonEmptyString(lease?.license_name) ?? "Standard",
+            purchasedAt,
+          }]
+        : [];
+    });
 
   const rawDeclaredStoragePath = asNonEmptyString(purchase.contract_pdf_path);
   const declaredStoragePath = rawDeclaredStoragePath
@@ -374,21 +462,55 @@ const getPurchaseContractSeed = async (
 
   return {
     declaredStoragePath,
-    contractData: {
+    purchaseTemplateId: asNonEmptyString(purchase.contract_template_id),
+    licenseTemplateId: asNonEmptyString(license?.contract_template_id),
+    language: asNonEmptyString(purchase.contract_language) ?? asNonEmptyString(buyer?.language),
+    source: {
+      purchaseId,
+      completedAt: asNonEmptyString(purchase.completed_at),
       producerName,
       buyerName,
-      trackTitle,
-      purchaseDate,
+      trackTitle: asNonEmptyString(product?.title),
       licenseName,
-      youtubeMonetization: yesNo(asBoolean(license?.youtube_monetization)),
-      musicVideoAllowed: yesNo(asBoolean(license?.music_video_allowed)),
-      maxStreams: formatLimit(asPositiveInteger(license?.max_streams)),
-      maxSales: formatLimit(asPositiveInteger(license?.max_sales)),
-      creditRequired: yesNo(asBoolean(license?.credit_required)),
+      licenseDescription: asNonEmptyString(license?.description),
+      maxStreams: asPositiveInteger(licenseTerm("max_streams")),
+      maxSales: asPositiveInteger(licenseTerm("max_sales")),
+      youtubeMonetization: asBoolean(licenseTerm("youtube_monetization")),
+      musicVideoAllowed: asBoolean(licenseTerm("music_video_allowed")),
+      creditRequired: asBoolean(licenseTerm("credit_required")),
+      supersedes: supersededPurchaseId
+        ? { purchaseId: supersededPurchaseId, licenseName: supersededLicenseName ?? "Standard" }
+        : null,
+      priorLeases,
     },
   };
 };
 
+const getContractTemplate = async (
+  supabase: SupabaseAdminClient,
+  seed: PurchaseContractSeed,
+): Promise<ContractTemplateRow> => {
+  const templateId = seed.purchaseTemplateId ?? seed.licenseTemplateId;
+  const query = supabase
+    .from("license_contract_templates")
+    .select("id, template_key, version, bodies");
+
+  const { data, error } = templateId
+    ? await query.eq("id", templateId).maybeSingle()
+    : await query
+      .eq("template_key", DEFAULT_CONTRACT_TEMPLATE_KEY)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new Error(`Contract template not found: ${templateId ?? DEFAULT_CONTRACT_TEMPLATE_KEY}`);
+  }
+
+  return data as ContractTemplateRow;
+};
+
 async function handler(req: ApiRequest, res: ApiResponse) {
   res.setHeader("Cache-Control", "no-store");
 
@@ -437,14 +559,60 @@ async function handler(req: ApiRequest, res: ApiResponse) {
         });
       }
 
-      const pdfBuffer = await generateContractPDF(seed.contractData);
+      const template = await getContractTemplate(supabase, seed);
+      const contract = renderContract(template, seed.source, seed.language);
+      const key = getSigningKey();
+      const reference = createContractReference();
+      const pdfBuffer = await generateContractPDF(contract, {
+        reference,
+        url: buildVerificationUrl(reference),
+      });
       const storagePath = buildPurchaseContractPath(purchaseIdFromWebhook);
+      const sha256 = sha256Hex(pdfBuffer);
+      const issuedAt = new Date().toISOString();
+      const signature = signContract(key, {
+        reference,
+        purchaseId: purchaseIdFromWebhook,
+        sha256,
+        issuedAt,
+      });
 
       await uploadContractToSupabase(supabase, pdfBuffer, storagePath);
 
+      const { error: documentError } = await supabase
+        .from("contract_documents")
+        .insert({
+          purchase_id: purchaseIdFromWebhook,
+          reference,
+          storage_path: storagePath,
+          sha256,
+          signature,
+          signing_key_id: key.keyId,
+          contract_template_id: contract.templateId,
+          contract_template_version: contract.templateVersion,
+          contract_language: contract.language,
+          details: seed.source,
+          issued_at: issuedAt,
+        });
+
+      if (documentError) {
+        console.error("[api/contracts] Failed to record contract document", {
+          purchaseId: purchaseIdFromWebhook,
+          storagePath,
+          documentError,
+        });
+        await removeOrphanedContract(supabase, purchaseIdFromWebhook, storagePath);
+        return res.status(500).json({ error: "contract_persistence_failed" });
+      }
+
       const { error: updateError } = await supabase
         .from("purchases")
-        .update({ contract_pdf_path: storagePath })
+        .update({
+          contract_pdf_path: storagePath,
+          contract_template_id: contract.templateId,
+          contract_template_version: contract.templateVersion,
+          contract_language: contract.language,
+        })
         .eq("id", purchaseIdFromWebhook);
 
       if (updateError) {
@@ -453,16 +621,18 @@ async function handler(req: ApiRequest, res: ApiResponse) {
           storagePath,
           updateError,
         });
-        const { error: cleanupError } = await supabase.storage
-          .from(CONTRACT_BUCKET)
-          .remove([storagePath]);
-        if (cleanupError) {
-          console.error("[api/contracts] Failed to cleanup orphaned contract PDF after DB error", {
+        const { error: documentCleanupError } = await supabase
+          .from("contract_documents")
+          .delete()
+          .eq("reference", reference);
+        if (documentCleanupError) {
+          console.error("[api/contracts] Failed to remove contract document after DB error", {
             purchaseId: purchaseIdFromWebhook,
-            storagePath,
-            cleanupError,
+            reference,
+            documentCleanupError,
           });
         }
+        await removeOrphanedContract(supabase, purchaseIdFromWebhook, storagePath);
         return res.status(500).json({ error: "contract_persistence_failed" });
       }
 
@@ -471,6 +641,10 @@ async function handler(req: ApiRequest, res: ApiResponse) {
         generated: true,
         purchaseId: purchaseIdFromWebhook,
         contractPath: storagePath,
+        templateVersion: contract.templateVersion,
+        language: contract.language,
+        reference,
+        sha256,
       });
     }
 
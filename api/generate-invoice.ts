@@ -0,0 +1,363 @@
+import { createClient } from "@supabase/supabase-js";
+import PDFDocument from "pdfkit";
+import { timingSafeEqual } from "node:crypto";
+import { captureApiException, initApiSentry } from "./_shared/sentry.js";
+import { renderInvoice } from "../contract-service/src/invoiceTemplates.js";
+import type {
+  InvoiceKind,
+  InvoicePaymentSource,
+  InvoiceSource,
+  RenderedInvoice,
+} from "../contract-service/src/types.js";
+
+const INVOICE_BUCKET = "invoices";
+// Invoices are generated by the same callers as contracts, with the same secret.
+const CONTRACT_SERVICE_SECRET = process.env.CONTRACT_SERVICE_SECRET?.trim();
+
+if (!CONTRACT_SERVICE_SECRET) {
+  throw new Error("Missing CONTRACT_SERVICE_SECRET environment variable");
+}
+
+initApiSentry("api-generate-invoice");
+
+interface ApiRequest {
+  method?: string;
+  body?: unknown;
+  headers?: Record<string, string | string[] | undefined>;
+}
+
+interface ApiResponse {
+  setHeader: (name: string, value: string) => void;
+  status: (code: number) => ApiResponse;
+  json: (payload: unknown) => void;
+}
+
+type MaybeMany<T> = T | T[] | null | undefined;
+
+const toOne = <T>(value: MaybeMany<T>): T | null => {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+};
+
+const asNonEmptyString = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+};
+
+const asInteger = (value: unknown): number => (
+  typeof value === "number" && Number.isInteger(value) ? value : 0
+);
+
+const parseBody = (body: unknown): Record<string, unknown> | null => {
+  if (!body) return null;
+  if (typeof body === "string") {
+    try {
+      return asRecord(JSON.parse(body));
+    } catch {
+      return null;
+    }
+  }
+  return asRecord(body);
+};
+
+const concatByteChunks = (chunks: Uint8Array[]): Uint8Array => {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const merged = new Uint8Array(total);
+  let offset = 0;
+
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return merged;
+};
+
+// Same secret check as api/contract-handler.
+const isAuthorized = (
+  headers: Record<string, string | string[] | undefined> | undefined,
+): boolean => {
+  if (!headers) return false;
+
+  const provided = headers["x-contract-secret"] ??
+    headers["X-Contract-Secret"] ??
+    headers["authorization"] ??
+    headers["Authorization"];
+
+  if (!provided) return false;
+
+  const rawToken = Array.isArray(provided) ? provided[0] : provided;
+  const token = asNonEmptyString(rawToken);
+  if (!token) return false;
+
+  const bearerToken = asNonEmptyString(token.replace(/^Bearer\s+/i, ""));
+  const safeEquals = (candidate: string): boolean => {
+    const left = Buffer.from(candidate);
+    const right = Buffer.from(CONTRACT_SERVICE_SECRET);
+    if (left.length !== right.length) return false;
+    return timingSafeEqual(left, right);
+  };
+
+  return safeEquals(token) || (bearerToken ? safeEquals(bearerToken) : false);
+};
+
+const getSupabaseAdmin = () => {
+  const supabaseUrl = asNonEmptyString(process.env.SUPABASE_URL) ??
+    asNonEmptyString(process.env.VITE_SUPABASE_URL);
+  const serviceRoleKey = asNonEmptyString(process.env.SUPABASE_SERVICE_ROLE_KEY);
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("Missing SUPABASE_URL and/or SUPABASE_SERVICE_ROLE_KEY");
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+};
+
+type SupabaseAdminClient = ReturnType<typeof getSupabaseAdmin>;
+
+interface InvoiceSeed {
+  source: InvoiceSource;
+  // Buyer's profile language; the invoice falls back to English.
+  language: string | null;
+  pdfPath: string | null;
+}
+
+const getInvoiceSeed = async (
+  supabase: SupabaseAdminClient,
+  invoiceId: string,
+): Promise<InvoiceSeed | null> => {
+  const { data, error } = await supabase
+    .from("invoices")
+    .select(`
+      id,
+      invoice_number,
+      kind,
+      issued_at,
+      seller_name,
+      buyer_name,
+      buyer_email,
+      description,
+      license_name,
+      payment_source,
+      currency,
+      amount_cents,
+      tax_cents,
+      purchase_id,
+      pdf_path,
+      buyer:user_profiles!invoices_buyer_id_fkey(language),
+      credited:invoices!invoices_credited_invoice_id_fkey(invoice_number, purchase_id)
+    `)
+    .eq("id", invoiceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  const invoice = asRecord(data);
+  if (!invoice) return null;
+
+  const buyer = asRecord(toOne(invoice.buyer as MaybeMany<unknown>));
+  // A credit note refers to the purchase through the invoice it cancels.
+  const credited = asRecord(toOne(invoice.credited as MaybeMany<unknown>));
+
+  return {
+    language: asNonEmptyString(buyer?.language),
+    pdfPath: asNonEmptyString(invoice.pdf_path),
+    source: {
+      invoiceNumber: String(invoice.invoice_number),
+      kind: invoice.kind as InvoiceKind,
+      issuedAt: String(invoice.issued_at),
+      sellerName: String(invoice.seller_name),
+      buyerName: String(invoice.buyer_name),
+      buyerEmail: asNonEmptyString(invoice.buyer_email),
+      description: String(invoice.description),
+      licenseName: asNonEmptyString(invoice.license_name),
+      paymentSource: invoice.payment_source as InvoicePaymentSource,
+      currency: String(invoice.currency),
+      amountCents: asInteger(invoice.amount_cents),
+      taxCents: asInteger(invoice.tax_cents),
+      purchaseId: asNonEmptyString(invoice.purchase_id) ?? asNonEmptyString(credited?.purchase_id),
+      creditedInvoiceNumber: asNonEmptyString(credited?.invoice_number),
+    },
+  };
+};
+
+function generateInvoicePDF(invoice: RenderedInvoice): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 50, size: "A4", lang: invoice.language });
+    const chunks: Uint8Array[] = [];
+
+    doc.on("data", (chunk: unknown) => {
+      if (chunk instanceof Uint8Array) {
+        chunks.push(chunk);
+      }
+    });
+
+    doc.on("end", () => {
+      resolve(concatByteChunks(chunks));
+    });
+
+    doc.on("error", (error: unknown) => {
+      reject(error);
+    });
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const amountRow = (label: string, value: string, bold = false) => {
+      const y = doc.y;
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica");
+      doc.text(label, left, y, { width: width - 140 });
+      const labelBottom = doc.y;
+      doc.text(value, left + width - 140, y, { width: 140, align: "right" });
+      doc.y = Math.max(labelBottom, doc.y);
+      doc.moveDown(0.3);
+    };
+
+    doc.font("Helvetica-Bold").fontSize(18).text(invoice.title, left);
+    doc.moveDown();
+
+    doc.fontSize(10);
+    for (const row of invoice.details) {
+      doc.font("Helvetica").text(`${row.label}: ${row.value}`, left);
+    }
+    doc.moveDown();
+
+    const partiesTop = doc.y;
+    const [sellerHeading, ...sellerLines] = invoice.seller;
+    doc.font("Helvetica-Bold").text(sellerHeading ?? "", left, partiesTop, { width: width / 2 - 10 });
+    doc.font("Helvetica").text(sellerLines.join("\n"), { width: width / 2 - 10 });
+    const sellerBottom = doc.y;
+
+    const [buyerHeading, ...buyerLines] = invoice.buyer;
+    doc.font("Helvetica-Bold").text(buyerHeading ?? "", left + width / 2, partiesTop, { width: width / 2 });
+    doc.font("Helvetica").text(buyerLines.join("\n"), { width: width / 2 });
+    doc.y = Math.max(sellerBottom, doc.y);
+    doc.moveDown(2);
+
+    doc.fontSize(11);
+    for (const line of invoice.lines) {
+      amountRow(line.label, line.value);
+    }
+    doc.moveTo(left, doc.y).lineTo(left + width, doc.y).strokeColor("#cccccc").stroke();
+    doc.moveDown(0.6);
+
+    invoice.totals.forEach((row, index) => {
+      amountRow(row.label, row.value, index === invoice.totals.length - 1);
+    });
+
+    doc.moveDown(2);
+    doc.font("Helvetica").fontSize(9).fillColor("#555555");
+    for (const note of invoice.notes) {
+      doc.text(note, left, doc.y, { width, align: "center" });
+    }
+
+    doc.end();
+  });
+}
+
+const buildInvoicePath = (invoiceId: string) => `invoices/${invoiceId}/${Date.now()}.pdf`;
+
+async function handler(req: ApiRequest, res: ApiResponse) {
+  res.setHeader("Cache-Control", "no-store");
+
+  const method = (req.method ?? "GET").toUpperCase();
+
+  try {
+    if (method !== "POST") {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    if (!isAuthorized(req.headers)) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const body = parseBody(req.body);
+    const invoiceId = asNonEmptyString(body?.invoice_id);
+    if (!invoiceId) {
+      return res.status(400).json({ error: "invoice_id is required" });
+    }
+
+    const supabase = getSupabaseAdmin();
+    const seed = await getInvoiceSeed(supabase, invoiceId);
+    if (!seed) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
+
+    if (seed.pdfPath) {
+      return res.status(200).json({ ok: true, generated: false, invoiceId, invoicePath: seed.pdfPath });
+    }
+
+    const invoice = renderInvoice(seed.source, seed.language);
+    const pdfBuffer = await generateInvoicePDF(invoice);
+    const storagePath = buildInvoicePath(invoiceId);
+
+    const { error: uploadError } = await supabase.storage
+      .from(INVOICE_BUCKET)
+      .upload(storagePath, pdfBuffer, {
+        contentType: "application/pdf",
+        upsert: false,
+      });
+
+    if (uploadError) throw uploadError;
+
+    // Only the first generation wins: a concurrent call leaves its copy unused.
+    const { data: updated, error: updateError } = await supabase
+      .from("invoices")
+      .update({ pdf_path: storagePath, pdf_generated_at: new Date().toISOString() })
+      .eq("id", invoiceId)
+      .is("pdf_path", null)
+      .select("pdf_path")
+      .maybeSingle();
+
+    if (updateError || !updated) {
+      const { error: cleanupError } = await supabase.storage
+        .from(INVOICE_BUCKET)
+        .remove([storagePath]);
+      if (cleanupError) {
+        console.error("[api/invoices] Failed to cleanup unused invoice PDF", {
+          invoiceId,
+          storagePath,
+          cleanupError,
+        });
+      }
+    }
+
+    if (updateError) {
+      console.error("[api/invoices] Failed to update invoices.pdf_path", {
+        invoiceId,
+        storagePath,
+        updateError,
+      });
+      return res.status(500).json({ error: "invoice_persistence_failed" });
+    }
+
+    if (!updated) {
+      const current = await getInvoiceSeed(supabase, invoiceId);
+      return res.status(200).json({ ok: true, generated: false, invoiceId, invoicePath: current?.pdfPath ?? null });
+    }
+
+    return res.status(200).json({
+      ok: true,
+      generated: true,
+      invoiceId,
+      invoicePath: storagePath,
+      language: invoice.language,
+    });
+  } catch (error) {
+    captureApiException(error, {
+      serviceName: "api-generate-invoice",
+      method,
+      route: "/api/generate-invoice",
+    });
+    console.error("[api/invoices] Unexpected error", error);
+    return res.status(500).json({ error: "Erreur interne" });
+  }
+}
+
+export default handler;
@@ -7,10 +7,13 @@ import {
   getBattleCriterionLabel,
   getBattleOutcome,
   getBattleParticipants,
+  getBattlePodium,
+  getCypherBallotCount,
   getVoteLabel,
   type BattleOgData,
   type BattleOgLoserShareData,
   type BattleOgParticipant,
+  type BattleOgPodiumEntry,
   type BattleShareTarget,
 } from '../_shared/battle-og.js';
 
@@ -29,6 +32,11 @@ interface ParticipantView extends BattleOgParticipant {
   avatarDataUrl: string | null;
 }
 
+interface PodiumView extends BattleOgPodiumEntry {
+  producerName: string;
+  avatarDataUrl: string | null;
+}
+
 const WIDTH = 1200;
 const HEIGHT = 630;
 const BAR_WIDTH = 1060;
@@ -175,7 +183,17 @@ async function buildParticipantViews(battle: BattleOgData | null) {
   return views as [ParticipantView, ParticipantView];
 }
 
-function avatar(participant: ParticipantView, size: number, fallback: string) {
+async function buildPodiumViews(battle: BattleOgData | null): Promise<PodiumView[]> {
+  return Promise.all(
+    getBattlePodium(battle).map(async (entry) => ({
+      ...entry,
+      producerName: entry.entrant.producerName,
+      avatarDataUrl: await fetchAvatarDataUrl(entry.entrant.producerAvatarUrl, 180),
+    })),
+  );
+}
+
+function avatar(participant: Pick<ParticipantView, 'avatarDataUrl' | 'producerName'>, size: number, fallback: string) {
   const common: CSSProperties = {
     width: size,
     height: size,
@@ -369,6 +387,116 @@ function renderBattleImage({
   );
 }
 
+// Steps are drawn 2-1-3; tied entrants share a step and are listed side by side.
+const PODIUM_STEPS = [
+  { rank: 2, left: 110, height: 96, color: '#D4D4D8' },
+  { rank: 1, left: 430, height: 140, color: '#FBBF24' },
+  { rank: 3, left: 750, height: 64, color: '#FB923C' },
+] as const;
+const PODIUM_STEP_WIDTH = 340;
+const PODIUM_BASE = 540;
+
+function podiumStep(step: (typeof PODIUM_STEPS)[number], entries: PodiumView[]) {
+  const names = entries.map((entry) => entry.producerName).join(' / ');
+  const points = entries[0]?.entrant.points ?? 0;
+  const top = PODIUM_BASE - step.height;
+
+  return [
+    box(
+      {
+        position: 'absolute',
+        left: step.left,
+        top: top - 164,
+        width: PODIUM_STEP_WIDTH,
+        flexDirection: 'column',
+        alignItems: 'center',
+      },
+      box(
+        { flexDirection: 'row' },
+        ...entries.slice(0, 3).map((entry) => box({ marginLeft: 4, marginRight: 4 }, avatar(entry, 72, String(step.rank)))),
+      ),
+      box({ color: '#FAFAFA', fontSize: 22, fontWeight: 700, marginTop: 10 }, truncate(names || '-', 26)),
+      box({ color: step.color, fontSize: 20, fontWeight: 700, marginTop: 4 }, entries.length > 0 ? `${points} pts` : ''),
+    ),
+    box(
+      {
+        position: 'absolute',
+        left: step.left,
+        top,
+        width: PODIUM_STEP_WIDTH,
+        height: step.height,
+        borderTopLeftRadius: 16,
+        borderTopRightRadius: 16,
+        backgroundColor: '#1F1F24',
+        borderTop: `4px solid ${step.color}`,
+        justifyContent: 'center',
+        paddingTop: 12,
+        color: step.color,
+        fontSize: 40,
+        fontWeight: 900,
+      },
+      String(step.rank),
+    ),
+  ];
+}
+
+function renderCypherImage({
+  battle,
+  podium,
+  target,
+  slug,
+  host,
+}: {
+  battle: BattleOgData | null;
+  podium: PodiumView[];
+  target: BattleShareTarget;
+  slug: string | null;
+  host: string;
+}) {
+  const ballots = getCypherBallotCount(battle);
+  const entrantCount = battle?.entrants.length ?? 0;
+
+  return root(
+    ...brand(target === 'feedback' ? 'Feedback de cypher' : 'Producer Cypher'),
+    pill(target === 'feedback' ? 'RESULTAT FINAL' : (battle?.status ?? 'cypher').toUpperCase(), 914, 78, 186),
+    box(
+      {
+        position: 'absolute',
+        left: 70,
+        top: 158,
+        width: 1060,
+        color: '#FAFAFA',
+        fontSize: 48,
+        fontWeight: 900,
+        lineHeight: 1.05,
+      },
+      truncate(battle?.title ?? 'Cypher Beatelion', 58),
+    ),
+    ...(ballots > 0
+      ? PODIUM_STEPS.flatMap((step) => podiumStep(step, podium.filter((entry) => entry.rank === step.rank)))
+      : [
+          box(
+            {
+              position: 'absolute',
+              left: 70,
+              top: 330,
+              width: 1060,
+              justifyContent: 'center',
+              color: '#A1A1AA',
+              fontSize: 30,
+              fontWeight: 700,
+            },
+            `${entrantCount} producteurs - votes en cours`,
+          ),
+        ]),
+    box(
+      { position: 'absolute', left: 70, top: 558, color: '#71717A', fontSize: 18 },
+      `${host} - ${entrantCount} producteurs - ${ballots} ${getVoteLabel(ballots)}`,
+    ),
+    box({ position: 'absolute', right: 70, top: 558, color: '#71717A', fontSize: 18 }, truncate(slug ?? 'battle', 54)),
+  );
+}
+
 function winnerFeedbackCard(winner: ParticipantView, opponent: ParticipantView, totalVotes: number, winnerPercent: number) {
   return box(
     {
@@ -721,9 +849,12 @@ export default async function handler(req: ApiRequest, res: ApiResponse) {
         return null;
       })
     : null;
-  const participants = await buildParticipantViews(battle);
+  const isCypher = battle?.format === 'cypher';
+  const participants = await buildParticipantViews(isCypher ? null : battle);
   const tree = isLoserCard
     ? renderLoserShareImage({ battle, slug, host })
+    : isCypher
+    ? renderCypherImage({ battle, podium: await buildPodiumViews(battle), target, slug, host })
     : target === 'feedback'
     ? renderFeedbackImage({ battle, participants, slug, host })
     : renderBattleImage({ battle, participants, slug, host });
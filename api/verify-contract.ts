@@ -0,0 +1,259 @@
+import { createClient } from "@supabase/supabase-js";
+import type { KeyObject } from "node:crypto";
+import { captureApiException, initApiSentry } from "./_shared/sentry.js";
+import {
+  getContractKeyId,
+  loadContractVerificationKey,
+  normalizeContractReference,
+  sha256Hex,
+  verifyContractSignature,
+} from "./_shared/contract-signing.js";
+import { readVerificationBody, type RawBodyRequest } from "./_shared/contract-upload.js";
+
+initApiSentry("api-verify-contract");
+
+// The body is read from the request stream: see readVerificationBody.
+export const config = { api: { bodyParser: false } };
+
+interface ApiRequest extends RawBodyRequest {
+  method?: string;
+  query?: Record<string, unknown>;
+}
+
+interface ApiResponse {
+  setHeader: (name: string, value: string) => void;
+  status: (code: number) => ApiResponse;
+  json: (payload: unknown) => void;
+  end: () => void;
+}
+
+interface ContractDocumentRow {
+  purchase_id: string;
+  reference: string;
+  storage_path: string;
+  sha256: string;
+  signature: string;
+  signing_key_id: string;
+  contract_template_version: number | null;
+  contract_language: string | null;
+  details: unknown;
+  issued_at: string;
+}
+
+type DocumentLookup =
+  | { by: "reference"; reference: string }
+  | { by: "sha256"; sha256: string };
+
+const asRecord = (value: unknown): Record<string, unknown> | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+};
+
+const asNonEmptyString = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+};
+
+const firstValue = (value: unknown): unknown => (Array.isArray(value) ? value[0] : value);
+
+const getSupabaseAdmin = () => {
+  const supabaseUrl = asNonEmptyString(process.env.SUPABASE_URL) ??
+    asNonEmptyString(process.env.VITE_SUPABASE_URL);
+  const serviceRoleKey = asNonEmptyString(process.env.SUPABASE_SERVICE_ROLE_KEY);
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("Missing SUPABASE_URL and/or SUPABASE_SERVICE_ROLE_KEY");
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+};
+
+type SupabaseAdminClient = ReturnType<typeof getSupabaseAdmin>;
+
+let verificationKey: KeyObject | null = null;
+
+const getVerificationKey = (): KeyObject => {
+  if (!verificationKey) {
+    const pem = asNonEmptyString(process.env.CONTRACT_SIGNING_PUBLIC_KEY) ??
+      asNonEmptyString(process.env.CONTRACT_SIGNING_PRIVATE_KEY);
+    if (!pem) {
+      throw new Error("Missing CONTRACT_SIGNING_PUBLIC_KEY environment variable");
+    }
+    verificationKey = loadContractVerificationKey(pem);
+  }
+  return verificationKey;
+};
+
+/**
+ * GET ?reference=, POST {"reference"} or POST the PDF itself
+ * (Content-Type: application/pdf), which is looked up by its SHA-256.
+ */
+const resolveLookup = async (
+  req: ApiRequest,
+  method: string,
+): Promise<DocumentLookup | { error: string; status: number }> => {
+  let rawReference: unknown;
+
+  if (method === "POST") {
+    const body = await readVerificationBody(req);
+    if (body.kind === "error") return { error: body.error, status: body.status };
+    if (body.kind === "pdf") return { by: "sha256", sha256: sha256Hex(body.bytes) };
+    rawReference = asRecord(body.value)?.reference;
+  } else {
+    rawReference = firstValue(req.query?.reference);
+  }
+
+  const typed = asNonEmptyString(rawReference);
+  if (!typed) return { error: "missing_reference", status: 400 };
+
+  const reference = normalizeContractReference(typed);
+  if (!reference) return { error: "invalid_reference", status: 400 };
+
+  return { by: "reference", reference };
+};
+
+const findContractDocument = async (
+  supabase: SupabaseAdminClient,
+  lookup: DocumentLookup,
+): Promise<ContractDocumentRow | null> => {
+  const query = supabase
+    .from("contract_documents")
+    .select(`
+      purchase_id,
+      reference,
+      storage_path,
+      sha256,
+      signature,
+      signing_key_id,
+      contract_template_version,
+      contract_language,
+      details,
+      issued_at
+    `);
+
+  const { data, error } = lookup.by === "reference"
+    ? await query.eq("reference", lookup.reference).maybeSingle()
+    : await query
+      .eq("sha256", lookup.sha256)
+      .order("issued_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+  if (error) throw error;
+  return (data as ContractDocumentRow | null) ?? null;
+};
+
+const getPurchaseState = async (supabase: SupabaseAdminClient, document: ContractDocumentRow) => {
+  const { data, error } = await supabase
+    .from("purchases")
+    .select("contract_pdf_path, superseded_by_purchase_id, contract_voided_at")
+    .eq("id", document.purchase_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return {
+    isCurrent: data?.contract_pdf_path === document.storage_path,
+    // The license was later upgraded: its contract ended with the new one.
+    supersededByPurchaseId: asNonEmptyString(data?.superseded_by_purchase_id),
+    // Refunded or lost to a dispute: the document is authentic but grants nothing.
+    voidedAt: asNonEmptyString(data?.contract_voided_at),
+  };
+};
+
+async function handler(req: ApiRequest, res: ApiResponse) {
+  res.setHeader("Cache-Control", "no-store");
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  const method = (req.method ?? "GET").toUpperCase();
+
+  try {
+    if (method === "OPTIONS") {
+      return res.status(204).end();
+    }
+
+    if (method !== "GET" && method !== "POST") {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    const lookup = await resolveLookup(req, method);
+    if ("error" in lookup) {
+      return res.status(lookup.status).json({ valid: false, error: lookup.error });
+    }
+
+    const supabase = getSupabaseAdmin();
+    const document = await findContractDocument(supabase, lookup);
+    if (!document) {
+      return res.status(404).json({ valid: false, error: "contract_not_found" });
+    }
+
+    const publicKey = getVerificationKey();
+    // Signatures made with a retired key cannot be checked against the
+    // current one; the record itself is still reported.
+    const signatureValid = document.signing_key_id === getContractKeyId(publicKey)
+      ? verifyContractSignature(publicKey, {
+        reference: document.reference,
+        purchaseId: document.purchase_id,
+        sha256: document.sha256,
+        issuedAt: new Date(document.issued_at).toISOString(),
+      }, document.signature)
+      : null;
+
+    if (signatureValid === false) {
+      console.error("[api/verify-contract] Stored contract signature does not verify", {
+        reference: document.reference,
+        purchaseId: document.purchase_id,
+      });
+    }
+
+    const details = asRecord(document.details) ?? {};
+    const purchaseState = await getPurchaseState(supabase, document);
+    const supersedes = asRecord(details.supersedes);
+
+    return res.status(200).json({
+      valid: signatureValid !== false && purchaseState.voidedAt === null,
+      reference: document.reference,
+      issued_at: document.issued_at,
+      sha256: document.sha256,
+      // An uploaded PDF is found by its hash, so its bytes are exactly the
+      // ones issued; a reference alone says nothing about a given file.
+      content_match: lookup.by === "sha256" ? true : null,
+      signature_valid: signatureValid,
+      is_current: purchaseState.isCurrent,
+      superseded: purchaseState.supersededByPurchaseId !== null,
+      superseded_by_purchase_id: purchaseState.supersededByPurchaseId,
+      voided: purchaseState.voidedAt !== null,
+      voided_at: purchaseState.voidedAt,
+      purchase_id: document.purchase_id,
+      template_version: document.contract_template_version,
+      language: document.contract_language,
+      contract: {
+        producer_name: details.producerName ?? null,
+        buyer_name: details.buyerName ?? null,
+        track_title: details.trackTitle ?? null,
+        license_name: details.licenseName ?? null,
+        max_streams: details.maxStreams ?? null,
+        max_sales: details.maxSales ?? null,
+        youtube_monetization: details.youtubeMonetization ?? null,
+        music_video_allowed: details.musicVideoAllowed ?? null,
+        credit_required: details.creditRequired ?? null,
+        purchased_at: details.completedAt ?? null,
+        supersedes_purchase_id: supersedes?.purchaseId ?? null,
+      },
+    });
+  } catch (error) {
+    captureApiException(error, {
+      serviceName: "api-verify-contract",
+      method,
+      route: "/api/verify-contract",
+    });
+    console.error("[api/verify-contract] Unexpected error", error);
+    return res.status(500).json({ error: "internal_error" });
+  }
+}
+
+export default handler;
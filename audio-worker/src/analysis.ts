@@ -0,0 +1,350 @@
+import type { AudioAnalysisResult, KeyEstimate, TempoEstimate } from "./types.js";
+
+const PCM_S16_BYTES_PER_SAMPLE = 2;
+const PCM_S16_FULL_SCALE = 32_768;
+
+// Onset envelope: short frames with a small hop give enough time resolution
+// to tell 140 from 142 BPM once the autocorrelation peak is interpolated.
+const ONSET_FFT_SIZE = 512;
+const ONSET_HOP_SIZE = 128;
+// Chroma: long frames so adjacent semitones land in distinct FFT bins.
+const CHROMA_FFT_SIZE = 4096;
+const CHROMA_HOP_SIZE = 2048;
+const CHROMA_MIN_FREQ_HZ = 55;
+const CHROMA_MAX_FREQ_HZ = 2_000;
+
+const MIN_TEMPO_BPM = 60;
+const MAX_TEMPO_BPM = 200;
+// Half/double-time ambiguities are folded into the range beats are usually
+// listed at, so a trap beat is reported at 140 rather than 70.
+const FOLDED_MIN_BPM = 70;
+const FOLDED_MAX_BPM = 180;
+// Log-normal prior centred on 120 BPM (one octave wide) that breaks ties
+// between a tempo and its multiples in the autocorrelation.
+const TEMPO_PRIOR_CENTER_BPM = 120;
+const TEMPO_PRIOR_OCTAVE_WIDTH = 1;
+const MIN_ANALYSIS_SECONDS = 5;
+
+// Correlation margin over the runner-up key at which the estimate is
+// reported as fully confident.
+const KEY_CONFIDENT_MARGIN = 0.15;
+
+const PITCH_CLASS_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"] as const;
+
+// Krumhansl-Kessler probe-tone profiles, tonic first.
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+export const toMonoSamples = (pcm: Buffer) => {
+  const sampleCount = Math.floor(pcm.byteLength / PCM_S16_BYTES_PER_SAMPLE);
+  const samples = new Float64Array(sampleCount);
+  for (let index = 0; index < sampleCount; index += 1) {
+    samples[index] = pcm.readInt16LE(index * PCM_S16_BYTES_PER_SAMPLE) / PCM_S16_FULL_SCALE;
+  }
+  return samples;
+};
+
+const buildHannWindow = (size: number) => {
+  const window = new Float64Array(size);
+  for (let index = 0; index < size; index += 1) {
+    window[index] = 0.5 - 0.5 * Math.cos((2 * Math.PI * index) / (size - 1));
+  }
+  return window;
+};
+
+// Iterative in-place radix-2 FFT. `re.length` must be a power of two.
+const fftInPlace = (re: Float64Array, im: Float64Array) => {
+  const size = re.length;
+
+  for (let index = 1, swapIndex = 0; index < size; index += 1) {
+    let bit = size >> 1;
+    for (; swapIndex & bit; bit >>= 1) {
+      swapIndex ^= bit;
+    }
+    swapIndex ^= bit;
+
+    if (index < swapIndex) {
+      const tmpRe = re[index]!;
+      re[index] = re[swapIndex]!;
+      re[swapIndex] = tmpRe;
+      const tmpIm = im[index]!;
+      im[index] = im[swapIndex]!;
+      im[swapIndex] = tmpIm;
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const half = length >> 1;
+    const angle = (-2 * Math.PI) / length;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+
+    for (let start = 0; start < size; start += length) {
+      let twiddleRe = 1;
+      let twiddleIm = 0;
+
+      for (let offset = 0; offset < half; offset += 1) {
+        const even = start + offset;
+        const odd = even + half;
+        const oddRe = re[odd]! * twiddleRe - im[odd]! * twiddleIm;
+        const oddIm = re[odd]! * twiddleIm + im[odd]! * twiddleRe;
+
+        re[odd] = re[even]! - oddRe;
+        im[odd] = im[even]! - oddIm;
+        re[even] = re[even]! + oddRe;
+        im[even] = im[even]! + oddIm;
+
+        const nextTwiddleRe = twiddleRe * stepRe - twiddleIm * stepIm;
+        twiddleIm = twiddleRe * stepIm + twiddleIm * stepRe;
+        twiddleRe = nextTwiddleRe;
+      }
+    }
+  }
+};
+
+/**
+ * Slide a Hann-windowed FFT over the signal and hand the magnitude spectrum
+ * (bins 0..fftSize/2) of every frame to `onFrame`. The magnitude buffer is
+ * reused between calls.
+ */
+export const forEachMagnitudeFrame = (
+  samples: Float64Array,
+  fftSize: number,
+  hopSize: number,
+  onFrame: (magnitudes: Float64Array) => void,
+) => {
+  const window = buildHannWindow(fftSize);
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  const magnitudes = new Float64Array(fftSize / 2 + 1);
+
+  for (let start = 0; start + fftSize <= samples.length; start += hopSize) {
+    for (let index = 0; index < fftSize; index += 1) {
+      re[index] = samples[start + index]! * window[index]!;
+      im[index] = 0;
+    }
+
+    fftInPlace(re, im);
+
+    for (let bin = 0; bin < magnitudes.length; bin += 1) {
+      magnitudes[bin] = Math.hypot(re[bin]!, im[bin]!);
+    }
+
+    onFrame(magnitudes);
+  }
+};
+
+// Log-compressed, half-wave rectified spectral flux.
+const computeOnsetEnvelope = (samples: Float64Array) => {
+  const envelope: number[] = [];
+  let previous: Float64Array | null = null;
+
+  forEachMagnitudeFrame(samples, ONSET_FFT_SIZE, ONSET_HOP_SIZE, (magnitudes) => {
+    const current = new Float64Array(magnitudes.length);
+    let flux = 0;
+
+    for (let bin = 0; bin < magnitudes.length; bin += 1) {
+      current[bin] = Math.log1p(100 * magnitudes[bin]!);
+      if (previous) {
+        flux += Math.max(0, current[bin]! - previous[bin]!);
+      }
+    }
+
+    envelope.push(flux);
+    previous = current;
+  });
+
+  return envelope;
+};
+
+const foldTempo = (bpm: number) => {
+  let folded = bpm;
+  while (folded < FOLDED_MIN_BPM) folded *= 2;
+  while (folded >= FOLDED_MAX_BPM) folded /= 2;
+  return folded;
+};
+
+/**
+ * Estimate the tempo from the autocorrelation of the onset envelope.
+ *
+ * Confidence is the salience of the winning lag: how far its
+ * autocorrelation stands above the average of the searched tempo range,
+ * relative to the full spread of that range. A flat, beatless envelope
+ * scores close to 0.
+ */
+export const estimateTempo = (samples: Float64Array, sampleRate: number): TempoEstimate | null => {
+  const envelope = computeOnsetEnvelope(samples);
+  const frameRate = sampleRate / ONSET_HOP_SIZE;
+  if (envelope.length < frameRate * MIN_ANALYSIS_SECONDS) {
+    return null;
+  }
+
+  const mean = envelope.reduce((sum, value) => sum + value, 0) / envelope.length;
+  const centered = envelope.map((value) => value - mean);
+
+  const minLag = Math.max(2, Math.floor((60 * frameRate) / MAX_TEMPO_BPM));
+  const maxLag = Math.ceil((60 * frameRate) / MIN_TEMPO_BPM);
+  if (maxLag + 1 >= centered.length) {
+    return null;
+  }
+
+  const autocorrelation = new Float64Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag += 1) {
+    let sum = 0;
+    for (let index = 0; index + lag < centered.length; index += 1) {
+      sum += centered[index]! * centered[index + lag]!;
+    }
+    autocorrelation[lag] = sum / (centered.length - lag);
+  }
+
+  let bestLag = -1;
+  let bestScore = Number.NEGATIVE_INFINITY;
+  let rangeMin = Number.POSITIVE_INFINITY;
+  let rangeMax = Number.NEGATIVE_INFINITY;
+  let rangeSum = 0;
+
+  for (let lag = minLag; lag <= maxLag; lag += 1) {
+    const value = autocorrelation[lag]!;
+    rangeMin = Math.min(rangeMin, value);
+    rangeMax = Math.max(rangeMax, value);
+    rangeSum += value;
+
+    const isLocalPeak = value >= autocorrelation[lag - 1]! && value >= autocorrelation[lag + 1]!;
+    if (!isLocalPeak || value <= 0) {
+      continue;
+    }
+
+    const octavesFromCenter = Math.log2((60 * frameRate) / lag / TEMPO_PRIOR_CENTER_BPM);
+    const prior = Math.exp(-0.5 * (octavesFromCenter / TEMPO_PRIOR_OCTAVE_WIDTH) ** 2);
+    const score = value * prior;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  if (bestLag < 0 || rangeMax <= rangeMin) {
+    return null;
+  }
+
+  // Parabolic interpolation around the peak for sub-frame lag precision.
+  const left = autocorrelation[bestLag - 1]!;
+  const center = autocorrelation[bestLag]!;
+  const right = autocorrelation[bestLag + 1]!;
+  const curvature = left - 2 * center + right;
+  const offset = curvature < 0 ? (0.5 * (left - right)) / curvature : 0;
+  const refinedLag = bestLag + Math.max(-0.5, Math.min(0.5, offset));
+
+  const rangeMean = rangeSum / (maxLag - minLag + 1);
+  return {
+    bpm: Number(foldTempo((60 * frameRate) / refinedLag).toFixed(1)),
+    confidence: Number(clamp01((center - rangeMean) / (rangeMax - rangeMin)).toFixed(3)),
+  };
+};
+
+const pearson = (left: ArrayLike<number>, right: ArrayLike<number>) => {
+  const size = left.length;
+  let leftMean = 0;
+  let rightMean = 0;
+  for (let index = 0; index < size; index += 1) {
+    leftMean += left[index]!;
+    rightMean += right[index]!;
+  }
+  leftMean /= size;
+  rightMean /= size;
+
+  let covariance = 0;
+  let leftVariance = 0;
+  let rightVariance = 0;
+  for (let index = 0; index < size; index += 1) {
+    const leftDelta = left[index]! - leftMean;
+    const rightDelta = right[index]! - rightMean;
+    covariance += leftDelta * rightDelta;
+    leftVariance += leftDelta ** 2;
+    rightVariance += rightDelta ** 2;
+  }
+
+  const denominator = Math.sqrt(leftVariance * rightVariance);
+  return denominator > 0 ? covariance / denominator : 0;
+};
+
+/**
+ * Estimate the key by correlating the averaged chroma vector against the 24
+ * rotated Krumhansl-Kessler profiles. Keys use the same notation producers
+ * type in `key_signature` ("Am", "F#"), always spelled with sharps.
+ *
+ * Confidence is the correlation margin over the runner-up key (often the
+ * relative major/minor), scaled so a margin of KEY_CONFIDENT_MARGIN or more
+ * reports 1.
+ */
+export const estimateKey = (samples: Float64Array, sampleRate: number): KeyEstimate | null => {
+  if (samples.length < sampleRate * MIN_ANALYSIS_SECONDS) {
+    return null;
+  }
+
+  const binPitchClasses = new Int8Array(CHROMA_FFT_SIZE / 2 + 1).fill(-1);
+  for (let bin = 1; bin < binPitchClasses.length; bin += 1) {
+    const frequency = (bin * sampleRate) / CHROMA_FFT_SIZE;
+    if (frequency < CHROMA_MIN_FREQ_HZ || frequency > CHROMA_MAX_FREQ_HZ) {
+      continue;
+    }
+    // MIDI-style semitone index relative to A4, shifted so C = 0.
+    const semitone = Math.round(12 * Math.log2(frequency / 440)) + 9;
+    binPitchClasses[bin] = ((semitone % 12) + 12) % 12;
+  }
+
+  const chroma = new Float64Array(12);
+  forEachMagnitudeFrame(samples, CHROMA_FFT_SIZE, CHROMA_HOP_SIZE, (magnitudes) => {
+    for (let bin = 1; bin < magnitudes.length; bin += 1) {
+      const pitchClass = binPitchClasses[bin]!;
+      if (pitchClass >= 0) {
+        chroma[pitchClass] = chroma[pitchClass]! + magnitudes[bin]!;
+      }
+    }
+  });
+
+  if (chroma.every((value) => value === 0)) {
+    return null;
+  }
+
+  const candidates: Array<{ key: string; correlation: number }> = [];
+  for (let tonic = 0; tonic < 12; tonic += 1) {
+    for (const [profile, suffix] of [[MAJOR_PROFILE, ""], [MINOR_PROFILE, "m"]] as const) {
+      const rotated = Array.from({ length: 12 }, (_, pitchClass) => profile[(pitchClass - tonic + 12) % 12]!);
+      candidates.push({
+        key: `${PITCH_CLASS_NAMES[tonic]}${suffix}`,
+        correlation: pearson(chroma, rotated),
+      });
+    }
+  }
+
+  candidates.sort((left, right) => right.correlation - left.correlation);
+  const [best, runnerUp] = candidates;
+  if (!best || !runnerUp || best.correlation <= 0) {
+    return null;
+  }
+
+  return {
+    key: best.key,
+    confidence: Number(clamp01((best.correlation - runnerUp.correlation) / KEY_CONFIDENT_MARGIN).toFixed(3)),
+  };
+};
+
+/**
+ * Analyze mono signed 16-bit little-endian PCM. Runs entirely on CPU; the
+ * caller bounds the input length through ffmpeg (`-t`).
+ */
+export const analyzeAudioPcm = (pcm: Buffer, sampleRate: number): AudioAnalysisResult => {
+  const samples = toMonoSamples(pcm);
+  if (samples.length === 0) {
+    throw new Error("analysis: decoded PCM is empty");
+  }
+
+  return {
+    tempo: estimateTempo(samples, sampleRate),
+    key: estimateKey(samples, sampleRate),
+    analyzedDurationSec: Number((samples.length / sampleRate).toFixed(3)),
+  };
+};
@@ -5,6 +5,7 @@ import type { WorkerConfig } from "./types.js";
 const DEFAULT_WATERMARKED_BUCKET = "beats-watermarked";
 const DEFAULT_WATERMARK_ASSETS_BUCKET = "watermark-assets";
 const DEFAULT_BATCH_LIMIT = 3;
+const DEFAULT_JOB_CONCURRENCY = 1;
 const DEFAULT_DOWNLOAD_MASTER_MAX_BYTES = 50 * 1024 * 1024;
 const DEFAULT_WATERMARK_MAX_BYTES = 10 * 1024 * 1024;
 const DEFAULT_POLL_INTERVAL_MS = 30_000;
@@ -12,12 +13,32 @@ const DEFAULT_ERROR_BACKOFF_MS = 15_000;
 const DEFAULT_FFMPEG_TIMEOUT_MS = 120_000;
 const DEFAULT_PREVIEW_AUDIO_BITRATE = "192k";
 const DEFAULT_PREVIEW_AUDIO_SAMPLE_RATE = 44_100;
+const DEFAULT_PREVIEW_LOW_AUDIO_BITRATE = "64k";
+const DEFAULT_HLS_AUDIO_BITRATE = "96k";
+const DEFAULT_HLS_SEGMENT_DURATION_SEC = 6;
+const DEFAULT_WAVEFORM_PEAK_COUNT = 800;
+const DEFAULT_WAVEFORM_SAMPLE_RATE = 8_000;
+const DEFAULT_ANALYSIS_SAMPLE_RATE = 11_025;
+const DEFAULT_ANALYSIS_MAX_DURATION_SEC = 240;
+const DEFAULT_FINGERPRINT_MATCH_THRESHOLD = 0.75;
+const DEFAULT_FINGERPRINT_CANDIDATE_LIMIT = 10;
+const DEFAULT_STEMS_MAX_BYTES = 500 * 1024 * 1024;
+const DEFAULT_STEM_ARCHIVE_MAX_ENTRIES = 64;
+const DEFAULT_STEM_SILENCE_THRESHOLD_DB = -60;
+const DEFAULT_STEM_DURATION_TOLERANCE_SEC = 2;
+const DEFAULT_QUALITY_MAX_CLIPPED_RATIO = 0.001;
+const DEFAULT_QUALITY_MAX_SILENCE_RATIO = 0.5;
+const DEFAULT_QUALITY_SILENCE_THRESHOLD_DB = -60;
+const DEFAULT_QUALITY_MIN_CHANNEL_CORRELATION = -0.5;
+const DEFAULT_QUALITY_MIN_SAMPLE_RATE = 44_100;
+const DEFAULT_QUALITY_MIN_BIT_DEPTH = 16;
 const DEFAULT_JOB_TIMEOUT_MS = 10 * 60_000;
 const DEFAULT_SHUTDOWN_GRACE_MS = 30_000;
 const DEFAULT_LOUDNORM_ENABLED = false;
 const DEFAULT_LOUDNORM_TARGET_LUFS = -12;
 const DEFAULT_LOUDNORM_TARGET_TRUE_PEAK_DB = -1;
 const DEFAULT_LOUDNORM_TARGET_LRA = 11;
+const DEFAULT_HTTP_PORT = 10_000;
 
 const readEnv = (name: string) => process.env[name]?.trim() ?? "";
 
@@ -70,6 +91,22 @@ const parseBooleanFlag = (name: string, fallback: boolean) => {
   throw new Error(`Invalid boolean for ${name}: ${raw}`);
 };
 
+const parseLocalStorage = () => {
+  const raw = readEnv("STORAGE_BACKEND").toLowerCase() || "supabase";
+  if (raw !== "supabase" && raw !== "local") {
+    throw new Error(`Invalid STORAGE_BACKEND: ${raw} (expected supabase or local)`);
+  }
+  if (raw === "supabase") {
+    return null;
+  }
+
+  const rootDir = readEnv("LOCAL_STORAGE_ROOT");
+  if (!rootDir) {
+    throw new Error("Missing required environment variable: LOCAL_STORAGE_ROOT (STORAGE_BACKEND=local)");
+  }
+  return { rootDir, publicUrl: readEnv("LOCAL_STORAGE_PUBLIC_URL") || null };
+};
+
 const resolveMasterBucket = () => {
   const masterBucket = readEnv("SUPABASE_MASTER_BUCKET") || readEnv("SUPABASE_AUDIO_BUCKET");
   if (!masterBucket) {
@@ -83,6 +120,12 @@ const buildDefaultWorkerId = () => {
   return `${host}-${process.pid}`;
 };
 
+const jobConcurrency = parsePositiveInt("JOB_CONCURRENCY", DEFAULT_JOB_CONCURRENCY);
+const downloadMasterMaxBytes = parsePositiveInt(
+  "DOWNLOAD_MASTER_MAX_BYTES",
+  DEFAULT_DOWNLOAD_MASTER_MAX_BYTES,
+);
+
 export const config: WorkerConfig = {
   supabaseUrl: requireEnv("SUPABASE_URL"),
   supabaseServiceRoleKey: resolveServiceRoleKey(),
@@ -94,9 +137,12 @@ export const config: WorkerConfig = {
   ),
   workerId: parseNonEmpty("WORKER_ID", buildDefaultWorkerId()),
   batchLimit: parsePositiveInt("BATCH_LIMIT", DEFAULT_BATCH_LIMIT),
-  downloadMasterMaxBytes: parsePositiveInt(
-    "DOWNLOAD_MASTER_MAX_BYTES",
-    DEFAULT_DOWNLOAD_MASTER_MAX_BYTES,
+  jobConcurrency,
+  downloadMasterMaxBytes,
+  // By default every lane can pull a maximal master at once.
+  downloadInFlightMaxBytes: parsePositiveInt(
+    "DOWNLOAD_IN_FLIGHT_MAX_BYTES",
+    downloadMasterMaxBytes * jobConcurrency,
   ),
   watermarkMaxBytes: parsePositiveInt("WATERMARK_MAX_BYTES", DEFAULT_WATERMARK_MAX_BYTES),
   pollIntervalMs: parsePositiveInt("POLL_INTERVAL_MS", DEFAULT_POLL_INTERVAL_MS),
@@ -109,6 +155,55 @@ export const config: WorkerConfig = {
     "PREVIEW_AUDIO_SAMPLE_RATE",
     DEFAULT_PREVIEW_AUDIO_SAMPLE_RATE,
   ),
+  previewLowAudioBitrate: parseNonEmpty("PREVIEW_LOW_AUDIO_BITRATE", DEFAULT_PREVIEW_LOW_AUDIO_BITRATE),
+  hlsAudioBitrate: parseNonEmpty("HLS_AUDIO_BITRATE", DEFAULT_HLS_AUDIO_BITRATE),
+  hlsSegmentDurationSec: parsePositiveInt("HLS_SEGMENT_DURATION_SEC", DEFAULT_HLS_SEGMENT_DURATION_SEC),
+  waveformPeakCount: parsePositiveInt("WAVEFORM_PEAK_COUNT", DEFAULT_WAVEFORM_PEAK_COUNT),
+  waveformSampleRate: parsePositiveInt("WAVEFORM_SAMPLE_RATE", DEFAULT_WAVEFORM_SAMPLE_RATE),
+  analysisSampleRate: parsePositiveInt("ANALYSIS_SAMPLE_RATE", DEFAULT_ANALYSIS_SAMPLE_RATE),
+  analysisMaxDurationSec: parsePositiveInt(
+    "ANALYSIS_MAX_DURATION_SEC",
+    DEFAULT_ANALYSIS_MAX_DURATION_SEC,
+  ),
+  fingerprintMatchThreshold: parseFiniteNumber(
+    "FINGERPRINT_MATCH_THRESHOLD",
+    DEFAULT_FINGERPRINT_MATCH_THRESHOLD,
+  ),
+  fingerprintCandidateLimit: parsePositiveInt(
+    "FINGERPRINT_CANDIDATE_LIMIT",
+    DEFAULT_FINGERPRINT_CANDIDATE_LIMIT,
+  ),
+  stemsMaxBytes: parsePositiveInt("STEMS_MAX_BYTES", DEFAULT_STEMS_MAX_BYTES),
+  stemArchiveMaxEntries: parsePositiveInt(
+    "STEM_ARCHIVE_MAX_ENTRIES",
+    DEFAULT_STEM_ARCHIVE_MAX_ENTRIES,
+  ),
+  stemSilenceThresholdDb: parseFiniteNumber(
+    "STEM_SILENCE_THRESHOLD_DB",
+    DEFAULT_STEM_SILENCE_THRESHOLD_DB,
+  ),
+  stemDurationToleranceSec: parseFiniteNumber(
+    "STEM_DURATION_TOLERANCE_SEC",
+    DEFAULT_STEM_DURATION_TOLERANCE_SEC,
+  ),
+  qualityMaxClippedRatio: parseFiniteNumber(
+    "QUALITY_MAX_CLIPPED_RATIO",
+    DEFAULT_QUALITY_MAX_CLIPPED_RATIO,
+  ),
+  qualityMaxSilenceRatio: parseFiniteNumber(
+    "QUALITY_MAX_SILENCE_RATIO",
+    DEFAULT_QUALITY_MAX_SILENCE_RATIO,
+  ),
+  qualitySilenceThresholdDb: parseFiniteNumber(
+    "QUALITY_SILENCE_THRESHOLD_DB",
+    DEFAULT_QUALITY_SILENCE_THRESHOLD_DB,
+  ),
+  qualityMinChannelCorrelation: parseFiniteNumber(
+    "QUALITY_MIN_CHANNEL_CORRELATION",
+    DEFAULT_QUALITY_MIN_CHANNEL_CORRELATION,
+  ),
+  qualityMinSampleRate: parsePositiveInt("QUALITY_MIN_SAMPLE_RATE", DEFAULT_QUALITY_MIN_SAMPLE_RATE),
+  qualityMinBitDepth: parsePositiveInt("QUALITY_MIN_BIT_DEPTH", DEFAULT_QUALITY_MIN_BIT_DEPTH),
   jobTimeoutMs: parsePositiveInt("JOB_TIMEOUT_MS", DEFAULT_JOB_TIMEOUT_MS),
   tempRoot: parseNonEmpty("TMP_ROOT", path.join(os.tmpdir(), "levelup-audio-worker")),
   shutdownGraceMs: parsePositiveInt("SHUTDOWN_GRACE_MS", DEFAULT_SHUTDOWN_GRACE_MS),
@@ -119,6 +214,9 @@ export const config: WorkerConfig = {
     DEFAULT_LOUDNORM_TARGET_TRUE_PEAK_DB,
   ),
   loudnormTargetLraDefault: parseFiniteNumber("TARGET_LRA", DEFAULT_LOUDNORM_TARGET_LRA),
+  localStorage: parseLocalStorage(),
+  httpPort: parsePositiveInt("PORT", DEFAULT_HTTP_PORT),
+  adminToken: readEnv("WORKER_ADMIN_TOKEN") || null,
 };
 
 export const publicConfig = {
@@ -128,7 +226,9 @@ export const publicConfig = {
   watermarkAssetsBucket: config.watermarkAssetsBucket,
   workerId: config.workerId,
   batchLimit: config.batchLimit,
+  jobConcurrency: config.jobConcurrency,
   downloadMasterMaxBytes: config.downloadMasterMaxBytes,
+  downloadInFlightMaxBytes: config.downloadInFlightMaxBytes,
   watermarkMaxBytes: config.watermarkMaxBytes,
   pollIntervalMs: config.pollIntervalMs,
   errorBackoffMs: config.errorBackoffMs,
@@ -137,6 +237,25 @@ export const publicConfig = {
   ffmpegTimeoutMs: config.ffmpegTimeoutMs,
   previewAudioBitrate: config.previewAudioBitrate,
   previewAudioSampleRate: config.previewAudioSampleRate,
+  previewLowAudioBitrate: config.previewLowAudioBitrate,
+  hlsAudioBitrate: config.hlsAudioBitrate,
+  hlsSegmentDurationSec: config.hlsSegmentDurationSec,
+  waveformPeakCount: config.waveformPeakCount,
+  waveformSampleRate: config.waveformSampleRate,
+  analysisSampleRate: config.analysisSampleRate,
+  analysisMaxDurationSec: config.analysisMaxDurationSec,
+  fingerprintMatchThreshold: config.fingerprintMatchThreshold,
+  fingerprintCandidateLimit: config.fingerprintCandidateLimit,
+  stemsMaxBytes: config.stemsMaxBytes,
+  stemArchiveMaxEntries: config.stemArchiveMaxEntries,
+  stemSilenceThresholdDb: config.stemSilenceThresholdDb,
+  stemDurationToleranceSec: config.stemDurationToleranceSec,
+  qualityMaxClippedRatio: config.qualityMaxClippedRatio,
+  qualityMaxSilenceRatio: config.qualityMaxSilenceRatio,
+  qualitySilenceThresholdDb: config.qualitySilenceThresholdDb,
+  qualityMinChannelCorrelation: config.qualityMinChannelCorrelation,
+  qualityMinSampleRate: config.qualityMinSampleRate,
+  qualityMinBitDepth: config.qualityMinBitDepth,
   jobTimeoutMs: config.jobTimeoutMs,
   tempRoot: config.tempRoot,
   shutdownGraceMs: config.shutdownGraceMs,
@@ -144,4 +263,8 @@ export const publicConfig = {
   loudnormTargetLufsDefault: config.loudnormTargetLufsDefault,
   loudnormTargetTruePeakDbDefault: config.loudnormTargetTruePeakDbDefault,
   loudnormTargetLraDefault: config.loudnormTargetLraDefault,
+  storageBackend: config.localStorage ? "local" : "supabase",
+  localStorageRoot: config.localStorage?.rootDir ?? null,
+  httpPort: config.httpPort,
+  adminEnabled: config.adminToken !== null,
 };
@@ -0,0 +1,94 @@
+interface Waiter {
+  bytes: number;
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  signal: AbortSignal | undefined;
+  onAbort: () => void;
+}
+
+/**
+ * Caps the bytes that concurrent jobs may download at the same time.
+ *
+ * Object sizes are not known before streaming starts, so callers reserve the
+ * per-object maximum they pass to downloadObjectToFile. A reservation larger
+ * than the whole budget is clamped so it can still run alone. Waiters are
+ * served in arrival order so a large download is not starved by small ones.
+ */
+export class DownloadBudget {
+  private inFlight = 0;
+  private readonly waiters: Waiter[] = [];
+
+  constructor(readonly capacityBytes: number) {}
+
+  get inFlightBytes() {
+    return this.inFlight;
+  }
+
+  acquire(bytes: number, signal?: AbortSignal): Promise<() => void> {
+    const reserved = Math.min(Math.max(bytes, 0), this.capacityBytes);
+
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason instanceof Error ? signal.reason : new Error("job_aborted"));
+    }
+
+    if (this.waiters.length === 0 && this.inFlight + reserved <= this.capacityBytes) {
+      this.inFlight += reserved;
+      return Promise.resolve(this.createRelease(reserved));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        bytes: reserved,
+        resolve,
+        reject,
+        signal,
+        onAbort: () => {
+          const index = this.waiters.indexOf(waiter);
+          if (index >= 0) {
+            this.waiters.splice(index, 1);
+          }
+          reject(signal?.reason instanceof Error ? signal.reason : new Error("job_aborted"));
+          // The head may have been the one blocking smaller reservations.
+          this.grantWaiters();
+        },
+      };
+
+      signal?.addEventListener("abort", waiter.onAbort, { once: true });
+      this.waiters.push(waiter);
+    });
+  }
+
+  /** Runs `task` under a reservation of `bytes`, released however the task ends. */
+  async run<T>(bytes: number, signal: AbortSignal | undefined, task: () => Promise<T>): Promise<T> {
+    const release = await this.acquire(bytes, signal);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  private createRelease(bytes: number) {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.inFlight -= bytes;
+      this.grantWaiters();
+    };
+  }
+
+  private grantWaiters() {
+    while (this.waiters.length > 0) {
+      const head = this.waiters[0]!;
+      if (this.inFlight + head.bytes > this.capacityBytes) {
+        return;
+      }
+
+      this.waiters.shift();
+      head.signal?.removeEventListener("abort", head.onAbort);
+      this.inFlight += head.bytes;
+      head.resolve(this.createRelease(head.bytes));
+    }
+  }
+}
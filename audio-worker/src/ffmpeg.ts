@@ -1,6 +1,8 @@
 import { spawn } from "node:child_process";
 import { once } from "node:events";
+import path from "node:path";
 import type {
+  AudioFormatProbe,
   LoudnessAnalysis,
   LoudnessTargets,
   RenderPreviewParams,
@@ -41,13 +43,16 @@ interface RunCommandOptions {
   stdoutMaxChars?: number;
   captureStderr?: boolean;
   stderrMaxChars?: number;
+  // Resolve with the exit code instead of throwing when the command fails
+  // (timeouts and aborts still throw).
+  allowNonZeroExit?: boolean;
 }
 
 const runCommand = async (
   command: string,
   args: string[],
   options: RunCommandOptions = {},
-): Promise<{ stdout: string; stderr: string; tail: string[] }> => {
+): Promise<{ stdout: string; stderr: string; tail: string[]; exitCode: number | null }> => {
   const {
     timeoutMs,
     signal,
@@ -55,6 +60,7 @@ const runCommand = async (
     stdoutMaxChars = MAX_CAPTURE_STDOUT_CHARS,
     captureStderr = false,
     stderrMaxChars = MAX_CAPTURE_STDERR_CHARS,
+    allowNonZeroExit = false,
   } = options;
 
   if (signal?.aborted) {
@@ -110,8 +116,10 @@ const runCommand = async (
     }, timeoutMs)
     : null;
 
+  let exitCode: number | null = null;
+
   try {
-    const [exitCode] = (await Promise.race([
+    [exitCode] = (await Promise.race([
       once(child, "close"),
       once(child, "error").then(([error]) => {
         throw error;
@@ -128,7 +136,7 @@ const runCommand = async (
       throw toAbortError(signal?.reason, `${command} aborted`);
     }
 
-    if (exitCode !== 0) {
+    if (exitCode !== 0 && !allowNonZeroExit) {
       throw new Error(
         `${command} exited with code ${exitCode ?? "unknown"}: ${tail.slice(-10).join(" | ")}`,
       );
@@ -142,7 +150,7 @@ const runCommand = async (
     }
   }
 
-  return { stdout, stderr, tail };
+  return { stdout, stderr, tail, exitCode };
 };
 
 const buildFilterComplex = (
@@ -211,6 +219,167 @@ export const probeAudioDurationSec = async (
   return duration;
 };
 
+/**
+ * Duration of the first audio stream, or null when ffprobe finds no audio
+ * stream in the file (a renamed image, a text file, a truncated WAV...).
+ */
+export const probeAudioStreamDurationSec = async (
+  ffprobeBin: string,
+  filePath: string,
+  options: { timeoutMs?: number; signal?: AbortSignal } = {},
+): Promise<number | null> => {
+  const { stdout } = await runCommand(ffprobeBin, [
+    "-v",
+    "error",
+    "-select_streams",
+    "a:0",
+    "-show_entries",
+    "stream=codec_type,duration:format=duration",
+    "-of",
+    "json",
+    filePath,
+  ], {
+    captureStdout: true,
+    ...(options.timeoutMs !== undefined ? { timeoutMs: options.timeoutMs } : {}),
+    ...(options.signal ? { signal: options.signal } : {}),
+  });
+
+  const parsed = JSON.parse(stdout || "{}") as {
+    streams?: Array<{ codec_type?: string; duration?: string }>;
+    format?: { duration?: string };
+  };
+  const stream = parsed.streams?.find((entry) => entry.codec_type === "audio");
+  if (!stream) {
+    return null;
+  }
+
+  const duration = Number.parseFloat(stream.duration ?? parsed.format?.duration ?? "");
+  return Number.isFinite(duration) && duration > 0 ? duration : null;
+};
+
+const LOSSLESS_CODECS = new Set(["flac", "alac", "wavpack", "ape", "tta", "tak"]);
+
+const SAMPLE_FORMAT_BITS: Record<string, number> = {
+  u8: 8,
+  s16: 16,
+  s32: 32,
+  s64: 64,
+  flt: 32,
+  dbl: 64,
+};
+
+const parsePositiveNumber = (value: unknown) => {
+  const parsed = typeof value === "number" ? value : Number.parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+/**
+ * Format of the first audio stream, or null when ffprobe cannot read the
+ * file or finds no audio stream in it.
+ */
+export const probeAudioFormat = async (
+  ffprobeBin: string,
+  filePath: string,
+  options: { timeoutMs?: number; signal?: AbortSignal } = {},
+): Promise<AudioFormatProbe | null> => {
+  const { stdout, exitCode } = await runCommand(ffprobeBin, [
+    "-v",
+    "error",
+    "-select_streams",
+    "a:0",
+    "-show_entries",
+    "stream=codec_type,codec_name,sample_rate,channels,sample_fmt,bits_per_sample,bits_per_raw_sample,duration:format=duration",
+    "-of",
+    "json",
+    filePath,
+  ], {
+    captureStdout: true,
+    allowNonZeroExit: true,
+    ...(options.timeoutMs !== undefined ? { timeoutMs: options.timeoutMs } : {}),
+    ...(options.signal ? { signal: options.signal } : {}),
+  });
+
+  if (exitCode !== 0) {
+    return null;
+  }
+
+  const parsed = JSON.parse(stdout || "{}") as {
+    streams?: Array<{
+      codec_type?: string;
+      codec_name?: string;
+      sample_rate?: string;
+      channels?: number;
+      sample_fmt?: string;
+      bits_per_sample?: number;
+      bits_per_raw_sample?: string;
+      duration?: string;
+    }>;
+    format?: { duration?: string };
+  };
+  const stream = parsed.streams?.find((entry) => entry.codec_type === "audio");
+  if (!stream) {
+    return null;
+  }
+
+  const codecName = stream.codec_name ?? null;
+  const isLossless = codecName !== null && (codecName.startsWith("pcm_") || LOSSLESS_CODECS.has(codecName));
+  const bitDepth = isLossless
+    ? parsePositiveNumber(stream.bits_per_raw_sample)
+      ?? parsePositiveNumber(stream.bits_per_sample)
+      ?? SAMPLE_FORMAT_BITS[(stream.sample_fmt ?? "").replace(/p$/, "")]
+      ?? null
+    : null;
+
+  return {
+    codecName,
+    sampleRate: parsePositiveNumber(stream.sample_rate),
+    channels: parsePositiveNumber(stream.channels),
+    bitDepth,
+    durationSec: parsePositiveNumber(stream.duration ?? parsed.format?.duration),
+  };
+};
+
+/**
+ * Peak level of a file in dBFS through ffmpeg's volumedetect filter.
+ * Digital silence is reported as -Infinity.
+ */
+export const measureMaxVolumeDb = async (
+  inputPath: string,
+  options: {
+    ffmpegBin: string;
+    ffmpegTimeoutMs: number;
+    signal?: AbortSignal;
+  },
+): Promise<number | null> => {
+  const { stderr } = await runCommand(
+    options.ffmpegBin,
+    [
+      "-hide_banner",
+      "-nostats",
+      "-i",
+      inputPath,
+      "-vn",
+      "-af",
+      "volumedetect",
+      "-f",
+      "null",
+      "-",
+    ],
+    {
+      timeoutMs: options.ffmpegTimeoutMs,
+      captureStderr: true,
+      ...(options.signal ? { signal: options.signal } : {}),
+    },
+  );
+
+  const match = /max_volume:\s*(-?inf|-?\d+(?:\.\d+)?) dB/.exec(stderr);
+  if (!match) {
+    return null;
+  }
+
+  return match[1]!.endsWith("inf") ? Number.NEGATIVE_INFINITY : Number.parseFloat(match[1]!);
+};
+
 export const renderWatermarkedPreview = async (
   params: RenderPreviewParams,
 ): Promise<RenderPreviewResult> => {
@@ -423,3 +592,231 @@ export const applyLoudnorm = async (
     },
   );
 };
+
+// ---------------------------------------------------------------------------
+// Waveform extraction
+//
+// Decodes the rendered preview to mono signed 16-bit PCM at a low sample rate
+// so the peaks computed from it match exactly what listeners hear (watermark
+// included). The raw file stays in the job temp dir and is discarded with it.
+// ---------------------------------------------------------------------------
+
+export const decodeWaveformPcm = async (
+  inputPath: string,
+  outputPath: string,
+  options: {
+    ffmpegBin: string;
+    ffmpegTimeoutMs: number;
+    sampleRate: number;
+    signal?: AbortSignal;
+  },
+): Promise<void> => {
+  await runCommand(
+    options.ffmpegBin,
+    [
+      "-hide_banner",
+      "-nostats",
+      "-y",
+      "-i",
+      inputPath,
+      "-vn",
+      "-ac",
+      "1",
+      "-ar",
+      String(Math.round(options.sampleRate)),
+      "-c:a",
+      "pcm_s16le",
+      "-f",
+      "s16le",
+      outputPath,
+    ],
+    {
+      timeoutMs: options.ffmpegTimeoutMs,
+      ...(options.signal ? { signal: options.signal } : {}),
+    },
+  );
+};
+
+export const decodeAnalysisPcm = async (
+  inputPath: string,
+  outputPath: string,
+  options: {
+    ffmpegBin: string;
+    ffmpegTimeoutMs: number;
+    sampleRate: number;
+    maxDurationSec: number;
+    signal?: AbortSignal;
+  },
+): Promise<void> => {
+  await runCommand(
+    options.ffmpegBin,
+    [
+      "-hide_banner",
+      "-nostats",
+      "-y",
+      "-i",
+      inputPath,
+      "-vn",
+      "-t",
+      String(Math.max(1, Math.round(options.maxDurationSec))),
+      "-ac",
+      "1",
+      "-ar",
+      String(Math.round(options.sampleRate)),
+      "-c:a",
+      "pcm_s16le",
+      "-f",
+      "s16le",
+      outputPath,
+    ],
+    {
+      timeoutMs: options.ffmpegTimeoutMs,
+      ...(options.signal ? { signal: options.signal } : {}),
+    },
+  );
+};
+
+/**
+ * Decode the whole master at its own sample rate to interleaved 32-bit float
+ * PCM (at most two channels) for the quality gate. Decoder errors are
+ * returned rather than thrown: a file ffmpeg cannot decode cleanly is a
+ * corrupt master, not a failed job.
+ */
+export const decodeQualityPcm = async (
+  inputPath: string,
+  outputPath: string,
+  options: {
+    ffmpegBin: string;
+    ffmpegTimeoutMs: number;
+    channels: number;
+    signal?: AbortSignal;
+  },
+): Promise<{ ok: boolean; errors: string[] }> => {
+  const { stderr, exitCode } = await runCommand(
+    options.ffmpegBin,
+    [
+      "-hide_banner",
+      "-nostats",
+      "-v",
+      "error",
+      "-y",
+      "-i",
+      inputPath,
+      "-vn",
+      "-ac",
+      String(Math.min(Math.max(Math.round(options.channels), 1), 2)),
+      "-c:a",
+      "pcm_f32le",
+      "-f",
+      "f32le",
+      outputPath,
+    ],
+    {
+      timeoutMs: options.ffmpegTimeoutMs,
+      captureStderr: true,
+      allowNonZeroExit: true,
+      ...(options.signal ? { signal: options.signal } : {}),
+    },
+  );
+
+  const errors = stderr
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  return { ok: exitCode === 0 && errors.length === 0, errors };
+};
+
+/**
+ * Re-encode an already watermarked preview at a lower bitrate for clients on
+ * constrained connections. The input is the final preview, so the watermark
+ * layers are carried over as-is.
+ */
+export const renderLowBitratePreview = async (
+  inputPath: string,
+  outputPath: string,
+  options: {
+    ffmpegBin: string;
+    ffmpegTimeoutMs: number;
+    audioBitrate: string;
+    audioSampleRate: number;
+    signal?: AbortSignal;
+  },
+): Promise<void> => {
+  await runCommand(
+    options.ffmpegBin,
+    [
+      "-hide_banner",
+      "-nostats",
+      "-y",
+      "-i",
+      inputPath,
+      "-vn",
+      "-codec:a",
+      "libmp3lame",
+      "-ac",
+      "2",
+      "-ar",
+      String(options.audioSampleRate),
+      "-b:a",
+      options.audioBitrate,
+      outputPath,
+    ],
+    {
+      timeoutMs: options.ffmpegTimeoutMs,
+      ...(options.signal ? { signal: options.signal } : {}),
+    },
+  );
+};
+
+/**
+ * Segment an already watermarked preview into a VOD HLS playlist
+ * (`index.m3u8` + AAC MPEG-TS segments) inside `outputDir`.
+ */
+export const renderHlsPlaylist = async (
+  inputPath: string,
+  outputDir: string,
+  options: {
+    ffmpegBin: string;
+    ffmpegTimeoutMs: number;
+    audioBitrate: string;
+    audioSampleRate: number;
+    segmentDurationSec: number;
+    signal?: AbortSignal;
+  },
+): Promise<void> => {
+  await runCommand(
+    options.ffmpegBin,
+    [
+      "-hide_banner",
+      "-nostats",
+      "-y",
+      "-i",
+      inputPath,
+      "-vn",
+      "-codec:a",
+      "aac",
+      "-ac",
+      "2",
+      "-ar",
+      String(options.audioSampleRate),
+      "-b:a",
+      options.audioBitrate,
+      "-f",
+      "hls",
+      "-hls_time",
+      String(options.segmentDurationSec),
+      "-hls_playlist_type",
+      "vod",
+      "-hls_segment_type",
+      "mpegts",
+      "-hls_segment_filename",
+      path.join(outputDir, "segment_%03d.ts"),
+      path.join(outputDir, "index.m3u8"),
+    ],
+    {
+      timeoutMs: options.ffmpegTimeoutMs,
+      ...(options.signal ? { signal: options.signal } : {}),
+    },
+  );
+};
@@ -0,0 +1,170 @@
+import { forEachMagnitudeFrame } from "./analysis.js";
+import type { AudioFingerprint, FingerprintComparison } from "./types.js";
+
+// Bump when the code layout changes: fingerprints of different versions are
+// never compared with each other.
+export const FINGERPRINT_ALGORITHM_VERSION = 1;
+
+// Haitsma-Kalker style sub-fingerprints: 33 log-spaced bands between 300 Hz
+// and 2 kHz give 32 bits per frame. Long frames with a short hop keep the
+// codes stable when two decodings of the same audio are not sample-aligned.
+const FRAME_SIZE = 4096;
+const HOP_SIZE = 512;
+const BAND_COUNT = 33;
+const MIN_BAND_FREQ_HZ = 300;
+const MAX_BAND_FREQ_HZ = 2_000;
+// Frames quieter than this (summed band energy, roughly -80 dBFS) carry no
+// information and are stored as code 0, which is never matched: two masters
+// must not look alike just because both end on silence.
+const SILENT_FRAME_ENERGY = 1e-2;
+const SILENT_CODE = 0;
+
+// Offsets with the most exact code hits are verified bit by bit.
+const VERIFIED_OFFSET_COUNT = 5;
+// Overlaps shorter than this are too short to call two masters the same.
+const MIN_OVERLAP_SEC = 10;
+
+const buildBandEdges = (sampleRate: number) => {
+  const edges = new Int32Array(BAND_COUNT + 1);
+  const ratio = MAX_BAND_FREQ_HZ / MIN_BAND_FREQ_HZ;
+  for (let band = 0; band <= BAND_COUNT; band += 1) {
+    const frequency = MIN_BAND_FREQ_HZ * ratio ** (band / BAND_COUNT);
+    edges[band] = Math.round((frequency * FRAME_SIZE) / sampleRate);
+  }
+  return edges;
+};
+
+const popcount32 = (value: number) => {
+  let bits = value - ((value >>> 1) & 0x55555555);
+  bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333);
+  return (((bits + (bits >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+/**
+ * Compute the acoustic fingerprint of mono samples: one signed 32-bit code
+ * per frame, where bit m is set when the energy difference between bands m
+ * and m+1 grew since the previous frame. Codes are signed so they fit a
+ * Postgres `integer[]`; silent frames are stored as 0.
+ */
+export const computeAudioFingerprint = (samples: Float64Array, sampleRate: number): AudioFingerprint => {
+  const edges = buildBandEdges(sampleRate);
+  const codes: number[] = [];
+  let previous: Float64Array | null = null;
+
+  forEachMagnitudeFrame(samples, FRAME_SIZE, HOP_SIZE, (magnitudes) => {
+    const energies = new Float64Array(BAND_COUNT);
+    let totalEnergy = 0;
+    for (let band = 0; band < BAND_COUNT; band += 1) {
+      for (let bin = edges[band]!; bin < edges[band + 1]!; bin += 1) {
+        energies[band] = energies[band]! + magnitudes[bin]! * magnitudes[bin]!;
+      }
+      totalEnergy += energies[band]!;
+    }
+
+    if (previous) {
+      let code = SILENT_CODE;
+      for (let band = 0; band < BAND_COUNT - 1; band += 1) {
+        const delta = energies[band]! - energies[band + 1]! - (previous[band]! - previous[band + 1]!);
+        if (delta > 0) {
+          code |= 1 << band;
+        }
+      }
+      codes.push(totalEnergy < SILENT_FRAME_ENERGY ? SILENT_CODE : code | 0);
+    }
+    previous = energies;
+  });
+
+  return {
+    version: FINGERPRINT_ALGORITHM_VERSION,
+    frameHopSec: HOP_SIZE / sampleRate,
+    durationSec: Number((samples.length / sampleRate).toFixed(3)),
+    codes,
+  };
+};
+
+const similarityAtOffset = (query: number[], reference: number[], offset: number) => {
+  const start = Math.max(0, -offset);
+  const end = Math.min(query.length, reference.length - offset);
+  if (end <= start) {
+    return { similarity: 0, overlapFrames: 0 };
+  }
+
+  let bitErrors = 0;
+  let overlapFrames = 0;
+  for (let index = start; index < end; index += 1) {
+    const queryCode = query[index]!;
+    const referenceCode = reference[index + offset]!;
+    if (queryCode === SILENT_CODE || referenceCode === SILENT_CODE) {
+      continue;
+    }
+    bitErrors += popcount32(queryCode ^ referenceCode);
+    overlapFrames += 1;
+  }
+
+  return {
+    similarity: overlapFrames > 0 ? 1 - bitErrors / (overlapFrames * 32) : 0,
+    overlapFrames,
+  };
+};
+
+/**
+ * Align two fingerprints and report how similar they are over their best
+ * overlap. Candidate alignments come from exact code hits, then each one is
+ * scored as 1 - bit error rate. Unrelated audio scores around 0.5; the same
+ * recording re-encoded, trimmed or watermarked stays well above 0.75.
+ * Returns null when no alignment overlaps for at least MIN_OVERLAP_SEC of
+ * non-silent audio.
+ */
+export const compareFingerprints = (
+  query: AudioFingerprint,
+  reference: AudioFingerprint,
+): FingerprintComparison | null => {
+  if (query.version !== reference.version || query.frameHopSec !== reference.frameHopSec) {
+    return null;
+  }
+
+  const referencePositions = new Map<number, number[]>();
+  reference.codes.forEach((code, index) => {
+    if (code === SILENT_CODE) {
+      return;
+    }
+    const positions = referencePositions.get(code);
+    if (positions) {
+      positions.push(index);
+    } else {
+      referencePositions.set(code, [index]);
+    }
+  });
+
+  const votes = new Map<number, number>();
+  query.codes.forEach((code, index) => {
+    if (code === SILENT_CODE) {
+      return;
+    }
+    for (const position of referencePositions.get(code) ?? []) {
+      const offset = position - index;
+      votes.set(offset, (votes.get(offset) ?? 0) + 1);
+    }
+  });
+
+  const minOverlapFrames = Math.ceil(MIN_OVERLAP_SEC / query.frameHopSec);
+  const offsets = [...votes.entries()]
+    .sort((left, right) => right[1] - left[1])
+    .slice(0, VERIFIED_OFFSET_COUNT)
+    .map(([offset]) => offset);
+
+  let best: FingerprintComparison | null = null;
+  for (const offset of offsets) {
+    const { similarity, overlapFrames } = similarityAtOffset(query.codes, reference.codes, offset);
+    if (overlapFrames < minOverlapFrames || (best && similarity <= best.similarity)) {
+      continue;
+    }
+    best = {
+      similarity: Number(similarity.toFixed(3)),
+      offsetSec: Number((offset * query.frameHopSec).toFixed(3)),
+      overlapSec: Number((overlapFrames * query.frameHopSec).toFixed(3)),
+    };
+  }
+
+  return best;
+};
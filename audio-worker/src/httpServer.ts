@@ -0,0 +1,202 @@
+import http from "node:http";
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { WorkerMetrics } from "./metrics.js";
+import { countAudioProcessingJobs } from "./queue.js";
+import type { SupabaseAdminClient, WorkerConfig, WorkerStatus } from "./types.js";
+
+// Counting rows on every scrape would put the queue table on the scrape
+// interval; a slightly stale depth is fine for dashboards and alerts.
+const QUEUE_DEPTH_REFRESH_MS = 15_000;
+const QUEUE_DEPTH_STATUSES = ["queued", "processing", "error", "dead"] as const;
+// Slack on top of the longest legitimate gap between two heartbeats.
+const LIVENESS_GRACE_MS = 60_000;
+
+type LogFn = (level: "info" | "warn" | "error", event: string, meta?: Record<string, unknown>) => void;
+
+interface ControllableWorker {
+  pause(): void;
+  resume(): void;
+  getStatus(): WorkerStatus;
+}
+
+export interface WorkerHttpServerOptions {
+  supabase: SupabaseAdminClient;
+  config: WorkerConfig;
+  worker: ControllableWorker;
+  metrics: WorkerMetrics;
+  log: LogFn;
+  // Same path as SIGTERM: stop claiming, let the current job finish within
+  // SHUTDOWN_GRACE_MS, then exit.
+  onDrain: () => void;
+}
+
+const sendJson = (res: http.ServerResponse, statusCode: number, body: unknown) => {
+  res.writeHead(statusCode, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+const isAuthorized = (req: http.IncomingMessage, adminToken: string) => {
+  const header = req.headers.authorization ?? "";
+  // Hashing both sides gives equal-length buffers, so the comparison time
+  // does not depend on the token length either.
+  return timingSafeEqual(digest(header), digest(`Bearer ${adminToken}`));
+};
+
+export const createWorkerHttpServer = (options: WorkerHttpServerOptions) => {
+  const { supabase, config, worker, metrics, log } = options;
+  const livenessThresholdMs =
+    config.jobTimeoutMs + Math.max(config.pollIntervalMs, config.errorBackoffMs) + LIVENESS_GRACE_MS;
+  let queueDepthRefreshedAt = 0;
+  let queueDepthRefresh: Promise<void> | null = null;
+
+  const refreshQueueDepth = async () => {
+    if (Date.now() - queueDepthRefreshedAt < QUEUE_DEPTH_REFRESH_MS) return;
+    queueDepthRefresh ??= (async () => {
+      try {
+        const counts = await Promise.all(
+          QUEUE_DEPTH_STATUSES.map((status) => countAudioProcessingJobs(supabase, status)),
+        );
+        QUEUE_DEPTH_STATUSES.forEach((status, index) => {
+          metrics.queueDepth.set({ status }, counts[index] ?? 0);
+        });
+        queueDepthRefreshedAt = Date.now();
+      } catch (error) {
+        // Keep serving the last known values; the scrape itself must not fail.
+        log("warn", "queue_depth_refresh_failed", {
+          workerId: config.workerId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        queueDepthRefresh = null;
+      }
+    })();
+    await queueDepthRefresh;
+  };
+
+  const isLive = (status: WorkerStatus) => {
+    // No heartbeat yet means the worker is still cleaning its temp root.
+    if (!status.lastHeartbeatAt) return true;
+    return Date.now() - Date.parse(status.lastHeartbeatAt) <= livenessThresholdMs;
+  };
+
+  const handleAdmin = (req: http.IncomingMessage, res: http.ServerResponse, route: string) => {
+    if (!config.adminToken) {
+      sendJson(res, 404, { error: "not_found" });
+      return;
+    }
+
+    if (!isAuthorized(req, config.adminToken)) {
+      log("warn", "admin_request_unauthorized", { workerId: config.workerId, route });
+      sendJson(res, 401, { error: "unauthorized" });
+      return;
+    }
+
+    if (route === "/admin/status") {
+      if (req.method !== "GET") {
+        sendJson(res, 405, { error: "method_not_allowed" });
+        return;
+      }
+      sendJson(res, 200, worker.getStatus());
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendJson(res, 405, { error: "method_not_allowed" });
+      return;
+    }
+
+    switch (route) {
+      case "/admin/pause":
+        worker.pause();
+        log("warn", "worker_paused", { workerId: config.workerId });
+        sendJson(res, 200, worker.getStatus());
+        return;
+      case "/admin/resume":
+        worker.resume();
+        log("info", "worker_resumed", { workerId: config.workerId });
+        sendJson(res, 200, worker.getStatus());
+        return;
+      case "/admin/drain":
+        sendJson(res, 202, { ...worker.getStatus(), stopping: true });
+        options.onDrain();
+        return;
+      default:
+        sendJson(res, 404, { error: "not_found" });
+    }
+  };
+
+  const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const route = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (route.startsWith("/admin/")) {
+      handleAdmin(req, res, route);
+      return;
+    }
+
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      sendJson(res, 405, { error: "method_not_allowed" });
+      return;
+    }
+
+    switch (route) {
+      case "/": {
+        res.writeHead(200, { "Content-Type": "text/plain" });
+        res.end("Audio worker is running");
+        return;
+      }
+      case "/healthz": {
+        const status = worker.getStatus();
+        const live = isLive(status);
+        sendJson(res, live ? 200 : 503, {
+          status: live ? "ok" : "stalled",
+          lastHeartbeatAt: status.lastHeartbeatAt,
+        });
+        return;
+      }
+      case "/readyz": {
+        const status = worker.getStatus();
+        const reason = status.stopping
+          ? "draining"
+          : status.paused
+            ? "paused"
+            : !status.lastHeartbeatAt
+              ? "starting"
+              : status.lastLoopError
+                ? "loop_failing"
+                : !isLive(status)
+                  ? "stalled"
+                  : null;
+        sendJson(res, reason ? 503 : 200, {
+          status: reason ?? "ready",
+          lastLoopError: status.lastLoopError,
+        });
+        return;
+      }
+      case "/metrics": {
+        await refreshQueueDepth();
+        res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+        res.end(metrics.render());
+        return;
+      }
+      default:
+        sendJson(res, 404, { error: "not_found" });
+    }
+  };
+
+  return http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      log("error", "http_request_failed", {
+        workerId: config.workerId,
+        url: req.url,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "internal_error" });
+      } else {
+        res.end();
+      }
+    });
+  });
+};
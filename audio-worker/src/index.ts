@@ -1,5 +1,4 @@
 import dotenv from "dotenv";
-import http from "node:http";
 import { captureWorkerException, initWorkerSentry } from "./sentry.js";
 
 dotenv.config();
@@ -33,30 +32,51 @@ const log = (level: "info" | "warn" | "error", event: string, meta: Record<strin
 };
 
 const main = async () => {
-  const [{ assertFfmpegAvailable }, { config, publicConfig }, { createSupabaseAdminClient }, { AudioWorkerService }] =
-    await Promise.all([
-      import("./ffmpeg.js"),
-      import("./config.js"),
-      import("./supabaseClient.js"),
-      import("./worker.js"),
-    ]);
+  const [
+    { assertFfmpegAvailable },
+    { config, publicConfig },
+    { createSupabaseAdminClient },
+    { AudioWorkerService },
+    { WorkerMetrics },
+    { createWorkerHttpServer },
+    { createLocalStorageBackend, createSupabaseStorageBackend },
+  ] = await Promise.all([
+    import("./ffmpeg.js"),
+    import("./config.js"),
+    import("./supabaseClient.js"),
+    import("./worker.js"),
+    import("./metrics.js"),
+    import("./httpServer.js"),
+    import("./storageBackend.js"),
+  ]);
 
   await assertFfmpegAvailable(config.ffmpegBin, config.ffprobeBin);
 
   const supabase = createSupabaseAdminClient(config);
-  const worker = new AudioWorkerService({ supabase, config });
-  const port = Number(process.env.PORT || 10000);
-  const server = http.createServer((req, res) => {
-    res.writeHead(200, { "Content-Type": "text/plain" });
-    res.end("Audio worker is running");
+  const storage = config.localStorage
+    ? createLocalStorageBackend({
+        rootDir: config.localStorage.rootDir,
+        publicBaseUrl: config.localStorage.publicUrl,
+      })
+    : createSupabaseStorageBackend(supabase);
+  const metrics = new WorkerMetrics();
+  const worker = new AudioWorkerService({ supabase, config, storage, metrics });
+  const server = createWorkerHttpServer({
+    supabase,
+    config,
+    worker,
+    metrics,
+    log,
+    onDrain: () => {
+      void shutdown("admin_drain");
+    },
   });
 
-  server.listen(port, () => {
-    console.log(JSON.stringify({
-      level: "info",
-      event: "http_server_started",
-      port,
-    }));
+  server.listen(config.httpPort, () => {
+    log("info", "http_server_started", {
+      port: config.httpPort,
+      adminEnabled: config.adminToken !== null,
+    });
   });
 
   log("info", "worker_starting", publicConfig);
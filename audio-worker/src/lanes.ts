@@ -0,0 +1,30 @@
+export interface LaneHandlers<T> {
+  run: (item: T) => Promise<void>;
+  // Checked before each item; once true, no lane starts another one.
+  shouldStop: () => boolean;
+  // Receives every item no lane started, exactly once.
+  onStopped: (remaining: T[]) => Promise<void>;
+}
+
+/**
+ * Runs `items` on at most `concurrency` lanes. Each lane takes the next
+ * pending item, so a slow item only holds its own lane while the others
+ * drain the rest of the batch. `run` settles its own failures, the way
+ * runClaimedJob marks a failed job.
+ */
+export const runInLanes = async <T>(items: T[], concurrency: number, handlers: LaneHandlers<T>) => {
+  const pending = [...items];
+
+  const runLane = async () => {
+    for (let item = pending.shift(); item !== undefined; item = pending.shift()) {
+      if (handlers.shouldStop()) {
+        await handlers.onStopped([item, ...pending.splice(0)]);
+        return;
+      }
+
+      await handlers.run(item);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, () => runLane()));
+};
@@ -0,0 +1,166 @@
+// In-process metrics rendered in the Prometheus text format (0.0.4). The
+// worker is a single process with a handful of series, so a client library
+// would be overkill.
+type MetricType = "counter" | "gauge" | "histogram";
+type Labels = Record<string, string>;
+
+interface HistogramSeries {
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+const DEFAULT_SECONDS_BUCKETS = [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const labelsKey = (labels: Labels) =>
+  Object.keys(labels)
+    .sort()
+    .map((key) => `${key}="${escapeLabelValue(labels[key] ?? "")}"`)
+    .join(",");
+
+const formatSeries = (name: string, key: string, value: number) =>
+  `${name}${key ? `{${key}}` : ""} ${Number.isFinite(value) ? value : 0}`;
+
+abstract class MetricFamily {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType,
+  ) {}
+
+  abstract renderSeries(): string[];
+
+  render() {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.renderSeries()];
+  }
+}
+
+export class Counter extends MetricFamily {
+  private readonly values = new Map<string, number>();
+
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = labelsKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  renderSeries() {
+    return [...this.values].map(([key, value]) => formatSeries(this.name, key, value));
+  }
+}
+
+export class Gauge extends MetricFamily {
+  private readonly values = new Map<string, number>();
+
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number) {
+    this.values.set(labelsKey(labels), value);
+  }
+
+  renderSeries() {
+    return [...this.values].map(([key, value]) => formatSeries(this.name, key, value));
+  }
+}
+
+export class Histogram extends MetricFamily {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: number[] = DEFAULT_SECONDS_BUCKETS,
+  ) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = labelsKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.bucketCounts[index] = (entry.bucketCounts[index] ?? 0) + 1;
+      }
+    });
+    entry.sum += value;
+    entry.count += 1;
+  }
+
+  renderSeries() {
+    const lines: string[] = [];
+    for (const [key, entry] of this.series) {
+      const prefix = key ? `${key},` : "";
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket{${prefix}le="${bound}"} ${entry.bucketCounts[index] ?? 0}`);
+      });
+      lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${entry.count}`);
+      lines.push(formatSeries(`${this.name}_sum`, key, Number(entry.sum.toFixed(3))));
+      lines.push(formatSeries(`${this.name}_count`, key, entry.count));
+    }
+    return lines;
+  }
+}
+
+export class WorkerMetrics {
+  readonly jobsClaimed = new Counter("audio_worker_jobs_claimed_total", "Jobs claimed from audio_processing_jobs.");
+  readonly jobsSucceeded = new Counter("audio_worker_jobs_succeeded_total", "Jobs finished without error.");
+  readonly jobsFailed = new Counter("audio_worker_jobs_failed_total", "Jobs marked error or dead.");
+  readonly jobsRequeued = new Counter(
+    "audio_worker_jobs_requeued_total",
+    "Claimed jobs put back in the queue (watermark paused, shutdown).",
+  );
+  readonly loudnormApplied = new Counter(
+    "audio_worker_loudnorm_applied_total",
+    "Previews rendered from a loudness-normalized master.",
+  );
+  readonly qualityChecks = new Counter(
+    "audio_worker_quality_checks_total",
+    "Masters graded by analyze_quality, by status and failed check.",
+  );
+  readonly loopFailures = new Counter("audio_worker_loop_failures_total", "Polling loop iterations that threw.");
+  readonly jobSeconds = new Histogram("audio_worker_job_duration_seconds", "Wall time per processed job.");
+  readonly renderSeconds = new Histogram(
+    "audio_worker_render_seconds",
+    "ffmpeg time spent rendering watermarked previews, per layer.",
+  );
+  readonly inFlightJobs = new Gauge("audio_worker_in_flight_jobs", "Jobs currently being processed.");
+  readonly queueDepth = new Gauge("audio_worker_queue_depth", "audio_processing_jobs rows by status.");
+  readonly downloadBytesReserved = new Gauge(
+    "audio_worker_download_bytes_reserved",
+    "Bytes reserved by downloads in progress against DOWNLOAD_IN_FLIGHT_MAX_BYTES.",
+  );
+  readonly paused = new Gauge("audio_worker_paused", "1 while the worker is paused from the admin endpoint.");
+
+  render() {
+    const families: MetricFamily[] = [
+      this.jobsClaimed,
+      this.jobsSucceeded,
+      this.jobsFailed,
+      this.jobsRequeued,
+      this.loudnormApplied,
+      this.qualityChecks,
+      this.loopFailures,
+      this.jobSeconds,
+      this.renderSeconds,
+      this.inFlightJobs,
+      this.queueDepth,
+      this.downloadBytesReserved,
+      this.paused,
+    ];
+
+    return `${families.flatMap((family) => family.render()).join("\n")}\n`;
+  }
+}
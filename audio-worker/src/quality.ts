@@ -0,0 +1,233 @@
+import { createReadStream } from "node:fs";
+import type {
+  AudioFormatProbe,
+  AudioQualityMetrics,
+  AudioQualityReason,
+  AudioQualityReport,
+  AudioQualityThresholds,
+} from "./types.js";
+
+export const AUDIO_QUALITY_REPORT_VERSION = 1;
+
+const BYTES_PER_SAMPLE = 4;
+// Just under full scale: decoders rarely land exactly on 1.0.
+const CLIP_LEVEL = 0.999;
+// A single full-scale sample is a loud peak; this many in a row is clipping.
+const MIN_CLIP_EVENT_SAMPLES = 3;
+const SILENCE_WINDOW_SEC = 0.05;
+const MAX_REPORTED_DECODE_ERRORS = 10;
+
+const toDb = (value: number) => 20 * Math.log10(value);
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * Streaming measurements over interleaved 32-bit float PCM (one or two
+ * channels), so a full-resolution master never has to fit in memory. Chunks
+ * may split a frame; the remainder is carried over to the next push.
+ */
+export class AudioQualityAccumulator {
+  private remainder: Buffer = Buffer.alloc(0);
+  private frames = 0;
+  private peak = 0;
+  private clippedSamples = 0;
+  private clipEvents = 0;
+  private readonly clipRuns: number[];
+  private readonly windowFrames: number;
+  private readonly silenceThreshold: number;
+  private windowFrameCount = 0;
+  private windowSumSquares = 0;
+  private windows = 0;
+  private silentWindows = 0;
+  private silentRun = 0;
+  private longestSilentRun = 0;
+  private sumL = 0;
+  private sumR = 0;
+  private sumLL = 0;
+  private sumRR = 0;
+  private sumLR = 0;
+
+  constructor(
+    readonly sampleRate: number,
+    readonly channels: number,
+    silenceThresholdDb: number,
+  ) {
+    this.clipRuns = new Array<number>(channels).fill(0);
+    this.windowFrames = Math.max(1, Math.round(sampleRate * SILENCE_WINDOW_SEC));
+    this.silenceThreshold = 10 ** (silenceThresholdDb / 20);
+  }
+
+  push(chunk: Buffer) {
+    const data = this.remainder.length > 0 ? Buffer.concat([this.remainder, chunk]) : chunk;
+    const frameBytes = BYTES_PER_SAMPLE * this.channels;
+    const usableBytes = data.length - (data.length % frameBytes);
+
+    for (let offset = 0; offset < usableBytes; offset += frameBytes) {
+      let frameSquares = 0;
+
+      for (let channel = 0; channel < this.channels; channel += 1) {
+        const sample = data.readFloatLE(offset + channel * BYTES_PER_SAMPLE);
+        const magnitude = Math.abs(sample);
+
+        if (magnitude > this.peak) {
+          this.peak = magnitude;
+        }
+
+        if (magnitude >= CLIP_LEVEL) {
+          this.clippedSamples += 1;
+          this.clipRuns[channel] = this.clipRuns[channel]! + 1;
+          if (this.clipRuns[channel] === MIN_CLIP_EVENT_SAMPLES) {
+            this.clipEvents += 1;
+          }
+        } else {
+          this.clipRuns[channel] = 0;
+        }
+
+        frameSquares += sample * sample;
+      }
+
+      if (this.channels >= 2) {
+        const left = data.readFloatLE(offset);
+        const right = data.readFloatLE(offset + BYTES_PER_SAMPLE);
+        this.sumL += left;
+        this.sumR += right;
+        this.sumLL += left * left;
+        this.sumRR += right * right;
+        this.sumLR += left * right;
+      }
+
+      this.frames += 1;
+      this.windowSumSquares += frameSquares / this.channels;
+      this.windowFrameCount += 1;
+      if (this.windowFrameCount === this.windowFrames) {
+        this.closeWindow();
+      }
+    }
+
+    this.remainder = Buffer.from(data.subarray(usableBytes));
+  }
+
+  finish(): AudioQualityMetrics {
+    if (this.windowFrameCount > 0) {
+      this.closeWindow();
+    }
+
+    const totalSamples = this.frames * this.channels;
+
+    return {
+      analyzedDurationSec: round(this.frames / this.sampleRate, 3),
+      peakDbfs: this.peak > 0 ? round(toDb(this.peak), 2) : null,
+      clippedSamples: this.clippedSamples,
+      clippedRatio: totalSamples > 0 ? round(this.clippedSamples / totalSamples, 6) : 0,
+      clipEvents: this.clipEvents,
+      silenceRatio: this.windows > 0 ? round(this.silentWindows / this.windows, 4) : 1,
+      longestSilenceSec: round((this.longestSilentRun * this.windowFrames) / this.sampleRate, 2),
+      channelCorrelation: this.computeCorrelation(),
+    };
+  }
+
+  private closeWindow() {
+    const rms = Math.sqrt(this.windowSumSquares / this.windowFrameCount);
+    this.windows += 1;
+
+    if (rms < this.silenceThreshold) {
+      this.silentWindows += 1;
+      this.silentRun += 1;
+      this.longestSilentRun = Math.max(this.longestSilentRun, this.silentRun);
+    } else {
+      this.silentRun = 0;
+    }
+
+    this.windowFrameCount = 0;
+    this.windowSumSquares = 0;
+  }
+
+  private computeCorrelation() {
+    if (this.channels < 2 || this.frames === 0) {
+      return null;
+    }
+
+    const n = this.frames;
+    const covariance = this.sumLR - (this.sumL * this.sumR) / n;
+    const varianceL = this.sumLL - (this.sumL * this.sumL) / n;
+    const varianceR = this.sumRR - (this.sumR * this.sumR) / n;
+    if (varianceL <= 1e-12 || varianceR <= 1e-12) {
+      return null;
+    }
+
+    return round(Math.max(-1, Math.min(1, covariance / Math.sqrt(varianceL * varianceR))), 4);
+  }
+}
+
+export const measureQualityPcmFile = async (
+  filePath: string,
+  options: { sampleRate: number; channels: number; silenceThresholdDb: number; signal?: AbortSignal },
+): Promise<AudioQualityMetrics> => {
+  const accumulator = new AudioQualityAccumulator(
+    options.sampleRate,
+    options.channels,
+    options.silenceThresholdDb,
+  );
+
+  const stream = createReadStream(filePath, options.signal ? { signal: options.signal } : {});
+  for await (const chunk of stream) {
+    accumulator.push(chunk as Buffer);
+  }
+
+  return accumulator.finish();
+};
+
+/**
+ * Grade a master. A file that cannot be probed or decoded cleanly fails as
+ * corrupt and its measurements are not trusted; otherwise every threshold
+ * that is crossed adds a reason. Bit depth is only checked for lossless
+ * sources.
+ */
+export const evaluateAudioQuality = (
+  format: AudioFormatProbe | null,
+  metrics: AudioQualityMetrics | null,
+  decodeErrors: string[],
+  thresholds: AudioQualityThresholds,
+): AudioQualityReport => {
+  const reasons: AudioQualityReason[] = [];
+
+  if (!format || !metrics || decodeErrors.length > 0 || metrics.analyzedDurationSec <= 0) {
+    reasons.push({ code: "corrupt", value: decodeErrors.length, threshold: null });
+  } else {
+    if (format.sampleRate !== null && format.sampleRate < thresholds.minSampleRate) {
+      reasons.push({ code: "low_sample_rate", value: format.sampleRate, threshold: thresholds.minSampleRate });
+    }
+
+    if (format.bitDepth !== null && format.bitDepth < thresholds.minBitDepth) {
+      reasons.push({ code: "low_bit_depth", value: format.bitDepth, threshold: thresholds.minBitDepth });
+    }
+
+    if (metrics.clippedRatio > thresholds.maxClippedRatio) {
+      reasons.push({ code: "clipping", value: metrics.clippedRatio, threshold: thresholds.maxClippedRatio });
+    }
+
+    if (metrics.silenceRatio > thresholds.maxSilenceRatio) {
+      reasons.push({ code: "silence", value: metrics.silenceRatio, threshold: thresholds.maxSilenceRatio });
+    }
+
+    if (
+      metrics.channelCorrelation !== null &&
+      metrics.channelCorrelation < thresholds.minChannelCorrelation
+    ) {
+      reasons.push({
+        code: "phase_inverted",
+        value: metrics.channelCorrelation,
+        threshold: thresholds.minChannelCorrelation,
+      });
+    }
+  }
+
+  return {
+    version: AUDIO_QUALITY_REPORT_VERSION,
+    status: reasons.length > 0 ? "failed" : "passed",
+    reasons,
+    format,
+    metrics,
+    decodeErrors: decodeErrors.slice(0, MAX_REPORTED_DECODE_ERRORS),
+  };
+};
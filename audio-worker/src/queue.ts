@@ -1,8 +1,16 @@
 import type {
+  AudioFingerprint,
+  AudioFingerprintCandidateRow,
+  AudioFingerprintMatch,
+  AudioFingerprintRecordResult,
   AudioProcessingJobRow,
+  AudioQualityRecordResult,
+  AudioQualityReport,
+  ProductFileRow,
   ProductRow,
   SiteAudioSettingsRow,
   SupabaseAdminClient,
+  WatermarkProfileRow,
 } from "./types.js";
 
 const PRODUCT_SELECT = [
@@ -29,6 +37,22 @@ const PRODUCT_SELECT = [
   "measured_true_peak_db",
   "normalization_applied",
   "normalization_error",
+  "waveform_path",
+  "waveform_version",
+  "preview_renditions_version",
+  "duration_seconds",
+  "watermark_profile_id",
+].join(", ");
+
+const WATERMARK_PROFILE_SELECT = [
+  "id",
+  "producer_id",
+  "enabled",
+  "overlay_audio_path",
+  "gain_db",
+  "min_interval_sec",
+  "max_interval_sec",
+  "updated_at",
 ].join(", ");
 
 
@@ -71,6 +95,23 @@ export const loadSiteAudioSettings = async (
   return settings as unknown as SiteAudioSettingsRow;
 };
 
+export const loadWatermarkProfile = async (
+  supabase: SupabaseAdminClient,
+  profileId: string,
+): Promise<WatermarkProfileRow | null> => {
+  const { data, error } = await supabase
+    .from("watermark_profiles")
+    .select(WATERMARK_PROFILE_SELECT)
+    .eq("id", profileId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load watermark profile ${profileId}: ${error.message}`);
+  }
+
+  return (data as unknown as WatermarkProfileRow | null) ?? null;
+};
+
 export const loadProductForProcessing = async (
   supabase: SupabaseAdminClient,
   productId: string,
@@ -106,6 +147,19 @@ export const updateAudioProcessingJob = async (
   }
 };
 
+export const countAudioProcessingJobs = async (supabase: SupabaseAdminClient, status: string) => {
+  const { count, error } = await supabase
+    .from("audio_processing_jobs")
+    .select("id", { count: "exact", head: true })
+    .eq("status", status);
+
+  if (error) {
+    throw new Error(`Failed to count audio_processing_jobs(${status}): ${error.message}`);
+  }
+
+  return count ?? 0;
+};
+
 export const updateProductProcessingState = async (
   supabase: SupabaseAdminClient,
   productId: string,
@@ -120,3 +174,107 @@ export const updateProductProcessingState = async (
     throw new Error(`Failed to update products(${productId}): ${error.message}`);
   }
 };
+
+export const findAudioFingerprintCandidates = async (
+  supabase: SupabaseAdminClient,
+  productId: string,
+  fingerprint: AudioFingerprint,
+  limit: number,
+): Promise<AudioFingerprintCandidateRow[]> => {
+  const { data, error } = await supabase.rpc("find_audio_fingerprint_candidates", {
+    p_product_id: productId,
+    p_algorithm_version: fingerprint.version,
+    p_codes: fingerprint.codes,
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`find_audio_fingerprint_candidates failed: ${error.message}`);
+  }
+
+  return (data ?? []) as AudioFingerprintCandidateRow[];
+};
+
+export const recordAudioFingerprint = async (
+  supabase: SupabaseAdminClient,
+  productId: string,
+  fingerprint: AudioFingerprint,
+  matches: AudioFingerprintMatch[],
+): Promise<AudioFingerprintRecordResult> => {
+  const { data, error } = await supabase.rpc("record_audio_fingerprint", {
+    p_product_id: productId,
+    p_algorithm_version: fingerprint.version,
+    p_frame_hop_sec: fingerprint.frameHopSec,
+    p_duration_sec: fingerprint.durationSec,
+    p_codes: fingerprint.codes,
+    p_matches: matches,
+  });
+
+  if (error) {
+    throw new Error(`record_audio_fingerprint failed: ${error.message}`);
+  }
+
+  return data as AudioFingerprintRecordResult;
+};
+
+/**
+ * masterReference is the master_path (or master_url) the job read: the
+ * report is dropped when the product's master changed in the meantime.
+ */
+export const recordAudioQualityReport = async (
+  supabase: SupabaseAdminClient,
+  productId: string,
+  masterReference: string,
+  report: AudioQualityReport,
+): Promise<AudioQualityRecordResult> => {
+  const { data, error } = await supabase.rpc("record_audio_quality_report", {
+    p_product_id: productId,
+    p_master_reference: masterReference,
+    p_status: report.status,
+    p_report: report,
+  });
+
+  if (error) {
+    throw new Error(`record_audio_quality_report failed: ${error.message}`);
+  }
+
+  return data as AudioQualityRecordResult;
+};
+
+export const loadPendingStemFiles = async (
+  supabase: SupabaseAdminClient,
+  productId: string,
+): Promise<ProductFileRow[]> => {
+  const { data, error } = await supabase
+    .from("product_files")
+    .select("id, product_id, file_name, file_url, file_kind, validation_status")
+    .eq("product_id", productId)
+    .in("file_kind", ["stem", "stem_archive"])
+    .eq("validation_status", "pending")
+    .order("sort_order", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load pending stems for product ${productId}: ${error.message}`);
+  }
+
+  return (data ?? []) as ProductFileRow[];
+};
+
+export const updateProductFileValidation = async (
+  supabase: SupabaseAdminClient,
+  fileId: string,
+  payload: Record<string, unknown>,
+) => {
+  const { error } = await supabase
+    .from("product_files")
+    .update({
+      ...payload,
+      validated_at: new Date().toISOString(),
+    })
+    .eq("id", fileId);
+
+  if (error) {
+    throw new Error(`Failed to update product_files(${fileId}): ${error.message}`);
+  }
+};
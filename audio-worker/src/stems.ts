@@ -0,0 +1,104 @@
+import path from "node:path";
+import type { StemArchiveSummary, StemEvaluation, StemEvaluationOptions, StemProbe } from "./types.js";
+
+const STEM_AUDIO_EXTENSIONS = new Set([".wav", ".wave", ".aif", ".aiff", ".flac", ".mp3"]);
+
+/**
+ * Archive entries worth probing as stems. Folders, macOS resource forks and
+ * hidden files are skipped silently; anything else that is not audio is
+ * listed as skipped in the validation report.
+ */
+export const classifyArchiveEntry = (name: string): "stem" | "ignored" | "skipped" => {
+  const segments = name.split(/[\\/]/).filter(Boolean);
+  const baseName = segments[segments.length - 1] ?? "";
+
+  if (name.endsWith("/") || !baseName || segments[0] === "__MACOSX" || baseName.startsWith(".")) {
+    return "ignored";
+  }
+
+  return STEM_AUDIO_EXTENSIONS.has(path.extname(baseName).toLowerCase()) ? "stem" : "skipped";
+};
+
+/**
+ * Grade one probed stem. Files without a decodable audio stream are invalid
+ * and never delivered. Silent stems and stems whose length differs from the
+ * master beyond the tolerance are delivered but flagged to the producer.
+ */
+export const evaluateStem = (
+  probe: StemProbe | null,
+  masterDurationSec: number | null,
+  options: StemEvaluationOptions,
+): StemEvaluation => {
+  if (!probe || probe.durationSec === null || probe.durationSec <= 0) {
+    return {
+      status: "invalid",
+      issues: ["not_audio"],
+      durationSec: null,
+      durationDeltaSec: null,
+      isSilent: null,
+      maxVolumeDb: null,
+    };
+  }
+
+  const issues: StemEvaluation["issues"] = [];
+  const isSilent = probe.maxVolumeDb !== null && probe.maxVolumeDb <= options.silenceThresholdDb;
+  if (isSilent) {
+    issues.push("silent");
+  }
+
+  const durationDeltaSec = masterDurationSec !== null && masterDurationSec > 0
+    ? Number((probe.durationSec - masterDurationSec).toFixed(3))
+    : null;
+  if (durationDeltaSec !== null && Math.abs(durationDeltaSec) > options.durationToleranceSec) {
+    issues.push("duration_mismatch");
+  }
+
+  return {
+    status: issues.length > 0 ? "warning" : "valid",
+    issues,
+    durationSec: Number(probe.durationSec.toFixed(3)),
+    durationDeltaSec,
+    isSilent,
+    maxVolumeDb: probe.maxVolumeDb !== null && Number.isFinite(probe.maxVolumeDb)
+      ? Number(probe.maxVolumeDb.toFixed(1))
+      : null,
+  };
+};
+
+/**
+ * Roll the evaluations of an archive's stems up to one status. A single
+ * unreadable stem invalidates the pack: buyers would get an incomplete
+ * trackout otherwise.
+ */
+export const summarizeStemArchive = (evaluations: StemEvaluation[]): StemArchiveSummary => {
+  if (evaluations.length === 0) {
+    return {
+      status: "invalid",
+      error: "archive_has_no_stems",
+      stemCount: 0,
+      durationDeltaSec: null,
+      isSilent: null,
+    };
+  }
+
+  const invalidCount = evaluations.filter((evaluation) => evaluation.status === "invalid").length;
+  const deltas = evaluations
+    .map((evaluation) => evaluation.durationDeltaSec)
+    .filter((delta): delta is number => delta !== null);
+  const largestDelta = deltas.reduce<number | null>(
+    (largest, delta) => (largest === null || Math.abs(delta) > Math.abs(largest) ? delta : largest),
+    null,
+  );
+
+  return {
+    status: invalidCount > 0
+      ? "invalid"
+      : evaluations.some((evaluation) => evaluation.status === "warning")
+        ? "warning"
+        : "valid",
+    error: invalidCount > 0 ? `invalid_stems:${invalidCount}` : null,
+    stemCount: evaluations.length - invalidCount,
+    durationDeltaSec: largestDelta,
+    isSilent: evaluations.some((evaluation) => evaluation.isSilent === true),
+  };
+};
@@ -1,15 +1,16 @@
-import path from "node:path";
 import { createReadStream, createWriteStream } from "node:fs";
-import { Readable } from "node:stream";
 import { pipeline } from "node:stream/promises";
+import type { StorageBackend } from "./storageBackend.js";
 import type {
+  ProductFileRow,
   ProductRow,
   StorageObjectRef,
-  SupabaseAdminClient,
   WatermarkAsset,
   WorkerConfig,
 } from "./types.js";
 
+const toErrorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
 const asNonEmptyString = (value: unknown) => {
   if (typeof value !== "string") return null;
   const trimmed = value.trim();
@@ -107,7 +108,7 @@ export interface ResolvedMasterSource {
 }
 
 export const resolveMasterDownloadSource = async (
-  supabase: SupabaseAdminClient,
+  storage: StorageBackend,
   product: ProductRow,
   config: WorkerConfig,
 ): Promise<ResolvedMasterSource | null> => {
@@ -116,7 +117,7 @@ export const resolveMasterDownloadSource = async (
     return null;
   }
 
-  const canonicalExists = await objectExists(supabase, canonicalRef);
+  const canonicalExists = await objectExists(storage, canonicalRef);
   if (!canonicalExists) {
     throw new Error(`master_not_found_in_storage:${storageRefToString(canonicalRef)}`);
   }
@@ -127,6 +128,31 @@ export const resolveMasterDownloadSource = async (
   };
 };
 
+/**
+ * Stems live in the master bucket under <producer_id>/<product_id>/stems/.
+ * Rows pointing anywhere else are rejected rather than downloaded.
+ */
+export const resolveStemReference = (
+  product: ProductRow,
+  file: ProductFileRow,
+  config: WorkerConfig,
+): StorageObjectRef | null => {
+  const ref = parseStorageReference(file.file_url, config.masterBucket, config);
+  if (!ref || (ref.bucket !== config.masterBucket && ref.bucket !== "beats-masters")) {
+    return null;
+  }
+
+  const segments = ref.path.split("/");
+  if (
+    !ref.path.startsWith(`${product.producer_id}/${product.id}/stems/`) ||
+    segments.some((segment) => segment === "." || segment === "..")
+  ) {
+    return null;
+  }
+
+  return ref;
+};
+
 export const resolvePreviewReference = (
   product: ProductRow,
   config: WorkerConfig,
@@ -145,82 +171,66 @@ export const resolvePreviewReference = (
 };
 
 export const objectExists = async (
-  supabase: SupabaseAdminClient,
+  storage: StorageBackend,
   ref: StorageObjectRef,
 ): Promise<boolean> => {
-  const directory = path.posix.dirname(ref.path) === "." ? "" : path.posix.dirname(ref.path);
-  const fileName = path.posix.basename(ref.path);
-
-  const { data, error } = await supabase.storage.from(ref.bucket).list(directory, {
-    limit: 100,
-    search: fileName,
-  });
+  try {
+    return await storage.exists(ref);
+  } catch (error) {
+    throw new Error(`Failed to list storage object ${storageRefToString(ref)}: ${toErrorMessage(error)}`);
+  }
+};
 
-  if (error) {
-    throw new Error(`Failed to list storage object ${storageRefToString(ref)}: ${error.message}`);
+const openObjectStream = async (storage: StorageBackend, ref: StorageObjectRef, signal?: AbortSignal) => {
+  try {
+    return await storage.openReadStream(ref, signal);
+  } catch (error) {
+    throw new Error(`Failed to stream-download ${storageRefToString(ref)}: ${toErrorMessage(error)}`);
   }
+};
 
-  return (data ?? []).some((entry) => entry.name === fileName);
+const chunkByteLength = (chunk: unknown) => {
+  if (typeof chunk === "string") return Buffer.byteLength(chunk);
+  if (chunk instanceof Uint8Array) return chunk.byteLength;
+  return Buffer.byteLength(String(chunk));
 };
 
 export const downloadObjectBuffer = async (
-  supabase: SupabaseAdminClient,
+  storage: StorageBackend,
   ref: StorageObjectRef,
   maxBytes: number,
 ): Promise<Buffer> => {
-  const { data, error } = await supabase.storage.from(ref.bucket).download(ref.path);
-
-  if (error || !data) {
-    throw new Error(`Failed to download ${storageRefToString(ref)}: ${error?.message ?? "unknown"}`);
-  }
-
-  const blob = data as Blob;
-  if (typeof blob.size === "number" && blob.size > maxBytes) {
-    throw new Error(
-      `Object too large for processing: ${storageRefToString(ref)} (${blob.size} bytes > ${maxBytes})`,
-    );
-  }
+  const stream = await openObjectStream(storage, ref);
+  const chunks: Buffer[] = [];
+  let totalBytes = 0;
 
-  const buffer = Buffer.from(await blob.arrayBuffer());
-  if (buffer.byteLength > maxBytes) {
-    throw new Error(
-      `Object too large for processing: ${storageRefToString(ref)} (${buffer.byteLength} bytes > ${maxBytes})`,
-    );
+  for await (const chunk of stream) {
+    totalBytes += chunkByteLength(chunk);
+    if (totalBytes > maxBytes) {
+      stream.destroy();
+      throw new Error(
+        `Object too large for processing: ${storageRefToString(ref)} (${totalBytes} bytes > ${maxBytes})`,
+      );
+    }
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array));
   }
 
-  return buffer;
+  return Buffer.concat(chunks);
 };
 
 export const downloadObjectToFile = async (
-  supabase: SupabaseAdminClient,
+  storage: StorageBackend,
   ref: StorageObjectRef,
   maxBytes: number,
   destinationPath: string,
   signal?: AbortSignal,
 ): Promise<number> => {
-  const bucketApi = supabase.storage.from(ref.bucket);
-  const downloader = signal
-    ? bucketApi.download(ref.path, {}, { signal })
-    : bucketApi.download(ref.path);
-
-  const { data, error } = await downloader.asStream();
-
-  if (error || !data) {
-    throw new Error(`Failed to stream-download ${storageRefToString(ref)}: ${error?.message ?? "unknown"}`);
-  }
-
-  const nodeStream = Readable.fromWeb(data as any);
+  const nodeStream = await openObjectStream(storage, ref, signal);
   const writer = createWriteStream(destinationPath, { flags: "w" });
   let totalBytes = 0;
 
   nodeStream.on("data", (chunk: unknown) => {
-    if (typeof chunk === "string") {
-      totalBytes += Buffer.byteLength(chunk);
-    } else if (chunk instanceof Uint8Array) {
-      totalBytes += chunk.byteLength;
-    } else {
-      totalBytes += Buffer.byteLength(String(chunk));
-    }
+    totalBytes += chunkByteLength(chunk);
 
     if (totalBytes > maxBytes) {
       nodeStream.destroy(
@@ -236,7 +246,7 @@ export const downloadObjectToFile = async (
 };
 
 export const loadWatermarkAsset = async (
-  supabase: SupabaseAdminClient,
+  storage: StorageBackend,
   config: WorkerConfig,
   watermarkPath: string,
 ): Promise<WatermarkAsset> => {
@@ -245,36 +255,45 @@ export const loadWatermarkAsset = async (
     path: watermarkPath,
   };
 
-  const buffer = await downloadObjectBuffer(supabase, ref, config.watermarkMaxBytes);
+  const buffer = await downloadObjectBuffer(storage, ref, config.watermarkMaxBytes);
   return { ref, buffer };
 };
 
 export const uploadPreviewFile = async (
-  supabase: SupabaseAdminClient,
+  storage: StorageBackend,
   ref: StorageObjectRef,
   filePath: string,
+  contentType = "audio/mpeg",
 ) => {
   const stream = createReadStream(filePath);
 
   try {
-    const { error } = await supabase.storage.from(ref.bucket).upload(ref.path, stream, {
-      contentType: "audio/mpeg",
-      cacheControl: "3600",
-      upsert: true,
-    });
-
-    if (error) {
-      throw new Error(`Failed to upload ${storageRefToString(ref)}: ${error.message}`);
-    }
+    await storage.upload(ref, stream, { contentType, upsert: true });
+  } catch (error) {
+    throw new Error(`Failed to upload ${storageRefToString(ref)}: ${toErrorMessage(error)}`);
   } finally {
     stream.destroy();
   }
 };
 
+export const uploadJsonObject = async (
+  storage: StorageBackend,
+  ref: StorageObjectRef,
+  payload: unknown,
+) => {
+  const body = Buffer.from(JSON.stringify(payload), "utf8");
+
+  try {
+    await storage.upload(ref, body, { contentType: "application/json", upsert: true });
+  } catch (error) {
+    throw new Error(`Failed to upload ${storageRefToString(ref)}: ${toErrorMessage(error)}`);
+  }
+};
+
 export const getPublicObjectUrl = (
-  supabase: SupabaseAdminClient,
+  storage: StorageBackend,
   ref: StorageObjectRef,
-) => supabase.storage.from(ref.bucket).getPublicUrl(ref.path).data.publicUrl;
+) => storage.getPublicUrl(ref);
 
 export const guessMasterExtension = (product: ProductRow, sourcePath: string) => {
   const sourceExtension = sourcePath.split(".").pop()?.toLowerCase();
@@ -0,0 +1,154 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { createWriteStream } from "node:fs";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { pathToFileURL } from "node:url";
+import type { StorageObjectRef, SupabaseAdminClient } from "./types.js";
+
+export interface StorageUploadOptions {
+  contentType: string;
+  upsert: boolean;
+}
+
+/**
+ * Object operations the worker needs from a storage provider. Byte limits,
+ * error wording and reference parsing stay in storage.ts so both backends
+ * behave the same for the pipeline.
+ */
+export interface StorageBackend {
+  exists(ref: StorageObjectRef): Promise<boolean>;
+  openReadStream(ref: StorageObjectRef, signal?: AbortSignal): Promise<Readable>;
+  upload(ref: StorageObjectRef, body: Buffer | Readable, options: StorageUploadOptions): Promise<void>;
+  getPublicUrl(ref: StorageObjectRef): string;
+}
+
+export const createSupabaseStorageBackend = (supabase: SupabaseAdminClient): StorageBackend => ({
+  async exists(ref) {
+    const directory = path.posix.dirname(ref.path) === "." ? "" : path.posix.dirname(ref.path);
+    const fileName = path.posix.basename(ref.path);
+
+    const { data, error } = await supabase.storage.from(ref.bucket).list(directory, {
+      limit: 100,
+      search: fileName,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data ?? []).some((entry) => entry.name === fileName);
+  },
+
+  async openReadStream(ref, signal) {
+    const bucketApi = supabase.storage.from(ref.bucket);
+    const downloader = signal
+      ? bucketApi.download(ref.path, {}, { signal })
+      : bucketApi.download(ref.path);
+
+    const { data, error } = await downloader.asStream();
+
+    if (error || !data) {
+      throw new Error(error?.message ?? "unknown");
+    }
+
+    return Readable.fromWeb(data as unknown as NodeReadableStream);
+  },
+
+  async upload(ref, body, options) {
+    const { error } = await supabase.storage.from(ref.bucket).upload(ref.path, body, {
+      contentType: options.contentType,
+      cacheControl: "3600",
+      upsert: options.upsert,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  },
+
+  getPublicUrl(ref) {
+    return supabase.storage.from(ref.bucket).getPublicUrl(ref.path).data.publicUrl;
+  },
+});
+
+/**
+ * Maps `<bucket>/<path>` to `<rootDir>/<bucket>/<path>` so the pipeline can
+ * run against a directory tree (CI, laptops) without a Supabase project.
+ * Public URLs use `publicBaseUrl` when set (e.g. a static file server over
+ * rootDir), file:// URLs otherwise.
+ */
+export const createLocalStorageBackend = (options: {
+  rootDir: string;
+  publicBaseUrl?: string | null;
+}): StorageBackend => {
+  const rootDir = path.resolve(options.rootDir);
+  const publicBaseUrl = options.publicBaseUrl?.replace(/\/+$/, "") || null;
+
+  const resolveObjectPath = (ref: StorageObjectRef) => {
+    const segments = [ref.bucket, ...ref.path.split("/")];
+    if (segments.some((segment) => !segment || segment === "." || segment === "..")) {
+      throw new Error(`Invalid object reference: ${ref.bucket}/${ref.path}`);
+    }
+
+    return path.join(rootDir, ...segments);
+  };
+
+  const exists = async (ref: StorageObjectRef) => {
+    try {
+      return (await fs.stat(resolveObjectPath(ref))).isFile();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  };
+
+  return {
+    exists,
+
+    async openReadStream(ref, signal) {
+      const filePath = resolveObjectPath(ref);
+      const handle = await fs.open(filePath, "r").catch((error: NodeJS.ErrnoException) => {
+        throw new Error(error.code === "ENOENT" ? "Object not found" : error.message);
+      });
+
+      return handle.createReadStream(signal ? { signal } : {});
+    },
+
+    async upload(ref, body, uploadOptions) {
+      const filePath = resolveObjectPath(ref);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+      if (!uploadOptions.upsert && (await exists(ref))) {
+        throw new Error("The resource already exists");
+      }
+
+      // Write next to the target and rename so readers never see a partial
+      // object, like a storage upload that only becomes visible once done.
+      const partialPath = `${filePath}.${randomUUID()}.partial`;
+      try {
+        if (Buffer.isBuffer(body)) {
+          await fs.writeFile(partialPath, body);
+        } else {
+          await pipeline(body, createWriteStream(partialPath));
+        }
+        await fs.rename(partialPath, filePath);
+      } finally {
+        await fs.rm(partialPath, { force: true });
+      }
+    },
+
+    getPublicUrl(ref) {
+      if (publicBaseUrl) {
+        const encodedPath = [ref.bucket, ...ref.path.split("/")].map(encodeURIComponent).join("/");
+        return `${publicBaseUrl}/${encodedPath}`;
+      }
+
+      return pathToFileURL(resolveObjectPath(ref)).href;
+    },
+  };
+};
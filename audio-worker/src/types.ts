@@ -1,5 +1,10 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 
+export interface LocalStorageConfig {
+  rootDir: string;
+  publicUrl: string | null;
+}
+
 export interface WorkerConfig {
   supabaseUrl: string;
   supabaseServiceRoleKey: string;
@@ -8,7 +13,12 @@ export interface WorkerConfig {
   watermarkAssetsBucket: string;
   workerId: string;
   batchLimit: number;
+  // Claimed jobs processed in parallel; each gets its own temp dir, abort
+  // signal and ffmpeg timeouts.
+  jobConcurrency: number;
   downloadMasterMaxBytes: number;
+  // Sum of the per-object limits that concurrent downloads may reserve.
+  downloadInFlightMaxBytes: number;
   watermarkMaxBytes: number;
   pollIntervalMs: number;
   errorBackoffMs: number;
@@ -17,6 +27,33 @@ export interface WorkerConfig {
   ffmpegTimeoutMs: number;
   previewAudioBitrate: string;
   previewAudioSampleRate: number;
+  previewLowAudioBitrate: string;
+  hlsAudioBitrate: string;
+  hlsSegmentDurationSec: number;
+  waveformPeakCount: number;
+  waveformSampleRate: number;
+  analysisSampleRate: number;
+  analysisMaxDurationSec: number;
+  // Fingerprint similarity (1 - bit error rate) from which another
+  // producer's beat is reported as a suspected duplicate.
+  fingerprintMatchThreshold: number;
+  fingerprintCandidateLimit: number;
+  stemsMaxBytes: number;
+  stemArchiveMaxEntries: number;
+  // Stems whose peak level stays at or below this are reported as silent.
+  stemSilenceThresholdDb: number;
+  // Allowed difference between a stem's length and the master's.
+  stemDurationToleranceSec: number;
+  // analyze_quality fails a master above the clipped-sample or silence
+  // ratios, below the channel correlation (phase-inverted stereo), or below
+  // the minimum sample rate / lossless bit depth.
+  qualityMaxClippedRatio: number;
+  qualityMaxSilenceRatio: number;
+  // 50 ms windows whose RMS level stays below this count as silence.
+  qualitySilenceThresholdDb: number;
+  qualityMinChannelCorrelation: number;
+  qualityMinSampleRate: number;
+  qualityMinBitDepth: number;
   jobTimeoutMs: number;
   tempRoot: string;
   shutdownGraceMs: number;
@@ -30,6 +67,13 @@ export interface WorkerConfig {
   loudnormTargetLufsDefault: number;
   loudnormTargetTruePeakDbDefault: number;
   loudnormTargetLraDefault: number;
+  // Set with STORAGE_BACKEND=local: objects are read and written under
+  // rootDir/<bucket>/<path> instead of Supabase Storage (CI, laptops). Jobs
+  // still go through the Supabase database.
+  localStorage: LocalStorageConfig | null;
+  httpPort: number;
+  // Bearer token for the /admin routes; they answer 404 when unset.
+  adminToken: string | null;
 }
 
 export interface AudioProcessingJobRow {
@@ -70,6 +114,20 @@ export interface ProductRow {
   measured_true_peak_db: number | null;
   normalization_applied: boolean | null;
   normalization_error: string | null;
+  waveform_path: string | null;
+  waveform_version: number | null;
+  preview_renditions_version: number | null;
+  duration_seconds: number | null;
+  watermark_profile_id: string | null;
+}
+
+export interface ProductFileRow {
+  id: string;
+  product_id: string;
+  file_name: string;
+  file_url: string;
+  file_kind: "kit_file" | "stem" | "stem_archive";
+  validation_status: string;
 }
 
 export interface SiteAudioSettingsRow {
@@ -87,6 +145,17 @@ export interface SiteAudioSettingsRow {
   updated_at: string;
 }
 
+export interface WatermarkProfileRow {
+  id: string;
+  producer_id: string | null;
+  enabled: boolean;
+  overlay_audio_path: string | null;
+  gain_db: number | null;
+  min_interval_sec: number | null;
+  max_interval_sec: number | null;
+  updated_at: string;
+}
+
 export interface LoudnessTargets {
   targetLufs: number;
   targetTruePeakDb: number;
@@ -111,6 +180,14 @@ export interface WatermarkAsset {
   buffer: Buffer;
 }
 
+/** Watermark used for one product: the site sample or its profile's. */
+export interface ResolvedWatermark {
+  settings: SiteAudioSettingsRow;
+  watermarkHash: string;
+  asset: WatermarkAsset;
+  profileId: string | null;
+}
+
 export interface RenderPreviewParams {
   masterFilePath: string;
   watermarkFilePath: string;
@@ -132,4 +209,182 @@ export interface RenderPreviewResult {
   outputPath: string;
 }
 
+export interface WaveformPeaks {
+  version: number;
+  peak_count: number;
+  sample_rate: number;
+  duration_sec: number;
+  peaks: number[];
+}
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number;
+}
+
+export interface KeyEstimate {
+  key: string;
+  confidence: number;
+}
+
+export interface AudioAnalysisResult {
+  tempo: TempoEstimate | null;
+  key: KeyEstimate | null;
+  analyzedDurationSec: number;
+}
+
+export interface AudioFingerprint {
+  version: number;
+  frameHopSec: number;
+  durationSec: number;
+  codes: number[];
+}
+
+export interface FingerprintComparison {
+  similarity: number;
+  offsetSec: number;
+  overlapSec: number;
+}
+
+export interface AudioFingerprintCandidateRow {
+  product_id: string;
+  algorithm_version: number;
+  frame_hop_sec: number;
+  duration_sec: number;
+  codes: number[];
+  shared_code_count: number;
+}
+
+export interface AudioFingerprintMatch {
+  matched_product_id: string;
+  similarity: number;
+  offset_sec: number;
+  overlap_sec: number;
+}
+
+export interface AudioFingerprintRecordResult {
+  new_match_count: number;
+  pending_match_count: number;
+  review_status: string | null;
+}
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  isDirectory: boolean;
+}
+
+export interface StemProbe {
+  durationSec: number | null;
+  // Peak level in dBFS; -Infinity for digital silence.
+  maxVolumeDb: number | null;
+}
+
+export interface StemEvaluationOptions {
+  silenceThresholdDb: number;
+  durationToleranceSec: number;
+}
+
+export type StemValidationStatus = "valid" | "warning" | "invalid";
+
+export interface StemEvaluation {
+  status: StemValidationStatus;
+  issues: Array<"not_audio" | "silent" | "duration_mismatch">;
+  durationSec: number | null;
+  durationDeltaSec: number | null;
+  isSilent: boolean | null;
+  maxVolumeDb: number | null;
+}
+
+export interface StemArchiveSummary {
+  status: StemValidationStatus;
+  error: string | null;
+  stemCount: number;
+  durationDeltaSec: number | null;
+  isSilent: boolean | null;
+}
+
+export interface AudioFormatProbe {
+  codecName: string | null;
+  sampleRate: number | null;
+  channels: number | null;
+  // Bits per sample of lossless sources; null for lossy codecs, where the
+  // decoder's sample format says nothing about the source.
+  bitDepth: number | null;
+  durationSec: number | null;
+}
+
+export interface AudioQualityMetrics {
+  analyzedDurationSec: number;
+  // Null for digital silence.
+  peakDbfs: number | null;
+  clippedSamples: number;
+  // clippedSamples over all samples of all channels.
+  clippedRatio: number;
+  // Runs of consecutive clipped samples long enough to be audible.
+  clipEvents: number;
+  silenceRatio: number;
+  longestSilenceSec: number;
+  // Pearson correlation of the left and right channels; null for mono or
+  // when one channel is silent.
+  channelCorrelation: number | null;
+}
+
+export interface AudioQualityThresholds {
+  maxClippedRatio: number;
+  maxSilenceRatio: number;
+  silenceThresholdDb: number;
+  minChannelCorrelation: number;
+  minSampleRate: number;
+  minBitDepth: number;
+}
+
+export type AudioQualityReasonCode =
+  | "corrupt"
+  | "clipping"
+  | "silence"
+  | "phase_inverted"
+  | "low_sample_rate"
+  | "low_bit_depth";
+
+export interface AudioQualityReason {
+  code: AudioQualityReasonCode;
+  value: number | null;
+  threshold: number | null;
+}
+
+export interface AudioQualityReport {
+  version: number;
+  status: "passed" | "failed";
+  reasons: AudioQualityReason[];
+  format: AudioFormatProbe | null;
+  metrics: AudioQualityMetrics | null;
+  decodeErrors: string[];
+}
+
+export interface AudioQualityRecordResult {
+  recorded: boolean;
+  status: "passed" | "failed" | null;
+  is_published: boolean;
+}
+
+export interface WorkerStatus {
+  workerId: string;
+  paused: boolean;
+  stopping: boolean;
+  // Updated on every loop iteration and job start.
+  lastHeartbeatAt: string | null;
+  // Error of the last polling iteration; cleared by the next successful one.
+  lastLoopError: string | null;
+  inFlightJobs: Array<{
+    jobId: string;
+    jobType: string;
+    productId: string;
+    startedAt: string;
+  }>;
+}
+
 export type SupabaseAdminClient = SupabaseClient;
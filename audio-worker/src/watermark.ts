@@ -1,5 +1,5 @@
 import { createHash } from "node:crypto";
-import type { SiteAudioSettingsRow } from "./types.js";
+import type { SiteAudioSettingsRow, WatermarkProfileRow } from "./types.js";
 
 const MAX_RANDOM_POSITIONS = 24;
 
@@ -33,9 +33,36 @@ export const computeWatermarkHash = (settings: SiteAudioSettingsRow) => {
   return createHash("sha256").update(source).digest("hex");
 };
 
+/**
+ * Encoder settings of the preview and its renditions, stored on the product
+ * as preview_rendition_settings so the SQL mirror can rebuild the signature.
+ */
+export const formatRenditionSettings = (settings: {
+  previewAudioBitrate: string;
+  previewAudioSampleRate: number;
+  previewLowAudioBitrate: string;
+  hlsAudioBitrate: string;
+  hlsSegmentDurationSec: number;
+}) =>
+  [
+    settings.previewAudioBitrate,
+    String(settings.previewAudioSampleRate),
+    settings.previewLowAudioBitrate,
+    settings.hlsAudioBitrate,
+    String(settings.hlsSegmentDurationSec),
+  ].join("/");
+
+/**
+ * Mirrors public.compute_preview_signature. The profile id is only appended
+ * when a producer profile applies, so previews rendered with the site sample
+ * keep their existing signature. The rendition settings come last: changing
+ * a bitrate re-renders the preview and its renditions.
+ */
 export const computePreviewSignature = (
   masterReference: string,
   settings: SiteAudioSettingsRow,
+  watermarkProfileId: string | null = null,
+  renditionSettings: string | null = null,
 ) => {
   const source = [
     masterReference,
@@ -43,11 +70,50 @@ export const computePreviewSignature = (
     asGainSignatureComponent(settings.gain_db),
     asIntervalSignatureComponent(settings.min_interval_sec, 20),
     asIntervalSignatureComponent(settings.max_interval_sec, 45),
+    ...(watermarkProfileId ? [watermarkProfileId] : []),
+    ...(renditionSettings ? [renditionSettings] : []),
   ].join("|");
 
   return createHash("sha256").update(source).digest("hex");
 };
 
+/**
+ * A profile replaces the site sample only for products of its own producer
+ * (admin profiles have no producer), and only once it has a sample.
+ */
+export const isApplicableWatermarkProfile = (
+  profile: WatermarkProfileRow | null,
+  producerId: string,
+): profile is WatermarkProfileRow =>
+  Boolean(
+    profile &&
+      profile.enabled &&
+      profile.overlay_audio_path?.trim() &&
+      (profile.producer_id === null || profile.producer_id === producerId),
+  );
+
+/**
+ * Site settings with the profile's sample, gain and interval range swapped
+ * in. Unset profile values keep the site ones; loudness targets are always
+ * the site's. updated_at comes from the profile so the watermark hash
+ * changes when the producer edits it.
+ */
+export const applyWatermarkProfile = (
+  settings: SiteAudioSettingsRow,
+  profile: WatermarkProfileRow,
+): SiteAudioSettingsRow => ({
+  ...settings,
+  watermark_audio_path: profile.overlay_audio_path,
+  gain_db: Number.isFinite(profile.gain_db) ? profile.gain_db : settings.gain_db,
+  min_interval_sec: Number.isFinite(profile.min_interval_sec)
+    ? profile.min_interval_sec
+    : settings.min_interval_sec,
+  max_interval_sec: Number.isFinite(profile.max_interval_sec)
+    ? profile.max_interval_sec
+    : settings.max_interval_sec,
+  updated_at: profile.updated_at,
+});
+
 const randomBetween = (min: number, max: number) => {
   if (max <= min) return min;
   return min + Math.random() * (max - min);
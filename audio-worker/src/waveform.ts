@@ -0,0 +1,52 @@
+import type { WaveformPeaks } from "./types.js";
+
+// Bump when the JSON layout changes so clients can ignore payloads they do
+// not understand instead of drawing garbage.
+export const WAVEFORM_FORMAT_VERSION = 1;
+
+const PCM_S16_BYTES_PER_SAMPLE = 2;
+const PCM_S16_FULL_SCALE = 32_768;
+
+/**
+ * Reduce mono signed 16-bit little-endian PCM to a fixed number of peaks.
+ *
+ * Each peak is the maximum absolute amplitude of its bucket, normalized to
+ * [0, 1] against the loudest bucket of the file so quiet masters still draw
+ * a readable waveform. Values are rounded to 3 decimals to keep the JSON
+ * payload small.
+ */
+export const computeWaveformPeaks = (
+  pcm: Buffer,
+  peakCount: number,
+  sampleRate: number,
+): WaveformPeaks => {
+  const safePeakCount = Math.max(1, Math.floor(peakCount));
+  const sampleCount = Math.floor(pcm.byteLength / PCM_S16_BYTES_PER_SAMPLE);
+  if (sampleCount === 0) {
+    throw new Error("waveform: decoded PCM is empty");
+  }
+
+  const rawPeaks = new Array<number>(safePeakCount).fill(0);
+  const samplesPerPeak = sampleCount / safePeakCount;
+
+  for (let sampleIndex = 0; sampleIndex < sampleCount; sampleIndex += 1) {
+    const peakIndex = Math.min(safePeakCount - 1, Math.floor(sampleIndex / samplesPerPeak));
+    const amplitude = Math.abs(pcm.readInt16LE(sampleIndex * PCM_S16_BYTES_PER_SAMPLE)) / PCM_S16_FULL_SCALE;
+    if (amplitude > rawPeaks[peakIndex]!) {
+      rawPeaks[peakIndex] = amplitude;
+    }
+  }
+
+  const loudest = Math.max(...rawPeaks);
+  const peaks = rawPeaks.map((value) =>
+    loudest > 0 ? Number(Math.min(value / loudest, 1).toFixed(3)) : 0,
+  );
+
+  return {
+    version: WAVEFORM_FORMAT_VERSION,
+    peak_count: safePeakCount,
+    sample_rate: sampleRate,
+    duration_sec: Number((sampleCount / sampleRate).toFixed(3)),
+    peaks,
+  };
+};
@@ -1,12 +1,32 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { randomUUID } from "node:crypto";
-import { analyzeLoudness, applyLoudnorm, renderWatermarkedPreview } from "./ffmpeg.js";
+import { analyzeAudioPcm, toMonoSamples } from "./analysis.js";
+import {
+  analyzeLoudness,
+  applyLoudnorm,
+  decodeAnalysisPcm,
+  decodeQualityPcm,
+  decodeWaveformPcm,
+  measureMaxVolumeDb,
+  probeAudioFormat,
+  probeAudioStreamDurationSec,
+  renderHlsPlaylist,
+  renderLowBitratePreview,
+  renderWatermarkedPreview,
+} from "./ffmpeg.js";
+import { compareFingerprints, computeAudioFingerprint } from "./fingerprint.js";
 import {
   claimAudioProcessingJobs,
+  findAudioFingerprintCandidates,
+  loadPendingStemFiles,
   loadProductForProcessing,
   loadSiteAudioSettings,
+  loadWatermarkProfile,
+  recordAudioFingerprint,
+  recordAudioQualityReport,
   updateAudioProcessingJob,
+  updateProductFileValidation,
   updateProductProcessingState,
 } from "./queue.js";
 import {
@@ -16,21 +36,73 @@ import {
   loadWatermarkAsset,
   objectExists,
   resolveMasterDownloadSource,
+  resolveStemReference,
   storageRefToString,
+  uploadJsonObject,
   uploadPreviewFile,
 } from "./storage.js";
+import { DownloadBudget } from "./downloadBudget.js";
+import { runInLanes } from "./lanes.js";
+import { WorkerMetrics } from "./metrics.js";
+import { evaluateAudioQuality, measureQualityPcmFile } from "./quality.js";
 import { captureWorkerException } from "./sentry.js";
+import { createSupabaseStorageBackend, type StorageBackend } from "./storageBackend.js";
+import { classifyArchiveEntry, evaluateStem, summarizeStemArchive } from "./stems.js";
 import type {
+  AudioFingerprintMatch,
   AudioProcessingJobRow,
+  AudioQualityMetrics,
   LoudnessAnalysis,
   LoudnessTargets,
+  ProductFileRow,
+  ProductRow,
+  ResolvedWatermark,
   SiteAudioSettingsRow,
+  StemEvaluation,
+  ZipEntry,
   StorageObjectRef,
   SupabaseAdminClient,
   WatermarkAsset,
+  WaveformPeaks,
   WorkerConfig,
+  WorkerStatus,
 } from "./types.js";
-import { computePreviewSignature, computeWatermarkHash } from "./watermark.js";
+import {
+  applyWatermarkProfile,
+  computePreviewSignature,
+  computeWatermarkHash,
+  formatRenditionSettings,
+  isApplicableWatermarkProfile,
+} from "./watermark.js";
+import { computeWaveformPeaks } from "./waveform.js";
+import { extractZipEntry, readZipEntries } from "./zip.js";
+
+const ANALYZE_AUDIO_JOB_TYPE = "analyze_audio";
+const VALIDATE_STEMS_JOB_TYPE = "validate_stems";
+const ANALYZE_QUALITY_JOB_TYPE = "analyze_quality";
+// Stems inserted while a validation job runs are picked up by the same job;
+// this bounds how many times it re-reads the pending list.
+const MAX_STEM_VALIDATION_PASSES = 5;
+// The site sample plus the voice tags of the producers seen recently.
+const MAX_CACHED_WATERMARK_ASSETS = 16;
+// How often a paused worker checks whether it has been resumed or stopped.
+const PAUSED_POLL_INTERVAL_MS = 1_000;
+
+const isAnalysisJob = (job: AudioProcessingJobRow) => job.job_type === ANALYZE_AUDIO_JOB_TYPE;
+
+const isStemValidationJob = (job: AudioProcessingJobRow) => job.job_type === VALIDATE_STEMS_JOB_TYPE;
+
+const isQualityJob = (job: AudioProcessingJobRow) => job.job_type === ANALYZE_QUALITY_JOB_TYPE;
+
+const isPreviewJob = (job: AudioProcessingJobRow) =>
+  !isAnalysisJob(job) && !isStemValidationJob(job) && !isQualityJob(job);
+
+// Site watermark loaded once per batch for the preview jobs it contains.
+interface PreviewBatchContext {
+  settings: SiteAudioSettingsRow;
+  currentWatermarkHash: string;
+  watermarkAsset: WatermarkAsset;
+}
 
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
@@ -99,36 +171,83 @@ const throwIfAborted = (signal?: AbortSignal) => {
 export class AudioWorkerService {
   private readonly supabase: SupabaseAdminClient;
   private readonly config: WorkerConfig;
+  private readonly storage: StorageBackend;
+  private readonly metrics: WorkerMetrics;
+  private readonly downloadBudget: DownloadBudget;
   private stopRequested = false;
-  private cachedWatermarkAsset:
-    | {
-        cacheKey: string;
-        asset: WatermarkAsset;
-      }
-    | null = null;
-
-  constructor(params: { supabase: SupabaseAdminClient; config: WorkerConfig }) {
+  private paused = false;
+  private readonly cachedWatermarkAssets = new Map<string, WatermarkAsset>();
+  private readonly inFlightJobs = new Map<string, WorkerStatus["inFlightJobs"][number]>();
+  private lastHeartbeatAt: Date | null = null;
+  private lastLoopError: string | null = null;
+
+  constructor(params: {
+    supabase: SupabaseAdminClient;
+    config: WorkerConfig;
+    storage?: StorageBackend;
+    metrics?: WorkerMetrics;
+  }) {
     this.supabase = params.supabase;
     this.config = params.config;
+    this.storage = params.storage ?? createSupabaseStorageBackend(params.supabase);
+    this.metrics = params.metrics ?? new WorkerMetrics();
+    this.downloadBudget = new DownloadBudget(this.config.downloadInFlightMaxBytes);
+    this.metrics.paused.set({}, 0);
+    this.metrics.inFlightJobs.set({}, 0);
   }
 
   stop() {
     this.stopRequested = true;
   }
 
+  /**
+   * Stops claiming new jobs. The job in progress, if any, runs to completion;
+   * the loop keeps its heartbeat so liveness probes stay green.
+   */
+  pause() {
+    this.paused = true;
+    this.metrics.paused.set({}, 1);
+  }
+
+  resume() {
+    this.paused = false;
+    this.metrics.paused.set({}, 0);
+  }
+
+  getStatus(): WorkerStatus {
+    return {
+      workerId: this.config.workerId,
+      paused: this.paused,
+      stopping: this.stopRequested,
+      lastHeartbeatAt: this.lastHeartbeatAt?.toISOString() ?? null,
+      lastLoopError: this.lastLoopError,
+      inFlightJobs: [...this.inFlightJobs.values()],
+    };
+  }
+
   async run() {
     await fs.mkdir(this.config.tempRoot, { recursive: true });
     await this.cleanupTempRootOnStartup();
 
     while (!this.stopRequested) {
+      this.lastHeartbeatAt = new Date();
+
+      if (this.paused) {
+        await sleep(Math.min(this.config.pollIntervalMs, PAUSED_POLL_INTERVAL_MS));
+        continue;
+      }
+
       try {
         const processedCount = await this.processBatch();
+        this.lastLoopError = null;
         if (!this.stopRequested) {
           // Always wait between cycles — avoids tight loop when jobs arrive in batches
           const delay = processedCount === 0 ? this.config.pollIntervalMs : Math.floor(this.config.pollIntervalMs / 3);
           await sleep(delay);
         }
       } catch (error) {
+        this.lastLoopError = toErrorMessage(error);
+        this.metrics.loopFailures.inc();
         log("error", "worker_loop_failed", {
           workerId: this.config.workerId,
           error: toErrorMessage(error),
@@ -158,41 +277,104 @@ export class AudioWorkerService {
       return 0;
     }
 
-    let settings: SiteAudioSettingsRow;
-    let currentWatermarkHash: string;
-    let watermarkAsset: WatermarkAsset;
-
-    try {
-      settings = await loadSiteAudioSettings(this.supabase);
-      currentWatermarkHash = computeWatermarkHash(settings);
-      watermarkAsset = await this.getWatermarkAsset(settings, currentWatermarkHash);
-    } catch (error) {
-      if (isWatermarkPausedError(error)) {
-        await this.pauseClaimedJobs(jobs, error);
-        return 0;
-      }
-
-      for (const job of jobs) {
-        await this.failClaimedJob(job, error);
-      }
-      return jobs.length;
+    for (const job of jobs) {
+      this.metrics.jobsClaimed.inc({ job_type: job.job_type });
     }
 
-    for (let index = 0; index < jobs.length; index += 1) {
-      const job = jobs[index]!;
-      if (this.stopRequested) {
-        await this.requeueClaimedJobs(jobs.slice(index));
-        break;
-      }
+    // Analysis and stem validation jobs only read private files: they never
+    // wait on the watermark settings, so a paused preview queue does not
+    // hold them back.
+    const previewJobs = jobs.filter(isPreviewJob);
+    let previewContext: PreviewBatchContext | null = null;
+    let previewsPaused = false;
 
+    if (previewJobs.length > 0) {
       try {
-        await this.processClaimedJobWithTimeout(job, settings, currentWatermarkHash, watermarkAsset);
+        const settings = await loadSiteAudioSettings(this.supabase);
+        const currentWatermarkHash = computeWatermarkHash(settings);
+        const watermarkAsset = await this.getWatermarkAsset(settings, currentWatermarkHash);
+        previewContext = { settings, currentWatermarkHash, watermarkAsset };
       } catch (error) {
-        await this.failClaimedJob(job, error);
+        if (isWatermarkPausedError(error)) {
+          await this.pauseClaimedJobs(previewJobs, error);
+          previewsPaused = true;
+        } else {
+          for (const job of previewJobs) {
+            await this.failClaimedJob(job, error);
+          }
+        }
       }
     }
 
-    return jobs.length;
+    const runnableJobs = previewContext ? jobs : jobs.filter((job) => !isPreviewJob(job));
+    await runInLanes(runnableJobs, this.config.jobConcurrency, {
+      run: (job) => this.runClaimedJob(job, previewContext),
+      shouldStop: () => this.stopRequested,
+      onStopped: (remainingJobs) => this.requeueClaimedJobs(remainingJobs),
+    });
+
+    return previewsPaused && runnableJobs.length === 0 ? 0 : jobs.length;
+  }
+
+  private async runClaimedJob(
+    job: AudioProcessingJobRow,
+    previewContext: PreviewBatchContext | null,
+  ) {
+    const startedAt = Date.now();
+    this.lastHeartbeatAt = new Date(startedAt);
+    this.inFlightJobs.set(job.id, {
+      jobId: job.id,
+      jobType: job.job_type,
+      productId: job.product_id,
+      startedAt: new Date(startedAt).toISOString(),
+    });
+    this.metrics.inFlightJobs.set({}, this.inFlightJobs.size);
+
+    try {
+      await this.processClaimedJobWithTimeout((signal) =>
+        previewContext && isPreviewJob(job)
+          ? this.processClaimedJob(
+              job,
+              previewContext.settings,
+              previewContext.currentWatermarkHash,
+              previewContext.watermarkAsset,
+              signal,
+            )
+          : isStemValidationJob(job)
+            ? this.processStemValidationJob(job, signal)
+            : isQualityJob(job)
+              ? this.processQualityJob(job, signal)
+              : this.processAnalysisJob(job, signal),
+      );
+      this.metrics.jobsSucceeded.inc({ job_type: job.job_type });
+    } catch (error) {
+      await this.failClaimedJob(job, error);
+    } finally {
+      this.inFlightJobs.delete(job.id);
+      this.metrics.inFlightJobs.set({}, this.inFlightJobs.size);
+      this.metrics.jobSeconds.observe({ job_type: job.job_type }, (Date.now() - startedAt) / 1000);
+    }
+  }
+
+  /**
+   * Streams an object to disk once the shared download budget has room for
+   * `maxBytes`, so parallel jobs cannot pull several maximal masters or stem
+   * archives at the same time.
+   */
+  private async downloadWithinBudget(
+    ref: StorageObjectRef,
+    maxBytes: number,
+    destinationPath: string,
+    signal?: AbortSignal,
+  ) {
+    try {
+      return await this.downloadBudget.run(maxBytes, signal, () => {
+        this.metrics.downloadBytesReserved.set({}, this.downloadBudget.inFlightBytes);
+        return downloadObjectToFile(this.storage, ref, maxBytes, destinationPath, signal);
+      });
+    } finally {
+      this.metrics.downloadBytesReserved.set({}, this.downloadBudget.inFlightBytes);
+    }
   }
 
   private async cleanupTempRootOnStartup() {
@@ -223,6 +405,7 @@ export class AudioWorkerService {
           locked_by: null,
         });
 
+        this.metrics.jobsRequeued.inc({ reason: "shutdown" });
         log("warn", "job_requeued_on_shutdown", {
           workerId: this.config.workerId,
           jobId: job.id,
@@ -240,10 +423,7 @@ export class AudioWorkerService {
   }
 
   private async processClaimedJobWithTimeout(
-    job: AudioProcessingJobRow,
-    settings: SiteAudioSettingsRow,
-    currentWatermarkHash: string,
-    watermarkAsset: WatermarkAsset,
+    processJob: (signal: AbortSignal) => Promise<void>,
   ) {
     const controller = new AbortController();
     const timeoutHandle = setTimeout(() => {
@@ -253,13 +433,7 @@ export class AudioWorkerService {
     }, this.config.jobTimeoutMs);
 
     try {
-      await this.processClaimedJob(
-        job,
-        settings,
-        currentWatermarkHash,
-        watermarkAsset,
-        controller.signal,
-      );
+      await processJob(controller.signal);
     } finally {
       clearTimeout(timeoutHandle);
     }
@@ -277,6 +451,7 @@ export class AudioWorkerService {
           locked_at: null,
           locked_by: null,
         });
+        this.metrics.jobsRequeued.inc({ reason: "watermark_paused" });
       } catch (pauseError) {
         log("error", "job_pause_requeue_failed", {
           workerId: this.config.workerId,
@@ -309,24 +484,67 @@ export class AudioWorkerService {
     }
 
     const cacheKey = `${currentWatermarkHash}:${settings.watermark_audio_path}`;
-    if (this.cachedWatermarkAsset?.cacheKey === cacheKey) {
-      return this.cachedWatermarkAsset.asset;
+    const cachedAsset = this.cachedWatermarkAssets.get(cacheKey);
+    if (cachedAsset) {
+      // Re-insert so the Map order tracks recency.
+      this.cachedWatermarkAssets.delete(cacheKey);
+      this.cachedWatermarkAssets.set(cacheKey, cachedAsset);
+      return cachedAsset;
     }
 
     const asset = await loadWatermarkAsset(
-      this.supabase,
+      this.storage,
       this.config,
       settings.watermark_audio_path,
     );
 
-    this.cachedWatermarkAsset = {
-      cacheKey,
-      asset,
-    };
+    if (this.cachedWatermarkAssets.size >= MAX_CACHED_WATERMARK_ASSETS) {
+      const oldestKey = this.cachedWatermarkAssets.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.cachedWatermarkAssets.delete(oldestKey);
+      }
+    }
+    this.cachedWatermarkAssets.set(cacheKey, asset);
 
     return asset;
   }
 
+  /**
+   * Swap in the product's watermark profile (producer voice tag) when one
+   * applies. Any problem with the profile falls back to the site sample: a
+   * broken voice tag must not block the preview.
+   */
+  private async resolveProductWatermark(
+    job: AudioProcessingJobRow,
+    product: ProductRow,
+    siteWatermark: ResolvedWatermark,
+  ): Promise<ResolvedWatermark> {
+    if (!product.watermark_profile_id) {
+      return siteWatermark;
+    }
+
+    try {
+      const profile = await loadWatermarkProfile(this.supabase, product.watermark_profile_id);
+      if (!isApplicableWatermarkProfile(profile, product.producer_id)) {
+        return siteWatermark;
+      }
+
+      const settings = applyWatermarkProfile(siteWatermark.settings, profile);
+      const watermarkHash = computeWatermarkHash(settings);
+      const asset = await this.getWatermarkAsset(settings, watermarkHash);
+      return { settings, watermarkHash, asset, profileId: profile.id };
+    } catch (error) {
+      log("warn", "watermark_profile_fallback", {
+        workerId: this.config.workerId,
+        jobId: job.id,
+        productId: product.id,
+        watermarkProfileId: product.watermark_profile_id,
+        error: toErrorMessage(error),
+      });
+      return siteWatermark;
+    }
+  }
+
   private async processClaimedJob(
     job: AudioProcessingJobRow,
     settings: SiteAudioSettingsRow,
@@ -389,7 +607,7 @@ export class AudioWorkerService {
       return;
     }
 
-    const masterSource = await resolveMasterDownloadSource(this.supabase, product, this.config);
+    const masterSource = await resolveMasterDownloadSource(this.storage, product, this.config);
     if (!masterSource) {
       throw new Error("master_source_missing_or_not_private");
     }
@@ -403,17 +621,52 @@ export class AudioWorkerService {
       bucket: product.watermarked_bucket?.trim() || this.config.watermarkedBucket,
       path: `${product.id}/preview_v${targetVersion}.mp3`,
     };
+    const waveformRef: StorageObjectRef = {
+      bucket: targetRef.bucket,
+      path: `${product.id}/waveform_v${targetVersion}.json`,
+    };
+    const watermark = await this.resolveProductWatermark(job, product, {
+      settings,
+      watermarkHash: currentWatermarkHash,
+      asset: watermarkAsset,
+      profileId: null,
+    });
     const masterReference = storageRefToString(masterRef);
-    const previewSignature = computePreviewSignature(masterReference, settings);
+    const renditionSettings = formatRenditionSettings(this.config);
+    const previewSignature = computePreviewSignature(
+      masterReference,
+      watermark.settings,
+      watermark.profileId,
+      renditionSettings,
+    );
+    // Previews rendered before renditions existed lack them: fall through to
+    // a full render so they pick them up. A missing waveform (never extracted
+    // or failed last time) only retries that step from the published preview.
+    const hasCurrentWaveform =
+      product.waveform_version === targetVersion && Boolean(product.waveform_path);
+    const hasCurrentRenditions = product.preview_renditions_version === targetVersion;
 
     if (
       product.preview_signature === previewSignature &&
-      product.last_watermark_hash === currentWatermarkHash
+      product.last_watermark_hash === watermark.watermarkHash &&
+      hasCurrentRenditions
     ) {
-      const targetExists = await objectExists(this.supabase, targetRef).catch(() => false);
+      const targetExists = await objectExists(this.storage, targetRef).catch(() => false);
 
       if (targetExists) {
-        const previewPublicUrl = getPublicObjectUrl(this.supabase, targetRef);
+        const waveformState = hasCurrentWaveform
+          ? null
+          : await this.regenerateWaveformFromPreview({
+            job,
+            product,
+            targetRef,
+            waveformRef,
+            targetVersion,
+            ...(signal ? { signal } : {}),
+          });
+        throwIfAborted(signal);
+
+        const previewPublicUrl = getPublicObjectUrl(this.storage, targetRef);
         await updateProductProcessingState(this.supabase, product.id, {
           watermarked_path: storageRefToString(targetRef),
           preview_url: previewPublicUrl,
@@ -423,7 +676,8 @@ export class AudioWorkerService {
           processing_error: null,
           processed_at: new Date().toISOString(),
           preview_signature: previewSignature,
-          last_watermark_hash: currentWatermarkHash,
+          last_watermark_hash: watermark.watermarkHash,
+          ...waveformState?.productPatch,
         });
 
         await updateAudioProcessingJob(this.supabase, job.id, {
@@ -439,6 +693,8 @@ export class AudioWorkerService {
           productId: product.id,
           previewRef: storageRefToString(targetRef),
           previewVersion: targetVersion,
+          waveformRetried: waveformState !== null,
+          waveformError: waveformState?.errorMessage ?? null,
         });
         return;
       }
@@ -459,10 +715,10 @@ export class AudioWorkerService {
     const normalizedFilePath = path.join(tempDir, `normalized_${job.id}.wav`);
     const firstLayerOutputFilePath = path.join(tempDir, "preview-layer1.mp3");
     const outputFilePath = path.join(tempDir, "preview.mp3");
+    const waveformPcmFilePath = path.join(tempDir, "waveform.pcm");
 
     try {
-      await downloadObjectToFile(
-        this.supabase,
+      await this.downloadWithinBudget(
         downloadMasterRef,
         this.config.downloadMasterMaxBytes,
         masterFilePath,
@@ -480,19 +736,24 @@ export class AudioWorkerService {
         ...(signal ? { signal } : {}),
       });
       throwIfAborted(signal);
+      if (loudnormState.applied) {
+        this.metrics.loudnormApplied.inc();
+      }
 
-      await fs.writeFile(watermarkFilePath, watermarkAsset.buffer);
+      await fs.writeFile(watermarkFilePath, watermark.asset.buffer);
       throwIfAborted(signal);
 
-      const primaryGainDb = Number.isFinite(settings.gain_db) ? Number(settings.gain_db) : -10;
+      const watermarkSettings = watermark.settings;
+      const primaryGainDb = Number.isFinite(watermarkSettings.gain_db) ? Number(watermarkSettings.gain_db) : -10;
       const subtleGainDb = Math.max(primaryGainDb - 18, -60);
-      const minIntervalSec = Number.isFinite(settings.min_interval_sec)
-        ? Number(settings.min_interval_sec)
+      const minIntervalSec = Number.isFinite(watermarkSettings.min_interval_sec)
+        ? Number(watermarkSettings.min_interval_sec)
         : 20;
-      const maxIntervalSec = Number.isFinite(settings.max_interval_sec)
-        ? Number(settings.max_interval_sec)
+      const maxIntervalSec = Number.isFinite(watermarkSettings.max_interval_sec)
+        ? Number(watermarkSettings.max_interval_sec)
         : 45;
 
+      const primaryRenderStartedAt = Date.now();
       const primaryRenderResult = await renderWatermarkedPreview({
         masterFilePath: loudnormState.inputForWatermark,
         watermarkFilePath,
@@ -507,8 +768,10 @@ export class AudioWorkerService {
         audioSampleRate: this.config.previewAudioSampleRate,
         ...(signal ? { signal } : {}),
       });
+      this.metrics.renderSeconds.observe({ layer: "primary" }, (Date.now() - primaryRenderStartedAt) / 1000);
       throwIfAborted(signal);
 
+      const secondaryRenderStartedAt = Date.now();
       const secondaryRenderResult = await renderWatermarkedPreview({
         masterFilePath: firstLayerOutputFilePath,
         watermarkFilePath,
@@ -523,6 +786,7 @@ export class AudioWorkerService {
         audioSampleRate: this.config.previewAudioSampleRate,
         ...(signal ? { signal } : {}),
       });
+      this.metrics.renderSeconds.observe({ layer: "secondary" }, (Date.now() - secondaryRenderStartedAt) / 1000);
       throwIfAborted(signal);
 
       const outputStat = await fs.stat(outputFilePath);
@@ -531,10 +795,32 @@ export class AudioWorkerService {
       }
       throwIfAborted(signal);
 
-      await uploadPreviewFile(this.supabase, targetRef, outputFilePath);
+      await uploadPreviewFile(this.storage, targetRef, outputFilePath);
+      throwIfAborted(signal);
+
+      const waveformState = await this.maybeGenerateWaveform({
+        job,
+        product,
+        previewFilePath: outputFilePath,
+        pcmFilePath: waveformPcmFilePath,
+        waveformRef,
+        targetVersion,
+        ...(signal ? { signal } : {}),
+      });
+      throwIfAborted(signal);
+
+      const renditionsState = await this.maybeRenderRenditions({
+        job,
+        product,
+        previewFilePath: outputFilePath,
+        tempDir,
+        targetRef,
+        targetVersion,
+        ...(signal ? { signal } : {}),
+      });
       throwIfAborted(signal);
 
-      const previewPublicUrl = getPublicObjectUrl(this.supabase, targetRef);
+      const previewPublicUrl = getPublicObjectUrl(this.storage, targetRef);
       await updateProductProcessingState(this.supabase, product.id, {
         watermarked_path: storageRefToString(targetRef),
         preview_url: previewPublicUrl,
@@ -545,8 +831,11 @@ export class AudioWorkerService {
         watermarked_bucket: targetRef.bucket,
         preview_version: targetVersion,
         preview_signature: previewSignature,
-        last_watermark_hash: currentWatermarkHash,
+        preview_rendition_settings: renditionSettings,
+        last_watermark_hash: watermark.watermarkHash,
         ...loudnormState.productPatch,
+        ...waveformState.productPatch,
+        ...renditionsState.productPatch,
       });
 
       await updateAudioProcessingJob(this.supabase, job.id, {
@@ -568,10 +857,17 @@ export class AudioWorkerService {
         positionsSec: secondaryRenderResult.positionsSec,
         primaryWatermarkPositionsSec: primaryRenderResult.positionsSec,
         secondaryWatermarkGainDb: subtleGainDb,
+        watermarkProfileId: watermark.profileId,
         loudnormApplied: loudnormState.applied,
         loudnormError: loudnormState.errorMessage,
         measuredLufs: loudnormState.measurement?.input_i ?? null,
         measuredTruePeakDb: loudnormState.measurement?.input_tp ?? null,
+        waveformRef: waveformState.peaks ? storageRefToString(waveformRef) : null,
+        waveformError: waveformState.errorMessage,
+        hlsRef: renditionsState.hlsRef ? storageRefToString(renditionsState.hlsRef) : null,
+        hlsSegmentCount: renditionsState.segmentCount,
+        lowBitrateRef: renditionsState.lowRef ? storageRefToString(renditionsState.lowRef) : null,
+        renditionsError: renditionsState.errorMessage,
       });
     } finally {
       await fs.rm(tempDir, { recursive: true, force: true });
@@ -579,119 +875,796 @@ export class AudioWorkerService {
   }
 
   /**
-   * Optionally normalize the master to a temp WAV before watermarking.
-   *
-   * Critical guarantees:
-   *   - Reads the feature flag and targets from site_audio_settings ONLY
-   *     (with config-level env var fallbacks if the row is missing them).
-   *   - Returns `inputForWatermark = masterFilePath` whenever loudnorm is
-   *     disabled OR fails, so the watermark pipeline always has something
-   *     to chew on.
-   *   - Never throws on loudnorm errors — they are surfaced via
-   *     `errorMessage` and persisted to `products.normalization_error`,
-   *     but the surrounding job continues.
-   *   - The master file on Supabase Storage is never read-back, modified,
-   *     or re-uploaded by this method.
+   * Estimate tempo and key from the private master and store them in the
+   * products.detected_* columns. Producer-entered bpm / key_signature are
+   * never touched: the upload form compares both and flags mismatches.
    */
-  private async maybeNormalizeMaster(params: {
-    job: AudioProcessingJobRow;
-    product: { id: string };
-    settings: SiteAudioSettingsRow;
-    masterFilePath: string;
-    normalizedFilePath: string;
-    signal?: AbortSignal;
-  }): Promise<{
-    inputForWatermark: string;
-    applied: boolean;
-    measurement: LoudnessAnalysis | null;
-    errorMessage: string | null;
-    productPatch: Record<string, unknown>;
-  }> {
-    const { job, product, settings, masterFilePath, normalizedFilePath, signal } = params;
+  private async processAnalysisJob(job: AudioProcessingJobRow, signal?: AbortSignal) {
+    throwIfAborted(signal);
 
-    // site_audio_settings is the source of truth; env-derived defaults
-    // (from config) are only consulted when the column is null/undefined.
-    const enabled = settings.loudnorm_enabled === null || settings.loudnorm_enabled === undefined
-      ? this.config.loudnormEnabledDefault
-      : settings.loudnorm_enabled === true;
+    log("info", "job_started", {
+      workerId: this.config.workerId,
+      jobId: job.id,
+      jobType: job.job_type,
+      productId: job.product_id,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+    });
 
-    if (!enabled) {
-      // Feature flag OFF — pipeline behaves exactly as before this change.
-      // We DO NOT overwrite the existing measured_* / normalization_* columns,
-      // so prior measurements survive a flag toggle.
-      return {
-        inputForWatermark: masterFilePath,
-        applied: false,
-        measurement: null,
-        errorMessage: null,
-        productPatch: {},
-      };
+    const product = await loadProductForProcessing(this.supabase, job.product_id);
+    if (!product) {
+      await updateAudioProcessingJob(this.supabase, job.id, {
+        status: "dead",
+        last_error: "product_not_found",
+        locked_at: null,
+        locked_by: null,
+      });
+
+      log("warn", "job_dead_product_not_found", {
+        workerId: this.config.workerId,
+        jobId: job.id,
+        jobType: job.job_type,
+        productId: job.product_id,
+      });
+      return;
     }
 
-    const targets: LoudnessTargets = {
-      targetLufs: Number.isFinite(settings.target_lufs)
-        ? Number(settings.target_lufs)
-        : this.config.loudnormTargetLufsDefault,
-      targetTruePeakDb: Number.isFinite(settings.target_true_peak_db)
-        ? Number(settings.target_true_peak_db)
-        : this.config.loudnormTargetTruePeakDbDefault,
-      targetLra: Number.isFinite(settings.target_lra)
-        ? Number(settings.target_lra)
-        : this.config.loudnormTargetLraDefault,
-    };
+    const isAnalyzableProduct =
+      product.product_type === "beat" || product.product_type === "exclusive";
 
-    try {
-      const analysis = await analyzeLoudness(masterFilePath, targets, {
-        ffmpegBin: this.config.ffmpegBin,
-        ffmpegTimeoutMs: Math.min(this.config.ffmpegTimeoutMs, this.config.jobTimeoutMs),
-        ...(signal ? { signal } : {}),
+    if (!isAnalyzableProduct || product.deleted_at) {
+      await updateAudioProcessingJob(this.supabase, job.id, {
+        status: "done",
+        last_error: null,
+        locked_at: null,
+        locked_by: null,
+      });
+
+      log("info", "job_skipped_ineligible_product", {
+        workerId: this.config.workerId,
+        jobId: job.id,
+        jobType: job.job_type,
+        productId: product.id,
+        productType: product.product_type,
+        deletedAt: product.deleted_at,
       });
+      return;
+    }
+
+    const masterSource = await resolveMasterDownloadSource(this.storage, product, this.config);
+    if (!masterSource) {
+      throw new Error("master_source_missing_or_not_private");
+    }
+    throwIfAborted(signal);
+
+    const tempDir = await fs.mkdtemp(
+      path.join(this.config.tempRoot, `${product.id}-${job.id}-${randomUUID()}-`),
+    );
+    const masterExt = guessMasterExtension(product, masterSource.canonicalRef.path);
+    const masterFilePath = path.join(tempDir, `master.${masterExt}`);
+    const pcmFilePath = path.join(tempDir, "analysis.pcm");
+
+    try {
+      await this.downloadWithinBudget(
+        masterSource.downloadRef,
+        this.config.downloadMasterMaxBytes,
+        masterFilePath,
+        signal,
+      );
       throwIfAborted(signal);
 
-      await applyLoudnorm(masterFilePath, normalizedFilePath, analysis, targets, {
+      await decodeAnalysisPcm(masterFilePath, pcmFilePath, {
         ffmpegBin: this.config.ffmpegBin,
         ffmpegTimeoutMs: Math.min(this.config.ffmpegTimeoutMs, this.config.jobTimeoutMs),
-        sampleRate: this.config.previewAudioSampleRate,
+        sampleRate: this.config.analysisSampleRate,
+        maxDurationSec: this.config.analysisMaxDurationSec,
         ...(signal ? { signal } : {}),
       });
       throwIfAborted(signal);
 
-      log("info", "loudnorm_applied", {
-        workerId: this.config.workerId,
-        jobId: job.id,
-        productId: product.id,
-        measured: analysis,
-        targets,
+      const pcm = await fs.readFile(pcmFilePath);
+      const analysis = analyzeAudioPcm(pcm, this.config.analysisSampleRate);
+      throwIfAborted(signal);
+
+      const fingerprintResult = await this.fingerprintMaster(job, product.id, toMonoSamples(pcm), signal);
+      throwIfAborted(signal);
+
+      await updateProductProcessingState(this.supabase, product.id, {
+        detected_bpm: analysis.tempo?.bpm ?? null,
+        detected_bpm_confidence: analysis.tempo?.confidence ?? null,
+        detected_key_signature: analysis.key?.key ?? null,
+        detected_key_confidence: analysis.key?.confidence ?? null,
+        audio_analyzed_at: new Date().toISOString(),
+        audio_analysis_error: null,
       });
 
-      return {
-        inputForWatermark: normalizedFilePath,
-        applied: true,
-        measurement: analysis,
-        errorMessage: null,
-        productPatch: {
-          measured_lufs: Number(analysis.input_i.toFixed(2)),
-          measured_true_peak_db: Number(analysis.input_tp.toFixed(2)),
-          normalization_applied: true,
-          normalization_error: null,
-        },
-      };
-    } catch (error) {
-      // If the abort signal fired, re-throw — the surrounding job loop
-      // expects the abort error to bubble. Anything else is contained.
-      if (signal?.aborted) {
-        throw error;
-      }
+      await updateAudioProcessingJob(this.supabase, job.id, {
+        status: "done",
+        last_error: null,
+        locked_at: null,
+        locked_by: null,
+      });
 
-      const message = toErrorMessage(error);
-      log("warn", "loudnorm_failed_falling_back_to_master", {
+      log("info", "job_succeeded", {
         workerId: this.config.workerId,
         jobId: job.id,
+        jobType: job.job_type,
         productId: product.id,
-        error: message,
+        masterRef: storageRefToString(masterSource.downloadRef),
+        analyzedDurationSec: analysis.analyzedDurationSec,
+        detectedBpm: analysis.tempo?.bpm ?? null,
+        detectedBpmConfidence: analysis.tempo?.confidence ?? null,
+        detectedKey: analysis.key?.key ?? null,
+        detectedKeyConfidence: analysis.key?.confidence ?? null,
+        fingerprintCodeCount: fingerprintResult.codeCount,
+        fingerprintCandidateCount: fingerprintResult.candidateCount,
+        duplicateMatchCount: fingerprintResult.matchCount,
+        duplicateReviewStatus: fingerprintResult.reviewStatus,
       });
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
 
-      return {
+  /**
+   * Grade the private master against the quality thresholds and store the
+   * report. Unreadable or undecodable files are a failed report, not a failed
+   * job; only storage, timeout and database errors are retried. Unpublishing
+   * a failed beat is decided by record_audio_quality_report.
+   */
+  private async processQualityJob(job: AudioProcessingJobRow, signal?: AbortSignal) {
+    throwIfAborted(signal);
+
+    log("info", "job_started", {
+      workerId: this.config.workerId,
+      jobId: job.id,
+      jobType: job.job_type,
+      productId: job.product_id,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+    });
+
+    const product = await loadProductForProcessing(this.supabase, job.product_id);
+    if (!product) {
+      await updateAudioProcessingJob(this.supabase, job.id, {
+        status: "dead",
+        last_error: "product_not_found",
+        locked_at: null,
+        locked_by: null,
+      });
+
+      log("warn", "job_dead_product_not_found", {
+        workerId: this.config.workerId,
+        jobId: job.id,
+        jobType: job.job_type,
+        productId: job.product_id,
+      });
+      return;
+    }
+
+    const isCheckableProduct =
+      product.product_type === "beat" || product.product_type === "exclusive";
+
+    if (!isCheckableProduct || product.deleted_at) {
+      await updateAudioProcessingJob(this.supabase, job.id, {
+        status: "done",
+        last_error: null,
+        locked_at: null,
+        locked_by: null,
+      });
+
+      log("info", "job_skipped_ineligible_product", {
+        workerId: this.config.workerId,
+        jobId: job.id,
+        jobType: job.job_type,
+        productId: product.id,
+        productType: product.product_type,
+        deletedAt: product.deleted_at,
+      });
+      return;
+    }
+
+    const masterReference = product.master_path?.trim() || product.master_url?.trim() || null;
+    const masterSource = await resolveMasterDownloadSource(this.storage, product, this.config);
+    if (!masterSource || !masterReference) {
+      throw new Error("master_source_missing_or_not_private");
+    }
+    throwIfAborted(signal);
+
+    const tempDir = await fs.mkdtemp(
+      path.join(this.config.tempRoot, `${product.id}-${job.id}-${randomUUID()}-`),
+    );
+    const masterExt = guessMasterExtension(product, masterSource.canonicalRef.path);
+    const masterFilePath = path.join(tempDir, `master.${masterExt}`);
+    const pcmFilePath = path.join(tempDir, "quality.f32");
+    const ffmpegTimeoutMs = Math.min(this.config.ffmpegTimeoutMs, this.config.jobTimeoutMs);
+
+    try {
+      await this.downloadWithinBudget(
+        masterSource.downloadRef,
+        this.config.downloadMasterMaxBytes,
+        masterFilePath,
+        signal,
+      );
+      throwIfAborted(signal);
+
+      const format = await probeAudioFormat(this.config.ffprobeBin, masterFilePath, {
+        timeoutMs: ffmpegTimeoutMs,
+        ...(signal ? { signal } : {}),
+      });
+      throwIfAborted(signal);
+
+      let metrics: AudioQualityMetrics | null = null;
+      let decodeErrors: string[] = [];
+
+      if (format?.sampleRate && format.channels) {
+        const channels = Math.min(format.channels, 2);
+        const decoded = await decodeQualityPcm(masterFilePath, pcmFilePath, {
+          ffmpegBin: this.config.ffmpegBin,
+          ffmpegTimeoutMs,
+          channels,
+          ...(signal ? { signal } : {}),
+        });
+        throwIfAborted(signal);
+
+        decodeErrors = decoded.errors;
+        if (decoded.ok) {
+          metrics = await measureQualityPcmFile(pcmFilePath, {
+            sampleRate: format.sampleRate,
+            channels,
+            silenceThresholdDb: this.config.qualitySilenceThresholdDb,
+            ...(signal ? { signal } : {}),
+          });
+        } else if (decodeErrors.length === 0) {
+          decodeErrors = ["decoder_exited_with_error"];
+        }
+      }
+
+      const report = evaluateAudioQuality(format, metrics, decodeErrors, {
+        maxClippedRatio: this.config.qualityMaxClippedRatio,
+        maxSilenceRatio: this.config.qualityMaxSilenceRatio,
+        silenceThresholdDb: this.config.qualitySilenceThresholdDb,
+        minChannelCorrelation: this.config.qualityMinChannelCorrelation,
+        minSampleRate: this.config.qualityMinSampleRate,
+        minBitDepth: this.config.qualityMinBitDepth,
+      });
+      throwIfAborted(signal);
+
+      const result = await recordAudioQualityReport(this.supabase, product.id, masterReference, report);
+
+      await updateAudioProcessingJob(this.supabase, job.id, {
+        status: "done",
+        last_error: null,
+        locked_at: null,
+        locked_by: null,
+      });
+
+      if (report.status === "passed") {
+        this.metrics.qualityChecks.inc({ status: "passed", reason: "none" });
+      }
+      for (const reason of report.reasons) {
+        this.metrics.qualityChecks.inc({ status: "failed", reason: reason.code });
+      }
+
+      log(report.status === "failed" ? "warn" : "info", "job_succeeded", {
+        workerId: this.config.workerId,
+        jobId: job.id,
+        jobType: job.job_type,
+        productId: product.id,
+        masterRef: storageRefToString(masterSource.downloadRef),
+        qualityStatus: report.status,
+        qualityReasons: report.reasons.map((reason) => reason.code),
+        reportRecorded: result.recorded,
+        isPublished: result.is_published,
+        sampleRate: format?.sampleRate ?? null,
+        bitDepth: format?.bitDepth ?? null,
+        peakDbfs: metrics?.peakDbfs ?? null,
+        clippedRatio: metrics?.clippedRatio ?? null,
+        silenceRatio: metrics?.silenceRatio ?? null,
+        channelCorrelation: metrics?.channelCorrelation ?? null,
+      });
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Fingerprint the decoded master, score it against other producers' beats
+   * that share codes with it and record the suspected duplicates. Unlike the
+   * preview extras this step is not best-effort: a failure fails the job so
+   * the upload is retried rather than skipping the duplicate check. Holding
+   * the beat out of the catalog is decided by record_audio_fingerprint.
+   */
+  private async fingerprintMaster(
+    job: AudioProcessingJobRow,
+    productId: string,
+    samples: Float64Array,
+    signal?: AbortSignal,
+  ) {
+    const fingerprint = computeAudioFingerprint(samples, this.config.analysisSampleRate);
+    throwIfAborted(signal);
+
+    const candidates = await findAudioFingerprintCandidates(
+      this.supabase,
+      productId,
+      fingerprint,
+      this.config.fingerprintCandidateLimit,
+    );
+    throwIfAborted(signal);
+
+    const matches: AudioFingerprintMatch[] = [];
+    for (const candidate of candidates) {
+      const comparison = compareFingerprints(fingerprint, {
+        version: candidate.algorithm_version,
+        frameHopSec: candidate.frame_hop_sec,
+        durationSec: candidate.duration_sec,
+        codes: candidate.codes,
+      });
+
+      if (comparison && comparison.similarity >= this.config.fingerprintMatchThreshold) {
+        matches.push({
+          matched_product_id: candidate.product_id,
+          similarity: comparison.similarity,
+          offset_sec: comparison.offsetSec,
+          overlap_sec: comparison.overlapSec,
+        });
+      }
+    }
+
+    const result = await recordAudioFingerprint(this.supabase, productId, fingerprint, matches);
+
+    if (result.new_match_count > 0) {
+      log("warn", "audio_duplicate_suspected", {
+        workerId: this.config.workerId,
+        jobId: job.id,
+        productId,
+        newMatchCount: result.new_match_count,
+        pendingMatchCount: result.pending_match_count,
+        reviewStatus: result.review_status,
+        matches,
+      });
+    }
+
+    return {
+      codeCount: fingerprint.codes.length,
+      candidateCount: candidates.length,
+      matchCount: matches.length,
+      reviewStatus: result.review_status,
+    };
+  }
+
+  /**
+   * Validate the producer's pending stems: every file must carry a decodable
+   * audio stream, and its length and peak level are compared with the master.
+   * Zip packs are unpacked one entry at a time into the job temp dir. Only
+   * product_files rows are written; the product itself is never touched.
+   */
+  private async processStemValidationJob(job: AudioProcessingJobRow, signal?: AbortSignal) {
+    throwIfAborted(signal);
+
+    log("info", "job_started", {
+      workerId: this.config.workerId,
+      jobId: job.id,
+      jobType: job.job_type,
+      productId: job.product_id,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+    });
+
+    const product = await loadProductForProcessing(this.supabase, job.product_id);
+    if (!product || product.deleted_at) {
+      await updateAudioProcessingJob(this.supabase, job.id, {
+        status: "done",
+        last_error: null,
+        locked_at: null,
+        locked_by: null,
+      });
+
+      log("info", "job_skipped_ineligible_product", {
+        workerId: this.config.workerId,
+        jobId: job.id,
+        jobType: job.job_type,
+        productId: job.product_id,
+        deletedAt: product?.deleted_at ?? null,
+      });
+      return;
+    }
+
+    const tempDir = await fs.mkdtemp(
+      path.join(this.config.tempRoot, `${product.id}-${job.id}-${randomUUID()}-`),
+    );
+    const statusCounts: Record<string, number> = {};
+
+    try {
+      const masterDurationSec = await this.probeMasterDurationForStems(job, product, tempDir, signal);
+      throwIfAborted(signal);
+
+      for (let pass = 0; pass < MAX_STEM_VALIDATION_PASSES; pass += 1) {
+        const files = await loadPendingStemFiles(this.supabase, product.id);
+        if (files.length === 0) {
+          break;
+        }
+
+        for (const file of files) {
+          throwIfAborted(signal);
+          const status = await this.validateStemFile(product, file, masterDurationSec, tempDir, signal);
+          statusCounts[status] = (statusCounts[status] ?? 0) + 1;
+        }
+      }
+
+      await updateAudioProcessingJob(this.supabase, job.id, {
+        status: "done",
+        last_error: null,
+        locked_at: null,
+        locked_by: null,
+      });
+
+      log("info", "job_succeeded", {
+        workerId: this.config.workerId,
+        jobId: job.id,
+        jobType: job.job_type,
+        productId: product.id,
+        masterDurationSec,
+        validStemFiles: statusCounts.valid ?? 0,
+        warningStemFiles: statusCounts.warning ?? 0,
+        invalidStemFiles: statusCounts.invalid ?? 0,
+      });
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Stems are compared with the stored master rather than the duration the
+   * upload form sent. Falls back to products.duration_seconds when the
+   * master cannot be read, and to null (no length check) without either.
+   */
+  private async probeMasterDurationForStems(
+    job: AudioProcessingJobRow,
+    product: ProductRow,
+    tempDir: string,
+    signal?: AbortSignal,
+  ): Promise<number | null> {
+    const fallback = typeof product.duration_seconds === "number" && product.duration_seconds > 0
+      ? product.duration_seconds
+      : null;
+
+    try {
+      const masterSource = await resolveMasterDownloadSource(this.storage, product, this.config);
+      if (!masterSource) {
+        return fallback;
+      }
+
+      const masterExt = guessMasterExtension(product, masterSource.canonicalRef.path);
+      const masterFilePath = path.join(tempDir, `master.${masterExt}`);
+      await this.downloadWithinBudget(
+        masterSource.downloadRef,
+        this.config.downloadMasterMaxBytes,
+        masterFilePath,
+        signal,
+      );
+
+      const duration = await probeAudioStreamDurationSec(this.config.ffprobeBin, masterFilePath, {
+        timeoutMs: Math.min(this.config.ffmpegTimeoutMs, this.config.jobTimeoutMs),
+        ...(signal ? { signal } : {}),
+      });
+      await fs.rm(masterFilePath, { force: true });
+      return duration ?? fallback;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      log("warn", "stem_master_probe_failed", {
+        workerId: this.config.workerId,
+        jobId: job.id,
+        productId: product.id,
+        fallbackDurationSec: fallback,
+        error: toErrorMessage(error),
+      });
+      return fallback;
+    }
+  }
+
+  private async validateStemFile(
+    product: ProductRow,
+    file: ProductFileRow,
+    masterDurationSec: number | null,
+    tempDir: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const stemRef = resolveStemReference(product, file, this.config);
+    if (!stemRef) {
+      await updateProductFileValidation(this.supabase, file.id, {
+        validation_status: "invalid",
+        validation_error: "invalid_stem_path",
+      });
+      return "invalid";
+    }
+
+    const localPath = path.join(tempDir, `upload-${file.id}${path.extname(stemRef.path).toLowerCase()}`);
+
+    try {
+      try {
+        await this.downloadWithinBudget(stemRef, this.config.stemsMaxBytes, localPath, signal);
+      } catch (error) {
+        // Oversized uploads can never pass; any other download error is
+        // retried with the job.
+        if (!toErrorMessage(error).includes("Object too large")) {
+          throw error;
+        }
+
+        await updateProductFileValidation(this.supabase, file.id, {
+          validation_status: "invalid",
+          validation_error: "file_too_large",
+        });
+        return "invalid";
+      }
+      throwIfAborted(signal);
+
+      if (file.file_kind === "stem") {
+        const evaluation = await this.evaluateStemFile(localPath, masterDurationSec, signal);
+        await updateProductFileValidation(this.supabase, file.id, {
+          validation_status: evaluation.status,
+          validation_error: evaluation.status === "invalid" ? evaluation.issues.join(",") : null,
+          duration_seconds: evaluation.durationSec,
+          duration_delta_seconds: evaluation.durationDeltaSec,
+          is_silent: evaluation.isSilent,
+          stem_count: evaluation.status === "invalid" ? 0 : 1,
+          validation_details: {
+            issues: evaluation.issues,
+            max_volume_db: evaluation.maxVolumeDb,
+          },
+        });
+        return evaluation.status;
+      }
+
+      return await this.validateStemArchive(file, localPath, masterDurationSec, tempDir, signal);
+    } finally {
+      await fs.rm(localPath, { force: true });
+    }
+  }
+
+  private async validateStemArchive(
+    file: ProductFileRow,
+    archivePath: string,
+    masterDurationSec: number | null,
+    tempDir: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    let entries: ZipEntry[];
+    try {
+      entries = await readZipEntries(archivePath, this.config.stemArchiveMaxEntries);
+    } catch (error) {
+      await updateProductFileValidation(this.supabase, file.id, {
+        validation_status: "invalid",
+        validation_error: toErrorMessage(error),
+        stem_count: 0,
+      });
+      return "invalid";
+    }
+
+    const reports: Array<Record<string, unknown>> = [];
+    const evaluations: StemEvaluation[] = [];
+    const skipped: string[] = [];
+
+    for (const [index, entry] of entries.entries()) {
+      const kind = classifyArchiveEntry(entry.name);
+      if (kind === "ignored") {
+        continue;
+      }
+      if (kind === "skipped") {
+        skipped.push(entry.name);
+        continue;
+      }
+      throwIfAborted(signal);
+
+      let evaluation: StemEvaluation;
+      let entryError: string | null = null;
+
+      if (entry.uncompressedSize > this.config.stemsMaxBytes) {
+        evaluation = evaluateStem(null, masterDurationSec, this.stemEvaluationOptions());
+        entryError = "file_too_large";
+      } else {
+        const entryPath = path.join(tempDir, `entry-${index}${path.extname(entry.name).toLowerCase()}`);
+        try {
+          await extractZipEntry(archivePath, entry, entryPath, signal);
+          evaluation = await this.evaluateStemFile(entryPath, masterDurationSec, signal);
+        } catch (error) {
+          if (signal?.aborted) {
+            throw error;
+          }
+          evaluation = evaluateStem(null, masterDurationSec, this.stemEvaluationOptions());
+          entryError = toErrorMessage(error);
+        } finally {
+          await fs.rm(entryPath, { force: true });
+        }
+      }
+
+      evaluations.push(evaluation);
+      reports.push({
+        name: entry.name,
+        status: evaluation.status,
+        issues: evaluation.issues,
+        error: entryError,
+        duration_sec: evaluation.durationSec,
+        duration_delta_sec: evaluation.durationDeltaSec,
+        max_volume_db: evaluation.maxVolumeDb,
+      });
+    }
+
+    const summary = summarizeStemArchive(evaluations);
+    await updateProductFileValidation(this.supabase, file.id, {
+      validation_status: summary.status,
+      validation_error: summary.error,
+      duration_seconds: null,
+      duration_delta_seconds: summary.durationDeltaSec,
+      is_silent: summary.isSilent,
+      stem_count: summary.stemCount,
+      validation_details: {
+        entries: reports,
+        skipped,
+      },
+    });
+
+    return summary.status;
+  }
+
+  private async evaluateStemFile(
+    filePath: string,
+    masterDurationSec: number | null,
+    signal?: AbortSignal,
+  ): Promise<StemEvaluation> {
+    const commandOptions = {
+      timeoutMs: Math.min(this.config.ffmpegTimeoutMs, this.config.jobTimeoutMs),
+      ...(signal ? { signal } : {}),
+    };
+
+    let durationSec: number | null;
+    try {
+      durationSec = await probeAudioStreamDurationSec(this.config.ffprobeBin, filePath, commandOptions);
+    } catch (error) {
+      // ffprobe exits non-zero on files it cannot parse at all.
+      if (signal?.aborted) {
+        throw error;
+      }
+      durationSec = null;
+    }
+
+    if (durationSec === null) {
+      return evaluateStem(null, masterDurationSec, this.stemEvaluationOptions());
+    }
+
+    const maxVolumeDb = await measureMaxVolumeDb(filePath, {
+      ffmpegBin: this.config.ffmpegBin,
+      ffmpegTimeoutMs: commandOptions.timeoutMs,
+      ...(signal ? { signal } : {}),
+    });
+
+    return evaluateStem({ durationSec, maxVolumeDb }, masterDurationSec, this.stemEvaluationOptions());
+  }
+
+  private stemEvaluationOptions() {
+    return {
+      silenceThresholdDb: this.config.stemSilenceThresholdDb,
+      durationToleranceSec: this.config.stemDurationToleranceSec,
+    };
+  }
+
+  /**
+   * Optionally normalize the master to a temp WAV before watermarking.
+   *
+   * Critical guarantees:
+   *   - Reads the feature flag and targets from site_audio_settings ONLY
+   *     (with config-level env var fallbacks if the row is missing them).
+   *   - Returns `inputForWatermark = masterFilePath` whenever loudnorm is
+   *     disabled OR fails, so the watermark pipeline always has something
+   *     to chew on.
+   *   - Never throws on loudnorm errors — they are surfaced via
+   *     `errorMessage` and persisted to `products.normalization_error`,
+   *     but the surrounding job continues.
+   *   - The master file on Supabase Storage is never read-back, modified,
+   *     or re-uploaded by this method.
+   */
+  private async maybeNormalizeMaster(params: {
+    job: AudioProcessingJobRow;
+    product: { id: string };
+    settings: SiteAudioSettingsRow;
+    masterFilePath: string;
+    normalizedFilePath: string;
+    signal?: AbortSignal;
+  }): Promise<{
+    inputForWatermark: string;
+    applied: boolean;
+    measurement: LoudnessAnalysis | null;
+    errorMessage: string | null;
+    productPatch: Record<string, unknown>;
+  }> {
+    const { job, product, settings, masterFilePath, normalizedFilePath, signal } = params;
+
+    // site_audio_settings is the source of truth; env-derived defaults
+    // (from config) are only consulted when the column is null/undefined.
+    const enabled = settings.loudnorm_enabled === null || settings.loudnorm_enabled === undefined
+      ? this.config.loudnormEnabledDefault
+      : settings.loudnorm_enabled === true;
+
+    if (!enabled) {
+      // Feature flag OFF — pipeline behaves exactly as before this change.
+      // We DO NOT overwrite the existing measured_* / normalization_* columns,
+      // so prior measurements survive a flag toggle.
+      return {
+        inputForWatermark: masterFilePath,
+        applied: false,
+        measurement: null,
+        errorMessage: null,
+        productPatch: {},
+      };
+    }
+
+    const targets: LoudnessTargets = {
+      targetLufs: Number.isFinite(settings.target_lufs)
+        ? Number(settings.target_lufs)
+        : this.config.loudnormTargetLufsDefault,
+      targetTruePeakDb: Number.isFinite(settings.target_true_peak_db)
+        ? Number(settings.target_true_peak_db)
+        : this.config.loudnormTargetTruePeakDbDefault,
+      targetLra: Number.isFinite(settings.target_lra)
+        ? Number(settings.target_lra)
+        : this.config.loudnormTargetLraDefault,
+    };
+
+    try {
+      const analysis = await analyzeLoudness(masterFilePath, targets, {
+        ffmpegBin: this.config.ffmpegBin,
+        ffmpegTimeoutMs: Math.min(this.config.ffmpegTimeoutMs, this.config.jobTimeoutMs),
+        ...(signal ? { signal } : {}),
+      });
+      throwIfAborted(signal);
+
+      await applyLoudnorm(masterFilePath, normalizedFilePath, analysis, targets, {
+        ffmpegBin: this.config.ffmpegBin,
+        ffmpegTimeoutMs: Math.min(this.config.ffmpegTimeoutMs, this.config.jobTimeoutMs),
+        sampleRate: this.config.previewAudioSampleRate,
+        ...(signal ? { signal } : {}),
+      });
+      throwIfAborted(signal);
+
+      log("info", "loudnorm_applied", {
+        workerId: this.config.workerId,
+        jobId: job.id,
+        productId: product.id,
+        measured: analysis,
+        targets,
+      });
+
+      return {
+        inputForWatermark: normalizedFilePath,
+        applied: true,
+        measurement: analysis,
+        errorMessage: null,
+        productPatch: {
+          measured_lufs: Number(analysis.input_i.toFixed(2)),
+          measured_true_peak_db: Number(analysis.input_tp.toFixed(2)),
+          normalization_applied: true,
+          normalization_error: null,
+        },
+      };
+    } catch (error) {
+      // If the abort signal fired, re-throw — the surrounding job loop
+      // expects the abort error to bubble. Anything else is contained.
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      const message = toErrorMessage(error);
+      log("warn", "loudnorm_failed_falling_back_to_master", {
+        workerId: this.config.workerId,
+        jobId: job.id,
+        productId: product.id,
+        error: message,
+      });
+
+      return {
         inputForWatermark: masterFilePath,
         applied: false,
         measurement: null,
@@ -704,9 +1677,263 @@ export class AudioWorkerService {
     }
   }
 
+  /**
+   * Decode the rendered preview into a fixed-resolution peaks array and
+   * publish it next to the preview as `waveform_v<N>.json`.
+   *
+   * Like loudnorm, this is best effort: a failure is logged and leaves the
+   * previous waveform columns untouched so the player falls back to its flat
+   * progress bar. Only an abort of the surrounding job is re-thrown.
+   */
+  private async maybeGenerateWaveform(params: {
+    job: AudioProcessingJobRow;
+    product: { id: string };
+    previewFilePath: string;
+    pcmFilePath: string;
+    waveformRef: StorageObjectRef;
+    targetVersion: number;
+    signal?: AbortSignal;
+  }): Promise<{
+    peaks: WaveformPeaks | null;
+    errorMessage: string | null;
+    productPatch: Record<string, unknown>;
+  }> {
+    const { job, product, previewFilePath, pcmFilePath, waveformRef, targetVersion, signal } = params;
+
+    try {
+      await decodeWaveformPcm(previewFilePath, pcmFilePath, {
+        ffmpegBin: this.config.ffmpegBin,
+        ffmpegTimeoutMs: Math.min(this.config.ffmpegTimeoutMs, this.config.jobTimeoutMs),
+        sampleRate: this.config.waveformSampleRate,
+        ...(signal ? { signal } : {}),
+      });
+      throwIfAborted(signal);
+
+      const pcm = await fs.readFile(pcmFilePath);
+      const peaks = computeWaveformPeaks(
+        pcm,
+        this.config.waveformPeakCount,
+        this.config.waveformSampleRate,
+      );
+
+      await uploadJsonObject(this.storage, waveformRef, peaks);
+      throwIfAborted(signal);
+
+      return {
+        peaks,
+        errorMessage: null,
+        productPatch: {
+          waveform_path: storageRefToString(waveformRef),
+          waveform_version: targetVersion,
+        },
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      const message = toErrorMessage(error);
+      log("warn", "waveform_generation_failed", {
+        workerId: this.config.workerId,
+        jobId: job.id,
+        productId: product.id,
+        error: message,
+      });
+
+      return {
+        peaks: null,
+        errorMessage: message,
+        productPatch: {},
+      };
+    } finally {
+      await fs.rm(pcmFilePath, { force: true });
+    }
+  }
+
+  /**
+   * Retry the waveform of a preview that is otherwise current by decoding
+   * the published MP3, so a failed extraction never costs a full render of
+   * the master. Same best-effort contract as maybeGenerateWaveform.
+   */
+  private async regenerateWaveformFromPreview(params: {
+    job: AudioProcessingJobRow;
+    product: { id: string };
+    targetRef: StorageObjectRef;
+    waveformRef: StorageObjectRef;
+    targetVersion: number;
+    signal?: AbortSignal;
+  }) {
+    const { job, product, targetRef, waveformRef, targetVersion, signal } = params;
+    const tempDir = await fs.mkdtemp(
+      path.join(this.config.tempRoot, `${product.id}-${job.id}-waveform-${randomUUID()}-`),
+    );
+    const previewFilePath = path.join(tempDir, "preview.mp3");
+
+    try {
+      try {
+        await this.downloadWithinBudget(
+          targetRef,
+          this.config.downloadMasterMaxBytes,
+          previewFilePath,
+          signal,
+        );
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+
+        const message = toErrorMessage(error);
+        log("warn", "waveform_generation_failed", {
+          workerId: this.config.workerId,
+          jobId: job.id,
+          productId: product.id,
+          error: message,
+        });
+        return { peaks: null, errorMessage: message, productPatch: {} };
+      }
+
+      return await this.maybeGenerateWaveform({
+        job,
+        product,
+        previewFilePath,
+        pcmFilePath: path.join(tempDir, "waveform.pcm"),
+        waveformRef,
+        targetVersion,
+        ...(signal ? { signal } : {}),
+      });
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Derive the streaming renditions from the final watermarked preview:
+   *   - `<product_id>/preview_v<N>_low.mp3` for constrained connections
+   *   - `<product_id>/hls_v<N>/index.m3u8` + segments for progressive start
+   *
+   * Paths follow the preview version so the client can derive them from
+   * `watermarked_path`. Best effort like the waveform: on failure
+   * `preview_renditions_version` is cleared and clients stay on the MP3.
+   * Segments are uploaded before the playlist so a published playlist never
+   * references a missing segment.
+   */
+  private async maybeRenderRenditions(params: {
+    job: AudioProcessingJobRow;
+    product: { id: string };
+    previewFilePath: string;
+    tempDir: string;
+    targetRef: StorageObjectRef;
+    targetVersion: number;
+    signal?: AbortSignal;
+  }): Promise<{
+    lowRef: StorageObjectRef | null;
+    hlsRef: StorageObjectRef | null;
+    segmentCount: number;
+    errorMessage: string | null;
+    productPatch: Record<string, unknown>;
+  }> {
+    const { job, product, previewFilePath, tempDir, targetRef, targetVersion, signal } = params;
+    const lowFilePath = path.join(tempDir, "preview-low.mp3");
+    const hlsDir = path.join(tempDir, "hls");
+    const hlsPrefix = `${product.id}/hls_v${targetVersion}`;
+    const lowRef: StorageObjectRef = {
+      bucket: targetRef.bucket,
+      path: `${product.id}/preview_v${targetVersion}_low.mp3`,
+    };
+    const hlsRef: StorageObjectRef = {
+      bucket: targetRef.bucket,
+      path: `${hlsPrefix}/index.m3u8`,
+    };
+    const ffmpegTimeoutMs = Math.min(this.config.ffmpegTimeoutMs, this.config.jobTimeoutMs);
+
+    try {
+      await renderLowBitratePreview(previewFilePath, lowFilePath, {
+        ffmpegBin: this.config.ffmpegBin,
+        ffmpegTimeoutMs,
+        audioBitrate: this.config.previewLowAudioBitrate,
+        audioSampleRate: this.config.previewAudioSampleRate,
+        ...(signal ? { signal } : {}),
+      });
+      throwIfAborted(signal);
+
+      await fs.mkdir(hlsDir, { recursive: true });
+      await renderHlsPlaylist(previewFilePath, hlsDir, {
+        ffmpegBin: this.config.ffmpegBin,
+        ffmpegTimeoutMs,
+        audioBitrate: this.config.hlsAudioBitrate,
+        audioSampleRate: this.config.previewAudioSampleRate,
+        segmentDurationSec: this.config.hlsSegmentDurationSec,
+        ...(signal ? { signal } : {}),
+      });
+      throwIfAborted(signal);
+
+      const segmentNames = (await fs.readdir(hlsDir)).filter((name) => name.endsWith(".ts")).sort();
+      if (segmentNames.length === 0) {
+        throw new Error("hls_segments_empty");
+      }
+
+      for (const segmentName of segmentNames) {
+        await uploadPreviewFile(
+          this.storage,
+          { bucket: targetRef.bucket, path: `${hlsPrefix}/${segmentName}` },
+          path.join(hlsDir, segmentName),
+          "video/mp2t",
+        );
+        throwIfAborted(signal);
+      }
+
+      await uploadPreviewFile(
+        this.storage,
+        hlsRef,
+        path.join(hlsDir, "index.m3u8"),
+        "application/vnd.apple.mpegurl",
+      );
+      throwIfAborted(signal);
+
+      await uploadPreviewFile(this.storage, lowRef, lowFilePath);
+      throwIfAborted(signal);
+
+      return {
+        lowRef,
+        hlsRef,
+        segmentCount: segmentNames.length,
+        errorMessage: null,
+        productPatch: {
+          preview_renditions_version: targetVersion,
+        },
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      const message = toErrorMessage(error);
+      log("warn", "preview_renditions_failed", {
+        workerId: this.config.workerId,
+        jobId: job.id,
+        productId: product.id,
+        error: message,
+      });
+
+      return {
+        lowRef: null,
+        hlsRef: null,
+        segmentCount: 0,
+        errorMessage: message,
+        productPatch: {
+          preview_renditions_version: null,
+        },
+      };
+    } finally {
+      await fs.rm(lowFilePath, { force: true });
+      await fs.rm(hlsDir, { recursive: true, force: true });
+    }
+  }
+
   private async failClaimedJob(job: AudioProcessingJobRow, error: unknown) {
     const message = toErrorMessage(error);
     const nextStatus = job.attempts >= job.max_attempts ? "dead" : "error";
+    this.metrics.jobsFailed.inc({ job_type: job.job_type, next_status: nextStatus });
 
     try {
       await updateAudioProcessingJob(this.supabase, job.id, {
@@ -724,25 +1951,38 @@ export class AudioWorkerService {
       });
     }
 
-    try {
-      await updateProductProcessingState(this.supabase, job.product_id, {
-        processing_status: "error",
-        processing_error: message,
-        processed_at: null,
-      });
-    } catch (productUpdateError) {
-      log("error", "product_update_failed_after_error", {
-        workerId: this.config.workerId,
-        jobId: job.id,
-        productId: job.product_id,
-        originalError: message,
-        updateError: toErrorMessage(productUpdateError),
-      });
+    // Stem validation and quality check failures stay on the job: the stems
+    // remain pending, the quality status is left as it was and the product's
+    // preview state is untouched.
+    if (!isStemValidationJob(job) && !isQualityJob(job)) {
+      try {
+        // A failed analysis must not mark the preview pipeline as broken.
+        await updateProductProcessingState(
+          this.supabase,
+          job.product_id,
+          isAnalysisJob(job)
+            ? { audio_analysis_error: message }
+            : {
+                processing_status: "error",
+                processing_error: message,
+                processed_at: null,
+              },
+        );
+      } catch (productUpdateError) {
+        log("error", "product_update_failed_after_error", {
+          workerId: this.config.workerId,
+          jobId: job.id,
+          productId: job.product_id,
+          originalError: message,
+          updateError: toErrorMessage(productUpdateError),
+        });
+      }
     }
 
     log("error", "job_failed", {
       workerId: this.config.workerId,
       jobId: job.id,
+      jobType: job.job_type,
       productId: job.product_id,
       attempts: job.attempts,
       maxAttempts: job.max_attempts,
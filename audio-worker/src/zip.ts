@@ -0,0 +1,201 @@
+import { createReadStream, createWriteStream } from "node:fs";
+import fs from "node:fs/promises";
+import { Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { createInflateRaw } from "node:zlib";
+import type { ZipEntry } from "./types.js";
+
+// Minimal reader for the zip archives producers upload as stem packs. The
+// runtime image ships ffmpeg only (no unzip), so the central directory is
+// parsed here and entries are inflated with node:zlib one at a time.
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const CENTRAL_DIRECTORY_HEADER_SIZE = 46;
+const LOCAL_FILE_HEADER_SIZE = 30;
+const MAX_ARCHIVE_COMMENT_SIZE = 0xffff;
+const ZIP64_MARKER_16 = 0xffff;
+const ZIP64_MARKER_32 = 0xffffffff;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8_NAME = 0x800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+const readAt = async (handle: fs.FileHandle, position: number, length: number) => {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+};
+
+const invalidArchive = (reason: string) => new Error(`zip_invalid: ${reason}`);
+
+/**
+ * List the entries of a zip archive from its central directory. Zip64,
+ * encrypted entries and compression methods other than stored/deflate are
+ * rejected: stem packs are far below the 4 GB zip64 threshold.
+ */
+export const readZipEntries = async (filePath: string, maxEntries: number): Promise<ZipEntry[]> => {
+  const handle = await fs.open(filePath, "r");
+
+  try {
+    const { size } = await handle.stat();
+    if (size < END_OF_CENTRAL_DIRECTORY_SIZE) {
+      throw invalidArchive("file too small");
+    }
+
+    const tailLength = Math.min(size, END_OF_CENTRAL_DIRECTORY_SIZE + MAX_ARCHIVE_COMMENT_SIZE);
+    const tail = await readAt(handle, size - tailLength, tailLength);
+
+    let endOffset = -1;
+    for (let offset = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= 0; offset -= 1) {
+      if (tail.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        endOffset = offset;
+        break;
+      }
+    }
+    if (endOffset < 0) {
+      throw invalidArchive("end of central directory not found");
+    }
+
+    const entryCount = tail.readUInt16LE(endOffset + 10);
+    const directorySize = tail.readUInt32LE(endOffset + 12);
+    const directoryOffset = tail.readUInt32LE(endOffset + 16);
+
+    if (
+      entryCount === ZIP64_MARKER_16 ||
+      directorySize === ZIP64_MARKER_32 ||
+      directoryOffset === ZIP64_MARKER_32
+    ) {
+      throw new Error("zip_unsupported: zip64 archives are not supported");
+    }
+    if (entryCount > maxEntries) {
+      throw new Error(`zip_too_many_entries: ${entryCount} > ${maxEntries}`);
+    }
+    if (directoryOffset + directorySize > size) {
+      throw invalidArchive("central directory out of bounds");
+    }
+
+    const directory = await readAt(handle, directoryOffset, directorySize);
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+
+    for (let index = 0; index < entryCount; index += 1) {
+      if (
+        offset + CENTRAL_DIRECTORY_HEADER_SIZE > directory.length ||
+        directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER_SIGNATURE
+      ) {
+        throw invalidArchive(`bad central directory header at entry ${index}`);
+      }
+
+      const flags = directory.readUInt16LE(offset + 8);
+      const method = directory.readUInt16LE(offset + 10);
+      const compressedSize = directory.readUInt32LE(offset + 20);
+      const uncompressedSize = directory.readUInt32LE(offset + 24);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const localHeaderOffset = directory.readUInt32LE(offset + 42);
+      const nameStart = offset + CENTRAL_DIRECTORY_HEADER_SIZE;
+
+      if (nameStart + nameLength > directory.length) {
+        throw invalidArchive(`entry ${index} name out of bounds`);
+      }
+
+      const name = directory.toString(
+        flags & FLAG_UTF8_NAME ? "utf8" : "latin1",
+        nameStart,
+        nameStart + nameLength,
+      );
+
+      if (
+        compressedSize === ZIP64_MARKER_32 ||
+        uncompressedSize === ZIP64_MARKER_32 ||
+        localHeaderOffset === ZIP64_MARKER_32
+      ) {
+        throw new Error("zip_unsupported: zip64 archives are not supported");
+      }
+      if (flags & FLAG_ENCRYPTED) {
+        throw new Error(`zip_unsupported: encrypted entry ${name}`);
+      }
+
+      entries.push({
+        name,
+        method,
+        compressedSize,
+        uncompressedSize,
+        localHeaderOffset,
+        isDirectory: name.endsWith("/"),
+      });
+
+      offset = nameStart + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Inflate one entry to outputPath. The output is capped at the size
+ * declared in the central directory, so a crafted archive cannot expand
+ * past it. Entry names are never used as paths: callers pick outputPath.
+ */
+export const extractZipEntry = async (
+  filePath: string,
+  entry: ZipEntry,
+  outputPath: string,
+  signal?: AbortSignal,
+): Promise<void> => {
+  if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATED) {
+    throw new Error(`zip_unsupported: compression method ${entry.method} for ${entry.name}`);
+  }
+
+  const handle = await fs.open(filePath, "r");
+  let dataStart: number;
+  try {
+    const header = await readAt(handle, entry.localHeaderOffset, LOCAL_FILE_HEADER_SIZE);
+    if (header.length < LOCAL_FILE_HEADER_SIZE || header.readUInt32LE(0) !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw invalidArchive(`bad local header for ${entry.name}`);
+    }
+    dataStart =
+      entry.localHeaderOffset + LOCAL_FILE_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+  } finally {
+    await handle.close();
+  }
+
+  if (entry.compressedSize === 0) {
+    await fs.writeFile(outputPath, "");
+    return;
+  }
+
+  let writtenBytes = 0;
+  const limiter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      writtenBytes += chunk.byteLength;
+      if (writtenBytes > entry.uncompressedSize) {
+        callback(new Error(`zip_entry_size_mismatch: ${entry.name} inflates past its declared size`));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+
+  const source = createReadStream(filePath, {
+    start: dataStart,
+    end: dataStart + entry.compressedSize - 1,
+  });
+  const destination = createWriteStream(outputPath, { flags: "w" });
+  const pipelineOptions = signal ? { signal } : {};
+
+  if (entry.method === METHOD_DEFLATED) {
+    await pipeline(source, createInflateRaw(), limiter, destination, pipelineOptions);
+  } else {
+    await pipeline(source, limiter, destination, pipelineOptions);
+  }
+
+  if (writtenBytes !== entry.uncompressedSize) {
+    throw new Error(`zip_entry_size_mismatch: ${entry.name} (${writtenBytes} != ${entry.uncompressedSize} bytes)`);
+  }
+};
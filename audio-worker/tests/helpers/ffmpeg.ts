@@ -0,0 +1,17 @@
+import { assertFfmpegAvailable } from "../../src/ffmpeg.js";
+
+/**
+ * `skip` option for tests that shell out to ffmpeg/ffprobe. They are skipped
+ * when the binaries are missing, unless REQUIRE_FFMPEG=1 (the CI job that
+ * installs ffmpeg): then they run and fail instead of passing silently.
+ */
+export const skipWithoutFfmpeg = async (ffmpegBin: string, ffprobeBin: string): Promise<false | string> => {
+  if (process.env.REQUIRE_FFMPEG === "1") {
+    return false;
+  }
+
+  return assertFfmpegAvailable(ffmpegBin, ffprobeBin).then(
+    () => false,
+    () => "ffmpeg/ffprobe not available",
+  );
+};
@@ -0,0 +1,21 @@
+import type { WorkerConfig } from "../../src/types.js";
+
+// Just enough environment for config.ts to load; every other setting keeps
+// its production default.
+const TEST_ENV: Record<string, string> = {
+  SUPABASE_URL: "http://127.0.0.1:54321",
+  SERVICE_ROLE_KEY: "test-service-role-key",
+  SUPABASE_MASTER_BUCKET: "beats-masters",
+  WORKER_ID: "test-worker",
+};
+
+/**
+ * Loads the worker's real config from a test environment. config.ts reads
+ * process.env once, on first import, so a test file gets one config: pass
+ * every variable it needs on the first call.
+ */
+export const loadTestWorkerConfig = async (env: Record<string, string> = {}): Promise<WorkerConfig> => {
+  Object.assign(process.env, TEST_ENV, env);
+  const { config } = await import("../../src/config.js");
+  return config;
+};
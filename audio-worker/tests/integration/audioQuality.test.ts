@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+import { decodeQualityPcm, probeAudioFormat } from "../../src/ffmpeg.js";
+import { AudioQualityAccumulator, evaluateAudioQuality, measureQualityPcmFile } from "../../src/quality.js";
+import type { AudioFormatProbe, AudioQualityThresholds } from "../../src/types.js";
+import { skipWithoutFfmpeg } from "../helpers/ffmpeg.js";
+
+const FIXTURES_DIR = fileURLToPath(new URL("../fixtures/", import.meta.url));
+const FFMPEG_BIN = process.env.FFMPEG_BIN || "ffmpeg";
+const FFPROBE_BIN = process.env.FFPROBE_BIN || "ffprobe";
+const FFMPEG_TIMEOUT_MS = 60_000;
+const SAMPLE_RATE = 8_000;
+
+const THRESHOLDS: AudioQualityThresholds = {
+  maxClippedRatio: 0.001,
+  maxSilenceRatio: 0.5,
+  silenceThresholdDb: -60,
+  minChannelCorrelation: -0.5,
+  minSampleRate: 44_100,
+  minBitDepth: 16,
+};
+
+const CD_FORMAT: AudioFormatProbe = {
+  codecName: "pcm_s16le",
+  sampleRate: 44_100,
+  channels: 2,
+  bitDepth: 16,
+  durationSec: 1,
+};
+
+const ffmpegSkip = await skipWithoutFfmpeg(FFMPEG_BIN, FFPROBE_BIN);
+
+// One second of interleaved stereo float PCM built from a per-frame generator.
+const stereoPcm = (frame: (index: number) => [number, number]) => {
+  const buffer = Buffer.alloc(SAMPLE_RATE * 2 * 4);
+  for (let index = 0; index < SAMPLE_RATE; index += 1) {
+    const [left, right] = frame(index);
+    buffer.writeFloatLE(left, index * 8);
+    buffer.writeFloatLE(right, index * 8 + 4);
+  }
+  return buffer;
+};
+
+const sine = (index: number) => 0.5 * Math.sin((2 * Math.PI * 440 * index) / SAMPLE_RATE);
+
+const measure = (pcm: Buffer, chunkBytes = 4_093) => {
+  const accumulator = new AudioQualityAccumulator(SAMPLE_RATE, 2, THRESHOLDS.silenceThresholdDb);
+  // Odd chunk sizes split frames and samples across pushes.
+  for (let offset = 0; offset < pcm.length; offset += chunkBytes) {
+    accumulator.push(pcm.subarray(offset, offset + chunkBytes));
+  }
+  return accumulator.finish();
+};
+
+test("quality accumulator measures peak, clipping, silence and channel correlation", () => {
+  const clean = measure(stereoPcm((index) => [sine(index), sine(index)]));
+  assert.equal(clean.analyzedDurationSec, 1);
+  assert.ok(clean.peakDbfs !== null && Math.abs(clean.peakDbfs - -6.02) < 0.1);
+  assert.equal(clean.clippedSamples, 0);
+  assert.equal(clean.silenceRatio, 0);
+  assert.equal(clean.channelCorrelation, 1);
+  assert.equal(evaluateAudioQuality(CD_FORMAT, clean, [], THRESHOLDS).status, "passed");
+
+  const inverted = measure(stereoPcm((index) => [sine(index), -sine(index)]));
+  assert.equal(inverted.channelCorrelation, -1);
+
+  const clipped = measure(stereoPcm((index) => {
+    const value = Math.max(-1, Math.min(1, 3 * sine(index)));
+    return [value, value];
+  }));
+  assert.ok(clipped.clippedRatio > 0.1);
+  assert.ok(clipped.clipEvents > 0);
+  assert.equal(clipped.peakDbfs, 0);
+
+  const mostlySilent = measure(stereoPcm((index) => (index < SAMPLE_RATE * 0.8 ? [0, 0] : [sine(index), sine(index)])));
+  assert.equal(mostlySilent.silenceRatio, 0.8);
+  assert.equal(mostlySilent.longestSilenceSec, 0.8);
+
+  const report = evaluateAudioQuality(
+    { ...CD_FORMAT, sampleRate: 22_050, bitDepth: 8 },
+    { ...clipped, silenceRatio: mostlySilent.silenceRatio, channelCorrelation: inverted.channelCorrelation },
+    [],
+    THRESHOLDS,
+  );
+  assert.equal(report.status, "failed");
+  assert.deepEqual(
+    report.reasons.map((reason) => reason.code),
+    ["low_sample_rate", "low_bit_depth", "clipping", "silence", "phase_inverted"],
+  );
+
+  const corrupt = evaluateAudioQuality(CD_FORMAT, null, ["Invalid data found when processing input"], THRESHOLDS);
+  assert.deepEqual(corrupt.reasons.map((reason) => reason.code), ["corrupt"]);
+});
+
+test(
+  "probes, decodes and grades the master fixture",
+  { skip: ffmpegSkip },
+  async (t) => {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "audio-worker-quality-"));
+    t.after(() => fs.rm(workDir, { recursive: true, force: true }));
+
+    const masterPath = path.join(FIXTURES_DIR, "master.wav");
+    const format = await probeAudioFormat(FFPROBE_BIN, masterPath, { timeoutMs: FFMPEG_TIMEOUT_MS });
+    assert.ok(format);
+    assert.equal(format.sampleRate, 11_025);
+    assert.equal(format.channels, 1);
+    assert.equal(format.bitDepth, 16);
+
+    const pcmPath = path.join(workDir, "quality.f32");
+    const decoded = await decodeQualityPcm(masterPath, pcmPath, {
+      ffmpegBin: FFMPEG_BIN,
+      ffmpegTimeoutMs: FFMPEG_TIMEOUT_MS,
+      channels: 1,
+    });
+    assert.deepEqual(decoded, { ok: true, errors: [] });
+
+    const metrics = await measureQualityPcmFile(pcmPath, {
+      sampleRate: 11_025,
+      channels: 1,
+      silenceThresholdDb: THRESHOLDS.silenceThresholdDb,
+    });
+    assert.ok(Math.abs(metrics.analyzedDurationSec - 6) < 0.05);
+    assert.equal(metrics.channelCorrelation, null);
+
+    // The fixture is a low-rate mono file: it only fails on sample rate.
+    const report = evaluateAudioQuality(format, metrics, decoded.errors, THRESHOLDS);
+    assert.deepEqual(report.reasons.map((reason) => reason.code), ["low_sample_rate"]);
+
+    const notAudioPath = path.join(workDir, "not-audio.wav");
+    await fs.writeFile(notAudioPath, "definitely not a wav file");
+    assert.equal(await probeAudioFormat(FFPROBE_BIN, notAudioPath, { timeoutMs: FFMPEG_TIMEOUT_MS }), null);
+  },
+);
@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { createReadStream } from "node:fs";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+import {
+  analyzeLoudness,
+  applyLoudnorm,
+  probeAudioDurationSec,
+  renderWatermarkedPreview,
+} from "../../src/ffmpeg.js";
+import {
+  downloadObjectToFile,
+  getPublicObjectUrl,
+  loadWatermarkAsset,
+  objectExists,
+  uploadPreviewFile,
+} from "../../src/storage.js";
+import { createLocalStorageBackend } from "../../src/storageBackend.js";
+import { skipWithoutFfmpeg } from "../helpers/ffmpeg.js";
+import { loadTestWorkerConfig } from "../helpers/workerConfig.js";
+
+// Runs the preview pipeline against the local storage backend and the WAV
+// fixtures: no Supabase project needed, only ffmpeg/ffprobe on PATH (or
+// FFMPEG_BIN / FFPROBE_BIN).
+const FIXTURES_DIR = fileURLToPath(new URL("../fixtures/", import.meta.url));
+const FFMPEG_TIMEOUT_MS = 60_000;
+const TARGETS = { targetLufs: -14, targetTruePeakDb: -1, targetLra: 11 };
+
+const masterRef = { bucket: "beats-masters", path: "producer-1/product-1/master.wav" };
+const watermarkPath = "site/watermark.wav";
+const previewRef = { bucket: "beats-watermarked", path: "product-1/preview_v1.mp3" };
+
+const config = await loadTestWorkerConfig();
+const FFMPEG_BIN = config.ffmpegBin;
+const FFPROBE_BIN = config.ffprobeBin;
+const ffmpegSkip = await skipWithoutFfmpeg(FFMPEG_BIN, FFPROBE_BIN);
+
+const createFixtureStorage = async () => {
+  const rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "audio-worker-storage-"));
+  const storage = createLocalStorageBackend({ rootDir });
+
+  await storage.upload(masterRef, createReadStream(path.join(FIXTURES_DIR, "master.wav")), {
+    contentType: "audio/wav",
+    upsert: false,
+  });
+  await storage.upload(
+    { bucket: config.watermarkAssetsBucket, path: watermarkPath },
+    await fs.readFile(path.join(FIXTURES_DIR, "watermark.wav")),
+    { contentType: "audio/wav", upsert: false },
+  );
+
+  return { rootDir, storage };
+};
+
+test("local storage backend round-trips objects and enforces byte limits", async (t) => {
+  const { rootDir, storage } = await createFixtureStorage();
+  t.after(() => fs.rm(rootDir, { recursive: true, force: true }));
+
+  assert.equal(await objectExists(storage, masterRef), true);
+  assert.equal(await objectExists(storage, { bucket: "beats-masters", path: "producer-1/missing.wav" }), false);
+
+  const masterStat = await fs.stat(path.join(FIXTURES_DIR, "master.wav"));
+  const downloadedPath = path.join(rootDir, "download.wav");
+  assert.equal(await downloadObjectToFile(storage, masterRef, masterStat.size, downloadedPath), masterStat.size);
+
+  await assert.rejects(
+    downloadObjectToFile(storage, masterRef, 1024, path.join(rootDir, "too-large.wav")),
+    /Object too large for processing/,
+  );
+  await assert.rejects(
+    downloadObjectToFile(storage, { bucket: "beats-masters", path: "../escape.wav" }, 1024, downloadedPath),
+    /Failed to stream-download/,
+  );
+  await assert.rejects(
+    storage.upload(masterRef, Buffer.from("x"), { contentType: "audio/wav", upsert: false }),
+    /already exists/,
+  );
+
+  assert.match(getPublicObjectUrl(storage, previewRef), /^file:\/\/.*beats-watermarked\/product-1\/preview_v1\.mp3$/);
+  assert.equal(
+    getPublicObjectUrl(createLocalStorageBackend({ rootDir, publicBaseUrl: "http://localhost:9000/" }), previewRef),
+    "http://localhost:9000/beats-watermarked/product-1/preview_v1.mp3",
+  );
+});
+
+test(
+  "renders a loudness-normalized watermarked preview from the fixtures",
+  { skip: ffmpegSkip },
+  async (t) => {
+    const { rootDir, storage } = await createFixtureStorage();
+    t.after(() => fs.rm(rootDir, { recursive: true, force: true }));
+
+    const workDir = path.join(rootDir, "work");
+    await fs.mkdir(workDir);
+    const masterFilePath = path.join(workDir, "master.wav");
+    const normalizedFilePath = path.join(workDir, "normalized.wav");
+    const watermarkFilePath = path.join(workDir, "watermark.wav");
+    const outputFilePath = path.join(workDir, "preview.mp3");
+    const commandOptions = { ffmpegBin: FFMPEG_BIN, ffmpegTimeoutMs: FFMPEG_TIMEOUT_MS };
+
+    await downloadObjectToFile(storage, masterRef, 10 * 1024 * 1024, masterFilePath);
+    const watermark = await loadWatermarkAsset(storage, config, watermarkPath);
+    await fs.writeFile(watermarkFilePath, watermark.buffer);
+
+    const measurement = await analyzeLoudness(masterFilePath, TARGETS, commandOptions);
+    assert.ok(measurement.input_i < TARGETS.targetLufs - 3, `fixture already at ${measurement.input_i} LUFS`);
+
+    await applyLoudnorm(masterFilePath, normalizedFilePath, measurement, TARGETS, {
+      ...commandOptions,
+      sampleRate: 44_100,
+    });
+    const normalized = await analyzeLoudness(normalizedFilePath, TARGETS, commandOptions);
+    assert.ok(
+      Math.abs(normalized.input_i - TARGETS.targetLufs) <= 2,
+      `normalized to ${normalized.input_i} LUFS, expected about ${TARGETS.targetLufs}`,
+    );
+
+    const render = await renderWatermarkedPreview({
+      masterFilePath: normalizedFilePath,
+      watermarkFilePath,
+      outputFilePath,
+      gainDb: -10,
+      minIntervalSec: 2,
+      maxIntervalSec: 3,
+      ffmpegBin: FFMPEG_BIN,
+      ffprobeBin: FFPROBE_BIN,
+      ffmpegTimeoutMs: FFMPEG_TIMEOUT_MS,
+      audioBitrate: "128k",
+      audioSampleRate: 44_100,
+    });
+    assert.ok(render.positionsSec.length >= 1);
+    assert.ok(render.positionsSec.every((position) => position >= 0 && position <= render.durationSec));
+
+    const previewDurationSec = await probeAudioDurationSec(FFPROBE_BIN, outputFilePath, {
+      timeoutMs: FFMPEG_TIMEOUT_MS,
+    });
+    assert.ok(Math.abs(previewDurationSec - 6) < 0.25, `preview lasts ${previewDurationSec}s`);
+
+    await uploadPreviewFile(storage, previewRef, outputFilePath);
+    assert.equal(await objectExists(storage, previewRef), true);
+    assert.ok((await fs.stat(path.join(rootDir, previewRef.bucket, previewRef.path))).size > 0);
+  },
+);
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { DownloadBudget } from "../../src/downloadBudget.js";
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+test("reservations within the capacity are granted at once", async () => {
+  const budget = new DownloadBudget(100);
+  const releaseA = await budget.acquire(40);
+  const releaseB = await budget.acquire(60);
+  assert.equal(budget.inFlightBytes, 100);
+
+  releaseA();
+  releaseA();
+  assert.equal(budget.inFlightBytes, 60);
+  releaseB();
+  assert.equal(budget.inFlightBytes, 0);
+});
+
+test("waiters are served in arrival order, even when a later one would fit", async () => {
+  const budget = new DownloadBudget(100);
+  const granted: string[] = [];
+  const releaseFirst = await budget.acquire(70);
+
+  const large = budget.acquire(80).then((release) => {
+    granted.push("large");
+    return release;
+  });
+  const small = budget.acquire(30).then((release) => {
+    granted.push("small");
+    return release;
+  });
+  await flush();
+  assert.deepEqual(granted, []);
+  assert.equal(budget.inFlightBytes, 70);
+
+  releaseFirst();
+  const releaseLarge = await large;
+  await flush();
+  assert.deepEqual(granted, ["large"]);
+  assert.equal(budget.inFlightBytes, 80);
+
+  releaseLarge();
+  (await small)();
+  assert.deepEqual(granted, ["large", "small"]);
+  assert.equal(budget.inFlightBytes, 0);
+});
+
+test("aborting a queued reservation rejects it and unblocks the ones behind", async () => {
+  const budget = new DownloadBudget(100);
+  const releaseFirst = await budget.acquire(50);
+  const controller = new AbortController();
+
+  const blocked = budget.acquire(100, controller.signal);
+  let smallGranted = false;
+  const small = budget.acquire(30).then((release) => {
+    smallGranted = true;
+    return release;
+  });
+  await flush();
+  assert.equal(smallGranted, false);
+
+  controller.abort(new Error("job_timeout"));
+  await assert.rejects(blocked, /job_timeout/);
+  (await small)();
+  assert.equal(smallGranted, true);
+
+  releaseFirst();
+  assert.equal(budget.inFlightBytes, 0);
+  await assert.rejects(budget.acquire(10, controller.signal), /job_timeout/);
+});
+
+test("a reservation larger than the capacity is clamped and runs alone", async () => {
+  const budget = new DownloadBudget(100);
+  const release = await budget.acquire(500);
+  assert.equal(budget.inFlightBytes, 100);
+
+  let queuedGranted = false;
+  const queued = budget.acquire(1).then((next) => {
+    queuedGranted = true;
+    return next;
+  });
+  await flush();
+  assert.equal(queuedGranted, false);
+
+  release();
+  (await queued)();
+  assert.equal(budget.inFlightBytes, 0);
+});
+
+test("run releases the reservation when the task fails", async () => {
+  const budget = new DownloadBudget(100);
+
+  await assert.rejects(
+    budget.run(80, undefined, async () => {
+      assert.equal(budget.inFlightBytes, 80);
+      throw new Error("download_failed");
+    }),
+    /download_failed/,
+  );
+  assert.equal(budget.inFlightBytes, 0);
+
+  assert.equal(await budget.run(100, undefined, async () => "done"), "done");
+  assert.equal(budget.inFlightBytes, 0);
+});
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  FINGERPRINT_ALGORITHM_VERSION,
+  compareFingerprints,
+  computeAudioFingerprint,
+} from "../../src/fingerprint.js";
+
+const SAMPLE_RATE = 11_025;
+const HOP_SIZE = 512;
+
+// Deterministic stand-in for a beat: a new three-tone chord every 250 ms,
+// frequencies drawn from a seeded generator inside the fingerprinted bands.
+const synthesizeBeat = (durationSec: number, seed: number) => {
+  let state = seed;
+  const random = () => {
+    state = (state * 1_103_515_245 + 12_345) % 2 ** 31;
+    return state / 2 ** 31;
+  };
+
+  const samples = new Float64Array(Math.round(durationSec * SAMPLE_RATE));
+  const chordLength = Math.round(SAMPLE_RATE / 4);
+  let frequencies: number[] = [];
+  for (let index = 0; index < samples.length; index += 1) {
+    if (index % chordLength === 0) {
+      frequencies = [0, 1, 2].map(() => 300 + random() * 1_700);
+    }
+    const time = index / SAMPLE_RATE;
+    samples[index] = frequencies.reduce((sum, frequency) => sum + 0.2 * Math.sin(2 * Math.PI * frequency * time), 0);
+  }
+  return samples;
+};
+
+const beat = synthesizeBeat(30, 7);
+const fingerprint = computeAudioFingerprint(beat, SAMPLE_RATE);
+
+test("computeAudioFingerprint describes the samples it was given", () => {
+  assert.equal(fingerprint.version, FINGERPRINT_ALGORITHM_VERSION);
+  assert.equal(fingerprint.frameHopSec, HOP_SIZE / SAMPLE_RATE);
+  assert.equal(fingerprint.durationSec, 30);
+  assert.ok(fingerprint.codes.length > 600);
+  assert.ok(fingerprint.codes.every((code) => Number.isInteger(code) && code >= -(2 ** 31) && code < 2 ** 31));
+  assert.deepEqual(computeAudioFingerprint(beat, SAMPLE_RATE), fingerprint);
+});
+
+test("computeAudioFingerprint stores silent frames as 0", () => {
+  const silent = computeAudioFingerprint(new Float64Array(SAMPLE_RATE * 5), SAMPLE_RATE);
+  assert.ok(silent.codes.length > 0);
+  assert.ok(silent.codes.every((code) => code === 0));
+});
+
+test("compareFingerprints matches a master with itself at offset 0", () => {
+  assert.deepEqual(compareFingerprints(fingerprint, fingerprint), {
+    similarity: 1,
+    offsetSec: 0,
+    overlapSec: Number((fingerprint.codes.length * fingerprint.frameHopSec).toFixed(3)),
+  });
+});
+
+test("compareFingerprints finds a trimmed, noisier re-upload and its offset", () => {
+  const trimFrames = 43;
+  let state = 1;
+  const reupload = beat.slice(trimFrames * HOP_SIZE).map((sample) => {
+    state = (state * 48_271) % 2_147_483_647;
+    return sample * 0.8 + (state / 2_147_483_647 - 0.5) * 0.01;
+  });
+
+  const comparison = compareFingerprints(computeAudioFingerprint(reupload, SAMPLE_RATE), fingerprint);
+  assert.ok(comparison);
+  assert.ok(comparison.similarity >= 0.75, `similarity ${comparison.similarity}`);
+  assert.equal(comparison.offsetSec, Number((trimFrames * fingerprint.frameHopSec).toFixed(3)));
+});
+
+test("compareFingerprints keeps unrelated masters below the match threshold", () => {
+  const other = computeAudioFingerprint(synthesizeBeat(30, 99), SAMPLE_RATE);
+  const comparison = compareFingerprints(other, fingerprint);
+  assert.ok(comparison === null || comparison.similarity < 0.75, `similarity ${comparison?.similarity}`);
+});
+
+test("compareFingerprints needs 10 s of overlap and the same algorithm version", () => {
+  const excerpt = computeAudioFingerprint(beat.slice(0, SAMPLE_RATE * 5), SAMPLE_RATE);
+  assert.equal(compareFingerprints(excerpt, fingerprint), null);
+  assert.equal(compareFingerprints({ ...fingerprint, version: fingerprint.version + 1 }, fingerprint), null);
+});
@@ -0,0 +1,209 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import test from "node:test";
+import { createWorkerHttpServer } from "../../src/httpServer.js";
+import { WorkerMetrics } from "../../src/metrics.js";
+import type { SupabaseAdminClient, WorkerStatus } from "../../src/types.js";
+import { loadTestWorkerConfig } from "../helpers/workerConfig.js";
+
+const ADMIN_TOKEN = "test-admin-token";
+const config = await loadTestWorkerConfig({ WORKER_ADMIN_TOKEN: ADMIN_TOKEN });
+
+const createFakeWorker = () => {
+  const status: WorkerStatus = {
+    workerId: config.workerId,
+    paused: false,
+    stopping: false,
+    lastHeartbeatAt: new Date().toISOString(),
+    lastLoopError: null,
+    inFlightJobs: [],
+  };
+  return {
+    status,
+    pause: () => { status.paused = true; },
+    resume: () => { status.paused = false; },
+    getStatus: () => ({ ...status }),
+  };
+};
+
+// Answers the queue depth counts: `.from().select(…, { head: true }).eq("status", …)`.
+const createFakeSupabase = (countByStatus: (status: string) => number) => {
+  const countedStatuses: string[] = [];
+  const supabase = {
+    from: () => ({
+      select: () => ({
+        eq: async (_column: string, status: string) => {
+          countedStatuses.push(status);
+          return { count: countByStatus(status), error: null };
+        },
+      }),
+    }),
+  } as unknown as SupabaseAdminClient;
+  return { supabase, countedStatuses };
+};
+
+const startServer = async (options: {
+  countByStatus?: (status: string) => number;
+  adminToken?: string | null;
+} = {}) => {
+  const worker = createFakeWorker();
+  const metrics = new WorkerMetrics();
+  const { supabase, countedStatuses } = createFakeSupabase(options.countByStatus ?? (() => 0));
+  const logs: Array<{ level: string; event: string }> = [];
+  let drained = 0;
+
+  const server = createWorkerHttpServer({
+    supabase,
+    config: { ...config, adminToken: options.adminToken === undefined ? ADMIN_TOKEN : options.adminToken },
+    worker,
+    metrics,
+    log: (level, event) => { logs.push({ level, event }); },
+    onDrain: () => { drained += 1; },
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    worker,
+    metrics,
+    logs,
+    countedStatuses,
+    drainCount: () => drained,
+    request: (route: string, init: RequestInit = {}) => fetch(`http://127.0.0.1:${port}${route}`, init),
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
+
+const adminHeaders = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+
+test("GET / and unknown routes", async (t) => {
+  const server = await startServer();
+  t.after(server.close);
+
+  const root = await server.request("/");
+  assert.equal(root.status, 200);
+  assert.equal(await root.text(), "Audio worker is running");
+
+  const missing = await server.request("/nope");
+  assert.equal(missing.status, 404);
+  assert.deepEqual(await missing.json(), { error: "not_found" });
+
+  const post = await server.request("/healthz", { method: "POST" });
+  assert.equal(post.status, 405);
+});
+
+test("/healthz reports a stalled heartbeat", async (t) => {
+  const server = await startServer();
+  t.after(server.close);
+
+  const live = await server.request("/healthz");
+  assert.equal(live.status, 200);
+  assert.equal((await live.json()).status, "ok");
+
+  server.worker.status.lastHeartbeatAt = new Date(Date.now() - config.jobTimeoutMs * 10).toISOString();
+  const stalled = await server.request("/healthz");
+  assert.equal(stalled.status, 503);
+  assert.equal((await stalled.json()).status, "stalled");
+
+  server.worker.status.lastHeartbeatAt = null;
+  assert.equal((await server.request("/healthz")).status, 200);
+});
+
+test("/readyz explains why the worker does not take jobs", async (t) => {
+  const server = await startServer();
+  t.after(server.close);
+
+  const readiness = async () => {
+    const response = await server.request("/readyz");
+    return { code: response.status, status: (await response.json()).status as string };
+  };
+
+  assert.deepEqual(await readiness(), { code: 200, status: "ready" });
+
+  server.worker.status.lastLoopError = "claim failed";
+  assert.deepEqual(await readiness(), { code: 503, status: "loop_failing" });
+
+  server.worker.status.lastHeartbeatAt = null;
+  assert.deepEqual(await readiness(), { code: 503, status: "starting" });
+
+  server.worker.status.paused = true;
+  assert.deepEqual(await readiness(), { code: 503, status: "paused" });
+
+  server.worker.status.stopping = true;
+  assert.deepEqual(await readiness(), { code: 503, status: "draining" });
+});
+
+test("/metrics renders the queue depth and caches the counts", async (t) => {
+  const server = await startServer({ countByStatus: (status) => (status === "queued" ? 4 : 0) });
+  t.after(server.close);
+  server.metrics.jobsClaimed.inc({ job_type: "generate_preview" });
+
+  const response = await server.request("/metrics");
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get("content-type"), "text/plain; version=0.0.4; charset=utf-8");
+  const body = await response.text();
+  assert.match(body, /^audio_worker_queue_depth\{status="queued"\} 4$/m);
+  assert.match(body, /^audio_worker_queue_depth\{status="dead"\} 0$/m);
+  assert.match(body, /^audio_worker_jobs_claimed_total\{job_type="generate_preview"\} 1$/m);
+
+  await server.request("/metrics");
+  assert.deepEqual(server.countedStatuses, ["queued", "processing", "error", "dead"]);
+});
+
+test("/metrics still answers when the queue count fails", async (t) => {
+  const server = await startServer({
+    countByStatus: () => {
+      throw new Error("database unavailable");
+    },
+  });
+  t.after(server.close);
+
+  const response = await server.request("/metrics");
+  assert.equal(response.status, 200);
+  assert.doesNotMatch(await response.text(), /^audio_worker_queue_depth\{/m);
+  assert.deepEqual(server.logs, [{ level: "warn", event: "queue_depth_refresh_failed" }]);
+});
+
+test("admin routes need the token", async (t) => {
+  const server = await startServer();
+  t.after(server.close);
+
+  const anonymous = await server.request("/admin/status");
+  assert.equal(anonymous.status, 401);
+
+  const wrongToken = await server.request("/admin/pause", {
+    method: "POST",
+    headers: { Authorization: "Bearer wrong" },
+  });
+  assert.equal(wrongToken.status, 401);
+  assert.equal(server.worker.status.paused, false);
+
+  const disabled = await startServer({ adminToken: null });
+  t.after(disabled.close);
+  assert.equal((await disabled.request("/admin/status", { headers: adminHeaders })).status, 404);
+});
+
+test("admin routes pause, resume and drain the worker", async (t) => {
+  const server = await startServer();
+  t.after(server.close);
+
+  const status = await server.request("/admin/status", { headers: adminHeaders });
+  assert.equal(status.status, 200);
+  assert.equal((await status.json()).workerId, config.workerId);
+
+  assert.equal((await server.request("/admin/pause", { headers: adminHeaders })).status, 405);
+
+  const paused = await server.request("/admin/pause", { method: "POST", headers: adminHeaders });
+  assert.equal(paused.status, 200);
+  assert.equal((await paused.json()).paused, true);
+
+  const resumed = await server.request("/admin/resume", { method: "POST", headers: adminHeaders });
+  assert.equal((await resumed.json()).paused, false);
+
+  const drained = await server.request("/admin/drain", { method: "POST", headers: adminHeaders });
+  assert.equal(drained.status, 202);
+  assert.equal((await drained.json()).stopping, true);
+  assert.equal(server.drainCount(), 1);
+
+  assert.equal((await server.request("/admin/nope", { method: "POST", headers: adminHeaders })).status, 404);
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { runInLanes } from "../../src/lanes.js";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test("runInLanes never runs more items at once than the concurrency", async () => {
+  let running = 0;
+  let peak = 0;
+  const done: number[] = [];
+
+  await runInLanes([1, 2, 3, 4, 5], 2, {
+    run: async (item) => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await delay(item === 1 ? 30 : 5);
+      running -= 1;
+      done.push(item);
+    },
+    shouldStop: () => false,
+    onStopped: async () => assert.fail("nothing to stop"),
+  });
+
+  assert.equal(peak, 2);
+  // The slow first item holds one lane while the other drains the rest.
+  assert.deepEqual(done, [2, 3, 4, 5, 1]);
+});
+
+test("runInLanes hands the items nobody started to onStopped once", async () => {
+  let stop = false;
+  const started: number[] = [];
+  const stopped: number[][] = [];
+
+  await runInLanes([1, 2, 3, 4, 5], 2, {
+    run: async (item) => {
+      started.push(item);
+      stop = true;
+      await delay(5);
+    },
+    shouldStop: () => stop,
+    onStopped: async (remaining) => {
+      stopped.push(remaining);
+    },
+  });
+
+  assert.deepEqual(started, [1]);
+  assert.deepEqual(stopped, [[2, 3, 4, 5]]);
+});
+
+test("runInLanes with no items does nothing", async () => {
+  await runInLanes([], 3, {
+    run: async () => assert.fail("no item"),
+    shouldStop: () => true,
+    onStopped: async () => assert.fail("no item"),
+  });
+});
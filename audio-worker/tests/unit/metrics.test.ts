@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { Counter, Gauge, Histogram, WorkerMetrics } from "../../src/metrics.js";
+
+test("Counter adds up per label set, with sorted and escaped labels", () => {
+  const counter = new Counter("jobs_total", "Jobs.");
+  counter.inc();
+  counter.inc({ status: "done", job_type: "generate_preview" });
+  counter.inc({ job_type: "generate_preview", status: "done" }, 2);
+  counter.inc({ reason: 'say "hi"\\\n' });
+
+  assert.deepEqual(counter.render(), [
+    "# HELP jobs_total Jobs.",
+    "# TYPE jobs_total counter",
+    "jobs_total 1",
+    'jobs_total{job_type="generate_preview",status="done"} 3',
+    'jobs_total{reason="say \\"hi\\"\\\\\\n"} 1',
+  ]);
+});
+
+test("Gauge keeps the last value and renders non-finite values as 0", () => {
+  const gauge = new Gauge("queue_depth", "Depth.");
+  gauge.set({ status: "queued" }, 4);
+  gauge.set({ status: "queued" }, 2);
+  gauge.set({ status: "error" }, Number.NaN);
+
+  assert.deepEqual(gauge.render(), [
+    "# HELP queue_depth Depth.",
+    "# TYPE queue_depth gauge",
+    'queue_depth{status="queued"} 2',
+    'queue_depth{status="error"} 0',
+  ]);
+});
+
+test("Histogram renders cumulative buckets, sum and count", () => {
+  const histogram = new Histogram("job_seconds", "Seconds.", [1, 5]);
+  histogram.observe({ job_type: "analyze_audio" }, 0.5);
+  histogram.observe({ job_type: "analyze_audio" }, 3);
+  histogram.observe({ job_type: "analyze_audio" }, 12.3456);
+  histogram.observe({}, 2);
+
+  assert.deepEqual(histogram.render(), [
+    "# HELP job_seconds Seconds.",
+    "# TYPE job_seconds histogram",
+    'job_seconds_bucket{job_type="analyze_audio",le="1"} 1',
+    'job_seconds_bucket{job_type="analyze_audio",le="5"} 2',
+    'job_seconds_bucket{job_type="analyze_audio",le="+Inf"} 3',
+    'job_seconds_sum{job_type="analyze_audio"} 15.846',
+    'job_seconds_count{job_type="analyze_audio"} 3',
+    'job_seconds_bucket{le="1"} 0',
+    'job_seconds_bucket{le="5"} 1',
+    'job_seconds_bucket{le="+Inf"} 1',
+    "job_seconds_sum 2",
+    "job_seconds_count 1",
+  ]);
+});
+
+test("WorkerMetrics declares every family once and ends with a newline", () => {
+  const metrics = new WorkerMetrics();
+  metrics.paused.set({}, 1);
+  const body = metrics.render();
+
+  assert.ok(body.endsWith("\n"));
+  const families = [...body.matchAll(/^# TYPE (\S+) (\S+)$/gm)].map((match) => match[1]);
+  assert.equal(new Set(families).size, families.length);
+  assert.equal(families.length, 13);
+  assert.match(body, /^# TYPE audio_worker_job_duration_seconds histogram$/m);
+  assert.match(body, /^audio_worker_paused 1$/m);
+});
@@ -0,0 +1,193 @@
+export const CONTRACT_LANGUAGES = ["fr", "en", "de", "es"];
+// Template used for licenses without contract_template_id (latest version).
+export const DEFAULT_CONTRACT_TEMPLATE_KEY = "standard";
+// Tried in order when the template has no body in the buyer's language.
+const FALLBACK_LANGUAGES = ["en", "fr"];
+const DATE_LOCALES = {
+    fr: "fr-FR",
+    en: "en-GB",
+    de: "de-DE",
+    es: "es-ES",
+};
+const TERM_KEYS = [
+    "yes",
+    "no",
+    "unlimited",
+    "maxStreams",
+    "maxSales",
+    "youtubeMonetization",
+    "musicVideoAllowed",
+    "creditRequired",
+    "creditClauseRequired",
+    "creditClauseOptional",
+    "noDescription",
+    "unknownBuyer",
+    "unknownProducer",
+    "untitled",
+];
+const OPTIONAL_TERM_KEYS = [
+    "supersedesHeading",
+    "supersedesClause",
+    "priorLeasesHeading",
+    "priorLeasesClause",
+];
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z]+)\s*\}\}/g;
+const isRecord = (value) => typeof value === "object" && value !== null && !Array.isArray(value);
+const isString = (value) => typeof value === "string";
+export const isContractLanguage = (value) => CONTRACT_LANGUAGES.includes(value);
+const parseTemplateBody = (value) => {
+    if (!isRecord(value) || !isString(value.title) || !isString(value.reference))
+        return null;
+    if (!Array.isArray(value.parties) || !value.parties.every(isString))
+        return null;
+    if (!Array.isArray(value.sections))
+        return null;
+    if (!Array.isArray(value.signatures) || !value.signatures.every(isString))
+        return null;
+    if (!isRecord(value.terms))
+        return null;
+    const sections = value.sections.filter((section) => isRecord(section) && isString(section.heading) && isString(section.body));
+    if (sections.length !== value.sections.length)
+        return null;
+    const terms = value.terms;
+    if (!TERM_KEYS.every((key) => isString(terms[key])))
+        return null;
+    if (!OPTIONAL_TERM_KEYS.every((key) => terms[key] === undefined || isString(terms[key])))
+        return null;
+    return {
+        title: value.title,
+        reference: value.reference,
+        parties: value.parties,
+        sections: sections.map(({ heading, body }) => ({ heading, body })),
+        signatures: value.signatures,
+        terms: terms,
+    };
+};
+/**
+ * Usable per-language bodies of a template row. Languages whose body is
+ * malformed are left out, so they fall back like a missing translation.
+ */
+export const parseContractTemplateBodies = (bodies) => {
+    const parsed = {};
+    if (!isRecord(bodies))
+        return parsed;
+    for (const language of CONTRACT_LANGUAGES) {
+        const body = parseTemplateBody(bodies[language]);
+        if (body)
+            parsed[language] = body;
+    }
+    return parsed;
+};
+export const resolveContractLanguage = (requested, available) => {
+    const normalized = requested?.trim().toLowerCase() ?? null;
+    const candidates = isContractLanguage(normalized)
+        ? [normalized, ...FALLBACK_LANGUAGES]
+        : FALLBACK_LANGUAGES;
+    return candidates.find((language) => available.includes(language)) ?? available[0] ?? null;
+};
+/**
+ * Replace {{name}} placeholders. An unknown name throws: a contract must
+ * never go out with a literal placeholder in it.
+ */
+export const fillContractPlaceholders = (text, values) => text.replace(PLACEHOLDER_PATTERN, (_match, name) => {
+    const value = values[name];
+    if (value === undefined) {
+        throw new Error(`Unknown contract placeholder: {{${name}}}`);
+    }
+    return value;
+});
+// UTC so that regenerating the contract later prints the same date.
+const formatContractDate = (value, language) => new Date(value).toLocaleDateString(DATE_LOCALES[language], { dateStyle: "long", timeZone: "UTC" });
+const formatLimit = (value, terms, locale) => value === null ? terms.unlimited : value.toLocaleString(locale);
+const formatFlag = (value, terms) => value ? terms.yes : terms.no;
+export const buildContractPdfPayload = (source, terms, language) => {
+    const locale = DATE_LOCALES[language];
+    const contractDate = formatContractDate(source.completedAt ?? Date.now(), language);
+    const scalars = {
+        purchaseId: source.purchaseId,
+        contractDate,
+        producerName: source.producerName ?? terms.unknownProducer,
+        buyerName: source.buyerName ?? terms.unknownBuyer,
+        trackTitle: source.trackTitle ?? terms.untitled,
+        licenseName: source.licenseName,
+        licenseDescription: source.licenseDescription ?? terms.noDescription,
+    };
+    return {
+        ...scalars,
+        rights: [
+            { label: terms.maxStreams, value: formatLimit(source.maxStreams, terms, locale) },
+            { label: terms.maxSales, value: formatLimit(source.maxSales, terms, locale) },
+            { label: terms.youtubeMonetization, value: formatFlag(source.youtubeMonetization, terms) },
+            { label: terms.musicVideoAllowed, value: formatFlag(source.musicVideoAllowed, terms) },
+            { label: terms.creditRequired, value: formatFlag(source.creditRequired, terms) },
+        ],
+        creditClause: fillContractPlaceholders(source.creditRequired ? terms.creditClauseRequired : terms.creditClauseOptional, scalars),
+    };
+};
+const placeholderValues = (payload) => ({
+    purchaseId: payload.purchaseId,
+    contractDate: payload.contractDate,
+    producerName: payload.producerName,
+    buyerName: payload.buyerName,
+    trackTitle: payload.trackTitle,
+    licenseName: payload.licenseName,
+    licenseDescription: payload.licenseDescription,
+    rights: payload.rights.map((row) => `- ${row.label}: ${row.value}`).join("\n"),
+    creditClause: payload.creditClause,
+});
+/**
+ * Render a template version in the requested language (falling back to
+ * English, then French) with the purchase's values filled in.
+ */
+export const renderContract = (template, source, requestedLanguage) => {
+    const bodies = parseContractTemplateBodies(template.bodies);
+    const language = resolveContractLanguage(requestedLanguage, CONTRACT_LANGUAGES.filter((candidate) => bodies[candidate] !== undefined));
+    const body = language ? bodies[language] : undefined;
+    if (!language || !body) {
+        throw new Error(`Contract template ${template.template_key} v${template.version} has no usable body`);
+    }
+    const values = placeholderValues(buildContractPdfPayload(source, body.terms, language));
+    const fill = (text) => fillContractPlaceholders(text, values);
+    const { supersedesHeading, supersedesClause } = body.terms;
+    // Templates older than the upgrade clause simply render without it.
+    const supersedesSection = source.supersedes && supersedesHeading && supersedesClause
+        ? [{
+                heading: fill(supersedesHeading),
+                body: fillContractPlaceholders(supersedesClause, {
+                    ...values,
+                    supersededLicenseName: source.supersedes.licenseName,
+                    supersededPurchaseId: source.supersedes.purchaseId,
+                }),
+            }]
+        : [];
+    const { priorLeasesHeading, priorLeasesClause } = body.terms;
+    const priorLeasesSection = source.priorLeases?.length && priorLeasesHeading && priorLeasesClause
+        ? [{
+                heading: fill(priorLeasesHeading),
+                body: fillContractPlaceholders(priorLeasesClause, {
+                    ...values,
+                    priorLeaseCount: String(source.priorLeases.length),
+                    priorLeases: source.priorLeases
+                        .map((lease) => `- ${lease.licenseName}, ${formatContractDate(lease.purchasedAt, language)} (${lease.purchaseId})`)
+                        .join("\n"),
+                }),
+            }]
+        : [];
+    return {
+        templateId: template.id,
+        templateVersion: template.version,
+        language,
+        title: fill(body.title),
+        reference: fill(body.reference),
+        parties: body.parties.map(fill),
+        sections: [
+            ...body.sections.map((section) => ({
+                heading: fill(section.heading),
+                body: fill(section.body),
+            })),
+            ...supersedesSection,
+            ...priorLeasesSection,
+        ],
+        signatures: body.signatures.map(fill),
+    };
+};
@@ -0,0 +1,197 @@
+import type {
+  ContractLanguage,
+  InvoiceAmountRow,
+  InvoicePaymentSource,
+  InvoiceSource,
+  RenderedInvoice,
+} from "./types.js";
+
+interface InvoiceLabels {
+  title: string;
+  creditNoteTitle: string;
+  invoiceNumber: string;
+  issueDate: string;
+  paymentMethod: string;
+  purchaseReference: string;
+  creditedInvoice: string;
+  seller: string;
+  buyer: string;
+  license: string;
+  subtotal: string;
+  tax: string;
+  total: string;
+  paymentSources: Record<InvoicePaymentSource, string>;
+  // {seller} is replaced with the producer's name.
+  marketplaceNote: string;
+  taxIncludedNote: string;
+  refundedNote: string;
+}
+
+// Invoices are not admin-editable like contract templates: the wording is
+// fixed here for every site language.
+const INVOICE_LABELS: Record<ContractLanguage, InvoiceLabels> = {
+  fr: {
+    title: "FACTURE",
+    creditNoteTitle: "AVOIR",
+    invoiceNumber: "Numéro de facture",
+    issueDate: "Date d'émission",
+    paymentMethod: "Moyen de paiement",
+    purchaseReference: "Référence achat",
+    creditedInvoice: "Facture annulée",
+    seller: "Vendeur",
+    buyer: "Client",
+    license: "Licence",
+    subtotal: "Total HT",
+    tax: "TVA",
+    total: "Total TTC",
+    paymentSources: {
+      stripe_checkout: "Carte bancaire (Stripe)",
+      subscription: "Abonnement (Stripe)",
+    },
+    marketplaceNote: "Facture émise par {seller} via la marketplace Beatelion.",
+    taxIncludedNote: "Montants TTC, payés en totalité.",
+    refundedNote: "Montants TTC, remboursés en totalité.",
+  },
+  en: {
+    title: "INVOICE",
+    creditNoteTitle: "CREDIT NOTE",
+    invoiceNumber: "Invoice number",
+    issueDate: "Issue date",
+    paymentMethod: "Payment method",
+    purchaseReference: "Purchase reference",
+    creditedInvoice: "Credited invoice",
+    seller: "Seller",
+    buyer: "Bill to",
+    license: "License",
+    subtotal: "Subtotal (excl. tax)",
+    tax: "Tax",
+    total: "Total",
+    paymentSources: {
+      stripe_checkout: "Card (Stripe)",
+      subscription: "Subscription (Stripe)",
+    },
+    marketplaceNote: "Issued by {seller} through the Beatelion marketplace.",
+    taxIncludedNote: "Amounts include tax and were paid in full.",
+    refundedNote: "Amounts include tax and were refunded in full.",
+  },
+  de: {
+    title: "RECHNUNG",
+    creditNoteTitle: "RECHNUNGSKORREKTUR",
+    invoiceNumber: "Rechnungsnummer",
+    issueDate: "Rechnungsdatum",
+    paymentMethod: "Zahlungsart",
+    purchaseReference: "Kaufreferenz",
+    creditedInvoice: "Stornierte Rechnung",
+    seller: "Verkäufer",
+    buyer: "Rechnungsempfänger",
+    license: "Lizenz",
+    subtotal: "Nettobetrag",
+    tax: "MwSt.",
+    total: "Gesamtbetrag",
+    paymentSources: {
+      stripe_checkout: "Karte (Stripe)",
+      subscription: "Abonnement (Stripe)",
+    },
+    marketplaceNote: "Ausgestellt von {seller} über den Beatelion-Marktplatz.",
+    taxIncludedNote: "Bruttobeträge, vollständig bezahlt.",
+    refundedNote: "Bruttobeträge, vollständig erstattet.",
+  },
+  es: {
+    title: "FACTURA",
+    creditNoteTitle: "FACTURA RECTIFICATIVA",
+    invoiceNumber: "Número de factura",
+    issueDate: "Fecha de emisión",
+    paymentMethod: "Método de pago",
+    purchaseReference: "Referencia de compra",
+    creditedInvoice: "Factura rectificada",
+    seller: "Vendedor",
+    buyer: "Cliente",
+    license: "Licencia",
+    subtotal: "Base imponible",
+    tax: "IVA",
+    total: "Total",
+    paymentSources: {
+      stripe_checkout: "Tarjeta (Stripe)",
+      subscription: "Suscripción (Stripe)",
+    },
+    marketplaceNote: "Emitida por {seller} a través del marketplace Beatelion.",
+    taxIncludedNote: "Importes con impuestos incluidos, pagados en su totalidad.",
+    refundedNote: "Importes con impuestos incluidos, reembolsados en su totalidad.",
+  },
+};
+
+const INVOICE_LANGUAGES = Object.keys(INVOICE_LABELS) as ContractLanguage[];
+
+const NUMBER_LOCALES: Record<ContractLanguage, string> = {
+  fr: "fr-FR",
+  en: "en-GB",
+  de: "de-DE",
+  es: "es-ES",
+};
+
+// The standard PDF fonts have no narrow or non-breaking spaces.
+const toPdfText = (text: string) => text.replace(/[\u202F\u00A0]/g, " ");
+
+export const resolveInvoiceLanguage = (requested: string | null | undefined): ContractLanguage => {
+  const normalized = requested?.trim().toLowerCase();
+  return INVOICE_LANGUAGES.find((language) => language === normalized) ?? "en";
+};
+
+export const formatInvoiceAmount = (cents: number, currency: string, language: ContractLanguage) =>
+  toPdfText(
+    new Intl.NumberFormat(NUMBER_LOCALES[language], { style: "currency", currency }).format(cents / 100),
+  );
+
+// UTC so that regenerating the PDF later prints the same date.
+const formatInvoiceDate = (value: string, language: ContractLanguage) =>
+  toPdfText(new Date(value).toLocaleDateString(NUMBER_LOCALES[language], { dateStyle: "long", timeZone: "UTC" }));
+
+/** Render an invoice in the buyer's language, falling back to English. */
+export const renderInvoice = (
+  source: InvoiceSource,
+  requestedLanguage: string | null | undefined,
+): RenderedInvoice => {
+  const language = resolveInvoiceLanguage(requestedLanguage);
+  const labels = INVOICE_LABELS[language];
+  const isCreditNote = source.kind === "credit_note";
+  // Credit notes store positive amounts like invoices and print them negated.
+  const amount = (cents: number) =>
+    formatInvoiceAmount(isCreditNote && cents !== 0 ? -cents : cents, source.currency, language);
+  const taxCents = Math.min(Math.max(source.taxCents, 0), source.amountCents);
+
+  const details: InvoiceAmountRow[] = [
+    { label: labels.invoiceNumber, value: source.invoiceNumber },
+    { label: labels.issueDate, value: formatInvoiceDate(source.issuedAt, language) },
+    { label: labels.paymentMethod, value: labels.paymentSources[source.paymentSource] },
+  ];
+  if (source.creditedInvoiceNumber) {
+    details.push({ label: labels.creditedInvoice, value: source.creditedInvoiceNumber });
+  }
+  if (source.purchaseId) {
+    details.push({ label: labels.purchaseReference, value: source.purchaseId });
+  }
+
+  const lineLabel = source.licenseName
+    ? `${source.description} (${labels.license}: ${source.licenseName})`
+    : source.description;
+
+  return {
+    language,
+    title: `${isCreditNote ? labels.creditNoteTitle : labels.title} ${source.invoiceNumber}`,
+    details,
+    seller: [labels.seller, source.sellerName],
+    buyer: [labels.buyer, source.buyerName, ...(source.buyerEmail ? [source.buyerEmail] : [])],
+    lines: [{ label: lineLabel, value: amount(source.amountCents) }],
+    totals: [
+      { label: labels.subtotal, value: amount(source.amountCents - taxCents) },
+      { label: labels.tax, value: amount(taxCents) },
+      { label: labels.total, value: amount(source.amountCents) },
+    ],
+    notes: [
+      isCreditNote ? labels.refundedNote : labels.taxIncludedNote,
+      ...(source.kind !== "subscription"
+        ? [labels.marketplaceNote.replace("{seller}", source.sellerName)]
+        : []),
+    ],
+  };
+};
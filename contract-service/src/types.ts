@@ -8,7 +8,10 @@ export interface LicensePayload {
   music_video_allowed: boolean;
   credit_required: boolean;
   exclusive_allowed: boolean;
+  stems_included: boolean;
   price: number;
+  producer_id: string | null;
+  contract_template_id: string | null;
 }
 
 export interface PurchaseContractPayload {
@@ -17,11 +20,15 @@ export interface PurchaseContractPayload {
   license_type: string | null;
   contract_pdf_path: string | null;
   contract_email_sent_at: string | null;
+  contract_template_id: string | null;
+  contract_template_version: number | null;
+  contract_language: ContractLanguage | null;
   completed_at: string | null;
   buyer: {
     username: string | null;
     full_name: string | null;
     email: string | null;
+    language: string | null;
   } | null;
   product: {
     title: string | null;
@@ -49,3 +56,129 @@ export interface ContractPdfPayload {
   rights: ContractPdfRightRow[];
   creditClause: string;
 }
+
+export type ContractLanguage = "fr" | "en" | "de" | "es";
+
+// Wording for the rights rows and fallbacks, versioned with the template.
+export interface ContractTemplateTerms {
+  yes: string;
+  no: string;
+  unlimited: string;
+  maxStreams: string;
+  maxSales: string;
+  youtubeMonetization: string;
+  musicVideoAllowed: string;
+  creditRequired: string;
+  // May use the scalar placeholders, e.g. {{producerName}}.
+  creditClauseRequired: string;
+  creditClauseOptional: string;
+  noDescription: string;
+  unknownBuyer: string;
+  unknownProducer: string;
+  untitled: string;
+  // Optional (added in standard v2): appended as a last section on upgrade
+  // contracts. The clause may use {{supersededLicenseName}} and
+  // {{supersededPurchaseId}}.
+  supersedesHeading?: string;
+  supersedesClause?: string;
+  // Optional (added in standard v3): rider on exclusive contracts listing the
+  // leases granted before the sale. The clause may use {{priorLeaseCount}}
+  // and {{priorLeases}}, which expands to one line per license.
+  priorLeasesHeading?: string;
+  priorLeasesClause?: string;
+}
+
+export interface ContractTemplateSection {
+  heading: string;
+  body: string;
+}
+
+// One language of a template. Every string may use {{placeholders}} named
+// after ContractPdfPayload fields; {{rights}} expands to one line per row.
+export interface ContractTemplateBody {
+  title: string;
+  reference: string;
+  parties: string[];
+  sections: ContractTemplateSection[];
+  signatures: string[];
+  terms: ContractTemplateTerms;
+}
+
+export interface ContractTemplateRow {
+  id: string;
+  template_key: string;
+  version: number;
+  bodies: unknown;
+}
+
+// Purchase facts a contract is built from, already resolved from the
+// purchase, product, profiles and license rows.
+export interface ContractPayloadSource {
+  purchaseId: string;
+  completedAt: string | null;
+  producerName: string | null;
+  buyerName: string | null;
+  trackTitle: string | null;
+  licenseName: string;
+  licenseDescription: string | null;
+  maxStreams: number | null;
+  maxSales: number | null;
+  youtubeMonetization: boolean | null;
+  musicVideoAllowed: boolean | null;
+  creditRequired: boolean | null;
+  // Set when this purchase upgraded an earlier license of the buyer.
+  supersedes?: { purchaseId: string; licenseName: string } | null;
+  // Set on exclusive purchases: non-exclusive licenses granted before the sale.
+  priorLeases?: Array<{ purchaseId: string; licenseName: string; purchasedAt: string }> | null;
+}
+
+export interface RenderedContract {
+  templateId: string;
+  templateVersion: number;
+  language: ContractLanguage;
+  title: string;
+  reference: string;
+  parties: string[];
+  sections: ContractTemplateSection[];
+  signatures: string[];
+}
+
+export type InvoiceKind = "purchase" | "subscription" | "credit_note";
+
+export type InvoicePaymentSource = "stripe_checkout" | "subscription";
+
+// Invoice facts, straight from an invoices row.
+export interface InvoiceSource {
+  invoiceNumber: string;
+  kind: InvoiceKind;
+  issuedAt: string;
+  sellerName: string;
+  buyerName: string;
+  buyerEmail: string | null;
+  description: string;
+  licenseName: string | null;
+  paymentSource: InvoicePaymentSource;
+  currency: string;
+  // Tax included.
+  amountCents: number;
+  taxCents: number;
+  purchaseId: string | null;
+  // Set for credit notes.
+  creditedInvoiceNumber: string | null;
+}
+
+export interface InvoiceAmountRow {
+  label: string;
+  value: string;
+}
+
+export interface RenderedInvoice {
+  language: ContractLanguage;
+  title: string;
+  details: InvoiceAmountRow[];
+  seller: string[];
+  buyer: string[];
+  lines: InvoiceAmountRow[];
+  totals: InvoiceAmountRow[];
+  notes: string[];
+}
@@ -1,5 +1,6 @@
-import { createSupabaseAdminClient } from "./supabaseClient";
-import { runMigration, type MigrationConfig } from "./migrate";
+import { createSupabaseAdminClient } from "./supabaseClient.js";
+import { runMigration, type MigrationConfig } from "./migrate.js";
+import { createLocalMasterStorage } from "./storage.js";
 
 const readRequiredEnv = (name: string): string => {
   const value = process.env[name]?.trim();
@@ -42,7 +43,16 @@ const main = async () => {
     requestTimeoutMs,
   });
 
-  const counters = await runMigration(supabase, config, requestTimeoutMs);
+  // Products still come from the database; STORAGE_BACKEND=local only swaps
+  // where masters are probed and copied.
+  const storageBackend = process.env.STORAGE_BACKEND?.trim().toLowerCase() || "supabase";
+  if (storageBackend !== "supabase" && storageBackend !== "local") {
+    throw new Error("invalid_env:STORAGE_BACKEND");
+  }
+  const storage =
+    storageBackend === "local" ? createLocalMasterStorage(readRequiredEnv("LOCAL_STORAGE_ROOT")) : undefined;
+
+  const counters = await runMigration(supabase, config, requestTimeoutMs, storage);
   if (counters.failed > 0) {
     process.exitCode = 1;
   }
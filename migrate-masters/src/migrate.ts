@@ -1,4 +1,5 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MasterStorage } from "./storage.js";
 
 export interface MigrationConfig {
   legacyBucket: string;
@@ -287,6 +288,28 @@ const uploadCanonicalObject = async (
   throw new Error(`canonical_upload_failed:${bucket}:${objectPath}:${error.message}`);
 };
 
+export const createSupabaseMasterStorage = (
+  supabase: SupabaseClient,
+  config: MigrationConfig,
+  requestTimeoutMs: number,
+): MasterStorage => ({
+  exists: (bucket, objectPath) => tryDownloadProbe(supabase, bucket, objectPath, requestTimeoutMs),
+
+  async copy(fromBucket, toBucket, objectPath) {
+    const signedUrl = await createLegacySignedUrl(
+      supabase,
+      fromBucket,
+      objectPath,
+      config.signedUrlTtlSeconds,
+      requestTimeoutMs,
+    );
+
+    const { body, contentType, contentLength } = await fetchLegacyStream(signedUrl, requestTimeoutMs);
+    await uploadCanonicalObject(supabase, toBucket, objectPath, body, contentType, requestTimeoutMs);
+    return { contentType, contentLength };
+  },
+});
+
 const logOutcome = (
   event: OutcomeEvent,
   product: ProductRow,
@@ -303,10 +326,9 @@ const logOutcome = (
 };
 
 const processProduct = async (
-  supabase: SupabaseClient,
+  storage: MasterStorage,
   product: ProductRow,
   config: MigrationConfig,
-  requestTimeoutMs: number,
   counters: Counters,
 ) => {
   const objectPath = normalizeMasterPath(product.master_path, config.canonicalBucket, config.legacyBucket);
@@ -318,12 +340,7 @@ const processProduct = async (
     return;
   }
 
-  const canonicalDownloadOk = await tryDownloadProbe(
-    supabase,
-    config.canonicalBucket,
-    objectPath,
-    requestTimeoutMs,
-  );
+  const canonicalDownloadOk = await storage.exists(config.canonicalBucket, objectPath);
   if (canonicalDownloadOk) {
     counters.alreadyOk += 1;
     logOutcome("already_ok", product, objectPath, {
@@ -332,12 +349,7 @@ const processProduct = async (
     return;
   }
 
-  const legacyDownloadOk = await tryDownloadProbe(
-    supabase,
-    config.legacyBucket,
-    objectPath,
-    requestTimeoutMs,
-  );
+  const legacyDownloadOk = await storage.exists(config.legacyBucket, objectPath);
   if (!legacyDownloadOk) {
     counters.missingEverywhere += 1;
     logOutcome("missing_everywhere", product, objectPath, {
@@ -347,16 +359,7 @@ const processProduct = async (
     return;
   }
 
-  const signedUrl = await createLegacySignedUrl(
-    supabase,
-    config.legacyBucket,
-    objectPath,
-    config.signedUrlTtlSeconds,
-    requestTimeoutMs,
-  );
-
-  const { body, contentType, contentLength } = await fetchLegacyStream(signedUrl, requestTimeoutMs);
-  await uploadCanonicalObject(supabase, config.canonicalBucket, objectPath, body, contentType, requestTimeoutMs);
+  const { contentType, contentLength } = await storage.copy(config.legacyBucket, config.canonicalBucket, objectPath);
 
   counters.migrated += 1;
   logOutcome("migrated", product, objectPath, {
@@ -371,6 +374,7 @@ export const runMigration = async (
   supabase: SupabaseClient,
   config: MigrationConfig,
   requestTimeoutMs: number,
+  storage: MasterStorage = createSupabaseMasterStorage(supabase, config, requestTimeoutMs),
 ) => {
   const counters: Counters = {
     totalProducts: 0,
@@ -405,7 +409,7 @@ export const runMigration = async (
       counters.totalProducts += 1;
 
       try {
-        await processProduct(supabase, product, config, requestTimeoutMs, counters);
+        await processProduct(storage, product, config, counters);
       } catch (error) {
         counters.failed += 1;
         logJson("error", "product_failed", {
@@ -0,0 +1,65 @@
+import path from "node:path";
+import { Readable } from "node:stream";
+import { createLocalStorageBackend } from "../../audio-worker/src/storageBackend.js";
+
+export interface MasterCopyResult {
+  contentType: string | null;
+  contentLength: number | null;
+}
+
+/**
+ * Storage operations the migration needs. The Supabase implementation lives
+ * in migrate.ts next to its request helpers; the local one runs on the audio
+ * worker's local storage backend (`<rootDir>/<bucket>/<path>`) so a run can
+ * be rehearsed against the same directory tree the worker reads.
+ */
+export interface MasterStorage {
+  exists(bucket: string, objectPath: string): Promise<boolean>;
+  // Must not overwrite an existing destination object.
+  copy(fromBucket: string, toBucket: string, objectPath: string): Promise<MasterCopyResult>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".flac": "audio/flac",
+  ".aiff": "audio/aiff",
+};
+
+export const createLocalMasterStorage = (rootDir: string): MasterStorage => {
+  const backend = createLocalStorageBackend({ rootDir });
+
+  return {
+    exists: (bucket, objectPath) => backend.exists({ bucket, path: objectPath }),
+
+    async copy(fromBucket, toBucket, objectPath) {
+      const contentType = CONTENT_TYPES[path.extname(objectPath).toLowerCase()] ?? null;
+      let contentLength = 0;
+
+      try {
+        const source = await backend.openReadStream({ bucket: fromBucket, path: objectPath });
+        const body = Readable.from(
+          (async function* () {
+            for await (const chunk of source) {
+              contentLength += (chunk as Buffer).length;
+              yield chunk;
+            }
+          })(),
+        );
+        await backend.upload({ bucket: toBucket, path: objectPath }, body, {
+          contentType: contentType ?? "application/octet-stream",
+          upsert: false,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // Same outcome as a duplicate upload: the canonical copy already exists.
+        if (message.includes("already exists")) {
+          return { contentType, contentLength: null };
+        }
+        throw new Error(`canonical_copy_failed:${toBucket}:${objectPath}:${message}`);
+      }
+
+      return { contentType, contentLength };
+    },
+  };
+};
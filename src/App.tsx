@@ -51,6 +51,8 @@ const BattlesPage = lazyNamed(() => import('./pages/Battles'), 'BattlesPage');
 const BattleDetailPage = lazyNamed(() => import('./pages/BattleDetail'), 'BattleDetailPage');
 const BattleFeedbackPage = lazyNamed(() => import('./pages/BattleFeedback'), 'BattleFeedbackPage');
 const BattleCampaignPage = lazyNamed(() => import('./pages/BattleCampaign'), 'BattleCampaignPage');
+const TournamentsPage = lazyNamed(() => import('./pages/Tournaments'), 'TournamentsPage');
+const TournamentDetailPage = lazyNamed(() => import('./pages/TournamentDetail'), 'TournamentDetailPage');
 const PricingPage = lazyNamed(() => import('./pages/Pricing'), 'PricingPage');
 const LoginPage = lazyNamed(() => import('./pages/auth/Login'), 'LoginPage');
 const RegisterPage = lazyNamed(() => import('./pages/auth/Register'), 'RegisterPage');
@@ -114,6 +116,7 @@ const AdminMessageDetailPage = lazyNamed(
   'AdminMessageDetailPage',
 );
 const AdminReputationPage = lazyNamed(() => import('./pages/admin/AdminReputation'), 'AdminReputationPage');
+const AdminAudioMatchesPage = lazyNamed(() => import('./pages/admin/AdminAudioMatches'), 'AdminAudioMatchesPage');
 const AdminPayouts = lazyNamed(() => import('./pages/admin/AdminPayouts'), 'AdminPayouts');
 const AdminRevenuePage = lazyNamed(() => import('./pages/admin/AdminRevenue'), 'AdminRevenuePage');
 const AdminEliteAccessPage = lazyNamed(() => import('./pages/admin/AdminEliteAccess'), 'AdminEliteAccessPage');
@@ -179,6 +182,8 @@ function AppContent() {
           <Route path="battles/:slug" element={<BattleDetailPage />} />
           <Route path="battles/:slug/feedback" element={<BattleFeedbackPage />} />
           <Route path="battle-campaign/:slug" element={<BattleCampaignPage />} />
+          <Route path="tournaments" element={<TournamentsPage />} />
+          <Route path="tournaments/:slug" element={<TournamentDetailPage />} />
           <Route path="leaderboard" element={<LeaderboardPage />} />
           <Route path="leaderboard-weekly" element={<LeaderboardWeeklyPage />} />
           <Route path="pricing" element={<PricingPage />} />
@@ -325,6 +330,7 @@ function AppContent() {
             <Route path="forum" element={<AdminForumPage />} />
             <Route path="forum/categories" element={<AdminForumCategoriesPage />} />
             <Route path="beat-analytics" element={<AdminBeatAnalyticsPage />} />
+            <Route path="audio-matches" element={<AdminAudioMatchesPage />} />
             <Route path="reputation" element={<AdminReputationPage />} />
             <Route path="revenue" element={<AdminRevenuePage />} />
             <Route path="payouts" element={<AdminPayouts />} />
@@ -0,0 +1,342 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import toast from 'react-hot-toast';
+import { Archive, FileSignature, Pencil } from 'lucide-react';
+import { useTranslation, type TranslationKey } from '../../lib/i18n';
+import { supabase } from '../../lib/supabase/client';
+import type { License, UserProfile } from '../../lib/supabase/types';
+import { formatPrice } from '../../lib/utils/format';
+import {
+  EMPTY_LICENSE_TIER_FORM,
+  parseLicenseTierForm,
+  toLicenseTierFormValues,
+  type LicenseTierFormValues,
+} from '../../lib/products/licenseTiers';
+import { Card } from '../ui/Card';
+import { Input } from '../ui/Input';
+import { Button } from '../ui/Button';
+
+interface LicenseTiersSettingsCardProps {
+  profile: UserProfile | null | undefined;
+}
+
+type LicenseTierFlag = 'youtubeMonetization' | 'musicVideoAllowed' | 'creditRequired' | 'stemsIncluded';
+
+const FLAG_LABEL_KEYS: Record<LicenseTierFlag, TranslationKey> = {
+  youtubeMonetization: 'productDetails.licenseTermYoutubeMonetization',
+  musicVideoAllowed: 'productDetails.licenseTermMusicVideoAllowed',
+  creditRequired: 'productDetails.licenseTermCreditRequired',
+  stemsIncluded: 'productDetails.licenseTermStemsIncluded',
+};
+
+const LICENSE_TIER_COLUMNS =
+  'id, name, description, max_streams, max_sales, youtube_monetization, music_video_allowed, credit_required, exclusive_allowed, stems_included, price, producer_id, archived_at, created_at, updated_at';
+
+export function LicenseTiersSettingsCard({ profile }: LicenseTiersSettingsCardProps) {
+  const { t } = useTranslation();
+  const [tiers, setTiers] = useState<License[]>([]);
+  const [form, setForm] = useState<LicenseTierFormValues>(EMPTY_LICENSE_TIER_FORM);
+  const [editingTierId, setEditingTierId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [archivingTierId, setArchivingTierId] = useState<string | null>(null);
+
+  const producerId = profile?.id ?? null;
+  const canUseLicenseTiers = Boolean(profile?.can_access_producer_features);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadTiers = async () => {
+      if (!producerId || !canUseLicenseTiers) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('licenses')
+        .select(LICENSE_TIER_COLUMNS)
+        .eq('producer_id', producerId)
+        .is('archived_at', null)
+        .order('price', { ascending: true });
+
+      if (isCancelled) return;
+
+      if (error) {
+        console.error('[license-tiers] failed to load tiers', error);
+        toast.error(t('settings.licenseTiersLoadError'));
+      } else {
+        setTiers((data as License[] | null) ?? []);
+      }
+      setIsLoading(false);
+    };
+
+    void loadTiers();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [canUseLicenseTiers, producerId, t]);
+
+  if (!producerId || !canUseLicenseTiers) {
+    return null;
+  }
+
+  const resetForm = () => {
+    setEditingTierId(null);
+    setForm(EMPTY_LICENSE_TIER_FORM);
+  };
+
+  const handleEdit = (tier: License) => {
+    setEditingTierId(tier.id);
+    setForm(toLicenseTierFormValues(tier));
+  };
+
+  const handleArchive = async (tier: License) => {
+    if (archivingTierId) return;
+
+    setArchivingTierId(tier.id);
+    try {
+      const { error } = await supabase.rpc('rpc_archive_license_tier', { p_license_id: tier.id });
+      if (error) throw error;
+
+      setTiers((prev) => prev.filter((row) => row.id !== tier.id));
+      if (editingTierId === tier.id) {
+        resetForm();
+      }
+      toast.success(t('settings.licenseTierArchived'));
+    } catch (error) {
+      console.error('[license-tiers] archive failed', error);
+      toast.error(t('settings.licenseTierSaveError'));
+    } finally {
+      setArchivingTierId(null);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (isSaving) return;
+
+    const { settings, error: formError } = parseLicenseTierForm(form);
+    if (!settings) {
+      toast.error(
+        formError === 'name'
+          ? t('settings.licenseTierNameError')
+          : formError === 'price'
+            ? t('settings.licenseTierPriceError')
+            : t('settings.licenseTierLimitsError')
+      );
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('rpc_save_license_tier', {
+        p_name: settings.name,
+        p_description: settings.description,
+        p_youtube_monetization: settings.youtubeMonetization,
+        p_music_video_allowed: settings.musicVideoAllowed,
+        p_credit_required: settings.creditRequired,
+        p_exclusive_allowed: settings.exclusiveAllowed,
+        p_stems_included: settings.stemsIncluded,
+        p_price: settings.priceCents,
+        p_max_streams: settings.maxStreams ?? undefined,
+        p_max_sales: settings.maxSales ?? undefined,
+        p_license_id: editingTierId ?? undefined,
+      });
+
+      if (error) throw error;
+
+      const now = new Date().toISOString();
+      const savedTier: License = {
+        id: (data as string | null) ?? editingTierId ?? '',
+        name: settings.name,
+        description: settings.description || null,
+        max_streams: settings.maxStreams,
+        max_sales: settings.maxSales,
+        youtube_monetization: settings.youtubeMonetization,
+        music_video_allowed: settings.musicVideoAllowed,
+        credit_required: settings.creditRequired,
+        exclusive_allowed: settings.exclusiveAllowed,
+        stems_included: settings.stemsIncluded,
+        price: settings.priceCents,
+        producer_id: producerId,
+        archived_at: null,
+        created_at: tiers.find((row) => row.id === editingTierId)?.created_at ?? now,
+        updated_at: now,
+      };
+
+      setTiers((prev) =>
+        [...prev.filter((row) => row.id !== savedTier.id), savedTier].sort((left, right) => left.price - right.price)
+      );
+      resetForm();
+      toast.success(t('settings.licenseTierSaved'));
+    } catch (error) {
+      console.error('[license-tiers] save failed', error);
+      const message = error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? '');
+      toast.error(
+        message.includes('license_tier_name_taken')
+          ? t('settings.licenseTierNameTaken')
+          : t('settings.licenseTierSaveError')
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDisabled = isLoading || isSaving;
+
+  return (
+    <Card className="p-6 space-y-5">
+      <div className="flex items-start gap-3">
+        <div className="mt-0.5 rounded-xl p-2 bg-rose-500/15 text-rose-300">
+          <FileSignature className="w-5 h-5" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-white">{t('settings.licenseTiersTitle')}</h2>
+          <p className="mt-1 text-sm text-zinc-400">{t('settings.licenseTiersDescription')}</p>
+        </div>
+      </div>
+
+      {!isLoading && tiers.length === 0 && (
+        <p className="text-sm text-zinc-500">{t('settings.licenseTiersEmpty')}</p>
+      )}
+
+      {tiers.length > 0 && (
+        <ul className="divide-y divide-zinc-800 rounded-lg border border-zinc-800">
+          {tiers.map((tier) => (
+            <li key={tier.id} className="flex items-center justify-between gap-3 px-4 py-3">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium text-white">
+                  {tier.name}
+                  {tier.exclusive_allowed && (
+                    <span className="ml-2 rounded-full bg-amber-500/15 px-2 py-0.5 text-xs text-amber-300">
+                      {t('settings.licenseTierExclusiveBadge')}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-zinc-500">{formatPrice(tier.price)}</p>
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleEdit(tier)}
+                  disabled={isDisabled}
+                  leftIcon={<Pencil className="w-4 h-4" />}
+                >
+                  {t('settings.licenseTierEdit')}
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => void handleArchive(tier)}
+                  isLoading={archivingTierId === tier.id}
+                  disabled={isDisabled}
+                  leftIcon={<Archive className="w-4 h-4" />}
+                >
+                  {t('settings.licenseTierArchive')}
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border border-zinc-800 bg-zinc-950/60 p-4">
+        <h3 className="text-sm font-semibold text-zinc-200">
+          {editingTierId ? t('settings.licenseTierEditTitle') : t('settings.licenseTierNewTitle')}
+        </h3>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Input
+            label={t('settings.licenseTierNameLabel')}
+            value={form.name}
+            maxLength={60}
+            onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+            disabled={isDisabled}
+          />
+          <Input
+            type="number"
+            min="0.01"
+            step="0.01"
+            label={t('settings.licenseTierPriceLabel')}
+            value={form.price}
+            onChange={(event) => setForm((prev) => ({ ...prev, price: event.target.value }))}
+            disabled={isDisabled}
+          />
+          <Input
+            type="number"
+            min="0"
+            step="1"
+            label={t('productDetails.licenseTermMaxStreams')}
+            placeholder={t('productDetails.licenseTermUnlimited')}
+            value={form.maxStreams}
+            onChange={(event) => setForm((prev) => ({ ...prev, maxStreams: event.target.value }))}
+            disabled={isDisabled}
+          />
+          <Input
+            type="number"
+            min="0"
+            step="1"
+            label={t('productDetails.licenseTermMaxSales')}
+            placeholder={t('productDetails.licenseTermUnlimited')}
+            value={form.maxSales}
+            onChange={(event) => setForm((prev) => ({ ...prev, maxSales: event.target.value }))}
+            disabled={isDisabled}
+          />
+        </div>
+        <p className="text-xs text-zinc-500">{t('settings.licenseTierLimitsHint')}</p>
+
+        <Input
+          label={t('settings.licenseTierDescriptionLabel')}
+          value={form.description}
+          onChange={(event) => setForm((prev) => ({ ...prev, description: event.target.value }))}
+          disabled={isDisabled}
+        />
+
+        <div className="grid gap-2 md:grid-cols-2">
+          {(Object.keys(FLAG_LABEL_KEYS) as LicenseTierFlag[]).map((flag) => (
+            <label key={flag} className="flex items-center gap-3 text-sm text-zinc-200">
+              <input
+                type="checkbox"
+                checked={form[flag]}
+                onChange={(event) => setForm((prev) => ({ ...prev, [flag]: event.target.checked }))}
+                disabled={isDisabled}
+                className="h-4 w-4 rounded border-zinc-700 bg-zinc-900 text-rose-500 focus:ring-rose-500/50"
+              />
+              {t(FLAG_LABEL_KEYS[flag])}
+            </label>
+          ))}
+        </div>
+
+        <label className="flex items-start gap-3 text-sm text-zinc-200">
+          <input
+            type="checkbox"
+            checked={form.exclusiveAllowed}
+            onChange={(event) => setForm((prev) => ({ ...prev, exclusiveAllowed: event.target.checked }))}
+            disabled={isDisabled || editingTierId !== null}
+            className="mt-0.5 h-4 w-4 rounded border-zinc-700 bg-zinc-900 text-rose-500 focus:ring-rose-500/50"
+          />
+          <span>
+            {t('settings.licenseTierExclusiveLabel')}
+            <span className="block text-xs text-zinc-500">{t('settings.licenseTierExclusiveHint')}</span>
+          </span>
+        </label>
+
+        <div className="flex flex-wrap gap-3">
+          <Button type="submit" isLoading={isSaving} disabled={isLoading}>
+            {t('settings.licenseTierSave')}
+          </Button>
+          {editingTierId && (
+            <Button type="button" variant="ghost" onClick={resetForm} disabled={isSaving}>
+              {t('common.cancel')}
+            </Button>
+          )}
+        </div>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,350 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import toast from 'react-hot-toast';
+import { Archive, Pencil, Tag } from 'lucide-react';
+import { useTranslation } from '../../lib/i18n';
+import { supabase } from '../../lib/supabase/client';
+import type { ProducerDeal, ProducerDealType, UserProfile } from '../../lib/supabase/types';
+import { formatPrice } from '../../lib/utils/format';
+import {
+  EMPTY_PRODUCER_DEAL_FORM,
+  DEAL_TITLE_MAX_LENGTH,
+  MAX_DEAL_PRODUCTS,
+  parseProducerDealForm,
+  toProducerDealFormValues,
+  type ProducerDealFormValues,
+} from '../../lib/products/dealForm';
+import { Card } from '../ui/Card';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Button } from '../ui/Button';
+
+interface ProducerDealsSettingsCardProps {
+  profile: UserProfile | null | undefined;
+}
+
+interface DealProductOption {
+  id: string;
+  title: string;
+}
+
+const PRODUCER_DEAL_COLUMNS =
+  'id, producer_id, title, deal_type, buy_quantity, free_quantity, bundle_price, product_ids, archived_at, created_at, updated_at';
+
+export function ProducerDealsSettingsCard({ profile }: ProducerDealsSettingsCardProps) {
+  const { t } = useTranslation();
+  const [deals, setDeals] = useState<ProducerDeal[]>([]);
+  const [products, setProducts] = useState<DealProductOption[]>([]);
+  const [form, setForm] = useState<ProducerDealFormValues>(EMPTY_PRODUCER_DEAL_FORM);
+  const [editingDealId, setEditingDealId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [archivingDealId, setArchivingDealId] = useState<string | null>(null);
+
+  const producerId = profile?.id ?? null;
+  const canUseDeals = Boolean(profile?.can_access_producer_features);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadDeals = async () => {
+      if (!producerId || !canUseDeals) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      const [dealsResult, productsResult] = await Promise.all([
+        supabase
+          .from('producer_deals')
+          .select(PRODUCER_DEAL_COLUMNS)
+          .eq('producer_id', producerId)
+          .is('archived_at', null)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('products')
+          .select('id, title')
+          .eq('producer_id', producerId)
+          .eq('is_exclusive', false)
+          .eq('status', 'active')
+          .is('deleted_at', null)
+          .order('title', { ascending: true }),
+      ]);
+
+      if (isCancelled) return;
+
+      if (dealsResult.error || productsResult.error) {
+        console.error('[producer-deals] failed to load deals', dealsResult.error ?? productsResult.error);
+        toast.error(t('settings.dealsLoadError'));
+      } else {
+        setDeals((dealsResult.data as ProducerDeal[] | null) ?? []);
+        setProducts((productsResult.data as DealProductOption[] | null) ?? []);
+      }
+      setIsLoading(false);
+    };
+
+    void loadDeals();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [canUseDeals, producerId, t]);
+
+  if (!producerId || !canUseDeals) {
+    return null;
+  }
+
+  const resetForm = () => {
+    setEditingDealId(null);
+    setForm(EMPTY_PRODUCER_DEAL_FORM);
+  };
+
+  const describeDeal = (deal: ProducerDeal) => (
+    deal.deal_type === 'bundle'
+      ? t('settings.dealBundleSummary', { count: deal.product_ids.length, price: formatPrice(deal.bundle_price ?? 0) })
+      : t('settings.dealBuyGetSummary', { buy: deal.buy_quantity ?? 0, free: deal.free_quantity ?? 0 })
+  );
+
+  const toggleProduct = (productId: string, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      productIds: checked
+        ? [...prev.productIds, productId]
+        : prev.productIds.filter((id) => id !== productId),
+    }));
+  };
+
+  const handleArchive = async (deal: ProducerDeal) => {
+    if (archivingDealId) return;
+
+    setArchivingDealId(deal.id);
+    try {
+      const { error } = await supabase.rpc('rpc_archive_producer_deal', { p_deal_id: deal.id });
+      if (error) throw error;
+
+      setDeals((prev) => prev.filter((row) => row.id !== deal.id));
+      if (editingDealId === deal.id) {
+        resetForm();
+      }
+      toast.success(t('settings.dealArchived'));
+    } catch (error) {
+      console.error('[producer-deals] archive failed', error);
+      toast.error(t('settings.dealSaveError'));
+    } finally {
+      setArchivingDealId(null);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (isSaving) return;
+
+    const { settings, error: formError } = parseProducerDealForm(form);
+    if (!settings) {
+      toast.error(
+        formError === 'title'
+          ? t('settings.dealTitleError')
+          : formError === 'quantities'
+            ? t('settings.dealQuantitiesError', { max: MAX_DEAL_PRODUCTS })
+            : formError === 'price'
+              ? t('settings.dealPriceError')
+              : t('settings.dealProductsError', { max: MAX_DEAL_PRODUCTS })
+      );
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('rpc_save_producer_deal', {
+        p_title: settings.title,
+        p_deal_type: settings.dealType,
+        p_product_ids: settings.productIds,
+        p_buy_quantity: settings.buyQuantity ?? undefined,
+        p_free_quantity: settings.freeQuantity ?? undefined,
+        p_bundle_price: settings.bundlePriceCents ?? undefined,
+        p_deal_id: editingDealId ?? undefined,
+      });
+
+      if (error) throw error;
+
+      const now = new Date().toISOString();
+      const savedDeal: ProducerDeal = {
+        id: (data as string | null) ?? editingDealId ?? '',
+        producer_id: producerId,
+        title: settings.title,
+        deal_type: settings.dealType,
+        buy_quantity: settings.buyQuantity,
+        free_quantity: settings.freeQuantity,
+        bundle_price: settings.bundlePriceCents,
+        product_ids: settings.productIds,
+        archived_at: null,
+        created_at: deals.find((row) => row.id === editingDealId)?.created_at ?? now,
+        updated_at: now,
+      };
+
+      setDeals((prev) => [...prev.filter((row) => row.id !== savedDeal.id), savedDeal]);
+      resetForm();
+      toast.success(t('settings.dealSaved'));
+    } catch (error) {
+      console.error('[producer-deals] save failed', error);
+      toast.error(t('settings.dealSaveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDisabled = isLoading || isSaving;
+  const isBundle = form.dealType === 'bundle';
+
+  return (
+    <Card className="p-6 space-y-5">
+      <div className="flex items-start gap-3">
+        <div className="mt-0.5 rounded-xl p-2 bg-rose-500/15 text-rose-300">
+          <Tag className="w-5 h-5" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-white">{t('settings.dealsTitle')}</h2>
+          <p className="mt-1 text-sm text-zinc-400">{t('settings.dealsDescription')}</p>
+        </div>
+      </div>
+
+      {!isLoading && deals.length === 0 && (
+        <p className="text-sm text-zinc-500">{t('settings.dealsEmpty')}</p>
+      )}
+
+      {deals.length > 0 && (
+        <ul className="divide-y divide-zinc-800 rounded-lg border border-zinc-800">
+          {deals.map((deal) => (
+            <li key={deal.id} className="flex items-center justify-between gap-3 px-4 py-3">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium text-white">{deal.title}</p>
+                <p className="text-xs text-zinc-500">{describeDeal(deal)}</p>
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setEditingDealId(deal.id);
+                    setForm(toProducerDealFormValues(deal));
+                  }}
+                  disabled={isDisabled}
+                  leftIcon={<Pencil className="w-4 h-4" />}
+                >
+                  {t('settings.dealEdit')}
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => void handleArchive(deal)}
+                  isLoading={archivingDealId === deal.id}
+                  disabled={isDisabled}
+                  leftIcon={<Archive className="w-4 h-4" />}
+                >
+                  {t('settings.dealArchive')}
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border border-zinc-800 bg-zinc-950/60 p-4">
+        <h3 className="text-sm font-semibold text-zinc-200">
+          {editingDealId ? t('settings.dealEditTitle') : t('settings.dealNewTitle')}
+        </h3>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Input
+            label={t('settings.dealTitleLabel')}
+            value={form.title}
+            maxLength={DEAL_TITLE_MAX_LENGTH}
+            onChange={(event) => setForm((prev) => ({ ...prev, title: event.target.value }))}
+            disabled={isDisabled}
+          />
+          <Select
+            label={t('settings.dealTypeLabel')}
+            value={form.dealType}
+            options={[
+              { value: 'buy_x_get_y', label: t('settings.dealTypeBuyGet') },
+              { value: 'bundle', label: t('settings.dealTypeBundle') },
+            ]}
+            onChange={(event) => setForm((prev) => ({ ...prev, dealType: event.target.value as ProducerDealType }))}
+            disabled={isDisabled}
+          />
+          {isBundle ? (
+            <Input
+              type="number"
+              min="1"
+              step="0.01"
+              label={t('settings.dealBundlePriceLabel')}
+              value={form.bundlePrice}
+              onChange={(event) => setForm((prev) => ({ ...prev, bundlePrice: event.target.value }))}
+              disabled={isDisabled}
+            />
+          ) : (
+            <>
+              <Input
+                type="number"
+                min="1"
+                step="1"
+                label={t('settings.dealBuyQuantityLabel')}
+                value={form.buyQuantity}
+                onChange={(event) => setForm((prev) => ({ ...prev, buyQuantity: event.target.value }))}
+                disabled={isDisabled}
+              />
+              <Input
+                type="number"
+                min="1"
+                step="1"
+                label={t('settings.dealFreeQuantityLabel')}
+                value={form.freeQuantity}
+                onChange={(event) => setForm((prev) => ({ ...prev, freeQuantity: event.target.value }))}
+                disabled={isDisabled}
+              />
+            </>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-zinc-300">{t('settings.dealProductsLabel')}</p>
+          <p className="text-xs text-zinc-500">
+            {isBundle
+              ? t('settings.dealBundleProductsHint', { max: MAX_DEAL_PRODUCTS })
+              : t('settings.dealBuyGetProductsHint')}
+          </p>
+          {products.length === 0 ? (
+            <p className="text-sm text-zinc-500">{t('settings.dealNoProducts')}</p>
+          ) : (
+            <div className="grid max-h-56 gap-2 overflow-y-auto md:grid-cols-2">
+              {products.map((product) => (
+                <label key={product.id} className="flex items-center gap-3 text-sm text-zinc-200">
+                  <input
+                    type="checkbox"
+                    checked={form.productIds.includes(product.id)}
+                    onChange={(event) => toggleProduct(product.id, event.target.checked)}
+                    disabled={isDisabled}
+                    className="h-4 w-4 rounded border-zinc-700 bg-zinc-900 text-rose-500 focus:ring-rose-500/50"
+                  />
+                  <span className="truncate">{product.title}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <Button type="submit" isLoading={isSaving} disabled={isLoading}>
+            {t('settings.dealSave')}
+          </Button>
+          {editingDealId && (
+            <Button type="button" variant="ghost" onClick={resetForm} disabled={isSaving}>
+              {t('common.cancel')}
+            </Button>
+          )}
+        </div>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,383 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import toast from 'react-hot-toast';
+import { Archive, Ticket } from 'lucide-react';
+import { useTranslation, type TranslationKey } from '../../lib/i18n';
+import { supabase } from '../../lib/supabase/client';
+import type { PromoCode, PromoCodeScope, PromoDiscountType, UserProfile } from '../../lib/supabase/types';
+import { formatDate, formatPrice } from '../../lib/utils/format';
+import {
+  EMPTY_PROMO_CODE_FORM,
+  parsePromoCodeForm,
+  type PromoCodeFormError,
+  type PromoCodeFormValues,
+} from '../../lib/products/promoCodes';
+import { Card } from '../ui/Card';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Button } from '../ui/Button';
+
+interface PromoCodesSettingsCardProps {
+  profile: UserProfile | null | undefined;
+  // Admin codes have no owner and can cover the whole marketplace or plans.
+  mode?: 'producer' | 'admin';
+}
+
+interface PromoCodeProductOption {
+  id: string;
+  title: string;
+}
+
+type PromoCodeRow = PromoCode & { promo_code_redemptions: { count: number }[] };
+
+const PROMO_CODE_COLUMNS =
+  'id, code, created_by, producer_id, discount_type, discount_value, scope, product_id, scope_producer_id, plan_tier, max_redemptions, per_user_limit, starts_at, expires_at, archived_at, created_at, updated_at, promo_code_redemptions(count)';
+
+const FORM_ERROR_KEYS: Record<PromoCodeFormError, TranslationKey> = {
+  code: 'settings.promoCodeFormatError',
+  discount: 'settings.promoDiscountError',
+  scope: 'settings.promoScopeError',
+  limits: 'settings.promoLimitsError',
+  dates: 'settings.promoDatesError',
+};
+
+const SCOPE_LABEL_KEYS: Record<PromoCodeScope, TranslationKey> = {
+  product: 'settings.promoScopeProduct',
+  producer: 'settings.promoScopeProducer',
+  all_beats: 'settings.promoScopeAllBeats',
+  plan: 'settings.promoScopePlan',
+};
+
+export function PromoCodesSettingsCard({ profile, mode = 'producer' }: PromoCodesSettingsCardProps) {
+  const { t } = useTranslation();
+  const [promoCodes, setPromoCodes] = useState<PromoCodeRow[]>([]);
+  const [products, setProducts] = useState<PromoCodeProductOption[]>([]);
+  const [form, setForm] = useState<PromoCodeFormValues>(
+    mode === 'admin' ? { ...EMPTY_PROMO_CODE_FORM, scope: 'all_beats' } : EMPTY_PROMO_CODE_FORM,
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [archivingId, setArchivingId] = useState<string | null>(null);
+
+  const isAdmin = mode === 'admin';
+  const ownerId = profile?.id ?? null;
+  const canManage = isAdmin ? profile?.role === 'admin' : Boolean(profile?.can_access_producer_features);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadPromoCodes = async () => {
+      if (!ownerId || !canManage) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      const codesQuery = supabase
+        .from('promo_codes')
+        .select(PROMO_CODE_COLUMNS)
+        .is('archived_at', null)
+        .order('created_at', { ascending: false });
+      const [codesResult, productsResult] = await Promise.all([
+        isAdmin ? codesQuery.is('producer_id', null) : codesQuery.eq('producer_id', ownerId),
+        isAdmin
+          ? Promise.resolve({ data: [], error: null })
+          : supabase
+            .from('products')
+            .select('id, title')
+            .eq('producer_id', ownerId)
+            .eq('status', 'active')
+            .is('deleted_at', null)
+            .order('title', { ascending: true }),
+      ]);
+
+      if (isCancelled) return;
+
+      if (codesResult.error || productsResult.error) {
+        console.error('[promo-codes] failed to load promo codes', codesResult.error ?? productsResult.error);
+        toast.error(t('settings.promoCodesLoadError'));
+      } else {
+        setPromoCodes((codesResult.data as unknown as PromoCodeRow[] | null) ?? []);
+        setProducts((productsResult.data as PromoCodeProductOption[] | null) ?? []);
+      }
+      setIsLoading(false);
+    };
+
+    void loadPromoCodes();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [canManage, isAdmin, ownerId, t]);
+
+  if (!ownerId || !canManage) {
+    return null;
+  }
+
+  const describeDiscount = (promoCode: PromoCode) => (
+    promoCode.discount_type === 'percent'
+      ? `-${promoCode.discount_value}%`
+      : `-${formatPrice(promoCode.discount_value)}`
+  );
+
+  const describePromoCode = (promoCode: PromoCodeRow) => {
+    const parts = [
+      describeDiscount(promoCode),
+      t(SCOPE_LABEL_KEYS[promoCode.scope]),
+      t('settings.promoRedemptions', {
+        count: promoCode.promo_code_redemptions[0]?.count ?? 0,
+        max: promoCode.max_redemptions ?? '∞',
+      }),
+    ];
+    if (promoCode.expires_at) {
+      parts.push(t('settings.promoExpires', { date: formatDate(promoCode.expires_at) }));
+    }
+    return parts.join(' · ');
+  };
+
+  const handleArchive = async (promoCode: PromoCodeRow) => {
+    if (archivingId) return;
+
+    setArchivingId(promoCode.id);
+    try {
+      const { error } = await supabase.rpc('rpc_archive_promo_code', { p_promo_code_id: promoCode.id });
+      if (error) throw error;
+
+      setPromoCodes((prev) => prev.filter((row) => row.id !== promoCode.id));
+      toast.success(t('settings.promoCodeArchived'));
+    } catch (error) {
+      console.error('[promo-codes] archive failed', error);
+      toast.error(t('settings.promoCodeSaveError'));
+    } finally {
+      setArchivingId(null);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (isSaving) return;
+
+    const { settings, error: formError } = parsePromoCodeForm(form);
+    if (!settings) {
+      toast.error(t(FORM_ERROR_KEYS[formError]));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('rpc_create_promo_code', {
+        p_code: settings.code,
+        p_discount_type: settings.discountType,
+        p_discount_value: settings.discountValue,
+        p_scope: settings.scope,
+        p_product_id: settings.productId ?? undefined,
+        p_scope_producer_id: settings.scopeProducerId ?? undefined,
+        p_plan_tier: settings.planTier ?? undefined,
+        p_max_redemptions: settings.maxRedemptions ?? undefined,
+        p_per_user_limit: settings.perUserLimit,
+        p_expires_at: settings.expiresAt ?? undefined,
+      });
+
+      if (error) {
+        if (error.message.includes('promo_code_taken')) {
+          toast.error(t('settings.promoCodeTaken'));
+          return;
+        }
+        throw error;
+      }
+
+      const now = new Date().toISOString();
+      const createdCode: PromoCodeRow = {
+        id: (data as string | null) ?? '',
+        code: settings.code,
+        created_by: ownerId,
+        producer_id: isAdmin ? null : ownerId,
+        discount_type: settings.discountType,
+        discount_value: settings.discountValue,
+        scope: settings.scope,
+        product_id: settings.productId,
+        scope_producer_id: settings.scope === 'producer' ? settings.scopeProducerId ?? ownerId : null,
+        plan_tier: settings.planTier,
+        max_redemptions: settings.maxRedemptions,
+        per_user_limit: settings.perUserLimit,
+        starts_at: null,
+        expires_at: settings.expiresAt,
+        archived_at: null,
+        created_at: now,
+        updated_at: now,
+        promo_code_redemptions: [{ count: 0 }],
+      };
+
+      setPromoCodes((prev) => [createdCode, ...prev]);
+      setForm((prev) => ({ ...EMPTY_PROMO_CODE_FORM, scope: prev.scope }));
+      toast.success(t('settings.promoCodeSaved'));
+    } catch (error) {
+      console.error('[promo-codes] create failed', error);
+      toast.error(t('settings.promoCodeSaveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDisabled = isLoading || isSaving;
+  const scopeOptions: PromoCodeScope[] = isAdmin ? ['all_beats', 'plan', 'producer', 'product'] : ['producer', 'product'];
+
+  return (
+    <Card className="p-6 space-y-5">
+      <div className="flex items-start gap-3">
+        <div className="mt-0.5 rounded-xl p-2 bg-amber-500/15 text-amber-300">
+          <Ticket className="w-5 h-5" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-white">{t('settings.promoCodesTitle')}</h2>
+          <p className="mt-1 text-sm text-zinc-400">
+            {isAdmin ? t('settings.promoCodesAdminDescription') : t('settings.promoCodesDescription')}
+          </p>
+        </div>
+      </div>
+
+      {!isLoading && promoCodes.length === 0 && (
+        <p className="text-sm text-zinc-500">{t('settings.promoCodesEmpty')}</p>
+      )}
+
+      {promoCodes.length > 0 && (
+        <ul className="divide-y divide-zinc-800 rounded-lg border border-zinc-800">
+          {promoCodes.map((promoCode) => (
+            <li key={promoCode.id} className="flex items-center justify-between gap-3 px-4 py-3">
+              <div className="min-w-0">
+                <p className="truncate font-mono text-sm font-medium text-white">{promoCode.code}</p>
+                <p className="text-xs text-zinc-500">{describePromoCode(promoCode)}</p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => void handleArchive(promoCode)}
+                isLoading={archivingId === promoCode.id}
+                disabled={isDisabled}
+                leftIcon={<Archive className="w-4 h-4" />}
+              >
+                {t('settings.promoCodeArchive')}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border border-zinc-800 bg-zinc-950/60 p-4">
+        <h3 className="text-sm font-semibold text-zinc-200">{t('settings.promoCodeNewTitle')}</h3>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Input
+            label={t('settings.promoCodeLabel')}
+            value={form.code}
+            maxLength={32}
+            onChange={(event) => setForm((prev) => ({ ...prev, code: event.target.value.toUpperCase() }))}
+            disabled={isDisabled}
+          />
+          <Select
+            label={t('settings.promoScopeLabel')}
+            value={form.scope}
+            options={scopeOptions.map((scope) => ({ value: scope, label: t(SCOPE_LABEL_KEYS[scope]) }))}
+            onChange={(event) => setForm((prev) => ({ ...prev, scope: event.target.value as PromoCodeScope }))}
+            disabled={isDisabled}
+          />
+          <Select
+            label={t('settings.promoDiscountTypeLabel')}
+            value={form.discountType}
+            options={[
+              { value: 'percent', label: t('settings.promoDiscountPercent') },
+              { value: 'fixed', label: t('settings.promoDiscountFixed') },
+            ]}
+            onChange={(event) => setForm((prev) => ({ ...prev, discountType: event.target.value as PromoDiscountType }))}
+            disabled={isDisabled}
+          />
+          <Input
+            type="number"
+            min="1"
+            step={form.discountType === 'percent' ? '1' : '0.01'}
+            label={form.discountType === 'percent' ? t('settings.promoPercentLabel') : t('settings.promoAmountLabel')}
+            value={form.discountValue}
+            onChange={(event) => setForm((prev) => ({ ...prev, discountValue: event.target.value }))}
+            disabled={isDisabled}
+          />
+
+          {form.scope === 'product' && (
+            isAdmin ? (
+              <Input
+                label={t('settings.promoProductIdLabel')}
+                value={form.productId}
+                onChange={(event) => setForm((prev) => ({ ...prev, productId: event.target.value }))}
+                disabled={isDisabled}
+              />
+            ) : (
+              <Select
+                label={t('settings.promoProductLabel')}
+                value={form.productId}
+                options={[
+                  { value: '', label: t('settings.promoProductPlaceholder') },
+                  ...products.map((product) => ({ value: product.id, label: product.title })),
+                ]}
+                onChange={(event) => setForm((prev) => ({ ...prev, productId: event.target.value }))}
+                disabled={isDisabled}
+              />
+            )
+          )}
+
+          {form.scope === 'producer' && isAdmin && (
+            <Input
+              label={t('settings.promoProducerIdLabel')}
+              value={form.scopeProducerId}
+              onChange={(event) => setForm((prev) => ({ ...prev, scopeProducerId: event.target.value }))}
+              disabled={isDisabled}
+            />
+          )}
+
+          {form.scope === 'plan' && (
+            <Select
+              label={t('settings.promoPlanTierLabel')}
+              value={form.planTier}
+              options={[
+                { value: '', label: t('settings.promoPlanTierAny') },
+                { value: 'producteur', label: 'Producteur' },
+                { value: 'elite', label: 'Elite' },
+              ]}
+              onChange={(event) => setForm((prev) => ({ ...prev, planTier: event.target.value }))}
+              disabled={isDisabled}
+            />
+          )}
+
+          <Input
+            type="number"
+            min="1"
+            step="1"
+            label={t('settings.promoMaxRedemptionsLabel')}
+            placeholder={t('settings.promoUnlimited')}
+            value={form.maxRedemptions}
+            onChange={(event) => setForm((prev) => ({ ...prev, maxRedemptions: event.target.value }))}
+            disabled={isDisabled}
+          />
+          <Input
+            type="number"
+            min="1"
+            step="1"
+            label={t('settings.promoPerUserLimitLabel')}
+            value={form.perUserLimit}
+            onChange={(event) => setForm((prev) => ({ ...prev, perUserLimit: event.target.value }))}
+            disabled={isDisabled}
+          />
+          <Input
+            type="date"
+            label={t('settings.promoExpiresAtLabel')}
+            value={form.expiresAt}
+            onChange={(event) => setForm((prev) => ({ ...prev, expiresAt: event.target.value }))}
+            disabled={isDisabled}
+          />
+        </div>
+
+        <Button type="submit" isLoading={isSaving} disabled={isLoading}>
+          {t('settings.promoCodeSave')}
+        </Button>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,322 @@
+import { useEffect, useState, type ChangeEvent, type FormEvent } from 'react';
+import toast from 'react-hot-toast';
+import { Mic, Pause, Play } from 'lucide-react';
+import { useAudioPlayer } from '../../context/AudioPlayerContext';
+import { useTranslation } from '../../lib/i18n';
+import { supabase } from '../../lib/supabase/client';
+import type { Database } from '../../lib/supabase/database.types';
+import type { UserProfile } from '../../lib/supabase/types';
+import {
+  VOICE_TAG_BUCKET,
+  buildVoiceTagPath,
+  isAcceptedVoiceTagFile,
+  parseWatermarkProfileForm,
+  type WatermarkProfileFormValues,
+} from '../../lib/audio/watermarkProfile';
+import { Card } from '../ui/Card';
+import { Input } from '../ui/Input';
+import { Button } from '../ui/Button';
+
+type WatermarkProfileRow = Pick<
+  Database['public']['Tables']['watermark_profiles']['Row'],
+  'id' | 'enabled' | 'overlay_audio_path' | 'gain_db' | 'min_interval_sec' | 'max_interval_sec' | 'updated_at'
+>;
+
+interface VoiceTagSettingsCardProps {
+  profile: UserProfile | null | undefined;
+}
+
+const DEFAULT_FORM: WatermarkProfileFormValues = {
+  gainDb: '-10',
+  minIntervalSec: '20',
+  maxIntervalSec: '45',
+};
+
+const toFormValues = (row: WatermarkProfileRow | null): WatermarkProfileFormValues => ({
+  gainDb: row?.gain_db != null ? String(row.gain_db) : DEFAULT_FORM.gainDb,
+  minIntervalSec: row?.min_interval_sec != null ? String(row.min_interval_sec) : DEFAULT_FORM.minIntervalSec,
+  maxIntervalSec: row?.max_interval_sec != null ? String(row.max_interval_sec) : DEFAULT_FORM.maxIntervalSec,
+});
+
+export function VoiceTagSettingsCard({ profile }: VoiceTagSettingsCardProps) {
+  const { t } = useTranslation();
+  const { currentTrack, isPlaying, playTrack } = useAudioPlayer();
+  const [watermarkProfile, setWatermarkProfile] = useState<WatermarkProfileRow | null>(null);
+  const [form, setForm] = useState<WatermarkProfileFormValues>(DEFAULT_FORM);
+  const [enabled, setEnabled] = useState(true);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const producerId = profile?.id ?? null;
+  const canUseVoiceTag = Boolean(profile?.can_access_producer_features);
+  const currentPath = watermarkProfile?.overlay_audio_path ?? null;
+  const isPreviewActive = currentTrack?.id === `voice-tag-preview-${watermarkProfile?.updated_at ?? ''}` && isPlaying;
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadProfile = async () => {
+      if (!producerId || !canUseVoiceTag) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('watermark_profiles')
+        .select('id, enabled, overlay_audio_path, gain_db, min_interval_sec, max_interval_sec, updated_at')
+        .eq('producer_id', producerId)
+        .maybeSingle();
+
+      if (isCancelled) return;
+
+      if (error) {
+        console.error('[voice-tag] failed to load watermark profile', error);
+        toast.error(t('settings.voiceTagLoadError'));
+      } else {
+        const row = (data as WatermarkProfileRow | null) ?? null;
+        setWatermarkProfile(row);
+        setForm(toFormValues(row));
+        setEnabled(row?.enabled ?? true);
+      }
+      setIsLoading(false);
+    };
+
+    void loadProfile();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [canUseVoiceTag, producerId, t]);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadPreviewUrl = async () => {
+      if (!currentPath) {
+        setPreviewUrl(null);
+        return;
+      }
+
+      const { data, error } = await supabase.storage
+        .from(VOICE_TAG_BUCKET)
+        .createSignedUrl(currentPath, 60 * 60);
+
+      if (isCancelled) return;
+      if (error || !data?.signedUrl) {
+        console.error('[voice-tag] preview signed URL error', error);
+        setPreviewUrl(null);
+        return;
+      }
+
+      setPreviewUrl(data.signedUrl);
+    };
+
+    void loadPreviewUrl();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [currentPath]);
+
+  if (!producerId || !canUseVoiceTag) {
+    return null;
+  }
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] ?? null;
+    if (file && !isAcceptedVoiceTagFile(file)) {
+      toast.error(t('settings.voiceTagFileError'));
+      event.target.value = '';
+      setSelectedFile(null);
+      return;
+    }
+    setSelectedFile(file);
+  };
+
+  const handlePlayPreview = () => {
+    if (!previewUrl) return;
+
+    playTrack({
+      id: `voice-tag-preview-${watermarkProfile?.updated_at ?? ''}`,
+      title: t('settings.voiceTagTitle'),
+      audioUrl: previewUrl,
+    });
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (isSaving) return;
+
+    const { settings, error: formError } = parseWatermarkProfileForm(form);
+    if (!settings) {
+      toast.error(
+        formError === 'gain'
+          ? t('settings.voiceTagGainError')
+          : formError === 'interval'
+            ? t('settings.voiceTagIntervalError')
+            : t('settings.voiceTagNumericError')
+      );
+      return;
+    }
+
+    if (enabled && !selectedFile && !currentPath) {
+      toast.error(t('settings.voiceTagRequired'));
+      return;
+    }
+
+    setIsSaving(true);
+    let uploadedPath: string | null = null;
+
+    try {
+      if (selectedFile) {
+        uploadedPath = buildVoiceTagPath(producerId, selectedFile.name);
+        const { error: uploadError } = await supabase.storage
+          .from(VOICE_TAG_BUCKET)
+          .upload(uploadedPath, selectedFile, {
+            cacheControl: '3600',
+            upsert: false,
+            contentType: selectedFile.type,
+          });
+
+        if (uploadError) throw uploadError;
+      }
+
+      const { data, error } = await supabase.rpc('rpc_save_watermark_profile', {
+        p_overlay_audio_path: uploadedPath ?? currentPath ?? '',
+        p_gain_db: settings.gainDb,
+        p_min_interval_sec: settings.minIntervalSec,
+        p_max_interval_sec: settings.maxIntervalSec,
+        p_enabled: enabled,
+      });
+
+      if (error) throw error;
+
+      // The previous sample is no longer referenced once the profile points
+      // at the new one.
+      if (uploadedPath && currentPath && currentPath !== uploadedPath) {
+        const { error: removeError } = await supabase.storage.from(VOICE_TAG_BUCKET).remove([currentPath]);
+        if (removeError) {
+          console.warn('[voice-tag] previous sample cleanup warning', removeError);
+        }
+      }
+
+      const result = (data ?? {}) as { profile_id?: string; enqueued_count?: number };
+      setWatermarkProfile({
+        id: result.profile_id ?? watermarkProfile?.id ?? '',
+        enabled,
+        overlay_audio_path: uploadedPath ?? currentPath,
+        gain_db: settings.gainDb,
+        min_interval_sec: settings.minIntervalSec,
+        max_interval_sec: settings.maxIntervalSec,
+        updated_at: new Date().toISOString(),
+      });
+      setSelectedFile(null);
+      toast.success(t('settings.voiceTagSaved', { count: result.enqueued_count ?? 0 }));
+    } catch (error) {
+      console.error('[voice-tag] save failed', error);
+      if (uploadedPath) {
+        await supabase.storage.from(VOICE_TAG_BUCKET).remove([uploadedPath]);
+      }
+      toast.error(t('settings.voiceTagSaveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDisabled = isLoading || isSaving;
+
+  return (
+    <Card className="p-6">
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div className="flex items-start gap-3">
+          <div className="mt-0.5 rounded-xl p-2 bg-rose-500/15 text-rose-300">
+            <Mic className="w-5 h-5" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-white">{t('settings.voiceTagTitle')}</h2>
+            <p className="mt-1 text-sm text-zinc-400">{t('settings.voiceTagDescription')}</p>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-3 rounded-lg border border-zinc-800 bg-zinc-950/60 px-4 py-3 text-sm text-zinc-200">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(event) => setEnabled(event.target.checked)}
+            disabled={isDisabled}
+            className="h-4 w-4 rounded border-zinc-700 bg-zinc-900 text-rose-500 focus:ring-rose-500/50"
+          />
+          {t('settings.voiceTagEnabledLabel')}
+        </label>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Input
+            type="number"
+            step="0.5"
+            label={t('settings.voiceTagGainLabel')}
+            value={form.gainDb}
+            onChange={(event) => setForm((prev) => ({ ...prev, gainDb: event.target.value }))}
+            disabled={isDisabled}
+          />
+          <Input
+            type="number"
+            min="5"
+            step="1"
+            label={t('settings.voiceTagMinIntervalLabel')}
+            value={form.minIntervalSec}
+            onChange={(event) => setForm((prev) => ({ ...prev, minIntervalSec: event.target.value }))}
+            disabled={isDisabled}
+          />
+          <Input
+            type="number"
+            min="5"
+            step="1"
+            label={t('settings.voiceTagMaxIntervalLabel')}
+            value={form.maxIntervalSec}
+            onChange={(event) => setForm((prev) => ({ ...prev, maxIntervalSec: event.target.value }))}
+            disabled={isDisabled}
+          />
+        </div>
+
+        <div className="rounded-lg border border-zinc-800 bg-zinc-950/60 px-4 py-3 text-sm text-zinc-300 space-y-2">
+          <p>
+            {currentPath ? t('settings.voiceTagCurrent') : t('settings.voiceTagSiteDefault')}
+          </p>
+          {previewUrl && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handlePlayPreview}
+              leftIcon={isPreviewActive ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            >
+              {isPreviewActive ? t('common.pause') : t('common.play')}
+            </Button>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="voice-tag-file" className="block text-sm font-medium text-zinc-300 mb-1.5">
+            {t('settings.voiceTagUploadLabel')}
+          </label>
+          <input
+            id="voice-tag-file"
+            type="file"
+            accept="audio/mpeg,audio/wav,audio/x-wav,audio/wave"
+            onChange={handleFileChange}
+            disabled={isDisabled}
+            className="block w-full rounded-lg border border-zinc-700 bg-zinc-900 px-3 py-2.5 text-sm text-zinc-300 file:mr-4 file:rounded-md file:border-0 file:bg-zinc-800 file:px-3 file:py-2 file:text-sm file:text-zinc-200"
+          />
+          <p className="mt-1.5 text-xs text-zinc-500">{t('settings.voiceTagUploadHint')}</p>
+        </div>
+
+        <Button type="submit" isLoading={isSaving} disabled={isLoading}>
+          {t('settings.voiceTagSave')}
+        </Button>
+      </form>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { BarChart3, Euro, FolderTree, Inbox, LayoutDashboard, LineChart, MessageSquareText, Newspaper, Rocket, Settings, ShieldCheck, Sparkles, Swords } from 'lucide-react';
+import { BarChart3, Euro, Fingerprint, FolderTree, Inbox, LayoutDashboard, LineChart, MessageSquareText, Newspaper, Rocket, Settings, ShieldCheck, Sparkles, Swords } from 'lucide-react';
 import { NavLink } from 'react-router-dom';
 import type { ReactNode } from 'react';
 import { useTranslation } from '../../lib/i18n';
@@ -73,6 +73,11 @@ export function AdminSidebar({ battlesAwaitingAdminCount = null }: AdminSidebarP
       label: t('admin.sidebar.beatAnalytics'),
       icon: <BarChart3 className="w-4 h-4" />,
     },
+    {
+      to: '/admin/audio-matches',
+      label: t('admin.sidebar.audioMatches'),
+      icon: <Fingerprint className="w-4 h-4" />,
+    },
     {
       to: '/admin/launch',
       label: 'Lancement',
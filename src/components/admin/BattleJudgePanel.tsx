@@ -0,0 +1,304 @@
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { useTranslation, type TranslateFn } from '../../lib/i18n';
+import { supabase } from '@/lib/supabase/client';
+import {
+  JUDGE_SCORE_MAX,
+  combineJudgedScore,
+  getCommunityShare,
+  getPanelJudgeScore,
+  getScorecardScore,
+  parseJudgeWeightPercent,
+  type JudgeCriterionScores,
+} from '../../lib/battles/judging';
+import type { BattleFormat, BattleStatus } from '../../lib/supabase/types';
+
+export interface JudgedBattle {
+  id: string;
+  status: BattleStatus;
+  battle_format: BattleFormat;
+  judge_weight: number | null;
+  producer1_id: string;
+  producer2_id: string | null;
+  votes_producer1: number;
+  votes_producer2: number;
+  producer1?: { username: string | null };
+  producer2?: { username: string | null };
+}
+
+interface BattleJudgePanelProps {
+  battle: JudgedBattle;
+  onChanged: () => void | Promise<void>;
+}
+
+interface JudgeRow {
+  judge_id: string;
+  judge: { username: string | null } | null;
+}
+
+interface ScorecardRow {
+  judge_id: string;
+  producer_id: string;
+  criterion_scores: JudgeCriterionScores;
+}
+
+interface Competitor {
+  producerId: string;
+  label: string;
+  tally: number;
+}
+
+function toJudgePanelRpcError(message: string, t: TranslateFn) {
+  if (message.includes('admin_required')) return t('admin.battles.rpcAdminRequired');
+  if (message.includes('battle_already_completed')) return t('admin.judging.errorCompleted');
+  if (message.includes('invalid_judge_weight')) return t('admin.judging.errorInvalidWeight');
+  if (message.includes('judge_user_not_found')) return t('admin.judging.errorUserNotFound');
+  if (message.includes('judge_is_competitor')) return t('admin.judging.errorJudgeCompetes');
+  return t('admin.battles.rpcGenericError');
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function BattleJudgePanel({ battle, onChanged }: BattleJudgePanelProps) {
+  const { t } = useTranslation();
+  const [judges, setJudges] = useState<JudgeRow[]>([]);
+  const [scorecards, setScorecards] = useState<ScorecardRow[]>([]);
+  const [competitors, setCompetitors] = useState<Competitor[]>([]);
+  const [weightInput, setWeightInput] = useState(
+    battle.judge_weight === null ? '' : String(Math.round(battle.judge_weight * 100)),
+  );
+  const [username, setUsername] = useState('');
+  const [actionKey, setActionKey] = useState<string | null>(null);
+
+  const isEditable = battle.status !== 'completed' && battle.status !== 'cancelled';
+
+  const loadPanel = useCallback(async () => {
+    const [judgesRes, scorecardsRes] = await Promise.all([
+      supabase
+        .from('battle_judges')
+        .select('judge_id, judge:user_profiles!battle_judges_judge_id_fkey(username)')
+        .eq('battle_id', battle.id)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('battle_judge_scorecards')
+        .select('judge_id, producer_id, criterion_scores')
+        .eq('battle_id', battle.id),
+    ]);
+
+    if (judgesRes.error) console.error('Error loading battle judges:', judgesRes.error);
+    if (scorecardsRes.error) console.error('Error loading judge scorecards:', scorecardsRes.error);
+    setJudges((judgesRes.data ?? []) as unknown as JudgeRow[]);
+    setScorecards((scorecardsRes.data ?? []) as unknown as ScorecardRow[]);
+
+    if (battle.battle_format !== 'cypher') {
+      setCompetitors([
+        { producerId: battle.producer1_id, label: battle.producer1?.username ?? battle.producer1_id, tally: battle.votes_producer1 },
+        ...(battle.producer2_id
+          ? [{ producerId: battle.producer2_id, label: battle.producer2?.username ?? battle.producer2_id, tally: battle.votes_producer2 }]
+          : []),
+      ]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('battle_entrants')
+      .select('producer_id, points, producer:user_profiles!battle_entrants_producer_id_fkey(username)')
+      .eq('battle_id', battle.id)
+      .order('position', { ascending: true });
+
+    if (error) console.error('Error loading cypher entrants for judging:', error);
+    setCompetitors(((data ?? []) as unknown as Array<{ producer_id: string; points: number; producer: { username: string | null } | null }>)
+      .map((entrant) => ({
+        producerId: entrant.producer_id,
+        label: entrant.producer?.username ?? entrant.producer_id,
+        tally: entrant.points,
+      })));
+  }, [battle]);
+
+  useEffect(() => {
+    void loadPanel();
+  }, [loadPanel]);
+
+  const saveWeight = async () => {
+    const weight = parseJudgeWeightPercent(weightInput);
+    if (weight === undefined) {
+      toast.error(t('admin.judging.errorInvalidWeight'));
+      return;
+    }
+
+    setActionKey('weight');
+    const { error } = await supabase.rpc('admin_set_battle_judge_weight', {
+      p_battle_id: battle.id,
+      p_judge_weight: weight ?? undefined,
+    });
+    setActionKey(null);
+
+    if (error) {
+      console.error('Error saving judge weight:', error);
+      toast.error(toJudgePanelRpcError(error.message, t));
+      return;
+    }
+
+    toast.success(weight === null ? t('admin.judging.panelDisabled') : t('admin.judging.weightSaved'));
+    await onChanged();
+  };
+
+  const addJudge = async () => {
+    setActionKey('add');
+    const { error } = await supabase.rpc('admin_add_battle_judge', {
+      p_battle_id: battle.id,
+      p_username: username,
+    });
+    setActionKey(null);
+
+    if (error) {
+      console.error('Error adding battle judge:', error);
+      toast.error(toJudgePanelRpcError(error.message, t));
+      return;
+    }
+
+    setUsername('');
+    await loadPanel();
+  };
+
+  const removeJudge = async (judgeId: string) => {
+    setActionKey(`remove:${judgeId}`);
+    const { error } = await supabase.rpc('admin_remove_battle_judge', {
+      p_battle_id: battle.id,
+      p_judge_id: judgeId,
+    });
+    setActionKey(null);
+
+    if (error) {
+      console.error('Error removing battle judge:', error);
+      toast.error(toJudgePanelRpcError(error.message, t));
+      return;
+    }
+
+    await loadPanel();
+  };
+
+  const totalTally = competitors.reduce((sum, competitor) => sum + competitor.tally, 0);
+  const projection = competitors.map((competitor) => {
+    const cards = scorecards
+      .filter((scorecard) => scorecard.producer_id === competitor.producerId)
+      .map((scorecard) => getScorecardScore(scorecard.criterion_scores))
+      .filter((score): score is number => score !== null);
+    const judgeScore = getPanelJudgeScore(cards, judges.length);
+    const communityScore = getCommunityShare(competitor.tally, totalTally);
+    return {
+      ...competitor,
+      communityScore,
+      judgeScore,
+      finalScore: combineJudgedScore({
+        judgeWeight: battle.judge_weight,
+        communityScore,
+        judgeScore,
+        panelScored: scorecards.length > 0,
+      }),
+    };
+  });
+
+  return (
+    <div className="rounded border border-amber-900 bg-amber-950/20 p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <p className="text-sm text-amber-200 font-medium">{t('admin.judging.title')}</p>
+        {battle.judge_weight !== null && (
+          <Badge variant="warning">
+            {t('judging.formula', {
+              judges: formatPercent(battle.judge_weight),
+              community: formatPercent(1 - battle.judge_weight),
+            })}
+          </Badge>
+        )}
+      </div>
+
+      {isEditable && (
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-2 items-end">
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            label={t('admin.judging.weightLabel')}
+            placeholder={t('admin.judging.weightPlaceholder')}
+            value={weightInput}
+            onChange={(event) => setWeightInput(event.target.value)}
+          />
+          <Button size="sm" variant="outline" isLoading={actionKey === 'weight'} onClick={() => void saveWeight()}>
+            {t('admin.judging.saveWeight')}
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-xs text-zinc-400">{t('judging.panelSize', { count: judges.length })}</p>
+        {judges.length > 0 && (
+          <ul className="space-y-1">
+            {judges.map((judge) => {
+              const cardCount = scorecards.filter((scorecard) => scorecard.judge_id === judge.judge_id).length;
+              return (
+                <li key={judge.judge_id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-zinc-200">
+                    {judge.judge?.username ?? judge.judge_id}
+                    <span className="text-zinc-500">
+                      {' '}- {t('admin.judging.cardsSent', { count: cardCount, total: competitors.length })}
+                    </span>
+                  </span>
+                  {isEditable && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      isLoading={actionKey === `remove:${judge.judge_id}`}
+                      onClick={() => void removeJudge(judge.judge_id)}
+                    >
+                      {t('admin.judging.remove')}
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {isEditable && (
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-2 items-end">
+            <Input
+              label={t('admin.judging.usernameLabel')}
+              value={username}
+              onChange={(event) => setUsername(event.target.value)}
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              isLoading={actionKey === 'add'}
+              disabled={username.trim().length === 0}
+              onClick={() => void addJudge()}
+            >
+              {t('admin.judging.add')}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {battle.judge_weight !== null && scorecards.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-zinc-400">{t('admin.judging.projection')}</p>
+          <ul className="space-y-1 text-xs text-zinc-300">
+            {projection.map((entry) => (
+              <li key={entry.producerId}>
+                {t('admin.judging.projectionLine', {
+                  name: entry.label,
+                  community: formatPercent(entry.communityScore),
+                  judges: entry.judgeScore === null ? '-' : (entry.judgeScore * JUDGE_SCORE_MAX).toFixed(1),
+                  final: (entry.finalScore * 100).toFixed(1),
+                })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { X } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { useTranslation, type TranslateFn } from '../../lib/i18n';
+import { supabase } from '@/lib/supabase/client';
+import { CYPHER_MAX_ENTRANTS, CYPHER_MIN_ENTRANTS } from '../../lib/battles/cypher';
+
+interface ProducerOption {
+  id: string;
+  username: string | null;
+}
+
+interface BeatOption {
+  id: string;
+  title: string;
+}
+
+interface CypherEntrantDraft {
+  producerId: string;
+  producerName: string;
+  productId: string;
+  productTitle: string;
+}
+
+function toCypherRpcError(message: string, t: TranslateFn) {
+  if (message.includes('admin_required')) return t('admin.battles.rpcAdminRequired');
+  if (message.includes('title_required')) return t('admin.cypher.errorTitleRequired');
+  if (message.includes('invalid_voting_duration')) return t('admin.cypher.errorInvalidDuration');
+  if (message.includes('cypher_entrant_count_invalid')) return t('admin.cypher.errorEntrantCount', { min: CYPHER_MIN_ENTRANTS, max: CYPHER_MAX_ENTRANTS });
+  if (message.includes('cypher_entrants_invalid')) return t('admin.cypher.errorEntrantsInvalid');
+  if (message.includes('cypher_product_invalid')) return t('admin.cypher.errorProductInvalid');
+  if (message.includes('BATTLE_PRODUCT_ALREADY_OCCUPIED')) return t('admin.cypher.errorProductOccupied');
+  return t('admin.battles.rpcGenericError');
+}
+
+export function CypherBattleCreator() {
+  const { t } = useTranslation();
+  const [producers, setProducers] = useState<ProducerOption[]>([]);
+  const [beats, setBeats] = useState<BeatOption[]>([]);
+  const [form, setForm] = useState({ title: '', description: '', votingDurationHours: '72' });
+  const [entrantForm, setEntrantForm] = useState({ producerId: '', productId: '' });
+  const [entrants, setEntrants] = useState<CypherEntrantDraft[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdSlug, setCreatedSlug] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadProducers() {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('id, username')
+        .eq('is_producer_active', true)
+        .order('username', { ascending: true })
+        .limit(200);
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error loading cypher producers:', error);
+        return;
+      }
+      setProducers((data ?? []) as ProducerOption[]);
+    }
+
+    void loadProducers();
+
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBeats([]);
+    setEntrantForm((prev) => ({ ...prev, productId: '' }));
+
+    if (!entrantForm.producerId) return;
+
+    async function loadBeats() {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, title')
+        .eq('producer_id', entrantForm.producerId)
+        .eq('product_type', 'beat')
+        .eq('status', 'active')
+        .eq('is_published', true)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error loading cypher beats:', error);
+        return;
+      }
+      setBeats((data ?? []) as BeatOption[]);
+    }
+
+    void loadBeats();
+
+    return () => { cancelled = true; };
+  }, [entrantForm.producerId]);
+
+  const addEntrant = () => {
+    const producer = producers.find((row) => row.id === entrantForm.producerId);
+    const beat = beats.find((row) => row.id === entrantForm.productId);
+    if (!producer || !beat) return;
+
+    setEntrants((prev) => [
+      ...prev,
+      {
+        producerId: producer.id,
+        producerName: producer.username ?? producer.id,
+        productId: beat.id,
+        productTitle: beat.title,
+      },
+    ]);
+    setEntrantForm({ producerId: '', productId: '' });
+  };
+
+  const createCypher = async () => {
+    setIsCreating(true);
+    const { data, error } = await supabase.rpc('admin_create_cypher_battle', {
+      p_title: form.title,
+      p_description: form.description,
+      p_entrants: entrants.map((entrant) => ({ producer_id: entrant.producerId, product_id: entrant.productId })),
+      p_voting_duration_hours: Number(form.votingDurationHours),
+    });
+    setIsCreating(false);
+
+    if (error || !data) {
+      console.error('Error creating cypher battle:', error);
+      toast.error(toCypherRpcError(error?.message ?? '', t));
+      return;
+    }
+
+    toast.success(t('admin.cypher.createSuccess'));
+    setCreatedSlug(data.slug);
+    setForm((prev) => ({ ...prev, title: '', description: '' }));
+    setEntrants([]);
+  };
+
+  const producerOptions = producers
+    .filter((producer) => !entrants.some((entrant) => entrant.producerId === producer.id))
+    .map((producer) => ({ value: producer.id, label: producer.username ?? producer.id }));
+  const canAddEntrant = entrants.length < CYPHER_MAX_ENTRANTS && Boolean(entrantForm.producerId && entrantForm.productId);
+  const canCreate = form.title.trim().length > 0
+    && entrants.length >= CYPHER_MIN_ENTRANTS
+    && entrants.length <= CYPHER_MAX_ENTRANTS;
+
+  return (
+    <Card className="space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-white">{t('admin.cypher.title')}</h2>
+        <p className="text-sm text-zinc-400">
+          {t('admin.cypher.subtitle', { min: CYPHER_MIN_ENTRANTS, max: CYPHER_MAX_ENTRANTS })}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <Input
+          label={t('admin.cypher.titleLabel')}
+          value={form.title}
+          onChange={(event) => setForm((prev) => ({ ...prev, title: event.target.value }))}
+        />
+        <Input
+          label={t('admin.cypher.descriptionLabel')}
+          value={form.description}
+          onChange={(event) => setForm((prev) => ({ ...prev, description: event.target.value }))}
+        />
+        <Input
+          type="number"
+          min={1}
+          max={720}
+          label={t('admin.cypher.durationLabel')}
+          value={form.votingDurationHours}
+          onChange={(event) => setForm((prev) => ({ ...prev, votingDurationHours: event.target.value }))}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end border border-zinc-800 rounded-lg bg-zinc-900/50 p-4">
+        <Select
+          label={t('admin.cypher.producerLabel')}
+          placeholder={t('admin.cypher.producerPlaceholder')}
+          value={entrantForm.producerId}
+          onChange={(event) => setEntrantForm({ producerId: event.target.value, productId: '' })}
+          options={producerOptions}
+        />
+        <Select
+          label={t('admin.cypher.beatLabel')}
+          placeholder={t('admin.cypher.beatPlaceholder')}
+          value={entrantForm.productId}
+          onChange={(event) => setEntrantForm((prev) => ({ ...prev, productId: event.target.value }))}
+          options={beats.map((beat) => ({ value: beat.id, label: beat.title }))}
+          disabled={!entrantForm.producerId}
+        />
+        <Button variant="outline" onClick={addEntrant} disabled={!canAddEntrant}>
+          {t('admin.cypher.addEntrant')}
+        </Button>
+      </div>
+
+      {entrants.length === 0 ? (
+        <p className="text-sm text-zinc-500">{t('admin.cypher.noEntrants')}</p>
+      ) : (
+        <ol className="space-y-2">
+          {entrants.map((entrant, index) => (
+            <li
+              key={entrant.producerId}
+              className="flex items-center justify-between gap-3 rounded-lg border border-zinc-800 px-3 py-2 text-sm"
+            >
+              <span className="truncate text-zinc-300">
+                <span className="text-zinc-500 mr-2">{index + 1}.</span>
+                {entrant.producerName} - {entrant.productTitle}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setEntrants((prev) => prev.filter((row) => row.producerId !== entrant.producerId))}
+                aria-label={t('admin.cypher.removeEntrant')}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button onClick={() => void createCypher()} isLoading={isCreating} disabled={!canCreate}>
+          {t('admin.cypher.create')}
+        </Button>
+        {createdSlug && (
+          <Link to={`/battles/${createdSlug}`} className="text-sm text-sky-300 hover:text-sky-200">
+            {t('admin.cypher.openCreated')}
+          </Link>
+        )}
+      </div>
+    </Card>
+  );
+}
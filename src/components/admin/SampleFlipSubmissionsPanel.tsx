@@ -0,0 +1,272 @@
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { BattleAudioPlayer } from '../audio/BattleAudioPlayer';
+import { SampleFlipReasonList } from '../battles/SampleFlipChallenge';
+import { useTranslation, type TranslateFn } from '../../lib/i18n';
+import { supabase } from '@/lib/supabase/client';
+import { CYPHER_MAX_ENTRANTS, CYPHER_MIN_ENTRANTS } from '../../lib/battles/cypher';
+import { getSampleFlipReasons } from '../../lib/battles/sampleFlip';
+import type { CampaignFlipSubmission, SampleFlipSubmissionStatus, TournamentFormat } from '../../lib/supabase/types';
+
+interface FlipSubmissionRow extends CampaignFlipSubmission {
+  producer: { username: string | null } | null;
+  product: { title: string; preview_url: string | null } | null;
+}
+
+interface SampleFlipSubmissionsPanelProps {
+  campaignId: string;
+  campaignStatus: string;
+  submissionDeadline: string;
+  onLaunched: () => void | Promise<void>;
+}
+
+const statusBadgeVariant: Record<SampleFlipSubmissionStatus, 'default' | 'success' | 'warning' | 'danger'> = {
+  pending_check: 'default',
+  passed: 'success',
+  needs_review: 'warning',
+  failed: 'danger',
+};
+
+function toSampleFlipAdminRpcError(message: string, t: TranslateFn) {
+  if (message.includes('admin_required')) return t('admin.battles.rpcAdminRequired');
+  if (message.includes('campaign_submissions_still_open')) return t('admin.sampleFlip.errorStillOpen');
+  if (message.includes('flip_submissions_unresolved')) return t('admin.sampleFlip.errorUnresolved');
+  if (message.includes('campaign_already_launched') || message.includes('campaign_not_open')) return t('admin.sampleFlip.errorNotOpen');
+  if (message.includes('cypher_entrant_count_invalid')) return t('admin.cypher.errorEntrantCount', { min: CYPHER_MIN_ENTRANTS, max: CYPHER_MAX_ENTRANTS });
+  if (message.includes('invalid_voting_duration')) return t('admin.cypher.errorInvalidDuration');
+  if (message.includes('cypher_product_invalid') || message.includes('tournament_product_invalid')) return t('admin.sampleFlip.errorBeatNotEligible');
+  if (message.includes('BATTLE_PRODUCT_ALREADY_OCCUPIED')) return t('admin.cypher.errorProductOccupied');
+  if (message.includes('invalid_round_duration')) return t('admin.tournaments.errorInvalidDuration');
+  if (message.includes('tournament_not_enough_entrants')) return t('admin.tournaments.errorNotEnoughEntrants');
+  return t('admin.battles.rpcGenericError');
+}
+
+function formatDetected(value: unknown) {
+  return typeof value === 'number' || typeof value === 'string' ? String(value) : '-';
+}
+
+export function SampleFlipSubmissionsPanel({
+  campaignId,
+  campaignStatus,
+  submissionDeadline,
+  onLaunched,
+}: SampleFlipSubmissionsPanelProps) {
+  const { t } = useTranslation();
+  const [submissions, setSubmissions] = useState<FlipSubmissionRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [actionKey, setActionKey] = useState<string | null>(null);
+  const [launchForm, setLaunchForm] = useState({
+    votingDurationHours: '72',
+    format: 'single_elimination' as TournamentFormat,
+    roundDurationHours: '72',
+  });
+
+  const loadSubmissions = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from('campaign_flip_submissions')
+      .select(`
+        *,
+        producer:user_profiles!campaign_flip_submissions_producer_id_fkey(username),
+        product:products!campaign_flip_submissions_product_id_fkey(title, preview_url)
+      `)
+      .eq('campaign_id', campaignId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading sample flip submissions:', error);
+      setSubmissions([]);
+    } else {
+      setSubmissions((data ?? []) as unknown as FlipSubmissionRow[]);
+    }
+    setIsLoading(false);
+  }, [campaignId]);
+
+  useEffect(() => {
+    void loadSubmissions();
+  }, [loadSubmissions]);
+
+  const reviewSubmission = async (submissionId: string, accept: boolean) => {
+    setActionKey(`review:${submissionId}`);
+    const { error } = await supabase.rpc('admin_review_flip_submission', {
+      p_submission_id: submissionId,
+      p_accept: accept,
+    });
+    setActionKey(null);
+
+    if (error) {
+      console.error('Error reviewing sample flip submission:', error);
+      toast.error(toSampleFlipAdminRpcError(error.message, t));
+      return;
+    }
+
+    await loadSubmissions();
+  };
+
+  const openVote = async () => {
+    setActionKey('vote');
+    const { error } = await supabase.rpc('admin_open_sample_flip_vote', {
+      p_campaign_id: campaignId,
+      p_voting_duration_hours: Number(launchForm.votingDurationHours),
+    });
+    setActionKey(null);
+
+    if (error) {
+      console.error('Error opening sample flip vote:', error);
+      toast.error(toSampleFlipAdminRpcError(error.message, t));
+      return;
+    }
+
+    toast.success(t('admin.sampleFlip.voteOpened'));
+    await onLaunched();
+  };
+
+  const bracketFlips = async () => {
+    setActionKey('bracket');
+    const { error } = await supabase.rpc('admin_bracket_sample_flip', {
+      p_campaign_id: campaignId,
+      p_format: launchForm.format,
+      p_round_duration_hours: Number(launchForm.roundDurationHours),
+    });
+    setActionKey(null);
+
+    if (error) {
+      console.error('Error bracketing sample flips:', error);
+      toast.error(toSampleFlipAdminRpcError(error.message, t));
+      return;
+    }
+
+    toast.success(t('admin.sampleFlip.bracketStarted'));
+    await onLaunched();
+  };
+
+  const isOpen = campaignStatus === 'applications_open';
+  const deadlinePassed = new Date(submissionDeadline).getTime() <= Date.now();
+  const passedCount = submissions.filter((submission) => submission.status === 'passed').length;
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium text-zinc-200">
+        {t('admin.sampleFlip.submissions', { count: submissions.length, passed: passedCount })}
+      </h4>
+
+      {isLoading ? (
+        <p className="text-sm text-zinc-400">{t('common.loading')}</p>
+      ) : submissions.length === 0 ? (
+        <p className="text-sm text-zinc-500">{t('admin.sampleFlip.noSubmissions')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {submissions.map((submission) => {
+            const report = (submission.check_report ?? {}) as Record<string, unknown>;
+            return (
+              <li key={submission.id} className="border border-zinc-800 rounded bg-zinc-950/60 p-2 text-sm space-y-2">
+                <div className="flex items-center justify-between gap-2 flex-wrap">
+                  <p className="text-zinc-100">
+                    {submission.producer?.username || submission.producer_id}
+                    <span className="text-zinc-500"> - {submission.product?.title || submission.product_id}</span>
+                  </p>
+                  <div className="flex items-center gap-2">
+                    {submission.reviewed_at && <Badge>{t('admin.sampleFlip.reviewed')}</Badge>}
+                    <Badge variant={statusBadgeVariant[submission.status]}>{t(`sampleFlip.status.${submission.status}`)}</Badge>
+                  </div>
+                </div>
+                <p className="text-xs text-zinc-500">
+                  {t('admin.sampleFlip.detected', {
+                    bpm: formatDetected(report.detected_bpm),
+                    key: formatDetected(report.detected_key_signature),
+                  })}
+                </p>
+                <SampleFlipReasonList reasons={getSampleFlipReasons(submission.check_report)} />
+                <BattleAudioPlayer
+                  productId={submission.product_id}
+                  src={submission.product?.preview_url ?? null}
+                  label={t('admin.sampleFlip.preview')}
+                />
+                {isOpen && (
+                  <div className="flex flex-wrap gap-2">
+                    {submission.status !== 'passed' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        isLoading={actionKey === `review:${submission.id}`}
+                        onClick={() => void reviewSubmission(submission.id, true)}
+                      >
+                        {t('admin.sampleFlip.accept')}
+                      </Button>
+                    )}
+                    {submission.status !== 'failed' && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        isLoading={actionKey === `review:${submission.id}`}
+                        onClick={() => void reviewSubmission(submission.id, false)}
+                      >
+                        {t('admin.sampleFlip.reject')}
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {isOpen && (
+        <div className="space-y-3 border border-zinc-800 rounded-lg p-3">
+          {!deadlinePassed && <p className="text-xs text-amber-300">{t('admin.sampleFlip.launchAfterDeadline')}</p>}
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3 items-end">
+            <Input
+              type="number"
+              min={1}
+              max={720}
+              label={t('admin.cypher.durationLabel')}
+              value={launchForm.votingDurationHours}
+              onChange={(event) => setLaunchForm((prev) => ({ ...prev, votingDurationHours: event.target.value }))}
+            />
+            <Button
+              size="sm"
+              isLoading={actionKey === 'vote'}
+              disabled={!deadlinePassed || passedCount < CYPHER_MIN_ENTRANTS || passedCount > CYPHER_MAX_ENTRANTS}
+              onClick={() => void openVote()}
+            >
+              {t('admin.sampleFlip.openVote')}
+            </Button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+            <Select
+              label={t('admin.tournaments.formatLabel')}
+              value={launchForm.format}
+              onChange={(event) => setLaunchForm((prev) => ({ ...prev, format: event.target.value as TournamentFormat }))}
+              options={[
+                { value: 'single_elimination', label: t('tournaments.formatSingle') },
+                { value: 'double_elimination', label: t('tournaments.formatDouble') },
+              ]}
+            />
+            <Input
+              type="number"
+              min={1}
+              max={720}
+              label={t('admin.tournaments.roundDurationLabel')}
+              value={launchForm.roundDurationHours}
+              onChange={(event) => setLaunchForm((prev) => ({ ...prev, roundDurationHours: event.target.value }))}
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              isLoading={actionKey === 'bracket'}
+              disabled={!deadlinePassed || passedCount < 2}
+              onClick={() => void bracketFlips()}
+            >
+              {t('admin.sampleFlip.bracket')}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,541 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { useTranslation, type TranslateFn } from '../../lib/i18n';
+import { supabase } from '@/lib/supabase/client';
+import { getTournamentRoundLabel, groupTournamentRounds } from '../../lib/battles/tournaments';
+import type {
+  Tournament,
+  TournamentBracket,
+  TournamentEntrant,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentRoundDuration,
+  TournamentStatus,
+} from '../../lib/supabase/types';
+
+interface ProducerOption {
+  id: string;
+  username: string | null;
+  elo_rating: number;
+}
+
+interface BeatOption {
+  id: string;
+  title: string;
+}
+
+interface TournamentDetail {
+  entrants: TournamentEntrant[];
+  matches: TournamentMatch[];
+  durations: TournamentRoundDuration[];
+  beatTitles: Map<string, string>;
+}
+
+const statusBadgeVariant: Record<TournamentStatus, 'default' | 'info' | 'success' | 'danger'> = {
+  draft: 'default',
+  running: 'info',
+  completed: 'success',
+  cancelled: 'danger',
+};
+
+const BRACKET_TITLE_KEYS = {
+  winners: 'tournaments.winnersBracket',
+  losers: 'tournaments.losersBracket',
+  grand_final: 'tournaments.grandFinal',
+} as const satisfies Record<TournamentBracket, string>;
+
+function toTournamentRpcError(message: string, t: TranslateFn) {
+  if (message.includes('admin_required')) return t('admin.battles.rpcAdminRequired');
+  if (message.includes('title_required')) return t('admin.tournaments.errorTitleRequired');
+  if (message.includes('invalid_round_duration')) return t('admin.tournaments.errorInvalidDuration');
+  if (message.includes('tournament_product_invalid')) return t('admin.tournaments.errorProductInvalid');
+  if (message.includes('tournament_already_started')) return t('admin.tournaments.errorAlreadyStarted');
+  if (message.includes('tournament_not_enough_entrants')) return t('admin.tournaments.errorNotEnoughEntrants');
+  if (message.includes('tournament_match_already_decided')) return t('admin.tournaments.errorMatchDecided');
+  if (message.includes('tournament_match_not_open')) return t('admin.tournaments.errorMatchNotOpen');
+  return t('admin.battles.rpcGenericError');
+}
+
+export function TournamentManager() {
+  const { t } = useTranslation();
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [detail, setDetail] = useState<TournamentDetail | null>(null);
+  const [producers, setProducers] = useState<ProducerOption[]>([]);
+  const [beats, setBeats] = useState<BeatOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [actionKey, setActionKey] = useState<string | null>(null);
+  const [createForm, setCreateForm] = useState({
+    title: '',
+    description: '',
+    format: 'single_elimination' as TournamentFormat,
+    roundDurationHours: '72',
+  });
+  const [entrantForm, setEntrantForm] = useState({ producerId: '', productId: '' });
+  const [durationDrafts, setDurationDrafts] = useState<Record<string, string>>({});
+
+  const selected = tournaments.find((tournament) => tournament.id === selectedId) ?? null;
+  const producersById = useMemo(() => new Map(producers.map((producer) => [producer.id, producer])), [producers]);
+
+  const loadTournaments = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('tournaments')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading admin tournaments:', error);
+      toast.error(t('admin.tournaments.loadError'));
+      return;
+    }
+
+    const rows = (data ?? []) as Tournament[];
+    setTournaments(rows);
+    setSelectedId((current) => current || rows[0]?.id || '');
+  }, [t]);
+
+  const loadDetail = useCallback(async (tournamentId: string) => {
+    const [entrantsResult, matchesResult, durationsResult] = await Promise.all([
+      supabase.from('tournament_entrants').select('*').eq('tournament_id', tournamentId).order('seed'),
+      supabase.from('tournament_matches').select('*').eq('tournament_id', tournamentId),
+      supabase.from('tournament_round_durations').select('*').eq('tournament_id', tournamentId),
+    ]);
+
+    if (entrantsResult.error || matchesResult.error || durationsResult.error) {
+      console.error(
+        'Error loading tournament detail:',
+        entrantsResult.error ?? matchesResult.error ?? durationsResult.error,
+      );
+      toast.error(t('admin.tournaments.loadError'));
+      return;
+    }
+
+    const entrants = (entrantsResult.data ?? []) as TournamentEntrant[];
+    const { data: beatRows } = entrants.length > 0
+      ? await supabase.from('products').select('id, title').in('id', entrants.map((entrant) => entrant.product_id))
+      : { data: [] };
+
+    setDetail({
+      entrants,
+      matches: (matchesResult.data ?? []) as TournamentMatch[],
+      durations: durationsResult.data ?? [],
+      beatTitles: new Map((beatRows ?? []).map((beat) => [beat.id, beat.title])),
+    });
+  }, [t]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadInitial() {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('id, username, elo_rating')
+        .eq('is_producer_active', true)
+        .order('elo_rating', { ascending: false })
+        .limit(200);
+
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error loading tournament producers:', error);
+      } else {
+        setProducers((data ?? []) as ProducerOption[]);
+      }
+
+      await loadTournaments();
+      if (!cancelled) setIsLoading(false);
+    }
+
+    void loadInitial();
+
+    return () => { cancelled = true; };
+  }, [loadTournaments]);
+
+  useEffect(() => {
+    setDetail(null);
+    setDurationDrafts({});
+    if (selectedId) {
+      void loadDetail(selectedId);
+    }
+  }, [loadDetail, selectedId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBeats([]);
+    setEntrantForm((prev) => ({ ...prev, productId: '' }));
+
+    if (!entrantForm.producerId) return;
+
+    async function loadBeats() {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, title')
+        .eq('producer_id', entrantForm.producerId)
+        .eq('product_type', 'beat')
+        .eq('status', 'active')
+        .eq('is_published', true)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error loading tournament beats:', error);
+        return;
+      }
+      setBeats((data ?? []) as BeatOption[]);
+    }
+
+    void loadBeats();
+
+    return () => { cancelled = true; };
+  }, [entrantForm.producerId]);
+
+  const runAction = async (key: string, action: () => Promise<{ error: { message: string } | null }>, success?: string) => {
+    setActionKey(key);
+    const { error } = await action();
+    setActionKey(null);
+
+    if (error) {
+      console.error(`Tournament action ${key} failed:`, error);
+      toast.error(toTournamentRpcError(error.message, t));
+      return false;
+    }
+
+    if (success) toast.success(success);
+    await loadTournaments();
+    if (selectedId) await loadDetail(selectedId);
+    return true;
+  };
+
+  const createTournament = async () => {
+    setActionKey('create');
+    const { data, error } = await supabase.rpc('admin_create_tournament', {
+      p_title: createForm.title,
+      p_description: createForm.description,
+      p_format: createForm.format,
+      p_round_duration_hours: Number(createForm.roundDurationHours),
+    });
+    setActionKey(null);
+
+    if (error || !data) {
+      console.error('Error creating tournament:', error);
+      toast.error(toTournamentRpcError(error?.message ?? '', t));
+      return;
+    }
+
+    toast.success(t('admin.tournaments.createSuccess'));
+    setCreateForm((prev) => ({ ...prev, title: '', description: '' }));
+    await loadTournaments();
+    setSelectedId(data.id);
+  };
+
+  const addEntrant = async () => {
+    if (!selected || !entrantForm.producerId || !entrantForm.productId) return;
+    const added = await runAction('add-entrant', async () =>
+      supabase.rpc('admin_add_tournament_entrant', {
+        p_tournament_id: selected.id,
+        p_producer_id: entrantForm.producerId,
+        p_product_id: entrantForm.productId,
+      }),
+    );
+    if (added) setEntrantForm({ producerId: '', productId: '' });
+  };
+
+  const disqualify = async (entrant: TournamentEntrant) => {
+    const reason = window.prompt(t('admin.tournaments.disqualifyPrompt'));
+    if (reason === null) return;
+    await runAction(
+      `dq-${entrant.id}`,
+      async () => supabase.rpc('admin_disqualify_tournament_entrant', { p_entrant_id: entrant.id, p_reason: reason }),
+      t('admin.tournaments.disqualifySuccess'),
+    );
+  };
+
+  const entrantName = (entrantId: string | null) => {
+    if (!entrantId) return t('tournaments.tbd');
+    const entrant = detail?.entrants.find((row) => row.id === entrantId);
+    return entrant ? producersById.get(entrant.producer_id)?.username ?? entrant.producer_id : t('common.unknown');
+  };
+
+  const sections = useMemo(() => groupTournamentRounds(detail?.matches ?? []), [detail]);
+  const durationByRound = useMemo(
+    () => new Map((detail?.durations ?? []).map((row) => [`${row.bracket}:${row.round}`, row.duration_hours])),
+    [detail],
+  );
+
+  return (
+    <Card className="space-y-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <h2 className="text-lg font-semibold text-white">{t('admin.tournaments.title')}</h2>
+        <Link to="/tournaments" className="text-sm text-sky-300 hover:text-sky-200">
+          {t('admin.tournaments.publicPage')}
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 border border-zinc-800 rounded-lg bg-zinc-900/50 p-4">
+        <Input
+          label={t('admin.tournaments.titleLabel')}
+          value={createForm.title}
+          onChange={(event) => setCreateForm((prev) => ({ ...prev, title: event.target.value }))}
+        />
+        <Input
+          label={t('admin.tournaments.descriptionLabel')}
+          value={createForm.description}
+          onChange={(event) => setCreateForm((prev) => ({ ...prev, description: event.target.value }))}
+        />
+        <Select
+          label={t('admin.tournaments.formatLabel')}
+          value={createForm.format}
+          onChange={(event) => setCreateForm((prev) => ({ ...prev, format: event.target.value as TournamentFormat }))}
+          options={[
+            { value: 'single_elimination', label: t('tournaments.formatSingle') },
+            { value: 'double_elimination', label: t('tournaments.formatDouble') },
+          ]}
+        />
+        <Input
+          type="number"
+          min={1}
+          max={720}
+          label={t('admin.tournaments.roundDurationLabel')}
+          value={createForm.roundDurationHours}
+          onChange={(event) => setCreateForm((prev) => ({ ...prev, roundDurationHours: event.target.value }))}
+        />
+        <div className="md:col-span-2 flex justify-end">
+          <Button isLoading={actionKey === 'create'} onClick={() => void createTournament()}>
+            {t('admin.tournaments.create')}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-zinc-400 text-sm">{t('common.loading')}</p>
+      ) : tournaments.length === 0 ? (
+        <p className="text-zinc-500 text-sm">{t('admin.tournaments.empty')}</p>
+      ) : (
+        <div className="space-y-4">
+          <Select
+            value={selectedId}
+            onChange={(event) => setSelectedId(event.target.value)}
+            options={tournaments.map((tournament) => ({ value: tournament.id, label: tournament.title }))}
+          />
+
+          {selected && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 flex-wrap">
+                <Badge variant={statusBadgeVariant[selected.status]}>{selected.status}</Badge>
+                <span className="text-sm text-zinc-400">
+                  {selected.format === 'double_elimination' ? t('tournaments.formatDouble') : t('tournaments.formatSingle')}
+                </span>
+                {selected.status !== 'draft' && (
+                  <Link to={`/tournaments/${selected.slug}`} className="text-sm text-sky-300 hover:text-sky-200">
+                    {t('tournaments.viewBracket')}
+                  </Link>
+                )}
+                <div className="ml-auto flex gap-2">
+                  {selected.status === 'draft' && (
+                    <Button
+                      size="sm"
+                      isLoading={actionKey === 'start'}
+                      onClick={() => void runAction(
+                        'start',
+                        async () => supabase.rpc('admin_start_tournament', { p_tournament_id: selected.id }),
+                        t('admin.tournaments.startSuccess'),
+                      )}
+                    >
+                      {t('admin.tournaments.start')}
+                    </Button>
+                  )}
+                  {selected.status === 'running' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      isLoading={actionKey === 'advance'}
+                      onClick={() => void runAction(
+                        'advance',
+                        async () => supabase.rpc('admin_advance_tournament', { p_tournament_id: selected.id }),
+                        t('admin.tournaments.advanceSuccess'),
+                      )}
+                    >
+                      {t('admin.tournaments.advance')}
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-zinc-200">
+                  {t('admin.tournaments.entrants', { count: detail?.entrants.length ?? 0 })}
+                </h3>
+                <ul className="space-y-2">
+                  {(detail?.entrants ?? []).map((entrant) => (
+                    <li
+                      key={entrant.id}
+                      className="flex items-center justify-between gap-3 border border-zinc-800 rounded-lg bg-zinc-900/50 px-3 py-2 text-sm"
+                    >
+                      <span className="text-zinc-200">
+                        {entrant.seed !== null && <span className="text-zinc-500 mr-1">#{entrant.seed}</span>}
+                        {producersById.get(entrant.producer_id)?.username ?? entrant.producer_id}
+                        <span className="text-zinc-500 ml-2">{detail?.beatTitles.get(entrant.product_id)}</span>
+                        {entrant.elo_at_seed !== null && (
+                          <span className="text-zinc-500 ml-2">Elo {entrant.elo_at_seed}</span>
+                        )}
+                      </span>
+                      <span className="flex items-center gap-2">
+                        <Badge variant={entrant.status === 'disqualified' ? 'danger' : 'default'}>{entrant.status}</Badge>
+                        {selected.status === 'draft' && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            isLoading={actionKey === `remove-${entrant.id}`}
+                            onClick={() => void runAction(
+                              `remove-${entrant.id}`,
+                              async () => supabase.rpc('admin_remove_tournament_entrant', { p_entrant_id: entrant.id }),
+                            )}
+                          >
+                            {t('admin.tournaments.removeEntrant')}
+                          </Button>
+                        )}
+                        {selected.status === 'running' && entrant.status === 'active' && (
+                          <Button
+                            size="sm"
+                            variant="danger"
+                            isLoading={actionKey === `dq-${entrant.id}`}
+                            onClick={() => void disqualify(entrant)}
+                          >
+                            {t('admin.tournaments.disqualify')}
+                          </Button>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+
+                {selected.status === 'draft' && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                    <Select
+                      label={t('admin.tournaments.producerLabel')}
+                      value={entrantForm.producerId}
+                      onChange={(event) => setEntrantForm({ producerId: event.target.value, productId: '' })}
+                      placeholder={t('admin.tournaments.selectProducer')}
+                      options={producers.map((producer) => ({
+                        value: producer.id,
+                        label: `${producer.username ?? producer.id} (${producer.elo_rating})`,
+                      }))}
+                    />
+                    <Select
+                      label={t('admin.tournaments.beatLabel')}
+                      value={entrantForm.productId}
+                      onChange={(event) => setEntrantForm((prev) => ({ ...prev, productId: event.target.value }))}
+                      placeholder={t('admin.tournaments.selectBeat')}
+                      options={beats.map((beat) => ({ value: beat.id, label: beat.title }))}
+                    />
+                    <Button
+                      variant="outline"
+                      isLoading={actionKey === 'add-entrant'}
+                      disabled={!entrantForm.producerId || !entrantForm.productId}
+                      onClick={() => void addEntrant()}
+                    >
+                      {t('admin.tournaments.addEntrant')}
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {sections.map((section) => (
+                <div key={section.bracket} className="space-y-3">
+                  <h3 className="text-sm font-semibold text-zinc-200">{t(BRACKET_TITLE_KEYS[section.bracket])}</h3>
+                  {section.rounds.map((column) => {
+                    const durationKey = `${section.bracket}:${column.round}`;
+                    const currentHours = durationByRound.get(durationKey) ?? selected.round_duration_hours;
+
+                    return (
+                      <div key={durationKey} className="border border-zinc-800 rounded-lg bg-zinc-900/50 p-3 space-y-2">
+                        <div className="flex items-center justify-between gap-3 flex-wrap">
+                          <p className="text-sm text-white font-medium">
+                            {getTournamentRoundLabel(section.bracket, column.round, section.rounds.length, t)}
+                          </p>
+                          {selected.status === 'running' && (
+                            <div className="flex items-center gap-2">
+                              <input
+                                type="number"
+                                min={1}
+                                max={720}
+                                value={durationDrafts[durationKey] ?? String(currentHours)}
+                                onChange={(event) =>
+                                  setDurationDrafts((prev) => ({ ...prev, [durationKey]: event.target.value }))
+                                }
+                                aria-label={t('admin.tournaments.roundDurationLabel')}
+                                className="w-24 bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-1.5 text-white text-sm"
+                              />
+                              <span className="text-xs text-zinc-500">h</span>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                isLoading={actionKey === `duration-${durationKey}`}
+                                onClick={() => void runAction(
+                                  `duration-${durationKey}`,
+                                  async () => supabase.rpc('admin_set_tournament_round_duration', {
+                                    p_tournament_id: selected.id,
+                                    p_bracket: section.bracket,
+                                    p_round: column.round,
+                                    p_duration_hours: Number(durationDrafts[durationKey] ?? currentHours),
+                                  }),
+                                  t('admin.tournaments.durationSaved'),
+                                )}
+                              >
+                                {t('admin.tournaments.saveDuration')}
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                        <ul className="space-y-1">
+                          {column.matches.map((match) => (
+                            <li key={match.id} className="flex items-center justify-between gap-2 text-sm flex-wrap">
+                              <span className="text-zinc-300">
+                                {entrantName(match.entrant1_id)} {t('battles.vs')} {entrantName(match.entrant2_id)}
+                                <span className="text-zinc-500 ml-2">{match.resolution ?? match.status}</span>
+                              </span>
+                              {(match.status === 'ready' || match.status === 'live') && (
+                                <span className="flex gap-2">
+                                  {[match.entrant1_id, match.entrant2_id].map((entrantId) => entrantId && (
+                                    <Button
+                                      key={entrantId}
+                                      size="sm"
+                                      variant="ghost"
+                                      isLoading={actionKey === `bye-${match.id}-${entrantId}`}
+                                      onClick={() => void runAction(
+                                        `bye-${match.id}-${entrantId}`,
+                                        async () => supabase.rpc('admin_award_tournament_bye', {
+                                          p_match_id: match.id,
+                                          p_entrant_id: entrantId,
+                                        }),
+                                        t('admin.tournaments.byeSuccess'),
+                                      )}
+                                    >
+                                      {t('admin.tournaments.awardBye', { name: entrantName(entrantId) })}
+                                    </Button>
+                                  ))}
+                                </span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -1,7 +1,9 @@
 import { type ChangeEvent } from 'react';
 import { Pause, Play } from 'lucide-react';
 import { useAudioPlayer } from '../../context/AudioPlayerContext';
+import { useWaveformPeaks } from '../../lib/audio/waveform';
 import { useTranslation } from '../../lib/i18n';
+import { Waveform } from './Waveform';
 
 const formatTime = (value: number) => {
   const safeValue = Number.isFinite(value) && value > 0 ? value : 0;
@@ -27,6 +29,7 @@ export function BattleAudioPlayer({ productId, src, label }: BattleAudioPlayerPr
   const isPlayingCurrent = isCurrentTrack && isPlaying;
   const displayedCurrentTime = isCurrentTrack ? currentTime : 0;
   const displayedDuration = isCurrentTrack ? duration : 0;
+  const peaks = useWaveformPeaks(trimmedSrc ? { preview_url: trimmedSrc } : null);
 
   const handleTogglePlay = () => {
     if (!canPlay || !trackId) {
@@ -73,16 +76,28 @@ export function BattleAudioPlayer({ productId, src, label }: BattleAudioPlayerPr
         <div className="flex-1">
           <p className="mb-1 text-xs text-zinc-500">{label || t('audio.excerptLabel')}</p>
           <div className="flex items-center gap-2">
-            <input
-              type="range"
-              min={0}
-              max={displayedDuration > 0 ? displayedDuration : 0}
-              step={0.1}
-              value={displayedDuration > 0 ? Math.min(displayedCurrentTime, displayedDuration) : 0}
-              onChange={handleSeek}
-              disabled={!isCurrentTrack || displayedDuration <= 0}
-              className="h-1 w-full cursor-pointer accent-rose-500 disabled:cursor-not-allowed"
-            />
+            {peaks ? (
+              <Waveform
+                peaks={peaks}
+                progress={displayedDuration > 0 ? displayedCurrentTime / displayedDuration : 0}
+                bars={80}
+                className="h-8"
+                disabled={!isCurrentTrack || displayedDuration <= 0}
+                ariaLabel={t('audio.seekWaveform')}
+                onSeek={(ratio) => seekTo(ratio * displayedDuration)}
+              />
+            ) : (
+              <input
+                type="range"
+                min={0}
+                max={displayedDuration > 0 ? displayedDuration : 0}
+                step={0.1}
+                value={displayedDuration > 0 ? Math.min(displayedCurrentTime, displayedDuration) : 0}
+                onChange={handleSeek}
+                disabled={!isCurrentTrack || displayedDuration <= 0}
+                className="h-1 w-full cursor-pointer accent-rose-500 disabled:cursor-not-allowed"
+              />
+            )}
             <span className="whitespace-nowrap text-[11px] text-zinc-500 tabular-nums">
               {formatTime(displayedCurrentTime)} / {formatTime(displayedDuration)}
             </span>
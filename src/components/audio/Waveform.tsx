@@ -0,0 +1,66 @@
+import { useMemo, type MouseEvent } from 'react';
+import { downsamplePeaks } from '../../lib/audio/peaks';
+
+interface WaveformProps {
+  peaks: number[];
+  /** Playback position between 0 and 1. */
+  progress: number;
+  bars?: number;
+  disabled?: boolean;
+  className?: string;
+  ariaLabel?: string;
+  onSeek?: (ratio: number) => void;
+}
+
+const MIN_BAR_HEIGHT_PERCENT = 6;
+
+export function Waveform({
+  peaks,
+  progress,
+  bars = 120,
+  disabled = false,
+  className = 'h-10',
+  ariaLabel,
+  onSeek,
+}: WaveformProps) {
+  const heights = useMemo(() => downsamplePeaks(peaks, bars), [peaks, bars]);
+  const safeProgress = Number.isFinite(progress) ? Math.max(0, Math.min(progress, 1)) : 0;
+  const playedBars = Math.round(safeProgress * heights.length);
+  const isInteractive = Boolean(onSeek) && !disabled;
+
+  const handleClick = (event: MouseEvent<HTMLDivElement>) => {
+    if (!onSeek) return;
+    event.preventDefault();
+    event.stopPropagation();
+    if (disabled) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (rect.width <= 0) return;
+    const ratio = Math.max(0, Math.min((event.clientX - rect.left) / rect.width, 1));
+    onSeek(ratio);
+  };
+
+  return (
+    <div
+      role={isInteractive ? 'slider' : undefined}
+      aria-label={ariaLabel}
+      aria-valuemin={isInteractive ? 0 : undefined}
+      aria-valuemax={isInteractive ? 100 : undefined}
+      aria-valuenow={isInteractive ? Math.round(safeProgress * 100) : undefined}
+      onClick={handleClick}
+      className={`flex w-full items-center gap-px ${
+        isInteractive ? 'cursor-pointer' : 'cursor-default'
+      } ${className}`}
+    >
+      {heights.map((height, index) => (
+        <div
+          key={index}
+          className={`flex-1 rounded-sm transition-colors duration-150 ${
+            index < playedBars ? 'bg-rose-500' : 'bg-zinc-600'
+          }`}
+          style={{ height: `${Math.max(height * 100, MIN_BAR_HEIGHT_PERCENT)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
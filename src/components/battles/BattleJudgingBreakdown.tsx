@@ -0,0 +1,92 @@
+import { Gavel } from 'lucide-react';
+import { Card } from '../ui/Card';
+import { useTranslation } from '../../lib/i18n';
+import { useBattleJudgingResults } from '../../hooks/useBattleJudgingResults';
+import { BATTLE_CRITERION_KEYS } from '../../lib/battles/loserShare';
+import { JUDGE_SCORE_MAX } from '../../lib/battles/judging';
+
+interface BattleJudgingBreakdownProps {
+  battleId: string;
+  status: string;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function BattleJudgingBreakdown({ battleId, status }: BattleJudgingBreakdownProps) {
+  const { t } = useTranslation();
+  const results = useBattleJudgingResults(battleId, status);
+
+  if (!results?.has_panel) return null;
+
+  const formula = t('judging.formula', {
+    judges: formatPercent(results.judge_weight),
+    community: formatPercent(1 - results.judge_weight),
+  });
+
+  return (
+    <Card className="space-y-4">
+      <div className="space-y-1">
+        <h2 className="inline-flex items-center gap-2 text-lg font-semibold text-white">
+          <Gavel className="h-5 w-5 text-amber-400" />
+          {t('judging.breakdownTitle')}
+        </h2>
+        <p className="text-sm text-zinc-400">
+          {t('judging.panelSize', { count: results.judge_count })} · {formula}
+        </p>
+      </div>
+
+      {!results.completed ? (
+        <p className="text-xs text-zinc-500">{t('judging.pendingResults')}</p>
+      ) : !results.scored ? (
+        <p className="text-xs text-zinc-500">{t('judging.notScored')}</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase text-zinc-500">
+                  <th className="py-2 pr-3 font-medium">{t('judging.producerColumn')}</th>
+                  <th className="py-2 pr-3 font-medium text-right">{t('judging.communityColumn')}</th>
+                  <th className="py-2 pr-3 font-medium text-right">{t('judging.judgesColumn')}</th>
+                  <th className="py-2 font-medium text-right">{t('judging.finalColumn')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.entries.map((entry) => (
+                  <tr key={entry.producer_id} className="border-t border-zinc-800 text-zinc-200">
+                    <td className="py-2 pr-3">{entry.username ?? t('judging.unknownProducer')}</td>
+                    <td className="py-2 pr-3 text-right">{formatPercent(entry.community_score)}</td>
+                    <td className="py-2 pr-3 text-right">
+                      {entry.judge_score === null
+                        ? '-'
+                        : `${(entry.judge_score * JUDGE_SCORE_MAX).toFixed(1)}/${JUDGE_SCORE_MAX}`}
+                    </td>
+                    <td className="py-2 text-right font-semibold text-white">{(entry.final_score * 100).toFixed(1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {results.entries.filter((entry) => entry.scorecard_count > 0).map((entry) => (
+              <div key={entry.producer_id} className="rounded-lg border border-zinc-800 bg-zinc-900/60 p-3 space-y-2">
+                <p className="text-xs text-zinc-400">
+                  {t('judging.criteriaFor', { name: entry.username ?? t('judging.unknownProducer'), count: entry.scorecard_count })}
+                </p>
+                <dl className="grid grid-cols-3 gap-x-3 gap-y-1 text-xs">
+                  {BATTLE_CRITERION_KEYS.map((criterion) => (
+                    <div key={criterion} className="flex items-center justify-between gap-1">
+                      <dt className="truncate text-zinc-500">{t(`battles.feedbackCriteria.${criterion}`)}</dt>
+                      <dd className="text-zinc-200">{entry.criteria[criterion]?.toFixed(1) ?? '-'}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
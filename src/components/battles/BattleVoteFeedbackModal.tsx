@@ -23,6 +23,8 @@ interface BattleVoteFeedbackModalProps {
   isOpen: boolean;
   battleId: string;
   winnerProducerId: string | null;
+  /** Cypher ballot, best first; its first entry is the winner the feedback describes. */
+  ranking?: string[] | null;
   onSubmitSuccess?: (winnerProducerId: string) => Promise<void> | void;
   onClose: () => void;
 }
@@ -41,6 +43,7 @@ function toVoteWithFeedbackErrorMessage(message: string, t: TranslateFn) {
   if (message.includes('battle_not_found')) return t('battles.voteUnavailable');
   if (message.includes('vote_cooldown')) return t('battles.voteCooldown');
   if (message.includes('invalid_vote_target')) return t('battles.invalidVoteTarget');
+  if (message.includes('invalid_ballot')) return t('battles.invalidBallot');
   if (message.includes('auth_required')) return t('battles.voteLoginRequired');
   if (message.includes('not_authenticated')) return t('battles.voteLoginRequired');
   if (message.includes('rate_limit_exceeded')) return t('battles.tooManyActions');
@@ -97,6 +100,7 @@ export function BattleVoteFeedbackModal({
   isOpen,
   battleId,
   winnerProducerId,
+  ranking = null,
   onSubmitSuccess,
   onClose,
 }: BattleVoteFeedbackModalProps) {
@@ -158,6 +162,7 @@ export function BattleVoteFeedbackModal({
           p_battle_id: battleId,
           p_winner_producer_id: winnerProducerId,
           p_criteria: selectedCriteria,
+          ...(ranking ? { p_ranking: ranking } : {}),
         } as never
       );
 
@@ -0,0 +1,53 @@
+import { Clock } from 'lucide-react';
+import { Card } from '../ui/Card';
+import { BattleAudioPlayer } from '../audio/BattleAudioPlayer';
+import { useTranslation } from '../../lib/i18n';
+import { formatDateTime } from '../../lib/utils/format';
+
+export interface BlindBattleSlot {
+  producerId: string;
+  label: string;
+  votes: number;
+  productId: string | null;
+  previewUrl: string | null;
+}
+
+interface BlindBattleSlotsProps {
+  /** Slots in the viewer's order, already labelled. */
+  slots: BlindBattleSlot[];
+  votingEndsAt: string | null;
+}
+
+export function BlindBattleSlots({ slots, votingEndsAt }: BlindBattleSlotsProps) {
+  const { t } = useTranslation();
+  const totalVotes = slots.reduce((sum, slot) => sum + slot.votes, 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {slots.map((slot) => (
+          <Card key={slot.producerId} className="bg-zinc-800/30 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <p className="font-semibold text-white">{slot.label}</p>
+              <p className="text-sm text-rose-400">{slot.votes} {t('battles.votes')}</p>
+            </div>
+            <BattleAudioPlayer
+              productId={slot.productId}
+              src={slot.previewUrl}
+              label={t('battleDetail.blindPreview', { label: slot.label })}
+            />
+          </Card>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-zinc-500">
+        <span>{t('battleDetail.totalVotes', { count: totalVotes })}</span>
+        {votingEndsAt && (
+          <span className="inline-flex items-center gap-1 text-xs text-zinc-400">
+            <Clock className="w-3 h-3" />
+            {formatDateTime(votingEndsAt)}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Trophy } from 'lucide-react';
+import { Card } from '../ui/Card';
+import { BattleAudioPlayer } from '../audio/BattleAudioPlayer';
+import { useTranslation } from '../../lib/i18n';
+import { getCypherPodium, rankCypherStandings } from '../../lib/battles/cypher';
+import type { BattleEntrant, BattleStatus } from '../../lib/supabase/types';
+
+export interface CypherPodiumEntrant extends BattleEntrant {
+  username: string | null;
+  avatarUrl: string | null;
+  productTitle: string | null;
+  productUrl: string | null;
+  previewUrl: string | null;
+}
+
+interface CypherPodiumProps {
+  entrants: CypherPodiumEntrant[];
+  status: BattleStatus;
+  /** Entrants are already masked behind neutral labels; product lines are left out. */
+  blind?: boolean;
+}
+
+// Podium steps are laid out 2-1-3, like a real podium.
+const PODIUM_STEPS = [
+  { rank: 2, height: 'h-20', tone: 'text-zinc-300 border-zinc-500' },
+  { rank: 1, height: 'h-28', tone: 'text-amber-300 border-amber-500' },
+  { rank: 3, height: 'h-14', tone: 'text-orange-300 border-orange-700' },
+] as const;
+
+export function CypherPodium({ entrants, status, blind = false }: CypherPodiumProps) {
+  const { t } = useTranslation();
+  // Finalized battles carry the server ranking; live ones are ranked from the running totals.
+  const standings = useMemo(() => {
+    if (status === 'completed' && entrants.every((entrant) => entrant.final_rank !== null)) {
+      return [...entrants]
+        .sort((left, right) => (left.final_rank ?? 0) - (right.final_rank ?? 0) || left.position - right.position)
+        .map((entrant) => ({ entrant, rank: entrant.final_rank ?? 0 }));
+    }
+    return rankCypherStandings(entrants);
+  }, [entrants, status]);
+  const podium = getCypherPodium(standings);
+  const hasVotes = entrants.some((entrant) => entrant.points > 0);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-zinc-500 text-xs uppercase mb-3">{t('battleDetail.cypherPodium')}</p>
+        {hasVotes ? (
+          <div className="grid grid-cols-3 items-end gap-2">
+            {PODIUM_STEPS.map((step) => {
+              const onStep = podium.filter((standing) => standing.rank === step.rank);
+              return (
+                <div key={step.rank} className="flex min-w-0 flex-col items-center gap-2">
+                  {onStep.map(({ entrant }) => (
+                    <div key={entrant.id} className="flex min-w-0 max-w-full flex-col items-center text-center">
+                      {entrant.avatarUrl ? (
+                        <img src={entrant.avatarUrl} alt="" className="h-10 w-10 rounded-full object-cover" />
+                      ) : (
+                        <div className="h-10 w-10 rounded-full bg-zinc-800" />
+                      )}
+                      <p className="mt-1 max-w-full truncate text-sm font-semibold text-white">
+                        {entrant.username || t('common.unknown')}
+                      </p>
+                      <p className="text-xs text-zinc-400">{t('battleDetail.cypherPoints', { count: entrant.points })}</p>
+                    </div>
+                  ))}
+                  <div className={`flex w-full ${step.height} items-start justify-center rounded-t-lg border-t-2 bg-zinc-800/60 pt-2 ${step.tone}`}>
+                    {step.rank === 1 ? <Trophy className="h-5 w-5" /> : <span className="text-lg font-bold">{step.rank}</span>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-zinc-500">{t('battleDetail.cypherNoVotes')}</p>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {standings.map(({ entrant, rank }) => (
+          <Card key={entrant.id} className="bg-zinc-800/30 space-y-2">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-semibold text-white truncate">
+                  {hasVotes && <span className="text-zinc-500 mr-2">#{rank}</span>}
+                  {entrant.username || t('common.unknown')}
+                </p>
+                {!blind && (entrant.productUrl ? (
+                  <Link to={entrant.productUrl} className="block truncate text-xs text-zinc-400 hover:text-white">
+                    {entrant.productTitle || t('battleDetail.productUnavailable')}
+                  </Link>
+                ) : (
+                  <p className="truncate text-xs text-zinc-500">{entrant.productTitle || t('battleDetail.productUnavailable')}</p>
+                ))}
+              </div>
+              <div className="shrink-0 text-right text-sm">
+                <p className="text-rose-400">{t('battleDetail.cypherPoints', { count: entrant.points })}</p>
+                <p className="text-xs text-zinc-500">{t('battleDetail.cypherFirstPlaceVotes', { count: entrant.first_place_votes })}</p>
+              </div>
+            </div>
+            <BattleAudioPlayer
+              productId={entrant.product_id}
+              src={entrant.previewUrl}
+              label={t('battleDetail.cypherPreview', { name: entrant.username || t('common.unknown') })}
+            />
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Gavel } from 'lucide-react';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+import { Select } from '../ui/Select';
+import { useAuth } from '../../lib/auth/hooks';
+import { useTranslation, type TranslateFn } from '../../lib/i18n';
+import { supabase } from '@/lib/supabase/client';
+import { BATTLE_CRITERION_KEYS } from '../../lib/battles/loserShare';
+import {
+  JUDGE_SCORE_MAX,
+  JUDGE_SCORE_MIN,
+  getScorecardScore,
+  type JudgeCriterionScores,
+} from '../../lib/battles/judging';
+import type { BattleJudgeScorecard } from '../../lib/supabase/types';
+
+export interface JudgeScorecardCompetitor {
+  producerId: string;
+  label: string;
+}
+
+interface JudgeScorecardProps {
+  battleId: string;
+  competitors: JudgeScorecardCompetitor[];
+}
+
+interface ScorecardDraft {
+  scores: JudgeCriterionScores;
+  comment: string;
+  saved: boolean;
+}
+
+const COMMENT_MAX_LENGTH = 2000;
+const EMPTY_DRAFT: ScorecardDraft = { scores: {}, comment: '', saved: false };
+
+const scoreOptions = Array.from({ length: JUDGE_SCORE_MAX - JUDGE_SCORE_MIN + 1 }, (_, index) => {
+  const value = String(JUDGE_SCORE_MIN + index);
+  return { value, label: value };
+});
+
+function toJudgeScorecardRpcError(message: string, t: TranslateFn) {
+  if (message.includes('judge_required')) return t('judging.errorNotJudge');
+  if (message.includes('battle_not_open_for_judging')) return t('judging.errorClosed');
+  if (message.includes('judge_scores_invalid')) return t('judging.errorIncomplete');
+  if (message.includes('judge_comment_too_long')) return t('judging.errorCommentTooLong');
+  return t('judging.errorGeneric');
+}
+
+const isComplete = (scores: JudgeCriterionScores) =>
+  BATTLE_CRITERION_KEYS.every((criterion) => typeof scores[criterion] === 'number');
+
+export function JudgeScorecard({ battleId, competitors }: JudgeScorecardProps) {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [isJudge, setIsJudge] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, ScorecardDraft>>({});
+  const [savingProducerId, setSavingProducerId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsJudge(false);
+    setDrafts({});
+
+    if (!user) return;
+
+    async function loadScorecards(userId: string) {
+      const { data: seat, error: seatError } = await supabase
+        .from('battle_judges')
+        .select('battle_id')
+        .eq('battle_id', battleId)
+        .eq('judge_id', userId)
+        .maybeSingle();
+
+      if (cancelled) return;
+      if (seatError) {
+        console.error('Error loading judge seat:', seatError);
+        return;
+      }
+      if (!seat) return;
+
+      // Keyed like the competitors: blind battles answer with the slot aliases.
+      const { data, error } = await supabase.rpc('get_my_battle_judge_scorecards', { p_battle_id: battleId });
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error loading judge scorecards:', error);
+      }
+
+      const next: Record<string, ScorecardDraft> = {};
+      for (const scorecard of (data ?? []) as BattleJudgeScorecard[]) {
+        next[scorecard.producer_id] = {
+          scores: scorecard.criterion_scores as JudgeCriterionScores,
+          comment: scorecard.comment ?? '',
+          saved: true,
+        };
+      }
+      setDrafts(next);
+      setIsJudge(true);
+    }
+
+    void loadScorecards(user.id);
+
+    return () => { cancelled = true; };
+  }, [user, battleId]);
+
+  if (!isJudge || competitors.length === 0) return null;
+
+  const getDraft = (producerId: string) => drafts[producerId] ?? EMPTY_DRAFT;
+
+  const updateDraft = (producerId: string, patch: Partial<ScorecardDraft>) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [producerId]: { ...(prev[producerId] ?? EMPTY_DRAFT), ...patch, saved: false },
+    }));
+  };
+
+  const saveScorecard = async (producerId: string) => {
+    const draft = getDraft(producerId);
+    setSavingProducerId(producerId);
+    const { error } = await supabase.rpc('submit_battle_judge_scorecard', {
+      p_battle_id: battleId,
+      p_producer_id: producerId,
+      p_scores: draft.scores,
+      p_comment: draft.comment,
+    });
+    setSavingProducerId(null);
+
+    if (error) {
+      console.error('Error saving judge scorecard:', error);
+      toast.error(toJudgeScorecardRpcError(error.message, t));
+      return;
+    }
+
+    setDrafts((prev) => ({ ...prev, [producerId]: { ...draft, saved: true } }));
+    toast.success(t('judging.saved'));
+  };
+
+  return (
+    <Card className="space-y-4">
+      <div className="space-y-1">
+        <h2 className="inline-flex items-center gap-2 text-lg font-semibold text-white">
+          <Gavel className="h-5 w-5 text-amber-400" />
+          {t('judging.scorecardTitle')}
+        </h2>
+        <p className="text-xs text-zinc-500">{t('judging.scorecardHint')}</p>
+      </div>
+
+      {competitors.map((competitor) => {
+        const draft = getDraft(competitor.producerId);
+        const average = getScorecardScore(draft.scores);
+
+        return (
+          <section key={competitor.producerId} className="space-y-3 border-t border-zinc-800 pt-4">
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <h3 className="font-medium text-zinc-100">{competitor.label}</h3>
+              <div className="flex items-center gap-2">
+                {average !== null && (
+                  <span className="text-xs text-zinc-400">
+                    {t('judging.average', { score: (average * JUDGE_SCORE_MAX).toFixed(1) })}
+                  </span>
+                )}
+                {draft.saved && <Badge variant="success">{t('judging.savedBadge')}</Badge>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {BATTLE_CRITERION_KEYS.map((criterion) => (
+                <Select
+                  key={criterion}
+                  label={t(`battles.feedbackCriteria.${criterion}`)}
+                  placeholder="-"
+                  value={draft.scores[criterion] !== undefined ? String(draft.scores[criterion]) : ''}
+                  onChange={(event) => updateDraft(competitor.producerId, {
+                    scores: { ...draft.scores, [criterion]: Number(event.target.value) },
+                  })}
+                  options={scoreOptions}
+                />
+              ))}
+            </div>
+
+            <textarea
+              value={draft.comment}
+              onChange={(event) => updateDraft(competitor.producerId, { comment: event.target.value })}
+              placeholder={t('judging.commentPlaceholder')}
+              maxLength={COMMENT_MAX_LENGTH}
+              className="w-full min-h-24 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-zinc-600"
+            />
+
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-xs text-zinc-500">{draft.comment.length}/{COMMENT_MAX_LENGTH}</span>
+              <Button
+                size="sm"
+                isLoading={savingProducerId === competitor.producerId}
+                disabled={!isComplete(draft.scores)}
+                onClick={() => void saveScorecard(competitor.producerId)}
+              >
+                {t('judging.save')}
+              </Button>
+            </div>
+          </section>
+        );
+      })}
+    </Card>
+  );
+}
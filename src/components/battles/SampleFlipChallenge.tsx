@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { Download } from 'lucide-react';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+import { Select } from '../ui/Select';
+import { useAuth } from '../../lib/auth/hooks';
+import { useTranslation, type TranslateFn } from '../../lib/i18n';
+import { supabase } from '@/lib/supabase/client';
+import { formatDateTime } from '../../lib/utils/format';
+import {
+  evaluateSampleFlip,
+  getSampleFlipReasons,
+  type SampleFlipAnalysis,
+  type SampleFlipReason,
+} from '../../lib/battles/sampleFlip';
+import type { CampaignFlipSubmission, SampleFlipSubmissionStatus } from '../../lib/supabase/types';
+
+export interface SampleFlipCampaign {
+  id: string;
+  status: string;
+  created_at: string;
+  submission_deadline: string;
+  source_pack_url: string | null;
+  flip_bpm_min: number | null;
+  flip_bpm_max: number | null;
+  flip_allowed_keys: string[] | null;
+}
+
+interface FlipBeatOption extends SampleFlipAnalysis {
+  id: string;
+  title: string;
+}
+
+interface SampleFlipChallengeProps {
+  campaign: SampleFlipCampaign;
+}
+
+const statusBadgeVariant: Record<SampleFlipSubmissionStatus, 'default' | 'success' | 'warning' | 'danger'> = {
+  pending_check: 'default',
+  passed: 'success',
+  needs_review: 'warning',
+  failed: 'danger',
+};
+
+function toSampleFlipRpcError(message: string, t: TranslateFn) {
+  if (message.includes('producer_active_required')) return t('sampleFlip.errorProducerRequired');
+  if (message.includes('campaign_not_open') || message.includes('campaign_submission_closed')) return t('sampleFlip.errorClosed');
+  if (message.includes('flip_product_predates_campaign')) return t('sampleFlip.errorBeatTooOld');
+  if (message.includes('invalid_flip_product')) return t('sampleFlip.errorInvalidBeat');
+  return t('sampleFlip.errorGeneric');
+}
+
+export function SampleFlipReasonList({ reasons }: { reasons: SampleFlipReason[] }) {
+  const { t } = useTranslation();
+  if (reasons.length === 0) return null;
+
+  return (
+    <ul className="list-disc list-inside text-xs text-zinc-400">
+      {reasons.map((reason) => (
+        <li key={reason}>{t(`sampleFlip.reason.${reason}`)}</li>
+      ))}
+    </ul>
+  );
+}
+
+export function SampleFlipChallenge({ campaign }: SampleFlipChallengeProps) {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [beats, setBeats] = useState<FlipBeatOption[]>([]);
+  const [submission, setSubmission] = useState<CampaignFlipSubmission | null>(null);
+  const [selectedBeatId, setSelectedBeatId] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const allowedKeys = campaign.flip_allowed_keys ?? [];
+  const hasBpmRange = campaign.flip_bpm_min !== null && campaign.flip_bpm_max !== null;
+  const isOpen = campaign.status === 'applications_open' && new Date(campaign.submission_deadline).getTime() > Date.now();
+
+  useEffect(() => {
+    let cancelled = false;
+    setBeats([]);
+    setSubmission(null);
+
+    if (!user) return;
+
+    async function loadProducerState(userId: string) {
+      const [beatsRes, submissionRes] = await Promise.all([
+        supabase
+          .from('products')
+          .select(`
+            id,
+            title,
+            audio_analyzed_at,
+            audio_analysis_error,
+            audio_quality_status,
+            detected_bpm,
+            detected_bpm_confidence,
+            detected_key_signature,
+            detected_key_confidence
+          `)
+          .eq('producer_id', userId)
+          .eq('product_type', 'beat')
+          .is('deleted_at', null)
+          .gte('created_at', campaign.created_at)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('campaign_flip_submissions')
+          .select('*')
+          .eq('campaign_id', campaign.id)
+          .eq('producer_id', userId)
+          .maybeSingle(),
+      ]);
+
+      if (cancelled) return;
+      if (beatsRes.error) {
+        console.error('Error loading sample flip beats:', beatsRes.error);
+      } else {
+        setBeats((beatsRes.data ?? []) as FlipBeatOption[]);
+      }
+      if (submissionRes.error) {
+        console.error('Error loading sample flip submission:', submissionRes.error);
+      } else {
+        const row = (submissionRes.data as CampaignFlipSubmission | null) ?? null;
+        setSubmission(row);
+        if (row) setSelectedBeatId(row.product_id);
+      }
+    }
+
+    void loadProducerState(user.id);
+
+    return () => { cancelled = true; };
+  }, [user, campaign.id, campaign.created_at]);
+
+  const submitFlip = async () => {
+    if (!selectedBeatId) return;
+    setIsSubmitting(true);
+    const { data, error } = await supabase.rpc('submit_sample_flip', {
+      p_campaign_id: campaign.id,
+      p_product_id: selectedBeatId,
+    });
+    setIsSubmitting(false);
+
+    if (error || !data) {
+      console.error('Error submitting sample flip:', error);
+      toast.error(toSampleFlipRpcError(error?.message ?? '', t));
+      return;
+    }
+
+    setSubmission(data as CampaignFlipSubmission);
+    toast.success(t('sampleFlip.submitted'));
+  };
+
+  const selectedBeat = beats.find((beat) => beat.id === selectedBeatId);
+  const preview = selectedBeat && selectedBeat.id !== submission?.product_id
+    ? evaluateSampleFlip(campaign, selectedBeat)
+    : null;
+
+  return (
+    <Card className="space-y-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <h2 className="text-lg font-semibold text-white">{t('sampleFlip.title')}</h2>
+        {campaign.source_pack_url && (
+          <a href={campaign.source_pack_url} target="_blank" rel="noopener noreferrer" download>
+            <Button size="sm" variant="outline" leftIcon={<Download className="w-4 h-4" />}>
+              {t('sampleFlip.downloadPack')}
+            </Button>
+          </a>
+        )}
+      </div>
+
+      <dl className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+        <div>
+          <dt className="text-zinc-500">{t('sampleFlip.bpmLabel')}</dt>
+          <dd className="text-zinc-200">
+            {hasBpmRange
+              ? t('sampleFlip.bpmRange', { min: campaign.flip_bpm_min ?? 0, max: campaign.flip_bpm_max ?? 0 })
+              : t('sampleFlip.anyBpm')}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-zinc-500">{t('sampleFlip.keysLabel')}</dt>
+          <dd className="text-zinc-200">{allowedKeys.length > 0 ? allowedKeys.join(', ') : t('sampleFlip.anyKey')}</dd>
+        </div>
+        <div>
+          <dt className="text-zinc-500">{t('sampleFlip.deadlineLabel')}</dt>
+          <dd className="text-zinc-200">{formatDateTime(campaign.submission_deadline)}</dd>
+        </div>
+      </dl>
+      <p className="text-xs text-zinc-500">{t('sampleFlip.rules')}</p>
+
+      {!user ? (
+        <p className="text-sm text-zinc-400">{t('sampleFlip.loginToSubmit')}</p>
+      ) : (
+        <div className="space-y-3 border-t border-zinc-800 pt-4">
+          {submission && (
+            <div className="space-y-1">
+              <div className="flex items-center gap-2 text-sm text-zinc-300">
+                <span>{t('sampleFlip.yourSubmission')}</span>
+                <Badge variant={statusBadgeVariant[submission.status]}>{t(`sampleFlip.status.${submission.status}`)}</Badge>
+              </div>
+              <SampleFlipReasonList reasons={getSampleFlipReasons(submission.check_report)} />
+            </div>
+          )}
+
+          {isOpen && (
+            beats.length === 0 ? (
+              <p className="text-sm text-zinc-400">
+                {t('sampleFlip.noEligibleBeats')}{' '}
+                <Link to="/producer/upload" className="text-sky-300 hover:text-sky-200">{t('sampleFlip.uploadLink')}</Link>
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3 items-end">
+                <Select
+                  label={t('sampleFlip.beatLabel')}
+                  placeholder={t('sampleFlip.beatPlaceholder')}
+                  value={selectedBeatId}
+                  onChange={(event) => setSelectedBeatId(event.target.value)}
+                  options={beats.map((beat) => ({ value: beat.id, label: beat.title }))}
+                />
+                <Button onClick={() => void submitFlip()} isLoading={isSubmitting} disabled={!selectedBeatId}>
+                  {submission ? t('sampleFlip.replace') : t('sampleFlip.submit')}
+                </Button>
+              </div>
+            )
+          )}
+
+          {preview && (
+            <div className="space-y-1 text-xs">
+              <p className="text-zinc-400">{t(`sampleFlip.preview.${preview.status}`)}</p>
+              <SampleFlipReasonList reasons={preview.reasons} />
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
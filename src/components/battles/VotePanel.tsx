@@ -1,25 +1,41 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { CheckCircle2 } from 'lucide-react';
+import { CheckCircle2, RotateCcw } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Card } from '../ui/Card';
 import { BattleVoteFeedbackModal } from './BattleVoteFeedbackModal';
 import { useAuth, useIsEmailVerified } from '../../lib/auth/hooks';
 import { useTranslation } from '../../lib/i18n';
 import { supabase } from '@/lib/supabase/client';
+import { CYPHER_BALLOT_SIZE, CYPHER_MIN_ENTRANTS, toggleCypherBallotChoice } from '../../lib/battles/cypher';
 import type { BattleWithRelations } from '../../lib/supabase/types';
 
+interface VotePanelCypherEntrant {
+  producer_id: string;
+  username: string | null;
+}
+
+interface VotePanelBlindChoice {
+  producer_id: string;
+  label: string;
+}
+
 interface VotePanelProps {
   battle: Pick<BattleWithRelations, 'id' | 'status' | 'producer1_id' | 'producer2_id'> & {
+    battle_format?: BattleWithRelations['battle_format'];
     producer1?: { username: string | null };
     producer2?: { username: string | null };
   };
+  /** Entrants of a cypher battle, in entry order. Ignored for duels. */
+  cypherEntrants?: VotePanelCypherEntrant[];
+  /** Neutral duel choices of a blind battle, in the viewer's order. Replaces the producer names. */
+  blindChoices?: VotePanelBlindChoice[];
   onVoteSuccess?: (votedForProducerId: string) => Promise<void> | void;
 }
 
 const isVotingOpen = (status: BattleWithRelations['status']) => status === 'active';
 
-export function VotePanel({ battle, onVoteSuccess }: VotePanelProps) {
+export function VotePanel({ battle, cypherEntrants = [], blindChoices, onVoteSuccess }: VotePanelProps) {
   const { t } = useTranslation();
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -29,15 +45,22 @@ export function VotePanel({ battle, onVoteSuccess }: VotePanelProps) {
   const [userVote, setUserVote] = useState<string | null>(null);
   const [selectedProducerId, setSelectedProducerId] = useState<string | null>(null);
   const [isFeedbackModalOpen, setIsFeedbackModalOpen] = useState(false);
+  const [ballot, setBallot] = useState<string[]>([]);
+  const isCypher = battle.battle_format === 'cypher';
 
   const voteDisabledReason = useMemo(() => {
     if (!user) return t('battles.voteLoginRequired');
     if (!isEmailVerified) return t('battles.voteVerifyEmailRequired');
     if (!isVotingOpen(battle.status)) return t('battles.votingClosed');
+    if (isCypher) {
+      if (cypherEntrants.length < CYPHER_MIN_ENTRANTS) return t('battles.voteBattleNotReady');
+      if (cypherEntrants.some((entrant) => entrant.producer_id === user.id)) return t('battles.participantsCannotVote');
+      return null;
+    }
     if (!battle.producer1_id || !battle.producer2_id) return t('battles.voteBattleNotReady');
     if (user.id === battle.producer1_id || user.id === battle.producer2_id) return t('battles.participantsCannotVote');
     return null;
-  }, [battle.producer1_id, battle.producer2_id, battle.status, isEmailVerified, t, user]);
+  }, [battle.producer1_id, battle.producer2_id, battle.status, cypherEntrants, isCypher, isEmailVerified, t, user]);
 
   useEffect(() => {
     let isCancelled = false;
@@ -51,19 +74,15 @@ export function VotePanel({ battle, onVoteSuccess }: VotePanelProps) {
       }
 
       setIsLoadingVote(true);
-      const { data, error: fetchError } = await supabase
-        .from('battle_votes')
-        .select('voted_for_producer_id')
-        .eq('battle_id', battle.id)
-        .eq('user_id', user.id)
-        .maybeSingle();
+      // Masked like the battle page: blind battles answer with the slot alias.
+      const { data, error: fetchError } = await supabase.rpc('get_my_battle_vote', { p_battle_id: battle.id });
 
       if (!isCancelled) {
         if (fetchError) {
           console.error('Error fetching current user vote:', fetchError);
           setUserVote(null);
         } else {
-          setUserVote(data?.voted_for_producer_id || null);
+          setUserVote(data || null);
         }
         setIsLoadingVote(false);
       }
@@ -89,6 +108,7 @@ export function VotePanel({ battle, onVoteSuccess }: VotePanelProps) {
 
   const handleVoteWithFeedbackSuccess = async (winnerProducerId: string) => {
     setUserVote(winnerProducerId);
+    setBallot([]);
     try {
       await onVoteSuccess?.(winnerProducerId);
     } catch (refreshError) {
@@ -124,14 +144,72 @@ export function VotePanel({ battle, onVoteSuccess }: VotePanelProps) {
           <CheckCircle2 className="w-4 h-4" />
           <span>
             {t('battles.alreadyVoted')} -{' '}
-            {userVote === battle.producer1_id
-              ? (battle.producer1?.username || t('battleDetail.producer1Fallback'))
-              : (battle.producer2?.username || t('battleDetail.producer2Fallback'))}
+            {isCypher
+              ? (cypherEntrants.find((entrant) => entrant.producer_id === userVote)?.username || t('common.unknown'))
+              : blindChoices
+                ? (blindChoices.find((choice) => choice.producer_id === userVote)?.label || t('common.unknown'))
+                : userVote === battle.producer1_id
+                  ? (battle.producer1?.username || t('battleDetail.producer1Fallback'))
+                  : (battle.producer2?.username || t('battleDetail.producer2Fallback'))}
           </span>
         </div>
       )}
 
-      {!voteDisabledReason && !isLoadingVote && !userVote && (
+      {!voteDisabledReason && !isLoadingVote && !userVote && isCypher && (
+        <div className="space-y-3">
+          <p className="text-sm text-zinc-400">{t('battles.cypherBallotHint', { count: CYPHER_BALLOT_SIZE })}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {cypherEntrants.map((entrant) => {
+              const rank = ballot.indexOf(entrant.producer_id) + 1;
+              return (
+                <Button
+                  key={entrant.producer_id}
+                  variant={rank > 0 ? 'primary' : 'outline'}
+                  disabled={isFeedbackModalOpen || (rank === 0 && ballot.length >= CYPHER_BALLOT_SIZE)}
+                  onClick={() => setBallot((current) => toggleCypherBallotChoice(current, entrant.producer_id))}
+                  className="justify-between"
+                >
+                  <span className="truncate">{entrant.username || t('common.unknown')}</span>
+                  {rank > 0 && <span className="ml-2 text-xs">{t('battles.cypherBallotRank', { rank })}</span>}
+                </Button>
+              );
+            })}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              disabled={isFeedbackModalOpen || ballot.length !== CYPHER_BALLOT_SIZE}
+              onClick={() => openFeedbackModal(ballot[0])}
+            >
+              {t('battles.cypherSubmitBallot')}
+            </Button>
+            <Button
+              variant="ghost"
+              disabled={isFeedbackModalOpen || ballot.length === 0}
+              onClick={() => setBallot([])}
+              leftIcon={<RotateCcw className="w-4 h-4" />}
+            >
+              {t('battles.cypherResetBallot')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!voteDisabledReason && !isLoadingVote && !userVote && !isCypher && blindChoices && (
+        <div className="flex flex-col sm:flex-row gap-3">
+          {blindChoices.map((choice) => (
+            <Button
+              key={choice.producer_id}
+              variant="outline"
+              disabled={isFeedbackModalOpen}
+              onClick={() => openFeedbackModal(choice.producer_id)}
+            >
+              {t('battles.voteFor', { name: choice.label })}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {!voteDisabledReason && !isLoadingVote && !userVote && !isCypher && !blindChoices && (
         <div className="flex flex-col sm:flex-row gap-3">
           <Button
             variant="outline"
@@ -158,6 +236,7 @@ export function VotePanel({ battle, onVoteSuccess }: VotePanelProps) {
         isOpen={isFeedbackModalOpen}
         battleId={battle.id}
         winnerProducerId={selectedProducerId}
+        ranking={isCypher ? ballot : null}
         onSubmitSuccess={(winnerProducerId) => void handleVoteWithFeedbackSuccess(winnerProducerId)}
         onClose={closeFeedbackModal}
       />
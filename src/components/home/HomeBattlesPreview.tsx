@@ -8,6 +8,7 @@ import { Card } from '../ui/Card';
 import { useTranslation } from '../../lib/i18n';
 import { supabase } from '@/lib/supabase/client';
 import { fetchPublicProducerProfilesMap } from '../../lib/supabase/publicProfiles';
+import { isBlindVotingActive } from '../../lib/battles/blind';
 import type { BattleStatus } from '../../lib/supabase/types';
 
 interface HomeBattleRow {
@@ -17,6 +18,7 @@ interface HomeBattleRow {
   status: BattleStatus;
   producer1_id: string;
   producer2_id: string | null;
+  blind_voting?: boolean;
   producer1?: { id: string; username: string | null };
   producer2?: { id: string; username: string | null };
 }
@@ -100,7 +102,8 @@ export function HomeBattlesPreview() {
             slug,
             status,
             producer1_id,
-            producer2_id
+            producer2_id,
+            blind_voting
           `)
           .in('status', visibleStatuses)
           .order('created_at', { ascending: false })
@@ -144,6 +147,8 @@ export function HomeBattlesPreview() {
             rows.flatMap((row) => [row.producer1_id, row.producer2_id])
           );
           previewBattles = rows.map((row) => {
+            // Same masking as the preview RPC: no names while the battle is still blind.
+            if (isBlindVotingActive(row)) return row;
             const producer1 = producerProfilesMap.get(row.producer1_id);
             const producer2 = row.producer2_id ? producerProfilesMap.get(row.producer2_id) : undefined;
             return {
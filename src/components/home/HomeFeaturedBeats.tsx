@@ -13,7 +13,8 @@ import { supabase } from '@/lib/supabase/client';
 import { trackAddToCart } from '../../lib/analytics';
 import { useCartStore } from '../../lib/stores/cart';
 import { trackInteraction } from '../../lib/tracking';
-import { formatNumber, formatPrice } from '../../lib/utils/format';
+import { useDisplayCurrency } from '../../lib/stores/currency';
+import { formatNumber } from '../../lib/utils/format';
 
 interface HomeBeatRow {
   id: string;
@@ -59,6 +60,7 @@ function normalizePreviewUrl(previewUrl: string | null | undefined) {
 
 export function HomeFeaturedBeats() {
   const { t } = useTranslation();
+  const { formatCatalogPrice } = useDisplayCurrency();
   const { user, isAuthenticated } = useAuth();
   const { isActive: hasPremiumAccess } = useUserSubscriptionStatus(user?.id);
   const navigate = useNavigate();
@@ -370,7 +372,7 @@ export function HomeFeaturedBeats() {
                   <div className="flex w-full items-center justify-between gap-3 sm:w-auto sm:shrink-0 sm:justify-end">
                     <div className="shrink-0 text-left sm:text-right">
                       <span className="whitespace-nowrap text-sm font-semibold text-rose-400">
-                        {formatPrice(beat.price)}
+                        {formatCatalogPrice(beat.price)}
                       </span>
                     </div>
                     {!beat.is_sold && (
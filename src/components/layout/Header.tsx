@@ -25,6 +25,7 @@ import { formatRankTier } from '../reputation/ReputationBadge';
 import { useAuth } from '../../lib/auth/hooks';
 import { useMyReputation } from '../../lib/reputation/hooks';
 import { useTranslation, languageNames } from '../../lib/i18n';
+import { useDisplayCurrency } from '../../lib/stores/currency';
 import { useUserSubscriptionStatus } from '../../lib/subscriptions/useUserSubscriptionStatus';
 import { useCartStore } from '../../lib/stores/cart';
 import { BRAND } from '../../config/branding';
@@ -35,6 +36,7 @@ import { useMaintenanceModeContext } from '../../lib/supabase/MaintenanceModeCon
 
 export function Header() {
   const { t, language, updateLanguage, languages } = useTranslation();
+  const { currency, currencies, setCurrency } = useDisplayCurrency();
   const { user, profile, signOut } = useAuth();
   const { reputation } = useMyReputation();
   const { isActive: hasActiveUserSubscription } = useUserSubscriptionStatus(user?.id);
@@ -279,6 +281,25 @@ export function Header() {
                       {languageNames[lang]}
                     </button>
                   ))}
+                  {currencies.length > 1 && (
+                    <div className="border-t border-zinc-800">
+                      <p className="px-4 pt-2 pb-1 text-xs uppercase tracking-wide text-zinc-500">{t('nav.currency')}</p>
+                      {currencies.map((code) => (
+                        <button
+                          key={code}
+                          onClick={() => {
+                            setCurrency(code);
+                            closeAllMenus();
+                          }}
+                          className={`w-full px-4 py-2 text-left text-sm hover:bg-zinc-800 transition-colors ${
+                            currency === code ? 'text-rose-400' : 'text-zinc-300'
+                          }`}
+                        >
+                          {code}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
             </div>
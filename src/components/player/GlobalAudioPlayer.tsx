@@ -1,6 +1,9 @@
 import { useEffect, useState } from 'react';
 import { Pause, Play, RotateCcw, SkipBack, SkipForward } from 'lucide-react';
 import { useAudioPlayer } from '../../context/AudioPlayerContext';
+import { useWaveformPeaks } from '../../lib/audio/waveform';
+import { useTranslation } from '../../lib/i18n';
+import { Waveform } from '../audio/Waveform';
 
 function formatTime(time: number) {
   const minutes = Math.floor(time / 60);
@@ -22,6 +25,8 @@ export function GlobalAudioPlayer() {
     playPrevious,
     seekTo,
   } = useAudioPlayer();
+  const { t } = useTranslation();
+  const peaks = useWaveformPeaks(currentTrack);
   const [isChangingTrack, setIsChangingTrack] = useState(false);
   const isFinished = progress >= 100 && !isPlaying;
 
@@ -47,24 +52,38 @@ export function GlobalAudioPlayer() {
         isChangingTrack ? 'scale-[0.98] opacity-70' : 'scale-100 opacity-100'
       } ${isFinished ? 'border-rose-500/30 opacity-80' : ''}`}
     >
-      <div
-        className={`h-1 w-full bg-zinc-800 transition-all hover:h-1.5 ${
-          isFinished ? 'cursor-default' : 'cursor-pointer'
-        }`}
-        onClick={(e) => {
-          if (!duration || isFinished) return;
-          const rect = e.currentTarget.getBoundingClientRect();
-          let percent = (e.clientX - rect.left) / rect.width;
-          percent = Math.max(0, Math.min(percent, 1));
-          const newTime = percent * duration;
-          seekTo(newTime);
-        }}
-      >
+      {peaks ? (
+        <div className="px-4 pt-2">
+          <Waveform
+            peaks={peaks}
+            progress={progress / 100}
+            bars={160}
+            className="h-8"
+            disabled={!duration || isFinished}
+            ariaLabel={t('audio.seekWaveform')}
+            onSeek={(ratio) => seekTo(ratio * duration)}
+          />
+        </div>
+      ) : (
         <div
-          className="h-full bg-rose-500 transition-all duration-150"
-          style={{ width: `${progress}%` }}
-        />
-      </div>
+          className={`h-1 w-full bg-zinc-800 transition-all hover:h-1.5 ${
+            isFinished ? 'cursor-default' : 'cursor-pointer'
+          }`}
+          onClick={(e) => {
+            if (!duration || isFinished) return;
+            const rect = e.currentTarget.getBoundingClientRect();
+            let percent = (e.clientX - rect.left) / rect.width;
+            percent = Math.max(0, Math.min(percent, 1));
+            const newTime = percent * duration;
+            seekTo(newTime);
+          }}
+        >
+          <div
+            className="h-full bg-rose-500 transition-all duration-150"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+      )}
 
       <div className="flex items-center justify-between gap-4 px-4 py-3">
         <div className="min-w-0 flex-1">
@@ -3,7 +3,7 @@ import { Link } from 'react-router-dom';
 import { Music2 } from 'lucide-react';
 import { useAudioPlayer, type Track } from '../../context/AudioPlayerContext';
 import { hasPlayableTrackSource, toTrack } from '../../lib/audio/track';
-import { formatPrice } from '../../lib/utils/format';
+import { useDisplayCurrency } from '../../lib/stores/currency';
 
 export type PublishedBeatListItem = {
   id: string;
@@ -22,6 +22,7 @@ export type PublishedBeatListItem = {
 
 export function PublishedBeatsList({ beats }: { beats: PublishedBeatListItem[] }) {
   const { playQueue, currentTrack, isPlaying } = useAudioPlayer();
+  const { formatCatalogPrice } = useDisplayCurrency();
   const queue = useMemo<Track[]>(
     () =>
       beats
@@ -125,7 +126,7 @@ export function PublishedBeatsList({ beats }: { beats: PublishedBeatListItem[] }
               </div>
 
               <div className="shrink-0 text-sm font-semibold text-rose-400">
-                {formatPrice(beat.price || 0)}
+                {formatCatalogPrice(beat.price || 0)}
               </div>
             </div>
           </Link>
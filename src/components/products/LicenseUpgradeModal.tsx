@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useTranslation } from '../../lib/i18n';
+import { supabase } from '../../lib/supabase/client';
+import { invokeProtectedEdgeFunction } from '../../lib/supabase/edgeAuth';
+import type { Product, Purchase } from '../../lib/supabase/types';
+import { attachLicensesToProducts, fetchProductLicensesMap } from '../../lib/pricing';
+import {
+  buildLicenseUpgradeOptions,
+  getUpgradeCredit,
+  type LicenseUpgradeOption,
+} from '../../lib/products/licenseUpgrades';
+import { formatPrice } from '../../lib/utils/format';
+import { useDisplayCurrency } from '../../lib/stores/currency';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+
+interface LicenseUpgradeModalProps {
+  purchase: (Purchase & { product: Pick<Product, 'id' | 'title' | 'parent_product_id' | 'original_beat_id'> | null }) | null;
+  onClose: () => void;
+}
+
+export function LicenseUpgradeModal({ purchase, onClose }: LicenseUpgradeModalProps) {
+  const { t } = useTranslation();
+  const { currency, formatCatalogPrice } = useDisplayCurrency();
+  const [options, setOptions] = useState<LicenseUpgradeOption[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState(false);
+  const [checkoutKey, setCheckoutKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!purchase?.product) return;
+
+    let isCancelled = false;
+    const product = purchase.product;
+    const rootId = product.parent_product_id ?? product.original_beat_id ?? product.id;
+
+    const loadOptions = async () => {
+      setIsLoading(true);
+      setLoadError(false);
+      setOptions([]);
+
+      try {
+        const { data, error } = await supabase
+          .from('products')
+          .select('id, price')
+          .or(`id.eq.${rootId},parent_product_id.eq.${rootId},original_beat_id.eq.${rootId}`)
+          .eq('is_exclusive', true)
+          .eq('is_published', true)
+          .eq('is_sold', false)
+          .eq('status', 'active')
+          .is('deleted_at', null);
+
+        if (error) throw error;
+
+        const exclusives = (data as Array<{ id: string; price: number }> | null) ?? [];
+        const licensesMap = await fetchProductLicensesMap([product.id, ...exclusives.map((row) => row.id)]);
+        if (isCancelled) return;
+
+        setOptions(
+          buildLicenseUpgradeOptions(
+            purchase,
+            licensesMap.get(product.id) ?? [],
+            attachLicensesToProducts(exclusives, licensesMap),
+          )
+        );
+      } catch (error) {
+        console.error('[license-upgrade] failed to load upgrade options', error);
+        if (!isCancelled) setLoadError(true);
+      } finally {
+        if (!isCancelled) setIsLoading(false);
+      }
+    };
+
+    void loadOptions();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [purchase]);
+
+  const handleCheckout = async (option: LicenseUpgradeOption) => {
+    if (!purchase || checkoutKey) return;
+
+    setCheckoutKey(`${option.productId}:${option.licenseId ?? ''}`);
+    try {
+      const data = await invokeProtectedEdgeFunction<{ url?: string }>('create-checkout', {
+        body: {
+          productId: option.productId,
+          licenseId: option.licenseId ?? undefined,
+          upgradeFromPurchaseId: purchase.id,
+          currency,
+          successUrl: `${window.location.origin}/dashboard?status=success&session_id={CHECKOUT_SESSION_ID}`,
+          cancelUrl: `${window.location.origin}/dashboard#purchases`,
+        },
+      });
+
+      if (!data?.url) throw new Error('Missing checkout url');
+      window.location.href = data.url;
+    } catch (error) {
+      console.error('[license-upgrade] checkout failed', error);
+      toast.error(t('dashboard.upgradeError'));
+      setCheckoutKey(null);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={purchase !== null}
+      onClose={onClose}
+      title={t('dashboard.upgradeModalTitle', { title: purchase?.product?.title ?? t('dashboard.titleUnavailable') })}
+      description={purchase ? t('dashboard.upgradeModalDescription', { paid: formatPrice(getUpgradeCredit(purchase)) }) : undefined}
+      size="lg"
+    >
+      {isLoading && <p className="text-sm text-zinc-500">{t('dashboard.upgradeLoading')}</p>}
+      {!isLoading && loadError && <p className="text-sm text-rose-300">{t('dashboard.upgradeLoadError')}</p>}
+      {!isLoading && !loadError && options.length === 0 && (
+        <p className="text-sm text-zinc-500">{t('dashboard.upgradeNone')}</p>
+      )}
+
+      {options.length > 0 && (
+        <ul className="space-y-2">
+          {options.map((option) => {
+            const key = `${option.productId}:${option.licenseId ?? ''}`;
+            return (
+              <li
+                key={key}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-zinc-800 bg-zinc-950/60 px-4 py-3"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-white">
+                    {option.licenseName ?? t('dashboard.exclusiveType')}
+                    {option.isExclusive && (
+                      <span className="ml-2 rounded-full bg-amber-500/15 px-2 py-0.5 text-xs text-amber-300">
+                        {t('dashboard.upgradeExclusiveLabel')}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-zinc-500">
+                    {t('dashboard.upgradeFullPrice', { price: formatCatalogPrice(option.price) })}
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={() => void handleCheckout(option)}
+                  isLoading={checkoutKey === key}
+                  disabled={checkoutKey !== null}
+                >
+                  {t('dashboard.upgradeAmountDue', { amount: formatCatalogPrice(option.amountDue) })}
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Modal>
+  );
+}
@@ -4,8 +4,10 @@ import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { Play, Pause, Heart, ShoppingCart, Star, Lock } from 'lucide-react';
 import { Badge } from '../ui/Badge';
 import { Button } from '../ui/Button';
+import { Waveform } from '../audio/Waveform';
 import { useAudioPlayer, type Track } from '../../context/AudioPlayerContext';
 import { hasPlayableTrackSource, toTrack } from '../../lib/audio/track';
+import { useWaveformPeaks } from '../../lib/audio/waveform';
 import type { ProductWithRelations } from '../../lib/supabase/types';
 import { trackAddToCart, trackBeatLike } from '../../lib/analytics';
 import { useCartStore } from '../../lib/stores/cart';
@@ -14,7 +16,7 @@ import { useTranslation } from '../../lib/i18n';
 import { getLocalizedField } from '../../lib/i18n/localized';
 import { isEarlyAccessActive, isEarlyAccessLocked } from '../../lib/products/earlyAccess';
 import { trackInteraction } from '../../lib/tracking';
-import { formatPrice } from '../../lib/utils/format';
+import { useDisplayCurrency } from '../../lib/stores/currency';
 
 interface ProductCardProps {
   product: ProductWithRelations;
@@ -34,11 +36,12 @@ export function ProductCard({
   isUserPremium = false,
 }: ProductCardProps) {
   const { t, language } = useTranslation();
+  const { formatCatalogPrice } = useDisplayCurrency();
   const { isAuthenticated } = useAuth();
   const permissions = usePermissions();
   const navigate = useNavigate();
   const location = useLocation();
-  const { currentTrack, isPlaying, playQueue, playTrack } = useAudioPlayer();
+  const { currentTrack, isPlaying, currentTime, duration, playQueue, playTrack, seekTo } = useAudioPlayer();
   const { addToCart } = useCartStore();
   const [isHovered, setIsHovered] = useState(false);
   const [isAddingToCart, setIsAddingToCart] = useState(false);
@@ -48,6 +51,7 @@ export function ProductCard({
     exclusive_preview_url: product.exclusive_preview_url,
     watermarked_bucket: product.watermarked_bucket,
   });
+  const peaks = useWaveformPeaks(hasPreview ? product : null);
   const isEarlyAccess = isEarlyAccessActive(product.early_access_until);
   const isEarlyAccessPurchaseLocked = isEarlyAccessLocked(product.early_access_until, hasPremiumAccess);
 
@@ -76,6 +80,9 @@ export function ProductCard({
       watermarked_path: product.watermarked_path,
       exclusive_preview_url: product.exclusive_preview_url,
       watermarked_bucket: product.watermarked_bucket,
+      waveform_path: product.waveform_path,
+      waveform_version: product.waveform_version,
+      preview_renditions_version: product.preview_renditions_version,
     });
     if (track) {
       playTrack(track);
@@ -284,6 +291,18 @@ export function ProductCard({
             {product.key_signature && <span className="text-zinc-600">{product.key_signature}</span>}
           </div>
 
+          {peaks && (
+            <Waveform
+              peaks={peaks}
+              progress={isCurrentTrack && duration > 0 ? currentTime / duration : 0}
+              bars={60}
+              className="mb-3 h-6"
+              disabled={!isCurrentTrack || duration <= 0}
+              ariaLabel={t('audio.seekWaveform')}
+              onSeek={(ratio) => seekTo(ratio * duration)}
+            />
+          )}
+
           {!hasPreview && (
             <p className="mb-3 text-xs text-zinc-500">{t('products.previewUnavailable')}</p>
           )}
@@ -304,7 +323,7 @@ export function ProductCard({
 
           <div className="flex flex-col gap-3 min-[420px]:flex-row min-[420px]:items-center min-[420px]:justify-between">
             <span className="text-lg font-bold bg-gradient-to-r from-white to-zinc-300 bg-clip-text text-transparent">
-              {formatPrice(product.price)}
+              {formatCatalogPrice(product.price)}
             </span>
             {!product.is_sold && (
               <Button
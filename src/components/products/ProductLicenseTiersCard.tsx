@@ -0,0 +1,210 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { BadgeEuro } from 'lucide-react';
+import { useTranslation } from '../../lib/i18n';
+import { supabase } from '../../lib/supabase/client';
+import type { License } from '../../lib/supabase/types';
+import { formatPrice } from '../../lib/utils/format';
+import {
+  MAX_LICENSE_TIERS_PER_PRODUCT,
+  canOfferLicenseTier,
+  parsePriceCents,
+} from '../../lib/products/licenseTiers';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+
+interface ProductLicenseTiersCardProps {
+  product: { id: string; producer_id: string; is_exclusive: boolean };
+  disabled?: boolean;
+}
+
+interface SelectedTier {
+  licenseId: string;
+  price: string;
+}
+
+type ProducerOfferRow = {
+  license_id: string;
+  price: number;
+  sort_order: number;
+};
+
+const LICENSE_COLUMNS =
+  'id, name, description, max_streams, max_sales, youtube_monetization, music_video_allowed, credit_required, exclusive_allowed, stems_included, price, producer_id, archived_at, created_at, updated_at';
+
+export function ProductLicenseTiersCard({ product, disabled = false }: ProductLicenseTiersCardProps) {
+  const { t } = useTranslation();
+  const [licenses, setLicenses] = useState<License[]>([]);
+  const [selectedTiers, setSelectedTiers] = useState<SelectedTier[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { id: productId, producer_id: producerId, is_exclusive: isExclusive } = product;
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadTiers = async () => {
+      setIsLoading(true);
+      const [licensesResult, offersResult] = await Promise.all([
+        supabase
+          .from('licenses')
+          .select(LICENSE_COLUMNS)
+          .or(`producer_id.is.null,producer_id.eq.${producerId}`)
+          .is('archived_at', null)
+          .order('price', { ascending: true, nullsFirst: false }),
+        supabase
+          .from('product_licenses')
+          .select('license_id, price, sort_order')
+          .eq('product_id', productId)
+          .eq('source', 'producer')
+          .eq('is_active', true)
+          .order('sort_order', { ascending: true }),
+      ]);
+
+      if (isCancelled) return;
+
+      if (licensesResult.error || offersResult.error) {
+        console.error('[license-tiers] failed to load product tiers', licensesResult.error ?? offersResult.error);
+        toast.error(t('uploadBeat.licenseTiersLoadError'));
+      } else {
+        const offerable = ((licensesResult.data as License[] | null) ?? [])
+          .filter((license) => canOfferLicenseTier(license, { producer_id: producerId, is_exclusive: isExclusive }));
+        setLicenses(offerable);
+        setSelectedTiers(
+          ((offersResult.data as ProducerOfferRow[] | null) ?? []).map((offer) => ({
+            licenseId: offer.license_id,
+            price: (offer.price / 100).toString(),
+          }))
+        );
+      }
+      setIsLoading(false);
+    };
+
+    void loadTiers();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isExclusive, producerId, productId, t]);
+
+  const selectedById = useMemo(
+    () => new Map(selectedTiers.map((tier) => [tier.licenseId, tier])),
+    [selectedTiers]
+  );
+
+  const toggleTier = (license: License) => {
+    setSelectedTiers((prev) => {
+      if (prev.some((tier) => tier.licenseId === license.id)) {
+        return prev.filter((tier) => tier.licenseId !== license.id);
+      }
+      if (prev.length >= MAX_LICENSE_TIERS_PER_PRODUCT) {
+        toast.error(t('uploadBeat.licenseTiersTooMany', { count: MAX_LICENSE_TIERS_PER_PRODUCT }));
+        return prev;
+      }
+      return [...prev, { licenseId: license.id, price: license.price ? (license.price / 100).toString() : '' }];
+    });
+  };
+
+  const updatePrice = (licenseId: string, price: string) => {
+    setSelectedTiers((prev) => prev.map((tier) => (tier.licenseId === licenseId ? { ...tier, price } : tier)));
+  };
+
+  const handleSave = async () => {
+    if (isSaving) return;
+
+    const tiers: Array<{ license_id: string; price: number }> = [];
+    for (const tier of selectedTiers) {
+      const priceCents = parsePriceCents(tier.price);
+      if (priceCents === null) {
+        toast.error(t('uploadBeat.licenseTiersPriceError'));
+        return;
+      }
+      tiers.push({ license_id: tier.licenseId, price: priceCents });
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.rpc('rpc_set_product_license_tiers', {
+        p_product_id: productId,
+        p_tiers: tiers,
+      });
+      if (error) throw error;
+      toast.success(t('uploadBeat.licenseTiersSaved'));
+    } catch (error) {
+      console.error('[license-tiers] product tiers save failed', error);
+      toast.error(t('uploadBeat.licenseTiersSaveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDisabled = disabled || isLoading || isSaving;
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-start gap-3">
+        <div className="mt-0.5 rounded-xl p-2 bg-rose-500/15 text-rose-300">
+          <BadgeEuro className="w-5 h-5" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-white">{t('uploadBeat.licenseTiersTitle')}</h2>
+          <p className="mt-1 text-sm text-zinc-400">{t('uploadBeat.licenseTiersDescription')}</p>
+          <Link to="/settings" className="mt-1 inline-block text-sm text-rose-400 hover:text-rose-300">
+            {t('uploadBeat.licenseTiersManage')}
+          </Link>
+        </div>
+      </div>
+
+      {!isLoading && licenses.length === 0 && (
+        <p className="text-sm text-zinc-500">{t('uploadBeat.licenseTiersNone')}</p>
+      )}
+
+      {licenses.length > 0 && (
+        <ul className="space-y-2">
+          {licenses.map((license) => {
+            const selected = selectedById.get(license.id);
+            return (
+              <li
+                key={license.id}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-zinc-800 bg-zinc-950/60 px-4 py-3"
+              >
+                <label className="flex min-w-0 items-center gap-3 text-sm text-zinc-200">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(selected)}
+                    onChange={() => toggleTier(license)}
+                    disabled={isDisabled}
+                    className="h-4 w-4 rounded border-zinc-700 bg-zinc-900 text-rose-500 focus:ring-rose-500/50"
+                  />
+                  <span className="truncate">
+                    {license.name}
+                    <span className="ml-2 text-xs text-zinc-500">
+                      {license.producer_id ? formatPrice(license.price) : t('uploadBeat.licenseTiersPlatform')}
+                    </span>
+                  </span>
+                </label>
+                {selected && (
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={selected.price}
+                    onChange={(event) => updatePrice(license.id, event.target.value)}
+                    disabled={isDisabled}
+                    aria-label={t('uploadBeat.licenseTiersPriceLabel', { name: license.name })}
+                    className="w-28 rounded-lg border border-zinc-700 bg-zinc-900 px-3 py-1.5 text-sm text-white"
+                  />
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Button type="button" onClick={() => void handleSave()} isLoading={isSaving} disabled={disabled || isLoading}>
+        {t('uploadBeat.licenseTiersSave')}
+      </Button>
+    </Card>
+  );
+}
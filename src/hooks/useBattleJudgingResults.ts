@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import type { BattleJudgingResults } from '@/lib/battles/judging';
+
+/** Loads `get_battle_judging_results`, again whenever the battle status changes. */
+export function useBattleJudgingResults(battleId: string | null, status: string | null) {
+  const [results, setResults] = useState<BattleJudgingResults | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setResults(null);
+
+    if (!battleId) return;
+
+    async function fetchResults(id: string) {
+      const { data, error } = await supabase.rpc('get_battle_judging_results', { p_battle_id: id });
+      if (cancelled) return;
+      if (error) {
+        console.error('Error loading battle judging results:', error);
+        return;
+      }
+      const payload = data as unknown as BattleJudgingResults & { error?: string };
+      if (payload && !payload.error) setResults(payload);
+    }
+
+    void fetchResults(battleId);
+    return () => { cancelled = true; };
+  }, [battleId, status]);
+
+  return results;
+}
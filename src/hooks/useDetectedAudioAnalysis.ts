@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase/client';
+
+// The analysis job runs next to the preview render: a few minutes covers a
+// busy queue, after which the producer finds the values in edit mode.
+const POLL_INTERVAL_MS = 5000;
+const MAX_POLLS = 36;
+
+export interface DetectedAudioAnalysis {
+  detected_bpm: number | null;
+  detected_bpm_confidence: number | null;
+  detected_key_signature: string | null;
+  detected_key_confidence: number | null;
+}
+
+/**
+ * Polls the tempo / key the audio worker detects on a freshly uploaded
+ * master, so the upload form can still suggest them once analysis is done.
+ * Stays null while the job is pending or when it detected nothing.
+ */
+export function useDetectedAudioAnalysis(productId: string | null) {
+  const [analysis, setAnalysis] = useState<DetectedAudioAnalysis | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timeoutId: number | undefined;
+    setAnalysis(null);
+
+    if (!productId) return;
+
+    async function poll(id: string, attempt: number) {
+      const { data, error } = await supabase
+        .from('products')
+        .select('detected_bpm, detected_bpm_confidence, detected_key_signature, detected_key_confidence')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error loading detected audio analysis:', error);
+      } else if (data && (data.detected_bpm !== null || data.detected_key_signature !== null)) {
+        setAnalysis(data);
+        return;
+      }
+
+      if (attempt + 1 < MAX_POLLS) {
+        timeoutId = window.setTimeout(() => void poll(id, attempt + 1), POLL_INTERVAL_MS);
+      }
+    }
+
+    timeoutId = window.setTimeout(() => void poll(productId, 0), POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeoutId);
+    };
+  }, [productId]);
+
+  return analysis;
+}
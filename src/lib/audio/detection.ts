@@ -0,0 +1,114 @@
+// Below this confidence the worker's estimate is neither suggested nor used
+// to flag what the producer typed.
+export const MIN_DETECTION_CONFIDENCE = 0.35;
+
+// Entered and detected tempos within this many BPM are considered equal.
+const BPM_TOLERANCE = 2;
+
+export type DetectionStatus = 'none' | 'suggest' | 'match' | 'mismatch';
+
+export interface ParsedKeySignature {
+  pitchClass: number;
+  minor: boolean;
+}
+
+const LETTER_PITCH_CLASSES: Record<string, number> = {
+  c: 0,
+  d: 2,
+  e: 4,
+  f: 5,
+  g: 7,
+  a: 9,
+  b: 11,
+};
+
+// Fixed-do names, as French and Spanish producers often type them.
+const SOLFEGE_PITCH_CLASSES: Record<string, number> = {
+  do: 0,
+  re: 2,
+  mi: 4,
+  fa: 5,
+  sol: 7,
+  la: 9,
+  si: 11,
+};
+
+const MINOR_SUFFIX_RE = /^(m|min|minor|mineur|moll|menor|-)$/;
+const MAJOR_SUFFIX_RE = /^(|maj|major|majeur|dur|mayor)$/;
+
+/**
+ * Parse a free-text key signature ("Am", "F# minor", "Bb", "la mineur",
+ * "Ebmaj"). Returns null when the value cannot be read as a key.
+ */
+export const parseKeySignature = (value: string | null | undefined): ParsedKeySignature | null => {
+  if (!value) return null;
+
+  const normalized = value
+    .trim()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/♯/g, '#')
+    .replace(/♭/g, 'b')
+    .toLowerCase();
+
+  const match = /^(do|re|mi|fa|sol|la|si|[a-g])\s*(#|sharp|flat|diese|bemol|b)?\s*(.*)$/.exec(normalized);
+  if (!match) return null;
+
+  const [, tonic = '', accidental = '', rest = ''] = match;
+  const base = SOLFEGE_PITCH_CLASSES[tonic] ?? LETTER_PITCH_CLASSES[tonic];
+  if (base === undefined) return null;
+
+  const suffix = rest.replace(/[\s.]/g, '');
+  const minor = MINOR_SUFFIX_RE.test(suffix);
+  if (!minor && !MAJOR_SUFFIX_RE.test(suffix)) return null;
+
+  const shift = accidental === '#' || accidental === 'sharp' || accidental === 'diese'
+    ? 1
+    : accidental === ''
+      ? 0
+      : -1;
+
+  return { pitchClass: (base + shift + 12) % 12, minor };
+};
+
+const isConfident = (confidence: number | null | undefined) =>
+  typeof confidence === 'number' && confidence >= MIN_DETECTION_CONFIDENCE;
+
+/**
+ * Compare the tempo typed by the producer with the worker's estimate.
+ * Half- and double-time readings of the same groove count as a match.
+ */
+export const compareBpm = (
+  entered: string,
+  detectedBpm: number | null | undefined,
+  confidence: number | null | undefined,
+): DetectionStatus => {
+  if (typeof detectedBpm !== 'number' || !isConfident(confidence)) return 'none';
+
+  const enteredBpm = Number.parseFloat(entered);
+  if (!entered.trim() || !Number.isFinite(enteredBpm) || enteredBpm <= 0) return 'suggest';
+
+  const matches = [detectedBpm, detectedBpm / 2, detectedBpm * 2].some(
+    (candidate) => Math.abs(candidate - enteredBpm) <= BPM_TOLERANCE,
+  );
+  return matches ? 'match' : 'mismatch';
+};
+
+/**
+ * Compare the key typed by the producer with the worker's estimate.
+ * Enharmonic spellings (Db / C#) match; relative keys (Am / C) do not.
+ */
+export const compareKey = (
+  entered: string,
+  detectedKey: string | null | undefined,
+  confidence: number | null | undefined,
+): DetectionStatus => {
+  const detected = parseKeySignature(detectedKey);
+  if (!detected || !isConfident(confidence)) return 'none';
+  if (!entered.trim()) return 'suggest';
+
+  const parsed = parseKeySignature(entered);
+  return parsed && parsed.pitchClass === detected.pitchClass && parsed.minor === detected.minor
+    ? 'match'
+    : 'mismatch';
+};
@@ -0,0 +1,86 @@
+export const SUPPORTED_WAVEFORM_FORMAT_VERSION = 1;
+
+export interface WaveformPeaksPayload {
+  version: number;
+  peak_count: number;
+  sample_rate: number;
+  duration_sec: number;
+  peaks: number[];
+}
+
+const PREVIEW_FILE_RE = /preview_v(\d+)\.mp3$/i;
+
+/**
+ * Validate the JSON published by the audio worker. Anything unexpected
+ * (newer format, non-numeric peaks) returns null so callers fall back to the
+ * flat progress bar instead of drawing garbage.
+ */
+export const parseWaveformPayload = (raw: unknown): number[] | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const payload = raw as Partial<WaveformPeaksPayload>;
+
+  if (payload.version !== SUPPORTED_WAVEFORM_FORMAT_VERSION || !Array.isArray(payload.peaks)) {
+    return null;
+  }
+
+  const peaks = payload.peaks.map((value) => (typeof value === 'number' && Number.isFinite(value) ? value : NaN));
+  if (peaks.length === 0 || peaks.some((value) => Number.isNaN(value))) {
+    return null;
+  }
+
+  return peaks.map((value) => Math.max(0, Math.min(value, 1)));
+};
+
+/**
+ * Resample peaks to the number of bars a component can draw, keeping the
+ * loudest value of each group so transients stay visible.
+ */
+export const downsamplePeaks = (peaks: number[], barCount: number): number[] => {
+  const safeBarCount = Math.max(1, Math.floor(barCount));
+  if (peaks.length === 0) return [];
+  if (peaks.length <= safeBarCount) return [...peaks];
+
+  const groupSize = peaks.length / safeBarCount;
+  const bars: number[] = [];
+
+  for (let barIndex = 0; barIndex < safeBarCount; barIndex += 1) {
+    const start = Math.floor(barIndex * groupSize);
+    const end = Math.max(start + 1, Math.floor((barIndex + 1) * groupSize));
+    let loudest = 0;
+    for (let index = start; index < end && index < peaks.length; index += 1) {
+      loudest = Math.max(loudest, peaks[index] ?? 0);
+    }
+    bars.push(loudest);
+  }
+
+  return bars;
+};
+
+/**
+ * Previews are published as `<product_id>/preview_v<N>.mp3` and the worker
+ * writes their peaks next to them as `<product_id>/waveform_v<N>.json`. This
+ * lets surfaces that only know the preview (catalog view, battle snapshots)
+ * find the matching waveform without an extra column.
+ */
+export const deriveWaveformPathFromPreview = (previewReference: string): string | null => {
+  const [withoutQuery] = previewReference.split('?');
+  if (!withoutQuery || !PREVIEW_FILE_RE.test(withoutQuery)) return null;
+  return withoutQuery.replace(PREVIEW_FILE_RE, (_match, version: string) => `waveform_v${version}.json`);
+};
+
+/**
+ * Whether the peaks recorded on a row were computed from the preview it
+ * serves. `waveform_version` is null until extraction succeeded and lags
+ * behind `preview_version` after a failed retry; rows that don't carry the
+ * column (catalog view, battle snapshots) can't tell and are trusted.
+ */
+export const isWaveformCurrent = (
+  waveformVersion: number | null | undefined,
+  previewReference: string | null,
+): boolean => {
+  if (waveformVersion === undefined) return true;
+  const [withoutQuery] = (previewReference ?? '').split('?');
+  const match = withoutQuery ? PREVIEW_FILE_RE.exec(withoutQuery) : null;
+  if (!match) return waveformVersion !== null;
+  return waveformVersion === Number(match[1]);
+};
@@ -0,0 +1,78 @@
+import type { Json } from '../supabase/database.types';
+
+export type AudioQualityReasonCode =
+  | 'corrupt'
+  | 'clipping'
+  | 'silence'
+  | 'phase_inverted'
+  | 'low_sample_rate'
+  | 'low_bit_depth';
+
+export interface AudioQualityReason {
+  code: AudioQualityReasonCode;
+  value: number | null;
+  threshold: number | null;
+}
+
+const REASON_CODES = new Set<string>([
+  'corrupt',
+  'clipping',
+  'silence',
+  'phase_inverted',
+  'low_sample_rate',
+  'low_bit_depth',
+]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asFiniteNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+/**
+ * Failed checks of the worker's audio_quality_report. Unknown codes (a newer
+ * worker than this client) are dropped rather than shown untranslated.
+ */
+export const getAudioQualityReasons = (report: Json | null | undefined): AudioQualityReason[] => {
+  if (!isRecord(report) || !Array.isArray(report.reasons)) {
+    return [];
+  }
+
+  return report.reasons.flatMap((reason) => {
+    if (!isRecord(reason) || typeof reason.code !== 'string' || !REASON_CODES.has(reason.code)) {
+      return [];
+    }
+
+    return [{
+      code: reason.code as AudioQualityReasonCode,
+      value: asFiniteNumber(reason.value),
+      threshold: asFiniteNumber(reason.threshold),
+    }];
+  });
+};
+
+const formatPercent = (ratio: number) => `${Number((ratio * 100).toFixed(ratio < 0.01 ? 2 : 1))}%`;
+
+const formatQualityValue = (code: AudioQualityReasonCode, value: number | null) => {
+  if (value === null) return '—';
+
+  switch (code) {
+    case 'clipping':
+    case 'silence':
+      return formatPercent(value);
+    case 'low_sample_rate':
+      return `${Number((value / 1000).toFixed(1))} kHz`;
+    case 'low_bit_depth':
+      return `${value} bit`;
+    case 'phase_inverted':
+      return value.toFixed(2);
+    default:
+      return String(value);
+  }
+};
+
+/** Interpolation values for the producerDashboard.qualityReasons.* messages. */
+export const getAudioQualityReasonParams = (reason: AudioQualityReason) => ({
+  value: formatQualityValue(reason.code, reason.value),
+  threshold: formatQualityValue(reason.code, reason.threshold),
+});
@@ -0,0 +1,92 @@
+const PREVIEW_FILE_RE = /preview_v(\d+)\.mp3(?=$|[?#])/i;
+
+// Connection types on which waiting for the full 192k MP3 stalls playback.
+const CONSTRAINED_EFFECTIVE_TYPES = new Set(['slow-2g', '2g', '3g']);
+
+export interface PreviewRenditionPaths {
+  version: number;
+  hls: string;
+  lowBitrate: string;
+}
+
+export interface PlaybackEnvironment {
+  supportsHls: boolean;
+  constrainedNetwork: boolean;
+}
+
+/**
+ * The worker publishes renditions next to `preview_v<N>.mp3`:
+ * `preview_v<N>_low.mp3` and `hls_v<N>/index.m3u8`. Derive both from any
+ * reference to the preview (storage path or public URL).
+ */
+export const derivePreviewRenditionPaths = (previewReference: string): PreviewRenditionPaths | null => {
+  const match = PREVIEW_FILE_RE.exec(previewReference);
+  if (!match) return null;
+
+  const version = Number(match[1]);
+  const prefix = previewReference.slice(0, match.index);
+  return {
+    version,
+    hls: `${prefix}hls_v${version}/index.m3u8`,
+    lowBitrate: `${prefix}preview_v${version}_low.mp3`,
+  };
+};
+
+/**
+ * Renditions of the first recognizable preview reference, only when the
+ * worker published them for that preview version. Rows without
+ * `preview_renditions_version` (legacy renders, failed rendition passes,
+ * surfaces that don't select it) get none instead of a 404 on first play.
+ */
+export const resolveCurrentRenditionPaths = (
+  previewReferences: string[],
+  renditionsVersion: number | null | undefined,
+): PreviewRenditionPaths | null => {
+  const paths = previewReferences
+    .map(derivePreviewRenditionPaths)
+    .find((value): value is PreviewRenditionPaths => value !== null);
+
+  if (!paths || renditionsVersion !== paths.version) return null;
+  return paths;
+};
+
+export const detectPlaybackEnvironment = (): PlaybackEnvironment => {
+  if (typeof document === 'undefined' || typeof navigator === 'undefined') {
+    return { supportsHls: false, constrainedNetwork: false };
+  }
+
+  const connection = (navigator as Navigator & {
+    connection?: { effectiveType?: string; saveData?: boolean };
+  }).connection;
+
+  return {
+    supportsHls: document.createElement('audio').canPlayType('application/vnd.apple.mpegurl') !== '',
+    constrainedNetwork: Boolean(
+      connection?.saveData || (connection?.effectiveType && CONSTRAINED_EFFECTIVE_TYPES.has(connection.effectiveType)),
+    ),
+  };
+};
+
+/**
+ * Order playback candidates for the client. Native HLS players start on the
+ * first segment; constrained connections try the low-bitrate MP3 before the
+ * full one. Renditions that fail to load fall through to the next candidate,
+ * so the standard preview always stays in the list.
+ */
+export const orderPreviewRenditions = (
+  standardCandidates: string[],
+  renditions: Pick<PreviewRenditionPaths, 'hls' | 'lowBitrate'> | null,
+  environment: PlaybackEnvironment,
+): string[] => {
+  if (!renditions) return standardCandidates;
+
+  const preferred: string[] = [];
+  if (environment.supportsHls) preferred.push(renditions.hls);
+  if (environment.constrainedNetwork) preferred.push(renditions.lowBitrate);
+
+  return [
+    ...preferred,
+    ...standardCandidates,
+    ...(environment.constrainedNetwork ? [] : [renditions.lowBitrate]),
+  ];
+};
@@ -1,4 +1,10 @@
 import { supabase } from '../supabase/client';
+import { deriveWaveformPathFromPreview, isWaveformCurrent } from './peaks';
+import {
+  detectPlaybackEnvironment,
+  orderPreviewRenditions,
+  resolveCurrentRenditionPaths,
+} from './renditions';
 
 const DEFAULT_WATERMARKED_BUCKET =
   import.meta.env.VITE_SUPABASE_WATERMARKED_BUCKET?.trim() || 'beats-watermarked';
@@ -12,6 +18,9 @@ export type AudioSourceFields = {
   watermarked_path?: string | null;
   exclusive_preview_url?: string | null;
   watermarked_bucket?: string | null;
+  waveform_path?: string | null;
+  waveform_version?: number | null;
+  preview_renditions_version?: number | null;
 };
 
 const asNonEmptyString = (value: unknown) => {
@@ -104,6 +113,27 @@ export const getPrimaryAudioSource = (sources: AudioSourceFields) =>
 export const hasPlayableAudioSource = (sources: AudioSourceFields) =>
   Boolean(getPrimaryAudioSource(sources));
 
+/**
+ * Resolve the HLS and low-bitrate renditions of the current preview, only
+ * when preview_renditions_version says they were published for it.
+ */
+const resolvePreviewRenditions = (sources: AudioSourceFields, fallbackBucket: string) => {
+  const paths = resolveCurrentRenditionPaths(
+    [
+      asNonEmptyString(sources.watermarked_path),
+      asNonEmptyString(sources.preview_url),
+      asNonEmptyString(sources.exclusive_preview_url),
+      asNonEmptyString(sources.audioUrl),
+    ].filter((value): value is string => Boolean(value)),
+    sources.preview_renditions_version,
+  );
+  if (!paths) return null;
+
+  const hls = resolveDirectAudioCandidate(paths.hls, fallbackBucket);
+  const lowBitrate = resolveDirectAudioCandidate(paths.lowBitrate, fallbackBucket);
+  return hls && lowBitrate ? { hls, lowBitrate } : null;
+};
+
 export const buildResolvedAudioSourceCandidates = (
   sources: AudioSourceFields,
 ): string[] => {
@@ -119,14 +149,41 @@ export const buildResolvedAudioSourceCandidates = (
     .map((candidate) => resolveDirectAudioCandidate(candidate, fallbackBucket))
     .filter((value): value is string => Boolean(value));
 
+  const orderedCandidates = orderPreviewRenditions(
+    resolvedCandidates,
+    resolvePreviewRenditions(sources, fallbackBucket),
+    detectPlaybackEnvironment(),
+  );
+
   const productId = asNonEmptyString(sources.id);
   const supabaseUrl = asNonEmptyString(import.meta.env.VITE_SUPABASE_URL);
 
   if (productId && UUID_RE.test(productId) && supabaseUrl) {
-    resolvedCandidates.push(
+    orderedCandidates.push(
       `${trimTrailingSlash(supabaseUrl)}/functions/v1/preview-audio/${encodeURIComponent(productId)}`,
     );
   }
 
-  return [...new Set(resolvedCandidates)];
+  return [...new Set(orderedCandidates)];
+};
+
+export const resolveWaveformUrl = (sources: AudioSourceFields): string | null => {
+  const fallbackBucket = asNonEmptyString(sources.watermarked_bucket) || DEFAULT_WATERMARKED_BUCKET;
+  const previewReferences = [
+    asNonEmptyString(sources.watermarked_path),
+    asNonEmptyString(sources.preview_url),
+    asNonEmptyString(sources.exclusive_preview_url),
+    asNonEmptyString(sources.audioUrl),
+  ].filter((value): value is string => Boolean(value));
+
+  // Stale or missing peaks would draw the previous take or 404: skip them.
+  if (!isWaveformCurrent(sources.waveform_version, previewReferences[0] ?? null)) return null;
+
+  const explicitPath = asNonEmptyString(sources.waveform_path);
+  const candidate = explicitPath ?? previewReferences
+    .map(deriveWaveformPathFromPreview)
+    .find((value): value is string => Boolean(value));
+
+  if (!candidate) return null;
+  return resolveDirectAudioCandidate(candidate, fallbackBucket);
 };
@@ -0,0 +1,61 @@
+export type StemFileKind = 'stem' | 'stem_archive';
+export type StemValidationStatus = 'pending' | 'valid' | 'warning' | 'invalid';
+
+export interface StemSelection {
+  file: File;
+  kind: StemFileKind;
+}
+
+export type StemSelectionError = 'format' | 'size' | 'count';
+
+// Matches the beats-masters bucket limit set for trackout packs.
+export const MAX_STEM_FILE_SIZE = 500 * 1024 * 1024;
+export const MAX_STEM_FILES_PER_UPLOAD = 32;
+
+const ARCHIVE_MIME_TYPES = new Set(['application/zip', 'application/x-zip-compressed']);
+const WAV_MIME_TYPES = new Set(['audio/wav', 'audio/x-wav', 'audio/wave']);
+
+/**
+ * Stems are either one zip of the whole trackout or individual WAV files.
+ * Browsers report zips inconsistently (empty or octet-stream type on some
+ * systems), so the extension decides when the MIME type is not conclusive.
+ */
+export const classifyStemFile = (file: Pick<File, 'name' | 'type'>): StemFileKind | null => {
+  const extension = file.name.toLowerCase().split('.').pop() ?? '';
+
+  if (ARCHIVE_MIME_TYPES.has(file.type) || (extension === 'zip' && !file.type.startsWith('audio/'))) {
+    return 'stem_archive';
+  }
+
+  if (WAV_MIME_TYPES.has(file.type) || (extension === 'wav' && !file.type)) {
+    return 'stem';
+  }
+
+  return null;
+};
+
+export const selectStemFiles = (
+  files: File[],
+): { selections: StemSelection[]; error: StemSelectionError | null } => {
+  if (files.length > MAX_STEM_FILES_PER_UPLOAD) {
+    return { selections: [], error: 'count' };
+  }
+
+  const selections: StemSelection[] = [];
+  for (const file of files) {
+    const kind = classifyStemFile(file);
+    if (!kind) {
+      return { selections: [], error: 'format' };
+    }
+    if (file.size > MAX_STEM_FILE_SIZE) {
+      return { selections: [], error: 'size' };
+    }
+    selections.push({ file, kind });
+  }
+
+  return { selections, error: null };
+};
+
+/** Stems the worker accepted. Warnings (silence, length) are still delivered. */
+export const isDeliverableStemStatus = (status: string | null | undefined) =>
+  status === 'valid' || status === 'warning';
@@ -31,5 +31,8 @@ export const toTrack = (track: TrackSeed): Track | null => {
     watermarked_path: track.watermarked_path ?? null,
     exclusive_preview_url: track.exclusive_preview_url ?? null,
     watermarked_bucket: track.watermarked_bucket ?? null,
+    waveform_path: track.waveform_path ?? null,
+    waveform_version: track.waveform_version,
+    preview_renditions_version: track.preview_renditions_version,
   };
 };
@@ -0,0 +1,65 @@
+export const VOICE_TAG_BUCKET = 'watermark-assets';
+
+// Matches the watermark-assets bucket limit and accepted types.
+export const MAX_VOICE_TAG_SIZE = 10 * 1024 * 1024;
+const VOICE_TAG_MIME_TYPES = new Set(['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/x-wav', 'audio/wave']);
+
+// Bounds enforced by the watermark_profiles CHECK constraints.
+export const WATERMARK_GAIN_MIN_DB = -60;
+export const WATERMARK_GAIN_MAX_DB = 12;
+export const WATERMARK_INTERVAL_MIN_SEC = 5;
+export const WATERMARK_INTERVAL_MAX_SEC = 300;
+
+export interface WatermarkProfileFormValues {
+  gainDb: string;
+  minIntervalSec: string;
+  maxIntervalSec: string;
+}
+
+export interface WatermarkProfileSettings {
+  gainDb: number;
+  minIntervalSec: number;
+  maxIntervalSec: number;
+}
+
+export type WatermarkProfileFormError = 'numeric' | 'gain' | 'interval';
+
+export const isAcceptedVoiceTagFile = (file: Pick<File, 'type' | 'size'>) =>
+  VOICE_TAG_MIME_TYPES.has(file.type) && file.size > 0 && file.size <= MAX_VOICE_TAG_SIZE;
+
+/** Producer tags are only readable and writable under producers/<producer_id>/. */
+export const buildVoiceTagPath = (producerId: string, fileName: string, timestamp = Date.now()) => {
+  const extension = fileName.toLowerCase().endsWith('.wav') ? 'wav' : 'mp3';
+  return `producers/${producerId}/voice-tag-${timestamp}.${extension}`;
+};
+
+export const parseWatermarkProfileForm = (
+  values: WatermarkProfileFormValues,
+): { settings: WatermarkProfileSettings; error: null } | { settings: null; error: WatermarkProfileFormError } => {
+  const gainDb = Number(values.gainDb);
+  const minIntervalSec = Number(values.minIntervalSec);
+  const maxIntervalSec = Number(values.maxIntervalSec);
+
+  if (
+    [values.gainDb, values.minIntervalSec, values.maxIntervalSec].some((value) => value.trim() === '') ||
+    !Number.isFinite(gainDb) ||
+    !Number.isInteger(minIntervalSec) ||
+    !Number.isInteger(maxIntervalSec)
+  ) {
+    return { settings: null, error: 'numeric' };
+  }
+
+  if (gainDb < WATERMARK_GAIN_MIN_DB || gainDb > WATERMARK_GAIN_MAX_DB) {
+    return { settings: null, error: 'gain' };
+  }
+
+  if (
+    minIntervalSec < WATERMARK_INTERVAL_MIN_SEC ||
+    maxIntervalSec > WATERMARK_INTERVAL_MAX_SEC ||
+    maxIntervalSec < minIntervalSec
+  ) {
+    return { settings: null, error: 'interval' };
+  }
+
+  return { settings: { gainDb, minIntervalSec, maxIntervalSec }, error: null };
+};
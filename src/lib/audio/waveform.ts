@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { parseWaveformPayload } from './peaks';
+import { resolveWaveformUrl, type AudioSourceFields } from './sources';
+
+const peaksCache = new Map<string, Promise<number[] | null>>();
+
+const loadWaveformPeaks = (url: string) => {
+  const cached = peaksCache.get(url);
+  if (cached) return cached;
+
+  const request = fetch(url)
+    .then((response) => (response.ok ? response.json() : null))
+    .then(parseWaveformPayload)
+    .catch(() => null);
+
+  peaksCache.set(url, request);
+  return request;
+};
+
+/**
+ * Peaks for the waveform published by the audio worker next to the preview,
+ * or null while loading / when the beat has none yet.
+ */
+export function useWaveformPeaks(sources: AudioSourceFields | null | undefined) {
+  const url = sources ? resolveWaveformUrl(sources) : null;
+  const [loaded, setLoaded] = useState<{ url: string; peaks: number[] | null } | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+
+    let cancelled = false;
+    void loadWaveformPeaks(url).then((peaks) => {
+      if (!cancelled) {
+        setLoaded({ url, peaks });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return loaded && loaded.url === url ? loaded.peaks : null;
+}
@@ -0,0 +1,50 @@
+interface BlindVotingBattle {
+  status: string;
+  blind_voting?: boolean | null;
+}
+
+/** Identities stay masked from the moment the flag is set until `completed`. */
+export function isBlindVotingActive(battle: BlindVotingBattle | null | undefined) {
+  return Boolean(battle?.blind_voting) && battle?.status !== 'completed';
+}
+
+/** Neutral slot letter: A, B, C... */
+export function getBlindSlotLetter(index: number) {
+  return String.fromCharCode(65 + index);
+}
+
+// FNV-1a, so the same battle/viewer pair always hashes to the same seed.
+function hashSeed(seed: string) {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < seed.length; index += 1) {
+    hash ^= seed.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffles slots in an order that is stable for one viewer of one battle, so
+ * "Beat A" does not always mean producer 1 and does not move between visits.
+ */
+export function orderBlindSlots<T>(items: ReadonlyArray<T>, battleId: string, viewerKey: string): T[] {
+  const random = createRandom(hashSeed(`${battleId}:${viewerKey}`));
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index -= 1) {
+    const swapIndex = Math.floor(random() * (index + 1));
+    [shuffled[index], shuffled[swapIndex]] = [shuffled[swapIndex], shuffled[index]];
+  }
+  return shuffled;
+}
@@ -0,0 +1,49 @@
+import type { BattleEntrant } from '../supabase/types';
+
+export const CYPHER_MIN_ENTRANTS = 3;
+export const CYPHER_MAX_ENTRANTS = 8;
+export const CYPHER_BALLOT_SIZE = 3;
+
+type RankableEntrant = Pick<BattleEntrant, 'points' | 'first_place_votes' | 'position'>;
+
+export interface CypherStanding<T> {
+  entrant: T;
+  rank: number;
+}
+
+/** Points a ballot gives to its nth choice (3-2-1), mirroring `record_cypher_ballot`. */
+export function getCypherBallotPoints(rank: number) {
+  if (!Number.isInteger(rank) || rank < 1 || rank > CYPHER_BALLOT_SIZE) return 0;
+  return CYPHER_BALLOT_SIZE + 1 - rank;
+}
+
+/** Adds a producer to the end of the ballot, or removes them and moves later picks up. */
+export function toggleCypherBallotChoice(ballot: ReadonlyArray<string>, producerId: string): string[] {
+  if (ballot.includes(producerId)) {
+    return ballot.filter((id) => id !== producerId);
+  }
+  if (ballot.length >= CYPHER_BALLOT_SIZE) return [...ballot];
+  return [...ballot, producerId];
+}
+
+/**
+ * Orders entrants by points, then first-place votes, like `rank_cypher_entrants`.
+ * Tied entrants share a rank and keep their entry order.
+ */
+export function rankCypherStandings<T extends RankableEntrant>(entrants: ReadonlyArray<T>): CypherStanding<T>[] {
+  const sorted = [...entrants].sort((left, right) =>
+    right.points - left.points
+    || right.first_place_votes - left.first_place_votes
+    || left.position - right.position);
+
+  return sorted.map((entrant) => {
+    const firstTied = sorted.findIndex((candidate) =>
+      candidate.points === entrant.points && candidate.first_place_votes === entrant.first_place_votes);
+    return { entrant, rank: firstTied + 1 };
+  });
+}
+
+/** Standings on the podium: ranks 1 to 3, so ties can put more than three entrants on it. */
+export function getCypherPodium<T>(standings: ReadonlyArray<CypherStanding<T>>) {
+  return standings.filter((standing) => standing.rank <= 3);
+}
@@ -0,0 +1,88 @@
+import type { BattleCriterionKey } from './loserShare';
+
+export const JUDGE_SCORE_MIN = 1;
+export const JUDGE_SCORE_MAX = 10;
+
+export type JudgeCriterionScores = Partial<Record<BattleCriterionKey, number>>;
+
+export interface JudgedScoreInput {
+  /** `battles.judge_weight`, NULL when the battle has no panel. */
+  judgeWeight: number | null;
+  /** Share of the duel votes or of the cypher points, 0-1. */
+  communityScore: number;
+  /** Panel average of the competitor's scorecards, 0-1 (see `getPanelJudgeScore`). */
+  judgeScore: number | null;
+  /** Whether any judge sent a scorecard in the battle. */
+  panelScored: boolean;
+}
+
+export interface BattleJudgingEntry {
+  producer_id: string;
+  username: string | null;
+  community_score: number;
+  judge_score: number | null;
+  scorecard_count: number;
+  final_score: number;
+  criteria: JudgeCriterionScores;
+}
+
+export interface BattleJudgeComment {
+  producer_id: string;
+  judge_username: string | null;
+  comment: string;
+}
+
+/** Payload of `get_battle_judging_results`; scores only come back once the battle has completed. */
+export type BattleJudgingResults =
+  | { has_panel: false }
+  | { has_panel: true; completed: false; judge_weight: number; judge_count: number }
+  | {
+      has_panel: true;
+      completed: true;
+      judge_weight: number;
+      judge_count: number;
+      scored: boolean;
+      entries: BattleJudgingEntry[];
+      comments: BattleJudgeComment[];
+    };
+
+/** Mean of a scorecard's criterion scores on a 0-1 scale, null when it is empty. */
+export function getScorecardScore(scores: JudgeCriterionScores): number | null {
+  const values = Object.values(scores).filter((value): value is number =>
+    typeof value === 'number' && value >= JUDGE_SCORE_MIN && value <= JUDGE_SCORE_MAX);
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length / JUDGE_SCORE_MAX;
+}
+
+/**
+ * A competitor's judge score averaged over the whole panel: a judge who did
+ * not score them counts as 0, so one generous card cannot outweigh a panel
+ * that left them out. Null when the panel is empty.
+ */
+export function getPanelJudgeScore(cardScores: number[], judgeCount: number): number | null {
+  if (judgeCount <= 0) return null;
+  return cardScores.reduce((sum, score) => sum + score, 0) / judgeCount;
+}
+
+/** Share of the tally a competitor earned, 0 when nobody voted yet. */
+export function getCommunityShare(tally: number, total: number) {
+  return total > 0 ? tally / total : 0;
+}
+
+/**
+ * Final score of a competitor, like `compute_battle_judged_scores`. A panel
+ * that never scored leaves the community share as the only input.
+ */
+export function combineJudgedScore({ judgeWeight, communityScore, judgeScore, panelScored }: JudgedScoreInput) {
+  if (judgeWeight === null || !panelScored) return communityScore;
+  return judgeWeight * (judgeScore ?? 0) + (1 - judgeWeight) * communityScore;
+}
+
+/** Reads the admin's "judges' share" input in percent; '' turns the panel off. */
+export function parseJudgeWeightPercent(input: string): number | null | undefined {
+  const trimmed = input.trim();
+  if (trimmed === '') return null;
+  const percent = Number(trimmed);
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) return undefined;
+  return Math.round(percent) / 100;
+}
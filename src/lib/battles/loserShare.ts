@@ -41,7 +41,7 @@ export interface LoserShareVisibilityInput {
   isTie: boolean;
 }
 
-const BATTLE_CRITERION_KEYS = [
+export const BATTLE_CRITERION_KEYS = [
   'groove',
   'melody',
   'ambience',
@@ -0,0 +1,107 @@
+import type { SampleFlipSubmissionStatus } from '../supabase/types';
+
+/** Keys as the audio worker writes `detected_key_signature`: sharps only, "m" for minor. */
+export const SAMPLE_FLIP_KEYS = [
+  'C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B',
+  'Cm', 'C#m', 'Dm', 'D#m', 'Em', 'Fm', 'F#m', 'Gm', 'G#m', 'Am', 'A#m', 'Bm',
+] as const;
+
+// Same thresholds as `evaluate_sample_flip_submission`.
+const MIN_CONFIDENCE = 0.35;
+const BPM_TOLERANCE = 2;
+
+export type SampleFlipReason =
+  | 'analysis_failed'
+  | 'quality_failed'
+  | 'bpm_uncertain'
+  | 'bpm_out_of_range'
+  | 'key_uncertain'
+  | 'key_not_allowed';
+
+const SAMPLE_FLIP_REASONS: ReadonlyArray<SampleFlipReason> = [
+  'analysis_failed',
+  'quality_failed',
+  'bpm_uncertain',
+  'bpm_out_of_range',
+  'key_uncertain',
+  'key_not_allowed',
+];
+
+const UNCERTAIN_REASONS: ReadonlyArray<SampleFlipReason> = ['bpm_uncertain', 'key_uncertain'];
+
+export interface SampleFlipConstraints {
+  flip_bpm_min: number | null;
+  flip_bpm_max: number | null;
+  flip_allowed_keys: ReadonlyArray<string> | null;
+}
+
+export interface SampleFlipAnalysis {
+  audio_analyzed_at: string | null;
+  audio_analysis_error: string | null;
+  audio_quality_status: string | null;
+  detected_bpm: number | null;
+  detected_bpm_confidence: number | null;
+  detected_key_signature: string | null;
+  detected_key_confidence: number | null;
+}
+
+export interface SampleFlipVerdict {
+  status: SampleFlipSubmissionStatus;
+  reasons: SampleFlipReason[];
+}
+
+const isConfident = (value: unknown, confidence: number | null) =>
+  value !== null && value !== undefined && (confidence ?? 0) >= MIN_CONFIDENCE;
+
+/**
+ * Checks an analysed beat against a challenge's constraints, like
+ * `evaluate_sample_flip_submission`. Half- and double-time readings of the
+ * tempo count as inside the range; low-confidence detections go to review.
+ */
+export function evaluateSampleFlip(constraints: SampleFlipConstraints, analysis: SampleFlipAnalysis): SampleFlipVerdict {
+  if (!analysis.audio_analyzed_at) {
+    return analysis.audio_analysis_error
+      ? { status: 'needs_review', reasons: ['analysis_failed'] }
+      : { status: 'pending_check', reasons: [] };
+  }
+
+  const reasons: SampleFlipReason[] = [];
+
+  if (analysis.audio_quality_status === 'failed') {
+    reasons.push('quality_failed');
+  }
+
+  const { flip_bpm_min: bpmMin, flip_bpm_max: bpmMax } = constraints;
+  if (bpmMin !== null && bpmMax !== null) {
+    const bpm = analysis.detected_bpm;
+    if (bpm === null || !isConfident(bpm, analysis.detected_bpm_confidence)) {
+      reasons.push('bpm_uncertain');
+    } else if (![bpm, bpm / 2, bpm * 2].some((candidate) =>
+      candidate >= bpmMin - BPM_TOLERANCE && candidate <= bpmMax + BPM_TOLERANCE)) {
+      reasons.push('bpm_out_of_range');
+    }
+  }
+
+  const allowedKeys = constraints.flip_allowed_keys ?? [];
+  if (allowedKeys.length > 0) {
+    const key = analysis.detected_key_signature;
+    if (!isConfident(key, analysis.detected_key_confidence)) {
+      reasons.push('key_uncertain');
+    } else if (!allowedKeys.includes(key as string)) {
+      reasons.push('key_not_allowed');
+    }
+  }
+
+  if (reasons.some((reason) => !UNCERTAIN_REASONS.includes(reason))) {
+    return { status: 'failed', reasons };
+  }
+  return { status: reasons.length > 0 ? 'needs_review' : 'passed', reasons };
+}
+
+/** Reasons stored in a submission's `check_report`, ignoring anything unknown. */
+export function getSampleFlipReasons(report: unknown): SampleFlipReason[] {
+  if (!report || typeof report !== 'object' || !('reasons' in report)) return [];
+  const { reasons } = report as { reasons: unknown };
+  if (!Array.isArray(reasons)) return [];
+  return reasons.filter((reason): reason is SampleFlipReason => SAMPLE_FLIP_REASONS.includes(reason as SampleFlipReason));
+}
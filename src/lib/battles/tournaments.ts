@@ -0,0 +1,51 @@
+import type { TranslateFn } from '../i18n';
+import type { TournamentBracket, TournamentMatch } from '../supabase/types';
+
+const BRACKET_ORDER: TournamentBracket[] = ['winners', 'losers', 'grand_final'];
+
+export interface TournamentRoundColumn<T> {
+  round: number;
+  matches: T[];
+}
+
+export interface TournamentBracketSection<T> {
+  bracket: TournamentBracket;
+  rounds: TournamentRoundColumn<T>[];
+}
+
+/** Split matches into bracket sections, then round columns ordered by position. */
+export function groupTournamentRounds<T extends Pick<TournamentMatch, 'bracket' | 'round' | 'position'>>(
+  matches: ReadonlyArray<T>,
+): TournamentBracketSection<T>[] {
+  return BRACKET_ORDER.flatMap((bracket) => {
+    const byRound = new Map<number, T[]>();
+    for (const match of matches) {
+      if (match.bracket !== bracket) continue;
+      byRound.set(match.round, [...(byRound.get(match.round) ?? []), match]);
+    }
+
+    if (byRound.size === 0) return [];
+
+    const rounds = [...byRound.entries()]
+      .sort(([left], [right]) => left - right)
+      .map(([round, roundMatches]) => ({
+        round,
+        matches: [...roundMatches].sort((left, right) => left.position - right.position),
+      }));
+
+    return [{ bracket, rounds }];
+  });
+}
+
+export function getTournamentRoundLabel(
+  bracket: TournamentBracket,
+  round: number,
+  roundCount: number,
+  t: TranslateFn,
+) {
+  if (bracket === 'grand_final') return t('tournaments.grandFinal');
+  if (bracket === 'losers') return t('tournaments.losersRound', { round });
+  if (round === roundCount) return t('tournaments.final');
+  if (round === roundCount - 1) return t('tournaments.semiFinal');
+  return t('tournaments.round', { round });
+}
@@ -87,6 +87,7 @@ export const de: TranslationSchema = {
     myPurchases: 'Meine Kaufe',
     mySales: 'Meine Verkaufe',
     myProducts: 'Meine Produkte',
+    currency: 'Wahrung',
   },
   auth: {
     loginTitle: 'Anmelden',
@@ -333,6 +334,16 @@ export const de: TranslationSchema = {
     tooManyActions: 'Zu viele Aktionen in kurzer Zeit. Bitte in einer Minute erneut versuchen.',
     participantsCannotVote: 'Teilnehmer konnen nicht in ihrer eigenen Battle abstimmen.',
     invalidVoteTarget: 'Ungueltige Abstimmungsoption.',
+    invalidBallot: 'Ungueltiger Stimmzettel: waehle drei verschiedene Teilnehmer.',
+    cypherBallotHint: 'Waehle deine Top {count} der Reihe nach: erster Klick = 1. Platz.',
+    cypherBallotRank: '#{rank}',
+    cypherSubmitBallot: 'Ranking abgeben',
+    cypherResetBallot: 'Zuruecksetzen',
+    cypherBadge: 'Cypher',
+    cypherCardHint: 'Cypher mit mehreren Producern und Ranking-Abstimmung.',
+    blindBeatLabel: 'Beat {letter}',
+    blindBadge: 'Blind-Voting',
+    blindCardHint: 'Blind-Voting: Die Producer werden am Ende des Battles enthuellt.',
     voteLoginRequired: 'Melden Sie sich an, um abzustimmen.',
     voteUnavailable: 'Abstimmung ist derzeit nicht verfuegbar.',
     voteBattleNotReady: 'Battle ist noch nicht bereit fur Abstimmungen.',
@@ -366,6 +377,112 @@ export const de: TranslationSchema = {
       artistic_vibe: 'Kunstlerische Vibes',
     },
   },
+  tournaments: {
+    title: 'Turniere',
+    subtitle: 'K.-o.-Turniere zwischen Producern, ein Battle pro Match.',
+    backToBattles: 'Zuruck zu den Battles',
+    backToTournaments: 'Alle Turniere',
+    loadError: 'Turniere konnen nicht geladen werden.',
+    notFound: 'Turnier nicht gefunden.',
+    empty: 'Noch keine Turniere.',
+    formatSingle: 'Einfaches K.-o.',
+    formatDouble: 'Doppeltes K.-o.',
+    entrantsCount: '{count} Teilnehmer',
+    startedAt: 'Gestartet am {date}',
+    statusRunning: 'Laufend',
+    statusCompleted: 'Abgeschlossen',
+    champion: 'Champion: {name}',
+    viewBracket: 'Turnierbaum ansehen',
+    winnersBracket: 'Winner-Bracket',
+    losersBracket: 'Loser-Bracket',
+    grandFinal: 'Grand Final',
+    final: 'Finale',
+    semiFinal: 'Halbfinale',
+    round: 'Runde {round}',
+    losersRound: 'Loser-Runde {round}',
+    resolutionBye: 'Freilos',
+    resolutionDisqualification: 'Disqualifikation',
+    resolutionTiebreak: 'Gleichstand per Setzliste entschieden',
+    disqualified: 'disqualifiziert',
+    bye: 'Freilos',
+    tbd: 'Offen',
+    votingEnds: 'Abstimmung endet {date}',
+    openBattle: 'Battle offnen',
+    roundDuration: '{hours} Std. pro Runde',
+  },
+  sampleFlip: {
+    title: 'Sample-Flip-Challenge',
+    downloadPack: 'Source-Pack herunterladen',
+    bpmLabel: 'Tempo',
+    bpmRange: '{min}-{max} BPM (halbes oder doppeltes Tempo zaehlt)',
+    anyBpm: 'Beliebiges Tempo',
+    keysLabel: 'Tonarten',
+    anyKey: 'Beliebige Tonart',
+    deadlineLabel: 'Einsendeschluss',
+    rules: 'Mach aus dem Source-Pack einen brandneuen Beat, hochgeladen nach dem Start der Challenge. Jeder Flip wird automatisch geprueft, sobald sein Audio analysiert ist.',
+    loginToSubmit: 'Melde dich mit einem Producer-Konto an, um deinen Flip einzureichen.',
+    yourSubmission: 'Dein Flip:',
+    noEligibleBeats: 'Seit dem Start der Challenge wurde kein Beat hochgeladen.',
+    uploadLink: 'Flip hochladen',
+    beatLabel: 'Dein Flip',
+    beatPlaceholder: 'Neuen Beat auswaehlen',
+    submit: 'Flip einreichen',
+    replace: 'Flip ersetzen',
+    submitted: 'Flip eingereicht.',
+    errorProducerRequired: 'Zum Einreichen ist ein aktives Producer-Konto noetig.',
+    errorClosed: 'Die Einsendungen fuer diese Challenge sind geschlossen.',
+    errorBeatTooOld: 'Nur Beats, die nach dem Start der Challenge hochgeladen wurden, sind zugelassen.',
+    errorInvalidBeat: 'Dieser Beat kann nicht eingereicht werden.',
+    errorGeneric: 'Dein Flip konnte nicht eingereicht werden.',
+    status: {
+      pending_check: 'Wartet auf Analyse',
+      passed: 'Angenommen',
+      failed: 'Abgelehnt',
+      needs_review: 'In Pruefung',
+    },
+    reason: {
+      analysis_failed: 'Die Audioanalyse ist fehlgeschlagen.',
+      quality_failed: 'Der Beat hat die Audio-Qualitaetspruefung nicht bestanden.',
+      bpm_uncertain: 'Das Tempo konnte nicht zuverlaessig erkannt werden.',
+      bpm_out_of_range: 'Das Tempo liegt ausserhalb des erlaubten Bereichs.',
+      key_uncertain: 'Die Tonart konnte nicht zuverlaessig erkannt werden.',
+      key_not_allowed: 'Die Tonart gehoert nicht zu den erlaubten Tonarten.',
+    },
+    preview: {
+      pending_check: 'Dieser Beat wurde noch nicht analysiert; er wird nach dem Einreichen geprueft.',
+      passed: 'Dieser Beat erfuellt die Vorgaben.',
+      failed: 'Dieser Beat erfuellt die Vorgaben nicht:',
+      needs_review: 'Dieser Beat wird von einem Admin geprueft:',
+    },
+  },
+  judging: {
+    scorecardTitle: 'Jury-Bewertungen',
+    scorecardHint: 'Bewerte jedes Kriterium von 1 bis 10. Deine Punkte bleiben privat; dein Kommentar wird nach Ende der Battle mit dem Producer geteilt.',
+    average: 'Durchschnitt {score}/10',
+    savedBadge: 'Gespeichert',
+    commentPlaceholder: 'Kommentar fuer den Producer (optional)',
+    save: 'Bewertung speichern',
+    saved: 'Bewertung gespeichert.',
+    errorNotJudge: 'Du bist nicht in der Jury dieser Battle.',
+    errorClosed: 'Die Jury-Bewertung fuer diese Battle ist geschlossen.',
+    errorIncomplete: 'Bewerte jedes Kriterium von 1 bis 10.',
+    errorCommentTooLong: 'Dein Kommentar ist zu lang.',
+    errorGeneric: 'Bewertung konnte nicht gespeichert werden.',
+    breakdownTitle: 'Jury und Community',
+    panelSize: 'Jury: {count}',
+    formula: 'Endwertung = {judges} Jury + {community} Community-Voting',
+    pendingResults: 'Die Aufschluesselung wird nach Ende der Battle veroeffentlicht.',
+    notScored: 'Die Jury hat diese Battle nicht bewertet, daher hat das Community-Voting entschieden.',
+    producerColumn: 'Producer',
+    communityColumn: 'Community',
+    judgesColumn: 'Jury',
+    finalColumn: 'Ergebnis',
+    unknownProducer: 'Producer',
+    criteriaFor: 'Jury-Durchschnitte fuer {name} ({count} Bewertungen)',
+    commentsTitle: 'Kommentare der Jury',
+    commentBy: '{judge} zu {name}',
+    anonymousJudge: 'Ein Jurymitglied',
+  },
   producer: {
     dashboard: 'Produzenten-Dashboard',
     overview: 'Ubersicht',
@@ -509,6 +626,117 @@ export const de: TranslationSchema = {
     deleteAccountCreditsValue: 'Sie haben {credits} Credits auf diesem Konto.',
     deleteAccountCreditsValueLoading: 'Ihr Credit-Guthaben wird geladen...',
     deleteAccountLegalNote: 'Credits sind außer bei gesetzlicher Verpflichtung nicht erstattungsfähig.',
+    voiceTagTitle: 'Voice Tag',
+    voiceTagDescription: 'Ersetzen Sie das Website-Wasserzeichen in Ihren Previews durch Ihren eigenen Producer-Tag. Beim Speichern werden Ihre veröffentlichten Previews neu gerendert.',
+    voiceTagEnabledLabel: 'Meinen Voice Tag in meinen Previews verwenden',
+    voiceTagGainLabel: 'Gain (dB)',
+    voiceTagMinIntervalLabel: 'Min. Intervall (s)',
+    voiceTagMaxIntervalLabel: 'Max. Intervall (s)',
+    voiceTagCurrent: 'Ihr Voice Tag ist hinterlegt.',
+    voiceTagSiteDefault: 'Noch kein Voice Tag: Ihre Previews nutzen das Website-Wasserzeichen.',
+    voiceTagUploadLabel: 'Voice Tag hochladen',
+    voiceTagUploadHint: 'WAV oder MP3, max. 10 MB. Halten Sie ihn kurz: er wiederholt sich in der ganzen Preview.',
+    voiceTagSave: 'Voice Tag speichern',
+    voiceTagSaved: 'Voice Tag gespeichert. {count} Previews werden neu gerendert.',
+    voiceTagSaveError: 'Ihr Voice Tag kann derzeit nicht gespeichert werden.',
+    voiceTagLoadError: 'Ihr Voice Tag konnte nicht geladen werden.',
+    voiceTagFileError: 'Der Voice Tag muss eine WAV- oder MP3-Datei unter 10 MB sein.',
+    voiceTagRequired: 'Laden Sie einen Voice Tag hoch, bevor Sie ihn aktivieren.',
+    voiceTagNumericError: 'Gain und Intervalle müssen Zahlen sein (ganze Sekunden für Intervalle).',
+    voiceTagGainError: 'Der Gain muss zwischen -60 und 12 dB liegen.',
+    voiceTagIntervalError: 'Intervalle müssen zwischen 5 und 300 s liegen, Minimum unter Maximum.',
+    licenseTiersTitle: 'Lizenzstufen',
+    licenseTiersDescription: 'Erstellen Sie eigene Lizenzstufen mit Ihren Limits und Preisen und wählen Sie auf der Bearbeitungsseite jedes Beats, welche angeboten werden.',
+    licenseTiersEmpty: 'Sie haben noch keine Lizenzstufe erstellt. Ihre Beats nutzen die Lizenzen der Plattform.',
+    licenseTiersLoadError: 'Ihre Lizenzstufen konnten nicht geladen werden.',
+    licenseTierNewTitle: 'Neue Lizenzstufe',
+    licenseTierEditTitle: 'Lizenzstufe bearbeiten',
+    licenseTierNameLabel: 'Name',
+    licenseTierPriceLabel: 'Standardpreis (€)',
+    licenseTierDescriptionLabel: 'Beschreibung',
+    licenseTierLimitsHint: 'Lassen Sie ein Limit leer, um es unbegrenzt zu machen. Bisherige Käufe behalten die Bedingungen zum Zeitpunkt des Verkaufs.',
+    licenseTierExclusiveLabel: 'Exklusive Lizenzstufe',
+    licenseTierExclusiveHint: 'Nur für exklusive Beats verfügbar. Kann nach dem Erstellen nicht mehr geändert werden.',
+    licenseTierExclusiveBadge: 'Exklusiv',
+    licenseTierSave: 'Lizenzstufe speichern',
+    licenseTierSaved: 'Lizenzstufe gespeichert.',
+    licenseTierSaveError: 'Die Lizenzstufe kann derzeit nicht gespeichert werden.',
+    licenseTierEdit: 'Bearbeiten',
+    licenseTierArchive: 'Archivieren',
+    licenseTierArchived: 'Lizenzstufe archiviert und von den Beats entfernt, die sie angeboten haben.',
+    licenseTierNameError: 'Der Name muss zwischen 1 und 60 Zeichen lang sein.',
+    licenseTierNameTaken: 'Sie haben bereits eine Lizenzstufe mit diesem Namen.',
+    licenseTierPriceError: 'Der Preis muss ein positiver Betrag sein.',
+    licenseTierLimitsError: 'Limits müssen positive ganze Zahlen sein.',
+    dealsTitle: 'Angebote und Bundles',
+    dealsDescription: 'Biete „Kaufe X, erhalte Y gratis“-Angebote an oder verkaufe mehrere Beats zusammen zum Bundle-Preis. Angebote gelten automatisch im Warenkorb, nie für Exklusivrechte.',
+    dealsEmpty: 'Du hast kein aktives Angebot.',
+    dealsLoadError: 'Deine Angebote konnten nicht geladen werden.',
+    dealNewTitle: 'Neues Angebot',
+    dealEditTitle: 'Angebot bearbeiten',
+    dealTitleLabel: 'Name im Warenkorb',
+    dealTypeLabel: 'Art',
+    dealTypeBuyGet: 'Kaufe X, erhalte Y gratis',
+    dealTypeBundle: 'Bundle',
+    dealBuyQuantityLabel: 'Zu kaufende Beats',
+    dealFreeQuantityLabel: 'Gratis-Beats',
+    dealBundlePriceLabel: 'Bundle-Preis (€)',
+    dealProductsLabel: 'Beats',
+    dealBuyGetProductsHint: 'Nichts auswählen, um alle deine Beats einzuschließen. Die günstigsten Beats jeder Gruppe sind gratis.',
+    dealBundleProductsHint: 'Wähle 2 bis {max} Beats. Das Bundle gilt, wenn alle im Warenkorb liegen, unabhängig von der gewählten Lizenz.',
+    dealNoProducts: 'Du hast noch keinen nicht-exklusiven Beat im Verkauf.',
+    dealBuyGetSummary: 'Kaufe {buy}, erhalte {free} gratis',
+    dealBundleSummary: '{count} Beats für {price}',
+    dealSave: 'Angebot speichern',
+    dealSaved: 'Angebot gespeichert.',
+    dealSaveError: 'Das Angebot kann gerade nicht gespeichert werden.',
+    dealEdit: 'Bearbeiten',
+    dealArchive: 'Angebot beenden',
+    dealArchived: 'Angebot beendet.',
+    dealTitleError: 'Der Name muss zwischen 1 und 60 Zeichen lang sein.',
+    dealQuantitiesError: 'Die Mengen müssen mindestens 1 sein und zusammen höchstens {max} Beats ergeben.',
+    dealPriceError: 'Der Bundle-Preis muss mindestens 1 € betragen.',
+    dealProductsError: 'Ein Bundle braucht 2 bis {max} Beats.',
+    promoCodesTitle: 'Gutscheincodes',
+    promoCodesDescription: 'Erstellen Sie Rabattcodes für einen Beat oder Ihren ganzen Katalog. Codes können nach dem Erstellen nicht mehr geändert werden.',
+    promoCodesAdminDescription: 'Plattform-Codes: der ganze Marktplatz, ein Produzent, ein Beat oder Produzenten-Abos.',
+    promoCodesEmpty: 'Kein aktiver Gutscheincode.',
+    promoCodesLoadError: 'Gutscheincodes konnten nicht geladen werden.',
+    promoCodeNewTitle: 'Neuer Gutscheincode',
+    promoCodeLabel: 'Code',
+    promoScopeLabel: 'Gilt für',
+    promoScopeProduct: 'Einen Beat',
+    promoScopeProducer: 'Alle Beats des Produzenten',
+    promoScopeAllBeats: 'Den ganzen Marktplatz',
+    promoScopePlan: 'Produzenten-Abo',
+    promoDiscountTypeLabel: 'Rabatt',
+    promoDiscountPercent: 'Prozentsatz',
+    promoDiscountFixed: 'Fester Betrag',
+    promoPercentLabel: 'Rabatt (%)',
+    promoAmountLabel: 'Rabatt (€)',
+    promoProductLabel: 'Beat',
+    promoProductPlaceholder: 'Beat auswählen',
+    promoProductIdLabel: 'Beat-ID',
+    promoProducerIdLabel: 'Produzenten-ID',
+    promoPlanTierLabel: 'Tarif',
+    promoPlanTierAny: 'Alle Tarife',
+    promoMaxRedemptionsLabel: 'Maximale Einlösungen',
+    promoUnlimited: 'Unbegrenzt',
+    promoPerUserLimitLabel: 'Einlösungen pro Käufer',
+    promoExpiresAtLabel: 'Ablaufdatum',
+    promoRedemptions: '{count}/{max} Einlösungen',
+    promoExpires: 'bis {date}',
+    promoCodeSave: 'Code erstellen',
+    promoCodeSaved: 'Gutscheincode erstellt.',
+    promoCodeSaveError: 'Der Gutscheincode konnte gerade nicht gespeichert werden.',
+    promoCodeArchive: 'Deaktivieren',
+    promoCodeArchived: 'Gutscheincode deaktiviert.',
+    promoCodeTaken: 'Dieser Code existiert bereits.',
+    promoCodeFormatError: 'Der Code muss 3 bis 32 Zeichen lang sein: Buchstaben, Ziffern, - oder _.',
+    promoDiscountError: 'Der Rabatt muss zwischen 1 und 100 % liegen oder ein positiver Betrag sein.',
+    promoScopeError: 'Wählen Sie den Beat, für den der Code gilt.',
+    promoLimitsError: 'Einlösungsgrenzen müssen mindestens 1 betragen.',
+    promoDatesError: 'Das Ablaufdatum muss in der Zukunft liegen.',
   },
   dashboard: {
     title: 'Dashboard',
@@ -566,7 +794,22 @@ export const de: TranslationSchema = {
     standardType: 'Standard',
     downloadAudio: 'Audio herunterladen',
     downloadLicense: 'Lizenz herunterladen',
+    downloadStems: 'Stems herunterladen',
+    stemsDownloadError: 'Stems-Download derzeit nicht verfugbar.',
+    stemsUnavailable: 'Der Produzent hat fur diesen Beat noch keine gepruften Stems geliefert.',
     viewLicenseDetails: 'Lizenzdetails anzeigen',
+    upgradeLicense: 'Lizenz upgraden',
+    upgradedBadge: 'Durch ein Upgrade ersetzt',
+    disputedBadge: 'Zahlung angefochten · Zugriff gesperrt',
+    upgradeModalTitle: 'Upgrade · {title}',
+    upgradeModalDescription: 'Du zahlst nur die Differenz zu dem, was du bereits bezahlt hast ({paid}).',
+    upgradeLoading: 'Verfugbare Lizenzen werden geladen...',
+    upgradeLoadError: 'Die verfugbaren Lizenzen konnten nicht geladen werden.',
+    upgradeNone: 'Fur diesen Beat ist keine hohere Lizenz verfugbar.',
+    upgradeExclusiveLabel: 'Exklusivrechte',
+    upgradeFullPrice: 'Normalpreis {price}',
+    upgradeAmountDue: 'Zu zahlen {amount}',
+    upgradeError: 'Das Upgrade ist gerade nicht moglich.',
     recentWishlist: 'Meine letzten Favoriten',
     loadingWishlist: 'Ihre Favoriten werden geladen...',
     noWishlist: 'Noch kein Favorit',
@@ -578,6 +821,12 @@ export const de: TranslationSchema = {
     downloadStarted: 'Download gestartet',
     downloadError: 'Download derzeit nicht verfugbar.',
     contractDownloadError: 'Der Vertrag kann derzeit nicht heruntergeladen werden (PDF nicht verfugbar).',
+    downloadInvoice: 'Rechnung',
+    invoiceDownloadError: 'Die Rechnung kann derzeit nicht heruntergeladen werden.',
+    exportCsv: 'CSV exportieren',
+    exportPdf: 'PDF exportieren',
+    exportError: 'Die Kaufhistorie kann derzeit nicht exportiert werden.',
+    subscriptionInvoicesTitle: 'Abo-Rechnungen',
     licenseModalTitle: 'Lizenzdetails · {name}',
     licenseModalTitleDefault: 'Lizenzdetails',
     licenseModalDescription: 'Zusammenfassung der Rechte und Grenzen dieses Kaufs.',
@@ -701,6 +950,15 @@ export const de: TranslationSchema = {
   },
   producerDashboard: {
     protectedHistoryMessage: 'Dieses Produkt hat eine abgeschlossene Battle-Historie oder Verkaufe. Sie konnen es nur ausblenden.',
+    qualityFailedTitle: 'Audio-Qualitatsprufung fehlgeschlagen: Dieser Beat bleibt unveroffentlicht, bis Sie ein korrigiertes Master hochladen.',
+    qualityReasons: {
+      corrupt: 'Die Datei ist beschadigt oder konnte nicht dekodiert werden.',
+      clipping: 'Zu viel Clipping: {value} der Samples auf Vollaussteuerung (max. {threshold}).',
+      silence: 'Uberwiegend still: {value} des Tracks ist Stille (max. {threshold}).',
+      phase_inverted: 'Linker und rechter Kanal loschen sich aus (Korrelation {value}, min. {threshold}).',
+      low_sample_rate: 'Abtastrate zu niedrig: {value} (min. {threshold}).',
+      low_bit_depth: 'Bittiefe zu niedrig: {value} (min. {threshold}).',
+    },
     advancedStatsUnavailable: 'Erweiterte Statistiken sind derzeit nicht verfugbar.',
     noLinkedSubscription: 'Kein verknupftes Stripe-Abonnement.',
     sessionExpired: 'Sitzung abgelaufen. Bitte erneut anmelden.',
@@ -852,6 +1110,12 @@ export const de: TranslationSchema = {
     descriptionPlaceholder: 'Beschreiben Sie Stimmung, Instrumente und Lizenzen...',
     bpmPlaceholder: 'Z. B. 140',
     keyPlaceholder: 'Z. B. Am',
+    detectedSuggestion: 'Aus dem Master erkannt: {value} ({confidence} % Konfidenz)',
+    detectedMismatch: 'Die Master-Analyse ergibt {value} ({confidence} % Konfidenz). Bitte prüfen Sie Ihre Eingabe.',
+    detectedMatch: 'Stimmt mit der Master-Analyse überein',
+    applyDetected: 'Übernehmen',
+    analysisReady: 'Master-Analyse von "{title}" abgeschlossen',
+    reviewDetected: 'Beat prüfen',
     audioLocked: 'Audio gesperrt',
     currentMasterKept: 'Das aktuelle Master bleibt erhalten, weil eine aktive Battle Audio-Anderungen sperrt.',
     coverLocked: 'Cover gesperrt',
@@ -868,11 +1132,45 @@ export const de: TranslationSchema = {
     exclusiveOptionLabel: 'Exklusiver Verkauf',
     exclusiveOptionHint: 'Dieser Titel wird zu einem exklusiven Beat mit einmaligem Verkauf.',
     exclusiveStemsNotice: 'Mit dieser Auswahl bestaetigen Sie, dass alle Stems dieses Titels bereitstehen und nach Bestaetigung des Kaufs sofort an das Label geliefert werden koennen.',
+    licenseTiersTitle: 'Angebotene Lizenzstufen',
+    licenseTiersDescription: 'Wählen Sie die Lizenzstufen, die für diesen Beat verkauft werden, und ihren Preis. Ohne Auswahl wird der Beat zum Grundpreis verkauft.',
+    licenseTiersManage: 'Meine Lizenzstufen verwalten',
+    licenseTiersPlatform: 'Plattform-Lizenz',
+    licenseTiersPriceLabel: 'Preis für {name} (€)',
+    licenseTiersNone: 'Für diesen Beat ist keine Lizenzstufe verfügbar.',
+    licenseTiersTooMany: 'Bis zu {count} Lizenzstufen pro Beat.',
+    licenseTiersPriceError: 'Jede ausgewählte Lizenzstufe braucht einen positiven Preis.',
+    licenseTiersSave: 'Lizenzstufen speichern',
+    licenseTiersSaved: 'Lizenzstufen des Beats gespeichert.',
+    licenseTiersSaveError: 'Die Lizenzstufen dieses Beats konnten nicht gespeichert werden.',
+    licenseTiersLoadError: 'Die Lizenzstufen dieses Beats konnten nicht geladen werden.',
     genrePlaceholder: '— Auswählen —',
     moodPlaceholder: '— Auswählen —',
     tagsPlaceholder: 'Bsp.: drill, dunkel, 808...',
     genreRequired: 'Bitte wähle ein Genre aus.',
     genreRecommended: 'Empfohlen',
+    stemsTitle: 'Stems / Trackouts',
+    stemsHint: 'Ein ZIP mit dem kompletten Trackout oder einzelne WAV-Dateien (max. 500 MB pro Datei). Wird mit Lizenzen geliefert, die Stems enthalten.',
+    chooseStems: 'Stems auswählen',
+    stemsFormatError: 'Erlaubte Formate: ZIP oder WAV',
+    stemsSizeError: 'Max. Größe: 500 MB pro Datei',
+    stemsTooMany: 'Zu viele Dateien: max. 32 pro Upload',
+    stemsUploaded: 'Stems hochgeladen. Prüfung läuft.',
+    stemsUploadError: 'Der Beat wurde gespeichert, aber die Stems konnten nicht hochgeladen werden.',
+    audioQualityFailed: 'Dieses Master hat die Audio-Qualitatsprufung nicht bestanden. Laden Sie ein korrigiertes Master hoch, um eine neue Version zu veroffentlichen.',
+    existingStems: 'Hochgeladene Stems',
+    removeStem: 'Stem entfernen',
+    removeStemError: 'Dieser Stem kann derzeit nicht entfernt werden.',
+    stemStatus: {
+      pending: 'Wird geprüft',
+      valid: 'Gültig',
+      warning: 'Prüfen',
+      invalid: 'Abgelehnt',
+    },
+    stemCount: '{count} Stems',
+    stemSilent: 'Stummer Stem erkannt',
+    stemDurationDelta: 'Länge weicht um {seconds}s vom Master ab',
+    stemInvalid: 'Audio nicht lesbar: Diese Datei wird nicht geliefert',
   },
   subscription: {
     title: 'Produzenten-Abonnements',
@@ -937,6 +1235,20 @@ export const de: TranslationSchema = {
     unknownProducer: 'Unbekannt',
     itemBeat: 'Beat',
     itemKit: 'Kit',
+    dealDiscount: 'Angebot: {title}',
+    promoCodeLabel: 'Gutscheincode',
+    promoCodePlaceholder: 'z. B. SUMMER20',
+    promoCodeApply: 'Einlosen',
+    promoCodeRemove: 'Gutscheincode entfernen',
+    promoDiscount: 'Code {code}',
+    promoCodeError: 'Dieser Code kann gerade nicht gepruft werden.',
+    promoCodeNotFound: 'Dieser Gutscheincode existiert nicht.',
+    promoCodeNotStarted: 'Dieser Gutscheincode ist noch nicht aktiv.',
+    promoCodeExpired: 'Dieser Gutscheincode ist abgelaufen.',
+    promoCodeNotApplicable: 'Dieser Gutscheincode kann hier nicht verwendet werden.',
+    promoCodeExhausted: 'Dieser Gutscheincode wurde bereits maximal eingelost.',
+    promoCodeAlreadyUsed: 'Sie haben diesen Gutscheincode bereits verwendet.',
+    currencyNotice: 'Preise werden zum aktuellen Kurs aus Euro umgerechnet. Die Zahlung erfolgt in {currency}.',
   },
   errors: {
     generic: 'Ein Fehler ist aufgetreten',
@@ -991,6 +1303,7 @@ export const de: TranslationSchema = {
     playbackDecodeError: 'Audioformat wird nicht unterstutzt',
     playbackSourceNotSupported: 'Audioquelle wird nicht unterstutzt oder ist nicht erreichbar',
     playbackUnknownError: 'Unbekannter Medienfehler',
+    seekWaveform: 'Im Ausschnitt springen',
   },
   producersPage: {
     title: 'Aktive Produzenten',
@@ -1016,6 +1329,16 @@ export const de: TranslationSchema = {
     backToCatalog: 'Zuruck',
     unknownProducer: 'Unbekannt',
     noDescription: 'Keine Beschreibung vorhanden.',
+    licenseTiersTitle: 'Lizenz wählen',
+    licenseTermMaxStreams: 'Max. Streams',
+    licenseTermMaxSales: 'Max. Verkäufe',
+    licenseTermYoutubeMonetization: 'YouTube-Monetarisierung',
+    licenseTermMusicVideoAllowed: 'Musikvideo erlaubt',
+    licenseTermCreditRequired: 'Producer-Nennung erforderlich',
+    licenseTermStemsIncluded: 'Stems enthalten',
+    licenseTermUnlimited: 'Unbegrenzt',
+    licenseTermYes: 'Ja',
+    licenseTermNo: 'Nein',
     availableCredits: 'Verfugbare Credits',
     creditBalanceError: 'Ihr Credits-Guthaben kann derzeit nicht geladen werden.',
     creditEligibleStatus: 'Mit Credits verfügbar',
@@ -1101,6 +1424,13 @@ export const de: TranslationSchema = {
     copyLink: 'Link kopieren',
     linkCopied: 'Link kopiert!',
     viewFeedbackReport: 'Feedback ansehen',
+    cypherPodium: 'Podium',
+    cypherPoints: '{count} Pkt.',
+    cypherFirstPlaceVotes: '{count} Stimmen fuer Platz 1',
+    cypherNoVotes: 'Noch keine Stimmzettel. Das Podium erscheint mit den ersten Stimmen.',
+    cypherPreview: 'Vorschau - {name}',
+    blindNotice: 'Blind-Voting: Namen, Profile und Kommentare der Teilnehmer bleiben bis zum Ergebnis verborgen. Jeder Waehler hoert die Beats in seiner eigenen Reihenfolge.',
+    blindPreview: 'Vorschau - {label}',
     statusActive: 'Aktiv',
     statusPendingAcceptance: 'Wartet auf Antwort',
     statusAwaitingAdmin: 'Wartet auf Admin',
@@ -1369,6 +1699,7 @@ export const de: TranslationSchema = {
     noEarnings: 'Noch keine Einnahmen.',
     loadError: 'Einnahmen konnten nicht geladen werden.',
     limitedDataMode: 'Eingeschrankter Datenmodus',
+    paidInCurrency: 'Vom Kaufer bezahlt: {amount} (Kurs {rate})',
   },
   admin: {
     layout: {
@@ -1521,6 +1852,39 @@ export const de: TranslationSchema = {
       updatedAt: 'Aktualisiert {date}',
       adjust: 'Anpassen',
     },
+    audioMatches: {
+      title: 'Audio-Duplikate',
+      subtitle: 'Beats, deren Audio-Fingerprint dem Beat eines anderen Producers entspricht. Sie bleiben bis zur Prüfung aus dem Katalog.',
+      loadError: 'Audio-Duplikate konnten nicht geladen werden.',
+      reviewError: 'Prüfung konnte nicht gespeichert werden.',
+      confirmSuccess: 'Duplikat bestätigt. Der Beat bleibt aus dem Katalog.',
+      dismissSuccess: 'Meldung verworfen.',
+      empty: 'Keine Duplikate vorhanden.',
+      filters: {
+        pending: 'Zu prüfen',
+        confirmed: 'Bestätigt',
+        dismissed: 'Verworfen',
+        all: 'Alle',
+      },
+      similarity: 'Ähnlichkeit {value}%',
+      alignment: '{overlap} s gemeinsam, Versatz {offset} s',
+      detectedAt: 'Erkannt {date}',
+      uploadedBeat: 'Hochgeladener Beat',
+      existingBeat: 'Bestehender Beat',
+      untitled: 'Ohne Titel',
+      byProducer: 'Von {producer}',
+      unknownProducer: 'unbekannter Producer',
+      uploadedAt: 'Hochgeladen {date}',
+      noPreview: 'Keine Vorschau verfügbar.',
+      noteLabel: 'Prüfnotiz',
+      notePlaceholder: 'Optional',
+      dismiss: 'Verwerfen',
+      confirm: 'Duplikat bestätigen',
+      reviewed: {
+        confirmed: 'Duplikat bestätigt {date}',
+        dismissed: 'Verworfen {date}',
+      },
+    },
     beatAnalytics: {
       title: 'Beat Analytics',
       subtitle: 'Qualitative Battle-Vote-Analysen und Quality-Index-Snapshots.',
@@ -1560,6 +1924,7 @@ export const de: TranslationSchema = {
       reputation: 'Reputation',
       revenue: 'Revenue',
       beatAnalytics: 'Beat Analytics',
+      audioMatches: 'Audio-Duplikate',
       settings: 'Einstellungen',
     },
     revenue: {
@@ -1581,6 +1946,13 @@ export const de: TranslationSchema = {
       type: 'Typ',
       typeCash: 'Cash',
       typeCredits: 'Credits',
+      promoCode: 'Gutscheincode',
+      promoUsageTitle: 'Gutscheincodes',
+      promoOwner: 'Erstellt von',
+      promoRedemptions: 'Einlosungen',
+      promoDiscount: 'Rabatt gesamt',
+      promoUsageEmpty: 'Noch keine Gutscheincodes.',
+      promoPlatform: 'Plattform',
       empty: 'Noch keine abgeschlossenen Transaktionen.',
     },
     settingsPage: {
@@ -1743,6 +2115,11 @@ export const de: TranslationSchema = {
       rpcAlreadyExpired: 'Diese Battle ist bereits abgelaufen.',
       rpcDurationLimitExceeded: 'Maximale Dauer ueberschritten (60 Tage).',
       rpcMaxExtensionsReached: 'Maximale Anzahl an Verlaengerungen erreicht (5).',
+      rpcBlindVotingCompleted: 'Blind-Voting kann bei einem beendeten Battle nicht mehr geaendert werden.',
+      enableBlindVoting: 'Blind-Voting',
+      disableBlindVoting: 'Producer zeigen',
+      blindVotingEnabled: 'Blind-Voting aktiviert.',
+      blindVotingDisabled: 'Die Producer sind wieder sichtbar.',
       rpcGenericError: 'Admin-Aktion derzeit nicht verfuegbar.',
       edgeNotDeployed: 'Funktion "{functionName}" ist auf {projectRef} nicht deployed (404).',
       edgeUnauthorized: 'Ungueltige oder abgelaufene Sitzung fuer "{functionName}" (401). Bitte erneut anmelden.',
@@ -1837,6 +2214,102 @@ export const de: TranslationSchema = {
       scoreLabel: 'Score: {score}',
       producerStats: 'Ablehnungen: {refusals} | Teilnahmen: {participated} | Abgeschlossen: {completed}',
     },
+    tournaments: {
+      title: 'Turniere',
+      publicPage: 'Offentliche Turnierseite',
+      loadError: 'Turniere konnen nicht geladen werden.',
+      empty: 'Noch kein Turnier erstellt.',
+      titleLabel: 'Titel',
+      descriptionLabel: 'Beschreibung',
+      formatLabel: 'Format',
+      roundDurationLabel: 'Rundendauer (Stunden)',
+      create: 'Turnier erstellen',
+      createSuccess: 'Turnier erstellt.',
+      entrants: 'Teilnehmer ({count})',
+      producerLabel: 'Producer',
+      selectProducer: 'Producer auswahlen',
+      beatLabel: 'Beat',
+      selectBeat: 'Beat auswahlen',
+      addEntrant: 'Hinzufugen',
+      removeEntrant: 'Entfernen',
+      start: 'Turnier starten',
+      startSuccess: 'Turnier gestartet, Battles der ersten Runde geoffnet.',
+      advance: 'Runden fortschreiben',
+      advanceSuccess: 'Turnier aktualisiert.',
+      disqualify: 'Disqualifizieren',
+      disqualifyPrompt: 'Grund der Disqualifikation (optional):',
+      disqualifySuccess: 'Teilnehmer disqualifiziert.',
+      awardBye: 'Freilos fur {name}',
+      byeSuccess: 'Freilos vergeben.',
+      saveDuration: 'Speichern',
+      durationSaved: 'Rundendauer aktualisiert.',
+      errorTitleRequired: 'Ein Titel ist erforderlich.',
+      errorInvalidDuration: 'Die Rundendauer muss zwischen 1 und 720 Stunden liegen.',
+      errorProductInvalid: 'Dieser Beat kann fur diesen Producer nicht gemeldet werden.',
+      errorAlreadyStarted: 'Dieses Turnier hat bereits begonnen.',
+      errorNotEnoughEntrants: 'Nicht genug Teilnehmer fur dieses Format.',
+      errorMatchDecided: 'Dieses Match ist bereits entschieden.',
+      errorMatchNotOpen: 'Dieses Match ist noch nicht offen.',
+    },
+    cypher: {
+      title: 'Cypher-Battles',
+      subtitle: 'Startet ein Ranking-Battle mit {min} bis {max} Producern. Waehler ranken ihre Top 3 (3-2-1 Punkte).',
+      titleLabel: 'Titel',
+      descriptionLabel: 'Beschreibung',
+      durationLabel: 'Abstimmungsdauer (Stunden)',
+      producerLabel: 'Producer',
+      producerPlaceholder: 'Producer auswaehlen',
+      beatLabel: 'Beat',
+      beatPlaceholder: 'Beat auswaehlen',
+      addEntrant: 'Hinzufuegen',
+      removeEntrant: 'Teilnehmer entfernen',
+      noEntrants: 'Noch keine Teilnehmer.',
+      create: 'Cypher starten',
+      createSuccess: 'Cypher-Battle gestartet.',
+      openCreated: 'Erstellten Cypher oeffnen',
+      errorTitleRequired: 'Ein Titel ist erforderlich.',
+      errorInvalidDuration: 'Die Abstimmungsdauer muss zwischen 1 und 720 Stunden liegen.',
+      errorEntrantCount: 'Ein Cypher braucht {min} bis {max} Teilnehmer.',
+      errorEntrantsInvalid: 'Jeder Producer und jeder Beat darf nur einmal teilnehmen.',
+      errorProductInvalid: 'Ein Teilnehmer ist inaktiv oder sein Beat ist nicht zulaessig.',
+      errorProductOccupied: 'Einer der Beats ist bereits in einem offenen Battle.',
+    },
+    sampleFlip: {
+      submissions: 'Einsendungen ({count}, {passed} angenommen)',
+      noSubmissions: 'Noch kein Flip eingereicht.',
+      reviewed: 'Geprueft',
+      detected: 'Erkannt: {bpm} BPM, Tonart {key}',
+      preview: 'Flip-Vorschau',
+      accept: 'Annehmen',
+      reject: 'Ablehnen',
+      launchAfterDeadline: 'Voting oder Turnier koennen nach dem Einsendeschluss starten.',
+      openVote: 'Community-Voting starten',
+      bracket: 'Als Turnier starten',
+      voteOpened: 'Community-Voting gestartet.',
+      bracketStarted: 'Turnier mit den angenommenen Flips gestartet.',
+      errorStillOpen: 'Die Einsendungen sind noch offen.',
+      errorUnresolved: 'Einige Flips warten noch auf Analyse oder Pruefung.',
+      errorNotOpen: 'Diese Challenge wurde bereits gestartet.',
+      errorBeatNotEligible: 'Ein angenommener Flip ist nicht veroeffentlicht oder kein aktiver Beat.',
+    },
+    judging: {
+      title: 'Jury',
+      weightLabel: 'Anteil der Jury an der Endwertung (%)',
+      weightPlaceholder: 'Leer: nur Community-Voting',
+      saveWeight: 'Formel speichern',
+      weightSaved: 'Jury-Formel gespeichert.',
+      panelDisabled: 'Jury deaktiviert.',
+      usernameLabel: 'Benutzername des Jurors',
+      add: 'Juror hinzufuegen',
+      remove: 'Entfernen',
+      cardsSent: '{count}/{total} Bewertungen',
+      projection: 'Aktuelle Hochrechnung',
+      projectionLine: '{name}: Community {community}, Jury {judges}/10, Ergebnis {final}',
+      errorCompleted: 'Diese Battle ist beendet; ihre Jury kann nicht mehr geaendert werden.',
+      errorInvalidWeight: 'Gib einen Anteil zwischen 0 und 100 ein.',
+      errorUserNotFound: 'Kein Benutzer mit diesem Benutzernamen.',
+      errorJudgeCompetes: 'Ein Producer kann seine eigene Battle nicht bewerten.',
+    },
   },
   battleFeedback: {
     share: {
@@ -87,6 +87,7 @@ export const en: TranslationSchema = {
     myPurchases: 'My purchases',
     mySales: 'My sales',
     myProducts: 'My products',
+    currency: 'Currency',
   },
   auth: {
     loginTitle: 'Login',
@@ -333,6 +334,16 @@ export const en: TranslationSchema = {
     tooManyActions: 'Too many actions in a short time. Please retry in a minute.',
     participantsCannotVote: 'Participants cannot vote in their own battle.',
     invalidVoteTarget: 'Invalid vote choice.',
+    invalidBallot: 'Invalid ballot: rank three different entrants.',
+    cypherBallotHint: 'Pick your top {count} in order: first click = 1st place.',
+    cypherBallotRank: '#{rank}',
+    cypherSubmitBallot: 'Submit my ranking',
+    cypherResetBallot: 'Reset',
+    cypherBadge: 'Cypher',
+    cypherCardHint: 'Multi-producer cypher with ranked voting.',
+    blindBeatLabel: 'Beat {letter}',
+    blindBadge: 'Blind vote',
+    blindCardHint: 'Blind vote: producers are revealed when the battle ends.',
     voteLoginRequired: 'Sign in to vote.',
     voteUnavailable: 'Voting is unavailable right now.',
     voteBattleNotReady: 'Battle is not ready for voting.',
@@ -366,6 +377,112 @@ export const en: TranslationSchema = {
       artistic_vibe: 'Artistic vibe',
     },
   },
+  tournaments: {
+    title: 'Tournaments',
+    subtitle: 'Elimination brackets between producers, one battle per match.',
+    backToBattles: 'Back to battles',
+    backToTournaments: 'All tournaments',
+    loadError: 'Unable to load tournaments.',
+    notFound: 'Tournament not found.',
+    empty: 'No tournament yet.',
+    formatSingle: 'Single elimination',
+    formatDouble: 'Double elimination',
+    entrantsCount: '{count} entrants',
+    startedAt: 'Started {date}',
+    statusRunning: 'Running',
+    statusCompleted: 'Completed',
+    champion: 'Champion: {name}',
+    viewBracket: 'View bracket',
+    winnersBracket: 'Winners bracket',
+    losersBracket: 'Losers bracket',
+    grandFinal: 'Grand final',
+    final: 'Final',
+    semiFinal: 'Semi-final',
+    round: 'Round {round}',
+    losersRound: 'Losers round {round}',
+    resolutionBye: 'Bye',
+    resolutionDisqualification: 'Disqualification',
+    resolutionTiebreak: 'Tie broken by seed',
+    disqualified: 'disqualified',
+    bye: 'Bye',
+    tbd: 'TBD',
+    votingEnds: 'Voting ends {date}',
+    openBattle: 'Open battle',
+    roundDuration: '{hours}h per round',
+  },
+  sampleFlip: {
+    title: 'Sample flip challenge',
+    downloadPack: 'Download source pack',
+    bpmLabel: 'Tempo',
+    bpmRange: '{min}-{max} BPM (half or double time accepted)',
+    anyBpm: 'Any tempo',
+    keysLabel: 'Keys',
+    anyKey: 'Any key',
+    deadlineLabel: 'Submission deadline',
+    rules: 'Flip the source pack into a brand-new beat uploaded after the challenge opened. Each flip is checked automatically once its audio has been analysed.',
+    loginToSubmit: 'Log in with a producer account to submit your flip.',
+    yourSubmission: 'Your flip:',
+    noEligibleBeats: 'No beat uploaded since the challenge opened.',
+    uploadLink: 'Upload your flip',
+    beatLabel: 'Your flip',
+    beatPlaceholder: 'Select a new beat',
+    submit: 'Submit flip',
+    replace: 'Replace my flip',
+    submitted: 'Flip submitted.',
+    errorProducerRequired: 'An active producer account is required to submit.',
+    errorClosed: 'Submissions are closed for this challenge.',
+    errorBeatTooOld: 'Only beats uploaded after the challenge opened can be submitted.',
+    errorInvalidBeat: 'This beat cannot be submitted.',
+    errorGeneric: 'Unable to submit your flip.',
+    status: {
+      pending_check: 'Waiting for analysis',
+      passed: 'Accepted',
+      failed: 'Rejected',
+      needs_review: 'Under review',
+    },
+    reason: {
+      analysis_failed: 'The audio analysis failed.',
+      quality_failed: 'The beat did not pass the audio quality check.',
+      bpm_uncertain: 'The tempo could not be detected reliably.',
+      bpm_out_of_range: 'The tempo is outside the allowed range.',
+      key_uncertain: 'The key could not be detected reliably.',
+      key_not_allowed: 'The key is not one of the allowed keys.',
+    },
+    preview: {
+      pending_check: 'This beat has not been analysed yet; it will be checked after submission.',
+      passed: 'This beat meets the constraints.',
+      failed: 'This beat does not meet the constraints:',
+      needs_review: 'This beat will be reviewed by an admin:',
+    },
+  },
+  judging: {
+    scorecardTitle: 'Judge scorecards',
+    scorecardHint: 'Score every criterion from 1 to 10. Your scores stay private; your comment is shared with the producer once the battle ends.',
+    average: 'Average {score}/10',
+    savedBadge: 'Saved',
+    commentPlaceholder: 'Comment for the producer (optional)',
+    save: 'Save scorecard',
+    saved: 'Scorecard saved.',
+    errorNotJudge: 'You are not on this battle’s judge panel.',
+    errorClosed: 'Judging is closed for this battle.',
+    errorIncomplete: 'Score every criterion from 1 to 10.',
+    errorCommentTooLong: 'Your comment is too long.',
+    errorGeneric: 'Unable to save your scorecard.',
+    breakdownTitle: 'Judges and community',
+    panelSize: 'Judges: {count}',
+    formula: 'Final score = {judges} judges + {community} community vote',
+    pendingResults: 'The breakdown is published when the battle ends.',
+    notScored: 'The judges did not score this battle, so the community vote decided.',
+    producerColumn: 'Producer',
+    communityColumn: 'Community',
+    judgesColumn: 'Judges',
+    finalColumn: 'Final',
+    unknownProducer: 'Producer',
+    criteriaFor: 'Judges’ averages for {name} ({count} scorecards)',
+    commentsTitle: 'Judges’ comments',
+    commentBy: '{judge} on {name}',
+    anonymousJudge: 'A judge',
+  },
   producer: {
     dashboard: 'Producer dashboard',
     overview: 'Overview',
@@ -509,6 +626,117 @@ export const en: TranslationSchema = {
     deleteAccountCreditsValue: 'You have {credits} credits on this account.',
     deleteAccountCreditsValueLoading: 'Loading your credit balance...',
     deleteAccountLegalNote: 'Credits are non-refundable except where required by law.',
+    voiceTagTitle: 'Voice tag',
+    voiceTagDescription: 'Replace the site watermark on your previews with your own producer tag. Saving re-renders your published previews.',
+    voiceTagEnabledLabel: 'Use my voice tag on my previews',
+    voiceTagGainLabel: 'Gain (dB)',
+    voiceTagMinIntervalLabel: 'Min interval (s)',
+    voiceTagMaxIntervalLabel: 'Max interval (s)',
+    voiceTagCurrent: 'Your voice tag is on file.',
+    voiceTagSiteDefault: 'No voice tag yet: your previews use the site watermark.',
+    voiceTagUploadLabel: 'Upload a voice tag',
+    voiceTagUploadHint: 'WAV or MP3, 10 MB max. Keep it short: it repeats across the preview.',
+    voiceTagSave: 'Save voice tag',
+    voiceTagSaved: 'Voice tag saved. {count} previews queued for re-rendering.',
+    voiceTagSaveError: 'Unable to save your voice tag right now.',
+    voiceTagLoadError: 'Unable to load your voice tag.',
+    voiceTagFileError: 'Voice tag must be a WAV or MP3 file under 10 MB.',
+    voiceTagRequired: 'Upload a voice tag before enabling it.',
+    voiceTagNumericError: 'Gain and intervals must be numbers (whole seconds for intervals).',
+    voiceTagGainError: 'Gain must be between -60 and 12 dB.',
+    voiceTagIntervalError: 'Intervals must be between 5 and 300 s, min below max.',
+    licenseTiersTitle: 'License tiers',
+    licenseTiersDescription: 'Create your own license tiers with your limits and prices, then pick which ones each beat offers from its edit page.',
+    licenseTiersEmpty: "You haven't created any tier yet. Your beats use the platform licenses.",
+    licenseTiersLoadError: 'Unable to load your license tiers.',
+    licenseTierNewTitle: 'New tier',
+    licenseTierEditTitle: 'Edit tier',
+    licenseTierNameLabel: 'Name',
+    licenseTierPriceLabel: 'Default price (€)',
+    licenseTierDescriptionLabel: 'Description',
+    licenseTierLimitsHint: 'Leave a limit empty to make it unlimited. Past purchases keep the terms they were sold with.',
+    licenseTierExclusiveLabel: 'Exclusive tier',
+    licenseTierExclusiveHint: 'Can only be offered on exclusive beats. Cannot be changed after creation.',
+    licenseTierExclusiveBadge: 'Exclusive',
+    licenseTierSave: 'Save tier',
+    licenseTierSaved: 'License tier saved.',
+    licenseTierSaveError: 'Unable to save the tier right now.',
+    licenseTierEdit: 'Edit',
+    licenseTierArchive: 'Archive',
+    licenseTierArchived: 'Tier archived and removed from the beats that offered it.',
+    licenseTierNameError: 'The name must be between 1 and 60 characters.',
+    licenseTierNameTaken: 'You already have a tier with this name.',
+    licenseTierPriceError: 'The price must be a positive amount.',
+    licenseTierLimitsError: 'Limits must be positive whole numbers.',
+    dealsTitle: 'Deals and bundles',
+    dealsDescription: 'Run "buy X get Y free" deals or sell several beats together at a bundle price. Deals apply automatically in the cart, never to exclusives.',
+    dealsEmpty: "You don't have any active deal.",
+    dealsLoadError: 'Unable to load your deals.',
+    dealNewTitle: 'New deal',
+    dealEditTitle: 'Edit deal',
+    dealTitleLabel: 'Name shown in the cart',
+    dealTypeLabel: 'Type',
+    dealTypeBuyGet: 'Buy X get Y free',
+    dealTypeBundle: 'Bundle',
+    dealBuyQuantityLabel: 'Beats to buy',
+    dealFreeQuantityLabel: 'Free beats',
+    dealBundlePriceLabel: 'Bundle price (€)',
+    dealProductsLabel: 'Beats',
+    dealBuyGetProductsHint: 'Leave everything unchecked to include all your beats. The cheapest beats of each group are the free ones.',
+    dealBundleProductsHint: 'Pick 2 to {max} beats. The bundle applies when they are all in the cart, whatever license is chosen.',
+    dealNoProducts: 'You have no non-exclusive beat on sale yet.',
+    dealBuyGetSummary: 'Buy {buy}, get {free} free',
+    dealBundleSummary: '{count} beats for {price}',
+    dealSave: 'Save deal',
+    dealSaved: 'Deal saved.',
+    dealSaveError: 'Unable to save the deal right now.',
+    dealEdit: 'Edit',
+    dealArchive: 'End deal',
+    dealArchived: 'Deal ended.',
+    dealTitleError: 'The name must be between 1 and 60 characters.',
+    dealQuantitiesError: 'Quantities must be at least 1 and add up to {max} beats at most.',
+    dealPriceError: 'The bundle price must be at least €1.',
+    dealProductsError: 'A bundle needs between 2 and {max} beats.',
+    promoCodesTitle: 'Promo codes',
+    promoCodesDescription: 'Create discount codes for one beat or your whole catalogue. Codes cannot be edited once created.',
+    promoCodesAdminDescription: 'Platform codes: the whole marketplace, one producer, one beat or producer subscriptions.',
+    promoCodesEmpty: 'No active promo code.',
+    promoCodesLoadError: 'Could not load promo codes.',
+    promoCodeNewTitle: 'New promo code',
+    promoCodeLabel: 'Code',
+    promoScopeLabel: 'Applies to',
+    promoScopeProduct: 'One beat',
+    promoScopeProducer: "All of the producer's beats",
+    promoScopeAllBeats: 'The whole marketplace',
+    promoScopePlan: 'Producer subscription',
+    promoDiscountTypeLabel: 'Discount',
+    promoDiscountPercent: 'Percentage',
+    promoDiscountFixed: 'Fixed amount',
+    promoPercentLabel: 'Discount (%)',
+    promoAmountLabel: 'Discount (€)',
+    promoProductLabel: 'Beat',
+    promoProductPlaceholder: 'Choose a beat',
+    promoProductIdLabel: 'Beat ID',
+    promoProducerIdLabel: 'Producer ID',
+    promoPlanTierLabel: 'Plan',
+    promoPlanTierAny: 'All plans',
+    promoMaxRedemptionsLabel: 'Maximum uses',
+    promoUnlimited: 'Unlimited',
+    promoPerUserLimitLabel: 'Uses per buyer',
+    promoExpiresAtLabel: 'Expiry date',
+    promoRedemptions: '{count}/{max} uses',
+    promoExpires: 'until {date}',
+    promoCodeSave: 'Create code',
+    promoCodeSaved: 'Promo code created.',
+    promoCodeSaveError: 'Could not save the promo code right now.',
+    promoCodeArchive: 'Disable',
+    promoCodeArchived: 'Promo code disabled.',
+    promoCodeTaken: 'This code already exists.',
+    promoCodeFormatError: 'The code must be 3 to 32 characters: letters, digits, - or _.',
+    promoDiscountError: 'The discount must be between 1 and 100%, or a positive amount.',
+    promoScopeError: 'Choose the beat the code applies to.',
+    promoLimitsError: 'Usage limits must be at least 1.',
+    promoDatesError: 'The expiry date must be in the future.',
   },
   dashboard: {
     title: 'Dashboard',
@@ -566,7 +794,22 @@ export const en: TranslationSchema = {
     standardType: 'Standard',
     downloadAudio: 'Download audio',
     downloadLicense: 'Download license',
+    downloadStems: 'Download stems',
+    stemsDownloadError: 'Stems download unavailable right now.',
+    stemsUnavailable: 'The producer has not delivered validated stems for this beat yet.',
     viewLicenseDetails: 'View license details',
+    upgradeLicense: 'Upgrade license',
+    upgradedBadge: 'Replaced by an upgrade',
+    disputedBadge: 'Payment disputed · access suspended',
+    upgradeModalTitle: 'Upgrade · {title}',
+    upgradeModalDescription: 'You only pay the difference with what you already paid ({paid}).',
+    upgradeLoading: 'Loading available licenses...',
+    upgradeLoadError: 'Could not load the available licenses.',
+    upgradeNone: 'No higher license is available for this beat.',
+    upgradeExclusiveLabel: 'Exclusive rights',
+    upgradeFullPrice: 'Full price {price}',
+    upgradeAmountDue: 'You pay {amount}',
+    upgradeError: 'The upgrade is not available right now.',
     recentWishlist: 'My recent wishlist',
     loadingWishlist: 'Loading your wishlist...',
     noWishlist: 'No favorite yet',
@@ -578,6 +821,12 @@ export const en: TranslationSchema = {
     downloadStarted: 'Download started',
     downloadError: 'Download unavailable right now.',
     contractDownloadError: 'Unable to download the contract right now (PDF unavailable).',
+    downloadInvoice: 'Invoice',
+    invoiceDownloadError: 'Unable to download the invoice right now.',
+    exportCsv: 'Export CSV',
+    exportPdf: 'Export PDF',
+    exportError: 'Unable to export your purchase history right now.',
+    subscriptionInvoicesTitle: 'Subscription invoices',
     licenseModalTitle: 'License details · {name}',
     licenseModalTitleDefault: 'License details',
     licenseModalDescription: 'Summary of the rights and limits associated with this purchase.',
@@ -701,6 +950,15 @@ export const en: TranslationSchema = {
   },
   producerDashboard: {
     protectedHistoryMessage: 'This product has completed battle history or sales. You can only hide it.',
+    qualityFailedTitle: 'Audio quality check failed: this beat stays unpublished until you upload a corrected master.',
+    qualityReasons: {
+      corrupt: 'The file is corrupt or could not be decoded.',
+      clipping: 'Too much clipping: {value} of samples at full scale (max {threshold}).',
+      silence: 'Mostly silent: {value} of the track is silence (max {threshold}).',
+      phase_inverted: 'Left and right channels cancel out (correlation {value}, min {threshold}).',
+      low_sample_rate: 'Sample rate too low: {value} (min {threshold}).',
+      low_bit_depth: 'Bit depth too low: {value} (min {threshold}).',
+    },
     advancedStatsUnavailable: 'Advanced stats are unavailable right now.',
     noLinkedSubscription: 'No linked Stripe subscription.',
     sessionExpired: 'Session expired. Please sign in again.',
@@ -852,6 +1110,12 @@ export const en: TranslationSchema = {
     descriptionPlaceholder: 'Describe the vibe, instruments, and licenses...',
     bpmPlaceholder: 'Ex: 140',
     keyPlaceholder: 'Ex: Am',
+    detectedSuggestion: 'Detected from the master: {value} ({confidence}% confidence)',
+    detectedMismatch: 'The master analysis suggests {value} ({confidence}% confidence). Double-check the value you entered.',
+    detectedMatch: 'Matches the master analysis',
+    applyDetected: 'Use',
+    analysisReady: 'Master analysis of "{title}" finished',
+    reviewDetected: 'Review the beat',
     audioLocked: 'Audio locked',
     currentMasterKept: 'The current master is kept because an active battle locks audio edits.',
     coverLocked: 'Cover locked',
@@ -868,11 +1132,45 @@ export const en: TranslationSchema = {
     exclusiveOptionLabel: 'Exclusive sale',
     exclusiveOptionHint: 'This title becomes a one-sale exclusive beat.',
     exclusiveStemsNotice: 'By checking this box, you confirm that all stems for this title are ready and available for immediate delivery to the label after purchase validation.',
+    licenseTiersTitle: 'License tiers offered',
+    licenseTiersDescription: 'Pick the tiers sold on this beat and their price. With none selected, the beat is sold at its base price.',
+    licenseTiersManage: 'Manage my tiers',
+    licenseTiersPlatform: 'Platform license',
+    licenseTiersPriceLabel: '{name} price (€)',
+    licenseTiersNone: 'No license tier is available for this beat.',
+    licenseTiersTooMany: 'Up to {count} tiers per beat.',
+    licenseTiersPriceError: 'Every selected tier needs a positive price.',
+    licenseTiersSave: 'Save tiers',
+    licenseTiersSaved: 'Beat license tiers saved.',
+    licenseTiersSaveError: "Unable to save this beat's license tiers.",
+    licenseTiersLoadError: "Unable to load this beat's license tiers.",
     genrePlaceholder: '— Select —',
     moodPlaceholder: '— Select —',
     tagsPlaceholder: 'E.g.: drill, dark, 808...',
     genreRequired: 'Please select a genre.',
     genreRecommended: 'Recommended',
+    stemsTitle: 'Stems / trackouts',
+    stemsHint: 'One ZIP of the full trackout or individual WAV files (500 MB max per file). Delivered with licenses that include stems.',
+    chooseStems: 'Choose stems',
+    stemsFormatError: 'Allowed formats: ZIP or WAV',
+    stemsSizeError: 'Max size: 500 MB per file',
+    stemsTooMany: 'Too many files: 32 max per upload',
+    stemsUploaded: 'Stems uploaded. Validation in progress.',
+    stemsUploadError: 'The beat was saved but the stems could not be uploaded.',
+    audioQualityFailed: 'This master failed the audio quality check. Upload a corrected master to publish a new version.',
+    existingStems: 'Uploaded stems',
+    removeStem: 'Remove stem',
+    removeStemError: 'Unable to remove this stem right now.',
+    stemStatus: {
+      pending: 'Validating',
+      valid: 'Valid',
+      warning: 'Check',
+      invalid: 'Rejected',
+    },
+    stemCount: '{count} stems',
+    stemSilent: 'Silent stem detected',
+    stemDurationDelta: 'Length differs from the master by {seconds}s',
+    stemInvalid: 'Unreadable audio: this file will not be delivered',
   },
   subscription: {
     title: 'Producer subscriptions',
@@ -937,6 +1235,20 @@ export const en: TranslationSchema = {
     unknownProducer: 'Unknown',
     itemBeat: 'Beat',
     itemKit: 'Kit',
+    dealDiscount: 'Deal: {title}',
+    promoCodeLabel: 'Promo code',
+    promoCodePlaceholder: 'e.g. SUMMER20',
+    promoCodeApply: 'Apply',
+    promoCodeRemove: 'Remove promo code',
+    promoDiscount: 'Code {code}',
+    promoCodeError: 'This code cannot be checked right now.',
+    promoCodeNotFound: 'This promo code does not exist.',
+    promoCodeNotStarted: 'This promo code is not active yet.',
+    promoCodeExpired: 'This promo code has expired.',
+    promoCodeNotApplicable: 'This promo code cannot be used here.',
+    promoCodeExhausted: 'This promo code has reached its usage limit.',
+    promoCodeAlreadyUsed: 'You have already used this promo code.',
+    currencyNotice: 'Prices are converted from euros at the current rate. You will be charged in {currency}.',
   },
   errors: {
     generic: 'An error occurred',
@@ -991,6 +1303,7 @@ export const en: TranslationSchema = {
     playbackDecodeError: 'Audio format not supported',
     playbackSourceNotSupported: 'Audio source not supported or unreachable',
     playbackUnknownError: 'Unknown media error',
+    seekWaveform: 'Seek in preview',
   },
   producersPage: {
     title: 'Active producers',
@@ -1016,6 +1329,16 @@ export const en: TranslationSchema = {
     backToCatalog: 'Back',
     unknownProducer: 'Unknown',
     noDescription: 'No description provided.',
+    licenseTiersTitle: 'Choose a license',
+    licenseTermMaxStreams: 'Max streams',
+    licenseTermMaxSales: 'Max sales',
+    licenseTermYoutubeMonetization: 'YouTube monetization',
+    licenseTermMusicVideoAllowed: 'Music video allowed',
+    licenseTermCreditRequired: 'Producer credit required',
+    licenseTermStemsIncluded: 'Stems included',
+    licenseTermUnlimited: 'Unlimited',
+    licenseTermYes: 'Yes',
+    licenseTermNo: 'No',
     availableCredits: 'Available credits',
     creditBalanceError: 'Unable to load your credit balance right now.',
     creditEligibleStatus: 'Eligible for credits',
@@ -1101,6 +1424,13 @@ export const en: TranslationSchema = {
     copyLink: 'Copy link',
     linkCopied: 'Link copied!',
     viewFeedbackReport: 'View feedback',
+    cypherPodium: 'Podium',
+    cypherPoints: '{count} pts',
+    cypherFirstPlaceVotes: '{count} first-place votes',
+    cypherNoVotes: 'No ballots yet. The podium appears with the first votes.',
+    cypherPreview: 'Preview - {name}',
+    blindNotice: 'Blind vote: names, profiles and participants’ comments stay hidden until the results. Each voter hears the beats in their own order.',
+    blindPreview: 'Preview - {label}',
     statusActive: 'Active',
     statusPendingAcceptance: 'Awaiting response',
     statusAwaitingAdmin: 'Awaiting admin',
@@ -1369,6 +1699,7 @@ export const en: TranslationSchema = {
     noEarnings: 'No earnings yet.',
     loadError: 'Unable to load earnings.',
     limitedDataMode: 'Limited data mode',
+    paidInCurrency: 'Buyer paid {amount} (rate {rate})',
   },
   admin: {
     layout: {
@@ -1521,6 +1852,39 @@ export const en: TranslationSchema = {
       updatedAt: 'Updated {date}',
       adjust: 'Adjust',
     },
+    audioMatches: {
+      title: 'Audio duplicates',
+      subtitle: "Beats whose audio fingerprint matches another producer's beat. They stay out of the catalog until reviewed.",
+      loadError: 'Unable to load audio duplicates.',
+      reviewError: 'Unable to save the review.',
+      confirmSuccess: 'Duplicate confirmed. The beat stays out of the catalog.',
+      dismissSuccess: 'Report dismissed.',
+      empty: 'No duplicates to show.',
+      filters: {
+        pending: 'To review',
+        confirmed: 'Confirmed',
+        dismissed: 'Dismissed',
+        all: 'All',
+      },
+      similarity: 'Similarity {value}%',
+      alignment: '{overlap} s in common, offset {offset} s',
+      detectedAt: 'Detected {date}',
+      uploadedBeat: 'Uploaded beat',
+      existingBeat: 'Existing beat',
+      untitled: 'Untitled',
+      byProducer: 'By {producer}',
+      unknownProducer: 'unknown producer',
+      uploadedAt: 'Uploaded {date}',
+      noPreview: 'No preview available.',
+      noteLabel: 'Review note',
+      notePlaceholder: 'Optional',
+      dismiss: 'Dismiss',
+      confirm: 'Confirm duplicate',
+      reviewed: {
+        confirmed: 'Duplicate confirmed {date}',
+        dismissed: 'Dismissed {date}',
+      },
+    },
     beatAnalytics: {
       title: 'Beat Analytics',
       subtitle: 'Qualitative battle vote analytics and Quality Index snapshots.',
@@ -1560,6 +1924,7 @@ export const en: TranslationSchema = {
       reputation: 'Reputation',
       revenue: 'Revenue',
       beatAnalytics: 'Beat Analytics',
+      audioMatches: 'Audio duplicates',
       settings: 'Settings',
     },
     revenue: {
@@ -1581,6 +1946,13 @@ export const en: TranslationSchema = {
       type: 'Type',
       typeCash: 'Cash',
       typeCredits: 'Credits',
+      promoCode: 'Promo code',
+      promoUsageTitle: 'Promo codes',
+      promoOwner: 'Created by',
+      promoRedemptions: 'Uses',
+      promoDiscount: 'Total discount',
+      promoUsageEmpty: 'No promo code yet.',
+      promoPlatform: 'Platform',
       empty: 'No completed transactions yet.',
     },
     settingsPage: {
@@ -1743,6 +2115,11 @@ export const en: TranslationSchema = {
       rpcAlreadyExpired: 'This battle is already expired.',
       rpcDurationLimitExceeded: 'Maximum duration exceeded (60 days).',
       rpcMaxExtensionsReached: 'Maximum number of extensions reached (5).',
+      rpcBlindVotingCompleted: 'Blind voting cannot be changed on a completed battle.',
+      enableBlindVoting: 'Blind voting',
+      disableBlindVoting: 'Reveal producers',
+      blindVotingEnabled: 'Blind voting enabled.',
+      blindVotingDisabled: 'Producers are visible again.',
       rpcGenericError: 'Admin action unavailable right now.',
       edgeNotDeployed: 'Function "{functionName}" is not deployed (404) on {projectRef}.',
       edgeUnauthorized: 'Invalid or expired session for "{functionName}" (401). Sign in again and retry.',
@@ -1837,6 +2214,102 @@ export const en: TranslationSchema = {
       scoreLabel: 'Score: {score}',
       producerStats: 'Refusals: {refusals} | Participations: {participated} | Completed: {completed}',
     },
+    tournaments: {
+      title: 'Tournaments',
+      publicPage: 'Public tournaments page',
+      loadError: 'Unable to load tournaments.',
+      empty: 'No tournament created yet.',
+      titleLabel: 'Title',
+      descriptionLabel: 'Description',
+      formatLabel: 'Format',
+      roundDurationLabel: 'Round duration (hours)',
+      create: 'Create tournament',
+      createSuccess: 'Tournament created.',
+      entrants: 'Entrants ({count})',
+      producerLabel: 'Producer',
+      selectProducer: 'Select a producer',
+      beatLabel: 'Beat',
+      selectBeat: 'Select a beat',
+      addEntrant: 'Add entrant',
+      removeEntrant: 'Remove',
+      start: 'Start tournament',
+      startSuccess: 'Tournament started, round 1 battles opened.',
+      advance: 'Advance rounds',
+      advanceSuccess: 'Tournament advanced.',
+      disqualify: 'Disqualify',
+      disqualifyPrompt: 'Reason for the disqualification (optional):',
+      disqualifySuccess: 'Entrant disqualified.',
+      awardBye: 'Bye for {name}',
+      byeSuccess: 'Bye awarded.',
+      saveDuration: 'Save',
+      durationSaved: 'Round duration updated.',
+      errorTitleRequired: 'A title is required.',
+      errorInvalidDuration: 'Round duration must be between 1 and 720 hours.',
+      errorProductInvalid: 'This beat cannot be entered for this producer.',
+      errorAlreadyStarted: 'This tournament has already started.',
+      errorNotEnoughEntrants: 'Not enough entrants for this format.',
+      errorMatchDecided: 'This match is already decided.',
+      errorMatchNotOpen: 'This match is not open yet.',
+    },
+    cypher: {
+      title: 'Cypher battles',
+      subtitle: 'Open a ranked battle between {min} and {max} producers. Voters rank their top 3 (3-2-1 points).',
+      titleLabel: 'Title',
+      descriptionLabel: 'Description',
+      durationLabel: 'Voting duration (hours)',
+      producerLabel: 'Producer',
+      producerPlaceholder: 'Select a producer',
+      beatLabel: 'Beat',
+      beatPlaceholder: 'Select a beat',
+      addEntrant: 'Add entrant',
+      removeEntrant: 'Remove entrant',
+      noEntrants: 'No entrant added yet.',
+      create: 'Open the cypher',
+      createSuccess: 'Cypher battle opened.',
+      openCreated: 'Open the created cypher',
+      errorTitleRequired: 'A title is required.',
+      errorInvalidDuration: 'Voting duration must be between 1 and 720 hours.',
+      errorEntrantCount: 'A cypher needs between {min} and {max} entrants.',
+      errorEntrantsInvalid: 'Each producer and beat can only be entered once.',
+      errorProductInvalid: 'An entrant is inactive or their beat is not eligible.',
+      errorProductOccupied: 'One of the beats is already in an open battle.',
+    },
+    sampleFlip: {
+      submissions: 'Submissions ({count}, {passed} accepted)',
+      noSubmissions: 'No flip submitted yet.',
+      reviewed: 'Reviewed',
+      detected: 'Detected: {bpm} BPM, key {key}',
+      preview: 'Flip preview',
+      accept: 'Accept',
+      reject: 'Reject',
+      launchAfterDeadline: 'Voting or a bracket can start once the submission deadline has passed.',
+      openVote: 'Open community vote',
+      bracket: 'Bracket into tournament',
+      voteOpened: 'Community vote opened.',
+      bracketStarted: 'Tournament started with the accepted flips.',
+      errorStillOpen: 'Submissions are still open.',
+      errorUnresolved: 'Some flips are still waiting for analysis or review.',
+      errorNotOpen: 'This challenge has already been launched.',
+      errorBeatNotEligible: 'An accepted flip is not published, or is not an active beat.',
+    },
+    judging: {
+      title: 'Judge panel',
+      weightLabel: 'Judges’ share of the final score (%)',
+      weightPlaceholder: 'Empty: community vote only',
+      saveWeight: 'Save formula',
+      weightSaved: 'Judging formula saved.',
+      panelDisabled: 'Judge panel turned off.',
+      usernameLabel: 'Judge username',
+      add: 'Add judge',
+      remove: 'Remove',
+      cardsSent: '{count}/{total} scorecards',
+      projection: 'Current projection',
+      projectionLine: '{name}: community {community}, judges {judges}/10, final {final}',
+      errorCompleted: 'This battle is over; its judge panel can no longer change.',
+      errorInvalidWeight: 'Enter a share between 0 and 100.',
+      errorUserNotFound: 'No user with this username.',
+      errorJudgeCompetes: 'A producer cannot judge their own battle.',
+    },
   },
   battleFeedback: {
     share: {
@@ -87,6 +87,7 @@ export const es: TranslationSchema = {
     myPurchases: 'Mis compras',
     mySales: 'Mis ventas',
     myProducts: 'Mis productos',
+    currency: 'Moneda',
   },
   auth: {
     loginTitle: 'Iniciar sesión',
@@ -333,6 +334,16 @@ export const es: TranslationSchema = {
     tooManyActions: 'Demasiadas acciones en poco tiempo. Reinténtalo en un minuto.',
     participantsCannotVote: 'Los participantes no pueden votar en su propia battle.',
     invalidVoteTarget: 'Opción de voto inválida.',
+    invalidBallot: 'Papeleta no válida: clasifica a tres participantes distintos.',
+    cypherBallotHint: 'Elige tu top {count} en orden: primer clic = 1.er puesto.',
+    cypherBallotRank: '#{rank}',
+    cypherSubmitBallot: 'Enviar mi clasificación',
+    cypherResetBallot: 'Reiniciar',
+    cypherBadge: 'Cypher',
+    cypherCardHint: 'Cypher con varios productores y voto por clasificación.',
+    blindBeatLabel: 'Beat {letter}',
+    blindBadge: 'Voto a ciegas',
+    blindCardHint: 'Voto a ciegas: los productores se revelan al terminar la batalla.',
     voteLoginRequired: 'Inicia sesión para votar.',
     voteUnavailable: 'No se puede votar por el momento.',
     voteBattleNotReady: 'Battle no lista para las votaciones.',
@@ -366,6 +377,112 @@ export const es: TranslationSchema = {
       artistic_vibe: 'Vibe artística',
     },
   },
+  tournaments: {
+    title: 'Torneos',
+    subtitle: 'Cuadros de eliminación entre productores, una batalla por enfrentamiento.',
+    backToBattles: 'Volver a las batallas',
+    backToTournaments: 'Todos los torneos',
+    loadError: 'No se pudieron cargar los torneos.',
+    notFound: 'Torneo no encontrado.',
+    empty: 'Todavía no hay torneos.',
+    formatSingle: 'Eliminación simple',
+    formatDouble: 'Doble eliminación',
+    entrantsCount: '{count} participantes',
+    startedAt: 'Comenzó el {date}',
+    statusRunning: 'En curso',
+    statusCompleted: 'Finalizado',
+    champion: 'Campeón: {name}',
+    viewBracket: 'Ver cuadro',
+    winnersBracket: 'Cuadro de ganadores',
+    losersBracket: 'Cuadro de perdedores',
+    grandFinal: 'Gran final',
+    final: 'Final',
+    semiFinal: 'Semifinal',
+    round: 'Ronda {round}',
+    losersRound: 'Ronda de perdedores {round}',
+    resolutionBye: 'Pase directo',
+    resolutionDisqualification: 'Descalificación',
+    resolutionTiebreak: 'Empate resuelto por cabeza de serie',
+    disqualified: 'descalificado',
+    bye: 'Pase directo',
+    tbd: 'Por definir',
+    votingEnds: 'La votación termina {date}',
+    openBattle: 'Ver batalla',
+    roundDuration: '{hours} h por ronda',
+  },
+  sampleFlip: {
+    title: 'Reto de sample flip',
+    downloadPack: 'Descargar el pack',
+    bpmLabel: 'Tempo',
+    bpmRange: '{min}-{max} BPM (se acepta medio o doble tempo)',
+    anyBpm: 'Cualquier tempo',
+    keysLabel: 'Tonalidades',
+    anyKey: 'Cualquier tonalidad',
+    deadlineLabel: 'Fecha límite de envío',
+    rules: 'Convierte el pack en un beat nuevo, subido después de abrir el reto. Cada flip se comprueba automáticamente cuando su audio ha sido analizado.',
+    loginToSubmit: 'Inicia sesión con una cuenta de productor para enviar tu flip.',
+    yourSubmission: 'Tu flip:',
+    noEligibleBeats: 'No has subido ningún beat desde que se abrió el reto.',
+    uploadLink: 'Sube tu flip',
+    beatLabel: 'Tu flip',
+    beatPlaceholder: 'Elige un beat nuevo',
+    submit: 'Enviar flip',
+    replace: 'Reemplazar mi flip',
+    submitted: 'Flip enviado.',
+    errorProducerRequired: 'Necesitas una cuenta de productor activa para participar.',
+    errorClosed: 'Los envíos para este reto están cerrados.',
+    errorBeatTooOld: 'Solo se aceptan beats subidos después de abrir el reto.',
+    errorInvalidBeat: 'Este beat no se puede enviar.',
+    errorGeneric: 'No se pudo enviar tu flip.',
+    status: {
+      pending_check: 'Esperando análisis',
+      passed: 'Aceptado',
+      failed: 'Rechazado',
+      needs_review: 'En revisión',
+    },
+    reason: {
+      analysis_failed: 'El análisis de audio falló.',
+      quality_failed: 'El beat no superó el control de calidad de audio.',
+      bpm_uncertain: 'No se pudo detectar el tempo de forma fiable.',
+      bpm_out_of_range: 'El tempo está fuera del rango permitido.',
+      key_uncertain: 'No se pudo detectar la tonalidad de forma fiable.',
+      key_not_allowed: 'La tonalidad no está entre las permitidas.',
+    },
+    preview: {
+      pending_check: 'Este beat aún no se ha analizado; se comprobará después del envío.',
+      passed: 'Este beat cumple las restricciones.',
+      failed: 'Este beat no cumple las restricciones:',
+      needs_review: 'Un admin revisará este beat:',
+    },
+  },
+  judging: {
+    scorecardTitle: 'Fichas del jurado',
+    scorecardHint: 'Puntúa cada criterio del 1 al 10. Tus notas son privadas; tu comentario se comparte con el productor cuando termina la batalla.',
+    average: 'Media {score}/10',
+    savedBadge: 'Guardada',
+    commentPlaceholder: 'Comentario para el productor (opcional)',
+    save: 'Guardar ficha',
+    saved: 'Ficha guardada.',
+    errorNotJudge: 'No formas parte del jurado de esta batalla.',
+    errorClosed: 'El jurado ya no puede puntuar esta batalla.',
+    errorIncomplete: 'Puntúa cada criterio del 1 al 10.',
+    errorCommentTooLong: 'Tu comentario es demasiado largo.',
+    errorGeneric: 'No se pudo guardar tu ficha.',
+    breakdownTitle: 'Jurado y comunidad',
+    panelSize: 'Jurado: {count}',
+    formula: 'Puntuación final = {judges} jurado + {community} voto de la comunidad',
+    pendingResults: 'El desglose se publica cuando termina la batalla.',
+    notScored: 'El jurado no puntuó esta batalla, así que decidió el voto de la comunidad.',
+    producerColumn: 'Productor',
+    communityColumn: 'Comunidad',
+    judgesColumn: 'Jurado',
+    finalColumn: 'Final',
+    unknownProducer: 'Productor',
+    criteriaFor: 'Medias del jurado para {name} ({count} fichas)',
+    commentsTitle: 'Comentarios del jurado',
+    commentBy: '{judge} sobre {name}',
+    anonymousJudge: 'Un miembro del jurado',
+  },
   producer: {
     dashboard: 'Panel del productor',
     overview: 'Vista general',
@@ -509,6 +626,117 @@ export const es: TranslationSchema = {
     deleteAccountCreditsValue: 'Tienes {credits} créditos en esta cuenta.',
     deleteAccountCreditsValueLoading: 'Cargando tu saldo de créditos...',
     deleteAccountLegalNote: 'Los créditos no son reembolsables salvo obligación legal.',
+    voiceTagTitle: 'Voice tag',
+    voiceTagDescription: 'Sustituye el watermark del sitio en tus previews por tu propio tag de productor. Al guardar se vuelven a generar tus previews publicadas.',
+    voiceTagEnabledLabel: 'Usar mi voice tag en mis previews',
+    voiceTagGainLabel: 'Ganancia (dB)',
+    voiceTagMinIntervalLabel: 'Intervalo mín. (s)',
+    voiceTagMaxIntervalLabel: 'Intervalo máx. (s)',
+    voiceTagCurrent: 'Tu voice tag está guardado.',
+    voiceTagSiteDefault: 'Aún no tienes voice tag: tus previews usan el watermark del sitio.',
+    voiceTagUploadLabel: 'Subir un voice tag',
+    voiceTagUploadHint: 'WAV o MP3, 10 MB máx. Que sea corto: se repite a lo largo de la preview.',
+    voiceTagSave: 'Guardar voice tag',
+    voiceTagSaved: 'Voice tag guardado. {count} previews en cola para regenerarse.',
+    voiceTagSaveError: 'No se puede guardar tu voice tag en este momento.',
+    voiceTagLoadError: 'No se pudo cargar tu voice tag.',
+    voiceTagFileError: 'El voice tag debe ser un archivo WAV o MP3 de menos de 10 MB.',
+    voiceTagRequired: 'Sube un voice tag antes de activarlo.',
+    voiceTagNumericError: 'La ganancia y los intervalos deben ser números (segundos enteros para los intervalos).',
+    voiceTagGainError: 'La ganancia debe estar entre -60 y 12 dB.',
+    voiceTagIntervalError: 'Los intervalos deben estar entre 5 y 300 s, el mínimo por debajo del máximo.',
+    licenseTiersTitle: 'Licencias',
+    licenseTiersDescription: 'Crea tus propias licencias con tus límites y precios, y elige cuáles ofrece cada beat desde su página de edición.',
+    licenseTiersEmpty: 'Aún no has creado ninguna licencia. Tus beats usan las licencias de la plataforma.',
+    licenseTiersLoadError: 'No se pudieron cargar tus licencias.',
+    licenseTierNewTitle: 'Nueva licencia',
+    licenseTierEditTitle: 'Editar licencia',
+    licenseTierNameLabel: 'Nombre',
+    licenseTierPriceLabel: 'Precio por defecto (€)',
+    licenseTierDescriptionLabel: 'Descripción',
+    licenseTierLimitsHint: 'Deja un límite vacío para que sea ilimitado. Las compras anteriores conservan las condiciones con las que se vendieron.',
+    licenseTierExclusiveLabel: 'Licencia exclusiva',
+    licenseTierExclusiveHint: 'Solo se puede ofrecer en beats exclusivos. No se puede cambiar después de crearla.',
+    licenseTierExclusiveBadge: 'Exclusiva',
+    licenseTierSave: 'Guardar licencia',
+    licenseTierSaved: 'Licencia guardada.',
+    licenseTierSaveError: 'No se pudo guardar la licencia en este momento.',
+    licenseTierEdit: 'Editar',
+    licenseTierArchive: 'Archivar',
+    licenseTierArchived: 'Licencia archivada y retirada de los beats que la ofrecían.',
+    licenseTierNameError: 'El nombre debe tener entre 1 y 60 caracteres.',
+    licenseTierNameTaken: 'Ya tienes una licencia con este nombre.',
+    licenseTierPriceError: 'El precio debe ser un importe positivo.',
+    licenseTierLimitsError: 'Los límites deben ser números enteros positivos.',
+    dealsTitle: 'Ofertas y packs',
+    dealsDescription: 'Crea ofertas «compra X y llévate Y gratis» o vende varios beats juntos a precio de pack. Las ofertas se aplican automáticamente en el carrito, nunca a los exclusivos.',
+    dealsEmpty: 'No tienes ninguna oferta activa.',
+    dealsLoadError: 'No se pudieron cargar tus ofertas.',
+    dealNewTitle: 'Nueva oferta',
+    dealEditTitle: 'Editar oferta',
+    dealTitleLabel: 'Nombre visible en el carrito',
+    dealTypeLabel: 'Tipo',
+    dealTypeBuyGet: 'Compra X, llévate Y gratis',
+    dealTypeBundle: 'Pack',
+    dealBuyQuantityLabel: 'Beats a comprar',
+    dealFreeQuantityLabel: 'Beats gratis',
+    dealBundlePriceLabel: 'Precio del pack (€)',
+    dealProductsLabel: 'Beats',
+    dealBuyGetProductsHint: 'No marques nada para incluir todos tus beats. Los beats más baratos de cada grupo son los gratuitos.',
+    dealBundleProductsHint: 'Elige de 2 a {max} beats. El pack se aplica cuando están todos en el carrito, sea cual sea la licencia elegida.',
+    dealNoProducts: 'Todavía no tienes ningún beat no exclusivo a la venta.',
+    dealBuyGetSummary: 'Compra {buy}, llévate {free} gratis',
+    dealBundleSummary: '{count} beats por {price}',
+    dealSave: 'Guardar oferta',
+    dealSaved: 'Oferta guardada.',
+    dealSaveError: 'No se pudo guardar la oferta en este momento.',
+    dealEdit: 'Editar',
+    dealArchive: 'Terminar oferta',
+    dealArchived: 'Oferta terminada.',
+    dealTitleError: 'El nombre debe tener entre 1 y 60 caracteres.',
+    dealQuantitiesError: 'Las cantidades deben ser al menos 1 y sumar como máximo {max} beats.',
+    dealPriceError: 'El precio del pack debe ser de al menos 1 €.',
+    dealProductsError: 'Un pack necesita entre 2 y {max} beats.',
+    promoCodesTitle: 'Códigos promocionales',
+    promoCodesDescription: 'Crea códigos de descuento para un beat o para todo tu catálogo. Los códigos no se pueden modificar una vez creados.',
+    promoCodesAdminDescription: 'Códigos de la plataforma: todo el marketplace, un productor, un beat o las suscripciones de productor.',
+    promoCodesEmpty: 'Ningún código promocional activo.',
+    promoCodesLoadError: 'No se pudieron cargar los códigos promocionales.',
+    promoCodeNewTitle: 'Nuevo código promocional',
+    promoCodeLabel: 'Código',
+    promoScopeLabel: 'Se aplica a',
+    promoScopeProduct: 'Un beat',
+    promoScopeProducer: 'Todos los beats del productor',
+    promoScopeAllBeats: 'Todo el marketplace',
+    promoScopePlan: 'Suscripción de productor',
+    promoDiscountTypeLabel: 'Descuento',
+    promoDiscountPercent: 'Porcentaje',
+    promoDiscountFixed: 'Importe fijo',
+    promoPercentLabel: 'Descuento (%)',
+    promoAmountLabel: 'Descuento (€)',
+    promoProductLabel: 'Beat',
+    promoProductPlaceholder: 'Elige un beat',
+    promoProductIdLabel: 'ID del beat',
+    promoProducerIdLabel: 'ID del productor',
+    promoPlanTierLabel: 'Plan',
+    promoPlanTierAny: 'Todos los planes',
+    promoMaxRedemptionsLabel: 'Usos máximos',
+    promoUnlimited: 'Ilimitado',
+    promoPerUserLimitLabel: 'Usos por comprador',
+    promoExpiresAtLabel: 'Fecha de caducidad',
+    promoRedemptions: '{count}/{max} usos',
+    promoExpires: 'hasta el {date}',
+    promoCodeSave: 'Crear código',
+    promoCodeSaved: 'Código promocional creado.',
+    promoCodeSaveError: 'No se pudo guardar el código promocional ahora mismo.',
+    promoCodeArchive: 'Desactivar',
+    promoCodeArchived: 'Código promocional desactivado.',
+    promoCodeTaken: 'Este código ya existe.',
+    promoCodeFormatError: 'El código debe tener de 3 a 32 caracteres: letras, cifras, - o _.',
+    promoDiscountError: 'El descuento debe estar entre 1 y 100 %, o ser un importe positivo.',
+    promoScopeError: 'Elige el beat al que se aplica el código.',
+    promoLimitsError: 'Los límites de uso deben ser al menos 1.',
+    promoDatesError: 'La fecha de caducidad debe ser futura.',
   },
   dashboard: {
     title: 'Panel',
@@ -566,7 +794,22 @@ export const es: TranslationSchema = {
     standardType: 'Estándar',
     downloadAudio: 'Descargar audio',
     downloadLicense: 'Descargar licencia',
+    downloadStems: 'Descargar stems',
+    stemsDownloadError: 'Descarga de stems no disponible en este momento.',
+    stemsUnavailable: 'El productor aún no ha entregado stems validados para este beat.',
     viewLicenseDetails: 'Ver detalles de la licencia',
+    upgradeLicense: 'Mejorar licencia',
+    upgradedBadge: 'Sustituida por una mejora',
+    disputedBadge: 'Pago impugnado · acceso suspendido',
+    upgradeModalTitle: 'Mejorar · {title}',
+    upgradeModalDescription: 'Solo pagas la diferencia con lo que ya pagaste ({paid}).',
+    upgradeLoading: 'Cargando licencias disponibles...',
+    upgradeLoadError: 'No se pudieron cargar las licencias disponibles.',
+    upgradeNone: 'No hay ninguna licencia superior disponible para este beat.',
+    upgradeExclusiveLabel: 'Derechos exclusivos',
+    upgradeFullPrice: 'Precio normal {price}',
+    upgradeAmountDue: 'A pagar {amount}',
+    upgradeError: 'La mejora no está disponible en este momento.',
     recentWishlist: 'Mis favoritos recientes',
     loadingWishlist: 'Cargando tus favoritos...',
     noWishlist: 'Ningún favorito por ahora',
@@ -578,6 +821,12 @@ export const es: TranslationSchema = {
     downloadStarted: 'Descarga iniciada',
     downloadError: 'Descarga no disponible por el momento.',
     contractDownloadError: 'Descarga del contrato no disponible por el momento (PDF no disponible).',
+    downloadInvoice: 'Factura',
+    invoiceDownloadError: 'No se puede descargar la factura en este momento.',
+    exportCsv: 'Exportar CSV',
+    exportPdf: 'Exportar PDF',
+    exportError: 'No se puede exportar el historial de compras en este momento.',
+    subscriptionInvoicesTitle: 'Facturas de suscripción',
     licenseModalTitle: 'Detalles de la licencia · {name}',
     licenseModalTitleDefault: 'Detalles de la licencia',
     licenseModalDescription: 'Resumen de los derechos y límites asociados a esta compra.',
@@ -701,6 +950,15 @@ export const es: TranslationSchema = {
   },
   producerDashboard: {
     protectedHistoryMessage: 'Este producto ha participado en una battle terminada o tiene ventas. Solo puedes ocultarlo.',
+    qualityFailedTitle: 'Control de calidad de audio fallido: este beat sigue sin publicar hasta que subas un master corregido.',
+    qualityReasons: {
+      corrupt: 'El archivo está dañado o no se pudo decodificar.',
+      clipping: 'Demasiada saturación: {value} de las muestras a escala completa (máx. {threshold}).',
+      silence: 'Mayormente silencio: {value} de la pista es silencio (máx. {threshold}).',
+      phase_inverted: 'Los canales izquierdo y derecho se anulan (correlación {value}, mín. {threshold}).',
+      low_sample_rate: 'Frecuencia de muestreo demasiado baja: {value} (mín. {threshold}).',
+      low_bit_depth: 'Profundidad de bits demasiado baja: {value} (mín. {threshold}).',
+    },
     advancedStatsUnavailable: 'Estadísticas avanzadas no disponibles por el momento.',
     noLinkedSubscription: 'Ninguna suscripción Stripe vinculada.',
     sessionExpired: 'Sesión caducada. Vuelve a conectarte.',
@@ -852,6 +1110,12 @@ export const es: TranslationSchema = {
     descriptionPlaceholder: 'Describe el ambiente, los instrumentos, las licencias...',
     bpmPlaceholder: 'Ej: 140',
     keyPlaceholder: 'Ej: Am',
+    detectedSuggestion: 'Detectado en el máster: {value} (confianza {confidence} %)',
+    detectedMismatch: 'El análisis del máster indica {value} (confianza {confidence} %). Revisa el valor introducido.',
+    detectedMatch: 'Coincide con el análisis del máster',
+    applyDetected: 'Usar',
+    analysisReady: 'Análisis del máster de «{title}» terminado',
+    reviewDetected: 'Revisar el beat',
     audioLocked: 'Audio bloqueado',
     currentMasterKept: 'El master actual se conserva porque una battle activa bloquea el audio.',
     coverLocked: 'Portada bloqueada',
@@ -868,11 +1132,45 @@ export const es: TranslationSchema = {
     exclusiveOptionLabel: 'Venta exclusiva',
     exclusiveOptionHint: 'El título se convierte en un beat exclusivo de venta única.',
     exclusiveStemsNotice: 'Al marcar esta casilla, confirmas que todos los stems del título están listos y disponibles para ser entregados inmediatamente al sello tras la validación de la compra.',
+    licenseTiersTitle: 'Licencias ofrecidas',
+    licenseTiersDescription: 'Elige las licencias que se venden en este beat y su precio. Sin selección, el beat se vende a su precio base.',
+    licenseTiersManage: 'Gestionar mis licencias',
+    licenseTiersPlatform: 'Licencia de la plataforma',
+    licenseTiersPriceLabel: 'Precio de {name} (€)',
+    licenseTiersNone: 'No hay licencias disponibles para este beat.',
+    licenseTiersTooMany: 'Hasta {count} licencias por beat.',
+    licenseTiersPriceError: 'Cada licencia seleccionada necesita un precio positivo.',
+    licenseTiersSave: 'Guardar licencias',
+    licenseTiersSaved: 'Licencias del beat guardadas.',
+    licenseTiersSaveError: 'No se pudieron guardar las licencias de este beat.',
+    licenseTiersLoadError: 'No se pudieron cargar las licencias de este beat.',
     genrePlaceholder: '— Seleccionar —',
     moodPlaceholder: '— Seleccionar —',
     tagsPlaceholder: 'Ej: drill, oscuro, 808...',
     genreRequired: 'Por favor, elige un género.',
     genreRecommended: 'Recomendado',
+    stemsTitle: 'Stems / trackouts',
+    stemsHint: 'Un ZIP con el trackout completo o archivos WAV individuales (500 MB máx. por archivo). Se entregan con las licencias que incluyen stems.',
+    chooseStems: 'Elegir stems',
+    stemsFormatError: 'Formatos permitidos: ZIP o WAV',
+    stemsSizeError: 'Tamaño máx.: 500 MB por archivo',
+    stemsTooMany: 'Demasiados archivos: 32 máx. por subida',
+    stemsUploaded: 'Stems subidos. Validación en curso.',
+    stemsUploadError: 'El beat se guardó pero no se pudieron subir los stems.',
+    audioQualityFailed: 'Este master no ha superado el control de calidad de audio. Sube un master corregido para publicar una nueva versión.',
+    existingStems: 'Stems subidos',
+    removeStem: 'Eliminar stem',
+    removeStemError: 'No se puede eliminar este stem ahora mismo.',
+    stemStatus: {
+      pending: 'Validando',
+      valid: 'Válido',
+      warning: 'Revisar',
+      invalid: 'Rechazado',
+    },
+    stemCount: '{count} stems',
+    stemSilent: 'Stem silencioso detectado',
+    stemDurationDelta: 'La duración difiere del master en {seconds}s',
+    stemInvalid: 'Audio ilegible: este archivo no se entregará',
   },
   subscription: {
     title: 'Suscripciones de productor',
@@ -937,6 +1235,20 @@ export const es: TranslationSchema = {
     unknownProducer: 'Desconocido',
     itemBeat: 'Beat',
     itemKit: 'Kit',
+    dealDiscount: 'Oferta: {title}',
+    promoCodeLabel: 'Código promocional',
+    promoCodePlaceholder: 'Ej. SUMMER20',
+    promoCodeApply: 'Aplicar',
+    promoCodeRemove: 'Quitar el código promocional',
+    promoDiscount: 'Código {code}',
+    promoCodeError: 'No se puede verificar este código ahora mismo.',
+    promoCodeNotFound: 'Este código promocional no existe.',
+    promoCodeNotStarted: 'Este código promocional aún no está activo.',
+    promoCodeExpired: 'Este código promocional ha caducado.',
+    promoCodeNotApplicable: 'Este código promocional no se puede usar aquí.',
+    promoCodeExhausted: 'Este código promocional ha alcanzado su límite de usos.',
+    promoCodeAlreadyUsed: 'Ya has usado este código promocional.',
+    currencyNotice: 'Precios convertidos desde euros al tipo de cambio actual. Se te cobrará en {currency}.',
   },
   errors: {
     generic: 'Ha ocurrido un error',
@@ -991,6 +1303,7 @@ export const es: TranslationSchema = {
     playbackDecodeError: 'Formato de audio no compatible',
     playbackSourceNotSupported: 'Fuente de audio no compatible o inaccesible',
     playbackUnknownError: 'Error de medio desconocido',
+    seekWaveform: 'Desplazarse en el fragmento',
   },
   producersPage: {
     title: 'Productores activos',
@@ -1016,6 +1329,16 @@ export const es: TranslationSchema = {
     backToCatalog: 'Volver',
     unknownProducer: 'Desconocido',
     noDescription: 'Sin descripción proporcionada.',
+    licenseTiersTitle: 'Elige una licencia',
+    licenseTermMaxStreams: 'Streams máx.',
+    licenseTermMaxSales: 'Ventas máx.',
+    licenseTermYoutubeMonetization: 'Monetización en YouTube',
+    licenseTermMusicVideoAllowed: 'Videoclip permitido',
+    licenseTermCreditRequired: 'Crédito al productor obligatorio',
+    licenseTermStemsIncluded: 'Stems incluidos',
+    licenseTermUnlimited: 'Ilimitado',
+    licenseTermYes: 'Sí',
+    licenseTermNo: 'No',
     availableCredits: 'Créditos disponibles',
     creditBalanceError: 'No se ha podido cargar tu saldo de créditos por el momento.',
     creditEligibleStatus: 'Elegible para créditos',
@@ -1101,6 +1424,13 @@ export const es: TranslationSchema = {
     copyLink: 'Copiar el enlace',
     linkCopied: '¡Enlace copiado!',
     viewFeedbackReport: 'Ver feedback',
+    cypherPodium: 'Podio',
+    cypherPoints: '{count} pts',
+    cypherFirstPlaceVotes: '{count} votos en 1.er puesto',
+    cypherNoVotes: 'Todavía no hay papeletas. El podio aparece con los primeros votos.',
+    cypherPreview: 'Vista previa - {name}',
+    blindNotice: 'Voto a ciegas: los nombres, perfiles y comentarios de los participantes permanecen ocultos hasta los resultados. Cada votante escucha los beats en su propio orden.',
+    blindPreview: 'Vista previa - {label}',
     statusActive: 'En curso',
     statusPendingAcceptance: 'En espera de respuesta',
     statusAwaitingAdmin: 'En espera admin',
@@ -1369,6 +1699,7 @@ export const es: TranslationSchema = {
     noEarnings: 'Ningún ingreso por ahora.',
     loadError: 'No se han podido cargar tus ingresos.',
     limitedDataMode: 'Modo datos limitado',
+    paidInCurrency: 'Pagado por el comprador: {amount} (tipo {rate})',
   },
   admin: {
     layout: {
@@ -1521,6 +1852,39 @@ export const es: TranslationSchema = {
       updatedAt: 'Act. {date}',
       adjust: 'Ajustar',
     },
+    audioMatches: {
+      title: 'Duplicados de audio',
+      subtitle: 'Beats cuya huella de audio coincide con el beat de otro productor. Quedan fuera del catálogo hasta la revisión.',
+      loadError: 'No se pudieron cargar los duplicados de audio.',
+      reviewError: 'No se pudo guardar la revisión.',
+      confirmSuccess: 'Duplicado confirmado. El beat queda fuera del catálogo.',
+      dismissSuccess: 'Aviso descartado.',
+      empty: 'No hay duplicados que mostrar.',
+      filters: {
+        pending: 'Por revisar',
+        confirmed: 'Confirmados',
+        dismissed: 'Descartados',
+        all: 'Todos',
+      },
+      similarity: 'Similitud {value}%',
+      alignment: '{overlap} s en común, desfase {offset} s',
+      detectedAt: 'Detectado {date}',
+      uploadedBeat: 'Beat subido',
+      existingBeat: 'Beat existente',
+      untitled: 'Sin título',
+      byProducer: 'Por {producer}',
+      unknownProducer: 'productor desconocido',
+      uploadedAt: 'Subido {date}',
+      noPreview: 'No hay preview disponible.',
+      noteLabel: 'Nota de revisión',
+      notePlaceholder: 'Opcional',
+      dismiss: 'Descartar',
+      confirm: 'Confirmar duplicado',
+      reviewed: {
+        confirmed: 'Duplicado confirmado {date}',
+        dismissed: 'Descartado {date}',
+      },
+    },
     beatAnalytics: {
       title: 'Beat Analytics',
       subtitle: 'Análisis cualitativo de los votos battles y snapshots Quality Index.',
@@ -1560,6 +1924,7 @@ export const es: TranslationSchema = {
       reputation: 'Reputación',
       revenue: 'Revenue',
       beatAnalytics: 'Beat Analytics',
+      audioMatches: 'Duplicados de audio',
       settings: 'Ajustes',
     },
     revenue: {
@@ -1581,6 +1946,13 @@ export const es: TranslationSchema = {
       type: 'Tipo',
       typeCash: 'Efectivo',
       typeCredits: 'Créditos',
+      promoCode: 'Código promocional',
+      promoUsageTitle: 'Códigos promocionales',
+      promoOwner: 'Creado por',
+      promoRedemptions: 'Usos',
+      promoDiscount: 'Descuento total',
+      promoUsageEmpty: 'Todavía no hay códigos promocionales.',
+      promoPlatform: 'Plataforma',
       empty: 'Ninguna transacción terminada por ahora.',
     },
     settingsPage: {
@@ -1743,6 +2115,11 @@ export const es: TranslationSchema = {
       rpcAlreadyExpired: 'La battle ya ha caducado.',
       rpcDurationLimitExceeded: 'Límite máximo de duración superado (60 días).',
       rpcMaxExtensionsReached: 'Número máximo de extensiones alcanzado (5).',
+      rpcBlindVotingCompleted: 'El voto a ciegas no se puede cambiar en una batalla terminada.',
+      enableBlindVoting: 'Voto a ciegas',
+      disableBlindVoting: 'Mostrar productores',
+      blindVotingEnabled: 'Voto a ciegas activado.',
+      blindVotingDisabled: 'Los productores vuelven a ser visibles.',
       rpcGenericError: 'Acción admin no disponible por el momento.',
       edgeNotDeployed: 'Función "{functionName}" no desplegada (404) en {projectRef}.',
       edgeUnauthorized: 'Sesión inválida o caducada para "{functionName}" (401). Reconéctate y reinténtalo.',
@@ -1837,6 +2214,102 @@ export const es: TranslationSchema = {
       scoreLabel: 'Puntuación: {score}',
       producerStats: 'Rechazos: {refusals} | Participaciones: {participated} | Completadas: {completed}',
     },
+    tournaments: {
+      title: 'Torneos',
+      publicPage: 'Página pública de torneos',
+      loadError: 'No se pudieron cargar los torneos.',
+      empty: 'Todavía no se ha creado ningún torneo.',
+      titleLabel: 'Título',
+      descriptionLabel: 'Descripción',
+      formatLabel: 'Formato',
+      roundDurationLabel: 'Duración de ronda (horas)',
+      create: 'Crear torneo',
+      createSuccess: 'Torneo creado.',
+      entrants: 'Participantes ({count})',
+      producerLabel: 'Productor',
+      selectProducer: 'Selecciona un productor',
+      beatLabel: 'Beat',
+      selectBeat: 'Selecciona un beat',
+      addEntrant: 'Añadir',
+      removeEntrant: 'Quitar',
+      start: 'Iniciar torneo',
+      startSuccess: 'Torneo iniciado, batallas de la ronda 1 abiertas.',
+      advance: 'Avanzar rondas',
+      advanceSuccess: 'Torneo actualizado.',
+      disqualify: 'Descalificar',
+      disqualifyPrompt: 'Motivo de la descalificación (opcional):',
+      disqualifySuccess: 'Participante descalificado.',
+      awardBye: 'Pase directo para {name}',
+      byeSuccess: 'Pase directo concedido.',
+      saveDuration: 'Guardar',
+      durationSaved: 'Duración de ronda actualizada.',
+      errorTitleRequired: 'El título es obligatorio.',
+      errorInvalidDuration: 'La duración debe estar entre 1 y 720 horas.',
+      errorProductInvalid: 'Este beat no puede inscribirse para este productor.',
+      errorAlreadyStarted: 'Este torneo ya ha comenzado.',
+      errorNotEnoughEntrants: 'No hay suficientes participantes para este formato.',
+      errorMatchDecided: 'Este enfrentamiento ya está decidido.',
+      errorMatchNotOpen: 'Este enfrentamiento aún no está abierto.',
+    },
+    cypher: {
+      title: 'Batallas cypher',
+      subtitle: 'Abre una batalla por clasificación entre {min} y {max} productores. Los votantes clasifican su top 3 (3-2-1 puntos).',
+      titleLabel: 'Título',
+      descriptionLabel: 'Descripción',
+      durationLabel: 'Duración de la votación (horas)',
+      producerLabel: 'Productor',
+      producerPlaceholder: 'Selecciona un productor',
+      beatLabel: 'Beat',
+      beatPlaceholder: 'Selecciona un beat',
+      addEntrant: 'Añadir',
+      removeEntrant: 'Quitar participante',
+      noEntrants: 'Todavía no hay participantes.',
+      create: 'Abrir el cypher',
+      createSuccess: 'Batalla cypher abierta.',
+      openCreated: 'Ver el cypher creado',
+      errorTitleRequired: 'El título es obligatorio.',
+      errorInvalidDuration: 'La duración de la votación debe estar entre 1 y 720 horas.',
+      errorEntrantCount: 'Un cypher necesita entre {min} y {max} participantes.',
+      errorEntrantsInvalid: 'Cada productor y cada beat solo pueden inscribirse una vez.',
+      errorProductInvalid: 'Un participante está inactivo o su beat no es elegible.',
+      errorProductOccupied: 'Uno de los beats ya está en una batalla abierta.',
+    },
+    sampleFlip: {
+      submissions: 'Envíos ({count}, {passed} aceptados)',
+      noSubmissions: 'Todavía no hay flips enviados.',
+      reviewed: 'Revisado',
+      detected: 'Detectado: {bpm} BPM, tonalidad {key}',
+      preview: 'Vista previa del flip',
+      accept: 'Aceptar',
+      reject: 'Rechazar',
+      launchAfterDeadline: 'La votación o el torneo pueden empezar cuando pase la fecha límite de envío.',
+      openVote: 'Abrir votación de la comunidad',
+      bracket: 'Crear torneo',
+      voteOpened: 'Votación de la comunidad abierta.',
+      bracketStarted: 'Torneo iniciado con los flips aceptados.',
+      errorStillOpen: 'Los envíos siguen abiertos.',
+      errorUnresolved: 'Algunos flips siguen esperando análisis o revisión.',
+      errorNotOpen: 'Este reto ya se ha lanzado.',
+      errorBeatNotEligible: 'Un flip aceptado no está publicado o no es un beat activo.',
+    },
+    judging: {
+      title: 'Jurado',
+      weightLabel: 'Peso del jurado en la puntuación final (%)',
+      weightPlaceholder: 'Vacío: solo voto de la comunidad',
+      saveWeight: 'Guardar fórmula',
+      weightSaved: 'Fórmula del jurado guardada.',
+      panelDisabled: 'Jurado desactivado.',
+      usernameLabel: 'Usuario del juez',
+      add: 'Añadir juez',
+      remove: 'Quitar',
+      cardsSent: '{count}/{total} fichas',
+      projection: 'Proyección actual',
+      projectionLine: '{name}: comunidad {community}, jurado {judges}/10, final {final}',
+      errorCompleted: 'Esta batalla ha terminado; su jurado ya no puede cambiar.',
+      errorInvalidWeight: 'Introduce un peso entre 0 y 100.',
+      errorUserNotFound: 'Ningún usuario con ese nombre.',
+      errorJudgeCompetes: 'Un productor no puede juzgar su propia batalla.',
+    },
   },
   battleFeedback: {
     share: {
@@ -86,6 +86,7 @@ export const fr = {
     myPurchases: 'Mes achats',
     mySales: 'Mes ventes',
     myProducts: 'Mes produits',
+    currency: 'Devise',
   },
   auth: {
     loginTitle: 'Connexion',
@@ -332,6 +333,16 @@ export const fr = {
     tooManyActions: 'Trop d’actions en peu de temps. Reessaie dans une minute.',
     participantsCannotVote: 'Les participants ne peuvent pas voter dans leur propre battle.',
     invalidVoteTarget: 'Choix de vote invalide.',
+    invalidBallot: 'Bulletin invalide : classe trois participants differents.',
+    cypherBallotHint: 'Choisis ton top {count} dans l’ordre : premier clic = 1re place.',
+    cypherBallotRank: '#{rank}',
+    cypherSubmitBallot: 'Valider mon classement',
+    cypherResetBallot: 'Recommencer',
+    cypherBadge: 'Cypher',
+    cypherCardHint: 'Cypher a plusieurs producteurs avec vote classe.',
+    blindBeatLabel: 'Beat {letter}',
+    blindBadge: 'Vote a l’aveugle',
+    blindCardHint: 'Vote a l’aveugle : les producteurs sont reveles a la fin de la battle.',
     voteLoginRequired: 'Connectez-vous pour voter.',
     voteUnavailable: 'Vote impossible pour le moment.',
     voteBattleNotReady: 'Battle non prete pour les votes.',
@@ -365,6 +376,112 @@ export const fr = {
       artistic_vibe: 'Vibe artistique',
     },
   },
+  tournaments: {
+    title: 'Tournois',
+    subtitle: 'Tableaux a elimination entre producteurs, une battle par match.',
+    backToBattles: 'Retour aux battles',
+    backToTournaments: 'Tous les tournois',
+    loadError: 'Impossible de charger les tournois.',
+    notFound: 'Tournoi introuvable.',
+    empty: 'Aucun tournoi pour le moment.',
+    formatSingle: 'Elimination simple',
+    formatDouble: 'Double elimination',
+    entrantsCount: '{count} participants',
+    startedAt: 'Commence le {date}',
+    statusRunning: 'En cours',
+    statusCompleted: 'Termine',
+    champion: 'Champion : {name}',
+    viewBracket: 'Voir le tableau',
+    winnersBracket: 'Tableau principal',
+    losersBracket: 'Tableau des repechages',
+    grandFinal: 'Grande finale',
+    final: 'Finale',
+    semiFinal: 'Demi-finale',
+    round: 'Tour {round}',
+    losersRound: 'Repechage tour {round}',
+    resolutionBye: 'Exempt',
+    resolutionDisqualification: 'Disqualification',
+    resolutionTiebreak: 'Egalite departagee par le classement',
+    disqualified: 'disqualifie',
+    bye: 'Exempt',
+    tbd: 'A determiner',
+    votingEnds: 'Fin des votes {date}',
+    openBattle: 'Voir la battle',
+    roundDuration: '{hours}h par tour',
+  },
+  sampleFlip: {
+    title: 'Defi sample flip',
+    downloadPack: 'Telecharger le pack',
+    bpmLabel: 'Tempo',
+    bpmRange: '{min}-{max} BPM (demi ou double tempo accepte)',
+    anyBpm: 'Tempo libre',
+    keysLabel: 'Tonalites',
+    anyKey: 'Tonalite libre',
+    deadlineLabel: 'Date limite d’envoi',
+    rules: 'Transforme le pack en un beat inedit, mis en ligne apres l’ouverture du defi. Chaque flip est verifie automatiquement une fois son audio analyse.',
+    loginToSubmit: 'Connecte-toi avec un compte producteur pour envoyer ton flip.',
+    yourSubmission: 'Ton flip :',
+    noEligibleBeats: 'Aucun beat mis en ligne depuis l’ouverture du defi.',
+    uploadLink: 'Mettre en ligne ton flip',
+    beatLabel: 'Ton flip',
+    beatPlaceholder: 'Choisis un nouveau beat',
+    submit: 'Envoyer le flip',
+    replace: 'Remplacer mon flip',
+    submitted: 'Flip envoye.',
+    errorProducerRequired: 'Un compte producteur actif est requis pour participer.',
+    errorClosed: 'Les envois sont fermes pour ce defi.',
+    errorBeatTooOld: 'Seuls les beats mis en ligne apres l’ouverture du defi sont acceptes.',
+    errorInvalidBeat: 'Ce beat ne peut pas etre envoye.',
+    errorGeneric: 'Impossible d’envoyer ton flip.',
+    status: {
+      pending_check: 'En attente d’analyse',
+      passed: 'Accepte',
+      failed: 'Refuse',
+      needs_review: 'En verification',
+    },
+    reason: {
+      analysis_failed: 'L’analyse audio a echoue.',
+      quality_failed: 'Le beat n’a pas passe le controle qualite audio.',
+      bpm_uncertain: 'Le tempo n’a pas pu etre detecte de facon fiable.',
+      bpm_out_of_range: 'Le tempo est hors de la plage autorisee.',
+      key_uncertain: 'La tonalite n’a pas pu etre detectee de facon fiable.',
+      key_not_allowed: 'La tonalite ne fait pas partie des tonalites autorisees.',
+    },
+    preview: {
+      pending_check: 'Ce beat n’a pas encore ete analyse ; il sera verifie apres l’envoi.',
+      passed: 'Ce beat respecte les contraintes.',
+      failed: 'Ce beat ne respecte pas les contraintes :',
+      needs_review: 'Ce beat sera verifie par un admin :',
+    },
+  },
+  judging: {
+    scorecardTitle: 'Fiches du jury',
+    scorecardHint: 'Note chaque critere de 1 a 10. Tes notes restent privees ; ton commentaire est partage avec le producteur a la fin de la battle.',
+    average: 'Moyenne {score}/10',
+    savedBadge: 'Enregistree',
+    commentPlaceholder: 'Commentaire pour le producteur (facultatif)',
+    save: 'Enregistrer la fiche',
+    saved: 'Fiche enregistree.',
+    errorNotJudge: 'Tu ne fais pas partie du jury de cette battle.',
+    errorClosed: 'Le jury ne peut plus noter cette battle.',
+    errorIncomplete: 'Note chaque critere de 1 a 10.',
+    errorCommentTooLong: 'Ton commentaire est trop long.',
+    errorGeneric: 'Impossible d’enregistrer ta fiche.',
+    breakdownTitle: 'Jury et communaute',
+    panelSize: 'Jury : {count}',
+    formula: 'Score final = {judges} jury + {community} vote communautaire',
+    pendingResults: 'Le detail sera publie a la fin de la battle.',
+    notScored: 'Le jury n’a pas note cette battle, le vote communautaire a donc decide.',
+    producerColumn: 'Producteur',
+    communityColumn: 'Communaute',
+    judgesColumn: 'Jury',
+    finalColumn: 'Final',
+    unknownProducer: 'Producteur',
+    criteriaFor: 'Moyennes du jury pour {name} ({count} fiches)',
+    commentsTitle: 'Commentaires du jury',
+    commentBy: '{judge} sur {name}',
+    anonymousJudge: 'Un membre du jury',
+  },
   producer: {
     dashboard: 'Tableau de bord producteur',
     overview: 'Vue generale',
@@ -508,6 +625,117 @@ export const fr = {
     deleteAccountCreditsValue: 'Vous avez {credits} crédits sur ce compte.',
     deleteAccountCreditsValueLoading: 'Chargement de votre solde de crédits...',
     deleteAccountLegalNote: 'Les crédits ne sont pas remboursables sauf obligation légale.',
+    voiceTagTitle: 'Voice tag',
+    voiceTagDescription: 'Remplacez le watermark du site par votre propre tag producteur sur vos previews. Enregistrer relance le rendu de vos previews publiées.',
+    voiceTagEnabledLabel: 'Utiliser mon voice tag sur mes previews',
+    voiceTagGainLabel: 'Gain (dB)',
+    voiceTagMinIntervalLabel: 'Intervalle min (s)',
+    voiceTagMaxIntervalLabel: 'Intervalle max (s)',
+    voiceTagCurrent: 'Votre voice tag est enregistré.',
+    voiceTagSiteDefault: 'Aucun voice tag : vos previews utilisent le watermark du site.',
+    voiceTagUploadLabel: 'Envoyer un voice tag',
+    voiceTagUploadHint: 'WAV ou MP3, 10 Mo max. Restez court : il se répète sur toute la preview.',
+    voiceTagSave: 'Enregistrer le voice tag',
+    voiceTagSaved: 'Voice tag enregistré. {count} previews en file pour un nouveau rendu.',
+    voiceTagSaveError: "Impossible d'enregistrer votre voice tag pour le moment.",
+    voiceTagLoadError: 'Impossible de charger votre voice tag.',
+    voiceTagFileError: 'Le voice tag doit être un fichier WAV ou MP3 de moins de 10 Mo.',
+    voiceTagRequired: "Envoyez un voice tag avant de l'activer.",
+    voiceTagNumericError: 'Le gain et les intervalles doivent être des nombres (secondes entières pour les intervalles).',
+    voiceTagGainError: 'Le gain doit être compris entre -60 et 12 dB.',
+    voiceTagIntervalError: 'Les intervalles doivent être entre 5 et 300 s, le min inférieur au max.',
+    licenseTiersTitle: 'Licences',
+    licenseTiersDescription: 'Créez vos propres licences avec vos limites et vos prix, puis choisissez lesquelles proposer sur chaque beat depuis sa page de modification.',
+    licenseTiersEmpty: "Vous n'avez pas encore créé de licence. Vos beats utilisent les licences de la plateforme.",
+    licenseTiersLoadError: 'Impossible de charger vos licences.',
+    licenseTierNewTitle: 'Nouvelle licence',
+    licenseTierEditTitle: 'Modifier la licence',
+    licenseTierNameLabel: 'Nom',
+    licenseTierPriceLabel: 'Prix par défaut (€)',
+    licenseTierDescriptionLabel: 'Description',
+    licenseTierLimitsHint: 'Laissez une limite vide pour la rendre illimitée. Les achats déjà faits gardent les conditions du moment de la vente.',
+    licenseTierExclusiveLabel: 'Licence exclusive',
+    licenseTierExclusiveHint: 'Proposable uniquement sur les exclusivités. Ne peut plus être changé après la création.',
+    licenseTierExclusiveBadge: 'Exclusive',
+    licenseTierSave: 'Enregistrer la licence',
+    licenseTierSaved: 'Licence enregistrée.',
+    licenseTierSaveError: "Impossible d'enregistrer la licence pour le moment.",
+    licenseTierEdit: 'Modifier',
+    licenseTierArchive: 'Archiver',
+    licenseTierArchived: "Licence archivée et retirée des beats qui la proposaient.",
+    licenseTierNameError: 'Le nom doit faire entre 1 et 60 caractères.',
+    licenseTierNameTaken: 'Vous avez déjà une licence avec ce nom.',
+    licenseTierPriceError: 'Le prix doit être un montant positif.',
+    licenseTierLimitsError: 'Les limites doivent être des nombres entiers positifs.',
+    dealsTitle: 'Offres et packs',
+    dealsDescription: "Proposez des offres « X achetés, Y offerts » ou vendez plusieurs beats ensemble à prix de pack. Les offres s'appliquent automatiquement dans le panier, jamais aux exclusivités.",
+    dealsEmpty: "Vous n'avez aucune offre active.",
+    dealsLoadError: 'Impossible de charger vos offres.',
+    dealNewTitle: 'Nouvelle offre',
+    dealEditTitle: "Modifier l'offre",
+    dealTitleLabel: 'Nom affiché dans le panier',
+    dealTypeLabel: 'Type',
+    dealTypeBuyGet: 'X achetés, Y offerts',
+    dealTypeBundle: 'Pack',
+    dealBuyQuantityLabel: 'Beats achetés',
+    dealFreeQuantityLabel: 'Beats offerts',
+    dealBundlePriceLabel: 'Prix du pack (€)',
+    dealProductsLabel: 'Beats',
+    dealBuyGetProductsHint: 'Ne cochez rien pour inclure tous vos beats. Les beats les moins chers de chaque groupe sont offerts.',
+    dealBundleProductsHint: "Choisissez de 2 à {max} beats. Le pack s'applique quand ils sont tous dans le panier, quelle que soit la licence choisie.",
+    dealNoProducts: "Vous n'avez encore aucun beat non exclusif en vente.",
+    dealBuyGetSummary: '{buy} achetés, {free} offerts',
+    dealBundleSummary: '{count} beats pour {price}',
+    dealSave: "Enregistrer l'offre",
+    dealSaved: 'Offre enregistrée.',
+    dealSaveError: "Impossible d'enregistrer l'offre pour le moment.",
+    dealEdit: 'Modifier',
+    dealArchive: "Terminer l'offre",
+    dealArchived: 'Offre terminée.',
+    dealTitleError: 'Le nom doit faire entre 1 et 60 caractères.',
+    dealQuantitiesError: 'Les quantités doivent valoir au moins 1 et totaliser {max} beats au plus.',
+    dealPriceError: "Le prix du pack doit être d'au moins 1 €.",
+    dealProductsError: 'Un pack doit contenir entre 2 et {max} beats.',
+    promoCodesTitle: 'Codes promo',
+    promoCodesDescription: 'Créez des codes de réduction sur un beat ou sur tout votre catalogue. Les codes ne sont plus modifiables une fois créés.',
+    promoCodesAdminDescription: 'Codes de la plateforme : tout le marketplace, un producteur, un beat ou les abonnements producteur.',
+    promoCodesEmpty: 'Aucun code promo actif.',
+    promoCodesLoadError: 'Impossible de charger les codes promo.',
+    promoCodeNewTitle: 'Nouveau code promo',
+    promoCodeLabel: 'Code',
+    promoScopeLabel: 'Portée',
+    promoScopeProduct: 'Un beat',
+    promoScopeProducer: 'Tous les beats du producteur',
+    promoScopeAllBeats: 'Tout le marketplace',
+    promoScopePlan: 'Abonnement producteur',
+    promoDiscountTypeLabel: 'Réduction',
+    promoDiscountPercent: 'Pourcentage',
+    promoDiscountFixed: 'Montant fixe',
+    promoPercentLabel: 'Réduction (%)',
+    promoAmountLabel: 'Réduction (€)',
+    promoProductLabel: 'Beat',
+    promoProductPlaceholder: 'Choisir un beat',
+    promoProductIdLabel: 'ID du beat',
+    promoProducerIdLabel: 'ID du producteur',
+    promoPlanTierLabel: 'Offre',
+    promoPlanTierAny: 'Toutes les offres',
+    promoMaxRedemptionsLabel: "Nombre max d'utilisations",
+    promoUnlimited: 'Illimité',
+    promoPerUserLimitLabel: 'Utilisations par acheteur',
+    promoExpiresAtLabel: "Date d'expiration",
+    promoRedemptions: '{count}/{max} utilisations',
+    promoExpires: "jusqu'au {date}",
+    promoCodeSave: 'Créer le code',
+    promoCodeSaved: 'Code promo créé.',
+    promoCodeSaveError: "Impossible d'enregistrer le code promo pour le moment.",
+    promoCodeArchive: 'Désactiver',
+    promoCodeArchived: 'Code promo désactivé.',
+    promoCodeTaken: 'Ce code existe déjà.',
+    promoCodeFormatError: 'Le code doit faire 3 à 32 caractères : lettres, chiffres, - ou _.',
+    promoDiscountError: 'La réduction doit être comprise entre 1 et 100 %, ou un montant positif.',
+    promoScopeError: 'Choisissez le beat concerné par le code.',
+    promoLimitsError: "Les limites d'utilisation doivent valoir au moins 1.",
+    promoDatesError: "La date d'expiration doit être dans le futur.",
   },
   dashboard: {
     title: 'Tableau de bord',
@@ -565,7 +793,22 @@ export const fr = {
     standardType: 'Standard',
     downloadAudio: 'Telecharger audio',
     downloadLicense: 'Telecharger licence',
+    downloadStems: 'Telecharger les stems',
+    stemsDownloadError: 'Telechargement des stems indisponible pour le moment.',
+    stemsUnavailable: "Le producteur n'a pas encore livre de stems valides pour ce beat.",
     viewLicenseDetails: 'Voir details de licence',
+    upgradeLicense: 'Passer a une licence superieure',
+    upgradedBadge: 'Remplacee par une mise a niveau',
+    disputedBadge: 'Paiement conteste · acces suspendu',
+    upgradeModalTitle: 'Mettre a niveau · {title}',
+    upgradeModalDescription: 'Vous ne payez que la difference avec ce que vous avez deja regle ({paid}).',
+    upgradeLoading: 'Chargement des licences disponibles...',
+    upgradeLoadError: 'Impossible de charger les licences disponibles.',
+    upgradeNone: 'Aucune licence superieure disponible pour ce beat.',
+    upgradeExclusiveLabel: 'Exclusivite',
+    upgradeFullPrice: 'Prix normal {price}',
+    upgradeAmountDue: 'A payer {amount}',
+    upgradeError: 'La mise a niveau est impossible pour le moment.',
     recentWishlist: 'Mes favoris recents',
     loadingWishlist: 'Chargement de vos favoris...',
     noWishlist: 'Aucun favori pour le moment',
@@ -577,6 +820,12 @@ export const fr = {
     downloadStarted: 'Telechargement lance',
     downloadError: 'Telechargement impossible pour le moment.',
     contractDownloadError: 'Telechargement du contrat impossible pour le moment (PDF indisponible).',
+    downloadInvoice: 'Facture',
+    invoiceDownloadError: 'Facture indisponible pour le moment.',
+    exportCsv: 'Export CSV',
+    exportPdf: 'Export PDF',
+    exportError: "Export de l'historique d'achats impossible pour le moment.",
+    subscriptionInvoicesTitle: "Factures d'abonnement",
     licenseModalTitle: 'Details de licence · {name}',
     licenseModalTitleDefault: 'Details de licence',
     licenseModalDescription: 'Resume des droits et limites associes a cet achat.',
@@ -700,6 +949,15 @@ export const fr = {
   },
   producerDashboard: {
     protectedHistoryMessage: 'Ce produit a participe a une battle terminee ou a des ventes. Vous pouvez seulement le masquer.',
+    qualityFailedTitle: "Controle qualite audio echoue : ce beat reste depublie jusqu'a l'envoi d'un master corrige.",
+    qualityReasons: {
+      corrupt: 'Le fichier est corrompu ou illisible.',
+      clipping: 'Trop de saturation : {value} des echantillons a pleine echelle (max {threshold}).',
+      silence: 'Principalement silencieux : {value} du morceau est du silence (max {threshold}).',
+      phase_inverted: "Les canaux gauche et droit s'annulent (correlation {value}, min {threshold}).",
+      low_sample_rate: "Frequence d'echantillonnage trop basse : {value} (min {threshold}).",
+      low_bit_depth: 'Resolution trop basse : {value} (min {threshold}).',
+    },
     advancedStatsUnavailable: 'Statistiques avancees indisponibles pour le moment.',
     noLinkedSubscription: 'Aucun abonnement Stripe lie.',
     sessionExpired: 'Session expiree. Merci de vous reconnecter.',
@@ -851,6 +1109,12 @@ export const fr = {
     descriptionPlaceholder: "Decris l'ambiance, les instruments, les licences...",
     bpmPlaceholder: 'Ex: 140',
     keyPlaceholder: 'Ex: Am',
+    detectedSuggestion: 'Détecté sur le master : {value} (confiance {confidence} %)',
+    detectedMismatch: "L'analyse du master indique {value} (confiance {confidence} %). Vérifiez la valeur saisie.",
+    detectedMatch: "Conforme à l'analyse du master",
+    applyDetected: 'Utiliser',
+    analysisReady: 'Analyse du master de « {title} » terminée',
+    reviewDetected: 'Revoir la prod',
     audioLocked: 'Audio verrouille',
     currentMasterKept: 'Le master actuel est conserve car une battle active verrouille l’audio.',
     coverLocked: 'Pochette verrouillee',
@@ -867,11 +1131,45 @@ export const fr = {
     exclusiveOptionLabel: 'Vente exclusive',
     exclusiveOptionHint: 'Le titre devient un beat exclusif a vente unique.',
     exclusiveStemsNotice: "En cochant cette case, vous confirmez que tous les stems du titre sont prêts et disponibles pour une livraison immédiate au label après validation de l'achat.",
+    licenseTiersTitle: 'Licences proposées',
+    licenseTiersDescription: "Choisissez les licences vendues sur ce beat et leur prix. Sans sélection, le beat est vendu à son prix de base.",
+    licenseTiersManage: 'Gérer mes licences',
+    licenseTiersPlatform: 'Licence plateforme',
+    licenseTiersPriceLabel: 'Prix de {name} (€)',
+    licenseTiersNone: 'Aucune licence disponible pour ce beat.',
+    licenseTiersTooMany: 'Jusqu\'à {count} licences par beat.',
+    licenseTiersPriceError: 'Chaque licence sélectionnée doit avoir un prix positif.',
+    licenseTiersSave: 'Enregistrer les licences',
+    licenseTiersSaved: 'Licences du beat enregistrées.',
+    licenseTiersSaveError: "Impossible d'enregistrer les licences de ce beat.",
+    licenseTiersLoadError: 'Impossible de charger les licences de ce beat.',
     genrePlaceholder: '— Sélectionner —',
     moodPlaceholder: '— Sélectionner —',
     tagsPlaceholder: 'Ex: drill, sombre, 808...',
     genreRequired: 'Veuillez choisir un genre.',
     genreRecommended: 'Recommandé',
+    stemsTitle: 'Stems / trackouts',
+    stemsHint: 'Un ZIP du trackout complet ou des fichiers WAV séparés (500 Mo max par fichier). Livrés avec les licences qui incluent les stems.',
+    chooseStems: 'Choisir les stems',
+    stemsFormatError: 'Formats autorisés : ZIP ou WAV',
+    stemsSizeError: 'Taille max : 500 Mo par fichier',
+    stemsTooMany: 'Trop de fichiers : 32 max par envoi',
+    stemsUploaded: 'Stems envoyés. Validation en cours.',
+    stemsUploadError: "Le beat est enregistré mais l'envoi des stems a échoué.",
+    audioQualityFailed: "Ce master n'a pas passé le contrôle qualité audio. Envoyez un master corrigé pour publier une nouvelle version.",
+    existingStems: 'Stems envoyés',
+    removeStem: 'Supprimer le stem',
+    removeStemError: 'Impossible de supprimer ce stem pour le moment.',
+    stemStatus: {
+      pending: 'Validation',
+      valid: 'Valide',
+      warning: 'À vérifier',
+      invalid: 'Refusé',
+    },
+    stemCount: '{count} stems',
+    stemSilent: 'Stem silencieux détecté',
+    stemDurationDelta: 'Durée différente du master de {seconds}s',
+    stemInvalid: 'Audio illisible : ce fichier ne sera pas livré',
   },
   subscription: {
     title: 'Abonnements producteur',
@@ -936,6 +1234,20 @@ export const fr = {
     unknownProducer: 'Inconnu',
     itemBeat: 'Beat',
     itemKit: 'Kit',
+    dealDiscount: 'Offre : {title}',
+    promoCodeLabel: 'Code promo',
+    promoCodePlaceholder: 'Ex. SUMMER20',
+    promoCodeApply: 'Appliquer',
+    promoCodeRemove: 'Retirer le code promo',
+    promoDiscount: 'Code {code}',
+    promoCodeError: 'Impossible de verifier ce code pour le moment.',
+    promoCodeNotFound: "Ce code promo n'existe pas.",
+    promoCodeNotStarted: "Ce code promo n'est pas encore actif.",
+    promoCodeExpired: 'Ce code promo a expire.',
+    promoCodeNotApplicable: 'Ce code promo ne peut pas etre utilise ici.',
+    promoCodeExhausted: "Ce code promo a atteint son nombre maximum d'utilisations.",
+    promoCodeAlreadyUsed: 'Vous avez deja utilise ce code promo.',
+    currencyNotice: "Prix convertis depuis l'euro au taux du jour. Vous serez debite en {currency}.",
   },
   errors: {
     generic: 'Une erreur est survenue',
@@ -990,6 +1302,7 @@ export const fr = {
     playbackDecodeError: 'Format audio non supporte',
     playbackSourceNotSupported: 'Source audio non supportee ou inaccessible',
     playbackUnknownError: 'Erreur media inconnue',
+    seekWaveform: "Se déplacer dans l'extrait",
   },
   producersPage: {
     title: 'Producteurs actifs',
@@ -1015,6 +1328,16 @@ export const fr = {
     backToCatalog: 'Retour',
     unknownProducer: 'Inconnu',
     noDescription: 'Aucune description fournie.',
+    licenseTiersTitle: 'Choisissez une licence',
+    licenseTermMaxStreams: 'Streams max',
+    licenseTermMaxSales: 'Ventes max',
+    licenseTermYoutubeMonetization: 'Monétisation YouTube',
+    licenseTermMusicVideoAllowed: 'Clip vidéo autorisé',
+    licenseTermCreditRequired: 'Crédit producteur obligatoire',
+    licenseTermStemsIncluded: 'Stems inclus',
+    licenseTermUnlimited: 'Illimité',
+    licenseTermYes: 'Oui',
+    licenseTermNo: 'Non',
     availableCredits: 'Credits disponibles',
     creditBalanceError: "Impossible de charger votre solde credits pour l'instant.",
     creditEligibleStatus: 'Éligible aux crédits',
@@ -1100,6 +1423,13 @@ export const fr = {
     copyLink: 'Copier le lien',
     linkCopied: 'Lien copié !',
     viewFeedbackReport: 'Voir le feedback',
+    cypherPodium: 'Podium',
+    cypherPoints: '{count} pts',
+    cypherFirstPlaceVotes: '{count} votes en 1re place',
+    cypherNoVotes: 'Aucun bulletin pour le moment. Le podium apparait avec les premiers votes.',
+    cypherPreview: 'Extrait - {name}',
+    blindNotice: 'Vote a l’aveugle : noms, profils et commentaires des participants restent masques jusqu’aux resultats. Chaque votant ecoute les beats dans son propre ordre.',
+    blindPreview: 'Extrait - {label}',
     statusActive: 'En cours',
     statusPendingAcceptance: 'En attente de reponse',
     statusAwaitingAdmin: 'En attente admin',
@@ -1368,6 +1698,7 @@ export const fr = {
     noEarnings: 'Aucun revenu pour le moment.',
     loadError: 'Impossible de charger vos revenus.',
     limitedDataMode: 'Mode donnees limite',
+    paidInCurrency: "Paye par l'acheteur : {amount} (taux {rate})",
   },
   admin: {
     layout: {
@@ -1520,6 +1851,39 @@ export const fr = {
       updatedAt: 'Maj {date}',
       adjust: 'Ajuster',
     },
+    audioMatches: {
+      title: 'Doublons audio',
+      subtitle: "Beats dont l'empreinte audio ressemble a celle d'un autre producteur. Ils restent hors catalogue jusqu'a la revue.",
+      loadError: 'Impossible de charger les doublons audio.',
+      reviewError: 'Revue impossible.',
+      confirmSuccess: 'Doublon confirme. Le beat reste hors catalogue.',
+      dismissSuccess: 'Signalement ecarte.',
+      empty: 'Aucun doublon a afficher.',
+      filters: {
+        pending: 'A revoir',
+        confirmed: 'Confirmes',
+        dismissed: 'Ecartes',
+        all: 'Tous',
+      },
+      similarity: 'Similarite {value}%',
+      alignment: '{overlap} s en commun, decalage {offset} s',
+      detectedAt: 'Detecte {date}',
+      uploadedBeat: 'Beat uploade',
+      existingBeat: 'Beat existant',
+      untitled: 'Sans titre',
+      byProducer: 'Par {producer}',
+      unknownProducer: 'producteur inconnu',
+      uploadedAt: 'Uploade {date}',
+      noPreview: 'Pas de preview disponible.',
+      noteLabel: 'Note de revue',
+      notePlaceholder: 'Optionnel',
+      dismiss: 'Ecarter',
+      confirm: 'Confirmer le doublon',
+      reviewed: {
+        confirmed: 'Doublon confirme {date}',
+        dismissed: 'Ecarte {date}',
+      },
+    },
     beatAnalytics: {
       title: 'Beat Analytics',
       subtitle: 'Analyse qualitative des votes battles et snapshots Quality Index.',
@@ -1559,6 +1923,7 @@ export const fr = {
       reputation: 'Reputation',
       revenue: 'Revenue',
       beatAnalytics: 'Beat Analytics',
+      audioMatches: 'Doublons audio',
       settings: 'Parametres',
     },
     revenue: {
@@ -1580,6 +1945,13 @@ export const fr = {
       type: 'Type',
       typeCash: 'Cash',
       typeCredits: 'Credits',
+      promoCode: 'Code promo',
+      promoUsageTitle: 'Codes promo',
+      promoOwner: 'Createur',
+      promoRedemptions: 'Utilisations',
+      promoDiscount: 'Remise totale',
+      promoUsageEmpty: "Aucun code promo pour l'instant.",
+      promoPlatform: 'Plateforme',
       empty: 'Aucune transaction terminee pour le moment.',
     },
     settingsPage: {
@@ -1742,6 +2114,11 @@ export const fr = {
       rpcAlreadyExpired: 'La battle est deja expiree.',
       rpcDurationLimitExceeded: 'Limite max de duree depassee (60 jours).',
       rpcMaxExtensionsReached: "Nombre maximal d'extensions atteint (5).",
+      rpcBlindVotingCompleted: 'Le vote a l’aveugle ne peut plus etre modifie sur une battle terminee.',
+      enableBlindVoting: 'Vote a l’aveugle',
+      disableBlindVoting: 'Reveler les producteurs',
+      blindVotingEnabled: 'Vote a l’aveugle active.',
+      blindVotingDisabled: 'Les producteurs sont de nouveau visibles.',
       rpcGenericError: 'Action admin impossible pour le moment.',
       edgeNotDeployed: 'Fonction "{functionName}" non deployee (404) sur {projectRef}.',
       edgeUnauthorized: 'Session invalide ou expiree pour "{functionName}" (401). Reconnecte-toi puis reessaye.',
@@ -1836,6 +2213,102 @@ export const fr = {
       scoreLabel: 'Score: {score}',
       producerStats: 'Refus: {refusals} | Participations: {participated} | Completees: {completed}',
     },
+    tournaments: {
+      title: 'Tournois',
+      publicPage: 'Page publique des tournois',
+      loadError: 'Impossible de charger les tournois.',
+      empty: 'Aucun tournoi cree.',
+      titleLabel: 'Titre',
+      descriptionLabel: 'Description',
+      formatLabel: 'Format',
+      roundDurationLabel: 'Duree des tours (heures)',
+      create: 'Creer le tournoi',
+      createSuccess: 'Tournoi cree.',
+      entrants: 'Participants ({count})',
+      producerLabel: 'Producteur',
+      selectProducer: 'Choisir un producteur',
+      beatLabel: 'Beat',
+      selectBeat: 'Choisir un beat',
+      addEntrant: 'Ajouter',
+      removeEntrant: 'Retirer',
+      start: 'Lancer le tournoi',
+      startSuccess: 'Tournoi lance, battles du tour 1 ouvertes.',
+      advance: 'Faire avancer les tours',
+      advanceSuccess: 'Tournoi mis a jour.',
+      disqualify: 'Disqualifier',
+      disqualifyPrompt: 'Motif de la disqualification (optionnel) :',
+      disqualifySuccess: 'Participant disqualifie.',
+      awardBye: 'Exempter {name}',
+      byeSuccess: 'Exemption accordee.',
+      saveDuration: 'Enregistrer',
+      durationSaved: 'Duree du tour mise a jour.',
+      errorTitleRequired: 'Le titre est obligatoire.',
+      errorInvalidDuration: 'La duree doit etre comprise entre 1 et 720 heures.',
+      errorProductInvalid: 'Ce beat ne peut pas etre inscrit pour ce producteur.',
+      errorAlreadyStarted: 'Ce tournoi a deja commence.',
+      errorNotEnoughEntrants: 'Pas assez de participants pour ce format.',
+      errorMatchDecided: 'Ce match est deja decide.',
+      errorMatchNotOpen: "Ce match n'est pas encore ouvert.",
+    },
+    cypher: {
+      title: 'Battles cypher',
+      subtitle: 'Ouvre une battle classee entre {min} et {max} producteurs. Les votants classent leur top 3 (3-2-1 points).',
+      titleLabel: 'Titre',
+      descriptionLabel: 'Description',
+      durationLabel: 'Duree des votes (heures)',
+      producerLabel: 'Producteur',
+      producerPlaceholder: 'Choisir un producteur',
+      beatLabel: 'Beat',
+      beatPlaceholder: 'Choisir un beat',
+      addEntrant: 'Ajouter',
+      removeEntrant: 'Retirer le participant',
+      noEntrants: 'Aucun participant pour le moment.',
+      create: 'Ouvrir le cypher',
+      createSuccess: 'Battle cypher ouverte.',
+      openCreated: 'Voir le cypher cree',
+      errorTitleRequired: 'Le titre est obligatoire.',
+      errorInvalidDuration: 'La duree des votes doit etre comprise entre 1 et 720 heures.',
+      errorEntrantCount: 'Un cypher compte entre {min} et {max} participants.',
+      errorEntrantsInvalid: 'Chaque producteur et chaque beat ne peuvent etre inscrits qu’une fois.',
+      errorProductInvalid: 'Un participant est inactif ou son beat n’est pas eligible.',
+      errorProductOccupied: 'Un des beats est deja engage dans une battle ouverte.',
+    },
+    sampleFlip: {
+      submissions: 'Envois ({count}, {passed} acceptes)',
+      noSubmissions: 'Aucun flip envoye pour le moment.',
+      reviewed: 'Verifie',
+      detected: 'Detecte : {bpm} BPM, tonalite {key}',
+      preview: 'Extrait du flip',
+      accept: 'Accepter',
+      reject: 'Refuser',
+      launchAfterDeadline: 'Le vote ou le tableau peut commencer une fois la date limite d’envoi passee.',
+      openVote: 'Ouvrir le vote communautaire',
+      bracket: 'Lancer un tournoi',
+      voteOpened: 'Vote communautaire ouvert.',
+      bracketStarted: 'Tournoi lance avec les flips acceptes.',
+      errorStillOpen: 'Les envois sont encore ouverts.',
+      errorUnresolved: 'Certains flips attendent encore l’analyse ou une verification.',
+      errorNotOpen: 'Ce defi a deja ete lance.',
+      errorBeatNotEligible: 'Un flip accepte n’est pas publie ou n’est pas un beat actif.',
+    },
+    judging: {
+      title: 'Jury',
+      weightLabel: 'Part du jury dans le score final (%)',
+      weightPlaceholder: 'Vide : vote communautaire seul',
+      saveWeight: 'Enregistrer la formule',
+      weightSaved: 'Formule du jury enregistree.',
+      panelDisabled: 'Jury desactive.',
+      usernameLabel: 'Pseudo du juge',
+      add: 'Ajouter un juge',
+      remove: 'Retirer',
+      cardsSent: '{count}/{total} fiches',
+      projection: 'Projection actuelle',
+      projectionLine: '{name} : communaute {community}, jury {judges}/10, final {final}',
+      errorCompleted: 'Cette battle est terminee ; son jury ne peut plus changer.',
+      errorInvalidWeight: 'Saisis une part entre 0 et 100.',
+      errorUserNotFound: 'Aucun utilisateur avec ce pseudo.',
+      errorJudgeCompetes: 'Un producteur ne peut pas juger sa propre battle.',
+    },
   },
   battleFeedback: {
     share: {
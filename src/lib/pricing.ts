@@ -11,6 +11,7 @@ type ProductLicenseRow = {
   features: ProductLicense['features'];
   sort_order: number;
   is_active: boolean;
+  source: ProductLicense['source'];
   created_at: string;
   updated_at: string;
   license?: License | null;
@@ -26,9 +27,10 @@ const LICENSE_SELECT_COLUMNS = [
   'features',
   'sort_order',
   'is_active',
+  'source',
   'created_at',
   'updated_at',
-  'license:licenses(id, name, description, max_streams, max_sales, youtube_monetization, music_video_allowed, credit_required, exclusive_allowed, price, created_at, updated_at)',
+  'license:licenses(id, name, description, max_streams, max_sales, youtube_monetization, music_video_allowed, credit_required, exclusive_allowed, stems_included, price, producer_id, archived_at, created_at, updated_at)',
 ].join(', ');
 
 export function normalizeLicenseType(value: string | null | undefined) {
@@ -56,12 +58,31 @@ export function getDefaultProductLicense(product: { licenses?: ProductLicense[]
   return getProductActiveLicenses(product)[0] ?? null;
 }
 
-export function getDisplayPrice(product: { price?: number | null; licenses?: ProductLicense[] | null } | null | undefined) {
-  return product?.price ?? 0;
+/**
+ * Tiers the producer picked for the product. When there are any, checkout
+ * charges the selected tier's price instead of products.price.
+ */
+export function getProducerLicenseOffers(product: { licenses?: ProductLicense[] | null } | null | undefined) {
+  return getProductActiveLicenses(product).filter((license) => license.source === 'producer');
 }
 
-export function hasMultipleLicenses(_product: { licenses?: ProductLicense[] | null } | null | undefined) {
-  return false;
+export function getDisplayPrice(
+  product: { price?: number | null; licenses?: ProductLicense[] | null } | null | undefined,
+  selectedLicense?: Pick<ProductLicense, 'license_id'> | null
+) {
+  const offers = getProducerLicenseOffers(product);
+  if (offers.length === 0) {
+    return product?.price ?? 0;
+  }
+
+  const selectedOffer = selectedLicense
+    ? offers.find((offer) => offer.license_id === selectedLicense.license_id)
+    : undefined;
+  return selectedOffer?.price ?? Math.min(...offers.map((offer) => offer.price));
+}
+
+export function hasMultipleLicenses(product: { licenses?: ProductLicense[] | null } | null | undefined) {
+  return getProducerLicenseOffers(product).length > 1;
 }
 
 export function getLicenseDisplayName(
@@ -149,6 +170,7 @@ export async function fetchProductLicensesMap(productIds: string[]) {
         features: row.features,
         sort_order: row.sort_order,
         is_active: row.is_active,
+        source: row.source,
         created_at: row.created_at,
         updated_at: row.updated_at,
         license: row.license ?? null,
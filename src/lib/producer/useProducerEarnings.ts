@@ -15,6 +15,10 @@ export interface ProducerEarningsRow {
   payout_status: string;
   payout_mode: string;
   payout_processed_at: string | null;
+  // What the buyer was charged; earnings above stay in euros.
+  presentment_currency: string;
+  presentment_amount: number;
+  fx_rate: number;
 }
 
 type ProducerEarningsSource = 'view' | 'fallback';
@@ -32,6 +36,10 @@ interface FallbackPurchaseRow {
   product_id: string;
   purchase_source: string | null;
   producer_share_cents_snapshot: number | null;
+  amount: number;
+  presentment_currency: string | null;
+  presentment_amount: number | null;
+  fx_rate: number | null;
   metadata: Record<string, unknown> | null;
   product: {
     title: string | null;
@@ -63,6 +71,9 @@ const normalizeProducerEarningRow = (row: ProducerEarningsRow): ProducerEarnings
   payout_status: coerceString(row.payout_status, 'pending'),
   payout_mode: coerceString(row.payout_mode, 'stripe_connect'),
   payout_processed_at: coerceNullableString(row.payout_processed_at),
+  presentment_currency: coerceString(row.presentment_currency, 'EUR'),
+  presentment_amount: roundToTwo(typeof row.presentment_amount === 'number' ? row.presentment_amount : 0),
+  fx_rate: typeof row.fx_rate === 'number' && row.fx_rate > 0 ? row.fx_rate : 1,
 });
 
 const isProducerRevenueViewMissingError = (error: QueryErrorLike | null | undefined) => {
@@ -93,6 +104,9 @@ const normalizeFallbackRows = (rows: FallbackPurchaseRow[] | null | undefined):
       payout_status: coerceString(metadata.payout_status, 'pending'),
       payout_mode: coerceString(metadata.payout_mode, 'stripe_connect'),
       payout_processed_at: coerceNullableString(metadata.payout_processed_at),
+      presentment_currency: row.presentment_currency ?? 'EUR',
+      presentment_amount: (row.presentment_amount ?? row.amount) / 100,
+      fx_rate: row.fx_rate ?? 1,
     });
   }));
 
@@ -118,6 +132,10 @@ async function fetchProducerEarningsFromFallback(producerId: string) {
       product_id,
       purchase_source,
       producer_share_cents_snapshot,
+      amount,
+      presentment_currency,
+      presentment_amount,
+      fx_rate,
       metadata,
       product:products!inner(
         title,
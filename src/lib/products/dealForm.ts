@@ -0,0 +1,88 @@
+import type { ProducerDeal, ProducerDealType } from '../supabase/types';
+import { parsePriceCents } from './licenseTiers';
+
+// Bounds enforced by rpc_save_producer_deal (one checkout holds 5 items).
+export const DEAL_TITLE_MAX_LENGTH = 60;
+export const MAX_DEAL_PRODUCTS = 5;
+
+export interface ProducerDealFormValues {
+  title: string;
+  dealType: ProducerDealType;
+  buyQuantity: string;
+  freeQuantity: string;
+  bundlePrice: string;
+  productIds: string[];
+}
+
+export interface ProducerDealSettings {
+  title: string;
+  dealType: ProducerDealType;
+  buyQuantity: number | null;
+  freeQuantity: number | null;
+  bundlePriceCents: number | null;
+  productIds: string[];
+}
+
+export type ProducerDealFormError = 'title' | 'quantities' | 'price' | 'products';
+
+export const EMPTY_PRODUCER_DEAL_FORM: ProducerDealFormValues = {
+  title: '',
+  dealType: 'buy_x_get_y',
+  buyQuantity: '2',
+  freeQuantity: '1',
+  bundlePrice: '',
+  productIds: [],
+};
+
+export const toProducerDealFormValues = (deal: ProducerDeal): ProducerDealFormValues => ({
+  title: deal.title,
+  dealType: deal.deal_type,
+  buyQuantity: deal.buy_quantity != null ? String(deal.buy_quantity) : '',
+  freeQuantity: deal.free_quantity != null ? String(deal.free_quantity) : '',
+  bundlePrice: deal.bundle_price ? (deal.bundle_price / 100).toString() : '',
+  productIds: deal.product_ids,
+});
+
+const parseQuantity = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const parsed = Number(trimmed);
+  return parsed >= 1 ? parsed : null;
+};
+
+export const parseProducerDealForm = (
+  values: ProducerDealFormValues,
+): { settings: ProducerDealSettings; error: null } | { settings: null; error: ProducerDealFormError } => {
+  const title = values.title.trim();
+  if (title.length === 0 || title.length > DEAL_TITLE_MAX_LENGTH) {
+    return { settings: null, error: 'title' };
+  }
+
+  const productIds = [...new Set(values.productIds)];
+
+  if (values.dealType === 'bundle') {
+    const bundlePriceCents = parsePriceCents(values.bundlePrice);
+    if (bundlePriceCents === null || bundlePriceCents < 100) {
+      return { settings: null, error: 'price' };
+    }
+    if (productIds.length < 2 || productIds.length > MAX_DEAL_PRODUCTS) {
+      return { settings: null, error: 'products' };
+    }
+
+    return {
+      settings: { title, dealType: 'bundle', buyQuantity: null, freeQuantity: null, bundlePriceCents, productIds },
+      error: null,
+    };
+  }
+
+  const buyQuantity = parseQuantity(values.buyQuantity);
+  const freeQuantity = parseQuantity(values.freeQuantity);
+  if (buyQuantity === null || freeQuantity === null || buyQuantity + freeQuantity > MAX_DEAL_PRODUCTS) {
+    return { settings: null, error: 'quantities' };
+  }
+
+  return {
+    settings: { title, dealType: 'buy_x_get_y', buyQuantity, freeQuantity, bundlePriceCents: null, productIds },
+    error: null,
+  };
+};
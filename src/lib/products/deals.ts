@@ -0,0 +1,191 @@
+import type { ProducerDeal, ProducerDealType, PromoCode } from '../supabase/types';
+
+export interface DealCartItem {
+  productId: string;
+  producerId: string;
+  amount: number;
+  isExclusive: boolean;
+}
+
+export interface AppliedDeal {
+  dealId: string;
+  title: string;
+  dealType: ProducerDealType;
+  productIds: string[];
+  discount: number;
+}
+
+export interface DealEvaluation {
+  appliedDeals: AppliedDeal[];
+  // Share of the deal discounts carried by each product, in cents.
+  itemDiscounts: Record<string, number>;
+  discountTotal: number;
+}
+
+export interface PromoEvaluation {
+  itemDiscounts: Record<string, number>;
+  discountTotal: number;
+}
+
+// Stripe refuses euro payments under 50 cents.
+export const MIN_CHECKOUT_AMOUNT = 50;
+
+const sum = (items: DealCartItem[]) => items.reduce((total, item) => total + item.amount, 0);
+
+const sumShares = (shares: Record<string, number>) =>
+  Object.values(shares).reduce((total, share) => total + share, 0);
+
+const byAmountDesc = (left: DealCartItem, right: DealCartItem) =>
+  right.amount - left.amount || left.productId.localeCompare(right.productId);
+
+/**
+ * Split a deal discount over the items it covers, in proportion to their
+ * price. Every item keeps at least one cent so each one stays a paid line.
+ */
+export const allocateDealDiscount = (items: DealCartItem[], discount: number): Record<string, number> => {
+  const total = sum(items);
+  const shares = items.map((item) => Math.floor((discount * item.amount) / total));
+  let remainder = discount - shares.reduce((acc, share) => acc + share, 0);
+
+  // Leftover cents go to the largest fractional shares first.
+  const fraction = (index: number) => (discount * items[index]!.amount) % total;
+  const order = items
+    .map((_, index) => index)
+    .sort((left, right) => fraction(right) - fraction(left) || items[right]!.amount - items[left]!.amount);
+
+  while (remainder > 0) {
+    let progressed = false;
+    for (const index of order) {
+      if (remainder === 0) break;
+      if (items[index]!.amount - shares[index]! > 1) {
+        shares[index] = shares[index]! + 1;
+        remainder -= 1;
+        progressed = true;
+      }
+    }
+    if (!progressed) break;
+  }
+
+  return Object.fromEntries(items.map((item, index) => [item.productId, shares[index]!]));
+};
+
+const buyGetDiscount = (candidates: DealCartItem[], deal: ProducerDeal) => {
+  const buy = deal.buy_quantity ?? 0;
+  const groupSize = buy + (deal.free_quantity ?? 0);
+  const sorted = [...candidates].sort(byAmountDesc);
+  const members = sorted.slice(0, Math.floor(sorted.length / groupSize) * groupSize);
+
+  // In each group of the most expensive beats, the cheapest ones are free.
+  let discount = 0;
+  for (let start = 0; start < members.length; start += groupSize) {
+    discount += sum(members.slice(start + buy, start + groupSize));
+  }
+
+  return { members, discount };
+};
+
+/**
+ * Deals that apply to a cart: bundles first, biggest saving first, then the
+ * best buy X get Y deal of each producer on the beats left over. Exclusives
+ * are never part of a deal. Mirrored in supabase/functions/_shared/checkoutDeals.ts.
+ */
+export const evaluateProducerDeals = (items: DealCartItem[], deals: ProducerDeal[]): DealEvaluation => {
+  const eligible = items.filter((item) => !item.isExclusive && item.amount > 0);
+  const claimed = new Set<string>();
+  const appliedDeals: AppliedDeal[] = [];
+  const itemDiscounts: Record<string, number> = {};
+  const activeDeals = deals.filter((deal) => deal.archived_at === null);
+
+  const apply = (deal: ProducerDeal, members: DealCartItem[], discount: number) => {
+    const shares = allocateDealDiscount(members, discount);
+    members.forEach((member) => claimed.add(member.productId));
+    Object.assign(itemDiscounts, shares);
+    appliedDeals.push({
+      dealId: deal.id,
+      title: deal.title,
+      dealType: deal.deal_type,
+      productIds: members.map((member) => member.productId),
+      // What the items carry: a bundle priced under a cent per beat cannot give it all.
+      discount: sumShares(shares),
+    });
+  };
+
+  const bundles = activeDeals
+    .filter((deal) => deal.deal_type === 'bundle' && deal.bundle_price !== null && deal.product_ids.length >= 2)
+    .map((deal) => {
+      const members = deal.product_ids
+        .map((productId) => eligible.find((item) => item.productId === productId && item.producerId === deal.producer_id))
+        .filter((item): item is DealCartItem => item !== undefined);
+      const isComplete = members.length === deal.product_ids.length;
+      return { deal, members, discount: isComplete ? sum(members) - (deal.bundle_price ?? 0) : 0 };
+    })
+    .filter((candidate) => candidate.discount > 0)
+    .sort((left, right) => right.discount - left.discount || left.deal.id.localeCompare(right.deal.id));
+
+  for (const candidate of bundles) {
+    if (candidate.members.some((member) => claimed.has(member.productId))) continue;
+    apply(candidate.deal, candidate.members, candidate.discount);
+  }
+
+  const producerIds = [...new Set(eligible.map((item) => item.producerId))];
+  for (const producerId of producerIds) {
+    const pool = eligible.filter((item) => item.producerId === producerId && !claimed.has(item.productId));
+    let best: { deal: ProducerDeal; members: DealCartItem[]; discount: number } | null = null;
+
+    for (const deal of activeDeals) {
+      if (deal.deal_type !== 'buy_x_get_y' || deal.producer_id !== producerId) continue;
+      if (!deal.buy_quantity || !deal.free_quantity) continue;
+
+      const candidates = deal.product_ids.length > 0
+        ? pool.filter((item) => deal.product_ids.includes(item.productId))
+        : pool;
+      const { members, discount } = buyGetDiscount(candidates, deal);
+      if (discount > 0 && (!best || discount > best.discount || (discount === best.discount && deal.id < best.deal.id))) {
+        best = { deal, members, discount };
+      }
+    }
+
+    if (best) {
+      apply(best.deal, best.members, best.discount);
+    }
+  }
+
+  return {
+    appliedDeals,
+    itemDiscounts,
+    discountTotal: appliedDeals.reduce((total, deal) => total + deal.discount, 0),
+  };
+};
+
+/**
+ * Discount a promo code gives on a cart, applied to the amounts left after
+ * producer deals. Like deals it is spread over the covered items, and it
+ * never takes the cart under MIN_CHECKOUT_AMOUNT. Mirrored in
+ * supabase/functions/_shared/checkoutDeals.ts.
+ */
+export const evaluatePromoCode = (
+  items: DealCartItem[],
+  promo: Pick<PromoCode, 'discount_type' | 'discount_value' | 'scope' | 'product_id' | 'scope_producer_id'>,
+): PromoEvaluation => {
+  const covered = items.filter((item) => {
+    if (item.amount <= 0) return false;
+    if (promo.scope === 'product') return item.productId === promo.product_id;
+    if (promo.scope === 'producer') return item.producerId === promo.scope_producer_id;
+    return promo.scope === 'all_beats';
+  });
+
+  const requested = promo.discount_type === 'percent'
+    ? Math.floor((sum(covered) * promo.discount_value) / 100)
+    : promo.discount_value;
+  const discount = Math.min(requested, sum(items) - MIN_CHECKOUT_AMOUNT);
+
+  if (covered.length === 0 || discount <= 0) {
+    return { itemDiscounts: {}, discountTotal: 0 };
+  }
+
+  const itemDiscounts = allocateDealDiscount(covered, discount);
+  return {
+    itemDiscounts,
+    discountTotal: sumShares(itemDiscounts),
+  };
+};
@@ -0,0 +1,148 @@
+import type { License } from '../supabase/types';
+
+// Bounds enforced by rpc_save_license_tier and rpc_set_product_license_tiers.
+export const LICENSE_TIER_NAME_MAX_LENGTH = 60;
+export const MAX_LICENSE_TIERS_PER_PRODUCT = 6;
+
+export interface LicenseTierFormValues {
+  name: string;
+  description: string;
+  price: string;
+  maxStreams: string;
+  maxSales: string;
+  youtubeMonetization: boolean;
+  musicVideoAllowed: boolean;
+  creditRequired: boolean;
+  exclusiveAllowed: boolean;
+  stemsIncluded: boolean;
+}
+
+export interface LicenseTierSettings {
+  name: string;
+  description: string;
+  priceCents: number;
+  maxStreams: number | null;
+  maxSales: number | null;
+  youtubeMonetization: boolean;
+  musicVideoAllowed: boolean;
+  creditRequired: boolean;
+  exclusiveAllowed: boolean;
+  stemsIncluded: boolean;
+}
+
+export type LicenseTierFormError = 'name' | 'price' | 'limits';
+
+export type LicenseTermKey =
+  | 'maxStreams'
+  | 'maxSales'
+  | 'youtubeMonetization'
+  | 'musicVideoAllowed'
+  | 'creditRequired'
+  | 'stemsIncluded';
+
+export type LicenseTermRow =
+  | { key: 'maxStreams' | 'maxSales'; kind: 'limit'; value: number | null }
+  | { key: Exclude<LicenseTermKey, 'maxStreams' | 'maxSales'>; kind: 'flag'; value: boolean };
+
+export const EMPTY_LICENSE_TIER_FORM: LicenseTierFormValues = {
+  name: '',
+  description: '',
+  price: '',
+  maxStreams: '',
+  maxSales: '',
+  youtubeMonetization: false,
+  musicVideoAllowed: false,
+  creditRequired: true,
+  exclusiveAllowed: false,
+  stemsIncluded: false,
+};
+
+export const toLicenseTierFormValues = (license: License): LicenseTierFormValues => ({
+  name: license.name,
+  description: license.description ?? '',
+  price: license.price ? (license.price / 100).toString() : '',
+  maxStreams: license.max_streams != null ? String(license.max_streams) : '',
+  maxSales: license.max_sales != null ? String(license.max_sales) : '',
+  youtubeMonetization: license.youtube_monetization,
+  musicVideoAllowed: license.music_video_allowed,
+  creditRequired: license.credit_required,
+  exclusiveAllowed: license.exclusive_allowed,
+  stemsIncluded: license.stems_included,
+});
+
+/** Euro amount typed by a producer to cents; null when not a positive amount. */
+export const parsePriceCents = (value: string): number | null => {
+  const normalized = value.trim().replace(',', '.');
+  if (!/^\d+(\.\d{1,2})?$/.test(normalized)) return null;
+  const cents = Math.round(Number(normalized) * 100);
+  return Number.isSafeInteger(cents) && cents > 0 ? cents : null;
+};
+
+// An empty limit means unlimited.
+const parseLimit = (value: string): number | null | undefined => {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  if (!/^\d+$/.test(trimmed)) return undefined;
+  const parsed = Number(trimmed);
+  return Number.isSafeInteger(parsed) ? parsed : undefined;
+};
+
+export const parseLicenseTierForm = (
+  values: LicenseTierFormValues,
+): { settings: LicenseTierSettings; error: null } | { settings: null; error: LicenseTierFormError } => {
+  const name = values.name.trim();
+  if (name.length === 0 || name.length > LICENSE_TIER_NAME_MAX_LENGTH) {
+    return { settings: null, error: 'name' };
+  }
+
+  const priceCents = parsePriceCents(values.price);
+  if (priceCents === null) {
+    return { settings: null, error: 'price' };
+  }
+
+  const maxStreams = parseLimit(values.maxStreams);
+  const maxSales = parseLimit(values.maxSales);
+  if (maxStreams === undefined || maxSales === undefined) {
+    return { settings: null, error: 'limits' };
+  }
+
+  return {
+    settings: {
+      name,
+      description: values.description.trim(),
+      priceCents,
+      maxStreams,
+      maxSales,
+      youtubeMonetization: values.youtubeMonetization,
+      musicVideoAllowed: values.musicVideoAllowed,
+      creditRequired: values.creditRequired,
+      exclusiveAllowed: values.exclusiveAllowed,
+      stemsIncluded: values.stemsIncluded,
+    },
+    error: null,
+  };
+};
+
+/** Rights shown to buyers for a tier, in the order the contract lists them. */
+export const getLicenseTermRows = (
+  license: Pick<
+    License,
+    'max_streams' | 'max_sales' | 'youtube_monetization' | 'music_video_allowed' | 'credit_required' | 'stems_included'
+  >,
+): LicenseTermRow[] => [
+  { key: 'maxStreams', kind: 'limit', value: license.max_streams },
+  { key: 'maxSales', kind: 'limit', value: license.max_sales },
+  { key: 'youtubeMonetization', kind: 'flag', value: license.youtube_monetization },
+  { key: 'musicVideoAllowed', kind: 'flag', value: license.music_video_allowed },
+  { key: 'creditRequired', kind: 'flag', value: license.credit_required },
+  { key: 'stemsIncluded', kind: 'flag', value: license.stems_included },
+];
+
+/** Tiers a producer may offer on a product: platform licenses and their own, never archived ones. */
+export const canOfferLicenseTier = (
+  license: Pick<License, 'producer_id' | 'archived_at' | 'exclusive_allowed'>,
+  product: { producer_id: string; is_exclusive: boolean },
+) =>
+  license.archived_at === null &&
+  (license.producer_id === null || license.producer_id === product.producer_id) &&
+  license.exclusive_allowed === product.is_exclusive;
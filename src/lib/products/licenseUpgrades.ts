@@ -0,0 +1,63 @@
+import type { ProductLicense, Purchase } from '../supabase/types';
+
+export interface LicenseUpgradeOption {
+  productId: string;
+  // Null for an exclusive without producer tiers: checkout resolves its license.
+  licenseId: string | null;
+  licenseName: string | null;
+  isExclusive: boolean;
+  price: number;
+  amountDue: number;
+}
+
+interface UpgradeTargetProduct {
+  id: string;
+  price: number;
+}
+
+/** What the buyer already paid along an upgrade chain, in cents. Mirrors create-checkout. */
+export const getUpgradeCredit = (purchase: Pick<Purchase, 'amount' | 'metadata'>) => {
+  const previousCredit = Number(purchase.metadata?.upgrade_credit);
+  return purchase.amount + (Number.isSafeInteger(previousCredit) && previousCredit > 0 ? previousCredit : 0);
+};
+
+/**
+ * Upgrades offered on a purchase: the other producer tiers of the same beat
+ * and the unsold exclusive versions of it, cheapest first. Only targets that
+ * cost more than what was already paid are kept.
+ */
+export const buildLicenseUpgradeOptions = (
+  purchase: Pick<Purchase, 'product_id' | 'license_id' | 'amount' | 'metadata'>,
+  offers: ProductLicense[],
+  exclusives: Array<UpgradeTargetProduct & { licenses?: ProductLicense[] }>,
+): LicenseUpgradeOption[] => {
+  const credit = getUpgradeCredit(purchase);
+
+  const tierOptions = offers
+    .filter((offer) => offer.source === 'producer' && offer.is_active && offer.license_id !== purchase.license_id)
+    .map((offer) => ({
+      productId: purchase.product_id,
+      licenseId: offer.license_id,
+      licenseName: offer.license?.name ?? null,
+      isExclusive: false,
+      price: offer.price,
+      amountDue: offer.price - credit,
+    }));
+
+  const exclusiveOptions = exclusives.map((product) => {
+    const offer = product.licenses?.find((license) => license.source === 'producer' && license.is_active);
+    const price = offer?.price ?? product.price;
+    return {
+      productId: product.id,
+      licenseId: offer?.license_id ?? null,
+      licenseName: offer?.license?.name ?? null,
+      isExclusive: true,
+      price,
+      amountDue: price - credit,
+    };
+  });
+
+  return [...tierOptions, ...exclusiveOptions]
+    .filter((option) => option.amountDue > 0)
+    .sort((left, right) => left.amountDue - right.amountDue);
+};
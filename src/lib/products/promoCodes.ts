@@ -0,0 +1,138 @@
+import type { TranslationKey } from '../i18n';
+import type { PromoCodeScope, PromoDiscountType } from '../supabase/types';
+import { parsePriceCents } from './licenseTiers';
+
+// Errors raised by check_promo_code, in the order it checks them.
+export const PROMO_CODE_ERRORS = [
+  'promo_code_not_found',
+  'promo_code_not_started',
+  'promo_code_expired',
+  'promo_code_not_applicable',
+  'promo_code_exhausted',
+  'promo_code_already_used',
+] as const;
+
+export type PromoCodeError = typeof PROMO_CODE_ERRORS[number];
+
+export const PROMO_CODE_ERROR_KEYS: Record<PromoCodeError, TranslationKey> = {
+  promo_code_not_found: 'checkout.promoCodeNotFound',
+  promo_code_not_started: 'checkout.promoCodeNotStarted',
+  promo_code_expired: 'checkout.promoCodeExpired',
+  promo_code_not_applicable: 'checkout.promoCodeNotApplicable',
+  promo_code_exhausted: 'checkout.promoCodeExhausted',
+  promo_code_already_used: 'checkout.promoCodeAlreadyUsed',
+};
+
+export const getPromoCodeError = (error: unknown): PromoCodeError | null => {
+  const message = typeof error === 'object' && error !== null && 'message' in error
+    ? String((error as { message: unknown }).message)
+    : typeof error === 'string' ? error : '';
+  return PROMO_CODE_ERRORS.find((code) => message.includes(code)) ?? null;
+};
+
+export const normalizePromoCode = (value: string) => value.trim().toUpperCase();
+
+export interface PromoCodeFormValues {
+  code: string;
+  discountType: PromoDiscountType;
+  discountValue: string;
+  scope: PromoCodeScope;
+  productId: string;
+  scopeProducerId: string;
+  planTier: string;
+  maxRedemptions: string;
+  perUserLimit: string;
+  expiresAt: string;
+}
+
+export interface PromoCodeSettings {
+  code: string;
+  discountType: PromoDiscountType;
+  // Percentage for percent codes, cents for fixed ones.
+  discountValue: number;
+  scope: PromoCodeScope;
+  productId: string | null;
+  scopeProducerId: string | null;
+  planTier: string | null;
+  maxRedemptions: number | null;
+  perUserLimit: number;
+  expiresAt: string | null;
+}
+
+export type PromoCodeFormError = 'code' | 'discount' | 'scope' | 'limits' | 'dates';
+
+export const EMPTY_PROMO_CODE_FORM: PromoCodeFormValues = {
+  code: '',
+  discountType: 'percent',
+  discountValue: '10',
+  scope: 'producer',
+  productId: '',
+  scopeProducerId: '',
+  planTier: '',
+  maxRedemptions: '',
+  perUserLimit: '1',
+  expiresAt: '',
+};
+
+const parseCount = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const parsed = Number(trimmed);
+  return Number.isSafeInteger(parsed) && parsed >= 1 ? parsed : null;
+};
+
+export const parsePromoCodeForm = (
+  values: PromoCodeFormValues,
+): { settings: PromoCodeSettings; error: null } | { settings: null; error: PromoCodeFormError } => {
+  const code = normalizePromoCode(values.code);
+  if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+    return { settings: null, error: 'code' };
+  }
+
+  const discountValue = values.discountType === 'percent'
+    ? parseCount(values.discountValue)
+    : parsePriceCents(values.discountValue);
+  if (discountValue === null || (values.discountType === 'percent' && discountValue > 100)) {
+    return { settings: null, error: 'discount' };
+  }
+
+  const productId = values.productId.trim();
+  const scopeProducerId = values.scopeProducerId.trim();
+  if (values.scope === 'product' && !productId) {
+    return { settings: null, error: 'scope' };
+  }
+
+  // An empty cap means unlimited.
+  const hasMaxRedemptions = values.maxRedemptions.trim() !== '';
+  const maxRedemptions = hasMaxRedemptions ? parseCount(values.maxRedemptions) : null;
+  const perUserLimit = parseCount(values.perUserLimit);
+  if (perUserLimit === null || (hasMaxRedemptions && maxRedemptions === null)) {
+    return { settings: null, error: 'limits' };
+  }
+
+  // Date inputs give a day: the code stays valid until the end of it.
+  let expiresAt: string | null = null;
+  if (values.expiresAt.trim() !== '') {
+    const parsed = new Date(`${values.expiresAt.trim()}T23:59:59`);
+    if (Number.isNaN(parsed.getTime()) || parsed.getTime() <= Date.now()) {
+      return { settings: null, error: 'dates' };
+    }
+    expiresAt = parsed.toISOString();
+  }
+
+  return {
+    settings: {
+      code,
+      discountType: values.discountType,
+      discountValue,
+      scope: values.scope,
+      productId: values.scope === 'product' ? productId : null,
+      scopeProducerId: values.scope === 'producer' && scopeProducerId ? scopeProducerId : null,
+      planTier: values.scope === 'plan' && values.planTier ? values.planTier : null,
+      maxRedemptions,
+      perUserLimit,
+      expiresAt,
+    },
+    error: null,
+  };
+};
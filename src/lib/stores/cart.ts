@@ -1,21 +1,52 @@
 import { create } from 'zustand';
 import { supabase } from '@/lib/supabase/client';
 import { GENRE_SAFE_COLUMNS, MOOD_SAFE_COLUMNS, PRODUCT_SAFE_COLUMNS } from '../supabase/selects';
-import type { CartItemWithProduct } from '../supabase/types';
+import type { CartItemWithProduct, ProducerDeal, ProductLicense, PromoCode } from '../supabase/types';
+import {
+  evaluateProducerDeals,
+  evaluatePromoCode,
+  type DealCartItem,
+  type DealEvaluation,
+  type PromoEvaluation,
+} from '../products/deals';
+import {
+  fetchProductLicensesMap,
+  getDisplayPrice,
+  getProducerLicenseOffers,
+  resolveProductLicense,
+} from '../pricing';
 
 interface CartState {
   items: CartItemWithProduct[];
+  deals: ProducerDeal[];
+  promoCode: PromoCode | null;
   isLoading: boolean;
   fetchCart: () => Promise<void>;
-  addToCart: (productId: string) => Promise<void>;
+  addToCart: (productId: string, license?: ProductLicense | null) => Promise<void>;
   removeFromCart: (productId: string) => Promise<void>;
   clearCart: () => Promise<void>;
+  applyPromoCode: (code: string) => Promise<void>;
+  removePromoCode: () => void;
+  getSubtotal: () => number;
+  getDealEvaluation: () => DealEvaluation;
+  getPromoEvaluation: () => PromoEvaluation;
   getTotal: () => number;
   getItemCount: () => number;
 }
 
+const toDealCartItems = (items: CartItemWithProduct[]): DealCartItem[] => items.flatMap((item) => (item.product
+  ? [{
+      productId: item.product_id,
+      producerId: item.product.producer_id,
+      amount: getDisplayPrice(item.product, item.selected_license),
+      isExclusive: item.product.is_exclusive,
+    }]
+  : []));
+
 export const useCartStore = create<CartState>((set, get) => ({
   items: [],
+  deals: [],
+  promoCode: null,
   isLoading: false,
 
   fetchCart: async () => {
@@ -23,7 +54,7 @@ export const useCartStore = create<CartState>((set, get) => ({
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) {
-        set({ items: [], isLoading: false });
+        set({ items: [], deals: [], promoCode: null, isLoading: false });
         return;
       }
 
@@ -48,21 +79,43 @@ export const useCartStore = create<CartState>((set, get) => ({
         return item.product.is_published && (!item.product.is_exclusive || !item.product.is_sold);
       });
 
+      const licensesMap = await fetchProductLicensesMap(validItems.map((item) => item.product.id));
       const hydratedItems = validItems.map((item) => {
+        const product = { ...item.product, licenses: licensesMap.get(item.product.id) ?? [] };
         return {
           ...item,
-          selected_license: null,
+          product,
+          selected_license: getProducerLicenseOffers(product).length > 0
+            ? resolveProductLicense(product, { licenseId: item.license_id, licenseType: item.license_type })
+            : null,
         };
       });
 
-      set({ items: hydratedItems, isLoading: false });
+      const producerIds = [...new Set(hydratedItems.map((item) => item.product.producer_id))];
+      let deals: ProducerDeal[] = [];
+      if (producerIds.length > 0) {
+        const { data: dealRows, error: dealsError } = await supabase
+          .from('producer_deals')
+          .select('id, producer_id, title, deal_type, buy_quantity, free_quantity, bundle_price, product_ids, archived_at, created_at, updated_at')
+          .in('producer_id', producerIds)
+          .is('archived_at', null);
+
+        // Deals only lower the price: the cart still works without them.
+        if (dealsError) {
+          console.error('Error fetching cart deals:', dealsError);
+        } else {
+          deals = (dealRows as ProducerDeal[] | null) ?? [];
+        }
+      }
+
+      set({ items: hydratedItems, deals, isLoading: false });
     } catch (error) {
       console.error('Error fetching cart:', error);
       set({ isLoading: false });
     }
   },
 
-  addToCart: async (productId: string) => {
+  addToCart: async (productId: string, license?: ProductLicense | null) => {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
       throw new Error('Must be logged in to add to cart');
@@ -73,8 +126,8 @@ export const useCartStore = create<CartState>((set, get) => ({
       .upsert({
         user_id: user.id,
         product_id: productId,
-        license_id: null,
-        license_type: null,
+        license_id: license?.license_id ?? null,
+        license_type: license?.license_type ?? null,
       }, {
         onConflict: 'user_id,product_id',
       });
@@ -110,15 +163,54 @@ export const useCartStore = create<CartState>((set, get) => ({
       .eq('user_id', user.id);
 
     if (error) throw error;
-    set({ items: [] });
+    set({ items: [], deals: [], promoCode: null });
   },
 
-  getTotal: () => {
+  // create-checkout checks the code again; this only previews the discount.
+  applyPromoCode: async (code: string) => {
+    const { data, error } = await supabase.rpc('rpc_check_promo_code', {
+      p_code: code.trim(),
+      p_context: 'marketplace',
+    });
+
+    if (error) throw error;
+    set({ promoCode: data as PromoCode });
+  },
+
+  removePromoCode: () => {
+    set({ promoCode: null });
+  },
+
+  getSubtotal: () => {
     return get().items.reduce((total, item) => {
-      return total + (item.product?.price ?? 0);
+      return total + getDisplayPrice(item.product, item.selected_license);
     }, 0);
   },
 
+  // Same evaluation as create-checkout, which charges the discounted total.
+  getDealEvaluation: () => {
+    const { items, deals } = get();
+    return evaluateProducerDeals(toDealCartItems(items), deals);
+  },
+
+  // Promo codes apply to what is left after producer deals.
+  getPromoEvaluation: () => {
+    const { items, promoCode } = get();
+    if (!promoCode) {
+      return { itemDiscounts: {}, discountTotal: 0 };
+    }
+
+    const { itemDiscounts } = get().getDealEvaluation();
+    return evaluatePromoCode(
+      toDealCartItems(items).map((item) => ({ ...item, amount: item.amount - (itemDiscounts[item.productId] ?? 0) })),
+      promoCode,
+    );
+  },
+
+  getTotal: () => {
+    return get().getSubtotal() - get().getDealEvaluation().discountTotal - get().getPromoEvaluation().discountTotal;
+  },
+
   getItemCount: () => {
     return get().items.length;
   },
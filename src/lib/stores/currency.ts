@@ -0,0 +1,111 @@
+import { useCallback, useEffect } from 'react';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { supabase } from '@/lib/supabase/client';
+import { formatPrice } from '../utils/format';
+import {
+  BASE_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  isSupportedCurrency,
+  resolveLocaleCurrency,
+  toPresentmentAmount,
+  type SupportedCurrency,
+} from '../utils/currency';
+
+const CURRENCY_STORAGE_KEY = 'levelup-currency';
+
+interface CurrencyState {
+  // null until the visitor picks one: the browser locale decides.
+  selectedCurrency: SupportedCurrency | null;
+  rates: Partial<Record<SupportedCurrency, number>>;
+  ratesStatus: 'idle' | 'loading' | 'loaded' | 'error';
+  setCurrency: (currency: SupportedCurrency) => void;
+  fetchRates: () => Promise<void>;
+}
+
+export const useCurrencyStore = create<CurrencyState>()(
+  persist(
+    (set, get) => ({
+      selectedCurrency: null,
+      rates: { [BASE_CURRENCY]: 1 },
+      ratesStatus: 'idle',
+
+      setCurrency: (currency) => set({ selectedCurrency: currency }),
+
+      fetchRates: async () => {
+        if (get().ratesStatus === 'loading' || get().ratesStatus === 'loaded') return;
+
+        set({ ratesStatus: 'loading' });
+        const { data, error } = await supabase
+          .from('exchange_rates')
+          .select('currency, rate_from_eur')
+          .eq('is_active', true);
+
+        if (error) {
+          console.error('Error fetching exchange rates:', error);
+          set({ ratesStatus: 'error' });
+          return;
+        }
+
+        const rates: Partial<Record<SupportedCurrency, number>> = { [BASE_CURRENCY]: 1 };
+        for (const row of data ?? []) {
+          const rate = Number(row.rate_from_eur);
+          if (isSupportedCurrency(row.currency) && Number.isFinite(rate) && rate > 0) {
+            rates[row.currency] = rate;
+          }
+        }
+        set({ rates, ratesStatus: 'loaded' });
+      },
+    }),
+    {
+      name: CURRENCY_STORAGE_KEY,
+      partialize: (state) => ({ selectedCurrency: state.selectedCurrency }),
+      merge: (persisted, current) => {
+        const selectedCurrency = (persisted as { selectedCurrency?: unknown } | undefined)?.selectedCurrency;
+        return {
+          ...current,
+          selectedCurrency: isSupportedCurrency(selectedCurrency) ? selectedCurrency : null,
+        };
+      },
+    }
+  )
+);
+
+const resolveBrowserCurrency = () =>
+  resolveLocaleCurrency(typeof navigator !== 'undefined' ? navigator.language : null);
+
+/**
+ * Currency catalog prices are shown and charged in. Falls back to euros while
+ * rates load, or when the chosen currency has no active rate.
+ */
+export function useDisplayCurrency() {
+  const selectedCurrency = useCurrencyStore((state) => state.selectedCurrency);
+  const rates = useCurrencyStore((state) => state.rates);
+  const ratesStatus = useCurrencyStore((state) => state.ratesStatus);
+  const fetchRates = useCurrencyStore((state) => state.fetchRates);
+  const setCurrency = useCurrencyStore((state) => state.setCurrency);
+
+  useEffect(() => {
+    if (ratesStatus === 'idle') {
+      void fetchRates();
+    }
+  }, [fetchRates, ratesStatus]);
+
+  const wantedCurrency = selectedCurrency ?? resolveBrowserCurrency();
+  const wantedRate = rates[wantedCurrency];
+  const currency: SupportedCurrency = wantedRate ? wantedCurrency : BASE_CURRENCY;
+  const rate = wantedRate ?? 1;
+
+  const formatCatalogPrice = useCallback(
+    (cents: number) => formatPrice(toPresentmentAmount(cents, rate), currency),
+    [currency, rate],
+  );
+
+  return {
+    currency,
+    rate,
+    currencies: SUPPORTED_CURRENCIES.filter((code) => rates[code] !== undefined),
+    setCurrency,
+    formatCatalogPrice,
+  };
+}
@@ -65,6 +65,7 @@ const CATALOG_SELECT_COLUMNS = [
   'watermarked_bucket',
   'preview_url',
   'exclusive_preview_url',
+  'preview_renditions_version',
   'cover_image_url',
   'is_exclusive',
   'is_sold',
@@ -122,6 +123,7 @@ const toProduct = (row: CatalogProductRow): ProductWithRelations => {
     watermarked_bucket: row.watermarked_bucket,
     preview_url: row.preview_url,
     exclusive_preview_url: row.exclusive_preview_url,
+    preview_renditions_version: row.preview_renditions_version,
     cover_image_url: row.cover_image_url,
     is_exclusive: row.is_exclusive ?? false,
     is_sold: row.is_sold ?? false,
@@ -224,10 +224,15 @@ export type Database = {
       admin_battle_campaigns: {
         Row: {
           battle_id: string | null
+          blind_voting: boolean
+          campaign_kind: string
           cover_image_url: string | null
           created_at: string
           created_by: string | null
           description: string | null
+          flip_allowed_keys: string[]
+          flip_bpm_max: number | null
+          flip_bpm_min: number | null
           id: string
           launched_at: string | null
           participation_deadline: string
@@ -235,17 +240,24 @@ export type Database = {
           selected_producer2_id: string | null
           share_slug: string | null
           social_description: string | null
+          source_pack_url: string | null
           status: Database["public"]["Enums"]["admin_battle_campaign_status"]
           submission_deadline: string
           title: string
+          tournament_id: string | null
           updated_at: string
         }
         Insert: {
           battle_id?: string | null
+          blind_voting?: boolean
+          campaign_kind?: string
           cover_image_url?: string | null
           created_at?: string
           created_by?: string | null
           description?: string | null
+          flip_allowed_keys?: string[]
+          flip_bpm_max?: number | null
+          flip_bpm_min?: number | null
           id?: string
           launched_at?: string | null
           participation_deadline: string
@@ -253,17 +265,24 @@ export type Database = {
           selected_producer2_id?: string | null
           share_slug?: string | null
           social_description?: string | null
+          source_pack_url?: string | null
           status?: Database["public"]["Enums"]["admin_battle_campaign_status"]
           submission_deadline: string
           title: string
+          tournament_id?: string | null
           updated_at?: string
         }
         Update: {
           battle_id?: string | null
+          blind_voting?: boolean
+          campaign_kind?: string
           cover_image_url?: string | null
           created_at?: string
           created_by?: string | null
           description?: string | null
+          flip_allowed_keys?: string[]
+          flip_bpm_max?: number | null
+          flip_bpm_min?: number | null
           id?: string
           launched_at?: string | null
           participation_deadline?: string
@@ -271,9 +290,11 @@ export type Database = {
           selected_producer2_id?: string | null
           share_slug?: string | null
           social_description?: string | null
+          source_pack_url?: string | null
           status?: Database["public"]["Enums"]["admin_battle_campaign_status"]
           submission_deadline?: string
           title?: string
+          tournament_id?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -368,6 +389,13 @@ export type Database = {
             referencedRelation: "weekly_leaderboard"
             referencedColumns: ["user_id"]
           },
+          {
+            foreignKeyName: "admin_battle_campaigns_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
         ]
       }
       admin_notifications: {
@@ -620,6 +648,177 @@ export type Database = {
         }
         Relationships: []
       }
+      audio_fingerprint_matches: {
+        Row: {
+          created_at: string
+          id: string
+          matched_product_id: string
+          offset_sec: number
+          overlap_sec: number
+          product_id: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          similarity: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          matched_product_id: string
+          offset_sec?: number
+          overlap_sec?: number
+          product_id: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          similarity: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          matched_product_id?: string
+          offset_sec?: number
+          overlap_sec?: number
+          product_id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          similarity?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audio_fingerprint_matches_matched_product_id_fkey"
+            columns: ["matched_product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audio_fingerprint_matches_matched_product_id_fkey"
+            columns: ["matched_product_id"]
+            isOneToOne: false
+            referencedRelation: "products_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audio_fingerprint_matches_matched_product_id_fkey"
+            columns: ["matched_product_id"]
+            isOneToOne: false
+            referencedRelation: "public_products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audio_fingerprint_matches_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audio_fingerprint_matches_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audio_fingerprint_matches_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "public_products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audio_fingerprint_matches_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "my_user_profile"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audio_fingerprint_matches_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "my_user_profile"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "audio_fingerprint_matches_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audio_fingerprint_matches_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "weekly_leaderboard"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      audio_fingerprints: {
+        Row: {
+          algorithm_version: number
+          codes: number[]
+          created_at: string
+          duration_sec: number
+          frame_hop_sec: number
+          lookup_codes: number[]
+          product_id: string
+          updated_at: string
+        }
+        Insert: {
+          algorithm_version: number
+          codes: number[]
+          created_at?: string
+          duration_sec: number
+          frame_hop_sec: number
+          lookup_codes: number[]
+          product_id: string
+          updated_at?: string
+        }
+        Update: {
+          algorithm_version?: number
+          codes?: number[]
+          created_at?: string
+          duration_sec?: number
+          frame_hop_sec?: number
+          lookup_codes?: number[]
+          product_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audio_fingerprints_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: true
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audio_fingerprints_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: true
+            referencedRelation: "products_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audio_fingerprints_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: true
+            referencedRelation: "public_products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audio_processing_jobs: {
         Row: {
           attempts: number
@@ -755,6 +954,35 @@ export type Database = {
           },
         ]
       }
+      battle_blind_aliases: {
+        Row: {
+          alias: string
+          battle_id: string
+          created_at: string
+          producer_id: string
+        }
+        Insert: {
+          alias?: string
+          battle_id: string
+          created_at?: string
+          producer_id: string
+        }
+        Update: {
+          alias?: string
+          battle_id?: string
+          created_at?: string
+          producer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "battle_blind_aliases_battle_id_fkey"
+            columns: ["battle_id"]
+            isOneToOne: false
+            referencedRelation: "battles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       battle_comments: {
         Row: {
           battle_id: string
@@ -834,6 +1062,158 @@ export type Database = {
           },
         ]
       }
+      battle_entrants: {
+        Row: {
+          battle_id: string
+          created_at: string
+          final_rank: number | null
+          first_place_votes: number
+          id: string
+          points: number
+          position: number
+          producer_id: string
+          product_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          battle_id: string
+          created_at?: string
+          final_rank?: number | null
+          first_place_votes?: number
+          id?: string
+          points?: number
+          position: number
+          producer_id: string
+          product_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          battle_id?: string
+          created_at?: string
+          final_rank?: number | null
+          first_place_votes?: number
+          id?: string
+          points?: number
+          position?: number
+          producer_id?: string
+          product_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "battle_entrants_battle_id_fkey"
+            columns: ["battle_id"]
+            isOneToOne: false
+            referencedRelation: "battles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "battle_entrants_producer_id_fkey"
+            columns: ["producer_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "battle_entrants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      battle_judge_scorecards: {
+        Row: {
+          battle_id: string
+          comment: string | null
+          created_at: string
+          criterion_scores: Json
+          id: string
+          judge_id: string
+          producer_id: string
+          updated_at: string
+        }
+        Insert: {
+          battle_id: string
+          comment?: string | null
+          created_at?: string
+          criterion_scores: Json
+          id?: string
+          judge_id: string
+          producer_id: string
+          updated_at?: string
+        }
+        Update: {
+          battle_id?: string
+          comment?: string | null
+          created_at?: string
+          criterion_scores?: Json
+          id?: string
+          judge_id?: string
+          producer_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "battle_judge_scorecards_judge_fkey"
+            columns: ["battle_id", "judge_id"]
+            isOneToOne: false
+            referencedRelation: "battle_judges"
+            referencedColumns: ["battle_id", "judge_id"]
+          },
+          {
+            foreignKeyName: "battle_judge_scorecards_producer_id_fkey"
+            columns: ["producer_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      battle_judges: {
+        Row: {
+          battle_id: string
+          created_at: string
+          invited_by: string | null
+          judge_id: string
+        }
+        Insert: {
+          battle_id: string
+          created_at?: string
+          invited_by?: string | null
+          judge_id: string
+        }
+        Update: {
+          battle_id?: string
+          created_at?: string
+          invited_by?: string | null
+          judge_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "battle_judges_battle_id_fkey"
+            columns: ["battle_id"]
+            isOneToOne: false
+            referencedRelation: "battles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "battle_judges_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "battle_judges_judge_id_fkey"
+            columns: ["judge_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       battle_product_snapshots: {
         Row: {
           battle_id: string
@@ -1300,6 +1680,55 @@ export type Database = {
           },
         ]
       }
+      battle_vote_rankings: {
+        Row: {
+          battle_id: string
+          created_at: string
+          entrant_id: string
+          points: number
+          rank: number
+          vote_id: string
+        }
+        Insert: {
+          battle_id: string
+          created_at?: string
+          entrant_id: string
+          points: number
+          rank: number
+          vote_id: string
+        }
+        Update: {
+          battle_id?: string
+          created_at?: string
+          entrant_id?: string
+          points?: number
+          rank?: number
+          vote_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "battle_vote_rankings_battle_id_fkey"
+            columns: ["battle_id"]
+            isOneToOne: false
+            referencedRelation: "battles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "battle_vote_rankings_entrant_id_fkey"
+            columns: ["entrant_id"]
+            isOneToOne: false
+            referencedRelation: "battle_entrants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "battle_vote_rankings_vote_id_fkey"
+            columns: ["vote_id"]
+            isOneToOne: false
+            referencedRelation: "battle_votes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       battle_votes: {
         Row: {
           battle_id: string
@@ -1392,7 +1821,9 @@ export type Database = {
         Row: {
           accepted_at: string | null
           admin_validated_at: string | null
+          battle_format: string
           battle_type: Database["public"]["Enums"]["battle_type"]
+          blind_voting: boolean
           created_at: string
           custom_duration_days: number | null
           description: string | null
@@ -1400,6 +1831,7 @@ export type Database = {
           featured: boolean
           genre_id: string | null
           id: string
+          judge_weight: number | null
           prize_description: string | null
           producer1_id: string
           producer2_id: string | null
@@ -1422,7 +1854,9 @@ export type Database = {
         Insert: {
           accepted_at?: string | null
           admin_validated_at?: string | null
+          battle_format?: string
           battle_type?: Database["public"]["Enums"]["battle_type"]
+          blind_voting?: boolean
           created_at?: string
           custom_duration_days?: number | null
           description?: string | null
@@ -1430,6 +1864,7 @@ export type Database = {
           featured?: boolean
           genre_id?: string | null
           id?: string
+          judge_weight?: number | null
           prize_description?: string | null
           producer1_id: string
           producer2_id?: string | null
@@ -1452,7 +1887,9 @@ export type Database = {
         Update: {
           accepted_at?: string | null
           admin_validated_at?: string | null
+          battle_format?: string
           battle_type?: Database["public"]["Enums"]["battle_type"]
+          blind_voting?: boolean
           created_at?: string
           custom_duration_days?: number | null
           description?: string | null
@@ -1460,6 +1897,7 @@ export type Database = {
           featured?: boolean
           genre_id?: string | null
           id?: string
+          judge_weight?: number | null
           prize_description?: string | null
           producer1_id?: string
           producer2_id?: string | null
@@ -1615,6 +2053,77 @@ export type Database = {
           },
         ]
       }
+      campaign_flip_submissions: {
+        Row: {
+          campaign_id: string
+          check_report: Json
+          checked_at: string | null
+          created_at: string
+          id: string
+          producer_id: string
+          product_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          campaign_id: string
+          check_report?: Json
+          checked_at?: string | null
+          created_at?: string
+          id?: string
+          producer_id: string
+          product_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          campaign_id?: string
+          check_report?: Json
+          checked_at?: string | null
+          created_at?: string
+          id?: string
+          producer_id?: string
+          product_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_flip_submissions_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "admin_battle_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_flip_submissions_producer_id_fkey"
+            columns: ["producer_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_flip_submissions_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_flip_submissions_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cart_items: {
         Row: {
           created_at: string
@@ -1832,13 +2341,73 @@ export type Database = {
           window_start: string
         }
         Update: {
-          counter?: number
-          ip_hash?: string
-          scope?: string
-          updated_at?: string
-          window_start?: string
+          counter?: number
+          ip_hash?: string
+          scope?: string
+          updated_at?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      contract_documents: {
+        Row: {
+          contract_language: string | null
+          contract_template_id: string | null
+          contract_template_version: number | null
+          details: Json
+          id: string
+          issued_at: string
+          purchase_id: string
+          reference: string
+          sha256: string
+          signature: string
+          signing_key_id: string
+          storage_path: string
+        }
+        Insert: {
+          contract_language?: string | null
+          contract_template_id?: string | null
+          contract_template_version?: number | null
+          details?: Json
+          id?: string
+          issued_at?: string
+          purchase_id: string
+          reference: string
+          sha256: string
+          signature: string
+          signing_key_id: string
+          storage_path: string
+        }
+        Update: {
+          contract_language?: string | null
+          contract_template_id?: string | null
+          contract_template_version?: number | null
+          details?: Json
+          id?: string
+          issued_at?: string
+          purchase_id?: string
+          reference?: string
+          sha256?: string
+          signature?: string
+          signing_key_id?: string
+          storage_path?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "contract_documents_contract_template_id_fkey"
+            columns: ["contract_template_id"]
+            isOneToOne: false
+            referencedRelation: "license_contract_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contract_documents_purchase_id_fkey"
+            columns: ["purchase_id"]
+            isOneToOne: false
+            referencedRelation: "purchases"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       contract_generation_jobs: {
         Row: {
@@ -2716,6 +3285,27 @@ export type Database = {
         }
         Relationships: []
       }
+      exchange_rates: {
+        Row: {
+          currency: string
+          is_active: boolean
+          rate_from_eur: number
+          updated_at: string
+        }
+        Insert: {
+          currency: string
+          is_active?: boolean
+          rate_from_eur: number
+          updated_at?: string
+        }
+        Update: {
+          currency?: string
+          is_active?: boolean
+          rate_from_eur?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       exclusive_locks: {
         Row: {
           expires_at: string
@@ -2793,6 +3383,71 @@ export type Database = {
           },
         ]
       }
+      exclusive_sale_records: {
+        Row: {
+          buyer_id: string
+          created_at: string
+          delisted_product_ids: string[]
+          id: string
+          prior_leases: Json
+          producer_id: string
+          product_id: string
+          purchase_id: string
+          voided_at: string | null
+        }
+        Insert: {
+          buyer_id: string
+          created_at?: string
+          delisted_product_ids?: string[]
+          id?: string
+          prior_leases?: Json
+          producer_id: string
+          product_id: string
+          purchase_id: string
+          voided_at?: string | null
+        }
+        Update: {
+          buyer_id?: string
+          created_at?: string
+          delisted_product_ids?: string[]
+          id?: string
+          prior_leases?: Json
+          producer_id?: string
+          product_id?: string
+          purchase_id?: string
+          voided_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exclusive_sale_records_buyer_id_fkey"
+            columns: ["buyer_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exclusive_sale_records_producer_id_fkey"
+            columns: ["producer_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exclusive_sale_records_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exclusive_sale_records_purchase_id_fkey"
+            columns: ["purchase_id"]
+            isOneToOne: true
+            referencedRelation: "purchases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       failed_credit_allocations: {
         Row: {
           created_at: string
@@ -3446,6 +4101,7 @@ export type Database = {
           id: string
           ip_hash: string | null
           post_id: string | null
+          product_id: string | null
           ua_hash: string | null
           user_id: string | null
         }
@@ -3456,6 +4112,7 @@ export type Database = {
           id?: string
           ip_hash?: string | null
           post_id?: string | null
+          product_id?: string | null
           ua_hash?: string | null
           user_id?: string | null
         }
@@ -3466,10 +4123,33 @@ export type Database = {
           id?: string
           ip_hash?: string | null
           post_id?: string | null
+          product_id?: string | null
           ua_hash?: string | null
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "fraud_events_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fraud_events_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fraud_events_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "public_products"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       ga4_tracked_purchases: {
         Row: {
@@ -3534,6 +4214,137 @@ export type Database = {
         }
         Relationships: []
       }
+      invoice_sequences: {
+        Row: {
+          last_number: number
+          seller_key: string
+          updated_at: string
+        }
+        Insert: {
+          last_number?: number
+          seller_key: string
+          updated_at?: string
+        }
+        Update: {
+          last_number?: number
+          seller_key?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          amount_cents: number
+          amount_eur_cents: number | null
+          buyer_email: string | null
+          buyer_id: string | null
+          buyer_name: string
+          created_at: string
+          credited_invoice_id: string | null
+          currency: string
+          description: string
+          fx_rate: number
+          id: string
+          invoice_number: string
+          issued_at: string
+          kind: string
+          license_name: string | null
+          payment_source: string
+          pdf_generated_at: string | null
+          pdf_path: string | null
+          purchase_id: string | null
+          seller_id: string | null
+          seller_key: string
+          seller_name: string
+          sequence_number: number
+          stripe_invoice_id: string | null
+          tax_cents: number
+        }
+        Insert: {
+          amount_cents: number
+          amount_eur_cents?: number | null
+          buyer_email?: string | null
+          buyer_id?: string | null
+          buyer_name: string
+          created_at?: string
+          credited_invoice_id?: string | null
+          currency: string
+          description: string
+          fx_rate?: number
+          id?: string
+          invoice_number: string
+          issued_at?: string
+          kind: string
+          license_name?: string | null
+          payment_source: string
+          pdf_generated_at?: string | null
+          pdf_path?: string | null
+          purchase_id?: string | null
+          seller_id?: string | null
+          seller_key: string
+          seller_name: string
+          sequence_number: number
+          stripe_invoice_id?: string | null
+          tax_cents?: number
+        }
+        Update: {
+          amount_cents?: number
+          amount_eur_cents?: number | null
+          buyer_email?: string | null
+          buyer_id?: string | null
+          buyer_name?: string
+          created_at?: string
+          credited_invoice_id?: string | null
+          currency?: string
+          description?: string
+          fx_rate?: number
+          id?: string
+          invoice_number?: string
+          issued_at?: string
+          kind?: string
+          license_name?: string | null
+          payment_source?: string
+          pdf_generated_at?: string | null
+          pdf_path?: string | null
+          purchase_id?: string | null
+          seller_id?: string | null
+          seller_key?: string
+          seller_name?: string
+          sequence_number?: number
+          stripe_invoice_id?: string | null
+          tax_cents?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_buyer_id_fkey"
+            columns: ["buyer_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_credited_invoice_id_fkey"
+            columns: ["credited_invoice_id"]
+            isOneToOne: true
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_purchase_id_fkey"
+            columns: ["purchase_id"]
+            isOneToOne: true
+            referencedRelation: "purchases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_seller_id_fkey"
+            columns: ["seller_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       label_requests: {
         Row: {
           company_name: string
@@ -3630,8 +4441,34 @@ export type Database = {
           },
         ]
       }
+      license_contract_templates: {
+        Row: {
+          bodies: Json
+          created_at: string
+          id: string
+          template_key: string
+          version: number
+        }
+        Insert: {
+          bodies: Json
+          created_at?: string
+          id?: string
+          template_key: string
+          version: number
+        }
+        Update: {
+          bodies?: Json
+          created_at?: string
+          id?: string
+          template_key?: string
+          version?: number
+        }
+        Relationships: []
+      }
       licenses: {
         Row: {
+          archived_at: string | null
+          contract_template_id: string | null
           created_at: string
           credit_required: boolean
           description: string | null
@@ -3642,10 +4479,14 @@ export type Database = {
           music_video_allowed: boolean
           name: string
           price: number | null
+          producer_id: string | null
+          stems_included: boolean
           updated_at: string
           youtube_monetization: boolean
         }
         Insert: {
+          archived_at?: string | null
+          contract_template_id?: string | null
           created_at?: string
           credit_required?: boolean
           description?: string | null
@@ -3656,10 +4497,14 @@ export type Database = {
           music_video_allowed?: boolean
           name: string
           price?: number | null
+          producer_id?: string | null
+          stems_included?: boolean
           updated_at?: string
           youtube_monetization?: boolean
         }
         Update: {
+          archived_at?: string | null
+          contract_template_id?: string | null
           created_at?: string
           credit_required?: boolean
           description?: string | null
@@ -3670,10 +4515,48 @@ export type Database = {
           music_video_allowed?: boolean
           name?: string
           price?: number | null
+          producer_id?: string | null
+          stems_included?: boolean
           updated_at?: string
           youtube_monetization?: boolean
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "licenses_contract_template_id_fkey"
+            columns: ["contract_template_id"]
+            isOneToOne: false
+            referencedRelation: "license_contract_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "licenses_producer_id_fkey"
+            columns: ["producer_id"]
+            isOneToOne: false
+            referencedRelation: "my_user_profile"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "licenses_producer_id_fkey"
+            columns: ["producer_id"]
+            isOneToOne: false
+            referencedRelation: "my_user_profile"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "licenses_producer_id_fkey"
+            columns: ["producer_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "licenses_producer_id_fkey"
+            columns: ["producer_id"]
+            isOneToOne: false
+            referencedRelation: "weekly_leaderboard"
+            referencedColumns: ["user_id"]
+          },
+        ]
       }
       message_replies: {
         Row: {
@@ -4242,6 +5125,56 @@ export type Database = {
         }
         Relationships: []
       }
+      producer_deals: {
+        Row: {
+          archived_at: string | null
+          buy_quantity: number | null
+          bundle_price: number | null
+          created_at: string
+          deal_type: string
+          free_quantity: number | null
+          id: string
+          producer_id: string
+          product_ids: string[]
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          archived_at?: string | null
+          buy_quantity?: number | null
+          bundle_price?: number | null
+          created_at?: string
+          deal_type: string
+          free_quantity?: number | null
+          id?: string
+          producer_id: string
+          product_ids?: string[]
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          archived_at?: string | null
+          buy_quantity?: number | null
+          bundle_price?: number | null
+          created_at?: string
+          deal_type?: string
+          free_quantity?: number | null
+          id?: string
+          producer_id?: string
+          product_ids?: string[]
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "producer_deals_producer_id_fkey"
+            columns: ["producer_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       producer_plan_config: {
         Row: {
           amount_cents: number
@@ -4353,33 +5286,60 @@ export type Database = {
       product_files: {
         Row: {
           created_at: string
+          duration_delta_seconds: number | null
+          duration_seconds: number | null
+          file_kind: string
           file_name: string
           file_size: number | null
           file_type: string | null
           file_url: string
           id: string
+          is_silent: boolean | null
           product_id: string
           sort_order: number | null
+          stem_count: number | null
+          validated_at: string | null
+          validation_details: Json | null
+          validation_error: string | null
+          validation_status: string
         }
         Insert: {
           created_at?: string
+          duration_delta_seconds?: number | null
+          duration_seconds?: number | null
+          file_kind?: string
           file_name: string
           file_size?: number | null
           file_type?: string | null
           file_url: string
           id?: string
+          is_silent?: boolean | null
           product_id: string
           sort_order?: number | null
+          stem_count?: number | null
+          validated_at?: string | null
+          validation_details?: Json | null
+          validation_error?: string | null
+          validation_status?: string
         }
         Update: {
           created_at?: string
+          duration_delta_seconds?: number | null
+          duration_seconds?: number | null
+          file_kind?: string
           file_name?: string
           file_size?: number | null
           file_type?: string | null
           file_url?: string
           id?: string
+          is_silent?: boolean | null
           product_id?: string
           sort_order?: number | null
+          stem_count?: number | null
+          validated_at?: string | null
+          validation_details?: Json | null
+          validation_error?: string | null
+          validation_status?: string
         }
         Relationships: [
           {
@@ -4416,6 +5376,7 @@ export type Database = {
           price: number
           product_id: string
           sort_order: number
+          source: string
           stripe_price_id: string | null
           updated_at: string
         }
@@ -4429,6 +5390,7 @@ export type Database = {
           price: number
           product_id: string
           sort_order?: number
+          source?: string
           stripe_price_id?: string | null
           updated_at?: string
         }
@@ -4442,6 +5404,7 @@ export type Database = {
           price?: number
           product_id?: string
           sort_order?: number
+          source?: string
           stripe_price_id?: string | null
           updated_at?: string
         }
@@ -4479,11 +5442,25 @@ export type Database = {
       products: {
         Row: {
           archived_at: string | null
+          audio_analysis_error: string | null
+          audio_analyzed_at: string | null
+          audio_quality_checked_at: string | null
+          audio_quality_held_publish: boolean
+          audio_quality_pending: boolean
+          audio_quality_report: Json | null
+          audio_quality_status: string | null
           bpm: number | null
           cover_image_url: string | null
           created_at: string
           deleted_at: string | null
           description: string | null
+          detected_bpm: number | null
+          detected_bpm_confidence: number | null
+          detected_key_confidence: number | null
+          detected_key_signature: string | null
+          duplicate_check_pending: boolean
+          duplicate_review_held_publish: boolean
+          duplicate_review_status: string | null
           duration_seconds: number | null
           early_access_until: string | null
           exclusive_preview_url: string | null
@@ -4507,6 +5484,8 @@ export type Database = {
           original_beat_id: string | null
           parent_product_id: string | null
           play_count: number
+          preview_rendition_settings: string | null
+          preview_renditions_version: number | null
           preview_signature: string | null
           preview_url: string | null
           preview_version: number
@@ -4528,14 +5507,30 @@ export type Database = {
           watermark_profile_id: string | null
           watermarked_bucket: string | null
           watermarked_path: string | null
+          waveform_path: string | null
+          waveform_version: number | null
         }
         Insert: {
           archived_at?: string | null
+          audio_analysis_error?: string | null
+          audio_analyzed_at?: string | null
+          audio_quality_checked_at?: string | null
+          audio_quality_held_publish?: boolean
+          audio_quality_pending?: boolean
+          audio_quality_report?: Json | null
+          audio_quality_status?: string | null
           bpm?: number | null
           cover_image_url?: string | null
           created_at?: string
           deleted_at?: string | null
           description?: string | null
+          detected_bpm?: number | null
+          detected_bpm_confidence?: number | null
+          detected_key_confidence?: number | null
+          detected_key_signature?: string | null
+          duplicate_check_pending?: boolean
+          duplicate_review_held_publish?: boolean
+          duplicate_review_status?: string | null
           duration_seconds?: number | null
           early_access_until?: string | null
           exclusive_preview_url?: string | null
@@ -4559,6 +5554,8 @@ export type Database = {
           original_beat_id?: string | null
           parent_product_id?: string | null
           play_count?: number
+          preview_rendition_settings?: string | null
+          preview_renditions_version?: number | null
           preview_signature?: string | null
           preview_url?: string | null
           preview_version?: number
@@ -4580,14 +5577,30 @@ export type Database = {
           watermark_profile_id?: string | null
           watermarked_bucket?: string | null
           watermarked_path?: string | null
+          waveform_path?: string | null
+          waveform_version?: number | null
         }
         Update: {
           archived_at?: string | null
+          audio_analysis_error?: string | null
+          audio_analyzed_at?: string | null
+          audio_quality_checked_at?: string | null
+          audio_quality_held_publish?: boolean
+          audio_quality_pending?: boolean
+          audio_quality_report?: Json | null
+          audio_quality_status?: string | null
           bpm?: number | null
           cover_image_url?: string | null
           created_at?: string
           deleted_at?: string | null
           description?: string | null
+          detected_bpm?: number | null
+          detected_bpm_confidence?: number | null
+          detected_key_confidence?: number | null
+          detected_key_signature?: string | null
+          duplicate_check_pending?: boolean
+          duplicate_review_held_publish?: boolean
+          duplicate_review_status?: string | null
           duration_seconds?: number | null
           early_access_until?: string | null
           exclusive_preview_url?: string | null
@@ -4611,6 +5624,8 @@ export type Database = {
           original_beat_id?: string | null
           parent_product_id?: string | null
           play_count?: number
+          preview_rendition_settings?: string | null
+          preview_renditions_version?: number | null
           preview_signature?: string | null
           preview_url?: string | null
           preview_version?: number
@@ -4632,6 +5647,8 @@ export type Database = {
           watermark_profile_id?: string | null
           watermarked_bucket?: string | null
           watermarked_path?: string | null
+          waveform_path?: string | null
+          waveform_version?: number | null
         }
         Relationships: [
           {
@@ -4755,6 +5772,188 @@ export type Database = {
           },
         ]
       }
+      promo_code_redemptions: {
+        Row: {
+          checkout_session_id: string
+          context: string
+          created_at: string
+          discount_amount: number
+          id: string
+          promo_code_id: string | null
+          promo_code_snapshot: Json
+          purchase_ids: string[]
+          user_id: string
+        }
+        Insert: {
+          checkout_session_id: string
+          context: string
+          created_at?: string
+          discount_amount?: number
+          id?: string
+          promo_code_id?: string | null
+          promo_code_snapshot?: Json
+          purchase_ids?: string[]
+          user_id: string
+        }
+        Update: {
+          checkout_session_id?: string
+          context?: string
+          created_at?: string
+          discount_amount?: number
+          id?: string
+          promo_code_id?: string | null
+          promo_code_snapshot?: Json
+          purchase_ids?: string[]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promo_code_redemptions_promo_code_id_fkey"
+            columns: ["promo_code_id"]
+            isOneToOne: false
+            referencedRelation: "promo_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promo_code_redemptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promo_code_reservations: {
+        Row: {
+          checkout_session_id: string | null
+          created_at: string
+          id: string
+          promo_code_id: string
+          reserved_until: string
+          user_id: string
+        }
+        Insert: {
+          checkout_session_id?: string | null
+          created_at?: string
+          id?: string
+          promo_code_id: string
+          reserved_until?: string
+          user_id: string
+        }
+        Update: {
+          checkout_session_id?: string | null
+          created_at?: string
+          id?: string
+          promo_code_id?: string
+          reserved_until?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promo_code_reservations_promo_code_id_fkey"
+            columns: ["promo_code_id"]
+            isOneToOne: false
+            referencedRelation: "promo_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promo_code_reservations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promo_codes: {
+        Row: {
+          archived_at: string | null
+          code: string
+          created_at: string
+          created_by: string
+          discount_type: string
+          discount_value: number
+          expires_at: string | null
+          id: string
+          max_redemptions: number | null
+          per_user_limit: number
+          plan_tier: string | null
+          producer_id: string | null
+          product_id: string | null
+          scope: string
+          scope_producer_id: string | null
+          starts_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          archived_at?: string | null
+          code: string
+          created_at?: string
+          created_by: string
+          discount_type: string
+          discount_value: number
+          expires_at?: string | null
+          id?: string
+          max_redemptions?: number | null
+          per_user_limit?: number
+          plan_tier?: string | null
+          producer_id?: string | null
+          product_id?: string | null
+          scope: string
+          scope_producer_id?: string | null
+          starts_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          archived_at?: string | null
+          code?: string
+          created_at?: string
+          created_by?: string
+          discount_type?: string
+          discount_value?: number
+          expires_at?: string | null
+          id?: string
+          max_redemptions?: number | null
+          per_user_limit?: number
+          plan_tier?: string | null
+          producer_id?: string | null
+          product_id?: string | null
+          scope?: string
+          scope_producer_id?: string | null
+          starts_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promo_codes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promo_codes_producer_id_fkey"
+            columns: ["producer_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promo_codes_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promo_codes_scope_producer_id_fkey"
+            columns: ["scope_producer_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       purchases: {
         Row: {
           amount: number
@@ -4766,15 +5965,21 @@ export type Database = {
           contract_email_sent_at: string | null
           contract_generated_at: string | null
           contract_generated_by: string | null
+          contract_language: string | null
           contract_pdf_path: string | null
+          contract_template_id: string | null
+          contract_template_version: number | null
+          contract_voided_at: string | null
           cover_image_url_snapshot: string | null
           created_at: string
           credit_unit_value_cents_snapshot: number | null
           credits_spent: number | null
           currency: string
           currency_snapshot: string | null
+          disputed_at: string | null
           download_count: number
           download_expires_at: string | null
+          fx_rate: number
           gross_reference_amount_cents: number | null
           id: string
           is_exclusive: boolean
@@ -4785,15 +5990,21 @@ export type Database = {
           max_downloads: number
           metadata: Json | null
           platform_share_cents_snapshot: number | null
+          presentment_amount: number | null
+          presentment_currency: string
           price_snapshot: number | null
           producer_display_name_snapshot: string | null
           producer_id: string
           producer_share_cents_snapshot: number | null
           product_id: string
           purchase_source: string | null
+          refunded_at: string | null
           status: Database["public"]["Enums"]["purchase_status"]
           stripe_checkout_session_id: string | null
           stripe_payment_intent_id: string | null
+          superseded_at: string | null
+          superseded_by_purchase_id: string | null
+          upgraded_from_purchase_id: string | null
           user_id: string
         }
         Insert: {
@@ -4806,15 +6017,21 @@ export type Database = {
           contract_email_sent_at?: string | null
           contract_generated_at?: string | null
           contract_generated_by?: string | null
+          contract_language?: string | null
           contract_pdf_path?: string | null
+          contract_template_id?: string | null
+          contract_template_version?: number | null
+          contract_voided_at?: string | null
           cover_image_url_snapshot?: string | null
           created_at?: string
           credit_unit_value_cents_snapshot?: number | null
           credits_spent?: number | null
           currency?: string
           currency_snapshot?: string | null
+          disputed_at?: string | null
           download_count?: number
           download_expires_at?: string | null
+          fx_rate?: number
           gross_reference_amount_cents?: number | null
           id?: string
           is_exclusive?: boolean
@@ -4825,15 +6042,21 @@ export type Database = {
           max_downloads?: number
           metadata?: Json | null
           platform_share_cents_snapshot?: number | null
+          presentment_amount?: number | null
+          presentment_currency?: string
           price_snapshot?: number | null
           producer_display_name_snapshot?: string | null
           producer_id: string
           producer_share_cents_snapshot?: number | null
           product_id: string
           purchase_source?: string | null
+          refunded_at?: string | null
           status?: Database["public"]["Enums"]["purchase_status"]
           stripe_checkout_session_id?: string | null
           stripe_payment_intent_id?: string | null
+          superseded_at?: string | null
+          superseded_by_purchase_id?: string | null
+          upgraded_from_purchase_id?: string | null
           user_id: string
         }
         Update: {
@@ -4846,15 +6069,21 @@ export type Database = {
           contract_email_sent_at?: string | null
           contract_generated_at?: string | null
           contract_generated_by?: string | null
+          contract_language?: string | null
           contract_pdf_path?: string | null
+          contract_template_id?: string | null
+          contract_template_version?: number | null
+          contract_voided_at?: string | null
           cover_image_url_snapshot?: string | null
           created_at?: string
           credit_unit_value_cents_snapshot?: number | null
           credits_spent?: number | null
           currency?: string
           currency_snapshot?: string | null
+          disputed_at?: string | null
           download_count?: number
           download_expires_at?: string | null
+          fx_rate?: number
           gross_reference_amount_cents?: number | null
           id?: string
           is_exclusive?: boolean
@@ -4865,18 +6094,31 @@ export type Database = {
           max_downloads?: number
           metadata?: Json | null
           platform_share_cents_snapshot?: number | null
+          presentment_amount?: number | null
+          presentment_currency?: string
           price_snapshot?: number | null
           producer_display_name_snapshot?: string | null
           producer_id?: string
           producer_share_cents_snapshot?: number | null
           product_id?: string
           purchase_source?: string | null
+          refunded_at?: string | null
           status?: Database["public"]["Enums"]["purchase_status"]
           stripe_checkout_session_id?: string | null
           stripe_payment_intent_id?: string | null
+          superseded_at?: string | null
+          superseded_by_purchase_id?: string | null
+          upgraded_from_purchase_id?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "purchases_contract_template_id_fkey"
+            columns: ["contract_template_id"]
+            isOneToOne: false
+            referencedRelation: "license_contract_templates"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "purchases_license_id_fkey"
             columns: ["license_id"]
@@ -4933,6 +6175,20 @@ export type Database = {
             referencedRelation: "public_products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "purchases_superseded_by_purchase_id_fkey"
+            columns: ["superseded_by_purchase_id"]
+            isOneToOne: false
+            referencedRelation: "purchases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchases_upgraded_from_purchase_id_fkey"
+            columns: ["upgraded_from_purchase_id"]
+            isOneToOne: false
+            referencedRelation: "purchases"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "purchases_user_id_fkey"
             columns: ["user_id"]
@@ -5490,74 +6746,359 @@ export type Database = {
           amount: number
           arrival_date?: string | null
           created_at?: string
-          currency?: string
-          failure_code?: string
-          failure_message?: string | null
+          currency?: string
+          failure_code?: string
+          failure_message?: string | null
+          id?: string
+          payout_id: string
+          stripe_account_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          arrival_date?: string | null
+          created_at?: string
+          currency?: string
+          failure_code?: string
+          failure_message?: string | null
+          id?: string
+          payout_id?: string
+          stripe_account_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stripe_payout_failures_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "my_user_profile"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stripe_payout_failures_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "my_user_profile"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "stripe_payout_failures_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stripe_payout_failures_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "weekly_leaderboard"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      system_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          value?: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      tournament_entrants: {
+        Row: {
+          created_at: string
+          disqualified_reason: string | null
+          elo_at_seed: number | null
+          id: string
+          producer_id: string
+          product_id: string
+          seed: number | null
+          status: string
+          tournament_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          disqualified_reason?: string | null
+          elo_at_seed?: number | null
+          id?: string
+          producer_id: string
+          product_id: string
+          seed?: number | null
+          status?: string
+          tournament_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          disqualified_reason?: string | null
+          elo_at_seed?: number | null
+          id?: string
+          producer_id?: string
+          product_id?: string
+          seed?: number | null
+          status?: string
+          tournament_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tournament_entrants_producer_id_fkey"
+            columns: ["producer_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_entrants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_entrants_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tournament_matches: {
+        Row: {
+          battle_id: string | null
+          bracket: string
+          completed_at: string | null
+          created_at: string
+          entrant1_id: string | null
+          entrant2_id: string | null
+          id: string
+          loser_entrant_id: string | null
+          loser_to_match_id: string | null
+          loser_to_slot: number | null
+          position: number
+          resolution: string | null
+          round: number
+          slot1_ready: boolean
+          slot2_ready: boolean
+          status: string
+          tournament_id: string
+          updated_at: string
+          winner_entrant_id: string | null
+          winner_to_match_id: string | null
+          winner_to_slot: number | null
+        }
+        Insert: {
+          battle_id?: string | null
+          bracket: string
+          completed_at?: string | null
+          created_at?: string
+          entrant1_id?: string | null
+          entrant2_id?: string | null
           id?: string
-          payout_id: string
-          stripe_account_id: string
-          user_id: string
+          loser_entrant_id?: string | null
+          loser_to_match_id?: string | null
+          loser_to_slot?: number | null
+          position: number
+          resolution?: string | null
+          round: number
+          slot1_ready?: boolean
+          slot2_ready?: boolean
+          status?: string
+          tournament_id: string
+          updated_at?: string
+          winner_entrant_id?: string | null
+          winner_to_match_id?: string | null
+          winner_to_slot?: number | null
         }
         Update: {
-          amount?: number
-          arrival_date?: string | null
+          battle_id?: string | null
+          bracket?: string
+          completed_at?: string | null
           created_at?: string
-          currency?: string
-          failure_code?: string
-          failure_message?: string | null
+          entrant1_id?: string | null
+          entrant2_id?: string | null
           id?: string
-          payout_id?: string
-          stripe_account_id?: string
-          user_id?: string
+          loser_entrant_id?: string | null
+          loser_to_match_id?: string | null
+          loser_to_slot?: number | null
+          position?: number
+          resolution?: string | null
+          round?: number
+          slot1_ready?: boolean
+          slot2_ready?: boolean
+          status?: string
+          tournament_id?: string
+          updated_at?: string
+          winner_entrant_id?: string | null
+          winner_to_match_id?: string | null
+          winner_to_slot?: number | null
         }
         Relationships: [
           {
-            foreignKeyName: "stripe_payout_failures_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "tournament_matches_battle_id_fkey"
+            columns: ["battle_id"]
+            isOneToOne: true
+            referencedRelation: "battles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_entrant1_id_fkey"
+            columns: ["entrant1_id"]
             isOneToOne: false
-            referencedRelation: "my_user_profile"
+            referencedRelation: "tournament_entrants"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "stripe_payout_failures_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "tournament_matches_entrant2_id_fkey"
+            columns: ["entrant2_id"]
             isOneToOne: false
-            referencedRelation: "my_user_profile"
-            referencedColumns: ["user_id"]
+            referencedRelation: "tournament_entrants"
+            referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "stripe_payout_failures_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "tournament_matches_loser_entrant_id_fkey"
+            columns: ["loser_entrant_id"]
             isOneToOne: false
-            referencedRelation: "user_profiles"
+            referencedRelation: "tournament_entrants"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "stripe_payout_failures_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "tournament_matches_loser_to_match_id_fkey"
+            columns: ["loser_to_match_id"]
             isOneToOne: false
-            referencedRelation: "weekly_leaderboard"
-            referencedColumns: ["user_id"]
+            referencedRelation: "tournament_matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_winner_entrant_id_fkey"
+            columns: ["winner_entrant_id"]
+            isOneToOne: false
+            referencedRelation: "tournament_entrants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_winner_to_match_id_fkey"
+            columns: ["winner_to_match_id"]
+            isOneToOne: false
+            referencedRelation: "tournament_matches"
+            referencedColumns: ["id"]
           },
         ]
       }
-      system_settings: {
+      tournament_round_durations: {
         Row: {
-          key: string
+          bracket: string
+          duration_hours: number
+          round: number
+          tournament_id: string
           updated_at: string
-          value: Json
         }
         Insert: {
-          key: string
+          bracket: string
+          duration_hours: number
+          round: number
+          tournament_id: string
           updated_at?: string
-          value?: Json
         }
         Update: {
-          key?: string
+          bracket?: string
+          duration_hours?: number
+          round?: number
+          tournament_id?: string
           updated_at?: string
-          value?: Json
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "tournament_round_durations_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tournaments: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          format: string
+          id: string
+          round_duration_hours: number
+          slug: string
+          started_at: string | null
+          status: string
+          title: string
+          updated_at: string
+          winner_id: string | null
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          format?: string
+          id?: string
+          round_duration_hours?: number
+          slug: string
+          started_at?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+          winner_id?: string | null
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          format?: string
+          id?: string
+          round_duration_hours?: number
+          slug?: string
+          started_at?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+          winner_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tournaments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournaments_winner_id_fkey"
+            columns: ["winner_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_badges: {
         Row: {
@@ -6222,8 +7763,11 @@ export type Database = {
           enabled: boolean
           gain_db: number | null
           id: string
+          max_interval_sec: number | null
+          min_interval_sec: number | null
           name: string
           overlay_audio_path: string | null
+          producer_id: string | null
           repeat_every_ms: number | null
           updated_at: string
           voice_tag_text: string | null
@@ -6235,8 +7779,11 @@ export type Database = {
           enabled?: boolean
           gain_db?: number | null
           id?: string
+          max_interval_sec?: number | null
+          min_interval_sec?: number | null
           name: string
           overlay_audio_path?: string | null
+          producer_id?: string | null
           repeat_every_ms?: number | null
           updated_at?: string
           voice_tag_text?: string | null
@@ -6248,8 +7795,11 @@ export type Database = {
           enabled?: boolean
           gain_db?: number | null
           id?: string
+          max_interval_sec?: number | null
+          min_interval_sec?: number | null
           name?: string
           overlay_audio_path?: string | null
+          producer_id?: string | null
           repeat_every_ms?: number | null
           updated_at?: string
           voice_tag_text?: string | null
@@ -6332,50 +7882,68 @@ export type Database = {
       admin_battle_campaigns_public: {
         Row: {
           battle_id: string | null
+          campaign_kind: string | null
           cover_image_url: string | null
           created_at: string | null
           description: string | null
+          flip_allowed_keys: string[] | null
+          flip_bpm_max: number | null
+          flip_bpm_min: number | null
           id: string | null
           participation_deadline: string | null
           share_slug: string | null
           social_description: string | null
+          source_pack_url: string | null
           status:
             | Database["public"]["Enums"]["admin_battle_campaign_status"]
             | null
           submission_deadline: string | null
           title: string | null
+          tournament_id: string | null
           updated_at: string | null
         }
         Insert: {
           battle_id?: string | null
+          campaign_kind?: string | null
           cover_image_url?: string | null
           created_at?: string | null
           description?: string | null
+          flip_allowed_keys?: string[] | null
+          flip_bpm_max?: number | null
+          flip_bpm_min?: number | null
           id?: string | null
           participation_deadline?: string | null
           share_slug?: string | null
           social_description?: string | null
+          source_pack_url?: string | null
           status?:
             | Database["public"]["Enums"]["admin_battle_campaign_status"]
             | null
           submission_deadline?: string | null
           title?: string | null
+          tournament_id?: string | null
           updated_at?: string | null
         }
         Update: {
           battle_id?: string | null
+          campaign_kind?: string | null
           cover_image_url?: string | null
           created_at?: string | null
           description?: string | null
+          flip_allowed_keys?: string[] | null
+          flip_bpm_max?: number | null
+          flip_bpm_min?: number | null
           id?: string | null
           participation_deadline?: string | null
           share_slug?: string | null
           social_description?: string | null
+          source_pack_url?: string | null
           status?:
             | Database["public"]["Enums"]["admin_battle_campaign_status"]
             | null
           submission_deadline?: string | null
           title?: string | null
+          tournament_id?: string | null
           updated_at?: string | null
         }
         Relationships: [
@@ -6535,6 +8103,20 @@ export type Database = {
           },
         ]
       }
+      admin_promo_code_usage: {
+        Row: {
+          archived_at: string | null
+          code: string | null
+          discount_eur: number | null
+          discount_type: string | null
+          discount_value: number | null
+          id: string | null
+          producer_email: string | null
+          redemption_count: number | null
+          scope: string | null
+        }
+        Relationships: []
+      }
       admin_revenue_breakdown: {
         Row: {
           buyer_email: string | null
@@ -6544,6 +8126,7 @@ export type Database = {
           platform_share_eur: number | null
           producer_email: string | null
           producer_share_eur: number | null
+          promo_code: string | null
           purchase_source: string | null
           title: string | null
         }
@@ -6885,10 +8468,13 @@ export type Database = {
         Row: {
           amount_earned_eur: number | null
           created_at: string | null
+          fx_rate: number | null
           id: string | null
           payout_mode: string | null
           payout_processed_at: string | null
           payout_status: string | null
+          presentment_amount: number | null
+          presentment_currency: string | null
           product_id: string | null
           product_title: string | null
           purchase_source: string | null
@@ -7011,6 +8597,7 @@ export type Database = {
           parent_product_id: string | null
           performance_score: number | null
           play_count: number | null
+          preview_renditions_version: number | null
           preview_url: string | null
           price: number | null
           producer_avatar_url: string | null
@@ -7327,6 +8914,46 @@ export type Database = {
         Args: { p_trial_start?: string; p_user_id: string }
         Returns: undefined
       }
+      admin_add_battle_judge: {
+        Args: { p_battle_id: string; p_username: string }
+        Returns: {
+          battle_id: string
+          created_at: string
+          invited_by: string | null
+          judge_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "battle_judges"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      admin_add_tournament_entrant: {
+        Args: {
+          p_producer_id: string
+          p_product_id: string
+          p_tournament_id: string
+        }
+        Returns: {
+          created_at: string
+          disqualified_reason: string | null
+          elo_at_seed: number | null
+          id: string
+          producer_id: string
+          product_id: string
+          seed: number | null
+          status: string
+          tournament_id: string
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "tournament_entrants"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       admin_adjust_reputation: {
         Args: {
           p_delta_xp: number
@@ -7334,44 +8961,160 @@ export type Database = {
           p_reason: string
           p_user_id: string
         }
-        Returns: {
-          applied: boolean
-          battle_xp: number
-          commerce_xp: number
-          event_id: string
-          forum_xp: number
-          level: number
-          rank_tier: string
-          reputation_score: number
-          skipped_reason: string
-          xp: number
-        }[]
-      }
-      admin_approve_label_request: {
-        Args: { p_request_id: string; p_user_id: string }
-        Returns: boolean
+        Returns: {
+          applied: boolean
+          battle_xp: number
+          commerce_xp: number
+          event_id: string
+          forum_xp: number
+          level: number
+          rank_tier: string
+          reputation_score: number
+          skipped_reason: string
+          xp: number
+        }[]
+      }
+      admin_advance_tournament: {
+        Args: { p_tournament_id: string }
+        Returns: number
+      }
+      admin_approve_label_request: {
+        Args: { p_request_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      admin_assign_producer_campaign: {
+        Args: {
+          p_campaign_type: string
+          p_trial_start?: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      admin_assign_producer_campaign_service: {
+        Args: {
+          p_campaign_type: string
+          p_trial_start?: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      admin_award_tournament_bye: {
+        Args: { p_entrant_id: string; p_match_id: string }
+        Returns: boolean
+      }
+      admin_bracket_sample_flip: {
+        Args: {
+          p_campaign_id: string
+          p_format?: string
+          p_round_duration_hours?: number
+        }
+        Returns: {
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          format: string
+          id: string
+          round_duration_hours: number
+          slug: string
+          started_at: string | null
+          status: string
+          title: string
+          updated_at: string
+          winner_id: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "tournaments"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      admin_cancel_battle: { Args: { p_battle_id: string }; Returns: boolean }
+      admin_create_cypher_battle: {
+        Args: {
+          p_description: string
+          p_entrants: Json
+          p_title: string
+          p_voting_duration_hours?: number
+        }
+        Returns: {
+          accepted_at: string | null
+          admin_validated_at: string | null
+          battle_format: string
+          battle_type: Database["public"]["Enums"]["battle_type"]
+          blind_voting: boolean
+          created_at: string
+          custom_duration_days: number | null
+          description: string | null
+          extension_count: number | null
+          featured: boolean
+          genre_id: string | null
+          id: string
+          judge_weight: number | null
+          prize_description: string | null
+          producer1_id: string
+          producer2_id: string | null
+          product1_id: string | null
+          product2_id: string | null
+          rejected_at: string | null
+          rejection_reason: string | null
+          response_deadline: string | null
+          slug: string
+          starts_at: string | null
+          status: Database["public"]["Enums"]["battle_status"]
+          submission_deadline: string | null
+          title: string
+          updated_at: string
+          votes_producer1: number
+          votes_producer2: number
+          voting_ends_at: string | null
+          winner_id: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "battles"
+          isOneToOne: true
+          isSetofReturn: false
+        }
       }
-      admin_assign_producer_campaign: {
+      admin_create_tournament: {
         Args: {
-          p_campaign_type: string
-          p_trial_start?: string
-          p_user_id: string
+          p_description?: string
+          p_format?: string
+          p_round_duration_hours?: number
+          p_title: string
         }
-        Returns: Json
-      }
-      admin_assign_producer_campaign_service: {
-        Args: {
-          p_campaign_type: string
-          p_trial_start?: string
-          p_user_id: string
+        Returns: {
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          format: string
+          id: string
+          round_duration_hours: number
+          slug: string
+          started_at: string | null
+          status: string
+          title: string
+          updated_at: string
+          winner_id: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "tournaments"
+          isOneToOne: true
+          isSetofReturn: false
         }
-        Returns: Json
       }
-      admin_cancel_battle: { Args: { p_battle_id: string }; Returns: boolean }
       admin_delete_rejected_label_request: {
         Args: { p_request_id: string }
         Returns: boolean
       }
+      admin_disqualify_tournament_entrant: {
+        Args: { p_entrant_id: string; p_reason?: string }
+        Returns: boolean
+      }
       admin_extend_battle_duration: {
         Args: { p_battle_id: string; p_days: number; p_reason?: string }
         Returns: boolean
@@ -7427,6 +9170,56 @@ export type Database = {
           username: string
         }[]
       }
+      admin_open_sample_flip_vote: {
+        Args: { p_campaign_id: string; p_voting_duration_hours?: number }
+        Returns: {
+          accepted_at: string | null
+          admin_validated_at: string | null
+          battle_format: string
+          battle_type: Database["public"]["Enums"]["battle_type"]
+          blind_voting: boolean
+          created_at: string
+          custom_duration_days: number | null
+          description: string | null
+          extension_count: number | null
+          featured: boolean
+          genre_id: string | null
+          id: string
+          judge_weight: number | null
+          prize_description: string | null
+          producer1_id: string
+          producer2_id: string | null
+          product1_id: string | null
+          product2_id: string | null
+          rejected_at: string | null
+          rejection_reason: string | null
+          response_deadline: string | null
+          slug: string
+          starts_at: string | null
+          status: Database["public"]["Enums"]["battle_status"]
+          submission_deadline: string | null
+          title: string
+          updated_at: string
+          votes_producer1: number
+          votes_producer2: number
+          voting_ends_at: string | null
+          winner_id: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "battles"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      admin_remove_battle_judge: {
+        Args: { p_battle_id: string; p_judge_id: string }
+        Returns: boolean
+      }
+      admin_remove_tournament_entrant: {
+        Args: { p_entrant_id: string }
+        Returns: boolean
+      }
       admin_request_campaign_application_update: {
         Args: {
           p_campaign_id: string
@@ -7439,10 +9232,120 @@ export type Database = {
           success: boolean
         }[]
       }
+      admin_review_audio_fingerprint_match: {
+        Args: { p_decision: string; p_match_id: string; p_note?: string }
+        Returns: Json
+      }
+      admin_review_flip_submission: {
+        Args: { p_accept: boolean; p_submission_id: string }
+        Returns: {
+          campaign_id: string
+          check_report: Json
+          checked_at: string | null
+          created_at: string
+          id: string
+          producer_id: string
+          product_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "campaign_flip_submissions"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       admin_revoke_label_request: {
         Args: { p_request_id: string; p_user_id: string }
         Returns: boolean
       }
+      admin_set_battle_blind_voting: {
+        Args: { p_battle_id: string; p_enabled: boolean }
+        Returns: {
+          accepted_at: string | null
+          admin_validated_at: string | null
+          battle_format: string
+          battle_type: Database["public"]["Enums"]["battle_type"]
+          blind_voting: boolean
+          created_at: string
+          custom_duration_days: number | null
+          description: string | null
+          extension_count: number | null
+          featured: boolean
+          genre_id: string | null
+          id: string
+          judge_weight: number | null
+          prize_description: string | null
+          producer1_id: string
+          producer2_id: string | null
+          product1_id: string | null
+          product2_id: string | null
+          rejected_at: string | null
+          rejection_reason: string | null
+          response_deadline: string | null
+          slug: string
+          starts_at: string | null
+          status: Database["public"]["Enums"]["battle_status"]
+          submission_deadline: string | null
+          title: string
+          updated_at: string
+          votes_producer1: number
+          votes_producer2: number
+          voting_ends_at: string | null
+          winner_id: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "battles"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      admin_set_battle_judge_weight: {
+        Args: { p_battle_id: string; p_judge_weight?: number }
+        Returns: {
+          accepted_at: string | null
+          admin_validated_at: string | null
+          battle_format: string
+          battle_type: Database["public"]["Enums"]["battle_type"]
+          blind_voting: boolean
+          created_at: string
+          custom_duration_days: number | null
+          description: string | null
+          extension_count: number | null
+          featured: boolean
+          genre_id: string | null
+          id: string
+          judge_weight: number | null
+          prize_description: string | null
+          producer1_id: string
+          producer2_id: string | null
+          product1_id: string | null
+          product2_id: string | null
+          rejected_at: string | null
+          rejection_reason: string | null
+          response_deadline: string | null
+          slug: string
+          starts_at: string | null
+          status: Database["public"]["Enums"]["battle_status"]
+          submission_deadline: string | null
+          title: string
+          updated_at: string
+          votes_producer1: number
+          votes_producer2: number
+          voting_ends_at: string | null
+          winner_id: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "battles"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       admin_set_campaign_selection: {
         Args: {
           p_campaign_id: string
@@ -7467,11 +9370,29 @@ export type Database = {
         Args: { p_is_elite: boolean; p_product_id: string }
         Returns: boolean
       }
+      admin_set_tournament_round_duration: {
+        Args: {
+          p_bracket: string
+          p_duration_hours: number
+          p_round: number
+          p_tournament_id: string
+        }
+        Returns: number
+      }
+      admin_start_tournament: {
+        Args: { p_tournament_id: string }
+        Returns: number
+      }
       admin_unassign_producer_campaign: {
         Args: { p_user_id: string }
         Returns: Json
       }
       admin_validate_battle: { Args: { p_battle_id: string }; Returns: boolean }
+      advance_running_tournaments: { Args: never; Returns: number }
+      advance_tournament: {
+        Args: { p_tournament_id: string }
+        Returns: number
+      }
       agent_auto_execute_ai_battle_actions: {
         Args: { p_limit?: number }
         Returns: Json
@@ -7480,6 +9401,10 @@ export type Database = {
         Args: { p_limit?: number }
         Returns: number
       }
+      allocate_invoice_number: {
+        Args: { p_seller_key: string }
+        Returns: number
+      }
       allocate_monthly_user_credits_for_invoice: {
         Args: {
           p_billing_period_end: string
@@ -7490,6 +9415,7 @@ export type Database = {
         }
         Returns: Json
       }
+      apply_battle_judging: { Args: { p_battle_id: string }; Returns: string }
       apply_reputation_event_internal: {
         Args: {
           p_delta?: number
@@ -7557,6 +9483,34 @@ export type Database = {
         Args: { p_user_id: string }
         Returns: boolean
       }
+      check_promo_code: {
+        Args: { p_code: string; p_context: string; p_user_id: string }
+        Returns: {
+          archived_at: string | null
+          code: string
+          created_at: string
+          created_by: string
+          discount_type: string
+          discount_value: number
+          expires_at: string | null
+          id: string
+          max_redemptions: number | null
+          per_user_limit: number
+          plan_tier: string | null
+          producer_id: string | null
+          product_id: string | null
+          scope: string
+          scope_producer_id: string | null
+          starts_at: string | null
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "promo_codes"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       check_rate_limit: {
         Args: { p_key: string; p_limit: number }
         Returns: boolean
@@ -7748,6 +9702,7 @@ export type Database = {
           p_license_id: string
           p_payment_intent_id: string
           p_product_id: string
+          p_upgraded_from_purchase_id?: string
           p_user_id: string
         }
         Returns: string
@@ -7763,6 +9718,16 @@ export type Database = {
         }
         Returns: string
       }
+      compute_battle_judged_scores: {
+        Args: { p_battle_id: string }
+        Returns: {
+          community_score: number
+          final_score: number
+          judge_score: number
+          producer_id: string
+          scorecard_count: number
+        }[]
+      }
       compute_preview_signature: {
         Args: {
           p_gain_db: number
@@ -7883,6 +9848,7 @@ export type Database = {
         Args: { p_lookback_minutes?: number }
         Returns: number
       }
+      enqueue_audio_analysis_backfill: { Args: never; Returns: Json }
       enqueue_audio_processing_job: {
         Args: { p_job_type?: string; p_product_id: string }
         Returns: boolean
@@ -7931,9 +9897,33 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      evaluate_sample_flip_submission: {
+        Args: { p_submission_id: string }
+        Returns: string
+      }
       finalize_battle: { Args: { p_battle_id: string }; Returns: string }
       finalize_expired_battles: { Args: { p_limit?: number }; Returns: number }
+      find_audio_fingerprint_candidates: {
+        Args: {
+          p_algorithm_version: number
+          p_codes: number[]
+          p_limit?: number
+          p_product_id: string
+        }
+        Returns: {
+          algorithm_version: number
+          codes: number[]
+          duration_sec: number
+          frame_hop_sec: number
+          product_id: string
+          shared_code_count: number
+        }[]
+      }
       force_reprocess_all_previews: { Args: never; Returns: Json }
+      format_invoice_number: {
+        Args: { p_seller_key: string; p_sequence: number }
+        Returns: string
+      }
       format_watermark_gain_db: { Args: { p_gain_db: number }; Returns: string }
       forum_admin_delete_category: {
         Args: { p_category_id: string }
@@ -8069,21 +10059,82 @@ export type Database = {
           start_date: string
         }[]
       }
-      get_admin_bootstrap_emails: { Args: never; Returns: string[] }
-      get_admin_business_metrics: { Args: never; Returns: Json }
-      get_admin_metrics_timeseries: { Args: never; Returns: Json }
-      get_admin_pilotage_deltas: { Args: never; Returns: Json }
-      get_admin_pilotage_metrics: { Args: never; Returns: Json }
-      get_advanced_producer_stats: {
-        Args: never
+      get_admin_bootstrap_emails: { Args: never; Returns: string[] }
+      get_admin_business_metrics: { Args: never; Returns: Json }
+      get_admin_metrics_timeseries: { Args: never; Returns: Json }
+      get_admin_pilotage_deltas: { Args: never; Returns: Json }
+      get_admin_pilotage_metrics: { Args: never; Returns: Json }
+      get_advanced_producer_stats: {
+        Args: never
+        Returns: {
+          completed_sales: number
+          monthly_battles_created: number
+          published_beats: number
+          revenue_cents: number
+          sales_per_published_beat: number
+        }[]
+      }
+      get_battle_competitor_shares: {
+        Args: { p_battle_id: string }
+        Returns: {
+          community_score: number
+          producer_id: string
+        }[]
+      }
+      get_battle_detail: {
+        Args: { p_slug: string }
+        Returns: {
+          accepted_at: string
+          admin_validated_at: string
+          battle_format: string
+          blind_voting: boolean
+          created_at: string
+          custom_duration_days: number
+          description: string
+          extension_count: number
+          featured: boolean
+          id: string
+          identities_masked: boolean
+          judge_weight: number
+          prize_description: string
+          producer1_id: string
+          producer2_id: string
+          product1_id: string
+          product1_preview_url: string
+          product2_id: string
+          product2_preview_url: string
+          rejected_at: string
+          rejection_reason: string
+          response_deadline: string
+          slug: string
+          starts_at: string
+          status: Database["public"]["Enums"]["battle_status"]
+          submission_deadline: string
+          title: string
+          updated_at: string
+          votes_producer1: number
+          votes_producer2: number
+          voting_ends_at: string
+          winner_id: string
+        }[]
+      }
+      get_battle_entrants: {
+        Args: { p_battle_id: string }
         Returns: {
-          completed_sales: number
-          monthly_battles_created: number
-          published_beats: number
-          revenue_cents: number
-          sales_per_published_beat: number
+          battle_id: string
+          created_at: string
+          final_rank: number
+          first_place_votes: number
+          id: string
+          points: number
+          position: number
+          preview_url: string
+          producer_id: string
+          product_id: string
+          updated_at: string
         }[]
       }
+      get_battle_judging_results: { Args: { p_battle_id: string }; Returns: Json }
       get_battle_pair_cooldown_end: {
         Args: {
           p_cooldown_days?: number
@@ -8188,6 +10239,26 @@ export type Database = {
           username: string
         }[]
       }
+      get_my_battle_judge_scorecards: {
+        Args: { p_battle_id: string }
+        Returns: {
+          battle_id: string
+          comment: string | null
+          created_at: string
+          criterion_scores: Json
+          id: string
+          judge_id: string
+          producer_id: string
+          updated_at: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "battle_judge_scorecards"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      get_my_battle_vote: { Args: { p_battle_id: string }; Returns: string }
       get_my_credit_balance: { Args: never; Returns: number }
       get_my_credit_history: {
         Args: never
@@ -8440,6 +10511,10 @@ export type Database = {
       }
       is_active_producer: { Args: { p_user?: string }; Returns: boolean }
       is_admin: { Args: { p_user_id?: string }; Returns: boolean }
+      is_blind_battle_participant: {
+        Args: { p_battle_id: string; p_user_id: string }
+        Returns: boolean
+      }
       is_confirmed_user: { Args: { p_user_id?: string }; Returns: boolean }
       is_current_user_active: { Args: { p_user_id?: string }; Returns: boolean }
       is_email_verified_user: { Args: { p_user_id?: string }; Returns: boolean }
@@ -8451,6 +10526,156 @@ export type Database = {
         Args: { p_path: string; p_producer_id: string; p_product_id: string }
         Returns: boolean
       }
+      issue_credit_note_for_purchase: {
+        Args: { p_purchase_id: string }
+        Returns: {
+          amount_cents: number
+          amount_eur_cents: number | null
+          buyer_email: string | null
+          buyer_id: string | null
+          buyer_name: string
+          created_at: string
+          credited_invoice_id: string | null
+          currency: string
+          description: string
+          fx_rate: number
+          id: string
+          invoice_number: string
+          issued_at: string
+          kind: string
+          license_name: string | null
+          payment_source: string
+          pdf_generated_at: string | null
+          pdf_path: string | null
+          purchase_id: string | null
+          seller_id: string | null
+          seller_key: string
+          seller_name: string
+          sequence_number: number
+          stripe_invoice_id: string | null
+          tax_cents: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "invoices"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      issue_invoice_for_purchase: {
+        Args: { p_purchase_id: string; p_tax_cents?: number }
+        Returns: {
+          amount_cents: number
+          amount_eur_cents: number | null
+          buyer_email: string | null
+          buyer_id: string | null
+          buyer_name: string
+          created_at: string
+          credited_invoice_id: string | null
+          currency: string
+          description: string
+          fx_rate: number
+          id: string
+          invoice_number: string
+          issued_at: string
+          kind: string
+          license_name: string | null
+          payment_source: string
+          pdf_generated_at: string | null
+          pdf_path: string | null
+          purchase_id: string | null
+          seller_id: string | null
+          seller_key: string
+          seller_name: string
+          sequence_number: number
+          stripe_invoice_id: string | null
+          tax_cents: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "invoices"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      issue_subscription_invoice: {
+        Args: {
+          p_amount_cents: number
+          p_buyer_id: string
+          p_currency: string
+          p_description: string
+          p_issued_at?: string
+          p_stripe_invoice_id: string
+          p_tax_cents?: number
+        }
+        Returns: {
+          amount_cents: number
+          amount_eur_cents: number | null
+          buyer_email: string | null
+          buyer_id: string | null
+          buyer_name: string
+          created_at: string
+          credited_invoice_id: string | null
+          currency: string
+          description: string
+          fx_rate: number
+          id: string
+          invoice_number: string
+          issued_at: string
+          kind: string
+          license_name: string | null
+          payment_source: string
+          pdf_generated_at: string | null
+          pdf_path: string | null
+          purchase_id: string | null
+          seller_id: string | null
+          seller_key: string
+          seller_name: string
+          sequence_number: number
+          stripe_invoice_id: string | null
+          tax_cents: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "invoices"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      lock_sample_flip_campaign_for_launch: {
+        Args: { p_campaign_id: string }
+        Returns: {
+          battle_id: string | null
+          blind_voting: boolean
+          campaign_kind: string
+          cover_image_url: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          flip_allowed_keys: string[]
+          flip_bpm_max: number | null
+          flip_bpm_min: number | null
+          id: string
+          launched_at: string | null
+          participation_deadline: string
+          selected_producer1_id: string | null
+          selected_producer2_id: string | null
+          share_slug: string | null
+          social_description: string | null
+          source_pack_url: string | null
+          status: Database["public"]["Enums"]["admin_battle_campaign_status"]
+          submission_deadline: string
+          title: string
+          tournament_id: string | null
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "admin_battle_campaigns"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       log_admin_action_audit: {
         Args: {
           p_action_type?: string
@@ -8526,6 +10751,10 @@ export type Database = {
         Args: { p_value: string }
         Returns: string
       }
+      open_tournament_match_battle: {
+        Args: { p_match_id: string }
+        Returns: string
+      }
       pipeline_alerts: {
         Args: never
         Returns: {
@@ -8570,6 +10799,10 @@ export type Database = {
         Args: { p_product_id: string }
         Returns: boolean
       }
+      product_lineage_ids: {
+        Args: { p_product_id: string }
+        Returns: string[]
+      }
       promote_founding_producer_if_eligible: {
         Args: { p_email: string; p_user_id: string }
         Returns: boolean
@@ -8630,19 +10863,56 @@ export type Database = {
           status: string
         }[]
       }
+      rank_cypher_entrants: { Args: { p_battle_id: string }; Returns: string }
       recalculate_engagement: { Args: { p_user_id: string }; Returns: number }
       recalculate_forum_topic_stats: {
         Args: { p_topic_id: string }
         Returns: undefined
       }
+      record_audio_fingerprint: {
+        Args: {
+          p_algorithm_version: number
+          p_codes: number[]
+          p_duration_sec: number
+          p_frame_hop_sec: number
+          p_matches?: Json
+          p_product_id: string
+        }
+        Returns: Json
+      }
+      record_audio_quality_report: {
+        Args: {
+          p_master_reference: string
+          p_product_id: string
+          p_report: Json
+          p_status: string
+        }
+        Returns: Json
+      }
       record_battle_vote: {
         Args: {
           p_battle_id: string
+          p_ranking?: string[]
           p_user_id: string
           p_voted_for_producer_id: string
         }
         Returns: boolean
       }
+      record_cypher_ballot: {
+        Args: { p_battle_id: string; p_ranking: string[]; p_user_id: string }
+        Returns: string
+      }
+      record_promo_code_redemption: {
+        Args: {
+          p_checkout_session_id: string
+          p_context: string
+          p_discount_amount: number
+          p_promo_code_id: string
+          p_purchase_ids?: string[]
+          p_user_id: string
+        }
+        Returns: string
+      }
       remove_beat_from_sale: {
         Args: { p_beat_id: string }
         Returns: {
@@ -8713,11 +10983,58 @@ export type Database = {
         Args: { p_rank_tier: string }
         Returns: number
       }
+      reserve_promo_code: {
+        Args: { p_context: string; p_promo_code_id: string; p_user_id: string }
+        Returns: {
+          checkout_session_id: string | null
+          created_at: string
+          id: string
+          promo_code_id: string
+          reserved_until: string
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "promo_code_reservations"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       reset_elo_for_new_season: { Args: never; Returns: number }
       respond_to_battle: {
         Args: { p_accept: boolean; p_battle_id: string; p_reason?: string }
         Returns: boolean
       }
+      reverse_purchase: {
+        Args: { p_details?: Json; p_purchase_id: string; p_reason: string }
+        Returns: boolean
+      }
+      rpc_admin_get_audio_fingerprint_matches: {
+        Args: { p_limit?: number; p_status?: string }
+        Returns: {
+          created_at: string
+          match_id: string
+          matched_producer_id: string
+          matched_producer_username: string
+          matched_product_created_at: string
+          matched_product_id: string
+          matched_product_preview_url: string
+          matched_product_title: string
+          offset_sec: number
+          overlap_sec: number
+          producer_id: string
+          producer_username: string
+          product_created_at: string
+          product_id: string
+          product_preview_url: string
+          product_review_status: string
+          product_title: string
+          review_note: string
+          reviewed_at: string
+          similarity: number
+          status: string
+        }[]
+      }
       rpc_admin_get_beat_feedback_overview: {
         Args: { p_battle_id?: string; p_limit?: number; p_offset?: number }
         Returns: {
@@ -8799,6 +11116,14 @@ export type Database = {
           xp: number
         }[]
       }
+      rpc_archive_license_tier: {
+        Args: { p_license_id: string }
+        Returns: number
+      }
+      rpc_archive_producer_deal: {
+        Args: { p_deal_id: string }
+        Returns: boolean
+      }
       rpc_archive_product: {
         Args: { p_product_id: string }
         Returns: {
@@ -8860,10 +11185,42 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      rpc_archive_promo_code: {
+        Args: { p_promo_code_id: string }
+        Returns: boolean
+      }
       rpc_check_contract_url_rate_limit: {
         Args: { p_purchase_id: string; p_user_id?: string }
         Returns: boolean
       }
+      rpc_check_promo_code: {
+        Args: { p_code: string; p_context?: string }
+        Returns: {
+          archived_at: string | null
+          code: string
+          created_at: string
+          created_by: string
+          discount_type: string
+          discount_value: number
+          expires_at: string | null
+          id: string
+          max_redemptions: number | null
+          per_user_limit: number
+          plan_tier: string | null
+          producer_id: string | null
+          product_id: string | null
+          scope: string
+          scope_producer_id: string | null
+          starts_at: string | null
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "promo_codes"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       rpc_compute_battle_quality_snapshot: {
         Args: { p_battle_id: string }
         Returns: number
@@ -8909,6 +11266,22 @@ export type Database = {
         Args: { p_product_id: string }
         Returns: string
       }
+      rpc_create_promo_code: {
+        Args: {
+          p_code: string
+          p_discount_type: string
+          p_discount_value: number
+          p_expires_at?: string
+          p_max_redemptions?: number
+          p_per_user_limit?: number
+          p_plan_tier?: string
+          p_product_id?: string
+          p_scope: string
+          p_scope_producer_id?: string
+          p_starts_at?: string
+        }
+        Returns: string
+      }
       rpc_delete_product_if_no_sales: {
         Args: { p_product_id: string }
         Returns: Json
@@ -9054,6 +11427,48 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      rpc_save_license_tier: {
+        Args: {
+          p_credit_required: boolean
+          p_description: string
+          p_exclusive_allowed: boolean
+          p_license_id?: string
+          p_max_sales?: number
+          p_max_streams?: number
+          p_music_video_allowed: boolean
+          p_name: string
+          p_price: number
+          p_stems_included: boolean
+          p_youtube_monetization: boolean
+        }
+        Returns: string
+      }
+      rpc_save_producer_deal: {
+        Args: {
+          p_bundle_price?: number
+          p_buy_quantity?: number
+          p_deal_id?: string
+          p_deal_type: string
+          p_free_quantity?: number
+          p_product_ids: string[]
+          p_title: string
+        }
+        Returns: string
+      }
+      rpc_save_watermark_profile: {
+        Args: {
+          p_enabled?: boolean
+          p_gain_db: number
+          p_max_interval_sec: number
+          p_min_interval_sec: number
+          p_overlay_audio_path: string
+        }
+        Returns: Json
+      }
+      rpc_set_product_license_tiers: {
+        Args: { p_product_id: string; p_tiers: Json }
+        Returns: number
+      }
       rpc_submit_battle_vote_feedback: {
         Args: {
           p_battle_id: string
@@ -9066,6 +11481,7 @@ export type Database = {
         Args: {
           p_battle_id: string
           p_criteria: string[]
+          p_ranking?: string[]
           p_winner_producer_id: string
         }
         Returns: Json
@@ -9093,10 +11509,60 @@ export type Database = {
         Args: { p_product_id: string }
         Returns: undefined
       }
+      set_purchase_dispute: {
+        Args: { p_dispute_id: string; p_open: boolean; p_purchase_id: string }
+        Returns: boolean
+      }
       should_flag_battle_refusal_risk: {
         Args: { p_threshold?: number; p_user_id: string }
         Returns: boolean
       }
+      submit_battle_judge_scorecard: {
+        Args: {
+          p_battle_id: string
+          p_comment?: string
+          p_producer_id: string
+          p_scores: Json
+        }
+        Returns: {
+          battle_id: string
+          comment: string | null
+          created_at: string
+          criterion_scores: Json
+          id: string
+          judge_id: string
+          producer_id: string
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "battle_judge_scorecards"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      submit_sample_flip: {
+        Args: { p_campaign_id: string; p_product_id: string }
+        Returns: {
+          campaign_id: string
+          check_report: Json
+          checked_at: string | null
+          created_at: string
+          id: string
+          producer_id: string
+          product_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "campaign_flip_submissions"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       suggest_opponents: {
         Args: { p_user_id: string }
         Returns: {
@@ -9111,6 +11577,27 @@ export type Database = {
           username: string
         }[]
       }
+      tournament_fill_slot: {
+        Args: { p_entrant_id: string; p_match_id: string; p_slot: number }
+        Returns: undefined
+      }
+      tournament_resolve_match: {
+        Args: {
+          p_loser_entrant_id: string
+          p_match_id: string
+          p_resolution: string
+          p_winner_entrant_id: string
+        }
+        Returns: undefined
+      }
+      tournament_round_duration_hours: {
+        Args: { p_bracket: string; p_round: number; p_tournament_id: string }
+        Returns: number
+      }
+      tournament_seed_order: {
+        Args: { p_size: number }
+        Returns: number[]
+      }
       update_elo_rating: {
         Args: { p_player1: string; p_player2: string; p_winner: string }
         Returns: boolean
@@ -33,6 +33,9 @@ export const PRODUCT_SAFE_COLUMNS = [
   'file_format',
   'license_terms',
   'watermark_profile_id',
+  'waveform_path',
+  'waveform_version',
+  'preview_renditions_version',
   'created_at',
   'updated_at',
   'deleted_at',
@@ -162,11 +162,16 @@ export interface License {
   music_video_allowed: boolean;
   credit_required: boolean;
   exclusive_allowed: boolean;
+  stems_included: boolean;
   price: number;
+  producer_id: string | null;
+  archived_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type ProductLicenseSource = 'default' | 'producer';
+
 export interface ProductLicense {
   id: string;
   product_id: string;
@@ -177,11 +182,51 @@ export interface ProductLicense {
   features: GeneratedDatabase['public']['Tables']['product_licenses']['Row']['features'];
   sort_order: number;
   is_active: boolean;
+  source: ProductLicenseSource;
   created_at: string;
   updated_at: string;
   license?: License | null;
 }
 
+export type ProducerDealType = 'buy_x_get_y' | 'bundle';
+
+export interface ProducerDeal {
+  id: string;
+  producer_id: string;
+  title: string;
+  deal_type: ProducerDealType;
+  buy_quantity: number | null;
+  free_quantity: number | null;
+  bundle_price: number | null;
+  product_ids: string[];
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PromoDiscountType = 'percent' | 'fixed';
+export type PromoCodeScope = 'product' | 'producer' | 'all_beats' | 'plan';
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  created_by: string;
+  producer_id: string | null;
+  discount_type: PromoDiscountType;
+  discount_value: number;
+  scope: PromoCodeScope;
+  product_id: string | null;
+  scope_producer_id: string | null;
+  plan_tier: string | null;
+  max_redemptions: number | null;
+  per_user_limit: number;
+  starts_at: string | null;
+  expires_at: string | null;
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface ProductFile {
   id: string;
   product_id: string;
@@ -189,6 +234,8 @@ export interface ProductFile {
   file_url: string;
   file_size: number | null;
   file_type: string | null;
+  file_kind: string;
+  validation_status: string;
   sort_order: number;
   created_at: string;
 }
@@ -226,11 +273,25 @@ export interface Purchase {
   gross_reference_amount_cents: number | null;
   producer_share_cents_snapshot: number | null;
   platform_share_cents_snapshot: number | null;
+  upgraded_from_purchase_id: string | null;
+  superseded_at: string | null;
+  superseded_by_purchase_id: string | null;
+  refunded_at: string | null;
+  disputed_at: string | null;
+  contract_voided_at: string | null;
+  // amount stays in euro cents; these record what the buyer was charged.
+  presentment_currency: string;
+  presentment_amount: number | null;
+  fx_rate: number;
   metadata: Record<string, unknown>;
   created_at: string;
   completed_at: string | null;
 }
 
+// Issued by the producer for a sale, or by the platform for a subscription
+// payment. Credit redemptions are covered by the subscription invoice.
+export type Invoice = GeneratedDatabase['public']['Tables']['invoices']['Row'];
+
 export interface UserSubscription {
   id: string;
   user_id: string;
@@ -283,6 +344,8 @@ export interface Entitlement {
   is_active: boolean;
 }
 
+export type BattleFormat = 'duel' | 'cypher';
+
 export interface Battle {
   id: string;
   title: string;
@@ -309,6 +372,9 @@ export interface Battle {
   votes_producer2: number;
   featured: boolean;
   prize_description: string | null;
+  battle_format: BattleFormat;
+  blind_voting: boolean;
+  judge_weight: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -323,6 +389,7 @@ export interface BattleWithRelations extends Battle {
 }
 
 export type BattleProductSnapshot = GeneratedDatabase['public']['Tables']['battle_product_snapshots']['Row'];
+export type BattleEntrant = GeneratedDatabase['public']['Tables']['battle_entrants']['Row'];
 
 export interface BattleVote {
   id: string;
@@ -348,6 +415,48 @@ export interface BattleCommentWithUser extends BattleComment {
   user?: UserProfile;
 }
 
+export type BattleJudge = GeneratedDatabase['public']['Tables']['battle_judges']['Row'];
+
+type BattleJudgeScorecardRow = GeneratedDatabase['public']['Tables']['battle_judge_scorecards']['Row'];
+
+export interface BattleJudgeScorecard extends Omit<BattleJudgeScorecardRow, 'criterion_scores'> {
+  criterion_scores: Record<string, number>;
+}
+
+export type TournamentFormat = 'single_elimination' | 'double_elimination';
+export type TournamentStatus = 'draft' | 'running' | 'completed' | 'cancelled';
+export type TournamentBracket = 'winners' | 'losers' | 'grand_final';
+export type TournamentMatchStatus = 'pending' | 'ready' | 'live' | 'completed';
+
+type TournamentRow = GeneratedDatabase['public']['Tables']['tournaments']['Row'];
+type TournamentEntrantRow = GeneratedDatabase['public']['Tables']['tournament_entrants']['Row'];
+type TournamentMatchRow = GeneratedDatabase['public']['Tables']['tournament_matches']['Row'];
+
+export interface Tournament extends Omit<TournamentRow, 'format' | 'status'> {
+  format: TournamentFormat;
+  status: TournamentStatus;
+}
+
+export interface TournamentEntrant extends Omit<TournamentEntrantRow, 'status'> {
+  status: 'registered' | 'active' | 'eliminated' | 'disqualified' | 'champion';
+}
+
+export interface TournamentMatch extends Omit<TournamentMatchRow, 'bracket' | 'status' | 'resolution'> {
+  bracket: TournamentBracket;
+  status: TournamentMatchStatus;
+  resolution: 'battle' | 'tiebreak' | 'bye' | 'disqualification' | 'void' | null;
+}
+
+export type TournamentRoundDuration = GeneratedDatabase['public']['Tables']['tournament_round_durations']['Row'];
+
+export type SampleFlipSubmissionStatus = 'pending_check' | 'passed' | 'failed' | 'needs_review';
+
+type CampaignFlipSubmissionRow = GeneratedDatabase['public']['Tables']['campaign_flip_submissions']['Row'];
+
+export interface CampaignFlipSubmission extends Omit<CampaignFlipSubmissionRow, 'status'> {
+  status: SampleFlipSubmissionStatus;
+}
+
 export interface AiAdminAction {
   id: string;
   action_type: AiAdminActionType;
@@ -0,0 +1,34 @@
+// Catalog prices, payouts and commissions are stored in euro cents.
+export const BASE_CURRENCY = 'EUR';
+
+// Two-decimal currencies only: amounts are always handled in cents. The same
+// list is what checkouts charge in (PRESENTMENT_CURRENCIES in
+// supabase/functions/_shared/currency.ts) and what exchange_rates accepts.
+export const SUPPORTED_CURRENCIES = ['EUR', 'USD', 'GBP', 'CHF', 'CAD'] as const;
+
+export type SupportedCurrency = typeof SUPPORTED_CURRENCIES[number];
+
+// Regions whose visitors get their own currency by default.
+const REGION_CURRENCIES: Record<string, SupportedCurrency> = {
+  US: 'USD',
+  GB: 'GBP',
+  CH: 'CHF',
+  LI: 'CHF',
+  CA: 'CAD',
+};
+
+export const isSupportedCurrency = (value: unknown): value is SupportedCurrency =>
+  typeof value === 'string' && (SUPPORTED_CURRENCIES as readonly string[]).includes(value);
+
+/** Default display currency for a BCP 47 locale such as "en-GB" or "fr-CH". */
+export const resolveLocaleCurrency = (locale: string | null | undefined): SupportedCurrency => {
+  const region = locale?.split(/[-_]/)[1]?.toUpperCase();
+  return (region && REGION_CURRENCIES[region]) || BASE_CURRENCY;
+};
+
+/**
+ * Euro cents converted with an exchange_rates.rate_from_eur value, rounded to
+ * the cent. Mirrored in supabase/functions/_shared/currency.ts: checkouts
+ * convert every line on its own.
+ */
+export const toPresentmentAmount = (cents: number, rateFromEur: number) => Math.round(cents * rateFromEur);
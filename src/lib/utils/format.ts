@@ -2,6 +2,7 @@ const LANGUAGE_LOCALE_MAP = {
   fr: 'fr-FR',
   en: 'en-US',
   de: 'de-DE',
+  es: 'es-ES',
 } as const;
 
 function resolveActiveLocale(locale?: string): string {
@@ -8,11 +8,16 @@ import { Button } from '../components/ui/Button';
 import { Card } from '../components/ui/Card';
 import { LogoLoader } from '../components/ui/LogoLoader';
 import { AdminPriorityCards } from '../components/admin/AdminPriorityCards';
+import { CypherBattleCreator } from '../components/admin/CypherBattleCreator';
+import { TournamentManager } from '../components/admin/TournamentManager';
+import { SampleFlipSubmissionsPanel } from '../components/admin/SampleFlipSubmissionsPanel';
+import { BattleJudgePanel } from '../components/admin/BattleJudgePanel';
 import { useTranslation, type TranslateFn } from '../lib/i18n';
 import { supabase } from '@/lib/supabase/client';
-import type { BattleStatus } from '../lib/supabase/types';
+import type { BattleFormat, BattleStatus } from '../lib/supabase/types';
 import type { Json } from '../lib/supabase/database.types';
 import { formatDateTime, slugify } from '../lib/utils/format';
+import { SAMPLE_FLIP_KEYS } from '../lib/battles/sampleFlip';
 
 interface ProducerLite {
   id: string;
@@ -36,6 +41,11 @@ interface AdminBattleRow {
   custom_duration_days: number | null;
   votes_producer1: number;
   votes_producer2: number;
+  blind_voting: boolean;
+  battle_format: BattleFormat;
+  producer1_id: string;
+  producer2_id: string | null;
+  judge_weight: number | null;
   producer1?: ProducerLite;
   producer2?: ProducerLite;
 }
@@ -85,6 +95,7 @@ interface AdminNotificationRow {
 }
 
 type AdminBattleCampaignStatus = 'applications_open' | 'selection_locked' | 'launched' | 'cancelled';
+type AdminBattleCampaignKind = 'duel' | 'sample_flip';
 type AdminBattleApplicationStatus = 'pending' | 'selected' | 'rejected';
 
 interface AdminBattleCampaignRow {
@@ -100,6 +111,13 @@ interface AdminBattleCampaignRow {
   selected_producer1_id: string | null;
   selected_producer2_id: string | null;
   battle_id: string | null;
+  blind_voting: boolean;
+  campaign_kind: AdminBattleCampaignKind;
+  source_pack_url: string | null;
+  flip_bpm_min: number | null;
+  flip_bpm_max: number | null;
+  flip_allowed_keys: string[];
+  tournament_id: string | null;
   created_by: string | null;
   launched_at: string | null;
   created_at: string;
@@ -154,6 +172,7 @@ interface AdminBattlesPageProps {
 
 const BATTLES_DEFAULT_PAGE_SIZE = 50;
 const CAMPAIGN_IMAGES_BUCKET = 'battle-campaign-images';
+const CAMPAIGN_SOURCE_PACKS_BUCKET = 'battle-campaign-source-packs';
 
 const badgeByStatus: Record<BattleStatus, 'default' | 'success' | 'warning' | 'danger' | 'info' | 'premium'> = {
   pending: 'warning',
@@ -236,6 +255,7 @@ function toAdminRpcError(message: string, t: TranslateFn) {
   if (message.includes('battle_already_expired')) return t('admin.battles.rpcAlreadyExpired');
   if (message.includes('battle_extension_limit_exceeded')) return t('admin.battles.rpcDurationLimitExceeded');
   if (message.includes('maximum_extensions_reached')) return t('admin.battles.rpcMaxExtensionsReached');
+  if (message.includes('battle_already_completed')) return t('admin.battles.rpcBlindVotingCompleted');
   return t('admin.battles.rpcGenericError');
 }
 
@@ -457,11 +477,13 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
   const [campaignProducersById, setCampaignProducersById] = useState<Record<string, CampaignProducerRow>>({});
   const [campaignProductsById, setCampaignProductsById] = useState<Record<string, CampaignProductRow>>({});
   const [campaignBattleSlugById, setCampaignBattleSlugById] = useState<Record<string, string>>({});
+  const [campaignTournamentSlugById, setCampaignTournamentSlugById] = useState<Record<string, string>>({});
   const [isCampaignsLoading, setIsCampaignsLoading] = useState(true);
   const [campaignError, setCampaignError] = useState<string | null>(null);
   const [campaignActionKey, setCampaignActionKey] = useState<string | null>(null);
   const [isCreatingCampaign, setIsCreatingCampaign] = useState(false);
   const [campaignCoverImageFile, setCampaignCoverImageFile] = useState<File | null>(null);
+  const [campaignSourcePackFile, setCampaignSourcePackFile] = useState<File | null>(null);
   const [campaignSelectionById, setCampaignSelectionById] = useState<Record<string, { producer1Id: string; producer2Id: string }>>({});
   const [campaignCreateForm, setCampaignCreateForm] = useState({
     title: '',
@@ -469,6 +491,11 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
     socialDescription: '',
     participationDeadline: '',
     submissionDeadline: '',
+    blindVoting: false,
+    campaignKind: 'duel' as AdminBattleCampaignKind,
+    flipBpmMin: '',
+    flipBpmMax: '',
+    flipAllowedKeys: [] as string[],
   });
   const [adminContext, setAdminContext] = useState<AdminContextState>({
     userId: null,
@@ -501,6 +528,11 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
           custom_duration_days,
           votes_producer1,
           votes_producer2,
+          blind_voting,
+          battle_format,
+          producer1_id,
+          producer2_id,
+          judge_weight,
           producer1:user_profiles!battles_producer1_id_fkey(
             id,
             username,
@@ -643,6 +675,13 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
           selected_producer1_id,
           selected_producer2_id,
           battle_id,
+          blind_voting,
+          campaign_kind,
+          source_pack_url,
+          flip_bpm_min,
+          flip_bpm_max,
+          flip_allowed_keys,
+          tournament_id,
           created_by,
           launched_at,
           created_at,
@@ -673,6 +712,7 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
       setCampaignProducersById({});
       setCampaignProductsById({});
       setCampaignBattleSlugById({});
+      setCampaignTournamentSlugById({});
       setCampaignError(campaignsRes.error.message);
       setIsCampaignsLoading(false);
       return;
@@ -685,6 +725,7 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
       setCampaignProducersById({});
       setCampaignProductsById({});
       setCampaignBattleSlugById({});
+      setCampaignTournamentSlugById({});
       setCampaignError(applicationsRes.error.message);
       setIsCampaignsLoading(false);
       return;
@@ -696,11 +737,13 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
     const producerIds = new Set<string>();
     const productIds = new Set<string>();
     const battleIds = new Set<string>();
+    const tournamentIds = new Set<string>();
 
     for (const campaign of campaignRows) {
       if (campaign.selected_producer1_id) producerIds.add(campaign.selected_producer1_id);
       if (campaign.selected_producer2_id) producerIds.add(campaign.selected_producer2_id);
       if (campaign.battle_id) battleIds.add(campaign.battle_id);
+      if (campaign.tournament_id) tournamentIds.add(campaign.tournament_id);
     }
 
     for (const application of applicationRows) {
@@ -708,7 +751,7 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
       if (application.proposed_product_id) productIds.add(application.proposed_product_id);
     }
 
-    const [producersRes, productsRes, battlesRes] = await Promise.all([
+    const [producersRes, productsRes, battlesRes, tournamentsRes] = await Promise.all([
       producerIds.size > 0
         ? supabase
             .from('user_profiles')
@@ -724,6 +767,12 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
             .select('id, slug')
             .in('id', [...battleIds])
         : Promise.resolve({ data: [], error: null }),
+      tournamentIds.size > 0
+        ? supabase
+            .from('tournaments')
+            .select('id, slug')
+            .in('id', [...tournamentIds])
+        : Promise.resolve({ data: [], error: null }),
     ]);
 
     if (producersRes.error) {
@@ -738,6 +787,10 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
       console.error('Error loading campaign launched battles:', battlesRes.error);
     }
 
+    if (tournamentsRes.error) {
+      console.error('Error loading campaign tournaments:', tournamentsRes.error);
+    }
+
     const producerMap: Record<string, CampaignProducerRow> = {};
     for (const row of ((producersRes.data as CampaignProducerRow[] | null) ?? [])) {
       producerMap[row.id] = row;
@@ -753,11 +806,17 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
       battleSlugMap[row.id] = row.slug;
     }
 
+    const tournamentSlugMap: Record<string, string> = {};
+    for (const row of ((tournamentsRes.data as Array<{ id: string; slug: string }> | null) ?? [])) {
+      tournamentSlugMap[row.id] = row.slug;
+    }
+
     setCampaigns(campaignRows);
     setCampaignApplications(applicationRows);
     setCampaignProducersById(producerMap);
     setCampaignProductsById(productMap);
     setCampaignBattleSlugById(battleSlugMap);
+    setCampaignTournamentSlugById(tournamentSlugMap);
     setCampaignSelectionById((prev) => {
       const next = { ...prev };
       for (const campaign of campaignRows) {
@@ -797,6 +856,11 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
         custom_duration_days,
         votes_producer1,
         votes_producer2,
+        blind_voting,
+        battle_format,
+        producer1_id,
+        producer2_id,
+        judge_weight,
         producer1:user_profiles!battles_producer1_id_fkey(
           id,
           username,
@@ -1224,6 +1288,28 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
     await loadData();
   };
 
+  const toggleBattleBlindVoting = async (battle: AdminBattleRow) => {
+    setError(null);
+    setActionKey(`blind:${battle.id}`);
+
+    const { error: rpcError } = await supabase.rpc('admin_set_battle_blind_voting', {
+      p_battle_id: battle.id,
+      p_enabled: !battle.blind_voting,
+    });
+
+    if (rpcError) {
+      const message = toAdminRpcError(rpcError.message, t);
+      setError(message);
+      toast.error(message);
+      setActionKey(null);
+      return;
+    }
+
+    toast.success(battle.blind_voting ? t('admin.battles.blindVotingDisabled') : t('admin.battles.blindVotingEnabled'));
+    setActionKey(null);
+    await loadData();
+  };
+
   const extendBattleDuration = async (battleId: string, days: number, reason: string | null) => {
     setError(null);
 
@@ -1362,18 +1448,24 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
     const title = campaignCreateForm.title.trim();
     const description = campaignCreateForm.description.trim() || null;
     const socialDescription = campaignCreateForm.socialDescription.trim() || null;
+    const isSampleFlip = campaignCreateForm.campaignKind === 'sample_flip';
 
     if (!title) {
       setCampaignError('Title is required.');
       return;
     }
 
-    if (!campaignCreateForm.participationDeadline || !campaignCreateForm.submissionDeadline) {
-      setCampaignError('Participation and submission deadlines are required.');
+    // Sample flips have no application phase: producers submit until the submission deadline.
+    const participationDeadline = isSampleFlip
+      ? campaignCreateForm.submissionDeadline
+      : campaignCreateForm.participationDeadline;
+
+    if (!participationDeadline || !campaignCreateForm.submissionDeadline) {
+      setCampaignError(isSampleFlip ? 'Submission deadline is required.' : 'Participation and submission deadlines are required.');
       return;
     }
 
-    const participationDate = new Date(campaignCreateForm.participationDeadline);
+    const participationDate = new Date(participationDeadline);
     const submissionDate = new Date(campaignCreateForm.submissionDeadline);
 
     if (!Number.isFinite(participationDate.getTime()) || !Number.isFinite(submissionDate.getTime())) {
@@ -1391,6 +1483,30 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
       return;
     }
 
+    const flipBpmMin = campaignCreateForm.flipBpmMin.trim() ? Number(campaignCreateForm.flipBpmMin) : null;
+    const flipBpmMax = campaignCreateForm.flipBpmMax.trim() ? Number(campaignCreateForm.flipBpmMax) : null;
+
+    if (isSampleFlip) {
+      if (!campaignSourcePackFile) {
+        setCampaignError('A source pack is required for a sample flip.');
+        return;
+      }
+
+      if ((flipBpmMin === null) !== (flipBpmMax === null)) {
+        setCampaignError('Set both BPM bounds, or neither.');
+        return;
+      }
+
+      if (
+        flipBpmMin !== null
+        && flipBpmMax !== null
+        && (!(flipBpmMin >= 40 && flipBpmMax <= 300) || flipBpmMin > flipBpmMax)
+      ) {
+        setCampaignError('BPM range must be between 40 and 300, minimum first.');
+        return;
+      }
+    }
+
     setCampaignError(null);
     setIsCreatingCampaign(true);
 
@@ -1415,6 +1531,27 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
       coverImageUrl = supabase.storage.from(CAMPAIGN_IMAGES_BUCKET).getPublicUrl(imagePath).data.publicUrl;
     }
 
+    let sourcePackUrl: string | null = null;
+    if (isSampleFlip && campaignSourcePackFile) {
+      const safeFileName = campaignSourcePackFile.name.replace(/[^a-zA-Z0-9._-]+/g, '-');
+      const packPath = `campaigns/${adminContext.userId || 'admin'}/${Date.now()}-${safeFileName}`;
+      const { error: uploadError } = await supabase.storage
+        .from(CAMPAIGN_SOURCE_PACKS_BUCKET)
+        .upload(packPath, campaignSourcePackFile, {
+          upsert: false,
+          cacheControl: '3600',
+        });
+
+      if (uploadError) {
+        console.error('Error uploading campaign source pack:', uploadError);
+        setCampaignError(uploadError.message);
+        setIsCreatingCampaign(false);
+        return;
+      }
+
+      sourcePackUrl = supabase.storage.from(CAMPAIGN_SOURCE_PACKS_BUCKET).getPublicUrl(packPath).data.publicUrl;
+    }
+
     const baseShareSlug = slugify(title) || `official-battle-${Date.now()}`;
     let shareSlugCandidate = baseShareSlug;
     let created = false;
@@ -1432,6 +1569,16 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
           status: 'applications_open',
           participation_deadline: participationDate.toISOString(),
           submission_deadline: submissionDate.toISOString(),
+          blind_voting: campaignCreateForm.blindVoting,
+          campaign_kind: campaignCreateForm.campaignKind,
+          ...(isSampleFlip
+            ? {
+                source_pack_url: sourcePackUrl,
+                flip_bpm_min: flipBpmMin,
+                flip_bpm_max: flipBpmMax,
+                flip_allowed_keys: campaignCreateForm.flipAllowedKeys,
+              }
+            : {}),
           created_by: adminContext.userId,
         });
 
@@ -1462,8 +1609,14 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
       socialDescription: '',
       participationDeadline: '',
       submissionDeadline: '',
+      blindVoting: false,
+      campaignKind: 'duel',
+      flipBpmMin: '',
+      flipBpmMax: '',
+      flipAllowedKeys: [],
     });
     setCampaignCoverImageFile(null);
+    setCampaignSourcePackFile(null);
     setIsCreatingCampaign(false);
     await loadCampaignData();
   };
@@ -1724,6 +1877,20 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
           </p>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-zinc-300 mb-1.5">Challenge type</label>
+              <select
+                value={campaignCreateForm.campaignKind}
+                onChange={(event) =>
+                  setCampaignCreateForm((prev) => ({ ...prev, campaignKind: event.target.value as AdminBattleCampaignKind }))
+                }
+                className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-4 py-2.5 text-white"
+              >
+                <option value="duel">Official battle (applications, two selected producers)</option>
+                <option value="sample_flip">Sample flip (source pack, open submissions)</option>
+              </select>
+            </div>
+
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-zinc-300 mb-1.5">Title</label>
               <input
@@ -1755,17 +1922,19 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
               />
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-zinc-300 mb-1.5">Participation deadline</label>
-              <input
-                type="datetime-local"
-                value={campaignCreateForm.participationDeadline}
-                onChange={(event) =>
-                  setCampaignCreateForm((prev) => ({ ...prev, participationDeadline: event.target.value }))
-                }
-                className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-4 py-2.5 text-white"
-              />
-            </div>
+            {campaignCreateForm.campaignKind === 'duel' && (
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-1.5">Participation deadline</label>
+                <input
+                  type="datetime-local"
+                  value={campaignCreateForm.participationDeadline}
+                  onChange={(event) =>
+                    setCampaignCreateForm((prev) => ({ ...prev, participationDeadline: event.target.value }))
+                  }
+                  className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-4 py-2.5 text-white"
+                />
+              </div>
+            )}
 
             <div>
               <label className="block text-sm font-medium text-zinc-300 mb-1.5">Submission deadline</label>
@@ -1789,6 +1958,95 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
                 <p className="text-xs text-zinc-500 mt-1">Selected file: {campaignCoverImageFile.name}</p>
               )}
             </div>
+
+            {campaignCreateForm.campaignKind === 'sample_flip' && (
+              <>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-zinc-300 mb-1.5">Source pack (zip or audio)</label>
+                  <input
+                    type="file"
+                    accept=".zip,application/zip,audio/*"
+                    onChange={(event) => setCampaignSourcePackFile(event.target.files?.[0] ?? null)}
+                    className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-4 py-2.5 text-white"
+                  />
+                  {campaignSourcePackFile && (
+                    <p className="text-xs text-zinc-500 mt-1">Selected file: {campaignSourcePackFile.name}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-zinc-300 mb-1.5">Minimum BPM (optional)</label>
+                  <input
+                    type="number"
+                    min={40}
+                    max={300}
+                    value={campaignCreateForm.flipBpmMin}
+                    onChange={(event) => setCampaignCreateForm((prev) => ({ ...prev, flipBpmMin: event.target.value }))}
+                    className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-4 py-2.5 text-white"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-zinc-300 mb-1.5">Maximum BPM (optional)</label>
+                  <input
+                    type="number"
+                    min={40}
+                    max={300}
+                    value={campaignCreateForm.flipBpmMax}
+                    onChange={(event) => setCampaignCreateForm((prev) => ({ ...prev, flipBpmMax: event.target.value }))}
+                    className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-4 py-2.5 text-white"
+                  />
+                </div>
+
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-zinc-300 mb-1.5">Allowed keys (none selected = any key)</label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {SAMPLE_FLIP_KEYS.map((key) => {
+                      const isSelected = campaignCreateForm.flipAllowedKeys.includes(key);
+                      return (
+                        <button
+                          key={key}
+                          type="button"
+                          onClick={() =>
+                            setCampaignCreateForm((prev) => ({
+                              ...prev,
+                              flipAllowedKeys: isSelected
+                                ? prev.flipAllowedKeys.filter((value) => value !== key)
+                                : [...prev.flipAllowedKeys, key],
+                            }))
+                          }
+                          className={`px-2 py-1 rounded border text-xs ${
+                            isSelected
+                              ? 'border-rose-500 bg-rose-500/20 text-rose-200'
+                              : 'border-zinc-700 text-zinc-400 hover:text-white'
+                          }`}
+                        >
+                          {key}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <p className="text-xs text-zinc-500 mt-1">
+                    Submissions are checked against the audio analysis; half- and double-time tempos count as in range.
+                  </p>
+                </div>
+              </>
+            )}
+
+            <label className="md:col-span-2 flex items-start gap-3 text-sm text-zinc-300">
+              <input
+                type="checkbox"
+                checked={campaignCreateForm.blindVoting}
+                onChange={(event) => setCampaignCreateForm((prev) => ({ ...prev, blindVoting: event.target.checked }))}
+                className="mt-1 h-4 w-4 accent-rose-500"
+              />
+              <span>
+                Blind voting
+                <span className="block text-xs text-zinc-500">
+                  Producer names, avatars, profile links and their comments stay hidden behind "Beat A / Beat B" until the battle completes.
+                </span>
+              </span>
+            </label>
           </div>
 
           <div className="flex justify-end">
@@ -1819,6 +2077,7 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
                 };
                 const shareUrl = campaign.share_slug ? `${campaignPublicBaseUrl}${campaign.share_slug}` : null;
                 const launchedBattleSlug = campaign.battle_id ? campaignBattleSlugById[campaign.battle_id] : null;
+                const launchedTournamentSlug = campaign.tournament_id ? campaignTournamentSlugById[campaign.tournament_id] : null;
 
                 return (
                   <li key={campaign.id} className="border border-zinc-800 rounded-lg bg-zinc-900/50 p-4 space-y-4">
@@ -1838,9 +2097,13 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
                       <div className="flex-1 space-y-2">
                         <div className="flex items-center justify-between gap-3 flex-wrap">
                           <h3 className="text-white font-semibold">{campaign.title}</h3>
-                          <Badge variant={campaignStatusBadgeVariant[campaign.status]}>
-                            {toCampaignStatusLabel(campaign.status)}
-                          </Badge>
+                          <div className="flex items-center gap-2">
+                            {campaign.campaign_kind === 'sample_flip' && <Badge variant="premium">Sample flip</Badge>}
+                            {campaign.blind_voting && <Badge variant="info">Blind voting</Badge>}
+                            <Badge variant={campaignStatusBadgeVariant[campaign.status]}>
+                              {toCampaignStatusLabel(campaign.status)}
+                            </Badge>
+                          </div>
                         </div>
 
                         {campaign.description && (
@@ -1871,170 +2134,213 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
                             Open launched battle
                           </Link>
                         )}
+
+                        {launchedTournamentSlug && (
+                          <Link to={`/tournaments/${launchedTournamentSlug}`} className="text-xs text-emerald-300 hover:text-emerald-200">
+                            Open launched tournament
+                          </Link>
+                        )}
                       </div>
                     </div>
 
-                    <div className="space-y-2">
-                      <h4 className="text-sm font-medium text-zinc-200">Applications ({applications.length})</h4>
-                      {applications.length === 0 ? (
-                        <p className="text-sm text-zinc-500">No producer applications yet.</p>
-                      ) : (
-                        <ul className="space-y-2">
-                          {applications.map((application) => (
-                            <li key={application.id} className="border border-zinc-800 rounded bg-zinc-950/60 p-2 text-sm">
-                              <p className="text-zinc-100">
-                                {campaignProducersById[application.producer_id]?.username || application.producer_id}
-                                <span className="text-zinc-500"> • {application.status}</span>
-                              </p>
-                              {application.message && <p className="text-zinc-400 text-xs mt-1">{application.message}</p>}
-                              {(application.proposed_product_id || application.admin_feedback) && (
-                                (() => {
-                                  const hasProposedBeat = Boolean(application.proposed_product_id);
-                                  const proposedProduct = application.proposed_product_id
-                                    ? campaignProductsById[application.proposed_product_id]
-                                    : undefined;
-                                  const validation = hasProposedBeat
-                                    ? getCampaignProposedBeatValidation(application, proposedProduct)
-                                    : { isEligible: false, reason: 'missing_proposed_product' };
-                                  const producerName = campaignProducersById[application.producer_id]?.username || 'Producer';
-                                  const productLabel = proposedProduct?.title || application.proposed_product_id || 'None';
-                                  const reasonLabel = toCampaignProposedBeatReason(validation.reason);
-
-                                  return (
-                                    <div className="mt-1 space-y-1">
-                                      {hasProposedBeat ? (
-                                        <p className="text-zinc-500 text-xs">
-                                          Proposed beat: {productLabel}
-                                        </p>
-                                      ) : (
-                                        <p className="text-zinc-500 text-xs">
-                                          Proposed beat: waiting for producer update.
-                                        </p>
-                                      )}
-                                      {hasProposedBeat && application.proposed_product_id && (
-                                        <BattleAudioPlayer
-                                          productId={application.proposed_product_id}
-                                          src={proposedProduct?.preview_url || proposedProduct?.exclusive_preview_url || null}
-                                          label="Campaign beat preview"
-                                        />
-                                      )}
-                                      {application.admin_feedback && (
-                                        <p className="text-[11px] text-sky-300">
-                                          Latest admin request: {application.admin_feedback}
-                                        </p>
-                                      )}
-                                      {hasProposedBeat && !validation.isEligible && (
-                                        <div className="flex items-center gap-2 flex-wrap">
-                                          <p className="text-amber-400 text-xs">
-                                            Invalid beat for launch: {reasonLabel}
+                    {campaign.campaign_kind === 'sample_flip' ? (
+                      <>
+                        <div className="text-xs text-zinc-500 space-y-1">
+                          {campaign.source_pack_url && (
+                            <a href={campaign.source_pack_url} className="text-sky-300 hover:text-sky-200" target="_blank" rel="noopener noreferrer">
+                              Source pack
+                            </a>
+                          )}
+                          <p>
+                            BPM: {campaign.flip_bpm_min !== null ? `${campaign.flip_bpm_min}-${campaign.flip_bpm_max}` : 'any'}
+                            {' • '}
+                            Keys: {campaign.flip_allowed_keys.length > 0 ? campaign.flip_allowed_keys.join(', ') : 'any'}
+                          </p>
+                        </div>
+
+                        <SampleFlipSubmissionsPanel
+                          campaignId={campaign.id}
+                          campaignStatus={campaign.status}
+                          submissionDeadline={campaign.submission_deadline}
+                          onLaunched={loadCampaignData}
+                        />
+
+                        <div className="flex flex-wrap justify-end gap-2">
+                          <Button
+                            size="sm"
+                            variant="danger"
+                            isLoading={campaignActionKey === `delete:${campaign.id}`}
+                            onClick={() => void deleteCampaign(campaign)}
+                          >
+                            Delete Campaign
+                          </Button>
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                      <div className="space-y-2">
+                        <h4 className="text-sm font-medium text-zinc-200">Applications ({applications.length})</h4>
+                        {applications.length === 0 ? (
+                          <p className="text-sm text-zinc-500">No producer applications yet.</p>
+                        ) : (
+                          <ul className="space-y-2">
+                            {applications.map((application) => (
+                              <li key={application.id} className="border border-zinc-800 rounded bg-zinc-950/60 p-2 text-sm">
+                                <p className="text-zinc-100">
+                                  {campaignProducersById[application.producer_id]?.username || application.producer_id}
+                                  <span className="text-zinc-500"> • {application.status}</span>
+                                </p>
+                                {application.message && <p className="text-zinc-400 text-xs mt-1">{application.message}</p>}
+                                {(application.proposed_product_id || application.admin_feedback) && (
+                                  (() => {
+                                    const hasProposedBeat = Boolean(application.proposed_product_id);
+                                    const proposedProduct = application.proposed_product_id
+                                      ? campaignProductsById[application.proposed_product_id]
+                                      : undefined;
+                                    const validation = hasProposedBeat
+                                      ? getCampaignProposedBeatValidation(application, proposedProduct)
+                                      : { isEligible: false, reason: 'missing_proposed_product' };
+                                    const producerName = campaignProducersById[application.producer_id]?.username || 'Producer';
+                                    const productLabel = proposedProduct?.title || application.proposed_product_id || 'None';
+                                    const reasonLabel = toCampaignProposedBeatReason(validation.reason);
+
+                                    return (
+                                      <div className="mt-1 space-y-1">
+                                        {hasProposedBeat ? (
+                                          <p className="text-zinc-500 text-xs">
+                                            Proposed beat: {productLabel}
                                           </p>
-                                          <button
-                                            type="button"
-                                            className="text-[11px] text-emerald-300 hover:text-emerald-200 underline"
-                                            disabled={campaignActionKey === `request:${application.id}` || campaign.status === 'launched'}
-                                            onClick={() => void requestCampaignBeatResubmission(campaign, application)}
-                                          >
-                                            {campaignActionKey === `request:${application.id}` ? 'Requesting...' : 'Request new beat'}
-                                          </button>
-                                          <button
-                                            type="button"
-                                            className="text-[11px] text-zinc-300 hover:text-white underline"
-                                            onClick={() => {
-                                              const message = `${producerName}, ton beat propose "${productLabel}" n'est pas valide pour le battle (${reasonLabel}). Merci de reproposer un beat actif et publie.`;
-                                              navigator.clipboard.writeText(message);
-                                              toast.success('Request message copied.');
-                                            }}
-                                          >
-                                            Copy request
-                                          </button>
-                                        </div>
-                                      )}
-                                    </div>
-                                  );
-                                })()
-                              )}
-                            </li>
-                          ))}
-                        </ul>
-                      )}
-                    </div>
+                                        ) : (
+                                          <p className="text-zinc-500 text-xs">
+                                            Proposed beat: waiting for producer update.
+                                          </p>
+                                        )}
+                                        {hasProposedBeat && application.proposed_product_id && (
+                                          <BattleAudioPlayer
+                                            productId={application.proposed_product_id}
+                                            src={proposedProduct?.preview_url || proposedProduct?.exclusive_preview_url || null}
+                                            label="Campaign beat preview"
+                                          />
+                                        )}
+                                        {application.admin_feedback && (
+                                          <p className="text-[11px] text-sky-300">
+                                            Latest admin request: {application.admin_feedback}
+                                          </p>
+                                        )}
+                                        {hasProposedBeat && !validation.isEligible && (
+                                          <div className="flex items-center gap-2 flex-wrap">
+                                            <p className="text-amber-400 text-xs">
+                                              Invalid beat for launch: {reasonLabel}
+                                            </p>
+                                            <button
+                                              type="button"
+                                              className="text-[11px] text-emerald-300 hover:text-emerald-200 underline"
+                                              disabled={campaignActionKey === `request:${application.id}` || campaign.status === 'launched'}
+                                              onClick={() => void requestCampaignBeatResubmission(campaign, application)}
+                                            >
+                                              {campaignActionKey === `request:${application.id}` ? 'Requesting...' : 'Request new beat'}
+                                            </button>
+                                            <button
+                                              type="button"
+                                              className="text-[11px] text-zinc-300 hover:text-white underline"
+                                              onClick={() => {
+                                                const message = `${producerName}, ton beat propose "${productLabel}" n'est pas valide pour le battle (${reasonLabel}). Merci de reproposer un beat actif et publie.`;
+                                                navigator.clipboard.writeText(message);
+                                                toast.success('Request message copied.');
+                                              }}
+                                            >
+                                              Copy request
+                                            </button>
+                                          </div>
+                                        )}
+                                      </div>
+                                    );
+                                  })()
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                      <div>
-                        <label className="block text-xs text-zinc-400 mb-1">Producer 1</label>
-                        <select
-                          value={selectionState.producer1Id}
-                          onChange={(event) =>
-                            setCampaignSelectionById((prev) => ({
-                              ...prev,
-                              [campaign.id]: {
-                                ...selectionState,
-                                producer1Id: event.target.value,
-                              },
-                            }))
-                          }
-                          className="w-full h-9 rounded border border-zinc-700 bg-zinc-900 px-2 text-sm text-zinc-100"
-                        >
-                          <option value="">Select producer</option>
-                          {uniqueApplicants.map((application) => (
-                            <option key={`p1-${campaign.id}-${application.producer_id}`} value={application.producer_id}>
-                              {campaignProducersById[application.producer_id]?.username || application.producer_id}
-                            </option>
-                          ))}
-                        </select>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-xs text-zinc-400 mb-1">Producer 1</label>
+                          <select
+                            value={selectionState.producer1Id}
+                            onChange={(event) =>
+                              setCampaignSelectionById((prev) => ({
+                                ...prev,
+                                [campaign.id]: {
+                                  ...selectionState,
+                                  producer1Id: event.target.value,
+                                },
+                              }))
+                            }
+                            className="w-full h-9 rounded border border-zinc-700 bg-zinc-900 px-2 text-sm text-zinc-100"
+                          >
+                            <option value="">Select producer</option>
+                            {uniqueApplicants.map((application) => (
+                              <option key={`p1-${campaign.id}-${application.producer_id}`} value={application.producer_id}>
+                                {campaignProducersById[application.producer_id]?.username || application.producer_id}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+
+                        <div>
+                          <label className="block text-xs text-zinc-400 mb-1">Producer 2</label>
+                          <select
+                            value={selectionState.producer2Id}
+                            onChange={(event) =>
+                              setCampaignSelectionById((prev) => ({
+                                ...prev,
+                                [campaign.id]: {
+                                  ...selectionState,
+                                  producer2Id: event.target.value,
+                                },
+                              }))
+                            }
+                            className="w-full h-9 rounded border border-zinc-700 bg-zinc-900 px-2 text-sm text-zinc-100"
+                          >
+                            <option value="">Select producer</option>
+                            {uniqueApplicants.map((application) => (
+                              <option key={`p2-${campaign.id}-${application.producer_id}`} value={application.producer_id}>
+                                {campaignProducersById[application.producer_id]?.username || application.producer_id}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
                       </div>
 
-                      <div>
-                        <label className="block text-xs text-zinc-400 mb-1">Producer 2</label>
-                        <select
-                          value={selectionState.producer2Id}
-                          onChange={(event) =>
-                            setCampaignSelectionById((prev) => ({
-                              ...prev,
-                              [campaign.id]: {
-                                ...selectionState,
-                                producer2Id: event.target.value,
-                              },
-                            }))
-                          }
-                          className="w-full h-9 rounded border border-zinc-700 bg-zinc-900 px-2 text-sm text-zinc-100"
+                      <div className="flex flex-wrap justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="danger"
+                          isLoading={campaignActionKey === `delete:${campaign.id}`}
+                          onClick={() => void deleteCampaign(campaign)}
+                        >
+                          Delete Campaign
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          isLoading={campaignActionKey === `select:${campaign.id}`}
+                          onClick={() => void saveCampaignSelection(campaign.id)}
+                        >
+                          Lock Selection
+                        </Button>
+                        <Button
+                          size="sm"
+                          isLoading={campaignActionKey === `launch:${campaign.id}`}
+                          disabled={campaign.status === 'cancelled'}
+                          onClick={() => void launchCampaignBattle(campaign)}
                         >
-                          <option value="">Select producer</option>
-                          {uniqueApplicants.map((application) => (
-                            <option key={`p2-${campaign.id}-${application.producer_id}`} value={application.producer_id}>
-                              {campaignProducersById[application.producer_id]?.username || application.producer_id}
-                            </option>
-                          ))}
-                        </select>
+                          Launch Battle
+                        </Button>
                       </div>
-                    </div>
-
-                    <div className="flex flex-wrap justify-end gap-2">
-                      <Button
-                        size="sm"
-                        variant="danger"
-                        isLoading={campaignActionKey === `delete:${campaign.id}`}
-                        onClick={() => void deleteCampaign(campaign)}
-                      >
-                        Delete Campaign
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        isLoading={campaignActionKey === `select:${campaign.id}`}
-                        onClick={() => void saveCampaignSelection(campaign.id)}
-                      >
-                        Lock Selection
-                      </Button>
-                      <Button
-                        size="sm"
-                        isLoading={campaignActionKey === `launch:${campaign.id}`}
-                        disabled={campaign.status === 'cancelled'}
-                        onClick={() => void launchCampaignBattle(campaign)}
-                      >
-                        Launch Battle
-                      </Button>
-                    </div>
+                      </>
+                    )}
                   </li>
                 );
               })}
@@ -2042,6 +2348,10 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
           )}
         </Card>
 
+        <TournamentManager />
+
+        <CypherBattleCreator />
+
         {import.meta.env.DEV && (
           <Card className="bg-zinc-900/70 border border-zinc-800 text-zinc-300 text-xs space-y-1">
             <p className="text-zinc-200 font-medium">{t('admin.battles.debugTitle')}</p>
@@ -2220,6 +2530,17 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
                         </Button>
                       )}
 
+                      {battle.status !== 'completed' && (
+                        <Button
+                          size="sm"
+                          variant={battle.blind_voting ? 'primary' : 'ghost'}
+                          isLoading={actionKey === `blind:${battle.id}`}
+                          onClick={() => void toggleBattleBlindVoting(battle)}
+                        >
+                          {battle.blind_voting ? t('admin.battles.disableBlindVoting') : t('admin.battles.enableBlindVoting')}
+                        </Button>
+                      )}
+
                       {(battle.status === 'active' || battle.status === 'voting') && (
                         <Button
                           size="sm"
@@ -2268,6 +2589,10 @@ export function AdminBattlesPage({ onAwaitingAdminCountChange }: AdminBattlesPag
                     </div>
                   </div>
 
+                  {battle.status !== 'rejected' && battle.status !== 'cancelled' && (
+                    <BattleJudgePanel battle={battle} onChanged={loadData} />
+                  )}
+
                   {battle.status === 'awaiting_admin' && (
                     <div className="rounded border border-sky-900 bg-sky-950/30 p-3 space-y-2">
                       <div className="flex items-center justify-between gap-3 flex-wrap">
@@ -3,6 +3,7 @@ import { Link, useParams } from 'react-router-dom';
 import { Button } from '../components/ui/Button';
 import { Card } from '../components/ui/Card';
 import { LogoLoader } from '../components/ui/LogoLoader';
+import { SampleFlipChallenge } from '../components/battles/SampleFlipChallenge';
 import { supabase } from '@/lib/supabase/client';
 import { formatDateTime } from '../lib/utils/format';
 
@@ -17,12 +18,20 @@ interface CampaignRow {
   participation_deadline: string;
   submission_deadline: string;
   battle_id: string | null;
+  tournament_id: string | null;
+  campaign_kind: 'duel' | 'sample_flip';
+  source_pack_url: string | null;
+  flip_bpm_min: number | null;
+  flip_bpm_max: number | null;
+  flip_allowed_keys: string[] | null;
+  created_at: string;
 }
 
 export function BattleCampaignPage() {
   const { slug } = useParams<{ slug: string }>();
   const [campaign, setCampaign] = useState<CampaignRow | null>(null);
   const [battleSlug, setBattleSlug] = useState<string | null>(null);
+  const [tournamentSlug, setTournamentSlug] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -57,7 +66,14 @@ export function BattleCampaignPage() {
           status,
           participation_deadline,
           submission_deadline,
-          battle_id
+          battle_id,
+          tournament_id,
+          campaign_kind,
+          source_pack_url,
+          flip_bpm_min,
+          flip_bpm_max,
+          flip_allowed_keys,
+          created_at
         `)
         .eq('share_slug', slug)
         .maybeSingle();
@@ -101,6 +117,23 @@ export function BattleCampaignPage() {
         setBattleSlug(null);
       }
 
+      if (row.tournament_id) {
+        const { data: tournamentData, error: tournamentError } = await supabase
+          .from('tournaments')
+          .select('slug')
+          .eq('id', row.tournament_id)
+          .maybeSingle();
+
+        if (tournamentError) {
+          console.error('Error loading launched tournament slug for campaign page:', tournamentError);
+          setTournamentSlug(null);
+        } else {
+          setTournamentSlug((tournamentData as { slug: string } | null)?.slug ?? null);
+        }
+      } else {
+        setTournamentSlug(null);
+      }
+
       setIsLoading(false);
     }
 
@@ -178,20 +211,30 @@ export function BattleCampaignPage() {
             <h1 className="text-3xl font-bold text-white">{campaign.title}</h1>
             {campaign.description && <p className="text-zinc-200">{campaign.description}</p>}
             {campaign.social_description && <p className="text-zinc-400 text-sm">{campaign.social_description}</p>}
-            <p className="text-zinc-500 text-sm">
-              Participation deadline: {formatDateTime(campaign.participation_deadline)}
-              <br />
-              Submission deadline: {formatDateTime(campaign.submission_deadline)}
-            </p>
+            {campaign.campaign_kind !== 'sample_flip' && (
+              <p className="text-zinc-500 text-sm">
+                Participation deadline: {formatDateTime(campaign.participation_deadline)}
+                <br />
+                Submission deadline: {formatDateTime(campaign.submission_deadline)}
+              </p>
+            )}
 
             {battleSlug && (
               <Link to={`/battles/${battleSlug}`}>
                 <Button>Open battle</Button>
               </Link>
             )}
+
+            {tournamentSlug && (
+              <Link to={`/tournaments/${tournamentSlug}`}>
+                <Button>Open tournament</Button>
+              </Link>
+            )}
           </div>
         </Card>
 
+        {campaign.campaign_kind === 'sample_flip' && <SampleFlipChallenge campaign={campaign} />}
+
         <Card className="space-y-3">
           <h2 className="text-lg font-semibold text-white">Share this official battle</h2>
           <div className="flex flex-wrap gap-2">
@@ -1,23 +1,29 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Link, useParams } from 'react-router-dom';
-import { ArrowLeft, BarChart3, Check, Clock, Copy, Share2, Trophy, Users } from 'lucide-react';
+import { ArrowLeft, BarChart3, Check, Clock, Copy, EyeOff, Share2, Trophy, Users } from 'lucide-react';
 import { Badge } from '../components/ui/Badge';
 import { Card } from '../components/ui/Card';
 import { ReputationBadge } from '../components/reputation/ReputationBadge';
 import { VotePanel } from '../components/battles/VotePanel';
+import { CypherPodium, type CypherPodiumEntrant } from '../components/battles/CypherPodium';
+import { BlindBattleSlots, type BlindBattleSlot } from '../components/battles/BlindBattleSlots';
+import { BattleJudgingBreakdown } from '../components/battles/BattleJudgingBreakdown';
+import { JudgeScorecard, type JudgeScorecardCompetitor } from '../components/battles/JudgeScorecard';
 import { CommentsPanel } from '../components/battles/CommentsPanel';
 import { BattleAudioPlayer } from '../components/audio/BattleAudioPlayer';
 import { useTranslation } from '../lib/i18n';
 import { supabase } from '@/lib/supabase/client';
 import { fetchPublicProducerProfilesMap } from '../lib/supabase/publicProfiles';
 import { fetchCatalogProductsByIds } from '../lib/supabase/catalog';
-import type { BattleProductSnapshot, BattleWithRelations, ProductWithRelations } from '../lib/supabase/types';
+import { getBlindSlotLetter, isBlindVotingActive, orderBlindSlots } from '../lib/battles/blind';
+import type { BattleEntrant, BattleProductSnapshot, BattleWithRelations, ProductWithRelations } from '../lib/supabase/types';
 import { formatDateTime } from '../lib/utils/format';
 import { useAuth } from '../lib/auth/hooks';
 import { getReferrer, storeReferrer, trackBattleShare, trackBattleVote, trackBattleView } from '../lib/analytics';
 
 type BattleSnapshotSlot = 'producer1' | 'producer2';
 type BattleSnapshotMap = Partial<Record<BattleSnapshotSlot, BattleProductSnapshot>>;
+type MaskedPreviewUrls = Partial<Record<BattleSnapshotSlot, string | null>>;
 type SocialShareMethod = 'x' | 'facebook' | 'linkedin' | 'whatsapp';
 type SocialShareTarget = {
   method: SocialShareMethod;
@@ -95,6 +101,9 @@ export function BattleDetailPage() {
   const { user } = useAuth();
   const [battle, setBattle] = useState<BattleWithRelations | null>(null);
   const [battleSnapshots, setBattleSnapshots] = useState<BattleSnapshotMap>({});
+  // Set while get_battle_detail withholds who made which beat from this viewer.
+  const [maskedPreviewUrls, setMaskedPreviewUrls] = useState<MaskedPreviewUrls | null>(null);
+  const [cypherEntrants, setCypherEntrants] = useState<CypherPodiumEntrant[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [historyWarning, setHistoryWarning] = useState<string | null>(null);
@@ -102,10 +111,54 @@ export function BattleDetailPage() {
   const [isShareMenuOpen, setIsShareMenuOpen] = useState(false);
   const shareMenuRef = useRef<HTMLDivElement>(null);
 
+  const fetchCypherEntrants = useCallback(async (battleId: string, identitiesMasked: boolean) => {
+    const { data, error: entrantsError } = await supabase.rpc('get_battle_entrants', { p_battle_id: battleId });
+
+    if (entrantsError) {
+      console.error('[battle-detail] failed to load cypher entrants', entrantsError);
+      setCypherEntrants([]);
+      return;
+    }
+
+    const rows = (data ?? []) as Array<BattleEntrant & { preview_url: string | null }>;
+    if (identitiesMasked) {
+      // Producer ids are aliases here: there is no profile or product to look up.
+      setCypherEntrants(rows.map((entrant) => ({
+        ...entrant,
+        username: null,
+        avatarUrl: null,
+        productTitle: null,
+        productUrl: null,
+        previewUrl: entrant.preview_url,
+      })));
+      return;
+    }
+
+    const entrants: BattleEntrant[] = rows;
+    const [producerProfilesMap, productsMap] = await Promise.all([
+      fetchPublicProducerProfilesMap(entrants.map((entrant) => entrant.producer_id)),
+      fetchCatalogProductsByIds(entrants.map((entrant) => entrant.product_id)),
+    ]);
+
+    setCypherEntrants(entrants.map((entrant) => {
+      const profile = producerProfilesMap.get(entrant.producer_id);
+      const product = entrant.product_id ? productsMap.get(entrant.product_id) : undefined;
+      return {
+        ...entrant,
+        username: profile?.username ?? null,
+        avatarUrl: profile?.avatar_url ?? null,
+        productTitle: product?.title ?? null,
+        productUrl: getProductUrl(product),
+        previewUrl: product?.preview_url ?? null,
+      };
+    }));
+  }, []);
+
   const fetchBattle = useCallback(async () => {
     if (!slug) {
       setError(t('battleDetail.missingSlug'));
       setBattleSnapshots({});
+      setMaskedPreviewUrls(null);
       setHistoryWarning(null);
       setIsLoading(false);
       return;
@@ -117,47 +170,35 @@ export function BattleDetailPage() {
 
     try {
       const { data, error: fetchError } = await supabase
-        .from('battles')
-        .select(`
-          id,
-          title,
-          slug,
-          description,
-          producer1_id,
-          producer2_id,
-          product1_id,
-          product2_id,
-          status,
-          accepted_at,
-          rejected_at,
-          admin_validated_at,
-          rejection_reason,
-          response_deadline,
-          submission_deadline,
-          starts_at,
-          voting_ends_at,
-          winner_id,
-          votes_producer1,
-          votes_producer2,
-          featured,
-          prize_description,
-          created_at,
-          updated_at,
-          custom_duration_days,
-          extension_count
-        `)
-        .eq('slug', slug)
+        .rpc('get_battle_detail', { p_slug: slug })
         .maybeSingle();
 
       if (fetchError) {
         throw fetchError;
       }
 
-      const row = (data as BattleWithRelations | null) ?? null;
-      if (!row) {
+      const detail = data ?? null;
+      if (!detail) {
         setBattle(null);
         setBattleSnapshots({});
+        setMaskedPreviewUrls(null);
+      } else if (detail.identities_masked) {
+        // Aliases stand in for the producer ids: no profile, product or snapshot to look up.
+        const row = detail as unknown as BattleWithRelations;
+        setBattleSnapshots({});
+        setMaskedPreviewUrls({ producer1: detail.product1_preview_url, producer2: detail.product2_preview_url });
+
+        if (row.battle_format === 'cypher') {
+          await fetchCypherEntrants(row.id, true);
+        } else {
+          setCypherEntrants([]);
+        }
+
+        setBattle(row);
       } else {
+        const row = detail as unknown as BattleWithRelations;
+        setMaskedPreviewUrls(null);
+
         const { data: snapshotData, error: snapshotError } = await supabase
           .from('battle_product_snapshots')
           .select('id, battle_id, slot, product_id, title_snapshot, preview_url_snapshot, producer_id, created_at, updated_at')
@@ -242,18 +283,25 @@ export function BattleDetailPage() {
           } as BattleWithRelations;
         }
 
+        if (row.battle_format === 'cypher') {
+          await fetchCypherEntrants(row.id, false);
+        } else {
+          setCypherEntrants([]);
+        }
+
         setBattle(nextBattle);
       }
     } catch (fetchErr) {
       console.error('Error fetching battle detail:', fetchErr);
       setBattle(null);
       setBattleSnapshots({});
+      setMaskedPreviewUrls(null);
       setHistoryWarning(null);
       setError(t('battleDetail.loadError'));
     } finally {
       setIsLoading(false);
     }
-  }, [slug, t]);
+  }, [fetchCypherEntrants, slug, t]);
 
   useEffect(() => {
     void fetchBattle();
@@ -385,6 +433,11 @@ export function BattleDetailPage() {
     if (battle) {
       trackBattleVote({ battleId: battle.id, referrer: getReferrer() });
     }
+    if (battle?.battle_format === 'cypher') {
+      // Ballots spread points over three entrants; reload the totals instead of guessing them.
+      void fetchCypherEntrants(battle.id, maskedPreviewUrls !== null);
+      return;
+    }
     setBattle((prev) => {
       if (!prev) return prev;
       return {
@@ -399,7 +452,7 @@ export function BattleDetailPage() {
             : prev.votes_producer2,
       };
     });
-  }, [battle]);
+  }, [battle, fetchCypherEntrants, maskedPreviewUrls]);
 
   const totalVotes = useMemo(() => {
     if (!battle) return 0;
@@ -469,10 +522,55 @@ export function BattleDetailPage() {
   const product2Url = getProductUrl(battle.product2 || null);
   const product1Title = battle.product1?.title ?? product1Snapshot?.title_snapshot ?? null;
   const product2Title = battle.product2?.title ?? product2Snapshot?.title_snapshot ?? null;
-  const product1PreviewUrl = battle.product1?.preview_url ?? product1Snapshot?.preview_url_snapshot ?? null;
-  const product2PreviewUrl = battle.product2?.preview_url ?? product2Snapshot?.preview_url_snapshot ?? null;
+  const product1PreviewUrl = battle.product1?.preview_url ?? product1Snapshot?.preview_url_snapshot ?? maskedPreviewUrls?.producer1 ?? null;
+  const product2PreviewUrl = battle.product2?.preview_url ?? product2Snapshot?.preview_url_snapshot ?? maskedPreviewUrls?.producer2 ?? null;
   const product1IsHistoricalOnly = !battle.product1 && Boolean(product1Snapshot);
   const product2IsHistoricalOnly = !battle.product2 && Boolean(product2Snapshot);
+  const isCypher = battle.battle_format === 'cypher';
+  // Blind battles hide who made which beat until they complete; each viewer gets their own slot order.
+  const isBlind = isBlindVotingActive(battle);
+  const blindViewerKey = user?.id ?? 'guest';
+  const getBlindLabel = (index: number) => t('battles.blindBeatLabel', { letter: getBlindSlotLetter(index) });
+  const blindSlots: BlindBattleSlot[] = isBlind && !isCypher && battle.producer2_id
+    ? orderBlindSlots([
+        {
+          producerId: battle.producer1_id,
+          votes: battle.votes_producer1,
+          productId: battle.product1?.id ?? product1Snapshot?.product_id ?? null,
+          previewUrl: product1PreviewUrl,
+        },
+        {
+          producerId: battle.producer2_id,
+          votes: battle.votes_producer2,
+          productId: battle.product2?.id ?? product2Snapshot?.product_id ?? null,
+          previewUrl: product2PreviewUrl,
+        },
+      ], battle.id, blindViewerKey).map((slot, index) => ({ ...slot, label: getBlindLabel(index) }))
+    : [];
+  const visibleCypherEntrants: CypherPodiumEntrant[] = isBlind
+    ? orderBlindSlots(cypherEntrants, battle.id, blindViewerKey).map((entrant, index) => ({
+        ...entrant,
+        position: index + 1,
+        username: getBlindLabel(index),
+        avatarUrl: null,
+        productTitle: null,
+        productUrl: null,
+      }))
+    : cypherEntrants;
+  // Judges score the beats under the same labels voters see.
+  const judgeCompetitors: JudgeScorecardCompetitor[] = isCypher
+    ? visibleCypherEntrants.map((entrant) => ({
+        producerId: entrant.producer_id,
+        label: entrant.username ?? entrant.producer_id,
+      }))
+    : isBlind
+      ? blindSlots.map((slot) => ({ producerId: slot.producerId, label: slot.label }))
+      : [
+          { producerId: battle.producer1_id, label: battle.producer1?.username || t('battleDetail.producer1Fallback') },
+          ...(battle.producer2_id
+            ? [{ producerId: battle.producer2_id, label: battle.producer2?.username || t('battleDetail.producer2Fallback') }]
+            : []),
+        ];
 
   return (
     <div className="min-h-screen bg-zinc-950 pt-8 pb-32">
@@ -562,73 +660,86 @@ export function BattleDetailPage() {
             )}
           </div>
 
-          <div className="grid grid-cols-1 gap-3 md:grid-cols-[minmax(0,1fr)_auto_minmax(0,1fr)] md:items-center">
-            <div className="min-w-0 rounded-lg bg-zinc-800/50 p-4">
-              <p className="mb-1 text-xs uppercase text-zinc-500">{t('battleDetail.producer1Label')}</p>
-              <p className="break-words font-semibold leading-tight text-white">{battle.producer1?.username || t('battleDetail.producer1Fallback')}</p>
-              {battle.producer1 && (
-                <ReputationBadge
-                  compact
-                  rankTier={battle.producer1.rank_tier}
-                  level={battle.producer1.level}
-                  xp={battle.producer1.xp}
-                />
-              )}
-              <p className="mt-2 text-sm text-rose-400">{battle.votes_producer1} {t('battles.votes')}</p>
-              {battle.product1 && product1Url && (
-                <Link to={product1Url} className="mt-2 block truncate text-xs text-zinc-400 hover:text-white">
-                  {battle.product1.title}
-                </Link>
-              )}
-              {!battle.product1 && product1Snapshot?.title_snapshot && (
-                <p className="text-xs text-amber-300 mt-2">{t('battleDetail.deletedProductWithTitle', { title: product1Snapshot.title_snapshot })}</p>
-              )}
-            </div>
-
-            <div className="flex min-w-0 flex-col items-center gap-2 py-1 text-center md:px-3 md:py-0">
-              <div className="flex w-full items-center gap-3 md:block">
-                <div className="h-px flex-1 bg-zinc-800 md:hidden" />
-                <p className="shrink-0 rounded-full border border-zinc-800 bg-zinc-950 px-3 py-1 text-xs uppercase tracking-wide text-zinc-500 md:border-0 md:bg-transparent md:p-0">{t('battles.vs')}</p>
-                <div className="h-px flex-1 bg-zinc-800 md:hidden" />
-              </div>
-              {battle.status === 'completed' && battle.winner?.username && (
-                <div className="inline-flex max-w-full items-center gap-2 text-amber-400">
-                  <Trophy className="w-4 h-4" />
-                  <span className="truncate text-sm">{battle.winner.username}</span>
-                </div>
-              )}
-              {battle.voting_ends_at && (
-                <p className="inline-flex max-w-full items-center gap-1 text-xs text-zinc-400">
-                  <Clock className="w-3 h-3" />
-                  <span className="truncate">{formatDateTime(battle.voting_ends_at)}</span>
-                </p>
-              )}
+          {isBlind && (
+            <div className="flex items-start gap-2 rounded-lg border border-zinc-700 bg-zinc-800/40 p-3 text-sm text-zinc-300">
+              <EyeOff className="mt-0.5 h-4 w-4 shrink-0 text-zinc-400" />
+              <p>{t('battleDetail.blindNotice')}</p>
             </div>
+          )}
 
-            <div className="min-w-0 rounded-lg bg-zinc-800/50 p-4 text-left md:text-right">
-              <p className="mb-1 text-xs uppercase text-zinc-500">{t('battleDetail.producer2Label')}</p>
-              <p className="break-words font-semibold leading-tight text-white">{battle.producer2?.username || t('battleDetail.producer2Fallback')}</p>
-              {battle.producer2 && (
-                <div className="flex justify-start md:justify-end">
+          {isCypher ? (
+            <CypherPodium entrants={visibleCypherEntrants} status={battle.status} blind={isBlind} />
+          ) : isBlind ? (
+            <BlindBattleSlots slots={blindSlots} votingEndsAt={battle.voting_ends_at} />
+          ) : (
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-[minmax(0,1fr)_auto_minmax(0,1fr)] md:items-center">
+              <div className="min-w-0 rounded-lg bg-zinc-800/50 p-4">
+                <p className="mb-1 text-xs uppercase text-zinc-500">{t('battleDetail.producer1Label')}</p>
+                <p className="break-words font-semibold leading-tight text-white">{battle.producer1?.username || t('battleDetail.producer1Fallback')}</p>
+                {battle.producer1 && (
                   <ReputationBadge
                     compact
-                    rankTier={battle.producer2.rank_tier}
-                    level={battle.producer2.level}
-                    xp={battle.producer2.xp}
+                    rankTier={battle.producer1.rank_tier}
+                    level={battle.producer1.level}
+                    xp={battle.producer1.xp}
                   />
+                )}
+                <p className="mt-2 text-sm text-rose-400">{battle.votes_producer1} {t('battles.votes')}</p>
+                {battle.product1 && product1Url && (
+                  <Link to={product1Url} className="mt-2 block truncate text-xs text-zinc-400 hover:text-white">
+                    {battle.product1.title}
+                  </Link>
+                )}
+                {!battle.product1 && product1Snapshot?.title_snapshot && (
+                  <p className="text-xs text-amber-300 mt-2">{t('battleDetail.deletedProductWithTitle', { title: product1Snapshot.title_snapshot })}</p>
+                )}
+              </div>
+
+              <div className="flex min-w-0 flex-col items-center gap-2 py-1 text-center md:px-3 md:py-0">
+                <div className="flex w-full items-center gap-3 md:block">
+                  <div className="h-px flex-1 bg-zinc-800 md:hidden" />
+                  <p className="shrink-0 rounded-full border border-zinc-800 bg-zinc-950 px-3 py-1 text-xs uppercase tracking-wide text-zinc-500 md:border-0 md:bg-transparent md:p-0">{t('battles.vs')}</p>
+                  <div className="h-px flex-1 bg-zinc-800 md:hidden" />
                 </div>
-              )}
-              <p className="mt-2 text-sm text-orange-400">{battle.votes_producer2} {t('battles.votes')}</p>
-              {battle.product2 && product2Url && (
-                <Link to={product2Url} className="mt-2 block truncate text-xs text-zinc-400 hover:text-white">
-                  {battle.product2.title}
-                </Link>
-              )}
-              {!battle.product2 && product2Snapshot?.title_snapshot && (
-                <p className="text-xs text-amber-300 mt-2">{t('battleDetail.deletedProductWithTitle', { title: product2Snapshot.title_snapshot })}</p>
-              )}
+                {battle.status === 'completed' && battle.winner?.username && (
+                  <div className="inline-flex max-w-full items-center gap-2 text-amber-400">
+                    <Trophy className="w-4 h-4" />
+                    <span className="truncate text-sm">{battle.winner.username}</span>
+                  </div>
+                )}
+                {battle.voting_ends_at && (
+                  <p className="inline-flex max-w-full items-center gap-1 text-xs text-zinc-400">
+                    <Clock className="w-3 h-3" />
+                    <span className="truncate">{formatDateTime(battle.voting_ends_at)}</span>
+                  </p>
+                )}
+              </div>
+
+              <div className="min-w-0 rounded-lg bg-zinc-800/50 p-4 text-left md:text-right">
+                <p className="mb-1 text-xs uppercase text-zinc-500">{t('battleDetail.producer2Label')}</p>
+                <p className="break-words font-semibold leading-tight text-white">{battle.producer2?.username || t('battleDetail.producer2Fallback')}</p>
+                {battle.producer2 && (
+                  <div className="flex justify-start md:justify-end">
+                    <ReputationBadge
+                      compact
+                      rankTier={battle.producer2.rank_tier}
+                      level={battle.producer2.level}
+                      xp={battle.producer2.xp}
+                    />
+                  </div>
+                )}
+                <p className="mt-2 text-sm text-orange-400">{battle.votes_producer2} {t('battles.votes')}</p>
+                {battle.product2 && product2Url && (
+                  <Link to={product2Url} className="mt-2 block truncate text-xs text-zinc-400 hover:text-white">
+                    {battle.product2.title}
+                  </Link>
+                )}
+                {!battle.product2 && product2Snapshot?.title_snapshot && (
+                  <p className="text-xs text-amber-300 mt-2">{t('battleDetail.deletedProductWithTitle', { title: product2Snapshot.title_snapshot })}</p>
+                )}
+              </div>
             </div>
-          </div>
+          )}
 
           {historyWarning && (
             <Card className="bg-amber-900/20 border border-amber-800">
@@ -648,79 +759,83 @@ export function BattleDetailPage() {
             </Card>
           )}
 
-          <div>
-            <div className="h-2 rounded-full overflow-hidden bg-zinc-800 flex">
-              <div
-                className="h-full bg-gradient-to-r from-rose-500 to-rose-400"
-                style={{ width: `${producer1Percent}%` }}
-              />
-              <div
-                className="h-full bg-gradient-to-r from-orange-400 to-orange-500"
-                style={{ width: `${producer2Percent}%` }}
-              />
-            </div>
-            <div className="mt-2 grid grid-cols-[1fr_auto_1fr] items-center gap-2 text-sm text-zinc-500">
-              <span className="text-left">{producer1Percent.toFixed(0)}%</span>
-              <span className="min-w-0 truncate text-center">{t('battleDetail.totalVotes', { count: totalVotes })}</span>
-              <span className="text-right">{producer2Percent.toFixed(0)}%</span>
-            </div>
-          </div>
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <Card className="bg-zinc-800/30">
-              <p className="text-zinc-500 text-xs uppercase mb-2">{t('battleDetail.product1Label')}</p>
-              {battle.product1 || product1Snapshot ? (
-                <div className="space-y-2">
-                  <p className="text-white font-medium">{product1Title || t('battleDetail.productUnavailable')}</p>
-                  {product1IsHistoricalOnly && (
-                    <p className="text-xs text-amber-300">{t('battleDetail.deletedProductHistory')}</p>
-                  )}
-                  <BattleAudioPlayer
-                    productId={battle.product1?.id ?? product1Snapshot?.product_id ?? null}
-                    src={product1PreviewUrl}
-                    label={product1IsHistoricalOnly ? t('battleDetail.historicalPreviewProducer1') : t('battleDetail.previewProducer1')}
+          {!isCypher && !isBlind && (
+            <>
+              <div>
+                <div className="h-2 rounded-full overflow-hidden bg-zinc-800 flex">
+                  <div
+                    className="h-full bg-gradient-to-r from-rose-500 to-rose-400"
+                    style={{ width: `${producer1Percent}%` }}
+                  />
+                  <div
+                    className="h-full bg-gradient-to-r from-orange-400 to-orange-500"
+                    style={{ width: `${producer2Percent}%` }}
                   />
-                  {battle.product1 && product1Url && (
-                    <Link to={product1Url} className="text-xs text-zinc-400 hover:text-white">
-                      {t('battleDetail.productPageLink')}
-                    </Link>
-                  )}
-                  {product1IsHistoricalOnly && !product1PreviewUrl && (
-                    <p className="text-xs text-zinc-500">{t('battleDetail.noHistoricalPreview')}</p>
-                  )}
                 </div>
-              ) : (
-                <p className="text-zinc-500 text-sm">{t('battleDetail.notAssigned')}</p>
-              )}
-            </Card>
+                <div className="mt-2 grid grid-cols-[1fr_auto_1fr] items-center gap-2 text-sm text-zinc-500">
+                  <span className="text-left">{producer1Percent.toFixed(0)}%</span>
+                  <span className="min-w-0 truncate text-center">{t('battleDetail.totalVotes', { count: totalVotes })}</span>
+                  <span className="text-right">{producer2Percent.toFixed(0)}%</span>
+                </div>
+              </div>
 
-            <Card className="bg-zinc-800/30">
-              <p className="text-zinc-500 text-xs uppercase mb-2">{t('battleDetail.product2Label')}</p>
-              {battle.product2 || product2Snapshot ? (
-                <div className="space-y-2">
-                  <p className="text-white font-medium">{product2Title || t('battleDetail.productUnavailable')}</p>
-                  {product2IsHistoricalOnly && (
-                    <p className="text-xs text-amber-300">{t('battleDetail.deletedProductHistory')}</p>
-                  )}
-                  <BattleAudioPlayer
-                    productId={battle.product2?.id ?? product2Snapshot?.product_id ?? null}
-                    src={product2PreviewUrl}
-                    label={product2IsHistoricalOnly ? t('battleDetail.historicalPreviewProducer2') : t('battleDetail.previewProducer2')}
-                  />
-                  {battle.product2 && product2Url && (
-                    <Link to={product2Url} className="text-xs text-zinc-400 hover:text-white">
-                      {t('battleDetail.productPageLink')}
-                    </Link>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Card className="bg-zinc-800/30">
+                  <p className="text-zinc-500 text-xs uppercase mb-2">{t('battleDetail.product1Label')}</p>
+                  {battle.product1 || product1Snapshot ? (
+                    <div className="space-y-2">
+                      <p className="text-white font-medium">{product1Title || t('battleDetail.productUnavailable')}</p>
+                      {product1IsHistoricalOnly && (
+                        <p className="text-xs text-amber-300">{t('battleDetail.deletedProductHistory')}</p>
+                      )}
+                      <BattleAudioPlayer
+                        productId={battle.product1?.id ?? product1Snapshot?.product_id ?? null}
+                        src={product1PreviewUrl}
+                        label={product1IsHistoricalOnly ? t('battleDetail.historicalPreviewProducer1') : t('battleDetail.previewProducer1')}
+                      />
+                      {battle.product1 && product1Url && (
+                        <Link to={product1Url} className="text-xs text-zinc-400 hover:text-white">
+                          {t('battleDetail.productPageLink')}
+                        </Link>
+                      )}
+                      {product1IsHistoricalOnly && !product1PreviewUrl && (
+                        <p className="text-xs text-zinc-500">{t('battleDetail.noHistoricalPreview')}</p>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-zinc-500 text-sm">{t('battleDetail.notAssigned')}</p>
                   )}
-                  {product2IsHistoricalOnly && !product2PreviewUrl && (
-                    <p className="text-xs text-zinc-500">{t('battleDetail.noHistoricalPreview')}</p>
+                </Card>
+
+                <Card className="bg-zinc-800/30">
+                  <p className="text-zinc-500 text-xs uppercase mb-2">{t('battleDetail.product2Label')}</p>
+                  {battle.product2 || product2Snapshot ? (
+                    <div className="space-y-2">
+                      <p className="text-white font-medium">{product2Title || t('battleDetail.productUnavailable')}</p>
+                      {product2IsHistoricalOnly && (
+                        <p className="text-xs text-amber-300">{t('battleDetail.deletedProductHistory')}</p>
+                      )}
+                      <BattleAudioPlayer
+                        productId={battle.product2?.id ?? product2Snapshot?.product_id ?? null}
+                        src={product2PreviewUrl}
+                        label={product2IsHistoricalOnly ? t('battleDetail.historicalPreviewProducer2') : t('battleDetail.previewProducer2')}
+                      />
+                      {battle.product2 && product2Url && (
+                        <Link to={product2Url} className="text-xs text-zinc-400 hover:text-white">
+                          {t('battleDetail.productPageLink')}
+                        </Link>
+                      )}
+                      {product2IsHistoricalOnly && !product2PreviewUrl && (
+                        <p className="text-xs text-zinc-500">{t('battleDetail.noHistoricalPreview')}</p>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-zinc-500 text-sm">{t('battleDetail.notAssigned')}</p>
                   )}
-                </div>
-              ) : (
-                <p className="text-zinc-500 text-sm">{t('battleDetail.notAssigned')}</p>
-              )}
-            </Card>
-          </div>
+                </Card>
+              </div>
+            </>
+          )}
 
           <div className="text-xs text-zinc-500 inline-flex items-center gap-1">
             <Users className="w-3 h-3" />
@@ -728,8 +843,20 @@ export function BattleDetailPage() {
           </div>
         </Card>
 
+        {battle.judge_weight !== null && (
+          <BattleJudgingBreakdown battleId={battle.id} status={battle.status} />
+        )}
+
+        {(battle.status === 'active' || battle.status === 'voting') && (
+          <JudgeScorecard battleId={battle.id} competitors={judgeCompetitors} />
+        )}
+
         <VotePanel
           battle={battle}
+          cypherEntrants={visibleCypherEntrants}
+          blindChoices={isBlind && !isCypher
+            ? blindSlots.map((slot) => ({ producer_id: slot.producerId, label: slot.label }))
+            : undefined}
           onVoteSuccess={handleVoteSuccess}
         />
 
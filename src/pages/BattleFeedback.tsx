@@ -12,6 +12,7 @@ import { useAuth, useUserRole } from '../lib/auth/hooks';
 import { deriveRole, type ViewerRole } from '../lib/feedback/deriveRole';
 import { trackBattleShare, type BattleShareMethod } from '../lib/analytics';
 import { useTranslation } from '../lib/i18n';
+import { useBattleJudgingResults } from '../hooks/useBattleJudgingResults';
 import {
   LOSER_SHARE_TEMPLATE_KEYS,
   buildLoserShareMessage,
@@ -449,6 +450,35 @@ function TopCriteria({ items }: { items: FeedbackTopCriterion[] }) {
   );
 }
 
+function JudgeComments({ battleId }: { battleId: string }) {
+  const { t } = useTranslation();
+  const results = useBattleJudgingResults(battleId, 'completed');
+  if (!results?.has_panel || !results.completed || results.comments.length === 0) return null;
+
+  const producerNames = new Map(results.entries.map((entry) => [entry.producer_id, entry.username]));
+
+  return (
+    <section className="mb-8 rounded-lg border border-zinc-800/60 bg-zinc-900/40 p-4">
+      <h3 className="mb-3 text-sm font-semibold uppercase tracking-wide text-zinc-300">
+        {t('judging.commentsTitle')}
+      </h3>
+      <ul className="space-y-3">
+        {results.comments.map((comment, index) => (
+          <li key={`${comment.producer_id}:${index}`} className="space-y-1 text-sm">
+            <p className="text-xs text-zinc-500">
+              {t('judging.commentBy', {
+                judge: comment.judge_username ?? t('judging.anonymousJudge'),
+                name: producerNames.get(comment.producer_id) ?? t('judging.unknownProducer'),
+              })}
+            </p>
+            <p className="whitespace-pre-line text-zinc-200">{comment.comment}</p>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
 function LoserShareModal({
   battleId,
   isOpen,
@@ -1128,6 +1158,10 @@ export function BattleFeedbackPage() {
           </div>
         )}
 
+        {viewerRole !== 'visitor_auth' && viewerRole !== 'visitor_anon' && (
+          <JudgeComments battleId={battle.id} />
+        )}
+
         <section className="mb-8 flex flex-col items-center gap-3">
           <RoleCTA
             role={viewerRole}
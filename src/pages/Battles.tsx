@@ -11,6 +11,7 @@ import { getLocalizedName } from '../lib/i18n/localized';
 import { supabase } from '@/lib/supabase/client';
 import { fetchPublicProducerProfilesMap } from '../lib/supabase/publicProfiles';
 import { fetchCatalogProductsByIds } from '../lib/supabase/catalog';
+import { isBlindVotingActive } from '../lib/battles/blind';
 import { useAuth, useIsEmailVerified } from '../lib/auth/hooks';
 import type { BattleWithRelations, Genre } from '../lib/supabase/types';
 
@@ -117,6 +118,8 @@ export function BattlesPage() {
             votes_producer2,
             featured,
             prize_description,
+            battle_format,
+            blind_voting,
             custom_duration_days,
             extension_count,
             created_at,
@@ -224,9 +227,16 @@ export function BattlesPage() {
   return (
     <div className="min-h-screen bg-zinc-950 pt-8 pb-32">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-white mb-2">{t('battles.title')}</h1>
-          <p className="text-zinc-400">{t('battles.subtitle')}</p>
+        <div className="mb-8 flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-2">{t('battles.title')}</h1>
+            <p className="text-zinc-400">{t('battles.subtitle')}</p>
+          </div>
+          <Link to="/tournaments">
+            <Button variant="outline" leftIcon={<Trophy className="w-4 h-4" />}>
+              {t('tournaments.title')}
+            </Button>
+          </Link>
         </div>
 
         <div className="mb-8 flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
@@ -334,6 +344,8 @@ interface BattleCardProps {
 
 function BattleCard({ battle }: BattleCardProps) {
   const { t, language } = useTranslation();
+  const isCypher = battle.battle_format === 'cypher';
+  const isBlind = isBlindVotingActive(battle);
   const totalVotes = battle.votes_producer1 + battle.votes_producer2;
   const percent1 = totalVotes > 0 ? (battle.votes_producer1 / totalVotes) * 100 : 50;
   const percent2 = totalVotes > 0 ? (battle.votes_producer2 / totalVotes) * 100 : 50;
@@ -383,45 +395,16 @@ function BattleCard({ battle }: BattleCardProps) {
             {battle.genre && (
               <Badge variant="default">{getLocalizedName(battle.genre, language)}</Badge>
             )}
+            {isCypher && <Badge variant="premium">{t('battles.cypherBadge')}</Badge>}
+            {isBlind && <Badge variant="default">{t('battles.blindBadge')}</Badge>}
           </div>
         </div>
 
-        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between md:gap-8">
-          <div className="flex flex-1 items-center gap-3 sm:gap-4">
-            {battle.producer1?.avatar_url ? (
-              <img
-                src={battle.producer1.avatar_url}
-                alt={battle.producer1.username || ''}
-                className="h-14 w-14 shrink-0 rounded-full border-2 border-zinc-700 object-cover sm:h-16 sm:w-16 md:h-20 md:w-20"
-              />
-            ) : (
-              <div className="flex h-14 w-14 shrink-0 items-center justify-center rounded-full border-2 border-zinc-700 bg-zinc-800 sm:h-16 sm:w-16 md:h-20 md:w-20">
-                <Users className="h-6 w-6 text-zinc-600 sm:h-7 sm:w-7 md:h-8 md:w-8" />
-              </div>
-            )}
-            <div className="min-w-0">
-              <p className="truncate text-base font-semibold text-white sm:text-lg">
-                {battle.producer1?.username || t('battles.producer1')}
-              </p>
-              {battle.producer1 && (
-                <ReputationBadge
-                  compact
-                  rankTier={battle.producer1.rank_tier}
-                  level={battle.producer1.level}
-                  xp={battle.producer1.xp}
-                />
-              )}
-              {battle.product1 && (
-                <p className="truncate text-sm text-zinc-400">{battle.product1.title}</p>
-              )}
-              <p className="text-rose-400 font-bold mt-1">
-                {battle.votes_producer1} {t('battles.votes')}
-              </p>
-            </div>
-          </div>
-
-          <div className="flex flex-col items-center gap-2">
-            <div className="text-2xl font-bold text-zinc-500">{t('battles.vs')}</div>
+        {isBlind ? (
+          <p className="text-sm text-zinc-400">{t('battles.blindCardHint')}</p>
+        ) : isCypher ? (
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-sm text-zinc-400">{t('battles.cypherCardHint')}</p>
             {battle.status === 'completed' && battle.winner && (
               <div className="flex items-center gap-1 text-amber-400">
                 <Trophy className="w-4 h-4" />
@@ -429,44 +412,89 @@ function BattleCard({ battle }: BattleCardProps) {
               </div>
             )}
           </div>
-
-          <div className="flex flex-1 items-center gap-3 sm:gap-4 md:flex-row-reverse md:justify-end">
-            {battle.producer2?.avatar_url ? (
-              <img
-                src={battle.producer2.avatar_url}
-                alt={battle.producer2.username || ''}
-                className="h-14 w-14 shrink-0 rounded-full border-2 border-zinc-700 object-cover sm:h-16 sm:w-16 md:h-20 md:w-20"
-              />
-            ) : (
-              <div className="flex h-14 w-14 shrink-0 items-center justify-center rounded-full border-2 border-zinc-700 bg-zinc-800 sm:h-16 sm:w-16 md:h-20 md:w-20">
-                <Users className="h-6 w-6 text-zinc-600 sm:h-7 sm:w-7 md:h-8 md:w-8" />
-              </div>
-            )}
-            <div className="min-w-0 md:text-right">
-              <p className="truncate text-base font-semibold text-white sm:text-lg">
-                {battle.producer2?.username || t('battles.producer2')}
-              </p>
-              {battle.producer2 && (
-                <div className="flex md:justify-end">
+        ) : (
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between md:gap-8">
+            <div className="flex flex-1 items-center gap-3 sm:gap-4">
+              {battle.producer1?.avatar_url ? (
+                <img
+                  src={battle.producer1.avatar_url}
+                  alt={battle.producer1.username || ''}
+                  className="h-14 w-14 shrink-0 rounded-full border-2 border-zinc-700 object-cover sm:h-16 sm:w-16 md:h-20 md:w-20"
+                />
+              ) : (
+                <div className="flex h-14 w-14 shrink-0 items-center justify-center rounded-full border-2 border-zinc-700 bg-zinc-800 sm:h-16 sm:w-16 md:h-20 md:w-20">
+                  <Users className="h-6 w-6 text-zinc-600 sm:h-7 sm:w-7 md:h-8 md:w-8" />
+                </div>
+              )}
+              <div className="min-w-0">
+                <p className="truncate text-base font-semibold text-white sm:text-lg">
+                  {battle.producer1?.username || t('battles.producer1')}
+                </p>
+                {battle.producer1 && (
                   <ReputationBadge
                     compact
-                    rankTier={battle.producer2.rank_tier}
-                    level={battle.producer2.level}
-                    xp={battle.producer2.xp}
+                    rankTier={battle.producer1.rank_tier}
+                    level={battle.producer1.level}
+                    xp={battle.producer1.xp}
                   />
+                )}
+                {battle.product1 && (
+                  <p className="truncate text-sm text-zinc-400">{battle.product1.title}</p>
+                )}
+                <p className="text-rose-400 font-bold mt-1">
+                  {battle.votes_producer1} {t('battles.votes')}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-col items-center gap-2">
+              <div className="text-2xl font-bold text-zinc-500">{t('battles.vs')}</div>
+              {battle.status === 'completed' && battle.winner && (
+                <div className="flex items-center gap-1 text-amber-400">
+                  <Trophy className="w-4 h-4" />
+                  <span className="text-sm">{battle.winner.username || t('battles.winnerFallback')}</span>
                 </div>
               )}
-              {battle.product2 && (
-                <p className="truncate text-sm text-zinc-400">{battle.product2.title}</p>
+            </div>
+
+            <div className="flex flex-1 items-center gap-3 sm:gap-4 md:flex-row-reverse md:justify-end">
+              {battle.producer2?.avatar_url ? (
+                <img
+                  src={battle.producer2.avatar_url}
+                  alt={battle.producer2.username || ''}
+                  className="h-14 w-14 shrink-0 rounded-full border-2 border-zinc-700 object-cover sm:h-16 sm:w-16 md:h-20 md:w-20"
+                />
+              ) : (
+                <div className="flex h-14 w-14 shrink-0 items-center justify-center rounded-full border-2 border-zinc-700 bg-zinc-800 sm:h-16 sm:w-16 md:h-20 md:w-20">
+                  <Users className="h-6 w-6 text-zinc-600 sm:h-7 sm:w-7 md:h-8 md:w-8" />
+                </div>
               )}
-              <p className="text-orange-400 font-bold mt-1">
-                {battle.votes_producer2} {t('battles.votes')}
-              </p>
+              <div className="min-w-0 md:text-right">
+                <p className="truncate text-base font-semibold text-white sm:text-lg">
+                  {battle.producer2?.username || t('battles.producer2')}
+                </p>
+                {battle.producer2 && (
+                  <div className="flex md:justify-end">
+                    <ReputationBadge
+                      compact
+                      rankTier={battle.producer2.rank_tier}
+                      level={battle.producer2.level}
+                      xp={battle.producer2.xp}
+                    />
+                  </div>
+                )}
+                {battle.product2 && (
+                  <p className="truncate text-sm text-zinc-400">{battle.product2.title}</p>
+                )}
+                <p className="text-orange-400 font-bold mt-1">
+                  {battle.votes_producer2} {t('battles.votes')}
+                </p>
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
-        {totalVotes > 0 && (
+        {!isCypher && !isBlind && totalVotes > 0 && (
           <div className="mt-6">
             <div className="h-2 rounded-full overflow-hidden bg-zinc-800 flex">
               <div
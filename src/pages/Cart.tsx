@@ -1,10 +1,15 @@
 import { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { ArrowLeft, ArrowRight, Music, ShoppingCart, Trash2, AlertCircle } from 'lucide-react';
+import { ArrowLeft, ArrowRight, Music, ShoppingCart, Tag, Ticket, Trash2, AlertCircle, X } from 'lucide-react';
 import { useCartStore } from '../lib/stores/cart';
 import { useTranslation } from '../lib/i18n';
+import { useDisplayCurrency } from '../lib/stores/currency';
 import { formatPrice } from '../lib/utils/format';
+import { BASE_CURRENCY, toPresentmentAmount } from '../lib/utils/currency';
+import { getDisplayPrice, getLicenseDisplayName } from '../lib/pricing';
+import { getPromoCodeError, PROMO_CODE_ERROR_KEYS } from '../lib/products/promoCodes';
 import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
 import { LogoLoader } from '../components/ui/LogoLoader';
 import { supabase } from '../lib/supabase/client';
 import { trackBeginCheckout, trackPurchase } from '../lib/analytics';
@@ -12,10 +17,27 @@ import { trackBeginCheckout, trackPurchase } from '../lib/analytics';
 export function CartPage() {
   const navigate = useNavigate();
   const { t } = useTranslation();
-  const { items, isLoading, fetchCart, removeFromCart, clearCart, getTotal } = useCartStore();
+  const { currency, rate, formatCatalogPrice } = useDisplayCurrency();
+  const {
+    items,
+    promoCode,
+    isLoading,
+    fetchCart,
+    removeFromCart,
+    clearCart,
+    applyPromoCode,
+    removePromoCode,
+    getSubtotal,
+    getDealEvaluation,
+    getPromoEvaluation,
+    getTotal,
+  } = useCartStore();
   const [removingId, setRemovingId] = useState<string | null>(null);
   const [isCheckoutLoading, setIsCheckoutLoading] = useState(false);
   const [checkoutError, setCheckoutError] = useState<string | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
 
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
@@ -92,9 +114,21 @@ export function CartPage() {
     fetchCart();
   }, [fetchCart]);
 
+  const subtotal = getSubtotal();
+  const { appliedDeals, itemDiscounts } = getDealEvaluation();
+  const { itemDiscounts: promoItemDiscounts, discountTotal: promoDiscount } = getPromoEvaluation();
   const total = getTotal();
   const hasItems = items.length > 0;
 
+  const getItemAmount = (item: (typeof items)[number]) => (
+    getDisplayPrice(item.product, item.selected_license)
+    - (itemDiscounts[item.product_id] ?? 0)
+    - (promoItemDiscounts[item.product_id] ?? 0)
+  );
+  // Stripe gets one converted amount per line, so the charged total is the
+  // sum of those rather than the converted euro total.
+  const chargedTotal = items.reduce((sum, item) => sum + toPresentmentAmount(getItemAmount(item), rate), 0);
+
   const handleRemove = async (productId: string) => {
     setRemovingId(productId);
     try {
@@ -104,6 +138,22 @@ export function CartPage() {
     }
   };
 
+  const handleApplyPromo = async () => {
+    if (!promoInput.trim() || isApplyingPromo) return;
+
+    setPromoError(null);
+    setIsApplyingPromo(true);
+    try {
+      await applyPromoCode(promoInput);
+      setPromoInput('');
+    } catch (error) {
+      const promoCodeError = getPromoCodeError(error);
+      setPromoError(t(promoCodeError ? PROMO_CODE_ERROR_KEYS[promoCodeError] : 'checkout.promoCodeError'));
+    } finally {
+      setIsApplyingPromo(false);
+    }
+  };
+
   const handleCheckout = async () => {
     if (!hasItems) return;
 
@@ -112,7 +162,7 @@ export function CartPage() {
       items: items.map((item) => ({
         productId: item.product_id,
         productName: item.product?.title ?? null,
-        price: (item.product?.price ?? 0) / 100,
+        price: getItemAmount(item) / 100,
       })),
     });
 
@@ -133,9 +183,11 @@ export function CartPage() {
         body: {
           items: items.map((item) => ({
             productId: item.product_id,
-            licenseId: item.license_id ?? undefined,
-            licenseType: item.license_type ?? undefined,
+            licenseId: item.selected_license?.license_id ?? item.license_id ?? undefined,
+            licenseType: item.selected_license?.license_type ?? item.license_type ?? undefined,
           })),
+          promoCode: promoCode?.code,
+          currency,
           successUrl: `${window.location.origin}/cart?status=success&session_id={CHECKOUT_SESSION_ID}`,
           cancelUrl: `${window.location.origin}/cart`,
         },
@@ -250,11 +302,16 @@ export function CartPage() {
                         {item.product?.product_type === 'kit' ? t('checkout.itemKit') : t('checkout.itemBeat')}
                         {item.product?.bpm && <span>{item.product.bpm} {t('products.bpm')}</span>}
                         {item.product?.key_signature && <span>{item.product.key_signature}</span>}
+                        {item.selected_license && (
+                          <span className="rounded-full bg-zinc-800 px-2 py-0.5 text-zinc-300">
+                            {getLicenseDisplayName(item.selected_license)}
+                          </span>
+                        )}
                       </div>
                     </div>
                     <div className="text-right">
                       <p className="text-lg font-semibold text-white">
-                        {formatPrice(item.product?.price ?? 0)}
+                        {formatCatalogPrice(getDisplayPrice(item.product, item.selected_license))}
                       </p>
                       <Button
                         variant="ghost"
@@ -289,13 +346,71 @@ export function CartPage() {
 
             <div className="flex items-center justify-between text-sm text-zinc-400 mb-3">
               <span>{t('checkout.subtotal')}</span>
-              <span className="text-white">{formatPrice(total)}</span>
+              <span className="text-white">{formatCatalogPrice(subtotal)}</span>
             </div>
 
+            {appliedDeals.map((deal) => (
+              <div key={deal.dealId} className="flex items-center justify-between gap-3 text-sm text-emerald-300 mb-3">
+                <span className="flex min-w-0 items-center gap-2">
+                  <Tag className="w-4 h-4 shrink-0" />
+                  <span className="truncate">{t('checkout.dealDiscount', { title: deal.title })}</span>
+                </span>
+                <span>-{formatCatalogPrice(deal.discount)}</span>
+              </div>
+            ))}
+
+            {promoCode ? (
+              <div className="flex items-center justify-between gap-3 text-sm text-emerald-300 mb-3">
+                <span className="flex min-w-0 items-center gap-2">
+                  <Ticket className="w-4 h-4 shrink-0" />
+                  <span className="truncate">{t('checkout.promoDiscount', { code: promoCode.code })}</span>
+                  <button
+                    type="button"
+                    onClick={removePromoCode}
+                    className="text-zinc-500 hover:text-zinc-300"
+                    aria-label={t('checkout.promoCodeRemove')}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </span>
+                <span>-{formatCatalogPrice(promoDiscount)}</span>
+              </div>
+            ) : (
+              <div className="mt-4 space-y-2">
+                <div className="flex items-end gap-2">
+                  <Input
+                    label={t('checkout.promoCodeLabel')}
+                    value={promoInput}
+                    placeholder={t('checkout.promoCodePlaceholder')}
+                    onChange={(event) => setPromoInput(event.target.value)}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') {
+                        event.preventDefault();
+                        void handleApplyPromo();
+                      }
+                    }}
+                    disabled={!hasItems || isApplyingPromo}
+                  />
+                  <Button
+                    variant="secondary"
+                    onClick={() => void handleApplyPromo()}
+                    isLoading={isApplyingPromo}
+                    disabled={!hasItems || !promoInput.trim()}
+                  >
+                    {t('checkout.promoCodeApply')}
+                  </Button>
+                </div>
+                {promoError && <p className="text-xs text-rose-300">{promoError}</p>}
+              </div>
+            )}
+
             <div className="border-t border-zinc-800 pt-4 mt-4 flex items-center justify-between">
               <span className="text-base text-zinc-300">{t('checkout.total')}</span>
-              <span className="text-2xl font-bold text-white">{formatPrice(total)}</span>
+              <span className="text-2xl font-bold text-white">{formatPrice(chargedTotal, currency)}</span>
             </div>
+            {currency !== BASE_CURRENCY && (
+              <p className="text-xs text-zinc-500 mt-2">{t('checkout.currencyNotice', { currency })}</p>
+            )}
 
             <Button
               className="w-full mt-6"
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { User, Mail, Shield, Music, ShoppingBag, Heart, Download, FileText } from 'lucide-react';
+import { User, Mail, Shield, Music, ShoppingBag, Heart, Download, FileText, ArrowUpCircle, Receipt } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
 import { useAuth } from '../lib/auth/hooks';
@@ -7,7 +7,7 @@ import { useTranslation, type TranslateFn } from '../lib/i18n';
 import { useMyReputation } from '../lib/reputation/hooks';
 import { supabase } from '@/lib/supabase/client';
 import { invokeProtectedEdgeFunction } from '../lib/supabase/edgeAuth';
-import type { License, ProductWithRelations, Purchase } from '../lib/supabase/types';
+import type { Invoice, License, ProductWithRelations, Purchase } from '../lib/supabase/types';
 import { fetchPublicProducerProfilesMap, type PublicProducerProfileRow } from '../lib/supabase/publicProfiles';
 import { GENRE_SAFE_COLUMNS, MOOD_SAFE_COLUMNS, PRODUCT_SAFE_COLUMNS } from '../lib/supabase/selects';
 import { formatDate, formatPrice } from '../lib/utils/format';
@@ -17,6 +17,7 @@ import { Button } from '../components/ui/Button';
 import { Modal } from '../components/ui/Modal';
 import { ReputationBadge } from '../components/reputation/ReputationBadge';
 import { ProductCard } from '../components/products/ProductCard';
+import { LicenseUpgradeModal } from '../components/products/LicenseUpgradeModal';
 import { useWishlistStore } from '../lib/stores/wishlist';
 import { useCreditBalance } from '../lib/credits/useCreditBalance';
 import { useUserSubscriptionStatus } from '../lib/subscriptions/useUserSubscriptionStatus';
@@ -29,6 +30,13 @@ interface DashboardPurchase extends Purchase {
   license: License | null;
 }
 
+type SubscriptionInvoiceRow = Pick<
+  Invoice,
+  'id' | 'invoice_number' | 'description' | 'issued_at' | 'currency' | 'amount_cents'
+>;
+
+type PurchaseHistoryFormat = 'csv' | 'pdf';
+
 interface WishlistProductRow {
   product: ProductWithRelations | null;
 }
@@ -158,7 +166,7 @@ export function DashboardPage() {
   const { user, profile } = useAuth();
   const isProducerUser = isProducerSafe(profile);
   const { reputation } = useMyReputation();
-  const { t } = useTranslation();
+  const { t, language } = useTranslation();
   const navigate = useNavigate();
   const { fetchWishlist, toggleWishlist } = useWishlistStore();
   const [purchases, setPurchases] = useState<DashboardPurchase[]>([]);
@@ -167,11 +175,16 @@ export function DashboardPage() {
   const [recentWishlist, setRecentWishlist] = useState<ProductWithRelations[]>([]);
   const [isWishlistLoading, setIsWishlistLoading] = useState(false);
   const [selectedLicensePurchase, setSelectedLicensePurchase] = useState<DashboardPurchase | null>(null);
+  const [upgradingPurchase, setUpgradingPurchase] = useState<DashboardPurchase | null>(null);
   const [isPurchasesLoading, setIsPurchasesLoading] = useState(true);
   const [purchasesError, setPurchasesError] = useState<string | null>(null);
   const [producerSubscription, setProducerSubscription] = useState<ProducerSubscriptionSummary | null>(null);
   const [isProducerSubscriptionLoading, setIsProducerSubscriptionLoading] = useState(false);
   const [licenseDownloadingPurchaseId, setLicenseDownloadingPurchaseId] = useState<string | null>(null);
+  const [stemsDownloadingPurchaseId, setStemsDownloadingPurchaseId] = useState<string | null>(null);
+  const [invoiceDownloadingId, setInvoiceDownloadingId] = useState<string | null>(null);
+  const [subscriptionInvoices, setSubscriptionInvoices] = useState<SubscriptionInvoiceRow[]>([]);
+  const [exportingFormat, setExportingFormat] = useState<PurchaseHistoryFormat | null>(null);
   const { showUserPremiumCredits, showUserPremiumPlan } = useMaintenanceModeContext();
   const { balance: creditBalance, isLoading: isCreditBalanceLoading, error: creditBalanceError } = useCreditBalance(user?.id);
   const { subscription: userSubscription, isActive: hasActiveUserSubscription } = useUserSubscriptionStatus(user?.id);
@@ -215,6 +228,7 @@ export function DashboardPage() {
               music_video_allowed,
               credit_required,
               exclusive_allowed,
+              stems_included,
               price,
               created_at,
               updated_at
@@ -282,6 +296,40 @@ export function DashboardPage() {
     };
   }, [t, user?.id]);
 
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadSubscriptionInvoices = async () => {
+      if (!user?.id) {
+        setSubscriptionInvoices([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('id, invoice_number, description, issued_at, currency, amount_cents')
+        .eq('buyer_id', user.id)
+        .eq('kind', 'subscription')
+        .order('issued_at', { ascending: false })
+        .limit(24);
+
+      if (error) {
+        console.error('Error loading subscription invoices:', error);
+        return;
+      }
+
+      if (!isCancelled) {
+        setSubscriptionInvoices(data ?? []);
+      }
+    };
+
+    void loadSubscriptionInvoices();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [user?.id]);
+
   useEffect(() => {
     let isCancelled = false;
 
@@ -622,6 +670,50 @@ export function DashboardPage() {
     toast.error(t('dashboard.downloadError'));
   };
 
+  const handleStemsDownload = async (purchase: DashboardPurchase) => {
+    const productId = purchase.product_id || purchase.product?.id;
+
+    if (!productId) {
+      toast.error(t('dashboard.productUnavailableDownload'));
+      return;
+    }
+
+    setStemsDownloadingPurchaseId(purchase.id);
+
+    try {
+      const stemsData = await invokeProtectedEdgeFunction<{
+        files: { id: string; name: string; url: string }[];
+      }>('get-master-url', {
+        body: { product_id: productId, asset: 'stems' },
+      });
+
+      const files = stemsData?.files ?? [];
+      if (files.length === 0) {
+        toast.error(t('dashboard.stemsUnavailable'));
+        return;
+      }
+
+      for (const file of files) {
+        await forceFileDownload(file.url, file.name);
+      }
+      toast.success(t('dashboard.downloadStarted'));
+    } catch (error) {
+      console.error('Stems download error:', {
+        purchaseId: purchase.id,
+        productId,
+        error,
+      });
+      const message = error instanceof Error ? error.message : '';
+      toast.error(
+        message.includes('Stems unavailable')
+          ? t('dashboard.stemsUnavailable')
+          : t('dashboard.stemsDownloadError')
+      );
+    } finally {
+      setStemsDownloadingPurchaseId((current) => (current === purchase.id ? null : current));
+    }
+  };
+
   const handleLicenseDownload = async (purchase: DashboardPurchase) => {
     setLicenseDownloadingPurchaseId(purchase.id);
 
@@ -655,6 +747,61 @@ export function DashboardPage() {
     }
   };
 
+  // Purchases are invoiced on first download when the webhook has not already.
+  const handleInvoiceDownload = async (
+    downloadId: string,
+    body: { purchase_id: string } | { invoice_id: string },
+  ) => {
+    setInvoiceDownloadingId(downloadId);
+
+    try {
+      const invoiceData = await invokeProtectedEdgeFunction<{
+        url: string;
+        invoice_number: string;
+      }>('get-invoice-url', { body });
+
+      if (invoiceData?.url) {
+        window.open(invoiceData.url, '_blank');
+        return;
+      }
+
+      toast.error(t('dashboard.invoiceDownloadError'));
+    } catch (error) {
+      console.error('Invoice download error:', { downloadId, error });
+      toast.error(t('dashboard.invoiceDownloadError'));
+    } finally {
+      setInvoiceDownloadingId((current) => (current === downloadId ? null : current));
+    }
+  };
+
+  const handleHistoryExport = async (format: PurchaseHistoryFormat) => {
+    setExportingFormat(format);
+
+    try {
+      const file = await invokeProtectedEdgeFunction<Blob | string>('export-purchase-history', {
+        body: { format, language },
+      });
+      if (!file) throw new Error('Empty purchase history export');
+
+      const blob = file instanceof Blob
+        ? file
+        : new Blob([file], { type: 'text/csv;charset=utf-8' });
+      const blobUrl = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = blobUrl;
+      link.download = `purchase-history-${new Date().toISOString().slice(0, 10)}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(blobUrl);
+    } catch (error) {
+      console.error('Purchase history export error:', { format, error });
+      toast.error(t('dashboard.exportError'));
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   const selectedLicenseMetadata = (selectedLicensePurchase?.metadata as Record<string, unknown> | null) || null;
   const selectedLicense = selectedLicensePurchase?.license || null;
   const selectedLicenseName =
@@ -925,7 +1072,27 @@ export function DashboardPage() {
               <ShoppingBag className="w-5 h-5 text-rose-400" />
               {t('dashboard.purchasesTitle')}
             </h2>
-            <Badge className="bg-zinc-700">{purchases.length}</Badge>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => void handleHistoryExport('csv')}
+                isLoading={exportingFormat === 'csv'}
+                disabled={exportingFormat !== null}
+              >
+                {t('dashboard.exportCsv')}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => void handleHistoryExport('pdf')}
+                isLoading={exportingFormat === 'pdf'}
+                disabled={exportingFormat !== null}
+              >
+                {t('dashboard.exportPdf')}
+              </Button>
+              <Badge className="bg-zinc-700">{purchases.length}</Badge>
+            </div>
           </div>
 
           {isPurchasesLoading && (
@@ -946,11 +1113,16 @@ export function DashboardPage() {
                 const product = purchase.product;
                 const license = purchase.license;
                 const canDownload = Boolean(purchase.product_id);
+                const canDownloadStems = canDownload && Boolean(license?.stems_included || purchase.is_exclusive);
                 const licenseName = license?.name || purchase.license_type || t('dashboard.licenseFallback');
                 const licenseDescription =
                   license?.description ||
                   t('dashboard.licenseDescriptionFallback');
                 const canViewLicenseDetails = Boolean(license || purchase.license_type);
+                const isSuperseded = purchase.superseded_at !== null;
+                const isDisputed = purchase.disputed_at !== null;
+                const canUpgrade = !isSuperseded && !isDisputed && !purchase.is_exclusive && Boolean(product);
+                const canDownloadInvoice = purchase.purchase_source === 'stripe_checkout';
 
                 return (
                   <li
@@ -982,6 +1154,16 @@ export function DashboardPage() {
                             {licenseName}
                           </span>
                           <span>{purchase.is_exclusive ? t('dashboard.exclusiveType') : t('dashboard.standardType')}</span>
+                          {isSuperseded && (
+                            <span className="px-2 py-0.5 rounded-full bg-amber-500/15 text-amber-300">
+                              {t('dashboard.upgradedBadge')}
+                            </span>
+                          )}
+                          {isDisputed && (
+                            <span className="px-2 py-0.5 rounded-full bg-rose-500/15 text-rose-300">
+                              {t('dashboard.disputedBadge')}
+                            </span>
+                          )}
                         </div>
                         <p className="mt-1 text-xs text-zinc-500 line-clamp-2">
                           {licenseDescription}
@@ -1002,6 +1184,19 @@ export function DashboardPage() {
                           {t('dashboard.downloadAudio')}
                         </button>
                       )}
+                      {canDownloadStems && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            void handleStemsDownload(purchase);
+                          }}
+                          disabled={stemsDownloadingPurchaseId === purchase.id}
+                          className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg border border-zinc-700 text-zinc-200 hover:text-white hover:border-zinc-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          <Download className="w-4 h-4" />
+                          {t('dashboard.downloadStems')}
+                        </button>
+                      )}
                       <button
                         type="button"
                         onClick={() => {
@@ -1022,12 +1217,66 @@ export function DashboardPage() {
                         <FileText className="w-4 h-4" />
                         {t('dashboard.viewLicenseDetails')}
                       </button>
+                      {canDownloadInvoice && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            void handleInvoiceDownload(purchase.id, { purchase_id: purchase.id });
+                          }}
+                          disabled={invoiceDownloadingId === purchase.id}
+                          className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg border border-zinc-700 text-zinc-200 hover:text-white hover:border-zinc-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          <Receipt className="w-4 h-4" />
+                          {t('dashboard.downloadInvoice')}
+                        </button>
+                      )}
+                      {canUpgrade && (
+                        <button
+                          type="button"
+                          onClick={() => setUpgradingPurchase(purchase)}
+                          className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg border border-rose-500/40 text-rose-300 hover:text-rose-200 hover:border-rose-400 transition-colors"
+                        >
+                          <ArrowUpCircle className="w-4 h-4" />
+                          {t('dashboard.upgradeLicense')}
+                        </button>
+                      )}
                     </div>
                   </li>
                 );
               })}
             </ul>
           )}
+
+          {subscriptionInvoices.length > 0 && (
+            <div className="mt-6 border-t border-zinc-800 pt-4">
+              <h3 className="text-sm font-semibold text-zinc-300 mb-2">
+                {t('dashboard.subscriptionInvoicesTitle')}
+              </h3>
+              <ul className="divide-y divide-zinc-800">
+                {subscriptionInvoices.map((invoice) => (
+                  <li key={invoice.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+                    <span className="text-zinc-400 truncate">
+                      {invoice.invoice_number} · {invoice.description} · {formatDate(invoice.issued_at)}
+                    </span>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <span className="text-white">{formatPrice(invoice.amount_cents, invoice.currency)}</span>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          void handleInvoiceDownload(invoice.id, { invoice_id: invoice.id });
+                        }}
+                        disabled={invoiceDownloadingId === invoice.id}
+                        className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg border border-zinc-700 text-zinc-200 hover:text-white hover:border-zinc-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        <Receipt className="w-4 h-4" />
+                        {t('dashboard.downloadInvoice')}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </Card>
 
         <Card className="p-6 mt-6">
@@ -1140,6 +1389,8 @@ export function DashboardPage() {
             </div>
           )}
         </Modal>
+
+        <LicenseUpgradeModal purchase={upgradingPurchase} onClose={() => setUpgradingPurchase(null)} />
       </div>
     </div>
   );
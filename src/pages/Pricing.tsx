@@ -26,6 +26,7 @@ import toast from 'react-hot-toast';
 import { trackSubscriptionStart } from '../lib/analytics';
 import { formatDate, formatPrice } from '../lib/utils/format';
 import { useUserSubscriptionStatus } from '../lib/subscriptions/useUserSubscriptionStatus';
+import { getPromoCodeError, normalizePromoCode, PROMO_CODE_ERROR_KEYS } from '../lib/products/promoCodes';
 
 type ProducerTier = 'starter' | 'pro' | 'elite';
 type CheckoutTier = 'pro' | 'elite';
@@ -183,6 +184,7 @@ export function PricingPage() {
   const navigate = useNavigate();
   const [isPlanLoading, setIsPlanLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [producerPromoCode, setProducerPromoCode] = useState('');
   const [plans, setPlans] = useState<Record<ProducerTier, ProducerPlan>>({
     starter: { ...DEFAULT_PLANS.starter },
     pro: { ...DEFAULT_PLANS.pro },
@@ -398,6 +400,7 @@ export function PricingPage() {
 
       const checkoutPayload = {
         tier,
+        ...(producerPromoCode.trim() ? { promo_code: normalizePromoCode(producerPromoCode) } : {}),
         success_url: `${window.location.origin}/pricing?status=success`,
         cancel_url: `${window.location.origin}/pricing?status=cancel`,
       };
@@ -446,6 +449,10 @@ export function PricingPage() {
         if (normalizedRawError.includes('invalid_tier')) {
           throw new Error(t('pricing.invalidOffer'));
         }
+        const promoCodeError = getPromoCodeError(normalizedRawError);
+        if (promoCodeError) {
+          throw new Error(t(PROMO_CODE_ERROR_KEYS[promoCodeError]));
+        }
         throw invokeError;
       }
 
@@ -858,6 +865,18 @@ export function PricingPage() {
                   </div>
                 )}
 
+                {!hasActiveProducerSubscription && (
+                  <div className="mb-4">
+                    <Input
+                      label={t('checkout.promoCodeLabel')}
+                      placeholder={t('checkout.promoCodePlaceholder')}
+                      value={producerPromoCode}
+                      onChange={(event) => setProducerPromoCode(event.target.value)}
+                      disabled={isBlockedByUserSubscription || isPlanLoading || !isProCheckoutAvailable}
+                    />
+                  </div>
+                )}
+
                 <Button
                   className="mt-auto w-full"
                   variant="primary"
@@ -100,6 +100,7 @@ interface OfficialBattleCampaign {
   status: 'applications_open' | 'selection_locked' | 'launched' | 'cancelled';
   participation_deadline: string;
   submission_deadline: string;
+  campaign_kind: 'duel' | 'sample_flip';
   created_at: string;
 }
 
@@ -565,6 +566,7 @@ export function ProducerBattlesPage() {
           status,
           participation_deadline,
           submission_deadline,
+          campaign_kind,
           created_at
         `)
         .eq('status', 'applications_open')
@@ -987,6 +989,7 @@ export function ProducerBattlesPage() {
                   const alreadyAppliedStatus = myApplication?.status;
                   const hasAdminResubmissionRequest = Boolean(myApplication?.admin_feedback);
                   const sharePath = campaign.share_slug ? `/battle-campaign/${campaign.share_slug}` : null;
+                  const isSampleFlip = campaign.campaign_kind === 'sample_flip';
 
                   return (
                     <li key={campaign.id} className="border border-zinc-800 rounded-lg bg-zinc-900/50 p-4 space-y-3">
@@ -1006,7 +1009,9 @@ export function ProducerBattlesPage() {
                         <div className="flex-1 space-y-2">
                           <div className="flex items-center justify-between gap-2 flex-wrap">
                             <h3 className="text-white font-semibold">{campaign.title}</h3>
-                            {alreadyAppliedStatus ? (
+                            {isSampleFlip ? (
+                              <Badge variant="premium">Sample flip</Badge>
+                            ) : alreadyAppliedStatus ? (
                               <Badge variant="info">Applied: {alreadyAppliedStatus}</Badge>
                             ) : (
                               <Badge variant="warning">Open</Badge>
@@ -1015,7 +1020,9 @@ export function ProducerBattlesPage() {
                           {campaign.description && <p className="text-sm text-zinc-300">{campaign.description}</p>}
                           {campaign.social_description && <p className="text-xs text-zinc-500">{campaign.social_description}</p>}
                           <p className="text-xs text-zinc-500">
-                            Participation deadline: {formatDateTime(campaign.participation_deadline)} • Submission deadline: {formatDateTime(campaign.submission_deadline)}
+                            {isSampleFlip
+                              ? `Submission deadline: ${formatDateTime(campaign.submission_deadline)}`
+                              : `Participation deadline: ${formatDateTime(campaign.participation_deadline)} • Submission deadline: ${formatDateTime(campaign.submission_deadline)}`}
                           </p>
                           {hasAdminResubmissionRequest && (
                             <div className="rounded border border-amber-700/50 bg-amber-900/20 p-2 text-xs text-amber-200">
@@ -1030,51 +1037,63 @@ export function ProducerBattlesPage() {
                         </div>
                       </div>
 
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                        <div className="md:col-span-2">
-                          <label className="block text-xs text-zinc-400 mb-1">Message (optional)</label>
-                          <textarea
-                            value={officialMessagesByCampaign[campaign.id] || ''}
-                            onChange={(event) =>
-                              setOfficialMessagesByCampaign((prev) => ({
-                                ...prev,
-                                [campaign.id]: event.target.value,
-                              }))
-                            }
-                            className="w-full min-h-20 bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-white text-sm"
-                            placeholder="Tell the admin why you should be selected."
-                          />
-                        </div>
+                      {isSampleFlip ? (
+                        <p className="text-sm text-zinc-400">
+                          Download the source pack and submit a new flip from the{' '}
+                          {sharePath ? (
+                            <Link to={sharePath} className="text-sky-300 hover:text-sky-200">challenge page</Link>
+                          ) : 'challenge page'}
+                          .
+                        </p>
+                      ) : (
+                        <>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <div className="md:col-span-2">
+                              <label className="block text-xs text-zinc-400 mb-1">Message (optional)</label>
+                              <textarea
+                                value={officialMessagesByCampaign[campaign.id] || ''}
+                                onChange={(event) =>
+                                  setOfficialMessagesByCampaign((prev) => ({
+                                    ...prev,
+                                    [campaign.id]: event.target.value,
+                                  }))
+                                }
+                                className="w-full min-h-20 bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-white text-sm"
+                                placeholder="Tell the admin why you should be selected."
+                              />
+                            </div>
 
-                        <Select
-                          label="Proposed beat (optional)"
-                          value={officialProductByCampaign[campaign.id] || ''}
-                          onChange={(event) =>
-                            setOfficialProductByCampaign((prev) => ({
-                              ...prev,
-                              [campaign.id]: event.target.value,
-                            }))
-                          }
-                          options={[
-                            { value: '', label: 'No beat selected' },
-                            ...myProducts.map((product) => ({ value: product.id, label: product.title })),
-                          ]}
-                        />
-                      </div>
+                            <Select
+                              label="Proposed beat (optional)"
+                              value={officialProductByCampaign[campaign.id] || ''}
+                              onChange={(event) =>
+                                setOfficialProductByCampaign((prev) => ({
+                                  ...prev,
+                                  [campaign.id]: event.target.value,
+                                }))
+                              }
+                              options={[
+                                { value: '', label: 'No beat selected' },
+                                ...myProducts.map((product) => ({ value: product.id, label: product.title })),
+                              ]}
+                            />
+                          </div>
 
-                      <div className="flex justify-end">
-                        <Button
-                          size="sm"
-                          isLoading={applyingCampaignId === campaign.id}
-                          onClick={() => void applyToOfficialCampaign(campaign.id)}
-                        >
-                          {hasAdminResubmissionRequest
-                            ? 'Submit New Beat'
-                            : alreadyAppliedStatus
-                            ? 'Update Application'
-                            : 'Apply'}
-                        </Button>
-                      </div>
+                          <div className="flex justify-end">
+                            <Button
+                              size="sm"
+                              isLoading={applyingCampaignId === campaign.id}
+                              onClick={() => void applyToOfficialCampaign(campaign.id)}
+                            >
+                              {hasAdminResubmissionRequest
+                                ? 'Submit New Beat'
+                                : alreadyAppliedStatus
+                                ? 'Update Application'
+                                : 'Apply'}
+                            </Button>
+                          </div>
+                        </>
+                      )}
                     </li>
                   );
                 })}
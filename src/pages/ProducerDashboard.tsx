@@ -9,6 +9,7 @@ import { PRODUCT_SAFE_COLUMNS } from '../lib/supabase/selects';
 import type { Database, Product, ProducerTier } from '../lib/supabase/types';
 import { formatDate, formatPrice } from '../lib/utils/format';
 import { extractStoragePathFromCandidate } from '../lib/utils/storage';
+import { getAudioQualityReasonParams, getAudioQualityReasons } from '../lib/audio/quality';
 import { isProducerSafe, isStripeReady } from '../lib/auth/producer';
 import { PrivateAccessCard } from '../components/account/PrivateAccessCard';
 import { useTrialStatus } from '@/hooks/useTrialStatus';
@@ -227,7 +228,7 @@ export function ProducerDashboardPage() {
             .is('deleted_at', null),
           supabase
             .from('products')
-            .select(PRODUCT_SAFE_COLUMNS)
+            .select(`${PRODUCT_SAFE_COLUMNS}, audio_quality_status, audio_quality_report`)
             .eq('producer_id', profile.id)
             .is('deleted_at', null)
             .order('created_at', { ascending: false }),
@@ -1030,6 +1031,21 @@ export function ProducerDashboardPage() {
                         completedBattles: product.terminated_battle_count,
                       })}
                     </p>
+                    {product.audio_quality_status === 'failed' && (
+                      <div className="mt-2 flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/10 px-3 py-2 text-xs text-red-200">
+                        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                        <div>
+                          <p className="font-medium">{t('producerDashboard.qualityFailedTitle')}</p>
+                          <ul className="mt-1 list-disc pl-4 text-red-300">
+                            {getAudioQualityReasons(product.audio_quality_report).map((reason) => (
+                              <li key={reason.code}>
+                                {t(`producerDashboard.qualityReasons.${reason.code}`, getAudioQualityReasonParams(reason))}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      </div>
+                    )}
                   </div>
                   <div className="flex items-center gap-3 flex-wrap justify-end">
                     <span className="text-zinc-300 whitespace-nowrap">
@@ -186,6 +186,14 @@ export function ProducerEarnings() {
                             </td>
                             <td className="py-3 px-4 text-right text-white font-semibold">
                               {formatPrice(Math.round(row.amount_earned_eur * 100))}
+                              {row.presentment_currency !== 'EUR' && (
+                                <p className="text-xs font-normal text-zinc-500">
+                                  {t('producerEarnings.paidInCurrency', {
+                                    amount: formatPrice(Math.round(row.presentment_amount * 100), row.presentment_currency),
+                                    rate: row.fx_rate,
+                                  })}
+                                </p>
+                              )}
                             </td>
                             <td className="py-3 px-4 text-right">
                               <span className={`text-xs font-semibold px-2.5 py-1 rounded-full ${getPayoutStatusColor(row)}`}>
@@ -8,8 +8,9 @@ import { ReputationBadge, formatRankTier } from '../components/reputation/Reputa
 import { ExpandableText } from '../components/ui/ExpandableText';
 import { useTranslation } from '../lib/i18n';
 import { supabase } from '@/lib/supabase/client';
+import { isBlindVotingActive } from '../lib/battles/blind';
 import type { ProducerTier, ReputationRankTier } from '../lib/supabase/types';
-import { formatPrice } from '../lib/utils/format';
+import { useDisplayCurrency } from '../lib/stores/currency';
 
 interface PublicProducerProfile {
   user_id: string;
@@ -53,6 +54,7 @@ interface PublicProducerBattle {
   winner_id: string | null;
   producer1_id: string;
   producer2_id: string | null;
+  blind_voting: boolean;
   created_at: string;
 }
 
@@ -98,6 +100,7 @@ const getProducerTierLabel = (tier: ProducerTier | null, t: ReturnType<typeof us
 
 export function ProducerPublicProfilePage() {
   const { t } = useTranslation();
+  const { formatCatalogPrice } = useDisplayCurrency();
   const { playQueue, currentTrack, isPlaying } = useAudioPlayer();
   const { username } = useParams<{ username: string }>();
   const [producer, setProducer] = useState<PublicProducerProfile | null>(null);
@@ -306,7 +309,7 @@ export function ProducerPublicProfilePage() {
             .limit(12),
           supabase
             .from('battles')
-            .select('id, title, slug, status, winner_id, producer1_id, producer2_id, created_at')
+            .select('id, title, slug, status, winner_id, producer1_id, producer2_id, blind_voting, created_at')
             .or(`producer1_id.eq.${producerRow.user_id},producer2_id.eq.${producerRow.user_id}`)
             .in('status', ['active', 'voting', 'completed'])
             .order('created_at', { ascending: false })
@@ -386,7 +389,8 @@ export function ProducerPublicProfilePage() {
             setBattlesError(t('producerProfile.loadBattlesError'));
           }
         } else if (!isCancelled) {
-          setBattles((battlesResponse.data ?? []) as PublicProducerBattle[]);
+          // Listing a blind battle here would reveal who is behind one of its beats.
+          setBattles(((battlesResponse.data ?? []) as PublicProducerBattle[]).filter((battle) => !isBlindVotingActive(battle)));
         }
       } catch (e) {
         console.error('Error fetching producer public page:', e);
@@ -619,7 +623,7 @@ export function ProducerPublicProfilePage() {
                     <p className="text-[10px] text-zinc-400 mt-0.5">
                       {beat.bpm ? `${beat.bpm} ${t('products.bpm')}` : '—'} · {beat.key_signature || '—'}
                     </p>
-                    <p className="text-xs font-bold text-rose-300 mt-1">{formatPrice(beat.price || 0)}</p>
+                    <p className="text-xs font-bold text-rose-300 mt-1">{formatCatalogPrice(beat.price || 0)}</p>
                   </div>
                 </Link>
               ))}
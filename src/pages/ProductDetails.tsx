@@ -6,13 +6,16 @@ import { Button } from '../components/ui/Button';
 import { Modal } from '../components/ui/Modal';
 import { useAudioPlayer } from '../context/AudioPlayerContext';
 import { hasPlayableTrackSource, toTrack } from '../lib/audio/track';
-import { useTranslation, type TranslateFn } from '../lib/i18n';
+import { useTranslation, type TranslateFn, type TranslationKey } from '../lib/i18n';
 import { getLocalizedName } from '../lib/i18n/localized';
 import { fetchCatalogProductBySlug } from '../lib/supabase/catalog';
 import { canAccessEliteHub } from '../lib/auth/elite';
 import { fetchEliteProductBySlug } from '../lib/supabase/elite';
 import type { ProductWithRelations } from '../lib/supabase/types';
 import { formatPrice } from '../lib/utils/format';
+import { useDisplayCurrency } from '../lib/stores/currency';
+import { getDisplayPrice, getLicenseDisplayName, getProducerLicenseOffers } from '../lib/pricing';
+import { getLicenseTermRows, type LicenseTermRow } from '../lib/products/licenseTiers';
 import { useCartStore } from '../lib/stores/cart';
 import { useAuth } from '../lib/auth/hooks';
 import { supabase } from '@/lib/supabase/client';
@@ -45,6 +48,22 @@ const MAX_CREDIT_PURCHASE_PRICE_CENTS = MAX_CREDIT_CAP * CREDIT_VALUE_CENTS;
 const DEFAULT_OG_IMAGE =
   `${((import.meta.env.VITE_SITE_URL as string | undefined) || window.location.origin).replace(/\/+$/, '')}/og-default.jpg`;
 
+const LICENSE_TERM_LABEL_KEYS: Record<LicenseTermRow['key'], TranslationKey> = {
+  maxStreams: 'productDetails.licenseTermMaxStreams',
+  maxSales: 'productDetails.licenseTermMaxSales',
+  youtubeMonetization: 'productDetails.licenseTermYoutubeMonetization',
+  musicVideoAllowed: 'productDetails.licenseTermMusicVideoAllowed',
+  creditRequired: 'productDetails.licenseTermCreditRequired',
+  stemsIncluded: 'productDetails.licenseTermStemsIncluded',
+};
+
+const formatLicenseTermValue = (row: LicenseTermRow, t: TranslateFn, locale: string) => {
+  if (row.kind === 'limit') {
+    return row.value === null ? t('productDetails.licenseTermUnlimited') : row.value.toLocaleString(locale);
+  }
+  return row.value ? t('productDetails.licenseTermYes') : t('productDetails.licenseTermNo');
+};
+
 const mapCreditPurchaseError = (message: string, t: TranslateFn) => {
   if (message.includes('insufficient_credits')) return t('productDetails.creditPurchaseInsufficient');
   if (message.includes('Not enough credits')) return t('productDetails.creditPurchaseInsufficient');
@@ -63,6 +82,7 @@ const mapCreditPurchaseError = (message: string, t: TranslateFn) => {
 
 export function ProductDetailsPage() {
   const { t, language } = useTranslation();
+  const { formatCatalogPrice } = useDisplayCurrency();
   const { user, profile, isAuthenticated } = useAuth();
   const { isActive: hasPremiumAccess, subscription: userSubStatus } = useUserSubscriptionStatus(user?.id);
   const isUserPremium = hasPremiumAccess && userSubStatus?.plan_code === 'user_monthly';
@@ -81,6 +101,7 @@ export function ProductDetailsPage() {
   const [hasPurchasedProduct, setHasPurchasedProduct] = useState(false);
   const [isOwnershipLoading, setIsOwnershipLoading] = useState(false);
   const [isCreditConfirmOpen, setIsCreditConfirmOpen] = useState(false);
+  const [selectedLicenseId, setSelectedLicenseId] = useState<string | null>(null);
   const { balance: creditBalance, isLoading: isCreditBalanceLoading, error: creditBalanceError, refetch: refetchCreditBalance } =
     useCreditBalance(user?.id);
 
@@ -190,7 +211,12 @@ export function ProductDetailsPage() {
     };
   }, [product?.id, user?.id]);
 
-  const displayPrice = product?.price ?? 0;
+  const licenseOffers = useMemo(() => getProducerLicenseOffers(product), [product]);
+  const selectedLicense =
+    licenseOffers.find((offer) => offer.license_id === selectedLicenseId) ?? licenseOffers[0] ?? null;
+  const displayPrice = getDisplayPrice(product, selectedLicense);
+  // Credits always buy the product at its base price.
+  const creditPrice = product?.price ?? 0;
   const formattedCreditPriceCap = formatPrice(MAX_CREDIT_PURCHASE_PRICE_CENTS);
   const requiredCredits = useMemo(() => {
     if (!product) {
@@ -316,7 +342,7 @@ export function ProductDetailsPage() {
     !product.is_sold &&
     product.is_published &&
     product.status === 'active';
-  const isOverCreditPriceLimit = displayPrice > MAX_CREDIT_PURCHASE_PRICE_CENTS;
+  const isOverCreditPriceLimit = creditPrice > MAX_CREDIT_PURCHASE_PRICE_CENTS;
   const isCreditEligible =
     isUserPremium &&
     product?.product_type === 'beat' &&
@@ -372,7 +398,7 @@ export function ProductDetailsPage() {
 
     trackClickBuy({
       productId: product.id,
-      price: product.price / 100,
+      price: displayPrice / 100,
       productName: product.title,
     });
 
@@ -383,11 +409,11 @@ export function ProductDetailsPage() {
 
     setIsAddingToCart(true);
     try {
-      await addToCart(product.id);
+      await addToCart(product.id, selectedLicense);
       trackAddToCart({
         productId: product.id,
         productName: product.title,
-        price: product.price,
+        price: displayPrice,
       });
       if (product.product_type === 'beat') {
         void trackInteraction({
@@ -544,6 +570,49 @@ export function ProductDetailsPage() {
               {product.description || t('productDetails.noDescription')}
             </p>
 
+            {licenseOffers.length > 0 && (
+              <div className="mb-6">
+                <p className="mb-3 text-sm font-medium text-zinc-200">{t('productDetails.licenseTiersTitle')}</p>
+                <div className="space-y-2" role="radiogroup" aria-label={t('productDetails.licenseTiersTitle')}>
+                  {licenseOffers.map((offer) => {
+                    const isSelected = offer.license_id === selectedLicense?.license_id;
+                    return (
+                      <button
+                        key={offer.id}
+                        type="button"
+                        role="radio"
+                        aria-checked={isSelected}
+                        onClick={() => setSelectedLicenseId(offer.license_id)}
+                        className={`w-full rounded-xl border p-4 text-left transition-colors ${
+                          isSelected
+                            ? 'border-rose-500 bg-rose-500/10'
+                            : 'border-zinc-800 bg-zinc-900/70 hover:border-zinc-700'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-3">
+                          <span className="font-semibold text-white">{getLicenseDisplayName(offer)}</span>
+                          <span className="font-semibold text-white">{formatCatalogPrice(offer.price)}</span>
+                        </div>
+                        {offer.license?.description && (
+                          <p className="mt-1 text-xs text-zinc-400">{offer.license.description}</p>
+                        )}
+                        {isSelected && offer.license && (
+                          <dl className="mt-3 grid grid-cols-1 gap-x-4 gap-y-1 text-xs sm:grid-cols-2">
+                            {getLicenseTermRows(offer.license).map((row) => (
+                              <div key={row.key} className="flex justify-between gap-2">
+                                <dt className="text-zinc-500">{t(LICENSE_TERM_LABEL_KEYS[row.key])}</dt>
+                                <dd className="text-zinc-200">{formatLicenseTermValue(row, t, language)}</dd>
+                              </div>
+                            ))}
+                          </dl>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             <div className="flex items-center gap-3 mb-6">
               <button
                 onClick={handlePlay}
@@ -559,10 +628,10 @@ export function ProductDetailsPage() {
               </button>
 
               <div>
-                <span className="text-2xl font-bold text-white">{formatPrice(displayPrice)}</span>
+                <span className="text-2xl font-bold text-white">{formatCatalogPrice(displayPrice)}</span>
                 {isCreditEligible && (
                   <div className="mt-1 text-sm text-zinc-400">
-                    {formatPrice(displayPrice)} → {requiredCredits} {t('productDetails.creditsLabel')}
+                    {formatPrice(creditPrice)} → {requiredCredits} {t('productDetails.creditsLabel')}
                   </div>
                 )}
               </div>
@@ -660,7 +729,7 @@ export function ProductDetailsPage() {
                 {t('productDetails.creditValueHint', {
                   count: requiredCredits,
                   plural: requiredCredits > 1 ? 's' : '',
-                  price: formatPrice(displayPrice),
+                  price: formatPrice(creditPrice),
                 })}
               </p>
             )}
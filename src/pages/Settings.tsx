@@ -23,6 +23,10 @@ import { Modal } from '../components/ui/Modal';
 import { AlertTriangle, User, Lock, Globe, Save, Camera, Instagram, Youtube, Cloud, Music2, Disc3 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { PrivateAccessCard } from '../components/account/PrivateAccessCard';
+import { VoiceTagSettingsCard } from '../components/account/VoiceTagSettingsCard';
+import { LicenseTiersSettingsCard } from '../components/account/LicenseTiersSettingsCard';
+import { ProducerDealsSettingsCard } from '../components/account/ProducerDealsSettingsCard';
+import { PromoCodesSettingsCard } from '../components/account/PromoCodesSettingsCard';
 
 const AVATAR_BUCKET = import.meta.env.VITE_SUPABASE_AVATAR_BUCKET || 'avatars';
 const MAX_AVATAR_SIZE = 2 * 1024 * 1024; // 2 MB
@@ -510,6 +514,13 @@ export function SettingsPage() {
           <div className="space-y-6">
             <PrivateAccessCard profile={profile} />
 
+            <VoiceTagSettingsCard profile={profile} />
+
+            <LicenseTiersSettingsCard profile={profile} />
+
+            <ProducerDealsSettingsCard profile={profile} />
+            <PromoCodesSettingsCard profile={profile} />
+
             {hasActiveUserSubscription && (
               <Card className="p-6">
                 <div className="space-y-4">
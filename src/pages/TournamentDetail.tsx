@@ -0,0 +1,268 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Trophy } from 'lucide-react';
+import { Button } from '../components/ui/Button';
+import { Card } from '../components/ui/Card';
+import { LogoLoader } from '../components/ui/LogoLoader';
+import { useTranslation, type TranslateFn } from '../lib/i18n';
+import { supabase } from '@/lib/supabase/client';
+import { getTournamentRoundLabel, groupTournamentRounds } from '../lib/battles/tournaments';
+import { fetchPublicProducerProfilesMap } from '../lib/supabase/publicProfiles';
+import type {
+  BattleStatus,
+  Tournament,
+  TournamentBracket,
+  TournamentEntrant,
+  TournamentMatch,
+} from '../lib/supabase/types';
+import { formatDateTime } from '../lib/utils/format';
+
+interface MatchBattle {
+  id: string;
+  slug: string;
+  status: BattleStatus;
+  voting_ends_at: string | null;
+  votes_producer1: number;
+  votes_producer2: number;
+}
+
+interface BracketData {
+  tournament: Tournament;
+  entrantsById: Map<string, TournamentEntrant & { name: string }>;
+  matches: TournamentMatch[];
+  battlesById: Map<string, MatchBattle>;
+}
+
+const BRACKET_TITLE_KEYS = {
+  winners: 'tournaments.winnersBracket',
+  losers: 'tournaments.losersBracket',
+  grand_final: 'tournaments.grandFinal',
+} as const satisfies Record<TournamentBracket, string>;
+
+function toResolutionLabel(resolution: TournamentMatch['resolution'], t: TranslateFn) {
+  if (resolution === 'bye') return t('tournaments.resolutionBye');
+  if (resolution === 'disqualification') return t('tournaments.resolutionDisqualification');
+  if (resolution === 'tiebreak') return t('tournaments.resolutionTiebreak');
+  return null;
+}
+
+export function TournamentDetailPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const { t } = useTranslation();
+  const [data, setData] = useState<BracketData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchBracket() {
+      if (!slug) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      const { data: tournamentData, error: tournamentError } = await supabase
+        .from('tournaments')
+        .select('*')
+        .eq('slug', slug)
+        .maybeSingle();
+
+      if (cancelled) return;
+
+      if (tournamentError || !tournamentData) {
+        if (tournamentError) console.error('Error loading tournament:', tournamentError);
+        setError(t('tournaments.notFound'));
+        setData(null);
+        setIsLoading(false);
+        return;
+      }
+
+      const tournament = tournamentData as Tournament;
+      const [entrantsResult, matchesResult] = await Promise.all([
+        supabase.from('tournament_entrants').select('*').eq('tournament_id', tournament.id),
+        supabase.from('tournament_matches').select('*').eq('tournament_id', tournament.id),
+      ]);
+
+      if (cancelled) return;
+
+      if (entrantsResult.error || matchesResult.error) {
+        console.error('Error loading tournament bracket:', entrantsResult.error ?? matchesResult.error);
+        setError(t('tournaments.loadError'));
+        setIsLoading(false);
+        return;
+      }
+
+      const entrants = (entrantsResult.data ?? []) as TournamentEntrant[];
+      const matches = (matchesResult.data ?? []) as TournamentMatch[];
+      const battleIds = matches.flatMap((match) => (match.battle_id ? [match.battle_id] : []));
+
+      const [profilesById, battlesResult] = await Promise.all([
+        fetchPublicProducerProfilesMap(entrants.map((entrant) => entrant.producer_id)),
+        battleIds.length > 0
+          ? supabase
+            .from('battles')
+            .select('id, slug, status, voting_ends_at, votes_producer1, votes_producer2')
+            .in('id', battleIds)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (cancelled) return;
+
+      if (battlesResult.error) {
+        console.error('Error loading tournament battles:', battlesResult.error);
+      }
+
+      setData({
+        tournament,
+        entrantsById: new Map(entrants.map((entrant) => [
+          entrant.id,
+          { ...entrant, name: profilesById.get(entrant.producer_id)?.username ?? t('common.unknown') },
+        ])),
+        matches,
+        battlesById: new Map(((battlesResult.data ?? []) as MatchBattle[]).map((battle) => [battle.id, battle])),
+      });
+      setIsLoading(false);
+    }
+
+    void fetchBracket();
+
+    return () => { cancelled = true; };
+  }, [slug, t]);
+
+  const sections = useMemo(() => groupTournamentRounds(data?.matches ?? []), [data]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-zinc-950 flex items-center justify-center">
+        <LogoLoader label={t('common.loading')} />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-zinc-950 pt-10 pb-20">
+        <div className="max-w-3xl mx-auto px-4">
+          <Card className="space-y-3">
+            <p className="text-zinc-400">{error || t('tournaments.notFound')}</p>
+            <Link to="/tournaments">
+              <Button variant="outline">{t('tournaments.backToTournaments')}</Button>
+            </Link>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const { tournament, entrantsById, battlesById } = data;
+  const champion = [...entrantsById.values()].find((entrant) => entrant.status === 'champion');
+
+  const renderSlot = (match: TournamentMatch, entrantId: string | null, slotReady: boolean, votes: number | null) => {
+    const entrant = entrantId ? entrantsById.get(entrantId) : undefined;
+    const isWinner = match.status === 'completed' && entrantId !== null && match.winner_entrant_id === entrantId;
+
+    return (
+      <div
+        className={`flex items-center justify-between gap-2 px-3 py-2 text-sm ${
+          isWinner ? 'text-white font-semibold' : 'text-zinc-400'
+        }`}
+      >
+        <span className="truncate">
+          {entrant ? (
+            <>
+              <span className="text-zinc-500 mr-1">#{entrant.seed}</span>
+              {entrant.name}
+              {entrant.status === 'disqualified' && (
+                <span className="text-red-400 ml-1">({t('tournaments.disqualified')})</span>
+              )}
+            </>
+          ) : slotReady ? (
+            <span className="italic">{t('tournaments.bye')}</span>
+          ) : (
+            <span className="italic">{t('tournaments.tbd')}</span>
+          )}
+        </span>
+        {votes !== null && <span className="tabular-nums">{votes}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-950 pt-8 pb-32">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-2">{tournament.title}</h1>
+            <p className="text-zinc-400 text-sm">
+              {tournament.format === 'double_elimination' ? t('tournaments.formatDouble') : t('tournaments.formatSingle')}
+              {' · '}
+              {t('tournaments.entrantsCount', { count: entrantsById.size })}
+              {' · '}
+              {t('tournaments.roundDuration', { hours: tournament.round_duration_hours })}
+            </p>
+            {tournament.description && <p className="text-zinc-300 mt-2">{tournament.description}</p>}
+          </div>
+          <Link to="/tournaments">
+            <Button variant="outline">{t('tournaments.backToTournaments')}</Button>
+          </Link>
+        </div>
+
+        {champion && (
+          <Card className="flex items-center gap-3 border border-amber-700 bg-amber-900/20">
+            <Trophy className="w-6 h-6 text-amber-300" />
+            <p className="text-amber-200 font-semibold">{t('tournaments.champion', { name: champion.name })}</p>
+          </Card>
+        )}
+
+        {sections.map((section) => {
+          const roundCount = section.rounds.length;
+
+          return (
+            <Card key={section.bracket} className="space-y-4">
+              <h2 className="text-lg font-semibold text-white">{t(BRACKET_TITLE_KEYS[section.bracket])}</h2>
+              <div className="flex gap-4 overflow-x-auto pb-2">
+                {section.rounds.map((column) => (
+                  <div key={column.round} className="min-w-56 flex-1 space-y-3">
+                    <p className="text-xs uppercase tracking-wide text-zinc-500">
+                      {getTournamentRoundLabel(section.bracket, column.round, roundCount, t)}
+                    </p>
+                    <div className="flex flex-col justify-around gap-3 h-full">
+                      {column.matches.map((match) => {
+                        const battle = match.battle_id ? battlesById.get(match.battle_id) : undefined;
+                        const resolutionLabel = toResolutionLabel(match.resolution, t);
+
+                        return (
+                          <div key={match.id} className="rounded-lg border border-zinc-800 bg-zinc-900/60 divide-y divide-zinc-800">
+                            {renderSlot(match, match.entrant1_id, match.slot1_ready, battle ? battle.votes_producer1 : null)}
+                            {renderSlot(match, match.entrant2_id, match.slot2_ready, battle ? battle.votes_producer2 : null)}
+                            {(battle || resolutionLabel) && (
+                              <div className="flex items-center justify-between gap-2 px-3 py-2 text-xs text-zinc-500">
+                                {resolutionLabel && <span>{resolutionLabel}</span>}
+                                {battle && match.status === 'live' && battle.voting_ends_at && (
+                                  <span>{t('tournaments.votingEnds', { date: formatDateTime(battle.voting_ends_at) })}</span>
+                                )}
+                                {battle && (
+                                  <Link to={`/battles/${battle.slug}`} className="text-rose-400 hover:text-rose-300">
+                                    {t('tournaments.openBattle')}
+                                  </Link>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Trophy } from 'lucide-react';
+import { Badge } from '../components/ui/Badge';
+import { Button } from '../components/ui/Button';
+import { Card } from '../components/ui/Card';
+import { useTranslation } from '../lib/i18n';
+import { supabase } from '@/lib/supabase/client';
+import { fetchPublicProducerProfilesMap } from '../lib/supabase/publicProfiles';
+import type { Tournament } from '../lib/supabase/types';
+import { formatDate } from '../lib/utils/format';
+
+interface TournamentListRow extends Tournament {
+  entrantCount: number;
+  championName: string | null;
+}
+
+export function TournamentsPage() {
+  const { t } = useTranslation();
+  const [tournaments, setTournaments] = useState<TournamentListRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchTournaments() {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: tournamentsError } = await supabase
+        .from('tournaments')
+        .select('*')
+        .in('status', ['running', 'completed'])
+        .order('started_at', { ascending: false });
+
+      if (cancelled) return;
+
+      if (tournamentsError) {
+        console.error('Error loading tournaments:', tournamentsError);
+        setError(t('tournaments.loadError'));
+        setIsLoading(false);
+        return;
+      }
+
+      const rows = (data ?? []) as Tournament[];
+      const [entrantsResult, profilesById] = await Promise.all([
+        rows.length > 0
+          ? supabase.from('tournament_entrants').select('tournament_id').in('tournament_id', rows.map((row) => row.id))
+          : Promise.resolve({ data: [], error: null }),
+        fetchPublicProducerProfilesMap(rows.map((row) => row.winner_id)),
+      ]);
+
+      if (cancelled) return;
+
+      if (entrantsResult.error) {
+        console.error('Error loading tournament entrants:', entrantsResult.error);
+      }
+
+      const entrantCounts = new Map<string, number>();
+      for (const entrant of entrantsResult.data ?? []) {
+        entrantCounts.set(entrant.tournament_id, (entrantCounts.get(entrant.tournament_id) ?? 0) + 1);
+      }
+
+      setTournaments(rows.map((row) => ({
+        ...row,
+        entrantCount: entrantCounts.get(row.id) ?? 0,
+        championName: row.winner_id ? profilesById.get(row.winner_id)?.username ?? null : null,
+      })));
+      setIsLoading(false);
+    }
+
+    void fetchTournaments();
+
+    return () => { cancelled = true; };
+  }, [t]);
+
+  return (
+    <div className="min-h-screen bg-zinc-950 pt-8 pb-32">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8 flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-2">{t('tournaments.title')}</h1>
+            <p className="text-zinc-400">{t('tournaments.subtitle')}</p>
+          </div>
+          <Link to="/battles">
+            <Button variant="outline">{t('tournaments.backToBattles')}</Button>
+          </Link>
+        </div>
+
+        {error && (
+          <Card className="bg-red-900/20 border border-red-800 text-red-300 mb-6">
+            {error}
+          </Card>
+        )}
+
+        {isLoading ? (
+          <p className="text-zinc-400">{t('common.loading')}</p>
+        ) : tournaments.length === 0 ? (
+          <div className="text-center py-20">
+            <Trophy className="w-16 h-16 text-zinc-700 mx-auto mb-4" />
+            <p className="text-zinc-400 text-lg">{t('tournaments.empty')}</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {tournaments.map((tournament) => (
+              <Card key={tournament.id} className="space-y-3">
+                <div className="flex items-start justify-between gap-3 flex-wrap">
+                  <div>
+                    <h2 className="text-xl font-semibold text-white">{tournament.title}</h2>
+                    <p className="text-sm text-zinc-400">
+                      {tournament.format === 'double_elimination'
+                        ? t('tournaments.formatDouble')
+                        : t('tournaments.formatSingle')}
+                      {' · '}
+                      {t('tournaments.entrantsCount', { count: tournament.entrantCount })}
+                      {tournament.started_at && (
+                        <>
+                          {' · '}
+                          {t('tournaments.startedAt', { date: formatDate(tournament.started_at) })}
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  <Badge variant={tournament.status === 'running' ? 'info' : 'success'}>
+                    {tournament.status === 'running' ? t('tournaments.statusRunning') : t('tournaments.statusCompleted')}
+                  </Badge>
+                </div>
+                {tournament.description && <p className="text-zinc-300 text-sm">{tournament.description}</p>}
+                {tournament.championName && (
+                  <p className="text-amber-300 text-sm flex items-center gap-2">
+                    <Trophy className="w-4 h-4" />
+                    {t('tournaments.champion', { name: tournament.championName })}
+                  </p>
+                )}
+                <Link to={`/tournaments/${tournament.slug}`}>
+                  <Button size="sm">{t('tournaments.viewBracket')}</Button>
+                </Link>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
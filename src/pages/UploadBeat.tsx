@@ -10,13 +10,17 @@ import {
   ShieldAlert,
   Pause,
   Play,
+  Layers,
+  Trash2,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { trackUploadBeat } from '../lib/analytics';
 import { useAudioPlayer } from '../context/AudioPlayerContext';
 import { useTranslation, type TranslateFn } from '../lib/i18n';
 import { useAuth, usePermissions } from '../lib/auth/hooks';
+import { useDetectedAudioAnalysis } from '../hooks/useDetectedAudioAnalysis';
 import { FoundingTrialExpiredPaywall } from '../components/producers/FoundingTrialExpiredPaywall';
+import { ProductLicenseTiersCard } from '../components/products/ProductLicenseTiersCard';
 import { supabase } from '@/lib/supabase/client';
 import type { Database } from '../lib/supabase/types';
 import { Button } from '../components/ui/Button';
@@ -26,6 +30,13 @@ import { Badge } from '../components/ui/Badge';
 import { slugify } from '../lib/utils/format';
 import { normalizeStoragePath } from '../lib/utils/storage';
 import { getLocalizedName } from '../lib/i18n/localized';
+import { compareBpm, compareKey, type DetectionStatus } from '../lib/audio/detection';
+import {
+  isDeliverableStemStatus,
+  selectStemFiles,
+  type StemSelection,
+  type StemValidationStatus,
+} from '../lib/audio/stems';
 import type { Genre, Mood } from '../lib/supabase/types';
 
 type UploadPhase = 'idle' | 'uploading' | 'success' | 'error';
@@ -51,6 +62,10 @@ interface VersionSourceRow {
   license_terms: Database['public']['Tables']['products']['Row']['license_terms'];
   is_exclusive: boolean;
   watermarked_bucket: string | null;
+  detected_bpm: number | null;
+  detected_bpm_confidence: number | null;
+  detected_key_signature: string | null;
+  detected_key_confidence: number | null;
 }
 
 interface EditProductRow {
@@ -67,6 +82,35 @@ interface EditProductRow {
   mood_id: string | null;
   tags: string[] | null;
   is_exclusive: boolean;
+  detected_bpm: number | null;
+  detected_bpm_confidence: number | null;
+  detected_key_signature: string | null;
+  detected_key_confidence: number | null;
+}
+
+type StemFileRow = Pick<
+  Database['public']['Tables']['product_files']['Row'],
+  | 'id'
+  | 'file_name'
+  | 'file_url'
+  | 'file_kind'
+  | 'validation_status'
+  | 'validation_error'
+  | 'duration_delta_seconds'
+  | 'is_silent'
+  | 'stem_count'
+>;
+
+type AudioAnalysisFields = Pick<
+  EditProductRow,
+  'detected_bpm' | 'detected_bpm_confidence' | 'detected_key_signature' | 'detected_key_confidence'
+>;
+
+interface AnalyzedUpload {
+  productId: string;
+  title: string;
+  bpm: string;
+  keySignature: string;
 }
 
 interface EditPermissions {
@@ -306,6 +350,54 @@ async function uploadBeatProduct({
   };
 }
 
+interface UploadStemFilesParams {
+  producerId: string;
+  productId: string;
+  bucket: string;
+  selections: StemSelection[];
+}
+
+// Stems go next to the master under <producer>/<product>/stems/; inserting
+// the product_files rows queues the worker validation.
+async function uploadStemFiles({
+  producerId,
+  productId,
+  bucket,
+  selections,
+}: UploadStemFilesParams) {
+  const timestamp = Date.now();
+
+  for (const [index, selection] of selections.entries()) {
+    const stemPath = `${producerId}/${productId}/stems/${timestamp}-${index}-${sanitizeStorageFilename(selection.file.name)}`;
+    const { data: uploadData, error: uploadError } = await supabase.storage
+      .from(bucket)
+      .upload(stemPath, selection.file, {
+        cacheControl: '3600',
+        upsert: false,
+      });
+
+    if (uploadError) {
+      throw uploadError;
+    }
+
+    const normalizedStemPath = normalizeStoragePath(uploadData?.path || stemPath, bucket);
+    const { error: insertError } = await supabase.from('product_files').insert({
+      product_id: productId,
+      file_name: selection.file.name,
+      file_url: normalizedStemPath || stemPath,
+      file_size: selection.file.size,
+      file_type: selection.file.type || null,
+      file_kind: selection.kind,
+      sort_order: index,
+    });
+
+    if (insertError) {
+      await supabase.storage.from(bucket).remove([stemPath]);
+      throw insertError;
+    }
+  }
+}
+
 async function enqueuePreviewGeneration(productId: string) {
   const { data, error } = await supabase.rpc('enqueue_audio_processing_job', {
     p_product_id: productId,
@@ -333,11 +425,17 @@ export function UploadBeatPage() {
   const [searchParams] = useSearchParams();
   const audioInputRef = useRef<HTMLInputElement>(null);
   const imageInputRef = useRef<HTMLInputElement>(null);
+  const stemsInputRef = useRef<HTMLInputElement>(null);
 
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [audioPreviewUrl, setAudioPreviewUrl] = useState<string | null>(null);
   const [audioDuration, setAudioDuration] = useState(0);
 
+  const [stemSelections, setStemSelections] = useState<StemSelection[]>([]);
+  const [stemsError, setStemsError] = useState<string | null>(null);
+  const [existingStems, setExistingStems] = useState<StemFileRow[]>([]);
+  const [removingStemId, setRemovingStemId] = useState<string | null>(null);
+
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null);
 
@@ -362,6 +460,8 @@ export function UploadBeatPage() {
   const [moods, setMoods] = useState<Mood[]>([]);
   const tagInputRef = useRef<HTMLInputElement>(null);
   const [isWatermarkProcessing, setIsWatermarkProcessing] = useState(false);
+  const [analyzedUpload, setAnalyzedUpload] = useState<AnalyzedUpload | null>(null);
+  const uploadAnalysis = useDetectedAudioAnalysis(analyzedUpload?.productId ?? null);
   const [versionSource, setVersionSource] = useState<VersionSourceRow | null>(null);
   const [isVersionSourceLoading, setIsVersionSourceLoading] = useState(false);
   const [editingProduct, setEditingProduct] = useState<EditProductRow | null>(null);
@@ -424,7 +524,7 @@ export function UploadBeatPage() {
         const { data, error } = await supabase
           .from('products')
           .select(
-            'id, parent_product_id, version_number, title, description, price, bpm, key_signature, cover_image_url, genre_id, mood_id, tags, duration_seconds, file_format, license_terms, is_exclusive, watermarked_bucket'
+            'id, parent_product_id, version_number, title, description, price, bpm, key_signature, cover_image_url, genre_id, mood_id, tags, duration_seconds, file_format, license_terms, is_exclusive, watermarked_bucket, detected_bpm, detected_bpm_confidence, detected_key_signature, detected_key_confidence'
           )
           .eq('id', cloneFrom)
           .eq('producer_id', profile.id)
@@ -494,7 +594,7 @@ export function UploadBeatPage() {
         const [{ data: productData, error: productError }, { data: editabilityData, error: editabilityError }] = await Promise.all([
           supabase
             .from('products')
-            .select('id, title, description, price, bpm, key_signature, cover_image_url, is_published, file_format, genre_id, mood_id, tags, is_exclusive')
+            .select('id, title, description, price, bpm, key_signature, cover_image_url, is_published, file_format, genre_id, mood_id, tags, is_exclusive, detected_bpm, detected_bpm_confidence, detected_key_signature, detected_key_confidence')
             .eq('id', editProductId)
             .eq('producer_id', profile.id)
             .maybeSingle(),
@@ -557,6 +657,39 @@ export function UploadBeatPage() {
     };
   }, [editProductId, profile?.id, t]);
 
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadExistingStems = async () => {
+      if (!editingProduct?.id) {
+        setExistingStems([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('product_files')
+        .select('id, file_name, file_url, file_kind, validation_status, validation_error, duration_delta_seconds, is_silent, stem_count')
+        .eq('product_id', editingProduct.id)
+        .in('file_kind', ['stem', 'stem_archive'])
+        .order('created_at', { ascending: true });
+
+      if (isCancelled) return;
+      if (error) {
+        console.error('[upload-beat] failed to load stems', error);
+        setExistingStems([]);
+        return;
+      }
+
+      setExistingStems((data as StemFileRow[] | null) ?? []);
+    };
+
+    void loadExistingStems();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [editingProduct?.id]);
+
   // can_access_producer_features couvre Stripe actif ET founding trial actif (calculé en DB)
   const isProducerActive = profile?.can_access_producer_features ?? false;
   const hasValidationErrors = !!errors.audio || !!errors.image;
@@ -574,6 +707,27 @@ export function UploadBeatPage() {
     (isVersionMode && !versionSource) ||
     (isEditMode && (!editingProduct || !editPermissions || !editPermissions.can_edit_metadata));
 
+  // Detected values describe the stored master: hide them once a replacement file is picked.
+  const audioAnalysis: AudioAnalysisFields | null = audioFile ? null : editingProduct ?? versionSource;
+  const bpmDetectionStatus = compareBpm(
+    bpm,
+    audioAnalysis?.detected_bpm,
+    audioAnalysis?.detected_bpm_confidence,
+  );
+  const keyDetectionStatus = compareKey(
+    keySignature,
+    audioAnalysis?.detected_key_signature,
+    audioAnalysis?.detected_key_confidence,
+  );
+  // New uploads reset the form before the worker analyses the master: the
+  // detected values are compared with what was published once they land.
+  const uploadBpmStatus = analyzedUpload && uploadAnalysis
+    ? compareBpm(analyzedUpload.bpm, uploadAnalysis.detected_bpm, uploadAnalysis.detected_bpm_confidence)
+    : 'none';
+  const uploadKeyStatus = analyzedUpload && uploadAnalysis
+    ? compareKey(analyzedUpload.keySignature, uploadAnalysis.detected_key_signature, uploadAnalysis.detected_key_confidence)
+    : 'none';
+
   const resetAudio = () => {
     revokeObjectUrl(audioPreviewUrl);
     setAudioFile(null);
@@ -591,6 +745,11 @@ export function UploadBeatPage() {
     setUploadStatus((prev) => ({ ...prev, image: 'idle' }));
   };
 
+  const resetStems = () => {
+    setStemSelections([]);
+    setStemsError(null);
+  };
+
   const formatBytes = (bytes: number) => {
     if (!bytes) return '0 o';
     const sizes = ['o', 'Ko', 'Mo', 'Go'];
@@ -727,6 +886,86 @@ export function UploadBeatPage() {
     }
   };
 
+  const handleStemsChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    const { selections, error } = selectStemFiles([...stemSelections.map((selection) => selection.file), ...files]);
+    if (error) {
+      setStemsError(
+        error === 'count'
+          ? t('uploadBeat.stemsTooMany')
+          : error === 'size'
+            ? t('uploadBeat.stemsSizeError')
+            : t('uploadBeat.stemsFormatError')
+      );
+      return;
+    }
+
+    setStemSelections(selections);
+    setStemsError(null);
+  };
+
+  const handleRemoveStemSelection = (index: number) => {
+    setStemSelections((prev) => prev.filter((_, selectionIndex) => selectionIndex !== index));
+  };
+
+  const handleDeleteExistingStem = async (stem: StemFileRow) => {
+    setRemovingStemId(stem.id);
+    try {
+      const { error: deleteError } = await supabase.from('product_files').delete().eq('id', stem.id);
+      if (deleteError) throw deleteError;
+
+      const { error: removeError } = await supabase.storage.from(MASTER_BUCKET).remove([stem.file_url]);
+      if (removeError) {
+        console.warn('[upload-beat] stem cleanup warning', removeError);
+      }
+
+      setExistingStems((prev) => prev.filter((row) => row.id !== stem.id));
+    } catch (error) {
+      console.error('[upload-beat] failed to delete stem', error);
+      toast.error(getErrorMessage(error, t('uploadBeat.removeStemError')));
+    } finally {
+      setRemovingStemId(null);
+    }
+  };
+
+  const renderStemStatusBadge = (status: string) => {
+    const stemStatus: StemValidationStatus =
+      status === 'valid' || status === 'warning' || status === 'invalid' ? status : 'pending';
+    const variant = stemStatus === 'valid'
+      ? 'success'
+      : stemStatus === 'invalid'
+        ? 'danger'
+        : stemStatus === 'warning'
+          ? 'warning'
+          : 'default';
+
+    return (
+      <Badge variant={variant} size="sm" className="text-xs">
+        {t(`uploadBeat.stemStatus.${stemStatus}`)}
+      </Badge>
+    );
+  };
+
+  const describeStemIssues = (stem: StemFileRow) => {
+    const issues: string[] = [];
+    if (stem.file_kind === 'stem_archive' && stem.stem_count !== null) {
+      issues.push(t('uploadBeat.stemCount', { count: stem.stem_count }));
+    }
+    if (stem.is_silent) {
+      issues.push(t('uploadBeat.stemSilent'));
+    }
+    if (stem.duration_delta_seconds !== null && stem.validation_status === 'warning') {
+      issues.push(t('uploadBeat.stemDurationDelta', { seconds: Math.abs(stem.duration_delta_seconds).toFixed(1) }));
+    }
+    if (stem.validation_status === 'invalid') {
+      issues.push(t('uploadBeat.stemInvalid'));
+    }
+    return issues.join(' · ');
+  };
+
   const isUploadPreviewActive = currentTrack?.id === 'upload-audio-preview' && isPlaying;
 
   const handlePlayUploadPreview = () => {
@@ -847,6 +1086,7 @@ export function UploadBeatPage() {
     });
     setUploadProgress({ audio: 0, image: 0 });
     setIsWatermarkProcessing(false);
+    setAnalyzedUpload(null);
 
     const timestamp = Date.now();
     const slug = `${slugify(trimmedTitle)}-${timestamp}`;
@@ -856,6 +1096,7 @@ export function UploadBeatPage() {
     let persistedVersion = false;
     let updatedExistingProduct = false;
     let queuedPreview = false;
+    let stemsProductId: string | null = null;
 
     try {
       const { data: authData, error: authError } = await supabase.auth.getUser();
@@ -956,6 +1197,7 @@ export function UploadBeatPage() {
         const versionProductId = getReturnedProductId(versionData);
         if (versionProductId) {
           queuedPreview = await enqueuePreviewGeneration(versionProductId);
+          stemsProductId = versionProductId;
         }
 
         persistedVersion = true;
@@ -994,6 +1236,7 @@ export function UploadBeatPage() {
         if (masterStorageReference) {
           queuedPreview = await enqueuePreviewGeneration(editingProduct.id);
         }
+        stemsProductId = editingProduct.id;
 
         updatedExistingProduct = true;
       } else {
@@ -1010,10 +1253,29 @@ export function UploadBeatPage() {
         });
         masterStorageReference = created.masterPath;
         queuedPreview = await enqueuePreviewGeneration(created.product.id);
+        stemsProductId = created.product.id;
+        setAnalyzedUpload({ productId: created.product.id, title: trimmedTitle, bpm, keySignature });
         setUploadStatus((prev) => ({ ...prev, audio: 'success' }));
         setUploadProgress((prev) => ({ ...prev, audio: 100 }));
       }
 
+      if (stemsProductId && stemSelections.length > 0) {
+        // The beat is already live at this point: a failed stem upload is
+        // reported but does not roll it back.
+        try {
+          await uploadStemFiles({
+            producerId,
+            productId: stemsProductId,
+            bucket: MASTER_BUCKET,
+            selections: stemSelections,
+          });
+          toast.success(t('uploadBeat.stemsUploaded'));
+        } catch (stemsUploadError) {
+          console.error('[upload-beat] stems upload failed', stemsUploadError);
+          toast.error(t('uploadBeat.stemsUploadError'));
+        }
+      }
+
       setIsWatermarkProcessing(Boolean(queuedPreview || versionSource || audioFile));
       toast.success(
         versionSource
@@ -1042,6 +1304,7 @@ export function UploadBeatPage() {
       setIsExclusive(false);
       resetAudio();
       resetImage();
+      resetStems();
       setVersionSource(null);
       setEditingProduct(null);
       setEditPermissions(null);
@@ -1050,7 +1313,10 @@ export function UploadBeatPage() {
         navigate('/producer');
       }
     } catch (error) {
-      const errorMessage = getErrorMessage(error, t('uploadBeat.uploadError'));
+      const rawErrorMessage = getErrorMessage(error, t('uploadBeat.uploadError'));
+      const errorMessage = rawErrorMessage === 'audio_quality_failed'
+        ? t('uploadBeat.audioQualityFailed')
+        : rawErrorMessage;
       console.error('[upload-beat] upload failed', error);
       if (audioPath) {
         const { error: cleanupAudioError } = await supabase.storage.from(MASTER_BUCKET).remove([audioPath]);
@@ -1107,6 +1373,71 @@ export function UploadBeatPage() {
     );
   };
 
+  const renderUploadAnalysisLine = (
+    status: DetectionStatus,
+    detectedValue: string,
+    confidence: number | null | undefined,
+  ) => {
+    if (status === 'none') return null;
+    if (status === 'match') {
+      return <p className="text-xs text-emerald-400">{t('uploadBeat.detectedMatch')}: {detectedValue}</p>;
+    }
+
+    const params = { value: detectedValue, confidence: Math.round((confidence ?? 0) * 100) };
+    return (
+      <p className={`text-xs ${status === 'mismatch' ? 'text-amber-300' : 'text-zinc-400'}`}>
+        {status === 'mismatch'
+          ? t('uploadBeat.detectedMismatch', params)
+          : t('uploadBeat.detectedSuggestion', params)}
+      </p>
+    );
+  };
+
+  const renderDetectionHint = (
+    status: DetectionStatus,
+    detectedValue: string,
+    confidence: number | null | undefined,
+    onApply: () => void,
+  ) => {
+    if (status === 'none') {
+      return null;
+    }
+
+    if (status === 'match') {
+      return (
+        <p className="mt-1 flex items-center gap-1 text-xs text-emerald-400">
+          <CheckCircle2 className="w-3.5 h-3.5" />
+          {t('uploadBeat.detectedMatch')}
+        </p>
+      );
+    }
+
+    const params = { value: detectedValue, confidence: Math.round((confidence ?? 0) * 100) };
+
+    return (
+      <div
+        className={`mt-1 flex items-start justify-between gap-2 text-xs ${
+          status === 'mismatch' ? 'text-amber-300' : 'text-zinc-400'
+        }`}
+      >
+        <span className="flex items-start gap-1">
+          {status === 'mismatch' && <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />}
+          {status === 'mismatch'
+            ? t('uploadBeat.detectedMismatch', params)
+            : t('uploadBeat.detectedSuggestion', params)}
+        </span>
+        <button
+          type="button"
+          onClick={onApply}
+          disabled={isUploading || isMetadataLocked}
+          className="shrink-0 font-medium text-rose-400 hover:text-rose-300 disabled:opacity-50"
+        >
+          {t('uploadBeat.applyDetected')}
+        </button>
+      </div>
+    );
+  };
+
   // Founding trial expiré : afficher le paywall (la lecture reste accessible)
   if (foundingTrialExpired) {
     return <FoundingTrialExpiredPaywall />;
@@ -1259,22 +1590,38 @@ export function UploadBeatPage() {
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <Input
-              label={t('producer.productBpm')}
-              type="number"
-              placeholder={t('uploadBeat.bpmPlaceholder')}
-              min="0"
-              value={bpm}
-              onChange={(e) => setBpm(e.target.value)}
-              disabled={isUploading || isMetadataLocked}
-            />
-            <Input
-              label={t('products.key')}
-              placeholder={t('uploadBeat.keyPlaceholder')}
-              value={keySignature}
-              onChange={(e) => setKeySignature(e.target.value)}
-              disabled={isUploading || isMetadataLocked}
-            />
+            <div>
+              <Input
+                label={t('producer.productBpm')}
+                type="number"
+                placeholder={t('uploadBeat.bpmPlaceholder')}
+                min="0"
+                value={bpm}
+                onChange={(e) => setBpm(e.target.value)}
+                disabled={isUploading || isMetadataLocked}
+              />
+              {renderDetectionHint(
+                bpmDetectionStatus,
+                `${Math.round(audioAnalysis?.detected_bpm ?? 0)} BPM`,
+                audioAnalysis?.detected_bpm_confidence,
+                () => setBpm(String(Math.round(audioAnalysis?.detected_bpm ?? 0))),
+              )}
+            </div>
+            <div>
+              <Input
+                label={t('products.key')}
+                placeholder={t('uploadBeat.keyPlaceholder')}
+                value={keySignature}
+                onChange={(e) => setKeySignature(e.target.value)}
+                disabled={isUploading || isMetadataLocked}
+              />
+              {renderDetectionHint(
+                keyDetectionStatus,
+                audioAnalysis?.detected_key_signature ?? '',
+                audioAnalysis?.detected_key_confidence,
+                () => setKeySignature(audioAnalysis?.detected_key_signature ?? ''),
+              )}
+            </div>
           </div>
 
           <div className="space-y-3">
@@ -1491,6 +1838,114 @@ export function UploadBeatPage() {
             </div>
           </div>
 
+          <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-4 space-y-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-sky-500/10 text-sky-300">
+                <Layers className="w-5 h-5" />
+              </div>
+              <div>
+                <p className="text-sm font-semibold text-zinc-200">
+                  {t('uploadBeat.stemsTitle')}
+                </p>
+                <p className="text-xs text-zinc-500">
+                  {t('uploadBeat.stemsHint')}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <input
+                ref={stemsInputRef}
+                type="file"
+                accept=".zip,.wav,application/zip,audio/wav"
+                multiple
+                className="hidden"
+                onChange={handleStemsChange}
+                disabled={isUploading || isMetadataLocked}
+              />
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => stemsInputRef.current?.click()}
+                disabled={isUploading || isMetadataLocked}
+                leftIcon={<UploadCloud className="w-4 h-4" />}
+              >
+                {t('uploadBeat.chooseStems')}
+              </Button>
+            </div>
+
+            {stemSelections.length > 0 && (
+              <ul className="bg-zinc-950/60 border border-zinc-800 rounded-lg divide-y divide-zinc-800">
+                {stemSelections.map((selection, index) => (
+                  <li
+                    key={`${selection.file.name}-${index}`}
+                    className="flex items-center justify-between gap-3 px-3 py-2 text-sm text-zinc-200"
+                  >
+                    <span className="truncate">{selection.file.name}</span>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <span className="text-xs text-zinc-500">{formatBytes(selection.file.size)}</span>
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveStemSelection(index)}
+                        disabled={isUploading}
+                        className="text-zinc-500 hover:text-red-400 disabled:opacity-50"
+                        aria-label={t('uploadBeat.removeStem')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {existingStems.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs font-medium uppercase tracking-wide text-zinc-500">
+                  {t('uploadBeat.existingStems')}
+                </p>
+                <ul className="bg-zinc-950/60 border border-zinc-800 rounded-lg divide-y divide-zinc-800">
+                  {existingStems.map((stem) => {
+                    const issues = describeStemIssues(stem);
+                    return (
+                      <li key={stem.id} className="flex items-start justify-between gap-3 px-3 py-2 text-sm">
+                        <div className="min-w-0">
+                          <p className="truncate text-zinc-200">{stem.file_name}</p>
+                          {issues && (
+                            <p
+                              className={`text-xs ${isDeliverableStemStatus(stem.validation_status) ? 'text-zinc-500' : 'text-red-400'}`}
+                            >
+                              {issues}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {renderStemStatusBadge(stem.validation_status)}
+                          <button
+                            type="button"
+                            onClick={() => void handleDeleteExistingStem(stem)}
+                            disabled={isUploading || isMetadataLocked || removingStemId === stem.id}
+                            className="text-zinc-500 hover:text-red-400 disabled:opacity-50"
+                            aria-label={t('uploadBeat.removeStem')}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            {stemsError && (
+              <p className="text-sm text-red-400 flex items-center gap-1">
+                <AlertCircle className="w-4 h-4" />
+                {stemsError}
+              </p>
+            )}
+          </div>
+
           {errors.form && (
             <div className="flex items-start gap-2 rounded-lg border border-red-800/60 bg-red-900/10 px-3 py-2 text-sm text-red-200">
               <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
@@ -1510,6 +1965,33 @@ export function UploadBeatPage() {
             </div>
           )}
 
+          {analyzedUpload && uploadAnalysis && (uploadBpmStatus !== 'none' || uploadKeyStatus !== 'none') && (
+            <div className="rounded-lg border border-zinc-800 bg-zinc-950/60 px-3 py-2 text-sm text-zinc-300 space-y-1">
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-medium text-zinc-200">
+                  {t('uploadBeat.analysisReady', { title: analyzedUpload.title })}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => navigate(`/producer/upload?editProductId=${encodeURIComponent(analyzedUpload.productId)}`)}
+                  className="shrink-0 text-xs font-medium text-rose-400 hover:text-rose-300"
+                >
+                  {t('uploadBeat.reviewDetected')}
+                </button>
+              </div>
+              {renderUploadAnalysisLine(
+                uploadBpmStatus,
+                `${Math.round(uploadAnalysis.detected_bpm ?? 0)} BPM`,
+                uploadAnalysis.detected_bpm_confidence,
+              )}
+              {renderUploadAnalysisLine(
+                uploadKeyStatus,
+                uploadAnalysis.detected_key_signature ?? '',
+                uploadAnalysis.detected_key_confidence,
+              )}
+            </div>
+          )}
+
           <div className="flex flex-wrap items-center justify-between gap-3">
             <div className="flex items-center gap-2 text-sm text-zinc-500">
               {!isProducerActive && (
@@ -1537,6 +2019,13 @@ export function UploadBeatPage() {
             </div>
           </div>
         </div>
+
+        {isEditMode && editingProduct && profile?.id && (
+          <ProductLicenseTiersCard
+            product={{ id: editingProduct.id, producer_id: profile.id, is_exclusive: editingProduct.is_exclusive }}
+            disabled={isUploading || isMetadataLocked}
+          />
+        )}
       </div>
     </div>
   );
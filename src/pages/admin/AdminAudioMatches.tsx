@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Button } from '../../components/ui/Button';
+import { Card } from '../../components/ui/Card';
+import { Input } from '../../components/ui/Input';
+import { useTranslation } from '../../lib/i18n';
+import { supabase } from '@/lib/supabase/client';
+import type { Database } from '../../lib/supabase/database.types';
+import { formatDateTime } from '../../lib/utils/format';
+
+type AudioMatchRow = Database['public']['Functions']['rpc_admin_get_audio_fingerprint_matches']['Returns'][number];
+type AudioMatchStatusFilter = 'pending' | 'dismissed' | 'confirmed' | 'all';
+type AudioMatchDecision = 'dismissed' | 'confirmed';
+
+const STATUS_FILTERS: AudioMatchStatusFilter[] = ['pending', 'confirmed', 'dismissed', 'all'];
+
+export function AdminAudioMatchesPage() {
+  const { t } = useTranslation();
+  const [rows, setRows] = useState<AudioMatchRow[]>([]);
+  const [statusFilter, setStatusFilter] = useState<AudioMatchStatusFilter>('pending');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [reviewingMatchId, setReviewingMatchId] = useState<string | null>(null);
+
+  const loadRows = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase.rpc('rpc_admin_get_audio_fingerprint_matches', {
+      p_status: statusFilter === 'all' ? undefined : statusFilter,
+      p_limit: 100,
+    });
+
+    if (error) {
+      console.error('Error loading audio fingerprint matches:', error);
+      toast.error(t('admin.audioMatches.loadError'));
+      setRows([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setRows(data ?? []);
+    setIsLoading(false);
+  }, [statusFilter, t]);
+
+  useEffect(() => {
+    void loadRows();
+  }, [loadRows]);
+
+  const reviewMatch = async (row: AudioMatchRow, decision: AudioMatchDecision) => {
+    setReviewingMatchId(row.match_id);
+    const { error } = await supabase.rpc('admin_review_audio_fingerprint_match', {
+      p_match_id: row.match_id,
+      p_decision: decision,
+      p_note: notes[row.match_id]?.trim() || undefined,
+    });
+
+    if (error) {
+      console.error('Error reviewing audio fingerprint match:', error);
+      toast.error(t('admin.audioMatches.reviewError'));
+      setReviewingMatchId(null);
+      return;
+    }
+
+    toast.success(
+      decision === 'confirmed'
+        ? t('admin.audioMatches.confirmSuccess')
+        : t('admin.audioMatches.dismissSuccess'),
+    );
+    await loadRows();
+    setReviewingMatchId(null);
+  };
+
+  const renderBeat = (
+    label: string,
+    title: string | null,
+    producer: string | null,
+    createdAt: string | null,
+    previewUrl: string | null,
+  ) => (
+    <div className="space-y-2 rounded-lg border border-zinc-800 bg-zinc-900/60 p-3">
+      <p className="text-xs uppercase tracking-[0.14em] text-zinc-500">{label}</p>
+      <p className="font-medium text-white">{title || t('admin.audioMatches.untitled')}</p>
+      <p className="text-sm text-zinc-400">
+        {t('admin.audioMatches.byProducer', { producer: producer || t('admin.audioMatches.unknownProducer') })}
+      </p>
+      {createdAt && (
+        <p className="text-xs text-zinc-500">
+          {t('admin.audioMatches.uploadedAt', { date: formatDateTime(createdAt) })}
+        </p>
+      )}
+      {previewUrl ? (
+        <audio controls preload="none" src={previewUrl} className="w-full" />
+      ) : (
+        <p className="text-xs text-zinc-500">{t('admin.audioMatches.noPreview')}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-5">
+        <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-white">{t('admin.audioMatches.title')}</h2>
+            <p className="text-sm text-zinc-400">{t('admin.audioMatches.subtitle')}</p>
+          </div>
+          <Button variant="outline" onClick={() => void loadRows()}>
+            {t('common.refresh')}
+          </Button>
+        </div>
+        <div className="mt-4 flex flex-wrap gap-2">
+          {STATUS_FILTERS.map((filter) => (
+            <Button
+              key={filter}
+              size="sm"
+              variant={statusFilter === filter ? 'primary' : 'outline'}
+              onClick={() => setStatusFilter(filter)}
+            >
+              {t(`admin.audioMatches.filters.${filter}`)}
+            </Button>
+          ))}
+        </div>
+      </Card>
+
+      <Card className="p-5">
+        {isLoading ? (
+          <p className="text-zinc-400">{t('common.loading')}</p>
+        ) : rows.length === 0 ? (
+          <p className="text-zinc-500">{t('admin.audioMatches.empty')}</p>
+        ) : (
+          <div className="space-y-3">
+            {rows.map((row) => (
+              <div key={row.match_id} className="rounded-lg border border-zinc-800 bg-zinc-950/50 p-4 space-y-3">
+                <div className="flex flex-col gap-1 md:flex-row md:items-center md:justify-between">
+                  <p className="font-semibold text-white">
+                    {t('admin.audioMatches.similarity', { value: Math.round(row.similarity * 100) })}
+                  </p>
+                  <p className="text-xs text-zinc-500">
+                    {t('admin.audioMatches.alignment', {
+                      overlap: Math.round(row.overlap_sec),
+                      offset: row.offset_sec.toFixed(1),
+                    })}
+                    {' • '}
+                    {t('admin.audioMatches.detectedAt', { date: formatDateTime(row.created_at) })}
+                  </p>
+                </div>
+
+                <div className="grid gap-3 md:grid-cols-2">
+                  {renderBeat(
+                    t('admin.audioMatches.uploadedBeat'),
+                    row.product_title,
+                    row.producer_username,
+                    row.product_created_at,
+                    row.product_preview_url,
+                  )}
+                  {renderBeat(
+                    t('admin.audioMatches.existingBeat'),
+                    row.matched_product_title,
+                    row.matched_producer_username,
+                    row.matched_product_created_at,
+                    row.matched_product_preview_url,
+                  )}
+                </div>
+
+                {row.status === 'pending' ? (
+                  <div className="flex flex-col gap-3 md:flex-row md:items-end">
+                    <div className="flex-1">
+                      <Input
+                        label={t('admin.audioMatches.noteLabel')}
+                        value={notes[row.match_id] ?? ''}
+                        onChange={(event) =>
+                          setNotes((prev) => ({ ...prev, [row.match_id]: event.target.value }))
+                        }
+                        placeholder={t('admin.audioMatches.notePlaceholder')}
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        disabled={reviewingMatchId !== null}
+                        isLoading={reviewingMatchId === row.match_id}
+                        onClick={() => void reviewMatch(row, 'dismissed')}
+                      >
+                        {t('admin.audioMatches.dismiss')}
+                      </Button>
+                      <Button
+                        variant="danger"
+                        disabled={reviewingMatchId !== null}
+                        onClick={() => void reviewMatch(row, 'confirmed')}
+                      >
+                        {t('admin.audioMatches.confirm')}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-zinc-400">
+                    {t(`admin.audioMatches.reviewed.${row.status === 'confirmed' ? 'confirmed' : 'dismissed'}`, {
+                      date: row.reviewed_at ? formatDateTime(row.reviewed_at) : '-',
+                    })}
+                    {row.review_note ? ` — ${row.review_note}` : ''}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
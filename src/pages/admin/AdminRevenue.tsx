@@ -1,6 +1,8 @@
 import { useEffect, useMemo, useState } from 'react';
 import toast from 'react-hot-toast';
+import { PromoCodesSettingsCard } from '../../components/account/PromoCodesSettingsCard';
 import { Card } from '../../components/ui/Card';
+import { useAuth } from '../../lib/auth/hooks';
 import { useTranslation } from '../../lib/i18n';
 import { supabase } from '../../lib/supabase/client';
 import { formatDateTime, formatPrice } from '../../lib/utils/format';
@@ -15,13 +17,25 @@ interface RevenueRow {
   title: string;
   buyer_email: string;
   producer_email: string;
+  promo_code: string | null;
+}
+
+interface PromoCodeUsageRow {
+  id: string;
+  code: string;
+  producer_email: string | null;
+  redemption_count: number;
+  discount_eur: number;
+  archived_at: string | null;
 }
 
 const adminDb = supabase as any;
 
 export function AdminRevenuePage() {
   const { t } = useTranslation();
+  const { profile } = useAuth();
   const [rows, setRows] = useState<RevenueRow[]>([]);
+  const [promoUsage, setPromoUsage] = useState<PromoCodeUsageRow[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -31,14 +45,22 @@ export function AdminRevenuePage() {
       try {
         setIsLoading(true);
 
-        const { data, error } = await adminDb
-          .from('admin_revenue_breakdown')
-          .select('*')
-          .order('created_at', { ascending: false });
+        const [revenueResult, promoUsageResult] = await Promise.all([
+          adminDb
+            .from('admin_revenue_breakdown')
+            .select('*')
+            .order('created_at', { ascending: false }),
+          adminDb
+            .from('admin_promo_code_usage')
+            .select('id, code, producer_email, redemption_count, discount_eur, archived_at')
+            .order('redemption_count', { ascending: false }),
+        ]);
 
-        if (error) throw error;
+        if (revenueResult.error) throw revenueResult.error;
+        if (promoUsageResult.error) throw promoUsageResult.error;
         if (!isCancelled) {
-          setRows((data as RevenueRow[] | null) ?? []);
+          setRows((revenueResult.data as RevenueRow[] | null) ?? []);
+          setPromoUsage((promoUsageResult.data as PromoCodeUsageRow[] | null) ?? []);
         }
       } catch (error) {
         console.error('Failed to load admin revenue breakdown', error);
@@ -113,18 +135,19 @@ export function AdminRevenuePage() {
                 <th className="px-5 py-3 text-right text-xs font-semibold uppercase tracking-[0.12em] text-zinc-500">{t('admin.revenue.producerShare')}</th>
                 <th className="px-5 py-3 text-right text-xs font-semibold uppercase tracking-[0.12em] text-zinc-500">{t('admin.revenue.platformShare')}</th>
                 <th className="px-5 py-3 text-left text-xs font-semibold uppercase tracking-[0.12em] text-zinc-500">{t('admin.revenue.type')}</th>
+                <th className="px-5 py-3 text-left text-xs font-semibold uppercase tracking-[0.12em] text-zinc-500">{t('admin.revenue.promoCode')}</th>
               </tr>
             </thead>
             <tbody>
               {isLoading ? (
                 <tr>
-                  <td colSpan={8} className="px-5 py-10 text-center text-sm text-zinc-500">
+                  <td colSpan={9} className="px-5 py-10 text-center text-sm text-zinc-500">
                     {t('common.loading')}
                   </td>
                 </tr>
               ) : rows.length === 0 ? (
                 <tr>
-                  <td colSpan={8} className="px-5 py-10 text-center text-sm text-zinc-500">
+                  <td colSpan={9} className="px-5 py-10 text-center text-sm text-zinc-500">
                     {t('admin.revenue.empty')}
                   </td>
                 </tr>
@@ -151,12 +174,52 @@ export function AdminRevenuePage() {
                         : t('admin.revenue.typeCash')}
                     </span>
                   </td>
+                  <td className="px-5 py-4 font-mono text-sm text-zinc-300">{row.promo_code ?? '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Card className="overflow-hidden border-zinc-800">
+        <div className="border-b border-zinc-800 px-5 py-4">
+          <h2 className="text-lg font-semibold text-white">{t('admin.revenue.promoUsageTitle')}</h2>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[640px]">
+            <thead>
+              <tr className="border-b border-zinc-800 bg-zinc-900/50">
+                <th className="px-5 py-3 text-left text-xs font-semibold uppercase tracking-[0.12em] text-zinc-500">{t('admin.revenue.promoCode')}</th>
+                <th className="px-5 py-3 text-left text-xs font-semibold uppercase tracking-[0.12em] text-zinc-500">{t('admin.revenue.promoOwner')}</th>
+                <th className="px-5 py-3 text-right text-xs font-semibold uppercase tracking-[0.12em] text-zinc-500">{t('admin.revenue.promoRedemptions')}</th>
+                <th className="px-5 py-3 text-right text-xs font-semibold uppercase tracking-[0.12em] text-zinc-500">{t('admin.revenue.promoDiscount')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {!isLoading && promoUsage.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-5 py-10 text-center text-sm text-zinc-500">
+                    {t('admin.revenue.promoUsageEmpty')}
+                  </td>
+                </tr>
+              ) : promoUsage.map((row) => (
+                <tr key={row.id} className="border-b border-zinc-800/80 hover:bg-zinc-900/30">
+                  <td className={`px-5 py-4 font-mono text-sm ${row.archived_at ? 'text-zinc-500 line-through' : 'text-white'}`}>
+                    {row.code}
+                  </td>
+                  <td className="px-5 py-4 text-sm text-zinc-300">{row.producer_email ?? t('admin.revenue.promoPlatform')}</td>
+                  <td className="px-5 py-4 text-right text-sm text-zinc-300">{row.redemption_count}</td>
+                  <td className="px-5 py-4 text-right text-sm text-white">{formatEuros(row.discount_eur)}</td>
                 </tr>
               ))}
             </tbody>
           </table>
         </div>
       </Card>
+
+      <PromoCodesSettingsCard profile={profile} mode="admin" />
     </div>
   );
 }
@@ -0,0 +1,157 @@
+// Producer deals and promo codes as create-checkout prices them. Mirrors
+// src/lib/products/deals.ts, which shows the same discounts in the cart;
+// tests/unit/checkoutDeals.test.ts keeps the two in step.
+
+// Stripe refuses euro payments under 50 cents.
+export const MIN_CHECKOUT_AMOUNT = 50;
+
+export interface DealCartItem {
+  productId: string;
+  producerId: string;
+  amount: number;
+  isExclusive: boolean;
+}
+
+export interface ProducerDealRow {
+  id: string;
+  producer_id: string;
+  title: string;
+  deal_type: "buy_x_get_y" | "bundle";
+  buy_quantity: number | null;
+  free_quantity: number | null;
+  bundle_price: number | null;
+  product_ids: string[];
+}
+
+export interface PromoCodeRow {
+  id: string;
+  code: string;
+  discount_type: "percent" | "fixed";
+  discount_value: number;
+  scope: "product" | "producer" | "all_beats" | "plan";
+  product_id: string | null;
+  scope_producer_id: string | null;
+}
+
+const sumDealItems = (items: DealCartItem[]) => items.reduce((total, item) => total + item.amount, 0);
+
+const sumShares = (shares: Record<string, number>) =>
+  Object.values(shares).reduce((total, share) => total + share, 0);
+
+// Splits a deal discount over its items by price; every item keeps one cent.
+export const allocateDealDiscount = (items: DealCartItem[], discount: number): Record<string, number> => {
+  const total = sumDealItems(items);
+  const shares = items.map((item) => Math.floor((discount * item.amount) / total));
+  let remainder = discount - shares.reduce((acc, share) => acc + share, 0);
+  const fraction = (index: number) => (discount * items[index]!.amount) % total;
+  const order = items
+    .map((_, index) => index)
+    .sort((left, right) => fraction(right) - fraction(left) || items[right]!.amount - items[left]!.amount);
+
+  while (remainder > 0) {
+    let progressed = false;
+    for (const index of order) {
+      if (remainder === 0) break;
+      if (items[index]!.amount - shares[index]! > 1) {
+        shares[index] = shares[index]! + 1;
+        remainder -= 1;
+        progressed = true;
+      }
+    }
+    if (!progressed) break;
+  }
+
+  return Object.fromEntries(items.map((item, index) => [item.productId, shares[index]!]));
+};
+
+// Bundles first, biggest saving first, then the best buy X get Y deal of
+// each producer. The totals are what the items actually carry: a bundle
+// priced under one cent per beat cannot hand out its whole discount.
+export const evaluateProducerDeals = (items: DealCartItem[], deals: ProducerDealRow[]) => {
+  const eligible = items.filter((item) => !item.isExclusive && item.amount > 0);
+  const claimed = new Set<string>();
+  const itemDeals = new Map<string, { deal: ProducerDealRow; discount: number }>();
+  let discountTotal = 0;
+
+  const apply = (deal: ProducerDealRow, members: DealCartItem[], discount: number) => {
+    const shares = allocateDealDiscount(members, discount);
+    for (const member of members) {
+      claimed.add(member.productId);
+      itemDeals.set(member.productId, { deal, discount: shares[member.productId] ?? 0 });
+    }
+    discountTotal += sumShares(shares);
+  };
+
+  const bundles = deals
+    .filter((deal) => deal.deal_type === "bundle" && deal.bundle_price !== null && deal.product_ids.length >= 2)
+    .map((deal) => {
+      const members = deal.product_ids
+        .map((productId) => eligible.find((item) => item.productId === productId && item.producerId === deal.producer_id))
+        .filter((item): item is DealCartItem => item !== undefined);
+      const isComplete = members.length === deal.product_ids.length;
+      return { deal, members, discount: isComplete ? sumDealItems(members) - (deal.bundle_price ?? 0) : 0 };
+    })
+    .filter((candidate) => candidate.discount > 0)
+    .sort((left, right) => right.discount - left.discount || left.deal.id.localeCompare(right.deal.id));
+
+  for (const candidate of bundles) {
+    if (candidate.members.some((member) => claimed.has(member.productId))) continue;
+    apply(candidate.deal, candidate.members, candidate.discount);
+  }
+
+  for (const producerId of new Set(eligible.map((item) => item.producerId))) {
+    const pool = eligible.filter((item) => item.producerId === producerId && !claimed.has(item.productId));
+    let best: { deal: ProducerDealRow; members: DealCartItem[]; discount: number } | null = null;
+
+    for (const deal of deals) {
+      if (deal.deal_type !== "buy_x_get_y" || deal.producer_id !== producerId) continue;
+      if (!deal.buy_quantity || !deal.free_quantity) continue;
+
+      const groupSize = deal.buy_quantity + deal.free_quantity;
+      const sorted = (deal.product_ids.length > 0 ? pool.filter((item) => deal.product_ids.includes(item.productId)) : pool)
+        .slice()
+        .sort((left, right) => right.amount - left.amount || left.productId.localeCompare(right.productId));
+      const members = sorted.slice(0, Math.floor(sorted.length / groupSize) * groupSize);
+      let discount = 0;
+      for (let start = 0; start < members.length; start += groupSize) {
+        discount += sumDealItems(members.slice(start + deal.buy_quantity, start + groupSize));
+      }
+
+      if (discount > 0 && (!best || discount > best.discount || (discount === best.discount && deal.id < best.deal.id))) {
+        best = { deal, members, discount };
+      }
+    }
+
+    if (best) {
+      apply(best.deal, best.members, best.discount);
+    }
+  }
+
+  return { itemDeals, discountTotal };
+};
+
+// Applied to the amounts left after deals, never under MIN_CHECKOUT_AMOUNT
+// for the cart.
+export const evaluatePromoCode = (
+  items: DealCartItem[],
+  promo: Pick<PromoCodeRow, "discount_type" | "discount_value" | "scope" | "product_id" | "scope_producer_id">,
+) => {
+  const covered = items.filter((item) => {
+    if (item.amount <= 0) return false;
+    if (promo.scope === "product") return item.productId === promo.product_id;
+    if (promo.scope === "producer") return item.producerId === promo.scope_producer_id;
+    return promo.scope === "all_beats";
+  });
+
+  const requested = promo.discount_type === "percent"
+    ? Math.floor((sumDealItems(covered) * promo.discount_value) / 100)
+    : promo.discount_value;
+  const discount = Math.min(requested, sumDealItems(items) - MIN_CHECKOUT_AMOUNT);
+
+  if (covered.length === 0 || discount <= 0) {
+    return { itemDiscounts: {} as Record<string, number>, discountTotal: 0 };
+  }
+
+  const itemDiscounts = allocateDealDiscount(covered, discount);
+  return { itemDiscounts, discountTotal: sumShares(itemDiscounts) };
+};
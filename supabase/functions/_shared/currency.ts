@@ -0,0 +1,25 @@
+// Presentment currencies as create-checkout and stripe-webhook charge them.
+// Mirrors src/lib/utils/currency.ts; tests/unit/currency.test.ts keeps the
+// two in step.
+
+// Prices, payouts and commissions are stored in euro cents.
+export const BASE_CURRENCY = "EUR";
+
+// Two-decimal currencies only: amounts are always handled in cents, and a
+// zero-decimal currency such as JPY would be charged a hundred times over.
+// Matches the exchange_rates_shape_check constraint.
+export const PRESENTMENT_CURRENCIES = ["EUR", "USD", "GBP", "CHF", "CAD"] as const;
+
+export type PresentmentCurrencyCode = typeof PRESENTMENT_CURRENCIES[number];
+
+export const isPresentmentCurrency = (value: unknown): value is PresentmentCurrencyCode =>
+  typeof value === "string" && (PRESENTMENT_CURRENCIES as readonly string[]).includes(value);
+
+// Every line is converted on its own; stripe-webhook checks the total the
+// same way.
+export const toPresentmentAmount = (cents: number, presentment: { currency: string; rate: number }) => {
+  if (!isPresentmentCurrency(presentment.currency)) {
+    throw new Error(`Unsupported presentment currency: ${presentment.currency}`);
+  }
+  return Math.round(cents * presentment.rate);
+};
@@ -3,6 +3,9 @@ export type EmailTemplate =
   | "welcome_user"
   | "producer_activation"
   | "purchase_receipt"
+  | "purchase_refunded"
+  | "sale_refunded"
+  | "sale_disputed"
   | "license_ready"
   | "battle_won"
   | "battle_invitation"
@@ -23,6 +26,9 @@ export const UNIQUE_EMAIL_TEMPLATES = new Set<EmailTemplate>([
 
 export const REPEATABLE_EMAIL_TEMPLATES = new Set<EmailTemplate>([
   "purchase_receipt",
+  "purchase_refunded",
+  "sale_refunded",
+  "sale_disputed",
   "license_ready",
   "battle_won",
   "battle_invitation",
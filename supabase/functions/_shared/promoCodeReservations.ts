@@ -0,0 +1,101 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+export type PromoCodeReservation = {
+  id: string;
+  reserved_until: string;
+};
+
+// A buyer holds one reservation per code: the checkout sessions of earlier
+// reservations are expired so they cannot be paid with the code as well.
+async function expireSupersededSessions(
+  supabaseAdmin: SupabaseAdmin,
+  stripeSecretKey: string,
+  params: { promoCodeId: string; userId: string },
+) {
+  const { data, error } = await supabaseAdmin
+    .from("promo_code_reservations")
+    .select("checkout_session_id")
+    .eq("promo_code_id", params.promoCodeId)
+    .eq("user_id", params.userId)
+    .not("checkout_session_id", "is", null);
+
+  if (error) {
+    throw new Error(`Failed to load promo code reservations: ${error.message}`);
+  }
+
+  for (const row of (data ?? []) as Array<{ checkout_session_id: string }>) {
+    const response = await fetch(
+      `https://api.stripe.com/v1/checkout/sessions/${encodeURIComponent(row.checkout_session_id)}/expire`,
+      { method: "POST", headers: { Authorization: `Bearer ${stripeSecretKey}` } },
+    );
+    if (!response.ok) {
+      // Already paid or expired: nothing left to cancel.
+      console.warn("[promo-code] Superseded checkout session not expired", {
+        sessionId: row.checkout_session_id,
+        status: response.status,
+      });
+    }
+  }
+}
+
+/**
+ * Holds the code for a checkout about to be created. reserve_promo_code
+ * re-checks the limits under a lock on the code, so its promo_code_* errors
+ * are the ones check_promo_code raises.
+ */
+export async function reservePromoCode(
+  supabaseAdmin: SupabaseAdmin,
+  stripeSecretKey: string,
+  params: { promoCodeId: string; userId: string; context: "marketplace" | "plan" },
+) {
+  await expireSupersededSessions(supabaseAdmin, stripeSecretKey, params);
+
+  const { data, error } = await supabaseAdmin.rpc("reserve_promo_code", {
+    p_promo_code_id: params.promoCodeId,
+    p_user_id: params.userId,
+    p_context: params.context,
+  });
+
+  return { reservation: (data as PromoCodeReservation | null) ?? null, error };
+}
+
+// The Stripe session must not outlive the reservation it was priced with.
+export const toSessionExpiresAt = (reservation: PromoCodeReservation) =>
+  Math.floor(Date.parse(reservation.reserved_until) / 1000).toString();
+
+export async function bindPromoCodeReservation(
+  supabaseAdmin: SupabaseAdmin,
+  reservationId: string,
+  sessionId: string,
+) {
+  const { error } = await supabaseAdmin
+    .from("promo_code_reservations")
+    .update({ checkout_session_id: sessionId })
+    .eq("id", reservationId);
+
+  if (error) {
+    // The reservation still counts until it runs out.
+    console.error("[promo-code] Failed to bind promo code reservation", {
+      reservationId,
+      sessionId,
+      message: error.message,
+    });
+  }
+}
+
+export async function releasePromoCodeReservation(supabaseAdmin: SupabaseAdmin, reservationId: string) {
+  const { error } = await supabaseAdmin
+    .from("promo_code_reservations")
+    .delete()
+    .eq("id", reservationId);
+
+  if (error) {
+    console.error("[promo-code] Failed to release promo code reservation", {
+      reservationId,
+      message: error.message,
+    });
+  }
+}
@@ -0,0 +1,116 @@
+// Pure rules behind stripe-webhook's refund and dispute handling, kept free
+// of Deno and Stripe imports so tests/unit can run them under node:test.
+
+export type ReversiblePurchase = {
+  id: string;
+  status: string;
+  /** Euro cents. */
+  amount: number;
+  /** What the line was charged in the checkout currency; NULL for euro purchases. */
+  presentment_amount: number | null;
+  presentment_currency: string;
+  /** Units of presentment_currency per euro. */
+  fx_rate: number | string;
+  /** Euro cents. */
+  producer_share_cents_snapshot: number | null;
+};
+
+export type DisputeTransition = "reverse" | "open" | "close";
+
+// Carts are capped well below this; past it the subset search is not worth running.
+const MAX_MATCHED_PURCHASES = 12;
+
+export const chargedAmount = (purchase: ReversiblePurchase) =>
+  purchase.presentment_amount ?? purchase.amount;
+
+/**
+ * Purchases a charge.refunded event newly covers. A full refund covers every
+ * completed purchase; a partial one covers the smallest set of completed
+ * lines whose charged amounts add up exactly to what was refunded since the
+ * last reversal (Stripe reports a cumulative amount_refunded). A refund that
+ * matches no set of lines is a commercial gesture and covers nothing.
+ */
+export function selectRefundedPurchases(
+  purchases: ReversiblePurchase[],
+  amountRefunded: number,
+  fullyRefunded: boolean,
+): ReversiblePurchase[] {
+  const completed = purchases.filter((purchase) => purchase.status === "completed");
+  if (fullyRefunded) return completed;
+
+  const alreadyRefunded = purchases
+    .filter((purchase) => purchase.status === "refunded")
+    .reduce((sum, purchase) => sum + chargedAmount(purchase), 0);
+  const newlyRefunded = amountRefunded - alreadyRefunded;
+  if (newlyRefunded <= 0 || completed.length > MAX_MATCHED_PURCHASES) return [];
+
+  let best: ReversiblePurchase[] | null = null;
+  for (let mask = 1; mask < 1 << completed.length; mask += 1) {
+    const subset = completed.filter((_, index) => (mask & (1 << index)) !== 0);
+    if (best && subset.length >= best.length) continue;
+    if (subset.reduce((sum, purchase) => sum + chargedAmount(purchase), 0) === newlyRefunded) {
+      best = subset;
+    }
+  }
+
+  return best ?? [];
+}
+
+/**
+ * Units of the transfer currency per euro for a purchase: the transfer of a
+ * destination charge is made in the charge currency. NULL when the transfer
+ * is in neither euros nor the purchase's presentment currency.
+ */
+export function resolveTransferRate(transferCurrency: string, purchase: ReversiblePurchase): number | null {
+  const currency = transferCurrency.toUpperCase();
+  if (currency === "EUR") return 1;
+  if (currency !== purchase.presentment_currency.toUpperCase()) return null;
+
+  const rate = Number(purchase.fx_rate);
+  return Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+/**
+ * Amount to take back from the producers' transfer, in the transfer
+ * currency: what is left of it on a full refund, otherwise the covered
+ * purchases' producer shares converted at their checkout rate.
+ */
+export function planTransferReversal(params: {
+  remaining: number;
+  coveredShareCents: number;
+  rate: number;
+  fullRefund: boolean;
+}) {
+  const { remaining, coveredShareCents, rate, fullRefund } = params;
+  if (remaining <= 0) return 0;
+  if (fullRefund) return remaining;
+  return Math.min(remaining, Math.round(coveredShareCents * rate));
+}
+
+export const toEurCents = (amount: number, rate: number) => Math.round(amount / rate);
+
+/**
+ * Spreads the euro amount a failed reversal left owed over the covered
+ * purchases, each up to its producer share; the last one takes the rest.
+ */
+export function splitUnreversedAmount(purchases: ReversiblePurchase[], unreversedCents: number) {
+  let left = unreversedCents;
+  return purchases.map((purchase, index) => {
+    const share = index === purchases.length - 1
+      ? left
+      : Math.min(left, purchase.producer_share_cents_snapshot ?? 0);
+    left -= share;
+    return share;
+  });
+}
+
+/**
+ * What a dispute event does to the cart: a lost dispute reverses it, open
+ * disputes suspend access and won ones restore it. Inquiries (warning_*
+ * statuses) are not chargebacks and never suspend anything.
+ */
+export function resolveDisputeTransition(status: string): DisputeTransition {
+  if (status === "lost") return "reverse";
+  if (status === "won" || status.startsWith("warning_")) return "close";
+  return "open";
+}
@@ -1,6 +1,20 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { requireAuthUser } from "../_shared/auth.ts";
+import {
+  evaluateProducerDeals,
+  evaluatePromoCode,
+  type ProducerDealRow,
+  type PromoCodeRow,
+} from "../_shared/checkoutDeals.ts";
+import {
+  bindPromoCodeReservation,
+  releasePromoCodeReservation,
+  reservePromoCode,
+  toSessionExpiresAt,
+  type PromoCodeReservation,
+} from "../_shared/promoCodeReservations.ts";
+import { BASE_CURRENCY, isPresentmentCurrency, toPresentmentAmount } from "../_shared/currency.ts";
 import { serveWithErrorHandling } from "../_shared/error-handler.ts";
 
 const BASE_CORS_HEADERS = {
@@ -26,6 +40,11 @@ interface CheckoutRequest {
   price_id?: string;
   priceId?: string;
   subscription_kind?: string;
+  upgradeFromPurchaseId?: string;
+  upgrade_from_purchase_id?: string;
+  promoCode?: string;
+  promo_code?: string;
+  currency?: string;
 }
 
 interface CheckoutItemRequest {
@@ -52,6 +71,22 @@ interface ProductRow {
   deleted_at: string | null;
   product_type: string;
   status: string;
+  parent_product_id: string | null;
+  original_beat_id: string | null;
+  duplicate_check_pending: boolean;
+  audio_quality_pending: boolean;
+}
+
+interface UpgradeSourcePurchaseRow {
+  id: string;
+  user_id: string;
+  product_id: string;
+  status: string;
+  amount: number;
+  license_id: string | null;
+  superseded_at: string | null;
+  metadata: Record<string, unknown> | null;
+  product: Pick<ProductRow, "id" | "parent_product_id" | "original_beat_id"> | null;
 }
 
 interface LicenseRow {
@@ -61,6 +96,21 @@ interface LicenseRow {
   exclusive_allowed: boolean;
 }
 
+interface ProducerLicenseOfferRow {
+  license_id: string;
+  license_type: string;
+  price: number;
+  license: {
+    id: string;
+    name: string;
+    exclusive_allowed: boolean;
+    producer_id: string | null;
+    archived_at: string | null;
+  } | null;
+}
+
+type CheckoutPriceSource = "products.price" | "product_licenses";
+
 interface ProducerProfileRow {
   is_deleted: boolean | null;
   deleted_at: string | null;
@@ -69,12 +119,23 @@ interface ProducerProfileRow {
   commission_rate_override: number | null;
 }
 
+interface PresentmentCurrency {
+  currency: string;
+  // exchange_rates.rate_from_eur; 1 for euro checkouts.
+  rate: number;
+}
+
 interface CheckoutProductItem {
   product: ProductRow;
   licenseId: string | null;
   licenseType: string;
   licenseName: string;
+  // Amount charged for the item, after its share of any deal discount.
   amount: number;
+  listAmount: number;
+  deal: { id: string; title: string; discount: number } | null;
+  promoDiscount: number;
+  priceSource: CheckoutPriceSource;
   producerPayoutAmount: number;
   applicationFeeAmount: number;
   producerProfile: ProducerProfileRow;
@@ -115,6 +176,10 @@ const asNonEmptyString = (value: unknown) => {
   return trimmed.length > 0 ? trimmed : null;
 };
 
+// New masters stay off sale until the audio worker compared and graded them.
+const awaitsAudioChecks = (product: ProductRow) =>
+  product.duplicate_check_pending || product.audio_quality_pending;
+
 const getConfiguredUserSubscriptionPriceIds = () => {
   const ids = new Set<string>();
 
@@ -295,6 +360,7 @@ async function resolveCheckoutLicense(
       .from("licenses")
       .select("id, name, price, exclusive_allowed")
       .ilike("name", licenseType)
+      .is("producer_id", null)
       .limit(1)
       .maybeSingle();
 
@@ -310,6 +376,7 @@ async function resolveCheckoutLicense(
       .from("licenses")
       .select("id, name, price, exclusive_allowed")
       .eq("exclusive_allowed", true)
+      .is("producer_id", null)
       .order("price", { ascending: false })
       .limit(1)
       .maybeSingle();
@@ -324,6 +391,7 @@ async function resolveCheckoutLicense(
       .from("licenses")
       .select("id, name, price, exclusive_allowed")
       .ilike("name", "standard")
+      .is("producer_id", null)
       .limit(1)
       .maybeSingle();
 
@@ -337,6 +405,7 @@ async function resolveCheckoutLicense(
   const { data, error } = await supabaseAdmin
     .from("licenses")
     .select("id, name, price, exclusive_allowed")
+    .is("producer_id", null)
     .order("created_at", { ascending: true })
     .limit(1)
     .maybeSingle();
@@ -406,6 +475,100 @@ async function resolveLicenseSnapshot(
   }
 }
 
+// Producer-picked tiers (product_licenses.source = 'producer') price the
+// product; products without any keep selling at products.price.
+async function loadProducerLicenseOffers(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  product: Pick<ProductRow, "id" | "producer_id" | "is_exclusive">,
+): Promise<ProducerLicenseOfferRow[]> {
+  const { data, error } = await supabaseAdmin
+    .from("product_licenses")
+    .select("license_id, license_type, price, license:licenses(id, name, exclusive_allowed, producer_id, archived_at)")
+    .eq("product_id", product.id)
+    .eq("source", "producer")
+    .eq("is_active", true)
+    .order("sort_order", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load producer license offers: ${error.message}`);
+  }
+
+  return ((data ?? []) as unknown as ProducerLicenseOfferRow[]).filter((offer) => (
+    offer.license !== null &&
+    offer.license.archived_at === null &&
+    (offer.license.producer_id === null || offer.license.producer_id === product.producer_id) &&
+    offer.license.exclusive_allowed === product.is_exclusive &&
+    isValidCheckoutAmount(offer.price)
+  ));
+}
+
+const pickProducerLicenseOffer = (
+  offers: ProducerLicenseOfferRow[],
+  params: { licenseId: string | null; licenseType: string | null },
+) => {
+  if (params.licenseId) {
+    return offers.find((offer) => offer.license_id === params.licenseId) ?? null;
+  }
+
+  if (params.licenseType) {
+    const normalizedType = params.licenseType.toLowerCase();
+    return offers.find((offer) => (
+      offer.license_type === normalizedType ||
+      offer.license?.name.toLowerCase() === normalizedType
+    )) ?? null;
+  }
+
+  return offers[0] ?? null;
+};
+
+const getLineageRootId = (product: Pick<ProductRow, "id" | "parent_product_id" | "original_beat_id">) => (
+  product.parent_product_id ?? product.original_beat_id ?? product.id
+);
+
+// Everything already paid along an upgrade chain counts towards the next tier.
+const getUpgradeCredit = (purchase: Pick<UpgradeSourcePurchaseRow, "amount" | "metadata">) => {
+  const previousCredit = Number(purchase.metadata?.upgrade_credit);
+  return purchase.amount + (Number.isSafeInteger(previousCredit) && previousCredit > 0 ? previousCredit : 0);
+};
+
+async function resolvePresentmentCurrency(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  requestedCurrency: string | null,
+): Promise<PresentmentCurrency> {
+  const currency = requestedCurrency?.toUpperCase() ?? BASE_CURRENCY;
+  if (currency === BASE_CURRENCY || !isPresentmentCurrency(currency)) {
+    return { currency: BASE_CURRENCY, rate: 1 };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("exchange_rates")
+    .select("rate_from_eur")
+    .eq("currency", currency)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  const rate = Number(data?.rate_from_eur);
+  if (error || !Number.isFinite(rate) || rate <= 0) {
+    // Charging in euros is always possible: never block a checkout on FX.
+    console.warn("[create-checkout] No usable exchange rate, charging in euros", {
+      currency,
+      message: error?.message ?? null,
+    });
+    return { currency: BASE_CURRENCY, rate: 1 };
+  }
+
+  return { currency, rate };
+}
+
+const buildPresentmentMetadata = (presentment: PresentmentCurrency): Record<string, string> => (
+  presentment.currency === BASE_CURRENCY
+    ? {}
+    : {
+        "metadata[presentment_currency]": presentment.currency,
+        "metadata[fx_rate]": presentment.rate.toString(),
+      }
+);
+
 serveWithErrorHandling("create-checkout", async (req: Request) => {
   console.log("[create-checkout] request diagnostics", {
     origin: req.headers.get("origin"),
@@ -798,7 +961,7 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
 
       const { data: products, error: productsError } = await supabaseAdmin
         .from("products")
-        .select("id, title, slug, price, early_access_until, cover_image_url, producer_id, is_exclusive, is_sold, is_published, deleted_at, product_type, status")
+        .select("id, title, slug, price, early_access_until, cover_image_url, producer_id, is_exclusive, is_sold, is_published, deleted_at, product_type, status, parent_product_id, original_beat_id, duplicate_check_pending, audio_quality_pending")
         .in("id", uniqueProductIds);
 
       if (productsError) {
@@ -838,7 +1001,12 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
           });
         }
 
-        if (!productRow.is_published || productRow.deleted_at !== null || productRow.status !== "active") {
+        if (
+          !productRow.is_published
+          || productRow.deleted_at !== null
+          || productRow.status !== "active"
+          || awaitsAudioChecks(productRow)
+        ) {
           return new Response(JSON.stringify({ error: "Beat introuvable ou indisponible." }), {
             status: 400,
             headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -1039,13 +1207,53 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
         const productRow = productRows[index]!;
         const requestItem = normalizedRequests[index]!;
         const producerProfile = producerProfileById.get(productRow.producer_id)!;
-        const licenseSnapshot = await resolveLicenseSnapshot(supabaseAdmin, {
-          productId: productRow.id,
-          licenseId: requestItem.licenseId,
-          licenseType: requestItem.licenseType,
-          isExclusiveProduct: productRow.is_exclusive,
-        });
-        const amount = productRow.price;
+        let producerOffers: ProducerLicenseOfferRow[];
+        try {
+          producerOffers = await loadProducerLicenseOffers(supabaseAdmin, productRow);
+        } catch (error) {
+          console.error("[create-checkout] Cart license offer lookup failed", {
+            beatId: productRow.id,
+            message: error instanceof Error ? error.message : String(error),
+          });
+          return new Response(JSON.stringify({ error: "Failed to validate product availability" }), {
+            status: 500,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        let licenseSnapshot: { licenseId: string | null; licenseName: string; licenseType: string };
+        let amount: number;
+        let priceSource: CheckoutPriceSource;
+
+        if (producerOffers.length > 0) {
+          const offer = pickProducerLicenseOffer(producerOffers, requestItem);
+          if (!offer) {
+            return new Response(JSON.stringify({
+              error: "Cette licence n'est pas proposee pour ce beat.",
+              code: "license_not_offered",
+            }), {
+              status: 400,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+
+          licenseSnapshot = {
+            licenseId: offer.license_id,
+            licenseName: offer.license!.name,
+            licenseType: offer.license_type,
+          };
+          amount = offer.price;
+          priceSource = "product_licenses";
+        } else {
+          licenseSnapshot = await resolveLicenseSnapshot(supabaseAdmin, {
+            productId: productRow.id,
+            licenseId: requestItem.licenseId,
+            licenseType: requestItem.licenseType,
+            isExclusiveProduct: productRow.is_exclusive,
+          });
+          amount = productRow.price;
+          priceSource = "products.price";
+        }
         const effectiveCommissionRate = producerProfile.commission_rate_override ?? CART_PLATFORM_COMMISSION_RATE;
         const applicationFeeAmount = Math.round(amount * effectiveCommissionRate);
         const producerPayoutAmount = amount - applicationFeeAmount;
@@ -1060,6 +1268,10 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
           licenseType: licenseSnapshot.licenseType,
           licenseName: licenseSnapshot.licenseName,
           amount,
+          listAmount: amount,
+          deal: null,
+          promoDiscount: 0,
+          priceSource,
           applicationFeeAmount,
           producerPayoutAmount,
           producerProfile,
@@ -1067,6 +1279,103 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
         });
       }
 
+      const { data: dealRows, error: dealsError } = await supabaseAdmin
+        .from("producer_deals")
+        .select("id, producer_id, title, deal_type, buy_quantity, free_quantity, bundle_price, product_ids")
+        .in("producer_id", producerIds)
+        .is("archived_at", null);
+
+      if (dealsError) {
+        console.error("[create-checkout] Failed to load cart deals", {
+          userId: user.id,
+          message: dealsError.message,
+        });
+        return new Response(JSON.stringify({ error: "Failed to validate product availability" }), {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      // Each item is charged its list price minus its share of the deal and
+      // of the promo code, so Stripe line items, payouts and purchases all
+      // carry the same amount.
+      const { itemDeals, discountTotal: dealDiscountTotal } = evaluateProducerDeals(
+        checkoutItems.map((item) => ({
+          productId: item.product.id,
+          producerId: item.product.producer_id,
+          amount: item.amount,
+          isExclusive: item.product.is_exclusive,
+        })),
+        (dealRows ?? []) as ProducerDealRow[],
+      );
+
+      for (const item of checkoutItems) {
+        const itemDeal = itemDeals.get(item.product.id);
+        if (!itemDeal) continue;
+
+        const effectiveCommissionRate = item.producerProfile.commission_rate_override ?? CART_PLATFORM_COMMISSION_RATE;
+        item.amount = item.listAmount - itemDeal.discount;
+        item.deal = { id: itemDeal.deal.id, title: itemDeal.deal.title, discount: itemDeal.discount };
+        item.applicationFeeAmount = Math.round(item.amount * effectiveCommissionRate);
+        item.producerPayoutAmount = item.amount - item.applicationFeeAmount;
+      }
+
+      const requestedPromoCode = asNonEmptyString(body.promoCode) || asNonEmptyString(body.promo_code);
+      let promoCode: PromoCodeRow | null = null;
+      let promoDiscountTotal = 0;
+
+      if (requestedPromoCode) {
+        const { data: promoRow, error: promoError } = await supabaseAdmin.rpc("check_promo_code", {
+          p_code: requestedPromoCode,
+          p_user_id: user.id,
+          p_context: "marketplace",
+        });
+
+        if (promoError) {
+          const promoErrorCode = promoError.message.match(/promo_code_[a-z_]+/)?.[0] ?? null;
+          if (!promoErrorCode) {
+            console.error("[create-checkout] Failed to check promo code", {
+              userId: user.id,
+              message: promoError.message,
+            });
+          }
+          return new Response(JSON.stringify({ error: promoErrorCode ?? "Failed to validate promo code" }), {
+            status: promoErrorCode ? 400 : 500,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        promoCode = promoRow as PromoCodeRow;
+        const promoEvaluation = evaluatePromoCode(
+          checkoutItems.map((item) => ({
+            productId: item.product.id,
+            producerId: item.product.producer_id,
+            amount: item.amount,
+            isExclusive: item.product.is_exclusive,
+          })),
+          promoCode,
+        );
+
+        if (promoEvaluation.discountTotal === 0) {
+          return new Response(JSON.stringify({ error: "promo_code_not_applicable" }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        promoDiscountTotal = promoEvaluation.discountTotal;
+        for (const item of checkoutItems) {
+          const promoDiscount = promoEvaluation.itemDiscounts[item.product.id];
+          if (!promoDiscount) continue;
+
+          const effectiveCommissionRate = item.producerProfile.commission_rate_override ?? CART_PLATFORM_COMMISSION_RATE;
+          item.amount -= promoDiscount;
+          item.promoDiscount = promoDiscount;
+          item.applicationFeeAmount = Math.round(item.amount * effectiveCommissionRate);
+          item.producerPayoutAmount = item.amount - item.applicationFeeAmount;
+        }
+      }
+
       const createdExclusiveLockProductIds: string[] = [];
 
       for (const item of checkoutItems.filter((checkoutItem) => checkoutItem.product.is_exclusive)) {
@@ -1142,17 +1451,23 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
           .eq("id", user.id);
       }
 
+      const presentment = await resolvePresentmentCurrency(supabaseAdmin, asNonEmptyString(body.currency));
       const lineItems = new URLSearchParams();
       let checkoutAmount = 0;
 
       checkoutItems.forEach((item, index) => {
         checkoutAmount += item.amount;
-        lineItems.append(`line_items[${index}][price_data][currency]`, "eur");
-        lineItems.append(`line_items[${index}][price_data][unit_amount]`, item.amount.toString());
+        lineItems.append(`line_items[${index}][price_data][currency]`, presentment.currency.toLowerCase());
+        lineItems.append(
+          `line_items[${index}][price_data][unit_amount]`,
+          toPresentmentAmount(item.amount, presentment).toString(),
+        );
         lineItems.append(`line_items[${index}][price_data][product_data][name]`, item.product.title);
         lineItems.append(
           `line_items[${index}][price_data][product_data][description]`,
-          item.product.is_exclusive ? "Exclusive purchase" : "Beat purchase",
+          item.deal
+            ? `Beat purchase - ${item.deal.title}`
+            : item.product.is_exclusive ? "Exclusive purchase" : "Beat purchase",
         );
         if (item.product.cover_image_url) {
           lineItems.append(`line_items[${index}][price_data][product_data][images][0]`, item.product.cover_image_url);
@@ -1169,6 +1484,10 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
       const canUseConnectDestination = Boolean(connectedDestinationAccountId);
       const totalApplicationFeeAmount = checkoutItems.reduce((sum, item) => sum + item.applicationFeeAmount, 0);
       const totalProducerPayoutAmount = checkoutItems.reduce((sum, item) => sum + item.producerPayoutAmount, 0);
+      const itemPriceSources = new Set(checkoutItems.map((item) => item.priceSource));
+      const cartPriceSource = itemPriceSources.size > 1
+        ? "mixed"
+        : checkoutItems[0]?.priceSource ?? "products.price";
       const sessionParamsData: Record<string, string> = {
         mode: "payment",
         success_url: validatedSuccessUrl,
@@ -1178,13 +1497,24 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
         "metadata[checkout_mode]": "cart",
         "metadata[cart_item_count]": checkoutItems.length.toString(),
         "metadata[cart_amount_snapshot]": checkoutAmount.toString(),
-        "metadata[price_source]": "products.price",
+        "metadata[price_source]": cartPriceSource,
         "metadata[stripe_connect_mode]": canUseConnectDestination ? "connect" : "fallback",
         "metadata[producer_payout_amount]": totalProducerPayoutAmount.toString(),
+        ...buildPresentmentMetadata(presentment),
+        ...(dealDiscountTotal > 0 ? { "metadata[deal_discount_total]": dealDiscountTotal.toString() } : {}),
+        ...(promoCode
+          ? {
+              "metadata[promo_code_id]": promoCode.id,
+              "metadata[promo_code]": promoCode.code,
+              "metadata[promo_discount_total]": promoDiscountTotal.toString(),
+            }
+          : {}),
         ...(canUseConnectDestination
           ? {
               "payment_intent_data[transfer_data][destination]": connectedDestinationAccountId!,
-              "payment_intent_data[application_fee_amount]": totalApplicationFeeAmount.toString(),
+              // Stripe takes the fee in the charge currency.
+              "payment_intent_data[application_fee_amount]":
+                toPresentmentAmount(totalApplicationFeeAmount, presentment).toString(),
             }
           : {}),
       };
@@ -1194,7 +1524,15 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
         sessionParamsData[`metadata[item_${index}_amount]`] = item.amount.toString();
         sessionParamsData[`metadata[item_${index}_is_exclusive]`] = item.product.is_exclusive.toString();
         sessionParamsData[`metadata[item_${index}_license_type]`] = item.licenseType;
+        if (item.priceSource === "product_licenses" && item.licenseId) {
+          sessionParamsData[`metadata[item_${index}_license_id]`] = item.licenseId;
+        }
         sessionParamsData[`metadata[item_${index}_producer_payout_amount]`] = item.producerPayoutAmount.toString();
+        // One key per item: Stripe caps session metadata at 50 keys.
+        if (item.amount !== item.listAmount) {
+          sessionParamsData[`metadata[item_${index}_discounts]`] =
+            `${item.listAmount}:${item.deal?.discount ?? 0}:${item.promoDiscount}:${item.deal?.id ?? ""}`;
+        }
       });
 
       if (checkoutItems.length === 1) {
@@ -1208,6 +1546,9 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
         sessionParamsData["metadata[is_exclusive]"] = item.product.is_exclusive.toString();
         sessionParamsData["metadata[license_name]"] = item.licenseName;
         sessionParamsData["metadata[license_type]"] = item.licenseType;
+        if (item.priceSource === "product_licenses" && item.licenseId) {
+          sessionParamsData["metadata[license_id]"] = item.licenseId;
+        }
         sessionParamsData["metadata[db_price_snapshot]"] = item.amount.toString();
         sessionParamsData["metadata[db_price]"] = item.amount.toString();
       }
@@ -1218,6 +1559,41 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
         sessionParamsData.customer_creation = "always";
       }
 
+      let promoReservation: PromoCodeReservation | null = null;
+      if (promoCode) {
+        const { reservation, error: reservationError } = await reservePromoCode(supabaseAdmin, stripeSecretKey, {
+          promoCodeId: promoCode.id,
+          userId: user.id,
+          context: "marketplace",
+        });
+
+        if (reservationError || !reservation) {
+          if (createdExclusiveLockProductIds.length > 0) {
+            await supabaseAdmin
+              .from("exclusive_locks")
+              .delete()
+              .eq("user_id", user.id)
+              .in("product_id", createdExclusiveLockProductIds);
+          }
+
+          const promoErrorCode = reservationError?.message.match(/promo_code_[a-z_]+/)?.[0] ?? null;
+          if (!promoErrorCode) {
+            console.error("[create-checkout] Failed to reserve promo code", {
+              userId: user.id,
+              promoCodeId: promoCode.id,
+              message: reservationError?.message ?? "promo_code_reservation_missing",
+            });
+          }
+          return new Response(JSON.stringify({ error: promoErrorCode ?? "Failed to validate promo code" }), {
+            status: promoErrorCode ? 400 : 500,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        promoReservation = reservation;
+        sessionParamsData.expires_at = toSessionExpiresAt(reservation);
+      }
+
       const sessionParams = new URLSearchParams(sessionParamsData);
       const sessionResponse = await fetch("https://api.stripe.com/v1/checkout/sessions", {
         method: "POST",
@@ -1238,6 +1614,9 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
             .eq("user_id", user.id)
             .in("product_id", createdExclusiveLockProductIds);
         }
+        if (promoReservation) {
+          await releasePromoCodeReservation(supabaseAdmin, promoReservation.id);
+        }
 
         console.error("[create-checkout] Stripe cart checkout session creation failed", {
           userId: user.id,
@@ -1251,6 +1630,10 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
         });
       }
 
+      if (promoReservation) {
+        await bindPromoCodeReservation(supabaseAdmin, promoReservation.id, session.id);
+      }
+
       if (createdExclusiveLockProductIds.length > 0) {
         const { data: boundLocks, error: lockBindError } = await supabaseAdmin
           .from("exclusive_locks")
@@ -1309,7 +1692,7 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
 
     const { data: product, error: productError } = await supabaseAdmin
       .from("products")
-      .select("id, title, slug, price, early_access_until, cover_image_url, producer_id, is_exclusive, is_sold, is_published, deleted_at, product_type, status")
+      .select("id, title, slug, price, early_access_until, cover_image_url, producer_id, is_exclusive, is_sold, is_published, deleted_at, product_type, status, parent_product_id, original_beat_id, duplicate_check_pending, audio_quality_pending")
       .eq("id", resolvedBeatId)
       .maybeSingle();
 
@@ -1348,7 +1731,7 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
       });
     }
 
-    if (productRow.status !== "active") {
+    if (productRow.status !== "active" || awaitsAudioChecks(productRow)) {
       return new Response(JSON.stringify({ error: "Beat introuvable ou indisponible." }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -1362,6 +1745,57 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
       });
     }
 
+    // License upgrade: the buyer pays the difference between the target tier
+    // (another tier of the same product, or the exclusive version of the beat)
+    // and what they already paid.
+    const upgradeFromPurchaseId =
+      asNonEmptyString(body.upgradeFromPurchaseId) || asNonEmptyString(body.upgrade_from_purchase_id);
+    let upgradeSource: UpgradeSourcePurchaseRow | null = null;
+
+    if (upgradeFromPurchaseId) {
+      const { data: sourcePurchase, error: sourcePurchaseError } = await supabaseAdmin
+        .from("purchases")
+        .select("id, user_id, product_id, status, amount, license_id, superseded_at, metadata, product:products!purchases_product_id_fkey(id, parent_product_id, original_beat_id)")
+        .eq("id", upgradeFromPurchaseId)
+        .maybeSingle();
+
+      if (sourcePurchaseError) {
+        console.error("[create-checkout] Failed to load purchase to upgrade", {
+          userId: user.id,
+          upgradeFromPurchaseId,
+          message: sourcePurchaseError.message,
+        });
+        return new Response(JSON.stringify({ error: "Failed to validate purchase eligibility" }), {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      upgradeSource = (sourcePurchase as unknown as UpgradeSourcePurchaseRow | null) ?? null;
+      const isUpgradeTarget = Boolean(
+        upgradeSource?.product && (
+          upgradeSource.product_id === productRow.id ||
+          (productRow.is_exclusive && getLineageRootId(upgradeSource.product) === getLineageRootId(productRow))
+        ),
+      );
+
+      if (
+        !upgradeSource ||
+        upgradeSource.user_id !== user.id ||
+        upgradeSource.status !== "completed" ||
+        upgradeSource.superseded_at !== null ||
+        !isUpgradeTarget
+      ) {
+        return new Response(JSON.stringify({
+          error: "Cette licence ne peut pas etre mise a niveau vers ce produit.",
+          code: "license_upgrade_unavailable",
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
     // Block re-purchase: reject checkout if user already owns this product.
     // This is a server-side guard; the DB partial unique index is the hard enforcement.
     const { data: existingPurchase, error: purchaseCheckError } = await supabaseAdmin
@@ -1370,6 +1804,7 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
       .eq("user_id", user.id)
       .eq("product_id", resolvedBeatId)
       .eq("status", "completed")
+      .is("superseded_at", null)
       .maybeSingle();
 
     if (purchaseCheckError) {
@@ -1384,7 +1819,7 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
       });
     }
 
-    if (existingPurchase) {
+    if (existingPurchase && existingPurchase.id !== upgradeSource?.id) {
       console.warn("[create-checkout] User already owns this product", {
         userId: user.id,
         beatId: resolvedBeatId,
@@ -1542,6 +1977,98 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
       }
     }
 
+    // Resolved before the exclusive lock so an unknown tier never holds one.
+    let producerOffers: ProducerLicenseOfferRow[];
+    try {
+      producerOffers = await loadProducerLicenseOffers(supabaseAdmin, productRow);
+    } catch (error) {
+      console.error("[create-checkout] License offer lookup failed", {
+        beatId: resolvedBeatId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return new Response(JSON.stringify({ error: "Failed to validate product availability" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const selectedOffer = producerOffers.length > 0
+      ? pickProducerLicenseOffer(producerOffers, {
+          licenseId: asNonEmptyString(body.licenseId) || asNonEmptyString(body.license_id),
+          licenseType: asNonEmptyString(body.licenseType),
+        })
+      : null;
+
+    if (producerOffers.length > 0 && !selectedOffer) {
+      return new Response(JSON.stringify({
+        error: "Cette licence n'est pas proposee pour ce beat.",
+        code: "license_not_offered",
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    let upgradeCheckout: {
+      sourcePurchaseId: string;
+      credit: number;
+      amount: number;
+      licenseId: string;
+      licenseName: string;
+      licenseType: string;
+    } | null = null;
+
+    if (upgradeSource) {
+      const isSameProduct = upgradeSource.product_id === productRow.id;
+      const targetLicense = selectedOffer
+        ? {
+            licenseId: selectedOffer.license_id as string | null,
+            licenseName: selectedOffer.license?.name ?? selectedOffer.license_type,
+            licenseType: selectedOffer.license_type,
+          }
+        : await resolveLicenseSnapshot(supabaseAdmin, {
+            productId: productRow.id,
+            licenseId: null,
+            licenseType: null,
+            isExclusiveProduct: productRow.is_exclusive,
+          });
+      const credit = getUpgradeCredit(upgradeSource);
+      const upgradeAmount = (selectedOffer?.price ?? productRow.price) - credit;
+
+      // Products without producer tiers have a single price: nothing to upgrade to.
+      if (
+        !targetLicense.licenseId ||
+        (isSameProduct && (!selectedOffer || selectedOffer.license_id === upgradeSource.license_id))
+      ) {
+        return new Response(JSON.stringify({
+          error: "Cette licence ne peut pas etre mise a niveau vers ce produit.",
+          code: "license_upgrade_unavailable",
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      if (!isValidCheckoutAmount(upgradeAmount)) {
+        return new Response(JSON.stringify({
+          error: "La licence choisie n'est pas superieure a la licence actuelle.",
+          code: "license_upgrade_not_higher",
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      upgradeCheckout = {
+        sourcePurchaseId: upgradeSource.id,
+        credit,
+        amount: upgradeAmount,
+        licenseId: targetLicense.licenseId,
+        licenseName: targetLicense.licenseName,
+        licenseType: targetLicense.licenseType,
+      };
+    }
+
     if (productRow.is_exclusive) {
       let canPurchaseExclusive = false;
       const { data: isConfirmedData, error: isConfirmedError } = await supabaseAdmin.rpc(
@@ -1630,9 +2157,13 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
     }
 
     const lineItems = new URLSearchParams();
-    const checkoutAmount = productRow.price;
-    const resolvedLicenseType = productRow.is_exclusive ? "exclusive" : "standard";
-    const resolvedLicenseName = productRow.is_exclusive ? "Exclusive" : "Standard";
+    const checkoutAmount = upgradeCheckout?.amount ?? selectedOffer?.price ?? productRow.price;
+    const resolvedLicenseType = upgradeCheckout?.licenseType ??
+      selectedOffer?.license_type ??
+      (productRow.is_exclusive ? "exclusive" : "standard");
+    const resolvedLicenseName = upgradeCheckout?.licenseName ??
+      selectedOffer?.license?.name ??
+      (productRow.is_exclusive ? "Exclusive" : "Standard");
 
     if (!checkoutAmount || checkoutAmount <= 0) {
       console.error("[create-checkout] Invalid product price", {
@@ -1648,12 +2179,18 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
       });
     }
 
-    lineItems.append("line_items[0][price_data][currency]", "eur");
-    lineItems.append("line_items[0][price_data][unit_amount]", checkoutAmount.toString());
+    const presentment = await resolvePresentmentCurrency(supabaseAdmin, asNonEmptyString(body.currency));
+    lineItems.append("line_items[0][price_data][currency]", presentment.currency.toLowerCase());
+    lineItems.append(
+      "line_items[0][price_data][unit_amount]",
+      toPresentmentAmount(checkoutAmount, presentment).toString(),
+    );
     lineItems.append("line_items[0][price_data][product_data][name]", productRow.title);
     lineItems.append(
       "line_items[0][price_data][product_data][description]",
-      productRow.is_exclusive ? "Exclusive purchase" : "Beat purchase",
+      upgradeCheckout
+        ? `License upgrade to ${resolvedLicenseName}`
+        : productRow.is_exclusive ? "Exclusive purchase" : "Beat purchase",
     );
     if (productRow.cover_image_url) {
       lineItems.append("line_items[0][price_data][product_data][images][0]", productRow.cover_image_url);
@@ -1686,15 +2223,26 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
       "metadata[db_price_snapshot]": checkoutAmount.toString(),
       // Backward compatibility for in-flight sessions created before snapshot key rollout.
       "metadata[db_price]": checkoutAmount.toString(),
-      "metadata[price_source]": "products.price",
+      "metadata[price_source]": selectedOffer ? "product_licenses" : "products.price",
+      ...(selectedOffer ? { "metadata[license_id]": selectedOffer.license_id } : {}),
+      ...(upgradeCheckout
+        ? {
+            "metadata[checkout_mode]": "license_upgrade",
+            "metadata[license_id]": upgradeCheckout.licenseId,
+            "metadata[upgrade_from_purchase_id]": upgradeCheckout.sourcePurchaseId,
+            "metadata[upgrade_credit]": upgradeCheckout.credit.toString(),
+          }
+        : {}),
       // Stripe Connect: Track whether this is a Connect payment or fallback (for webhook processing)
       "metadata[stripe_connect_mode]": hasStripeConnect ? "connect" : "fallback",
       "metadata[producer_payout_amount]": producerPayoutAmount.toString(),
+      ...buildPresentmentMetadata(presentment),
       // Stripe Connect: destination account + application fee (only if available)
       ...(hasStripeConnect
         ? {
             "payment_intent_data[transfer_data][destination]": producerProfile.stripe_account_id!,
-            "payment_intent_data[application_fee_amount]": applicationFeeAmount.toString(),
+            "payment_intent_data[application_fee_amount]":
+              toPresentmentAmount(applicationFeeAmount, presentment).toString(),
           }
         : {}),
     };
@@ -1723,7 +2271,8 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
         beatId: resolvedBeatId,
         licenseType: resolvedLicenseType,
         price_db: checkoutAmount,
-        unit_amount: checkoutAmount,
+        unit_amount: toPresentmentAmount(checkoutAmount, presentment),
+        currency: presentment.currency,
         message: session.error.message,
       });
       return new Response(JSON.stringify({ error: session.error.message }), {
@@ -1736,7 +2285,8 @@ serveWithErrorHandling("create-checkout", async (req: Request) => {
       beatId: resolvedBeatId,
       licenseType: resolvedLicenseType,
       price_db: checkoutAmount,
-      unit_amount: checkoutAmount,
+      unit_amount: toPresentmentAmount(checkoutAmount, presentment),
+      currency: presentment.currency,
       sessionId: session.id,
       ...(hasStripeConnect
         ? {
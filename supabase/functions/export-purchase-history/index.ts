@@ -0,0 +1,455 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { PDFDocument, StandardFonts, type PDFFont } from "https://esm.sh/pdf-lib@1.17.1";
+import { requireAuthUser, type AuthSuccess } from "../_shared/auth.ts";
+import { serveWithErrorHandling } from "../_shared/error-handler.ts";
+
+const BASE_CORS_HEADERS = {
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const DEFAULT_ALLOWED_CORS_ORIGINS = [
+  "https://beatelion.com",
+  "https://www.beatelion.com",
+  "http://localhost:5173",
+  "http://127.0.0.1:5173",
+  "http://dev.beatelion.local:5173",
+];
+
+const DEFAULT_CORS_ORIGIN = DEFAULT_ALLOWED_CORS_ORIGINS[0];
+
+const normalizeOrigin = (value: string): string | null => {
+  try {
+    return new URL(value).origin;
+  } catch {
+    return null;
+  }
+};
+
+const resolveAllowedCorsOrigins = () => {
+  const allowed = new Set<string>(DEFAULT_ALLOWED_CORS_ORIGINS);
+
+  const csv = Deno.env.get("CORS_ALLOWED_ORIGINS");
+  if (typeof csv === "string" && csv.trim().length > 0) {
+    for (const token of csv.split(",")) {
+      const normalized = normalizeOrigin(token.trim());
+      if (normalized) {
+        allowed.add(normalized);
+      }
+    }
+  }
+
+  for (const envValue of [
+    Deno.env.get("APP_URL"),
+    Deno.env.get("SITE_URL"),
+    Deno.env.get("PUBLIC_SITE_URL"),
+    Deno.env.get("VITE_APP_URL"),
+  ]) {
+    if (typeof envValue !== "string") continue;
+    const normalized = normalizeOrigin(envValue.trim());
+    if (normalized) {
+      allowed.add(normalized);
+    }
+  }
+
+  return allowed;
+};
+
+const ALLOWED_CORS_ORIGINS = resolveAllowedCorsOrigins();
+
+const resolveRequestOrigin = (req: Request) => {
+  const rawOrigin = req.headers.get("origin");
+  if (!rawOrigin) return null;
+  const normalized = normalizeOrigin(rawOrigin);
+  if (!normalized) return null;
+  return ALLOWED_CORS_ORIGINS.has(normalized) ? normalized : null;
+};
+
+const buildCorsHeaders = (origin: string | null) => ({
+  ...BASE_CORS_HEADERS,
+  "Access-Control-Allow-Origin": origin ?? DEFAULT_CORS_ORIGIN,
+  "Vary": "Origin",
+});
+
+const EXPORT_RATE_LIMIT_RPC = "export_purchase_history_user";
+const PAGE_SIZE = 500;
+
+type ExportLanguage = "fr" | "en" | "de" | "es";
+
+interface HistoryRow {
+  date: string;
+  invoiceNumber: string;
+  title: string;
+  producer: string;
+  license: string;
+  paymentSource: "stripe_checkout" | "credits" | "subscription";
+  creditsSpent: number | null;
+  currency: string;
+  // Cents, tax included; null for credit redemptions.
+  amountCents: number | null;
+  taxCents: number | null;
+  status: string;
+}
+
+// CSV headers stay stable for spreadsheets and accounting tools; the PDF is
+// for people and follows the buyer's language.
+const CSV_COLUMNS = [
+  "date",
+  "invoice_number",
+  "title",
+  "producer",
+  "license",
+  "payment_source",
+  "credits_spent",
+  "currency",
+  "amount",
+  "tax",
+  "status",
+];
+
+const PDF_LABELS: Record<ExportLanguage, {
+  title: string;
+  columns: [string, string, string, string, string, string, string];
+  sources: Record<HistoryRow["paymentSource"], string>;
+  credits: string;
+}> = {
+  fr: {
+    title: "Historique d'achats",
+    columns: ["Date", "Facture", "Titre", "Licence", "Paiement", "Montant", "TVA"],
+    sources: { stripe_checkout: "Carte", credits: "Credits", subscription: "Abonnement" },
+    credits: "credits",
+  },
+  en: {
+    title: "Purchase history",
+    columns: ["Date", "Invoice", "Title", "License", "Payment", "Amount", "Tax"],
+    sources: { stripe_checkout: "Card", credits: "Credits", subscription: "Subscription" },
+    credits: "credits",
+  },
+  de: {
+    title: "Kaufhistorie",
+    columns: ["Datum", "Rechnung", "Titel", "Lizenz", "Zahlung", "Betrag", "MwSt."],
+    sources: { stripe_checkout: "Karte", credits: "Credits", subscription: "Abonnement" },
+    credits: "Credits",
+  },
+  es: {
+    title: "Historial de compras",
+    columns: ["Fecha", "Factura", "Título", "Licencia", "Pago", "Importe", "IVA"],
+    sources: { stripe_checkout: "Tarjeta", credits: "Créditos", subscription: "Suscripción" },
+    credits: "créditos",
+  },
+};
+
+const asNonEmptyString = (value: unknown) => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+};
+
+const asCents = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.round(value) : null;
+
+const resolveExportLanguage = (value: unknown): ExportLanguage =>
+  value === "fr" || value === "de" || value === "es" ? value : "en";
+
+const formatCents = (cents: number | null) => (cents === null ? "" : (cents / 100).toFixed(2));
+
+// Cells starting with =, +, - or @ would run as formulas in a spreadsheet.
+const escapeCsvCell = (value: string) => {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const buildCsv = (rows: HistoryRow[]) =>
+  [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) =>
+      [
+        row.date,
+        row.invoiceNumber,
+        row.title,
+        row.producer,
+        row.license,
+        row.paymentSource,
+        row.creditsSpent === null ? "" : String(row.creditsSpent),
+        row.currency,
+        formatCents(row.amountCents),
+        formatCents(row.taxCents),
+        row.status,
+      ].map(escapeCsvCell).join(",")
+    ),
+  ].join("\r\n") + "\r\n";
+
+// The standard PDF fonts only cover WinAnsi.
+const toWinAnsi = (text: string) =>
+  text
+    .replace(/[\u00A0\u202F]/g, " ")
+    .replace(/[^\x20-\x7E\u00A1-\u00FF\u20AC]/g, "?");
+
+const truncate = (text: string, font: PDFFont, size: number, maxWidth: number) => {
+  let value = toWinAnsi(text);
+  if (font.widthOfTextAtSize(value, size) <= maxWidth) return value;
+  while (value.length > 1 && font.widthOfTextAtSize(`${value}...`, size) > maxWidth) {
+    value = value.slice(0, -1);
+  }
+  return `${value}...`;
+};
+
+async function buildPdf(rows: HistoryRow[], language: ExportLanguage) {
+  const labels = PDF_LABELS[language];
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  const pageSize: [number, number] = [841.89, 595.28]; // A4 landscape
+  const left = 36;
+  const size = 9;
+  const lineGap = 16;
+  const widths = [70, 100, 250, 120, 80, 90, 60];
+
+  let page = pdfDoc.addPage(pageSize);
+  let y = pageSize[1] - 48;
+
+  const drawRow = (cells: string[], isBold = false) => {
+    if (y < 40) {
+      page = pdfDoc.addPage(pageSize);
+      y = pageSize[1] - 48;
+    }
+    let x = left;
+    cells.forEach((cell, index) => {
+      const width = widths[index] ?? 80;
+      page.drawText(truncate(cell, isBold ? bold : font, size, width - 6), {
+        x,
+        y,
+        size,
+        font: isBold ? bold : font,
+      });
+      x += width;
+    });
+    y -= lineGap;
+  };
+
+  page.drawText(toWinAnsi(labels.title), { x: left, y, size: 16, font: bold });
+  y -= 28;
+  drawRow(labels.columns, true);
+
+  for (const row of rows) {
+    const amount = row.amountCents === null
+      ? `${row.creditsSpent ?? 0} ${labels.credits}`
+      : `${formatCents(row.amountCents)} ${row.currency}`;
+    drawRow([
+      row.date,
+      row.invoiceNumber,
+      row.producer ? `${row.title} (${row.producer})` : row.title,
+      row.license,
+      labels.sources[row.paymentSource],
+      amount,
+      row.taxCents === null ? "" : formatCents(row.taxCents),
+    ]);
+  }
+
+  return await pdfDoc.save();
+}
+
+const enforceRateLimit = async (supabaseAdmin: AuthSuccess["supabaseAdmin"], userId: string) => {
+  const { data, error } = await supabaseAdmin.rpc("check_rpc_rate_limit", {
+    p_user_id: userId,
+    p_rpc_name: EXPORT_RATE_LIMIT_RPC,
+  });
+
+  if (error) {
+    console.error("[export-purchase-history] check_rpc_rate_limit failed", { userId, error });
+    return { allowed: false as const, status: 500, error: "Rate limit unavailable" };
+  }
+
+  if (data !== true) {
+    return { allowed: false as const, status: 429, error: "Too many requests" };
+  }
+
+  return { allowed: true as const };
+};
+
+interface PurchaseRecord {
+  id: string;
+  created_at: string;
+  completed_at: string | null;
+  status: string;
+  amount: number;
+  presentment_currency: string | null;
+  presentment_amount: number | null;
+  purchase_source: string;
+  credits_spent: number | null;
+  license_type: string | null;
+  license_name_snapshot: string | null;
+  beat_title_snapshot: string | null;
+  producer_display_name_snapshot: string | null;
+  product: { title: string | null } | Array<{ title: string | null }> | null;
+}
+
+interface InvoiceRecord {
+  invoice_number: string;
+  kind: string;
+  purchase_id: string | null;
+  issued_at: string;
+  description: string;
+  currency: string;
+  amount_cents: number;
+  tax_cents: number;
+}
+
+const loadAll = async <T>(
+  buildQuery: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const loadHistory = async (supabaseAdmin: AuthSuccess["supabaseAdmin"], userId: string): Promise<HistoryRow[]> => {
+  const [purchases, invoices] = await Promise.all([
+    loadAll<PurchaseRecord>((from, to) =>
+      supabaseAdmin
+        .from("purchases")
+        .select(`
+          id,
+          created_at,
+          completed_at,
+          status,
+          amount,
+          presentment_currency,
+          presentment_amount,
+          purchase_source,
+          credits_spent,
+          license_type,
+          license_name_snapshot,
+          beat_title_snapshot,
+          producer_display_name_snapshot,
+          product:products!purchases_product_id_fkey(title)
+        `)
+        .eq("user_id", userId)
+        .in("status", ["completed", "refunded"])
+        .order("created_at", { ascending: true })
+        .range(from, to)
+    ),
+    loadAll<InvoiceRecord>((from, to) =>
+      supabaseAdmin
+        .from("invoices")
+        .select("invoice_number, kind, purchase_id, issued_at, description, currency, amount_cents, tax_cents")
+        .eq("buyer_id", userId)
+        .order("issued_at", { ascending: true })
+        .range(from, to)
+    ),
+  ]);
+
+  const invoicesByPurchase = new Map(
+    invoices
+      .filter((invoice) => invoice.purchase_id)
+      .map((invoice) => [invoice.purchase_id as string, invoice] as const),
+  );
+
+  const purchaseRows: HistoryRow[] = purchases.map((purchase) => {
+    const invoice = invoicesByPurchase.get(purchase.id);
+    const product = Array.isArray(purchase.product) ? purchase.product[0] : purchase.product;
+    const isCredits = purchase.purchase_source === "credits";
+    return {
+      date: String(purchase.completed_at ?? purchase.created_at).slice(0, 10),
+      invoiceNumber: invoice?.invoice_number ?? "",
+      title: asNonEmptyString(purchase.beat_title_snapshot) ?? asNonEmptyString(product?.title) ?? "",
+      producer: asNonEmptyString(purchase.producer_display_name_snapshot) ?? "",
+      license: asNonEmptyString(purchase.license_name_snapshot) ?? asNonEmptyString(purchase.license_type) ?? "",
+      paymentSource: isCredits ? "credits" : "stripe_checkout",
+      creditsSpent: isCredits ? asCents(purchase.credits_spent) : null,
+      currency: asNonEmptyString(purchase.presentment_currency) ?? "EUR",
+      amountCents: isCredits ? null : asCents(purchase.presentment_amount) ?? asCents(purchase.amount),
+      taxCents: isCredits ? null : asCents(invoice?.tax_cents) ?? 0,
+      status: String(purchase.status),
+    };
+  });
+
+  const subscriptionRows: HistoryRow[] = invoices
+    .filter((invoice) => invoice.kind === "subscription")
+    .map((invoice) => ({
+      date: String(invoice.issued_at).slice(0, 10),
+      invoiceNumber: invoice.invoice_number,
+      title: invoice.description,
+      producer: "",
+      license: "",
+      paymentSource: "subscription",
+      creditsSpent: null,
+      currency: invoice.currency,
+      amountCents: asCents(invoice.amount_cents),
+      taxCents: asCents(invoice.tax_cents) ?? 0,
+      status: "completed",
+    }));
+
+  return [...purchaseRows, ...subscriptionRows].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+serveWithErrorHandling("export-purchase-history", async (req: Request) => {
+  const requestOrigin = resolveRequestOrigin(req);
+  const corsHeaders = buildCorsHeaders(requestOrigin);
+  const jsonHeaders = { ...corsHeaders, "Content-Type": "application/json" };
+  const respond = (status: number, payload: unknown) =>
+    new Response(JSON.stringify(payload), { status, headers: jsonHeaders });
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return respond(405, { error: "Method not allowed" });
+  }
+
+  const authResult = await requireAuthUser(req, corsHeaders);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { supabaseAdmin, user } = authResult;
+
+  const body = await req.json().catch(() => null) as { format?: unknown; language?: unknown } | null;
+  const format = body?.format;
+  if (format !== "csv" && format !== "pdf") {
+    return respond(400, { error: "format must be csv or pdf" });
+  }
+
+  const rateLimit = await enforceRateLimit(supabaseAdmin, user.id);
+  if (!rateLimit.allowed) {
+    return respond(rateLimit.status, { error: rateLimit.error });
+  }
+
+  let rows: HistoryRow[];
+  try {
+    rows = await loadHistory(supabaseAdmin, user.id);
+  } catch (error) {
+    console.error("[export-purchase-history] Failed to load purchase history", { userId: user.id, error });
+    return respond(500, { error: "Failed to load purchase history" });
+  }
+
+  const fileDate = new Date().toISOString().slice(0, 10);
+
+  if (format === "csv") {
+    // BOM so that spreadsheet apps read the file as UTF-8.
+    return new Response(`\uFEFF${buildCsv(rows)}`, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="purchase-history-${fileDate}.csv"`,
+      },
+    });
+  }
+
+  const pdfBytes = await buildPdf(rows, resolveExportLanguage(body?.language));
+  return new Response(pdfBytes, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="purchase-history-${fileDate}.pdf"`,
+    },
+  });
+});
@@ -0,0 +1,335 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { requireAuthUser, type AuthSuccess } from "../_shared/auth.ts";
+import { serveWithErrorHandling } from "../_shared/error-handler.ts";
+
+const BASE_CORS_HEADERS = {
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const DEFAULT_ALLOWED_CORS_ORIGINS = [
+  "https://beatelion.com",
+  "https://www.beatelion.com",
+  "http://localhost:5173",
+  "http://127.0.0.1:5173",
+  "http://dev.beatelion.local:5173",
+];
+
+const DEFAULT_CORS_ORIGIN = DEFAULT_ALLOWED_CORS_ORIGINS[0];
+
+const normalizeOrigin = (value: string): string | null => {
+  try {
+    return new URL(value).origin;
+  } catch {
+    return null;
+  }
+};
+
+const resolveAllowedCorsOrigins = () => {
+  const allowed = new Set<string>(DEFAULT_ALLOWED_CORS_ORIGINS);
+
+  const csv = Deno.env.get("CORS_ALLOWED_ORIGINS");
+  if (typeof csv === "string" && csv.trim().length > 0) {
+    for (const token of csv.split(",")) {
+      const normalized = normalizeOrigin(token.trim());
+      if (normalized) {
+        allowed.add(normalized);
+      }
+    }
+  }
+
+  for (const envValue of [
+    Deno.env.get("APP_URL"),
+    Deno.env.get("SITE_URL"),
+    Deno.env.get("PUBLIC_SITE_URL"),
+    Deno.env.get("VITE_APP_URL"),
+  ]) {
+    if (typeof envValue !== "string") continue;
+    const normalized = normalizeOrigin(envValue.trim());
+    if (normalized) {
+      allowed.add(normalized);
+    }
+  }
+
+  return allowed;
+};
+
+const ALLOWED_CORS_ORIGINS = resolveAllowedCorsOrigins();
+
+const resolveRequestOrigin = (req: Request) => {
+  const rawOrigin = req.headers.get("origin");
+  if (!rawOrigin) return null;
+  const normalized = normalizeOrigin(rawOrigin);
+  if (!normalized) return null;
+  return ALLOWED_CORS_ORIGINS.has(normalized) ? normalized : null;
+};
+
+const buildCorsHeaders = (origin: string | null) => ({
+  ...BASE_CORS_HEADERS,
+  "Access-Control-Allow-Origin": origin ?? DEFAULT_CORS_ORIGIN,
+  "Vary": "Origin",
+});
+
+const INVOICE_BUCKET = "invoices";
+const INVOICE_SIGNED_URL_TTL_SECONDS = 60;
+const INVOICE_URL_USER_RATE_LIMIT_RPC = "get_invoice_url_user";
+const INVOICE_GENERATION_TIMEOUT_MS = 8000;
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+const asNonEmptyString = (value: unknown) => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+};
+
+const isUuid = (value: string) => UUID_RE.test(value);
+
+interface InvoiceRow {
+  id: string;
+  buyer_id: string | null;
+  invoice_number: string;
+  pdf_path: string | null;
+}
+
+const INVOICE_COLUMNS = "id, buyer_id, invoice_number, pdf_path";
+
+// INVOICE_GENERATE_ENDPOINT, else the sibling of the contract endpoint
+// (api/generate-invoice next to api/generate-contract).
+const resolveInvoiceGenerateEndpoint = () => {
+  const explicit = asNonEmptyString(Deno.env.get("INVOICE_GENERATE_ENDPOINT"));
+  if (explicit) return explicit;
+
+  const contractEndpoint = asNonEmptyString(Deno.env.get("CONTRACT_GENERATE_ENDPOINT"));
+  if (contractEndpoint?.endsWith("/generate-contract")) {
+    return contractEndpoint.replace(/\/generate-contract$/, "/generate-invoice");
+  }
+
+  return null;
+};
+
+async function callInvoiceGenerator(invoiceId: string) {
+  const endpoint = resolveInvoiceGenerateEndpoint();
+  const secret = asNonEmptyString(Deno.env.get("CONTRACT_SERVICE_SECRET"));
+
+  if (!endpoint || !secret) {
+    console.error("[get-invoice-url] Missing invoice generation endpoint or secret", {
+      invoiceId,
+      hasEndpoint: Boolean(endpoint),
+    });
+    return;
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), INVOICE_GENERATION_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${secret}`,
+      },
+      body: JSON.stringify({ invoice_id: invoiceId }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      console.error("[get-invoice-url] Invoice generation failed", {
+        invoiceId,
+        status: response.status,
+        body: await response.text().catch(() => ""),
+      });
+    }
+  } catch (error) {
+    console.error("[get-invoice-url] Invoice generation request failed", {
+      invoiceId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+const enforceUserRateLimit = async (
+  supabaseAdmin: AuthSuccess["supabaseAdmin"],
+  userId: string,
+) => {
+  const { data, error } = await supabaseAdmin.rpc("check_rpc_rate_limit", {
+    p_user_id: userId,
+    p_rpc_name: INVOICE_URL_USER_RATE_LIMIT_RPC,
+  });
+
+  if (error) {
+    console.error("[get-invoice-url] check_rpc_rate_limit failed", {
+      rpc: INVOICE_URL_USER_RATE_LIMIT_RPC,
+      userId,
+      error,
+    });
+    return { allowed: false as const, status: 500, error: "Rate limit unavailable" };
+  }
+
+  if (data !== true) {
+    return { allowed: false as const, status: 429, error: "Too many requests" };
+  }
+
+  return { allowed: true as const };
+};
+
+// Invoices are issued by stripe-webhook; a purchase completed before
+// invoicing existed (or whose webhook call failed) is invoiced on first request.
+const resolvePurchaseInvoice = async (
+  supabaseAdmin: AuthSuccess["supabaseAdmin"],
+  purchaseId: string,
+  userId: string,
+): Promise<{ invoice: InvoiceRow } | { status: number; error: string }> => {
+  const { data: purchase, error: purchaseError } = await supabaseAdmin
+    .from("purchases")
+    .select("id, user_id, status, purchase_source")
+    .eq("id", purchaseId)
+    .maybeSingle();
+
+  if (purchaseError) {
+    console.error("[get-invoice-url] Purchase fetch failed", purchaseError);
+    return { status: 500, error: "Failed to load purchase" };
+  }
+
+  if (!purchase) {
+    return { status: 404, error: "Purchase not found" };
+  }
+
+  if (purchase.user_id !== userId || purchase.status !== "completed") {
+    return { status: 403, error: "Forbidden" };
+  }
+
+  if (purchase.purchase_source !== "stripe_checkout") {
+    return { status: 409, error: "Credit purchases are invoiced with the subscription" };
+  }
+
+  const { data: invoice, error: issueError } = await supabaseAdmin.rpc("issue_invoice_for_purchase", {
+    p_purchase_id: purchaseId,
+  });
+
+  if (issueError || !invoice) {
+    console.error("[get-invoice-url] issue_invoice_for_purchase failed", {
+      purchaseId,
+      issueError,
+    });
+    return { status: 500, error: "Failed to issue invoice" };
+  }
+
+  return { invoice: invoice as InvoiceRow };
+};
+
+serveWithErrorHandling("get-invoice-url", async (req: Request) => {
+  const requestOrigin = resolveRequestOrigin(req);
+  const corsHeaders = buildCorsHeaders(requestOrigin);
+  const jsonHeaders = { ...corsHeaders, "Content-Type": "application/json" };
+  const respond = (status: number, payload: unknown) =>
+    new Response(JSON.stringify(payload), { status, headers: jsonHeaders });
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return respond(405, { error: "Method not allowed" });
+  }
+
+  const authResult = await requireAuthUser(req, corsHeaders);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { supabaseAdmin, user } = authResult;
+
+  const body = await req.json().catch(() => null) as {
+    purchase_id?: unknown;
+    invoice_id?: unknown;
+  } | null;
+  const purchaseId = asNonEmptyString(body?.purchase_id);
+  const invoiceId = asNonEmptyString(body?.invoice_id);
+
+  if ((!purchaseId && !invoiceId) || (purchaseId && !isUuid(purchaseId)) || (invoiceId && !isUuid(invoiceId))) {
+    return respond(400, { error: "Invalid purchase_id or invoice_id" });
+  }
+
+  const rateLimit = await enforceUserRateLimit(supabaseAdmin, user.id);
+  if (!rateLimit.allowed) {
+    return respond(rateLimit.status, { error: rateLimit.error });
+  }
+
+  let invoice: InvoiceRow | null = null;
+
+  if (invoiceId) {
+    const { data, error } = await supabaseAdmin
+      .from("invoices")
+      .select(INVOICE_COLUMNS)
+      .eq("id", invoiceId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[get-invoice-url] Invoice fetch failed", error);
+      return respond(500, { error: "Failed to load invoice" });
+    }
+
+    if (!data) {
+      return respond(404, { error: "Invoice not found" });
+    }
+
+    invoice = data as InvoiceRow;
+  } else if (purchaseId) {
+    const resolved = await resolvePurchaseInvoice(supabaseAdmin, purchaseId, user.id);
+    if ("error" in resolved) {
+      return respond(resolved.status, { error: resolved.error });
+    }
+    invoice = resolved.invoice;
+  }
+
+  if (!invoice || invoice.buyer_id !== user.id) {
+    return respond(403, { error: "Forbidden" });
+  }
+
+  let pdfPath = asNonEmptyString(invoice.pdf_path);
+
+  if (!pdfPath) {
+    await callInvoiceGenerator(invoice.id);
+
+    const { data: refreshed, error: refreshError } = await supabaseAdmin
+      .from("invoices")
+      .select("pdf_path")
+      .eq("id", invoice.id)
+      .maybeSingle();
+
+    if (refreshError) {
+      console.error("[get-invoice-url] Invoice refresh failed", refreshError);
+    }
+
+    pdfPath = asNonEmptyString(refreshed?.pdf_path);
+  }
+
+  if (!pdfPath) {
+    return respond(503, { error: "Invoice PDF unavailable" });
+  }
+
+  const { data: signed, error: signedError } = await supabaseAdmin.storage
+    .from(INVOICE_BUCKET)
+    .createSignedUrl(pdfPath, INVOICE_SIGNED_URL_TTL_SECONDS, {
+      download: `${invoice.invoice_number}.pdf`,
+    });
+
+  if (signedError || !signed?.signedUrl) {
+    console.error("[get-invoice-url] Failed to sign invoice URL", {
+      invoiceId: invoice.id,
+      signedError,
+    });
+    return respond(500, { error: "Failed to sign invoice URL" });
+  }
+
+  return respond(200, {
+    url: signed.signedUrl,
+    expires_in: INVOICE_SIGNED_URL_TTL_SECONDS,
+    invoice_id: invoice.id,
+    invoice_number: invoice.invoice_number,
+  });
+});
@@ -81,6 +81,9 @@ const DOWNLOAD_ACCESS_PER_PRODUCT_PER_MINUTE = 5;
 const DOWNLOAD_ACCESS_PER_USER_PER_TEN_MINUTES = 20;
 const DOWNLOAD_ACCESS_PER_PRODUCT_WINDOW_MS = 60 * 1000;
 const DOWNLOAD_ACCESS_PER_USER_WINDOW_MS = 10 * 60 * 1000;
+const STEM_FILE_KINDS = ["stem", "stem_archive"];
+// Stems flagged as silent or off-length are still delivered; invalid ones are not.
+const DELIVERABLE_STEM_STATUSES = ["valid", "warning"];
 const UUID_RE =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
@@ -222,26 +225,92 @@ async function userHasCompletedPurchase(
 ) {
   // Strict security rule:
   // master access requires a paid purchase completed for this user/product pair.
-  const { data: terminalPurchases, error: purchaseError } = await supabaseAdmin
+  // Refunded purchases never grant it and an open payment dispute suspends it.
+  const { data: completedPurchase, error: purchaseError } = await supabaseAdmin
     .from("purchases")
-    .select("status, created_at")
+    .select("id")
     .eq("user_id", userId)
     .eq("product_id", productId)
-    .in("status", ["completed", "refunded"])
-    .order("created_at", { ascending: false })
-    .limit(20);
+    .eq("status", "completed")
+    .is("disputed_at", null)
+    .limit(1)
+    .maybeSingle();
 
   if (purchaseError) {
     throw new Error(`Failed to check purchases: ${purchaseError.message}`);
   }
 
-  const latestTerminalPurchase = ((terminalPurchases ?? []) as Array<{ status: string | null }>)
-    .find((row) => row.status === "completed" || row.status === "refunded");
-  if (!latestTerminalPurchase) {
-    return false;
+  return Boolean(completedPurchase);
+}
+
+async function userPurchaseIncludesStems(
+  supabaseAdmin: any,
+  userId: string,
+  productId: string,
+) {
+  // Stems ship with licenses flagged stems_included and with exclusive sales.
+  const { data: completedPurchases, error: purchaseError } = await supabaseAdmin
+    .from("purchases")
+    .select("is_exclusive, license:licenses!purchases_license_id_fkey(stems_included)")
+    .eq("user_id", userId)
+    .eq("product_id", productId)
+    .eq("status", "completed")
+    .is("disputed_at", null)
+    .limit(20);
+
+  if (purchaseError) {
+    throw new Error(`Failed to check purchased licenses: ${purchaseError.message}`);
+  }
+
+  return ((completedPurchases ?? []) as Array<{
+    is_exclusive: boolean | null;
+    license: { stems_included: boolean | null } | null;
+  }>).some((row) => row.is_exclusive === true || row.license?.stems_included === true);
+}
+
+async function loadDeliverableStemFiles(
+  supabaseAdmin: any,
+  productId: string,
+  producerId: string,
+) {
+  const { data: stemRows, error: stemError } = await supabaseAdmin
+    .from("product_files")
+    .select("id, file_name, file_url, file_kind")
+    .eq("product_id", productId)
+    .in("file_kind", STEM_FILE_KINDS)
+    .in("validation_status", DELIVERABLE_STEM_STATUSES)
+    .order("sort_order", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (stemError) {
+    throw new Error(`Failed to load stems: ${stemError.message}`);
+  }
+
+  const files: Array<{ id: string; name: string; kind: string; path: string }> = [];
+  for (const row of (stemRows ?? []) as Array<{
+    id: string;
+    file_name: string;
+    file_url: string;
+    file_kind: string;
+  }>) {
+    const parsed = normalizePathCandidate(row.file_url, MASTER_BUCKET);
+    if (
+      !parsed ||
+      !CANONICAL_MASTER_BUCKETS.includes(parsed.bucket) ||
+      pathHasTraversal(parsed.path) ||
+      !normalizeStoragePath(parsed.path).startsWith(`${producerId}/${productId}/stems/`)
+    ) {
+      console.warn("[get-master-url] Skipping stem with invalid path", {
+        productId,
+        fileId: row.id,
+      });
+      continue;
+    }
+
+    files.push({ id: row.id, name: row.file_name, kind: row.file_kind, path: normalizeStoragePath(parsed.path) });
   }
 
-  return latestTerminalPurchase.status === "completed";
+  return files;
 }
 
 async function checkSuccessfulGrantRateLimits(
@@ -335,6 +404,7 @@ serveWithErrorHandling("get-master-url", async (req: Request) => {
       beat_id?: unknown;
       product_id?: unknown;
       expires_in?: unknown;
+      asset?: unknown;
     } | null;
 
     const productId = (
@@ -380,10 +450,12 @@ serveWithErrorHandling("get-master-url", async (req: Request) => {
     }
 
     const expiresIn = normalizeExpiresIn(body?.expires_in);
+    const asset = body?.asset === "stems" ? "stems" : "master";
 
     console.log("[get-master-url] Request", {
       userId: user.id,
       productId,
+      asset,
       expiresIn,
       bucket: MASTER_BUCKET,
     });
@@ -436,6 +508,87 @@ serveWithErrorHandling("get-master-url", async (req: Request) => {
       });
     }
 
+    if (asset === "stems") {
+      const includesStems = await userPurchaseIncludesStems(supabaseAdmin, user.id, productId);
+      if (!includesStems) {
+        console.warn("[get-master-url] Forbidden: license does not include stems", {
+          userId: user.id,
+          productId,
+        });
+        return new Response(JSON.stringify({
+          error: "License does not include stems",
+          code: "stems_not_included",
+        }), {
+          status: 403,
+          headers: jsonHeaders,
+        });
+      }
+
+      const stemFiles = await loadDeliverableStemFiles(supabaseAdmin, productId, producerId);
+      if (stemFiles.length === 0) {
+        return new Response(JSON.stringify({
+          error: "Stems unavailable",
+          code: "stems_unavailable",
+        }), {
+          status: 404,
+          headers: jsonHeaders,
+        });
+      }
+
+      const stemGrantRateLimit = await checkSuccessfulGrantRateLimits(
+        supabaseAdmin,
+        user.id,
+        productId,
+      );
+      if (!stemGrantRateLimit.allowed) {
+        return new Response(JSON.stringify({ error: stemGrantRateLimit.error }), {
+          status: stemGrantRateLimit.status,
+          headers: jsonHeaders,
+        });
+      }
+
+      const signedFiles: Array<{ id: string; name: string; kind: string; url: string }> = [];
+      for (const stemFile of stemFiles) {
+        const { data, error } = await supabaseAdmin.storage
+          .from(MASTER_BUCKET)
+          .createSignedUrl(stemFile.path, expiresIn, { download: stemFile.name });
+
+        if (error || !data?.signedUrl) {
+          console.error("[get-master-url] Failed to sign stem URL", {
+            productId,
+            userId: user.id,
+            fileId: stemFile.id,
+            error,
+          });
+          continue;
+        }
+
+        signedFiles.push({ id: stemFile.id, name: stemFile.name, kind: stemFile.kind, url: data.signedUrl });
+      }
+
+      if (signedFiles.length === 0) {
+        return new Response(JSON.stringify({ error: "Stems unavailable", code: "stems_unavailable" }), {
+          status: 404,
+          headers: jsonHeaders,
+        });
+      }
+
+      await logSuccessfulGrant(supabaseAdmin, {
+        userId: user.id,
+        productId,
+        ipAddress: extractClientIp(req),
+        userAgent: asNonEmptyString(req.headers.get("user-agent")),
+      });
+
+      return new Response(JSON.stringify({
+        files: signedFiles,
+        expiresIn,
+      }), {
+        status: 200,
+        headers: jsonHeaders,
+      });
+    }
+
     const masterPathCandidates = [
       asNonEmptyString(productRow.master_path),
       asNonEmptyString(productRow.master_url),
@@ -322,6 +322,99 @@ const getTemplateContent = (params: {
     };
   }
 
+  if (template === "purchase_refunded") {
+    const purchaseId = asNonEmptyString(payload?.purchase_id) ?? "N/A";
+    const productTitle = asNonEmptyString(payload?.product_title);
+    const amountCents = typeof payload?.amount_cents === "number" ? payload.amount_cents : null;
+    const isDisputeLost = payload?.reason === "dispute_lost";
+    const metaLines = [
+      productTitle ? `Beat : ${productTitle}` : null,
+      amountCents !== null ? `Montant : ${(amountCents / 100).toFixed(2).replace(".", ",")} €` : null,
+      `Reference : ${purchaseId}`,
+    ].filter((line): line is string => line !== null);
+
+    return {
+      subject: productTitle
+        ? `Ton achat "${productTitle}" a ete annule`
+        : "Ton achat Beatelion a ete annule",
+      ...buildBrandedEmailContent({
+        appUrl: safeAppUrl,
+        title: isDisputeLost ? "Achat annule apres contestation" : "Achat rembourse",
+        preheader: "La licence associee a cet achat n'est plus valable",
+        bodyLines: [
+          isDisputeLost
+            ? "Le paiement de cet achat a ete conteste aupres de ta banque et annule."
+            : "Cet achat a ete rembourse.",
+          "La licence et son contrat ne sont plus valables et le telechargement du beat est desactive.",
+        ],
+        ctaLabel: "Voir mon dashboard",
+        ctaUrl: dashboardUrl,
+        metaLines,
+      }),
+    };
+  }
+
+  if (template === "sale_refunded") {
+    const purchaseId = asNonEmptyString(payload?.purchase_id) ?? "N/A";
+    const productTitle = asNonEmptyString(payload?.product_title);
+    const shareCents = typeof payload?.producer_share_cents === "number" ? payload.producer_share_cents : null;
+    const isClawback = payload?.payout_status === "clawback_due";
+    const metaLines = [
+      productTitle ? `Beat : ${productTitle}` : null,
+      shareCents !== null ? `Part producteur : ${(shareCents / 100).toFixed(2).replace(".", ",")} €` : null,
+      `Reference : ${purchaseId}`,
+    ].filter((line): line is string => line !== null);
+
+    return {
+      subject: productTitle
+        ? `La vente de "${productTitle}" a ete annulee`
+        : "Une de tes ventes a ete annulee",
+      ...buildBrandedEmailContent({
+        appUrl: safeAppUrl,
+        title: "Vente annulee",
+        preheader: "Un acheteur a ete rembourse",
+        bodyLines: [
+          payload?.reason === "dispute_lost"
+            ? "L'acheteur a conteste le paiement aupres de sa banque et la contestation a ete perdue."
+            : "Cette vente a ete remboursee a l'acheteur.",
+          isClawback
+            ? "Ta part ayant deja ete versee, elle sera deduite de tes prochains revenus."
+            : "Ta part sur cette vente est annulee et n'apparait plus dans tes revenus.",
+        ],
+        ctaLabel: "Voir mes revenus",
+        ctaUrl: `${safeAppUrl}/producer/earnings`,
+        metaLines,
+      }),
+    };
+  }
+
+  if (template === "sale_disputed") {
+    const purchaseId = asNonEmptyString(payload?.purchase_id) ?? "N/A";
+    const productTitle = asNonEmptyString(payload?.product_title);
+    const metaLines = [
+      productTitle ? `Beat : ${productTitle}` : null,
+      `Reference : ${purchaseId}`,
+    ].filter((line): line is string => line !== null);
+
+    return {
+      subject: productTitle
+        ? `Paiement conteste pour "${productTitle}"`
+        : "Un paiement de vente est conteste",
+      ...buildBrandedEmailContent({
+        appUrl: safeAppUrl,
+        title: "Paiement conteste",
+        preheader: "Un acheteur conteste le paiement d'une de tes ventes",
+        bodyLines: [
+          "L'acheteur a ouvert une contestation aupres de sa banque pour cette vente.",
+          "Son acces au beat est suspendu le temps de la contestation. Si elle est perdue, la vente sera annulee.",
+        ],
+        ctaLabel: "Voir mes revenus",
+        ctaUrl: `${safeAppUrl}/producer/earnings`,
+        metaLines,
+      }),
+    };
+  }
+
   if (template === "license_ready") {
     const purchaseId = asNonEmptyString(payload?.purchase_id) ?? "N/A";
     return {
@@ -31,7 +31,10 @@ type EventType =
   | "LICENSE_GENERATED"
   | "BATTLE_WON"
   | "BATTLE_INVITATION"
-  | "COMMENT_RECEIVED";
+  | "COMMENT_RECEIVED"
+  | "PURCHASE_REFUNDED"
+  | "SALE_REFUNDED"
+  | "SALE_DISPUTED";
 
 type EventHandler = {
   event_type: EventType;
@@ -1,9 +1,17 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { requireAuthUser } from "../_shared/auth.ts";
 import { serveWithErrorHandling } from "../_shared/error-handler.ts";
+import {
+  bindPromoCodeReservation,
+  type PromoCodeReservation,
+  releasePromoCodeReservation,
+  reservePromoCode,
+  toSessionExpiresAt,
+} from "../_shared/promoCodeReservations.ts";
 
 interface CheckoutBody {
   tier?: string;
+  promo_code?: string;
   success_url?: string;
   cancel_url?: string;
 }
@@ -15,6 +23,15 @@ interface CheckoutSuccessResponse {
 }
 
 type CheckoutTier = "producteur" | "elite";
+
+interface PlanPromoCode {
+  id: string;
+  code: string;
+  discount_type: "percent" | "fixed";
+  discount_value: number;
+  scope: string;
+  plan_tier: string | null;
+}
 const CHECKOUT_TIERS = new Set<CheckoutTier>(["producteur", "elite"]);
 const ACTIVE_SUBSCRIPTION_STATUSES = new Set(["active", "trialing"]);
 const KNOWN_PLACEHOLDER_PRICE_IDS = new Set([
@@ -501,6 +518,54 @@ serveWithErrorHandling("producer-checkout", async (req: Request) => {
       );
     }
 
+    const requestedPromoCode = typeof body.promo_code === "string" &&
+        body.promo_code.trim().length > 0
+      ? body.promo_code.trim()
+      : null;
+    let promoCode: PlanPromoCode | null = null;
+
+    if (requestedPromoCode) {
+      const { data: promoRow, error: promoError } = await supabaseAdmin
+        .rpc("check_promo_code", {
+          p_code: requestedPromoCode,
+          p_user_id: user.id,
+          p_context: "plan",
+        });
+
+      if (promoError) {
+        const promoErrorCode =
+          promoError.message.match(/promo_code_[a-z_]+/)?.[0] ?? null;
+        if (!promoErrorCode) {
+          console.error("DB_ERROR", {
+            function: "producer-checkout",
+            stage: "check_promo_code",
+            message: promoError.message,
+          });
+        }
+        return new Response(
+          JSON.stringify({
+            error: promoErrorCode ?? "Unable to validate promo code",
+          }),
+          {
+            status: promoErrorCode ? 400 : 500,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      promoCode = promoRow as PlanPromoCode;
+
+      if (promoCode.plan_tier && promoCode.plan_tier !== requestedTier) {
+        return new Response(
+          JSON.stringify({ error: "promo_code_not_applicable" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
     let customerId = profile?.stripe_customer_id || null;
 
     if (!customerId) {
@@ -541,6 +606,82 @@ serveWithErrorHandling("producer-checkout", async (req: Request) => {
         .eq("id", user.id);
     }
 
+    // Plan codes apply to the first invoice only, through a single-use coupon.
+    let couponId: string | null = null;
+    if (promoCode) {
+      const couponResp = await fetch("https://api.stripe.com/v1/coupons", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${stripeSecret}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          duration: "once",
+          max_redemptions: "1",
+          name: promoCode.code,
+          "metadata[promo_code_id]": promoCode.id,
+          "metadata[user_id]": user.id,
+          ...(promoCode.discount_type === "percent"
+            ? { percent_off: promoCode.discount_value.toString() }
+            : {
+              amount_off: promoCode.discount_value.toString(),
+              currency: "eur",
+            }),
+        }),
+      });
+
+      const coupon = await couponResp.json();
+      if (!couponResp.ok || coupon.error) {
+        console.error("STRIPE_ERROR", {
+          function: "producer-checkout",
+          stage: "create_coupon",
+          message: coupon.error?.message,
+          type: coupon.error?.type,
+          code: coupon.error?.code,
+        });
+        return new Response(
+          JSON.stringify({ error: "Unable to apply promo code" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+      couponId = coupon.id;
+    }
+
+    let promoReservation: PromoCodeReservation | null = null;
+    if (promoCode) {
+      const { reservation, error: reservationError } = await reservePromoCode(
+        supabaseAdmin,
+        stripeSecret,
+        { promoCodeId: promoCode.id, userId: user.id, context: "plan" },
+      );
+
+      if (reservationError || !reservation) {
+        const promoErrorCode =
+          reservationError?.message.match(/promo_code_[a-z_]+/)?.[0] ?? null;
+        if (!promoErrorCode) {
+          console.error("DB_ERROR", {
+            function: "producer-checkout",
+            stage: "reserve_promo_code",
+            message: reservationError?.message ??
+              "promo_code_reservation_missing",
+          });
+        }
+        return new Response(
+          JSON.stringify({
+            error: promoErrorCode ?? "Unable to validate promo code",
+          }),
+          {
+            status: promoErrorCode ? 400 : 500,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+      promoReservation = reservation;
+    }
+
     // Create subscription checkout session
     const sessionParams = new URLSearchParams({
       mode: "subscription",
@@ -553,6 +694,16 @@ serveWithErrorHandling("producer-checkout", async (req: Request) => {
       "metadata[requested_tier]": requestedTier,
       "subscription_data[metadata][user_id]": user.id,
       "subscription_data[metadata][requested_tier]": requestedTier,
+      ...(promoCode && couponId
+        ? {
+          "discounts[0][coupon]": couponId,
+          "metadata[promo_code_id]": promoCode.id,
+          "metadata[promo_code]": promoCode.code,
+        }
+        : {}),
+      ...(promoReservation
+        ? { expires_at: toSessionExpiresAt(promoReservation) }
+        : {}),
     });
 
     const sessionResp = await fetch(
@@ -579,6 +730,9 @@ serveWithErrorHandling("producer-checkout", async (req: Request) => {
         param: session.error?.param,
         priceId,
       });
+      if (promoReservation) {
+        await releasePromoCodeReservation(supabaseAdmin, promoReservation.id);
+      }
       const message = session.error?.message || session.error ||
         "Stripe checkout failed";
       return new Response(JSON.stringify({ error: message }), {
@@ -587,6 +741,14 @@ serveWithErrorHandling("producer-checkout", async (req: Request) => {
       });
     }
 
+    if (promoReservation) {
+      await bindPromoCodeReservation(
+        supabaseAdmin,
+        promoReservation.id,
+        session.id,
+      );
+    }
+
     const responseBody: CheckoutSuccessResponse = {
       url: session.url,
       sessionId: session.id,
@@ -2,7 +2,17 @@ import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import Stripe from "npm:stripe@17";
 import { invokeContractGeneration, resolveContractGenerateEndpoint } from "../_shared/contract-generation.js";
+import { isPresentmentCurrency, toPresentmentAmount } from "../_shared/currency.ts";
 import { serveWithErrorHandling } from "../_shared/error-handler.ts";
+import {
+  planTransferReversal,
+  resolveDisputeTransition,
+  resolveTransferRate,
+  selectRefundedPurchases,
+  splitUnreversedAmount,
+  toEurCents,
+  type ReversiblePurchase,
+} from "../_shared/purchaseReversal.ts";
 import { captureException, type RequestContext } from "../_shared/sentry.ts";
 
 const jsonHeaders = {
@@ -91,7 +101,17 @@ type CheckoutCompletionItem = {
   amount: number;
   isExclusive: boolean;
   licenseType: string;
+  licenseId: string | null;
+  upgradeFromPurchaseId: string | null;
   producerPayoutAmount: number | null;
+  discounts: CheckoutItemDiscounts | null;
+};
+
+type CheckoutItemDiscounts = {
+  listAmount: number;
+  dealId: string | null;
+  dealDiscount: number;
+  promoDiscount: number;
 };
 
 async function claimGa4PurchaseTracking(
@@ -697,6 +717,7 @@ async function resolveLicenseIdForCheckout(
       .from("licenses")
       .select("id")
       .ilike("name", nameCandidate)
+      .is("producer_id", null)
       .limit(1)
       .maybeSingle();
 
@@ -712,6 +733,7 @@ async function resolveLicenseIdForCheckout(
       .from("licenses")
       .select("id")
       .eq("exclusive_allowed", true)
+      .is("producer_id", null)
       .order("price", { ascending: false })
       .limit(1)
       .maybeSingle();
@@ -726,6 +748,7 @@ async function resolveLicenseIdForCheckout(
       .from("licenses")
       .select("id")
       .ilike("name", "standard")
+      .is("producer_id", null)
       .limit(1)
       .maybeSingle();
 
@@ -834,6 +857,45 @@ const parseNonNegativeIntMetadata = (value: unknown): number | null => {
   return Number.isSafeInteger(parsed) && parsed >= 0 ? parsed : null;
 };
 
+// create-checkout writes `${listAmount}:${dealDiscount}:${promoDiscount}:${dealId}`
+// for discounted items; the shares must add up to the amount charged.
+const parseDiscountsMetadata = (value: unknown, amount: number): CheckoutItemDiscounts | null => {
+  const rawValue = asNonEmptyString(value);
+  if (!rawValue) return null;
+  const [rawListAmount, rawDealDiscount, rawPromoDiscount, rawDealId] = rawValue.split(":");
+  const listAmount = parsePositiveIntMetadata(rawListAmount);
+  const dealDiscount = parseNonNegativeIntMetadata(rawDealDiscount);
+  const promoDiscount = parseNonNegativeIntMetadata(rawPromoDiscount);
+  if (listAmount === null || dealDiscount === null || promoDiscount === null) return null;
+  if (listAmount - dealDiscount - promoDiscount !== amount) return null;
+  return { listAmount, dealId: asNonEmptyString(rawDealId), dealDiscount, promoDiscount };
+};
+
+// Checkout amounts in metadata stay in euro cents; non-euro sessions carry
+// the currency and exchange rate they were charged at.
+const resolveCheckoutPresentment = (
+  metadata: Record<string, string>,
+  sessionCurrency: unknown,
+): { currency: string; rate: number } => {
+  const currency = asNonEmptyString(metadata.presentment_currency)?.toUpperCase() ?? "EUR";
+  const rate = currency === "EUR" ? 1 : Number(asNonEmptyString(metadata.fx_rate));
+  const chargedCurrency = asNonEmptyString(sessionCurrency)?.toUpperCase() ?? "EUR";
+
+  if (!isPresentmentCurrency(currency)) {
+    throw new WebhookError(`Unsupported checkout currency ${currency}`, 400, true);
+  }
+
+  if (chargedCurrency !== currency || !Number.isFinite(rate) || rate <= 0) {
+    throw new WebhookError(
+      `Checkout currency mismatch (expected ${currency}, got ${chargedCurrency})`,
+      400,
+      true,
+    );
+  }
+
+  return { currency, rate };
+};
+
 function resolveCheckoutCompletionItems(
   metadata: Record<string, string>,
   amountTotal: number,
@@ -856,7 +918,10 @@ function resolveCheckoutCompletionItems(
         amount,
         isExclusive: metadata[`item_${index}_is_exclusive`] === "true",
         licenseType: asNonEmptyString(metadata[`item_${index}_license_type`]) || "standard",
+        licenseId: asNonEmptyString(metadata[`item_${index}_license_id`]),
+        upgradeFromPurchaseId: null,
         producerPayoutAmount: parseNonNegativeIntMetadata(metadata[`item_${index}_producer_payout_amount`]),
+        discounts: parseDiscountsMetadata(metadata[`item_${index}_discounts`], amount),
       });
     }
 
@@ -878,7 +943,10 @@ function resolveCheckoutCompletionItems(
     amount,
     isExclusive: metadata.is_exclusive === "true",
     licenseType: asNonEmptyString(metadata.license_type) || asNonEmptyString(metadata.license_name) || "standard",
+    licenseId: asNonEmptyString(metadata.license_id),
+    upgradeFromPurchaseId: asNonEmptyString(metadata.upgrade_from_purchase_id),
     producerPayoutAmount: parseNonNegativeIntMetadata(metadata.producer_payout_amount),
+    discounts: null,
   }];
 }
 
@@ -923,6 +991,156 @@ async function applyFallbackPayoutTracking(
     .eq("id", purchaseId);
 }
 
+async function applyPresentmentTracking(
+  supabase: ReturnType<typeof createClient>,
+  purchaseId: string,
+  amount: number,
+  presentment: { currency: string; rate: number },
+) {
+  // Euro purchases keep the column defaults.
+  if (presentment.currency === "EUR") return;
+
+  const { error } = await supabase
+    .from("purchases")
+    .update({
+      presentment_currency: presentment.currency,
+      presentment_amount: toPresentmentAmount(amount, presentment),
+      fx_rate: presentment.rate,
+    })
+    .eq("id", purchaseId);
+
+  if (error) {
+    console.error("[stripe-webhook] Failed to record purchase presentment currency", {
+      purchaseId,
+      currency: presentment.currency,
+      message: error.message,
+    });
+  }
+}
+
+// Splits Stripe's checkout tax over the lines in proportion to what each was
+// charged; the last line takes the rounding remainder.
+const allocateCheckoutTax = (taxTotal: number, lineAmounts: number[]) => {
+  const chargedTotal = lineAmounts.reduce((sum, amount) => sum + amount, 0);
+  if (taxTotal <= 0 || chargedTotal <= 0) return lineAmounts.map(() => 0);
+
+  let allocated = 0;
+  return lineAmounts.map((amount, index) => {
+    if (index === lineAmounts.length - 1) return taxTotal - allocated;
+    const share = Math.floor((taxTotal * amount) / chargedTotal);
+    allocated += share;
+    return share;
+  });
+};
+
+// Invoice numbers follow the order sales complete in; the PDF itself is
+// rendered on first download (get-invoice-url). A failure here only delays
+// the number until then.
+async function issueCheckoutInvoices(
+  supabase: ReturnType<typeof createClient>,
+  sessionId: string,
+  purchaseResults: Array<{ item: CheckoutCompletionItem; purchaseId: string }>,
+  presentment: { currency: string; rate: number },
+  taxTotal: number,
+) {
+  const taxShares = allocateCheckoutTax(
+    taxTotal,
+    purchaseResults.map(({ item }) => toPresentmentAmount(item.amount, presentment)),
+  );
+
+  for (const [index, { purchaseId }] of purchaseResults.entries()) {
+    const { error } = await supabase.rpc("issue_invoice_for_purchase", {
+      p_purchase_id: purchaseId,
+      p_tax_cents: taxShares[index] ?? 0,
+    });
+
+    if (error) {
+      console.error("[stripe-webhook] Failed to issue purchase invoice", {
+        sessionId,
+        purchaseId,
+        message: error.message,
+      });
+    }
+  }
+}
+
+async function applyDiscountTracking(
+  supabase: ReturnType<typeof createClient>,
+  purchaseId: string,
+  item: CheckoutCompletionItem,
+  promoCode: { id: string; code: string } | null,
+) {
+  const discounts = item.discounts;
+  if (!discounts && !promoCode) return;
+
+  const { data: existingPurchase, error: fetchError } = await supabase
+    .from("purchases")
+    .select("metadata")
+    .eq("id", purchaseId)
+    .maybeSingle();
+
+  if (fetchError || !existingPurchase) {
+    if (fetchError) {
+      console.error("[stripe-webhook] Failed to fetch purchase metadata for discount tracking", {
+        purchaseId,
+        message: fetchError.message,
+      });
+    }
+    return;
+  }
+
+  const existingMetadata =
+    typeof existingPurchase?.metadata === "object" && existingPurchase?.metadata !== null
+      ? existingPurchase.metadata as Record<string, unknown>
+      : {};
+
+  const { error: updateError } = await supabase
+    .from("purchases")
+    .update({
+      metadata: {
+        ...existingMetadata,
+        ...(discounts ? { list_amount: discounts.listAmount } : {}),
+        ...(discounts?.dealId ? { deal_id: discounts.dealId, deal_discount: discounts.dealDiscount } : {}),
+        ...(promoCode
+          ? { promo_code_id: promoCode.id, promo_code: promoCode.code, promo_discount: discounts?.promoDiscount ?? 0 }
+          : {}),
+      },
+    })
+    .eq("id", purchaseId);
+
+  if (updateError) {
+    console.error("[stripe-webhook] Failed to record purchase discounts", {
+      purchaseId,
+      message: updateError.message,
+    });
+  }
+}
+
+async function recordPromoCodeRedemption(
+  supabase: ReturnType<typeof createClient>,
+  params: {
+    promoCodeId: string;
+    userId: string;
+    sessionId: string;
+    context: "marketplace" | "plan";
+    discountAmount: number;
+    purchaseIds: string[];
+  },
+) {
+  const { error } = await supabase.rpc("record_promo_code_redemption", {
+    p_promo_code_id: params.promoCodeId,
+    p_user_id: params.userId,
+    p_checkout_session_id: params.sessionId,
+    p_context: params.context,
+    p_discount_amount: params.discountAmount,
+    p_purchase_ids: params.purchaseIds,
+  });
+
+  if (error) {
+    throw new Error(`record_promo_code_redemption failed: ${error.message}`);
+  }
+}
+
 const isCheckoutSession = (
   object: Stripe.Event.Data.Object,
 ): object is Stripe.Checkout.Session => object.object === "checkout.session";
@@ -935,6 +1153,14 @@ const isInvoice = (
   object: Stripe.Event.Data.Object,
 ): object is Stripe.Invoice => object.object === "invoice";
 
+const isCharge = (
+  object: Stripe.Event.Data.Object,
+): object is Stripe.Charge => object.object === "charge";
+
+const isDispute = (
+  object: Stripe.Event.Data.Object,
+): object is Stripe.Dispute => object.object === "dispute";
+
 async function notifyContractService(purchaseId: string) {
   const resolvedEndpoint = resolveContractGenerateEndpoint({
     CONTRACT_GENERATE_ENDPOINT: Deno.env.get("CONTRACT_GENERATE_ENDPOINT"),
@@ -1448,6 +1674,21 @@ async function processStripeEvent(
       await handlePaymentFailed(supabase, event.data.object);
       break;
     }
+    case "charge.refunded": {
+      if (!isCharge(event.data.object)) {
+        throw new WebhookError("Invalid payload for charge.refunded", 400, true);
+      }
+      await reversePurchasesForCharge(supabase, stripe, event.data.object, "refund");
+      break;
+    }
+    case "charge.dispute.created":
+    case "charge.dispute.closed": {
+      if (!isDispute(event.data.object)) {
+        throw new WebhookError(`Invalid payload for ${event.type}`, 400, true);
+      }
+      await handleChargeDispute(supabase, stripe, event.data.object);
+      break;
+    }
     case "payout.failed": {
       const payout = event.data.object as Stripe.Payout;
 
@@ -1828,6 +2069,20 @@ async function handleCheckoutCompleted(
     } else {
       await upsertProducerSubscriptionFromStripe(supabase, stripe, subscriptionId, subscription);
     }
+
+    // producer-checkout turns plan promo codes into a one-off Stripe coupon.
+    const planPromoCodeId = asNonEmptyString(metadata.promo_code_id);
+    const planUserId = asNonEmptyString(metadata.user_id);
+    if (planPromoCodeId && planUserId) {
+      await recordPromoCodeRedemption(supabase, {
+        promoCodeId: planPromoCodeId,
+        userId: planUserId,
+        sessionId,
+        context: "plan",
+        discountAmount: session.total_details?.amount_discount ?? 0,
+        purchaseIds: [],
+      });
+    }
     return;
   }
 
@@ -1848,8 +2103,13 @@ async function handleCheckoutCompleted(
     throw new WebhookError("Missing secure checkout metadata for purchase completion", 400, true);
   }
 
+  const presentment = resolveCheckoutPresentment(metadata, session.currency);
   const checkoutItems = resolveCheckoutCompletionItems(metadata, amountTotal);
   const itemAmountTotal = checkoutItems.reduce((sum, item) => sum + item.amount, 0);
+  const chargedAmountTotal = checkoutItems.reduce(
+    (sum, item) => sum + toPresentmentAmount(item.amount, presentment),
+    0,
+  );
   const metadataAmountSnapshot =
     parsePositiveIntMetadata(metadata.cart_amount_snapshot) ??
     parsePositiveIntMetadata(metadata.db_price_snapshot) ??
@@ -1857,12 +2117,12 @@ async function handleCheckoutCompleted(
 
   if (
     checkoutItems.length === 0 ||
-    itemAmountTotal !== amountTotal ||
+    chargedAmountTotal !== amountTotal ||
     metadataAmountSnapshot === null ||
-    metadataAmountSnapshot !== amountTotal
+    metadataAmountSnapshot !== itemAmountTotal
   ) {
     throw new WebhookError(
-      `Checkout amount mismatch (expected ${metadataAmountSnapshot ?? "unknown"}, got ${amountTotal})`,
+      `Checkout amount mismatch (expected ${metadataAmountSnapshot ?? "unknown"}, got ${amountTotal} ${presentment.currency})`,
       400,
       true,
     );
@@ -1870,14 +2130,18 @@ async function handleCheckoutCompleted(
 
   const stripeConnectMode = asNonEmptyString(metadata.stripe_connect_mode);
   const priceSource = asNonEmptyString(metadata.price_source);
+  const promoCodeId = asNonEmptyString(metadata.promo_code_id);
+  const promoCode = promoCodeId ? { id: promoCodeId, code: asNonEmptyString(metadata.promo_code) ?? "" } : null;
   const purchaseResults: Array<{ item: CheckoutCompletionItem; purchaseId: string }> = [];
 
   for (const item of checkoutItems) {
     let purchaseId: string | null = null;
 
-    if (checkoutItems.length === 1 && priceSource !== "products.price") {
-      const metadataLicenseId = asNonEmptyString(metadata.license_id);
-      const metadataLicenseName = asNonEmptyString(metadata.license_name);
+    // Items priced from a producer tier always carry their license id; the
+    // license purchase RPC is what records the tier and its terms.
+    if (item.licenseId || (checkoutItems.length === 1 && priceSource !== "products.price")) {
+      const metadataLicenseId = item.licenseId ?? asNonEmptyString(metadata.license_id);
+      const metadataLicenseName = checkoutItems.length === 1 ? asNonEmptyString(metadata.license_name) : null;
       const resolvedLicenseId = await resolveLicenseIdForCheckout(supabase, {
         metadataLicenseId,
         metadataLicenseName,
@@ -1893,10 +2157,13 @@ async function handleCheckoutCompleted(
           p_payment_intent_id: paymentIntentId,
           p_license_id: resolvedLicenseId,
           p_amount: item.amount,
+          ...(item.upgradeFromPurchaseId ? { p_upgraded_from_purchase_id: item.upgradeFromPurchaseId } : {}),
         });
 
         if (error) {
-          if (isMissingCompleteLicensePurchaseFunctionError(error)) {
+          // The legacy RPCs know nothing about upgrades and would hand back the
+          // purchase being upgraded.
+          if (isMissingCompleteLicensePurchaseFunctionError(error) && !item.upgradeFromPurchaseId) {
             console.warn("[stripe-webhook] complete_license_purchase missing, using legacy fallback", {
               sessionId,
               productId: item.productId,
@@ -1916,6 +2183,10 @@ async function handleCheckoutCompleted(
       }
     }
 
+    if (!purchaseId && item.upgradeFromPurchaseId) {
+      throw new Error(`License upgrade could not be completed (session ${sessionId})`);
+    }
+
     if (!purchaseId) {
       purchaseId = await completePurchaseWithLegacyRpc(supabase, {
         isExclusive: item.isExclusive,
@@ -1933,6 +2204,8 @@ async function handleCheckoutCompleted(
     }
 
     purchaseResults.push({ item, purchaseId });
+    await applyDiscountTracking(supabase, purchaseId, item, promoCode);
+    await applyPresentmentTracking(supabase, purchaseId, item.amount, presentment);
 
     if (stripeConnectMode === "fallback") {
       await applyFallbackPayoutTracking(
@@ -1984,6 +2257,25 @@ async function handleCheckoutCompleted(
     }
   }
 
+  await issueCheckoutInvoices(
+    supabase,
+    sessionId,
+    purchaseResults,
+    presentment,
+    session.total_details?.amount_tax ?? 0,
+  );
+
+  if (promoCode) {
+    await recordPromoCodeRedemption(supabase, {
+      promoCodeId: promoCode.id,
+      userId,
+      sessionId,
+      context: "marketplace",
+      discountAmount: parseNonNegativeIntMetadata(metadata.promo_discount_total) ?? 0,
+      purchaseIds: purchaseResults.map((result) => result.purchaseId),
+    });
+  }
+
   try {
     const currency = asNonEmptyString(session.currency)?.toUpperCase() ?? "EUR";
     const value = centsToCurrencyAmount(amountTotal);
@@ -2278,6 +2570,27 @@ async function handlePaymentSucceeded(
     console.warn("[handlePaymentSucceeded] No profile found for customer", { customerId });
   }
 
+  const stripeInvoiceId = asNonEmptyString(invoice.id);
+  if (profile && stripeInvoiceId && typeof invoice.amount_paid === "number" && invoice.amount_paid > 0) {
+    const paidAt = invoice.status_transitions?.paid_at;
+    const { error: invoiceError } = await supabase.rpc("issue_subscription_invoice", {
+      p_stripe_invoice_id: stripeInvoiceId,
+      p_buyer_id: profile.id,
+      p_description: asNonEmptyString(invoice.lines?.data?.[0]?.description) ?? "Subscription",
+      p_currency: asNonEmptyString(invoice.currency)?.toUpperCase() ?? "EUR",
+      p_amount_cents: invoice.amount_paid,
+      p_tax_cents: typeof invoice.tax === "number" ? invoice.tax : 0,
+      p_issued_at: typeof paidAt === "number" ? new Date(paidAt * 1000).toISOString() : new Date().toISOString(),
+    });
+
+    if (invoiceError) {
+      console.error("[handlePaymentSucceeded] Failed to issue subscription invoice", {
+        invoiceId: stripeInvoiceId,
+        message: invoiceError.message,
+      });
+    }
+  }
+
   try {
     const invoiceId = asNonEmptyString(invoice.id);
     const value = centsToCurrencyAmount(invoice.amount_paid);
@@ -2539,6 +2852,235 @@ async function handlePaymentFailed(
   }
 }
 
+type TransferReversalResult = {
+  transfer_id?: string;
+  transfer_currency?: string;
+  transfer_reversal_id?: string;
+  transfer_reversal_status?: "reversed" | "already_reversed" | "failed" | "currency_unresolved";
+  /** What the producers still owe, in the transfer currency. */
+  unreversed_transfer_amount?: number;
+  /** Same amount in euro cents, which reverse_purchase books as a clawback. */
+  unreversed_amount?: number;
+};
+
+const stripeObjectId = (value: string | { id: string } | null | undefined) =>
+  asNonEmptyString(typeof value === "string" ? value : value?.id);
+
+async function loadPurchasesForPaymentIntent(
+  supabase: ReturnType<typeof createClient>,
+  paymentIntentId: string,
+) {
+  const { data, error } = await supabase
+    .from("purchases")
+    .select("id, status, amount, presentment_amount, presentment_currency, fx_rate, producer_share_cents_snapshot")
+    .eq("stripe_payment_intent_id", paymentIntentId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load purchases for payment intent ${paymentIntentId}: ${error.message}`);
+  }
+
+  return (data as ReversiblePurchase[] | null) ?? [];
+}
+
+// Destination charges pay the producer through a transfer made at capture;
+// Stripe does not take it back on a refund or a lost dispute by itself.
+async function reverseConnectTransfer(
+  supabase: ReturnType<typeof createClient>,
+  stripe: Stripe,
+  charge: Stripe.Charge,
+  covered: ReversiblePurchase[],
+  fullRefund: boolean,
+): Promise<TransferReversalResult> {
+  const transferId = stripeObjectId(charge.transfer);
+  if (!transferId || covered.length === 0) {
+    return {};
+  }
+
+  const transfer = await stripe.transfers.retrieve(transferId);
+  const coveredShareCents = covered.reduce((sum, purchase) => sum + (purchase.producer_share_cents_snapshot ?? 0), 0);
+  const rate = resolveTransferRate(transfer.currency, covered[0]);
+  if (rate === null) {
+    // Nothing to convert the transfer with: the producers' share stays owed in euros.
+    await logStripeWebhookMonitoringAlert(supabase, {
+      eventType: "stripe_transfer_reversal_failed",
+      severity: "critical",
+      entityType: "charge",
+      details: { charge_id: charge.id, transfer_id: transferId, currency: transfer.currency, reason: "currency_unresolved" },
+    });
+    return {
+      transfer_id: transferId,
+      transfer_currency: transfer.currency,
+      transfer_reversal_status: "currency_unresolved",
+      unreversed_amount: coveredShareCents,
+    };
+  }
+
+  const amount = planTransferReversal({
+    remaining: transfer.amount - transfer.amount_reversed,
+    coveredShareCents,
+    rate,
+    fullRefund,
+  });
+  if (amount <= 0) {
+    return { transfer_id: transferId, transfer_currency: transfer.currency, transfer_reversal_status: "already_reversed" };
+  }
+
+  // Each partial refund reverses its own purchases, so it needs its own key.
+  const idempotencyKey = fullRefund
+    ? `purchase-reversal-${charge.id}`
+    : `purchase-reversal-${charge.id}-${covered.map((purchase) => purchase.id).join("-")}`;
+
+  try {
+    const reversal = await stripe.transfers.createReversal(
+      transferId,
+      { amount, metadata: { charge_id: charge.id } },
+      { idempotencyKey },
+    );
+    return {
+      transfer_id: transferId,
+      transfer_currency: transfer.currency,
+      transfer_reversal_id: reversal.id,
+      transfer_reversal_status: "reversed",
+    };
+  } catch (error) {
+    // Usually an empty connected balance: the amount is recorded as owed.
+    console.error("[stripe-webhook] Transfer reversal failed", {
+      chargeId: charge.id,
+      transferId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    await logStripeWebhookMonitoringAlert(supabase, {
+      eventType: "stripe_transfer_reversal_failed",
+      severity: "critical",
+      entityType: "charge",
+      details: { charge_id: charge.id, transfer_id: transferId, amount, currency: transfer.currency },
+    });
+    return {
+      transfer_id: transferId,
+      transfer_currency: transfer.currency,
+      transfer_reversal_status: "failed",
+      unreversed_transfer_amount: amount,
+      unreversed_amount: toEurCents(amount, rate),
+    };
+  }
+}
+
+async function reversePurchasesForCharge(
+  supabase: ReturnType<typeof createClient>,
+  stripe: Stripe,
+  charge: Stripe.Charge,
+  reason: "refund" | "dispute_lost",
+) {
+  const paymentIntentId = stripeObjectId(charge.payment_intent);
+  if (!paymentIntentId) {
+    console.warn("[stripe-webhook] Charge without payment intent, skipped", { chargeId: charge.id, reason });
+    return;
+  }
+
+  const fullRefund = reason === "dispute_lost" || charge.refunded;
+  const purchases = selectRefundedPurchases(
+    await loadPurchasesForPaymentIntent(supabase, paymentIntentId),
+    charge.amount_refunded,
+    fullRefund,
+  );
+  if (purchases.length === 0) {
+    // Also a partial refund matching no line of the cart: a commercial gesture, the licenses stand.
+    console.log("[stripe-webhook] No completed purchase to reverse", {
+      chargeId: charge.id,
+      paymentIntentId,
+      amountRefunded: charge.amount_refunded,
+      amount: charge.amount,
+    });
+    return;
+  }
+
+  const transferResult = await reverseConnectTransfer(supabase, stripe, charge, purchases, fullRefund);
+  // A failed reversal is owed by the producers of the covered purchases, each up to their share.
+  const unreversedAmounts = splitUnreversedAmount(purchases, transferResult.unreversed_amount ?? 0);
+
+  for (const [index, purchase] of purchases.entries()) {
+    const { data: reversed, error } = await supabase.rpc("reverse_purchase", {
+      p_purchase_id: purchase.id,
+      p_reason: reason,
+      p_details: {
+        charge_id: charge.id,
+        payment_intent_id: paymentIntentId,
+        amount_refunded: charge.amount_refunded,
+        currency: charge.currency,
+        ...transferResult,
+        unreversed_amount: unreversedAmounts[index] ?? 0,
+      },
+    });
+
+    if (error) {
+      throw new Error(`reverse_purchase failed for ${purchase.id}: ${error.message}`);
+    }
+
+    // Unlike the invoice, nothing issues the credit note later: let Stripe
+    // retry, both calls are idempotent.
+    const { error: creditNoteError } = await supabase.rpc("issue_credit_note_for_purchase", {
+      p_purchase_id: purchase.id,
+    });
+
+    if (creditNoteError) {
+      throw new Error(`issue_credit_note_for_purchase failed for ${purchase.id}: ${creditNoteError.message}`);
+    }
+
+    console.log("[stripe-webhook] Purchase reversed", {
+      purchaseId: purchase.id,
+      chargeId: charge.id,
+      reason,
+      changed: reversed === true,
+    });
+  }
+}
+
+async function handleChargeDispute(
+  supabase: ReturnType<typeof createClient>,
+  stripe: Stripe,
+  dispute: Stripe.Dispute,
+) {
+  const chargeId = stripeObjectId(dispute.charge);
+  if (!chargeId) {
+    throw new WebhookError(`Dispute ${dispute.id} has no charge`, 400, true);
+  }
+
+  const transition = resolveDisputeTransition(dispute.status);
+  if (transition === "reverse") {
+    const charge = await stripe.charges.retrieve(chargeId);
+    await reversePurchasesForCharge(supabase, stripe, charge, "dispute_lost");
+    return;
+  }
+
+  const paymentIntentId = stripeObjectId(dispute.payment_intent) ??
+    stripeObjectId((await stripe.charges.retrieve(chargeId)).payment_intent);
+  if (!paymentIntentId) {
+    console.warn("[stripe-webhook] Dispute without payment intent, skipped", { disputeId: dispute.id });
+    return;
+  }
+
+  const purchases = await loadPurchasesForPaymentIntent(supabase, paymentIntentId);
+
+  for (const purchase of purchases) {
+    const { error } = await supabase.rpc("set_purchase_dispute", {
+      p_purchase_id: purchase.id,
+      p_dispute_id: dispute.id,
+      p_open: transition === "open",
+    });
+
+    if (error) {
+      throw new Error(`set_purchase_dispute failed for ${purchase.id}: ${error.message}`);
+    }
+  }
+
+  console.log("[stripe-webhook] Purchase dispute updated", {
+    disputeId: dispute.id,
+    status: dispute.status,
+    purchases: purchases.length,
+  });
+}
+
 async function resolveInvoiceSubscriptionKind(
   supabase: ReturnType<typeof createClient>,
   params: {
@@ -0,0 +1,37 @@
+/*
+  # Audio waveform peaks
+
+  The audio worker now decodes every rendered preview into a fixed-resolution
+  peaks array and publishes it next to the preview in the watermarked bucket:
+
+    beats-watermarked/<product_id>/waveform_v<preview_version>.json
+
+  - public.products gains the storage reference of the latest peaks file and
+    the preview_version it was computed from. Clients compare
+    waveform_version with the preview_v<N> they play to ignore stale or
+    missing peaks; the worker retries a failed extraction on its own.
+  - Columns are written by the worker (service_role) only.
+
+  Idempotent: uses IF NOT EXISTS for columns and named constraints.
+*/
+
+BEGIN;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS waveform_path text;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS waveform_version integer;
+
+ALTER TABLE public.products
+  DROP CONSTRAINT IF EXISTS products_waveform_version_positive;
+ALTER TABLE public.products
+  ADD CONSTRAINT products_waveform_version_positive
+  CHECK (waveform_version IS NULL OR waveform_version >= 1);
+
+COMMENT ON COLUMN public.products.waveform_path IS
+  'Storage reference (<bucket>/<path>) of the waveform peaks JSON generated from the current watermarked preview.';
+COMMENT ON COLUMN public.products.waveform_version IS
+  'preview_version the waveform peaks were computed from. Null until the worker has rendered a preview with waveform extraction.';
+
+COMMIT;
@@ -0,0 +1,19 @@
+/*
+  # Allow waveform peaks JSON in the watermarked bucket
+
+  beats-watermarked only accepted audio MIME types, so the worker's
+  waveform_v<N>.json uploads were rejected by storage. Adds application/json
+  to the allow-list; file size limit and public read are unchanged.
+*/
+
+BEGIN;
+
+UPDATE storage.buckets
+SET allowed_mime_types = (
+  SELECT array_agg(DISTINCT mime_type ORDER BY mime_type)
+  FROM unnest(COALESCE(allowed_mime_types, '{}'::text[]) || '{application/json}'::text[]) AS mime_type
+)
+WHERE id = 'beats-watermarked'
+  AND allowed_mime_types IS NOT NULL;
+
+COMMIT;
@@ -0,0 +1,358 @@
+/*
+  # Automatic tempo and key analysis
+
+  Adds an `analyze_audio` job type to the audio processing queue. The worker
+  decodes the private master, estimates tempo (BPM) and musical key offline
+  on CPU, and stores the result next to the producer-entered metadata:
+
+  - public.products gains detected_bpm, detected_key_signature, one
+    confidence score per estimate (0..1), audio_analyzed_at and
+    audio_analysis_error. Producer-entered bpm / key_signature are never
+    overwritten: the upload form uses the detected values to suggest or flag
+    mismatches.
+  - Detected values are cleared whenever the master changes so stale
+    suggestions are never shown for a new master.
+  - enqueue_audio_processing_job accepts `analyze_audio` for the owner,
+    admins and service_role. Unlike `generate_preview`, the product does not
+    need to be published.
+  - enqueue_product_preview_job also queues an analysis on insert and on
+    master change.
+  - claim_audio_processing_jobs keeps pausing preview jobs while no active
+    watermark is configured, but analysis jobs do not depend on it and stay
+    claimable.
+  - enqueue_audio_analysis_backfill() lets admins analyze existing beats that
+    were never analyzed.
+
+  Idempotent: uses IF NOT EXISTS for columns and named constraints.
+*/
+
+BEGIN;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS detected_bpm numeric(5,1);
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS detected_bpm_confidence numeric(4,3);
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS detected_key_signature text;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS detected_key_confidence numeric(4,3);
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS audio_analyzed_at timestamptz;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS audio_analysis_error text;
+
+ALTER TABLE public.products
+  DROP CONSTRAINT IF EXISTS products_detected_bpm_range;
+ALTER TABLE public.products
+  ADD CONSTRAINT products_detected_bpm_range
+  CHECK (detected_bpm IS NULL OR (detected_bpm > 0 AND detected_bpm < 400));
+
+ALTER TABLE public.products
+  DROP CONSTRAINT IF EXISTS products_detected_confidence_range;
+ALTER TABLE public.products
+  ADD CONSTRAINT products_detected_confidence_range
+  CHECK (
+    (detected_bpm_confidence IS NULL OR (detected_bpm_confidence >= 0 AND detected_bpm_confidence <= 1))
+    AND (detected_key_confidence IS NULL OR (detected_key_confidence >= 0 AND detected_key_confidence <= 1))
+  );
+
+COMMENT ON COLUMN public.products.detected_bpm IS
+  'Tempo estimated by the audio worker from the master. Never overwrites the producer-entered bpm.';
+COMMENT ON COLUMN public.products.detected_bpm_confidence IS
+  'Confidence (0..1) of detected_bpm: salience of the winning tempo in the onset autocorrelation.';
+COMMENT ON COLUMN public.products.detected_key_signature IS
+  'Key estimated by the audio worker, formatted like key_signature (e.g. "Am", "F#").';
+COMMENT ON COLUMN public.products.detected_key_confidence IS
+  'Confidence (0..1) of detected_key_signature: margin of the best key profile over the runner-up.';
+COMMENT ON COLUMN public.products.audio_analyzed_at IS
+  'When the current master was last analyzed. Null until an analyze_audio job succeeds.';
+COMMENT ON COLUMN public.products.audio_analysis_error IS
+  'Last analyze_audio failure for the current master, if any.';
+
+ALTER TABLE public.audio_processing_jobs
+  DROP CONSTRAINT IF EXISTS audio_processing_jobs_job_type_check;
+ALTER TABLE public.audio_processing_jobs
+  ADD CONSTRAINT audio_processing_jobs_job_type_check
+  CHECK (job_type IN ('generate_preview', 'reprocess_all', 'analyze_audio'));
+
+CREATE OR REPLACE FUNCTION public.reset_product_audio_analysis()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.master_path IS DISTINCT FROM OLD.master_path
+     OR NEW.master_url IS DISTINCT FROM OLD.master_url THEN
+    NEW.detected_bpm := NULL;
+    NEW.detected_bpm_confidence := NULL;
+    NEW.detected_key_signature := NULL;
+    NEW.detected_key_confidence := NULL;
+    NEW.audio_analyzed_at := NULL;
+    NEW.audio_analysis_error := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_reset_product_audio_analysis ON public.products;
+CREATE TRIGGER trg_reset_product_audio_analysis
+  BEFORE UPDATE OF master_path, master_url ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_product_audio_analysis();
+
+CREATE OR REPLACE FUNCTION public.enqueue_audio_processing_job(
+  p_product_id uuid,
+  p_job_type text DEFAULT 'generate_preview'
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', '');
+  v_product public.products%ROWTYPE;
+BEGIN
+  IF p_product_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF p_job_type NOT IN ('generate_preview', 'reprocess_all', 'analyze_audio') THEN
+    RAISE EXCEPTION 'invalid_job_type';
+  END IF;
+
+  SELECT *
+  INTO v_product
+  FROM public.products
+  WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF p_job_type = 'reprocess_all' THEN
+    IF NOT (v_jwt_role = 'service_role' OR public.is_admin(v_actor)) THEN
+      RAISE EXCEPTION 'admin_required';
+    END IF;
+  ELSIF NOT (
+    v_jwt_role = 'service_role'
+    OR public.is_admin(v_actor)
+    OR v_product.producer_id = v_actor
+  ) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF p_job_type IN ('generate_preview', 'analyze_audio') THEN
+    IF v_product.product_type NOT IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+       OR v_product.deleted_at IS NOT NULL THEN
+      RETURN false;
+    END IF;
+
+    IF p_job_type = 'generate_preview' AND v_product.is_published IS DISTINCT FROM true THEN
+      RETURN false;
+    END IF;
+
+    IF coalesce(
+      nullif(btrim(COALESCE(v_product.master_path, '')), ''),
+      nullif(btrim(COALESCE(v_product.master_url, '')), '')
+    ) IS NULL THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.audio_processing_jobs (product_id, job_type, status)
+    VALUES (p_product_id, p_job_type, 'queued');
+    RETURN true;
+  EXCEPTION
+    WHEN unique_violation THEN
+      RETURN false;
+  END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_product_preview_job()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.product_type NOT IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+     OR NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF coalesce(
+    nullif(btrim(COALESCE(NEW.master_path, '')), ''),
+    nullif(btrim(COALESCE(NEW.master_url, '')), '')
+  ) IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+     OR NEW.master_path IS DISTINCT FROM OLD.master_path
+     OR NEW.master_url IS DISTINCT FROM OLD.master_url THEN
+    PERFORM public.enqueue_audio_processing_job(NEW.id, 'analyze_audio');
+  END IF;
+
+  IF NEW.is_published IS DISTINCT FROM true THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+     OR NEW.master_path IS DISTINCT FROM OLD.master_path
+     OR NEW.master_url IS DISTINCT FROM OLD.master_url
+     OR (OLD.is_published = false AND NEW.is_published = true)
+     OR (OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL) THEN
+    PERFORM public.enqueue_audio_processing_job(NEW.id, 'generate_preview');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_audio_processing_jobs(
+  p_limit integer DEFAULT 20,
+  p_worker text DEFAULT NULL
+)
+RETURNS SETOF public.audio_processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', '');
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_worker text := COALESCE(NULLIF(btrim(COALESCE(p_worker, '')), ''), 'audio-worker');
+  v_has_active_watermark boolean;
+BEGIN
+  IF NOT (v_jwt_role = 'service_role' OR public.is_admin(v_actor)) THEN
+    RAISE EXCEPTION 'admin_or_service_role_required';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.site_audio_settings sas
+    WHERE sas.enabled = true
+      AND NULLIF(btrim(COALESCE(sas.watermark_audio_path, '')), '') IS NOT NULL
+  )
+  INTO v_has_active_watermark;
+
+  RETURN QUERY
+  WITH reclaimed AS (
+    UPDATE public.audio_processing_jobs AS stale
+    SET
+      status = 'queued',
+      locked_at = NULL,
+      locked_by = NULL,
+      updated_at = now()
+    WHERE stale.status = 'processing'
+      AND stale.locked_at IS NOT NULL
+      AND stale.locked_at < now() - interval '15 minutes'
+    RETURNING stale.id
+  ),
+  candidates AS (
+    SELECT job.id
+    FROM public.audio_processing_jobs AS job
+    WHERE job.status IN ('queued', 'error')
+      AND job.attempts < job.max_attempts
+      -- Analysis does not render a preview, so it is not paused by a
+      -- missing watermark sample.
+      AND (v_has_active_watermark OR job.job_type = 'analyze_audio')
+    ORDER BY job.created_at ASC
+    FOR UPDATE SKIP LOCKED
+    LIMIT v_limit
+  ),
+  claimed AS (
+    UPDATE public.audio_processing_jobs AS job
+    SET
+      status = 'processing',
+      attempts = job.attempts + 1,
+      locked_at = now(),
+      locked_by = v_worker,
+      updated_at = now()
+    FROM candidates
+    WHERE job.id = candidates.id
+    RETURNING job.*
+  )
+  SELECT * FROM claimed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_audio_analysis_backfill()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', '');
+  v_candidate_count integer := 0;
+  v_enqueued_count integer := 0;
+BEGIN
+  IF NOT (v_jwt_role = 'service_role' OR public.is_admin(v_actor)) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  WITH candidate_products AS (
+    SELECT p.id
+    FROM public.products p
+    WHERE p.product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+      AND p.deleted_at IS NULL
+      AND p.audio_analyzed_at IS NULL
+      AND COALESCE(
+        NULLIF(btrim(COALESCE(p.master_path, '')), ''),
+        NULLIF(btrim(COALESCE(p.master_url, '')), '')
+      ) IS NOT NULL
+  )
+  SELECT COUNT(*) INTO v_candidate_count
+  FROM candidate_products;
+
+  WITH inserted_jobs AS (
+    INSERT INTO public.audio_processing_jobs (product_id, job_type, status)
+    SELECT p.id, 'analyze_audio', 'queued'
+    FROM public.products p
+    WHERE p.product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+      AND p.deleted_at IS NULL
+      AND p.audio_analyzed_at IS NULL
+      AND COALESCE(
+        NULLIF(btrim(COALESCE(p.master_path, '')), ''),
+        NULLIF(btrim(COALESCE(p.master_url, '')), '')
+      ) IS NOT NULL
+    ON CONFLICT DO NOTHING
+    RETURNING product_id
+  )
+  SELECT COUNT(*) INTO v_enqueued_count
+  FROM inserted_jobs;
+
+  RETURN jsonb_build_object(
+    'enqueued_count', v_enqueued_count,
+    'skipped_count', GREATEST(v_candidate_count - v_enqueued_count, 0),
+    'candidate_count', v_candidate_count
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reset_product_audio_analysis() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.enqueue_audio_processing_job(uuid, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.claim_audio_processing_jobs(integer, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.enqueue_audio_analysis_backfill() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.enqueue_audio_processing_job(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_audio_processing_job(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_audio_processing_jobs(integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_audio_processing_jobs(integer, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.enqueue_audio_analysis_backfill() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_audio_analysis_backfill() TO service_role;
+
+COMMIT;
@@ -0,0 +1,44 @@
+/*
+  # Preview streaming renditions
+
+  Next to every watermarked preview the audio worker now publishes, in the
+  same bucket and under the same preview_version:
+
+    beats-watermarked/<product_id>/preview_v<N>_low.mp3       (low bitrate MP3)
+    beats-watermarked/<product_id>/hls_v<N>/index.m3u8        (VOD HLS playlist)
+    beats-watermarked/<product_id>/hls_v<N>/segment_XXX.ts    (AAC segments)
+
+  - public.products gains preview_renditions_version: the preview_version
+    the renditions were rendered for. Clients only prefer a rendition when it
+    matches preview_version; a failed rendition pass clears it.
+  - The bucket allow-list gains the HLS playlist and segment MIME types.
+
+  Idempotent: uses IF NOT EXISTS for columns and named constraints.
+*/
+
+BEGIN;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS preview_renditions_version integer;
+
+ALTER TABLE public.products
+  DROP CONSTRAINT IF EXISTS products_preview_renditions_version_positive;
+ALTER TABLE public.products
+  ADD CONSTRAINT products_preview_renditions_version_positive
+  CHECK (preview_renditions_version IS NULL OR preview_renditions_version >= 1);
+
+COMMENT ON COLUMN public.products.preview_renditions_version IS
+  'preview_version the HLS and low-bitrate preview renditions were rendered for. Null when the last render produced no renditions.';
+
+UPDATE storage.buckets
+SET allowed_mime_types = (
+  SELECT array_agg(DISTINCT mime_type ORDER BY mime_type)
+  FROM unnest(
+    COALESCE(allowed_mime_types, '{}'::text[])
+      || '{application/vnd.apple.mpegurl,video/mp2t}'::text[]
+  ) AS mime_type
+)
+WHERE id = 'beats-watermarked'
+  AND allowed_mime_types IS NOT NULL;
+
+COMMIT;
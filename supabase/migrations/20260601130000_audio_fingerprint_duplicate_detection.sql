@@ -0,0 +1,701 @@
+/*
+  # Audio fingerprint duplicate detection
+
+  The analyze_audio job now also fingerprints the master (one 32-bit code per
+  ~46 ms frame) and compares it with other producers' beats to catch
+  re-uploads of someone else's work before they reach the public catalog.
+
+  - public.audio_fingerprints stores one fingerprint per product. A GIN index
+    on the distinct codes (`lookup_codes`) lets the worker fetch the few
+    fingerprints sharing codes with a new master; the bit-level comparison
+    runs in the worker.
+  - public.audio_fingerprint_matches stores each suspected duplicate pair
+    (product, matched product, similarity) with an admin review status.
+  - record_audio_fingerprint (service_role) stores the fingerprint and new
+    matches. New matches are logged as fraud_events
+    (`audio_duplicate_suspected`, fraud_events gains product_id) and fanned
+    out to admins as admin_notifications. The beat is unpublished and
+    products.duplicate_review_status is set to 'pending' until an admin
+    reviews every pending match.
+  - Producers cannot republish a beat whose duplicate review is pending or
+    confirmed, nor change the review columns. Dismissing the last pending match restores the publish state
+    the beat had before it was held.
+  - rpc_admin_get_audio_fingerprint_matches / admin_review_audio_fingerprint_match
+    back the admin review page.
+  - Changing the master drops its fingerprint and pending matches; the
+    re-analysis that follows computes them again.
+  - enqueue_audio_analysis_backfill also picks beats without a fingerprint.
+
+  Matches against the producer's own beats (versions, re-uploads) are never
+  reported.
+
+  Idempotent: uses IF NOT EXISTS for tables, columns and indexes.
+*/
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.audio_fingerprints (
+  product_id uuid PRIMARY KEY REFERENCES public.products(id) ON DELETE CASCADE,
+  algorithm_version integer NOT NULL,
+  frame_hop_sec double precision NOT NULL,
+  duration_sec numeric(8,3) NOT NULL,
+  codes integer[] NOT NULL,
+  lookup_codes integer[] NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audio_fingerprints_lookup_codes
+  ON public.audio_fingerprints USING gin (lookup_codes);
+
+COMMENT ON TABLE public.audio_fingerprints IS
+  'Acoustic fingerprint of each beat master, written by the audio worker. codes holds one sub-fingerprint per frame (0 = silent frame); lookup_codes holds the distinct non-silent codes for candidate lookup.';
+
+ALTER TABLE public.audio_fingerprints ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.audio_fingerprints FROM PUBLIC;
+REVOKE ALL ON TABLE public.audio_fingerprints FROM anon;
+REVOKE ALL ON TABLE public.audio_fingerprints FROM authenticated;
+GRANT ALL ON TABLE public.audio_fingerprints TO service_role;
+
+CREATE TABLE IF NOT EXISTS public.audio_fingerprint_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  matched_product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  similarity numeric(4,3) NOT NULL,
+  offset_sec numeric(8,3) NOT NULL DEFAULT 0,
+  overlap_sec numeric(8,3) NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'pending',
+  reviewed_by uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  review_note text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT audio_fingerprint_matches_pair_unique UNIQUE (product_id, matched_product_id),
+  CONSTRAINT audio_fingerprint_matches_not_self CHECK (product_id <> matched_product_id),
+  CONSTRAINT audio_fingerprint_matches_similarity_range CHECK (similarity >= 0 AND similarity <= 1),
+  CONSTRAINT audio_fingerprint_matches_status_check CHECK (status IN ('pending', 'dismissed', 'confirmed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_audio_fingerprint_matches_status_created_desc
+  ON public.audio_fingerprint_matches (status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audio_fingerprint_matches_matched_product
+  ON public.audio_fingerprint_matches (matched_product_id);
+
+CREATE INDEX IF NOT EXISTS idx_audio_fingerprint_matches_reviewed_by
+  ON public.audio_fingerprint_matches (reviewed_by);
+
+COMMENT ON TABLE public.audio_fingerprint_matches IS
+  'Suspected duplicates found by audio fingerprinting: product_id is the beat being analyzed, matched_product_id the existing beat of another producer it sounds like.';
+
+ALTER TABLE public.audio_fingerprint_matches ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.audio_fingerprint_matches FROM PUBLIC;
+REVOKE ALL ON TABLE public.audio_fingerprint_matches FROM anon;
+REVOKE ALL ON TABLE public.audio_fingerprint_matches FROM authenticated;
+GRANT SELECT ON TABLE public.audio_fingerprint_matches TO authenticated;
+GRANT ALL ON TABLE public.audio_fingerprint_matches TO service_role;
+
+DROP POLICY IF EXISTS "Admins can read audio_fingerprint_matches" ON public.audio_fingerprint_matches;
+CREATE POLICY "Admins can read audio_fingerprint_matches"
+ON public.audio_fingerprint_matches
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+ALTER TABLE public.fraud_events
+  ADD COLUMN IF NOT EXISTS product_id uuid REFERENCES public.products(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_fraud_events_product_created_desc
+  ON public.fraud_events (product_id, created_at DESC);
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS duplicate_review_status text;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS duplicate_review_held_publish boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.products
+  DROP CONSTRAINT IF EXISTS products_duplicate_review_status_check;
+ALTER TABLE public.products
+  ADD CONSTRAINT products_duplicate_review_status_check
+  CHECK (duplicate_review_status IS NULL OR duplicate_review_status IN ('pending', 'cleared', 'confirmed'));
+
+COMMENT ON COLUMN public.products.duplicate_review_status IS
+  'Audio fingerprint review: pending while suspected duplicates await an admin, cleared once all were dismissed, confirmed when an admin confirmed a duplicate. Null when nothing was ever flagged.';
+COMMENT ON COLUMN public.products.duplicate_review_held_publish IS
+  'True when the beat was published before being held for duplicate review, so dismissing the review republishes it.';
+
+CREATE OR REPLACE FUNCTION public.guard_product_duplicate_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', current_setting('request.jwt.claim.role', true), '');
+BEGIN
+  IF v_jwt_role = 'service_role' OR public.is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.duplicate_review_status IS DISTINCT FROM OLD.duplicate_review_status
+     OR NEW.duplicate_review_held_publish IS DISTINCT FROM OLD.duplicate_review_held_publish THEN
+    RAISE EXCEPTION 'duplicate_review_admin_only';
+  END IF;
+
+  IF COALESCE(NEW.is_published, false) = true
+     AND COALESCE(OLD.is_published, false) = false
+     AND NEW.duplicate_review_status IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'product_duplicate_review_pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_product_duplicate_review ON public.products;
+CREATE TRIGGER trg_guard_product_duplicate_review
+  BEFORE UPDATE OF is_published, duplicate_review_status, duplicate_review_held_publish ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_product_duplicate_review();
+
+CREATE OR REPLACE FUNCTION public.clear_product_audio_fingerprint()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.master_path IS DISTINCT FROM OLD.master_path
+     OR NEW.master_url IS DISTINCT FROM OLD.master_url THEN
+    DELETE FROM public.audio_fingerprints
+    WHERE product_id = NEW.id;
+
+    DELETE FROM public.audio_fingerprint_matches
+    WHERE product_id = NEW.id
+      AND status = 'pending';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_clear_product_audio_fingerprint ON public.products;
+CREATE TRIGGER trg_clear_product_audio_fingerprint
+  AFTER UPDATE OF master_path, master_url ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_product_audio_fingerprint();
+
+CREATE OR REPLACE FUNCTION public.find_audio_fingerprint_candidates(
+  p_product_id uuid,
+  p_algorithm_version integer,
+  p_codes integer[],
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  product_id uuid,
+  algorithm_version integer,
+  frame_hop_sec double precision,
+  duration_sec numeric,
+  codes integer[],
+  shared_code_count integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', current_setting('request.jwt.claim.role', true), '');
+  v_producer_id uuid;
+  v_lookup_codes integer[];
+BEGIN
+  IF v_jwt_role <> 'service_role' THEN
+    RAISE EXCEPTION 'service_role_required';
+  END IF;
+
+  SELECT p.producer_id
+  INTO v_producer_id
+  FROM public.products p
+  WHERE p.id = p_product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'product_not_found';
+  END IF;
+
+  v_lookup_codes := ARRAY(
+    SELECT DISTINCT c
+    FROM unnest(COALESCE(p_codes, '{}'::integer[])) AS c
+    WHERE c <> 0
+  );
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT af.product_id, af.lookup_codes
+    FROM public.audio_fingerprints af
+    JOIN public.products p ON p.id = af.product_id
+    WHERE af.lookup_codes && v_lookup_codes
+      AND af.algorithm_version = p_algorithm_version
+      AND af.product_id <> p_product_id
+      AND p.producer_id IS DISTINCT FROM v_producer_id
+      AND p.deleted_at IS NULL
+  ),
+  ranked AS (
+    SELECT
+      c.product_id,
+      (
+        SELECT COUNT(*)::integer
+        FROM (
+          SELECT unnest(c.lookup_codes)
+          INTERSECT
+          SELECT unnest(v_lookup_codes)
+        ) shared
+      ) AS shared_code_count
+    FROM candidates c
+  )
+  SELECT
+    af.product_id,
+    af.algorithm_version,
+    af.frame_hop_sec,
+    af.duration_sec,
+    af.codes,
+    r.shared_code_count
+  FROM ranked r
+  JOIN public.audio_fingerprints af ON af.product_id = r.product_id
+  ORDER BY r.shared_code_count DESC, af.product_id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 50);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_audio_fingerprint(
+  p_product_id uuid,
+  p_algorithm_version integer,
+  p_frame_hop_sec double precision,
+  p_duration_sec numeric,
+  p_codes integer[],
+  p_matches jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', current_setting('request.jwt.claim.role', true), '');
+  v_product public.products%ROWTYPE;
+  v_new_match_count integer := 0;
+  v_pending_match_count integer := 0;
+  v_top_similarity numeric;
+  v_matched_product_ids uuid[];
+  v_review_status text;
+BEGIN
+  IF v_jwt_role <> 'service_role' THEN
+    RAISE EXCEPTION 'service_role_required';
+  END IF;
+
+  SELECT *
+  INTO v_product
+  FROM public.products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'product_not_found';
+  END IF;
+
+  INSERT INTO public.audio_fingerprints (
+    product_id,
+    algorithm_version,
+    frame_hop_sec,
+    duration_sec,
+    codes,
+    lookup_codes
+  )
+  VALUES (
+    p_product_id,
+    p_algorithm_version,
+    p_frame_hop_sec,
+    p_duration_sec,
+    COALESCE(p_codes, '{}'::integer[]),
+    ARRAY(
+      SELECT DISTINCT c
+      FROM unnest(COALESCE(p_codes, '{}'::integer[])) AS c
+      WHERE c <> 0
+      ORDER BY c
+    )
+  )
+  ON CONFLICT (product_id) DO UPDATE
+  SET
+    algorithm_version = EXCLUDED.algorithm_version,
+    frame_hop_sec = EXCLUDED.frame_hop_sec,
+    duration_sec = EXCLUDED.duration_sec,
+    codes = EXCLUDED.codes,
+    lookup_codes = EXCLUDED.lookup_codes,
+    updated_at = now();
+
+  -- Pending matches the latest comparison no longer reports are stale.
+  DELETE FROM public.audio_fingerprint_matches afm
+  WHERE afm.product_id = p_product_id
+    AND afm.status = 'pending'
+    AND afm.matched_product_id <> ALL (
+      ARRAY(
+        SELECT (m->>'matched_product_id')::uuid
+        FROM jsonb_array_elements(COALESCE(p_matches, '[]'::jsonb)) AS m
+      )
+    );
+
+  -- Pairs an admin already reviewed keep their decision.
+  WITH incoming AS (
+    SELECT DISTINCT ON (mp.id)
+      mp.id AS matched_product_id,
+      LEAST(GREATEST((m->>'similarity')::numeric, 0), 1) AS similarity,
+      COALESCE((m->>'offset_sec')::numeric, 0) AS offset_sec,
+      COALESCE((m->>'overlap_sec')::numeric, 0) AS overlap_sec
+    FROM jsonb_array_elements(COALESCE(p_matches, '[]'::jsonb)) AS m
+    JOIN public.products mp ON mp.id = (m->>'matched_product_id')::uuid
+    WHERE mp.id <> p_product_id
+      AND mp.producer_id IS DISTINCT FROM v_product.producer_id
+      AND mp.deleted_at IS NULL
+    ORDER BY mp.id, (m->>'similarity')::numeric DESC
+  ),
+  inserted AS (
+    INSERT INTO public.audio_fingerprint_matches (
+      product_id,
+      matched_product_id,
+      similarity,
+      offset_sec,
+      overlap_sec
+    )
+    SELECT p_product_id, i.matched_product_id, i.similarity, i.offset_sec, i.overlap_sec
+    FROM incoming i
+    ON CONFLICT (product_id, matched_product_id) DO NOTHING
+    RETURNING matched_product_id, similarity
+  )
+  SELECT COUNT(*)::integer, MAX(similarity), array_agg(matched_product_id ORDER BY similarity DESC)
+  INTO v_new_match_count, v_top_similarity, v_matched_product_ids
+  FROM inserted;
+
+  SELECT COUNT(*)::integer
+  INTO v_pending_match_count
+  FROM public.audio_fingerprint_matches
+  WHERE product_id = p_product_id
+    AND status = 'pending';
+
+  v_review_status := v_product.duplicate_review_status;
+
+  IF v_pending_match_count > 0 AND v_review_status IS DISTINCT FROM 'confirmed' THEN
+    UPDATE public.products
+    SET
+      duplicate_review_status = 'pending',
+      duplicate_review_held_publish = CASE
+        WHEN v_review_status = 'pending' THEN duplicate_review_held_publish
+        ELSE COALESCE(is_published, false)
+      END,
+      is_published = false
+    WHERE id = p_product_id;
+
+    v_review_status := 'pending';
+  ELSIF v_pending_match_count = 0 AND v_review_status = 'pending' THEN
+    UPDATE public.products
+    SET
+      duplicate_review_status = NULL,
+      is_published = COALESCE(is_published, false) OR duplicate_review_held_publish,
+      duplicate_review_held_publish = false
+    WHERE id = p_product_id;
+
+    v_review_status := NULL;
+  END IF;
+
+  IF v_new_match_count > 0 THEN
+    INSERT INTO public.fraud_events (event_type, user_id, product_id)
+    VALUES ('audio_duplicate_suspected', v_product.producer_id, p_product_id);
+
+    INSERT INTO public.admin_notifications (user_id, type, payload)
+    SELECT
+      up.id,
+      'audio_duplicate_suspected',
+      jsonb_build_object(
+        'product_id', p_product_id,
+        'product_title', v_product.title,
+        'producer_id', v_product.producer_id,
+        'match_count', v_new_match_count,
+        'top_similarity', v_top_similarity,
+        'matched_product_ids', to_jsonb(v_matched_product_ids)
+      )
+    FROM public.user_profiles up
+    WHERE up.role = 'admin'::public.user_role
+      AND COALESCE(up.is_deleted, false) = false
+      AND up.deleted_at IS NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'new_match_count', v_new_match_count,
+    'pending_match_count', v_pending_match_count,
+    'review_status', v_review_status
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rpc_admin_get_audio_fingerprint_matches(
+  p_status text DEFAULT 'pending',
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  match_id uuid,
+  status text,
+  similarity numeric,
+  offset_sec numeric,
+  overlap_sec numeric,
+  created_at timestamptz,
+  reviewed_at timestamptz,
+  review_note text,
+  product_id uuid,
+  product_title text,
+  product_preview_url text,
+  product_created_at timestamptz,
+  product_review_status text,
+  producer_id uuid,
+  producer_username text,
+  matched_product_id uuid,
+  matched_product_title text,
+  matched_product_preview_url text,
+  matched_product_created_at timestamptz,
+  matched_producer_id uuid,
+  matched_producer_username text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', current_setting('request.jwt.claim.role', true), '');
+  v_status text := NULLIF(btrim(COALESCE(p_status, '')), '');
+BEGIN
+  IF NOT (v_jwt_role = 'service_role' OR public.is_admin(v_actor)) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    afm.id,
+    afm.status,
+    afm.similarity,
+    afm.offset_sec,
+    afm.overlap_sec,
+    afm.created_at,
+    afm.reviewed_at,
+    afm.review_note,
+    p.id,
+    p.title,
+    p.preview_url,
+    p.created_at,
+    p.duplicate_review_status,
+    p.producer_id,
+    up.username,
+    mp.id,
+    mp.title,
+    mp.preview_url,
+    mp.created_at,
+    mp.producer_id,
+    mup.username
+  FROM public.audio_fingerprint_matches afm
+  JOIN public.products p ON p.id = afm.product_id
+  JOIN public.products mp ON mp.id = afm.matched_product_id
+  LEFT JOIN public.user_profiles up ON up.id = p.producer_id
+  LEFT JOIN public.user_profiles mup ON mup.id = mp.producer_id
+  WHERE v_status IS NULL OR afm.status = v_status
+  ORDER BY afm.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_review_audio_fingerprint_match(
+  p_match_id uuid,
+  p_decision text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', current_setting('request.jwt.claim.role', true), '');
+  v_match public.audio_fingerprint_matches%ROWTYPE;
+  v_product public.products%ROWTYPE;
+  v_pending_match_count integer := 0;
+  v_review_status text;
+BEGIN
+  IF NOT (v_jwt_role = 'service_role' OR public.is_admin(v_actor)) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  IF p_decision NOT IN ('dismissed', 'confirmed') THEN
+    RAISE EXCEPTION 'invalid_decision';
+  END IF;
+
+  SELECT *
+  INTO v_match
+  FROM public.audio_fingerprint_matches
+  WHERE id = p_match_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'match_not_found';
+  END IF;
+
+  IF v_match.status <> 'pending' THEN
+    RAISE EXCEPTION 'match_already_reviewed';
+  END IF;
+
+  SELECT *
+  INTO v_product
+  FROM public.products
+  WHERE id = v_match.product_id
+  FOR UPDATE;
+
+  UPDATE public.audio_fingerprint_matches
+  SET
+    status = p_decision,
+    reviewed_by = v_actor,
+    reviewed_at = now(),
+    review_note = NULLIF(btrim(COALESCE(p_note, '')), ''),
+    updated_at = now()
+  WHERE id = p_match_id;
+
+  SELECT COUNT(*)::integer
+  INTO v_pending_match_count
+  FROM public.audio_fingerprint_matches
+  WHERE product_id = v_match.product_id
+    AND status = 'pending';
+
+  v_review_status := v_product.duplicate_review_status;
+
+  IF p_decision = 'confirmed' THEN
+    UPDATE public.products
+    SET
+      duplicate_review_status = 'confirmed',
+      is_published = false
+    WHERE id = v_match.product_id;
+
+    v_review_status := 'confirmed';
+
+    INSERT INTO public.fraud_events (event_type, user_id, product_id)
+    VALUES ('audio_duplicate_confirmed', v_product.producer_id, v_match.product_id);
+  ELSIF v_pending_match_count = 0 AND v_review_status = 'pending' THEN
+    UPDATE public.products
+    SET
+      duplicate_review_status = 'cleared',
+      is_published = COALESCE(is_published, false) OR duplicate_review_held_publish,
+      duplicate_review_held_publish = false
+    WHERE id = v_match.product_id;
+
+    v_review_status := 'cleared';
+  END IF;
+
+  IF v_pending_match_count = 0 THEN
+    UPDATE public.admin_notifications
+    SET is_read = true
+    WHERE type = 'audio_duplicate_suspected'
+      AND payload->>'product_id' = v_match.product_id::text;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'match_id', p_match_id,
+    'status', p_decision,
+    'pending_match_count', v_pending_match_count,
+    'review_status', v_review_status
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_audio_analysis_backfill()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', '');
+  v_candidate_count integer := 0;
+  v_enqueued_count integer := 0;
+BEGIN
+  IF NOT (v_jwt_role = 'service_role' OR public.is_admin(v_actor)) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  WITH candidate_products AS (
+    SELECT p.id
+    FROM public.products p
+    WHERE p.product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+      AND p.deleted_at IS NULL
+      AND (
+        p.audio_analyzed_at IS NULL
+        OR NOT EXISTS (SELECT 1 FROM public.audio_fingerprints af WHERE af.product_id = p.id)
+      )
+      AND COALESCE(
+        NULLIF(btrim(COALESCE(p.master_path, '')), ''),
+        NULLIF(btrim(COALESCE(p.master_url, '')), '')
+      ) IS NOT NULL
+  )
+  SELECT COUNT(*) INTO v_candidate_count
+  FROM candidate_products;
+
+  WITH inserted_jobs AS (
+    INSERT INTO public.audio_processing_jobs (product_id, job_type, status)
+    SELECT p.id, 'analyze_audio', 'queued'
+    FROM public.products p
+    WHERE p.product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+      AND p.deleted_at IS NULL
+      AND (
+        p.audio_analyzed_at IS NULL
+        OR NOT EXISTS (SELECT 1 FROM public.audio_fingerprints af WHERE af.product_id = p.id)
+      )
+      AND COALESCE(
+        NULLIF(btrim(COALESCE(p.master_path, '')), ''),
+        NULLIF(btrim(COALESCE(p.master_url, '')), '')
+      ) IS NOT NULL
+    ON CONFLICT DO NOTHING
+    RETURNING product_id
+  )
+  SELECT COUNT(*) INTO v_enqueued_count
+  FROM inserted_jobs;
+
+  RETURN jsonb_build_object(
+    'enqueued_count', v_enqueued_count,
+    'skipped_count', GREATEST(v_candidate_count - v_enqueued_count, 0),
+    'candidate_count', v_candidate_count
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.guard_product_duplicate_review() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.clear_product_audio_fingerprint() FROM PUBLIC;
+
+REVOKE EXECUTE ON FUNCTION public.find_audio_fingerprint_candidates(uuid, integer, integer[], integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.find_audio_fingerprint_candidates(uuid, integer, integer[], integer) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.find_audio_fingerprint_candidates(uuid, integer, integer[], integer) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.find_audio_fingerprint_candidates(uuid, integer, integer[], integer) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.record_audio_fingerprint(uuid, integer, double precision, numeric, integer[], jsonb) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.record_audio_fingerprint(uuid, integer, double precision, numeric, integer[], jsonb) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.record_audio_fingerprint(uuid, integer, double precision, numeric, integer[], jsonb) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.record_audio_fingerprint(uuid, integer, double precision, numeric, integer[], jsonb) TO service_role;
+
+REVOKE ALL ON FUNCTION public.rpc_admin_get_audio_fingerprint_matches(text, integer) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.rpc_admin_get_audio_fingerprint_matches(text, integer) FROM anon;
+GRANT EXECUTE ON FUNCTION public.rpc_admin_get_audio_fingerprint_matches(text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_admin_get_audio_fingerprint_matches(text, integer) TO service_role;
+
+REVOKE ALL ON FUNCTION public.admin_review_audio_fingerprint_match(uuid, text, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.admin_review_audio_fingerprint_match(uuid, text, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_review_audio_fingerprint_match(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_review_audio_fingerprint_match(uuid, text, text) TO service_role;
+
+COMMIT;
@@ -0,0 +1,355 @@
+/*
+  # Stem / trackout packs on products
+
+  product_files existed since the products schema but nothing wrote to it.
+  Producers now attach stems to a beat from the upload page, either as a
+  single zip (stem_archive) or as individual WAV files (stem), and the audio
+  worker validates them before buyers can download them.
+
+  - product_files gains file_kind and the validation columns written by the
+    worker (status, probed duration, delta against the master, silence).
+    file_url holds the normalized beats-masters path, always under
+    <producer_id>/<product_id>/stems/.
+  - Clients cannot insert pre-validated rows: a BEFORE INSERT trigger resets
+    the validation columns and enforces the storage prefix for stems.
+  - Inserting a stem enqueues a validate_stems job. Those jobs only read the
+    private bucket, so claim_audio_processing_jobs keeps them claimable while
+    no watermark is configured, like analyze_audio.
+  - licenses.stems_included marks the licenses that ship trackouts;
+    get-master-url only signs stems for those licenses (or an exclusive
+    purchase).
+  - beats-masters accepts zip archives and larger objects (500 MB) so a full
+    trackout pack fits in one upload. The upload page still caps masters at
+    50 MB.
+
+  Idempotent: uses IF NOT EXISTS for columns and named constraints.
+*/
+
+BEGIN;
+
+ALTER TABLE public.licenses
+  ADD COLUMN IF NOT EXISTS stems_included boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.licenses.stems_included IS
+  'Buyers of this license can download the validated stems (trackouts) of the product.';
+
+UPDATE public.licenses
+SET
+  stems_included = true,
+  updated_at = now()
+WHERE lower(name) IN ('unlimited', 'exclusive')
+  AND stems_included = false;
+
+ALTER TABLE public.product_files
+  ADD COLUMN IF NOT EXISTS file_kind text NOT NULL DEFAULT 'kit_file';
+
+ALTER TABLE public.product_files
+  ADD COLUMN IF NOT EXISTS validation_status text NOT NULL DEFAULT 'pending';
+
+ALTER TABLE public.product_files
+  ADD COLUMN IF NOT EXISTS validation_error text;
+
+ALTER TABLE public.product_files
+  ADD COLUMN IF NOT EXISTS duration_seconds numeric(8,3);
+
+ALTER TABLE public.product_files
+  ADD COLUMN IF NOT EXISTS duration_delta_seconds numeric(8,3);
+
+ALTER TABLE public.product_files
+  ADD COLUMN IF NOT EXISTS is_silent boolean;
+
+ALTER TABLE public.product_files
+  ADD COLUMN IF NOT EXISTS stem_count integer;
+
+ALTER TABLE public.product_files
+  ADD COLUMN IF NOT EXISTS validation_details jsonb;
+
+ALTER TABLE public.product_files
+  ADD COLUMN IF NOT EXISTS validated_at timestamptz;
+
+ALTER TABLE public.product_files
+  DROP CONSTRAINT IF EXISTS product_files_file_kind_check;
+ALTER TABLE public.product_files
+  ADD CONSTRAINT product_files_file_kind_check
+  CHECK (file_kind IN ('kit_file', 'stem', 'stem_archive'));
+
+ALTER TABLE public.product_files
+  DROP CONSTRAINT IF EXISTS product_files_validation_status_check;
+ALTER TABLE public.product_files
+  ADD CONSTRAINT product_files_validation_status_check
+  CHECK (validation_status IN ('pending', 'valid', 'warning', 'invalid'));
+
+CREATE INDEX IF NOT EXISTS idx_product_files_pending_stems
+  ON public.product_files (product_id)
+  WHERE file_kind IN ('stem', 'stem_archive') AND validation_status = 'pending';
+
+COMMENT ON COLUMN public.product_files.file_kind IS
+  'kit_file for sample kits, stem for a single trackout file, stem_archive for a zip of stems.';
+COMMENT ON COLUMN public.product_files.validation_status IS
+  'Set by the audio worker: valid, warning (silent stem or length mismatch, still delivered) or invalid (not delivered).';
+COMMENT ON COLUMN public.product_files.duration_delta_seconds IS
+  'Stem duration minus master duration. For archives, the largest absolute delta among its stems.';
+COMMENT ON COLUMN public.product_files.validation_details IS
+  'Per-entry validation report for stem archives (name, duration, delta, max volume, issues).';
+
+CREATE OR REPLACE FUNCTION public.prepare_product_file_insert()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', current_setting('request.jwt.claim.role', true), '');
+  v_producer_id uuid;
+  v_path text := ltrim(btrim(COALESCE(NEW.file_url, '')), '/');
+BEGIN
+  IF v_jwt_role <> 'service_role' THEN
+    NEW.validation_status := 'pending';
+    NEW.validation_error := NULL;
+    NEW.duration_seconds := NULL;
+    NEW.duration_delta_seconds := NULL;
+    NEW.is_silent := NULL;
+    NEW.stem_count := NULL;
+    NEW.validation_details := NULL;
+    NEW.validated_at := NULL;
+  END IF;
+
+  IF NEW.file_kind NOT IN ('stem', 'stem_archive') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT p.producer_id
+  INTO v_producer_id
+  FROM public.products p
+  WHERE p.id = NEW.product_id;
+
+  IF v_path LIKE 'beats-masters/%' THEN
+    v_path := substring(v_path FROM char_length('beats-masters/') + 1);
+  END IF;
+
+  IF v_producer_id IS NULL
+     OR v_path NOT LIKE v_producer_id::text || '/' || NEW.product_id::text || '/stems/%'
+     OR v_path ~ '(^|/)\.\.?(/|$)' THEN
+    RAISE EXCEPTION 'invalid_stem_path';
+  END IF;
+
+  NEW.file_url := v_path;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_prepare_product_file_insert ON public.product_files;
+CREATE TRIGGER trg_prepare_product_file_insert
+  BEFORE INSERT ON public.product_files
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_product_file_insert();
+
+ALTER TABLE public.audio_processing_jobs
+  DROP CONSTRAINT IF EXISTS audio_processing_jobs_job_type_check;
+ALTER TABLE public.audio_processing_jobs
+  ADD CONSTRAINT audio_processing_jobs_job_type_check
+  CHECK (job_type IN ('generate_preview', 'reprocess_all', 'analyze_audio', 'validate_stems'));
+
+CREATE OR REPLACE FUNCTION public.enqueue_audio_processing_job(
+  p_product_id uuid,
+  p_job_type text DEFAULT 'generate_preview'
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', '');
+  v_product public.products%ROWTYPE;
+BEGIN
+  IF p_product_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF p_job_type NOT IN ('generate_preview', 'reprocess_all', 'analyze_audio', 'validate_stems') THEN
+    RAISE EXCEPTION 'invalid_job_type';
+  END IF;
+
+  SELECT *
+  INTO v_product
+  FROM public.products
+  WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF p_job_type = 'reprocess_all' THEN
+    IF NOT (v_jwt_role = 'service_role' OR public.is_admin(v_actor)) THEN
+      RAISE EXCEPTION 'admin_required';
+    END IF;
+  ELSIF NOT (
+    v_jwt_role = 'service_role'
+    OR public.is_admin(v_actor)
+    OR v_product.producer_id = v_actor
+  ) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF p_job_type IN ('generate_preview', 'analyze_audio') THEN
+    IF v_product.product_type NOT IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+       OR v_product.deleted_at IS NOT NULL THEN
+      RETURN false;
+    END IF;
+
+    IF p_job_type = 'generate_preview' AND v_product.is_published IS DISTINCT FROM true THEN
+      RETURN false;
+    END IF;
+
+    IF coalesce(
+      nullif(btrim(COALESCE(v_product.master_path, '')), ''),
+      nullif(btrim(COALESCE(v_product.master_url, '')), '')
+    ) IS NULL THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  IF p_job_type = 'validate_stems' THEN
+    IF v_product.deleted_at IS NOT NULL OR NOT EXISTS (
+      SELECT 1
+      FROM public.product_files pf
+      WHERE pf.product_id = p_product_id
+        AND pf.file_kind IN ('stem', 'stem_archive')
+        AND pf.validation_status = 'pending'
+    ) THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.audio_processing_jobs (product_id, job_type, status)
+    VALUES (p_product_id, p_job_type, 'queued');
+    RETURN true;
+  EXCEPTION
+    WHEN unique_violation THEN
+      RETURN false;
+  END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_product_stems_validation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.file_kind IN ('stem', 'stem_archive') AND NEW.validation_status = 'pending' THEN
+    -- A job already queued or running for this product picks the new file
+    -- up: the worker re-reads pending files until none are left.
+    PERFORM public.enqueue_audio_processing_job(NEW.product_id, 'validate_stems');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enqueue_product_stems_validation ON public.product_files;
+CREATE TRIGGER trg_enqueue_product_stems_validation
+  AFTER INSERT ON public.product_files
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_product_stems_validation();
+
+CREATE OR REPLACE FUNCTION public.claim_audio_processing_jobs(
+  p_limit integer DEFAULT 20,
+  p_worker text DEFAULT NULL
+)
+RETURNS SETOF public.audio_processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', '');
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_worker text := COALESCE(NULLIF(btrim(COALESCE(p_worker, '')), ''), 'audio-worker');
+  v_has_active_watermark boolean;
+BEGIN
+  IF NOT (v_jwt_role = 'service_role' OR public.is_admin(v_actor)) THEN
+    RAISE EXCEPTION 'admin_or_service_role_required';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.site_audio_settings sas
+    WHERE sas.enabled = true
+      AND NULLIF(btrim(COALESCE(sas.watermark_audio_path, '')), '') IS NOT NULL
+  )
+  INTO v_has_active_watermark;
+
+  RETURN QUERY
+  WITH reclaimed AS (
+    UPDATE public.audio_processing_jobs AS stale
+    SET
+      status = 'queued',
+      locked_at = NULL,
+      locked_by = NULL,
+      updated_at = now()
+    WHERE stale.status = 'processing'
+      AND stale.locked_at IS NOT NULL
+      AND stale.locked_at < now() - interval '15 minutes'
+    RETURNING stale.id
+  ),
+  candidates AS (
+    SELECT job.id
+    FROM public.audio_processing_jobs AS job
+    WHERE job.status IN ('queued', 'error')
+      AND job.attempts < job.max_attempts
+      -- Analysis and stem validation do not render a preview, so they are
+      -- not paused by a missing watermark sample.
+      AND (v_has_active_watermark OR job.job_type IN ('analyze_audio', 'validate_stems'))
+    ORDER BY job.created_at ASC
+    FOR UPDATE SKIP LOCKED
+    LIMIT v_limit
+  ),
+  claimed AS (
+    UPDATE public.audio_processing_jobs AS job
+    SET
+      status = 'processing',
+      attempts = job.attempts + 1,
+      locked_at = now(),
+      locked_by = v_worker,
+      updated_at = now()
+    FROM candidates
+    WHERE job.id = candidates.id
+    RETURNING job.*
+  )
+  SELECT * FROM claimed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.prepare_product_file_insert() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.enqueue_product_stems_validation() FROM PUBLIC;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_namespace WHERE nspname = 'storage') THEN
+    RAISE NOTICE 'Schema storage not found; skipping beats-masters update.';
+    RETURN;
+  END IF;
+
+  UPDATE storage.buckets
+  SET
+    file_size_limit = GREATEST(COALESCE(file_size_limit, 0), 524288000),
+    allowed_mime_types = CASE
+      WHEN allowed_mime_types IS NULL THEN NULL
+      ELSE (
+        SELECT array_agg(DISTINCT mime_type ORDER BY mime_type)
+        FROM unnest(
+          allowed_mime_types || '{application/zip,application/x-zip-compressed}'::text[]
+        ) AS mime_type
+      )
+    END
+  WHERE id = 'beats-masters';
+END
+$$;
+
+COMMIT;
@@ -0,0 +1,481 @@
+/*
+  # Per-producer watermark profiles (voice tags)
+
+  watermark_profiles and products.watermark_profile_id existed but the worker
+  only read site_audio_settings. Producers can now record their own voice
+  tag and have it mixed into their previews instead of the site sample.
+
+  - watermark_profiles gains producer_id (one profile per producer; rows
+    without producer_id stay admin-managed) and its own interval range.
+  - Producer tags live in watermark-assets under producers/<producer_id>/.
+    Producers can upload, read and delete their own objects there.
+  - rpc_save_watermark_profile upserts the caller's profile, attaches it to
+    all their products and re-enqueues published previews. New products pick
+    the profile up on insert.
+  - A profile only applies to products of its own producer. The worker falls
+    back to site_audio_settings when the profile is missing, disabled or has
+    no sample, and the loudness settings always come from the site row.
+  - compute_preview_signature gains an optional profile id so previews are
+    re-rendered when a product switches profile. concat_ws skips NULL, so
+    signatures of products without a profile are unchanged.
+  - enqueue_reprocess_all_previews compares each product against its
+    effective watermark (profile or site default).
+
+  Idempotent: uses IF NOT EXISTS for columns and named constraints.
+*/
+
+BEGIN;
+
+ALTER TABLE public.watermark_profiles
+  ADD COLUMN IF NOT EXISTS producer_id uuid REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS min_interval_sec integer,
+  ADD COLUMN IF NOT EXISTS max_interval_sec integer;
+
+ALTER TABLE public.watermark_profiles
+  DROP CONSTRAINT IF EXISTS watermark_profiles_name_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_watermark_profiles_global_name
+  ON public.watermark_profiles (name)
+  WHERE producer_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_watermark_profiles_producer
+  ON public.watermark_profiles (producer_id)
+  WHERE producer_id IS NOT NULL;
+
+ALTER TABLE public.watermark_profiles
+  DROP CONSTRAINT IF EXISTS watermark_profiles_gain_bounds;
+ALTER TABLE public.watermark_profiles
+  ADD CONSTRAINT watermark_profiles_gain_bounds CHECK (
+    gain_db IS NULL OR (gain_db >= -60.00 AND gain_db <= 12.00)
+  );
+
+ALTER TABLE public.watermark_profiles
+  DROP CONSTRAINT IF EXISTS watermark_profiles_interval_bounds;
+ALTER TABLE public.watermark_profiles
+  ADD CONSTRAINT watermark_profiles_interval_bounds CHECK (
+    (min_interval_sec IS NULL OR min_interval_sec >= 5)
+    AND (max_interval_sec IS NULL OR max_interval_sec <= 300)
+    AND (
+      min_interval_sec IS NULL
+      OR max_interval_sec IS NULL
+      OR max_interval_sec >= min_interval_sec
+    )
+  );
+
+ALTER TABLE public.watermark_profiles
+  DROP CONSTRAINT IF EXISTS watermark_profiles_producer_path;
+ALTER TABLE public.watermark_profiles
+  ADD CONSTRAINT watermark_profiles_producer_path CHECK (
+    producer_id IS NULL
+    OR overlay_audio_path IS NULL
+    OR overlay_audio_path LIKE 'producers/' || producer_id::text || '/%'
+  );
+
+COMMENT ON COLUMN public.watermark_profiles.producer_id IS
+  'Owner of a producer voice tag profile. NULL for admin-managed profiles.';
+COMMENT ON COLUMN public.watermark_profiles.overlay_audio_path IS
+  'Object path in the watermark-assets bucket. Producer tags live under producers/<producer_id>/.';
+
+DROP POLICY IF EXISTS "Producers can view own watermark profile" ON public.watermark_profiles;
+CREATE POLICY "Producers can view own watermark profile"
+  ON public.watermark_profiles
+  FOR SELECT
+  TO authenticated
+  USING (producer_id = auth.uid());
+
+-- ---------------------------------------------------------------------------
+-- Producer voice tags in watermark-assets
+-- ---------------------------------------------------------------------------
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.tables
+    WHERE table_schema = 'storage' AND table_name = 'objects'
+  ) THEN
+    RAISE NOTICE 'storage.objects table not found; skipping producer voice tag policies.';
+    RETURN;
+  END IF;
+
+  DROP POLICY IF EXISTS "Producers can read own voice tags" ON storage.objects;
+  CREATE POLICY "Producers can read own voice tags"
+    ON storage.objects
+    FOR SELECT
+    TO authenticated
+    USING (
+      bucket_id = 'watermark-assets'
+      AND name LIKE 'producers/' || auth.uid()::text || '/%'
+    );
+
+  DROP POLICY IF EXISTS "Producers can upload own voice tags" ON storage.objects;
+  CREATE POLICY "Producers can upload own voice tags"
+    ON storage.objects
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+      bucket_id = 'watermark-assets'
+      AND public.is_active_producer(auth.uid())
+      AND name LIKE 'producers/' || auth.uid()::text || '/%'
+    );
+
+  DROP POLICY IF EXISTS "Producers can delete own voice tags" ON storage.objects;
+  CREATE POLICY "Producers can delete own voice tags"
+    ON storage.objects
+    FOR DELETE
+    TO authenticated
+    USING (
+      bucket_id = 'watermark-assets'
+      AND auth.uid() = owner
+      AND name LIKE 'producers/' || auth.uid()::text || '/%'
+    );
+END
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Signature helpers
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.compute_preview_signature(
+  p_master_reference text,
+  p_watermark_audio_path text,
+  p_gain_db numeric,
+  p_min_interval_sec integer,
+  p_max_interval_sec integer,
+  p_watermark_profile_id uuid
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT encode(
+    extensions.digest(
+      concat_ws(
+        '|',
+        COALESCE(p_master_reference, ''),
+        COALESCE(p_watermark_audio_path, ''),
+        public.format_watermark_gain_db(p_gain_db),
+        COALESCE(p_min_interval_sec, 0)::text,
+        COALESCE(p_max_interval_sec, 0)::text,
+        p_watermark_profile_id::text
+      ),
+      'sha256'
+    ),
+    'hex'
+  );
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Attach the producer profile to new products
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.assign_product_watermark_profile()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF COALESCE(auth.jwt()->>'role', '') = 'service_role' OR public.is_admin(auth.uid()) THEN
+    IF NEW.watermark_profile_id IS NOT NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  -- Producers (and version RPCs running on their behalf) always get their
+  -- own profile, whatever the client sent.
+  NEW.watermark_profile_id := (
+    SELECT wp.id
+    FROM public.watermark_profiles wp
+    WHERE wp.producer_id = NEW.producer_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_assign_product_watermark_profile ON public.products;
+CREATE TRIGGER trg_assign_product_watermark_profile
+  BEFORE INSERT OR UPDATE OF watermark_profile_id, producer_id ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_product_watermark_profile();
+
+-- ---------------------------------------------------------------------------
+-- Producer RPC
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_save_watermark_profile(
+  p_overlay_audio_path text,
+  p_gain_db numeric,
+  p_min_interval_sec integer,
+  p_max_interval_sec integer,
+  p_enabled boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_path text := NULLIF(btrim(COALESCE(p_overlay_audio_path, '')), '');
+  v_profile public.watermark_profiles%ROWTYPE;
+  v_product record;
+  v_enqueued_count integer := 0;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'auth_required';
+  END IF;
+
+  IF NOT public.is_active_producer(v_actor) THEN
+    RAISE EXCEPTION 'producer_required';
+  END IF;
+
+  IF v_path IS NOT NULL AND (
+    v_path NOT LIKE 'producers/' || v_actor::text || '/%'
+    OR v_path LIKE '%..%'
+  ) THEN
+    RAISE EXCEPTION 'invalid_voice_tag_path';
+  END IF;
+
+  IF COALESCE(p_enabled, true) AND v_path IS NULL THEN
+    RAISE EXCEPTION 'voice_tag_required';
+  END IF;
+
+  INSERT INTO public.watermark_profiles (
+    name,
+    producer_id,
+    enabled,
+    overlay_audio_path,
+    gain_db,
+    min_interval_sec,
+    max_interval_sec
+  )
+  VALUES (
+    'producer:' || v_actor::text,
+    v_actor,
+    COALESCE(p_enabled, true),
+    v_path,
+    p_gain_db,
+    p_min_interval_sec,
+    p_max_interval_sec
+  )
+  ON CONFLICT (producer_id) WHERE producer_id IS NOT NULL
+  DO UPDATE SET
+    enabled = EXCLUDED.enabled,
+    overlay_audio_path = EXCLUDED.overlay_audio_path,
+    gain_db = EXCLUDED.gain_db,
+    min_interval_sec = EXCLUDED.min_interval_sec,
+    max_interval_sec = EXCLUDED.max_interval_sec,
+    updated_at = now()
+  RETURNING * INTO v_profile;
+
+  UPDATE public.products p
+  SET watermark_profile_id = v_profile.id
+  WHERE p.producer_id = v_actor
+    AND p.watermark_profile_id IS DISTINCT FROM v_profile.id;
+
+  -- Every published preview changes (new sample, or back to the site one).
+  FOR v_product IN
+    SELECT p.id
+    FROM public.products p
+    WHERE p.producer_id = v_actor
+      AND p.product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+      AND p.is_published = true
+      AND p.deleted_at IS NULL
+  LOOP
+    IF public.enqueue_audio_processing_job(v_product.id, 'generate_preview') THEN
+      UPDATE public.products
+      SET
+        preview_version = GREATEST(COALESCE(preview_version, 1), 1) + 1,
+        processing_status = 'pending',
+        processing_error = NULL,
+        processed_at = NULL
+      WHERE id = v_product.id;
+      v_enqueued_count := v_enqueued_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'profile_id', v_profile.id,
+    'enabled', v_profile.enabled,
+    'enqueued_count', v_enqueued_count
+  );
+END;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Global reprocess: compare against each product's effective watermark
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.enqueue_reprocess_all_previews()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', '');
+  v_settings record;
+  v_candidate_count integer := 0;
+  v_enqueued_count integer := 0;
+  v_skipped_count integer := 0;
+BEGIN
+  IF NOT (v_jwt_role = 'service_role' OR public.is_admin(v_actor)) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  SELECT
+    NULLIF(btrim(COALESCE(sas.watermark_audio_path, '')), '') AS watermark_audio_path,
+    COALESCE(sas.gain_db, -10.00) AS gain_db,
+    COALESCE(sas.min_interval_sec, 20) AS min_interval_sec,
+    COALESCE(sas.max_interval_sec, 45) AS max_interval_sec,
+    public.compute_watermark_hash_v2(
+      NULLIF(btrim(COALESCE(sas.watermark_audio_path, '')), ''),
+      COALESCE(sas.gain_db, -10.00),
+      COALESCE(sas.min_interval_sec, 20),
+      COALESCE(sas.max_interval_sec, 45),
+      sas.updated_at
+    ) AS current_watermark_hash
+  INTO v_settings
+  FROM public.site_audio_settings sas
+  WHERE sas.enabled = true
+    AND NULLIF(btrim(COALESCE(sas.watermark_audio_path, '')), '') IS NOT NULL
+  ORDER BY sas.updated_at DESC, sas.created_at DESC, sas.id DESC
+  LIMIT 1;
+
+  IF NOT FOUND OR v_settings.watermark_audio_path IS NULL THEN
+    RAISE EXCEPTION 'active_watermark_required';
+  END IF;
+
+  WITH candidate_products AS (
+    SELECT p.id
+    FROM public.products p
+    WHERE p.product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+      AND p.is_published = true
+      AND p.deleted_at IS NULL
+      AND COALESCE(
+        NULLIF(btrim(COALESCE(p.master_path, '')), ''),
+        NULLIF(btrim(COALESCE(p.master_url, '')), '')
+      ) IS NOT NULL
+  )
+  SELECT COUNT(*) INTO v_candidate_count
+  FROM candidate_products;
+
+  WITH effective_watermarks AS (
+    SELECT
+      p.id,
+      p.master_path,
+      p.master_url,
+      p.preview_signature,
+      p.last_watermark_hash,
+      p.watermarked_path,
+      p.preview_url,
+      p.exclusive_preview_url,
+      wp.id AS profile_id,
+      COALESCE(wp.overlay_audio_path, v_settings.watermark_audio_path) AS watermark_audio_path,
+      COALESCE(wp.gain_db, v_settings.gain_db) AS gain_db,
+      COALESCE(wp.min_interval_sec, v_settings.min_interval_sec) AS min_interval_sec,
+      COALESCE(wp.max_interval_sec, v_settings.max_interval_sec) AS max_interval_sec,
+      CASE
+        WHEN wp.id IS NULL THEN v_settings.current_watermark_hash
+        ELSE public.compute_watermark_hash_v2(
+          wp.overlay_audio_path,
+          COALESCE(wp.gain_db, v_settings.gain_db),
+          COALESCE(wp.min_interval_sec, v_settings.min_interval_sec),
+          COALESCE(wp.max_interval_sec, v_settings.max_interval_sec),
+          wp.updated_at
+        )
+      END AS current_watermark_hash
+    FROM public.products p
+    LEFT JOIN public.watermark_profiles wp
+      ON wp.id = p.watermark_profile_id
+      AND wp.enabled = true
+      AND NULLIF(btrim(COALESCE(wp.overlay_audio_path, '')), '') IS NOT NULL
+      AND (wp.producer_id IS NULL OR wp.producer_id = p.producer_id)
+    WHERE p.product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+      AND p.is_published = true
+      AND p.deleted_at IS NULL
+      AND COALESCE(
+        NULLIF(btrim(COALESCE(p.master_path, '')), ''),
+        NULLIF(btrim(COALESCE(p.master_url, '')), '')
+      ) IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.audio_processing_jobs job
+        WHERE job.product_id = p.id
+          AND job.job_type = 'generate_preview'
+          AND job.status IN ('queued', 'processing')
+      )
+  ),
+  scannable_products AS (
+    SELECT
+      ew.id,
+      ew.preview_signature,
+      ew.last_watermark_hash,
+      ew.watermarked_path,
+      ew.preview_url,
+      ew.exclusive_preview_url,
+      ew.current_watermark_hash,
+      public.compute_preview_signature(
+        COALESCE(
+          NULLIF(btrim(COALESCE(ew.master_path, '')), ''),
+          NULLIF(btrim(COALESCE(ew.master_url, '')), '')
+        ),
+        ew.watermark_audio_path,
+        ew.gain_db,
+        ew.min_interval_sec,
+        ew.max_interval_sec,
+        ew.profile_id
+      ) AS current_preview_signature
+    FROM effective_watermarks ew
+  ),
+  eligible_products AS (
+    SELECT sp.id
+    FROM scannable_products sp
+    WHERE sp.preview_signature IS NULL
+      OR sp.last_watermark_hash IS DISTINCT FROM sp.current_watermark_hash
+      OR sp.preview_signature IS DISTINCT FROM sp.current_preview_signature
+      OR COALESCE(
+        NULLIF(btrim(COALESCE(sp.watermarked_path, '')), ''),
+        NULLIF(btrim(COALESCE(sp.preview_url, '')), ''),
+        NULLIF(btrim(COALESCE(sp.exclusive_preview_url, '')), '')
+      ) IS NULL
+  ),
+  inserted_jobs AS (
+    INSERT INTO public.audio_processing_jobs (product_id, job_type, status)
+    SELECT ep.id, 'generate_preview', 'queued'
+    FROM eligible_products ep
+    ON CONFLICT DO NOTHING
+    RETURNING product_id
+  ),
+  updated_products AS (
+    UPDATE public.products p
+    SET
+      preview_version = GREATEST(COALESCE(p.preview_version, 1), 1) + 1,
+      processing_status = 'pending',
+      processing_error = NULL,
+      processed_at = NULL
+    FROM inserted_jobs ij
+    WHERE p.id = ij.product_id
+    RETURNING p.id
+  )
+  SELECT COUNT(*) INTO v_enqueued_count
+  FROM updated_products;
+
+  v_skipped_count := GREATEST(v_candidate_count - v_enqueued_count, 0);
+
+  RETURN jsonb_build_object(
+    'enqueued_count', v_enqueued_count,
+    'skipped_count', v_skipped_count
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.compute_preview_signature(text, text, numeric, integer, integer, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.assign_product_watermark_profile() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.rpc_save_watermark_profile(text, numeric, integer, integer, boolean) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.enqueue_reprocess_all_previews() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.compute_preview_signature(text, text, numeric, integer, integer, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.rpc_save_watermark_profile(text, numeric, integer, integer, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_reprocess_all_previews() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_reprocess_all_previews() TO service_role;
+
+COMMIT;
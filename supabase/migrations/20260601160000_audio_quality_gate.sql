@@ -0,0 +1,729 @@
+/*
+  # Audio quality gate
+
+  Adds an `analyze_quality` job type. The worker decodes the private master at
+  full resolution and measures peak level, clipped samples, silence ratio,
+  left/right correlation, sample rate and bit depth, then compares them with
+  its configured thresholds.
+
+  - public.products gains audio_quality_status ('passed' / 'failed', null
+    until the current master was checked), the structured
+    audio_quality_report (measurements plus the failed checks as `reasons`)
+    and audio_quality_checked_at.
+  - record_audio_quality_report (service_role) stores the report. A failed
+    report unpublishes the beat and remembers whether it was published in
+    audio_quality_held_publish; a later passing report for a new master
+    restores it, unless a duplicate review still holds the beat.
+  - Producers cannot republish a beat whose master failed the check, nor
+    change the quality columns. rpc_publish_product_version refuses to
+    publish a new version that reuses a failed master (`audio_quality_failed`).
+  - Changing the master clears the report; the check that follows runs
+    again on the new file. The held flag is kept until that check passes.
+  - enqueue_product_preview_job queues the check on insert and on master
+    change, and claim_audio_processing_jobs keeps it claimable without a
+    watermark, like analyze_audio.
+  - enqueue_audio_analysis_backfill also queues beats never checked.
+
+  Idempotent: uses IF NOT EXISTS for columns and named constraints.
+*/
+
+BEGIN;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS audio_quality_status text;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS audio_quality_report jsonb;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS audio_quality_checked_at timestamptz;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS audio_quality_held_publish boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.products
+  DROP CONSTRAINT IF EXISTS products_audio_quality_status_check;
+ALTER TABLE public.products
+  ADD CONSTRAINT products_audio_quality_status_check
+  CHECK (audio_quality_status IS NULL OR audio_quality_status IN ('passed', 'failed'));
+
+COMMENT ON COLUMN public.products.audio_quality_status IS
+  'Result of the analyze_quality check for the current master: passed or failed. Null until checked.';
+COMMENT ON COLUMN public.products.audio_quality_report IS
+  'Measurements written by the audio worker (peak, clipping, silence, channel correlation, format) and the failed checks under "reasons".';
+COMMENT ON COLUMN public.products.audio_quality_checked_at IS
+  'When the current master was last checked.';
+COMMENT ON COLUMN public.products.audio_quality_held_publish IS
+  'True when the beat was published before its master failed the quality check, so a passing check republishes it.';
+
+ALTER TABLE public.audio_processing_jobs
+  DROP CONSTRAINT IF EXISTS audio_processing_jobs_job_type_check;
+ALTER TABLE public.audio_processing_jobs
+  ADD CONSTRAINT audio_processing_jobs_job_type_check
+  CHECK (job_type IN ('generate_preview', 'reprocess_all', 'analyze_audio', 'validate_stems', 'analyze_quality'));
+
+CREATE OR REPLACE FUNCTION public.reset_product_audio_analysis()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.master_path IS DISTINCT FROM OLD.master_path
+     OR NEW.master_url IS DISTINCT FROM OLD.master_url THEN
+    NEW.detected_bpm := NULL;
+    NEW.detected_bpm_confidence := NULL;
+    NEW.detected_key_signature := NULL;
+    NEW.detected_key_confidence := NULL;
+    NEW.audio_analyzed_at := NULL;
+    NEW.audio_analysis_error := NULL;
+    NEW.audio_quality_status := NULL;
+    NEW.audio_quality_report := NULL;
+    NEW.audio_quality_checked_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_product_audio_quality()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', current_setting('request.jwt.claim.role', true), '');
+BEGIN
+  IF v_jwt_role = 'service_role' OR public.is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  -- A new master clears the report in reset_product_audio_analysis (which
+  -- fires after this trigger), so only direct edits are refused here.
+  IF (
+       NEW.master_path IS NOT DISTINCT FROM OLD.master_path
+       AND NEW.master_url IS NOT DISTINCT FROM OLD.master_url
+       AND (
+         NEW.audio_quality_status IS DISTINCT FROM OLD.audio_quality_status
+         OR NEW.audio_quality_report IS DISTINCT FROM OLD.audio_quality_report
+         OR NEW.audio_quality_checked_at IS DISTINCT FROM OLD.audio_quality_checked_at
+       )
+     )
+     OR NEW.audio_quality_held_publish IS DISTINCT FROM OLD.audio_quality_held_publish THEN
+    RAISE EXCEPTION 'audio_quality_worker_only';
+  END IF;
+
+  IF COALESCE(NEW.is_published, false) = true
+     AND COALESCE(OLD.is_published, false) = false
+     AND NEW.audio_quality_status = 'failed' THEN
+    RAISE EXCEPTION 'audio_quality_failed'
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_product_audio_quality ON public.products;
+CREATE TRIGGER trg_guard_product_audio_quality
+  BEFORE UPDATE OF
+    is_published,
+    master_path,
+    master_url,
+    audio_quality_status,
+    audio_quality_report,
+    audio_quality_checked_at,
+    audio_quality_held_publish
+  ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_product_audio_quality();
+
+CREATE OR REPLACE FUNCTION public.record_audio_quality_report(
+  p_product_id uuid,
+  p_master_reference text,
+  p_status text,
+  p_report jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', current_setting('request.jwt.claim.role', true), '');
+  v_product public.products%ROWTYPE;
+  v_current_master text;
+BEGIN
+  IF v_jwt_role <> 'service_role' THEN
+    RAISE EXCEPTION 'service_role_required';
+  END IF;
+
+  IF p_status NOT IN ('passed', 'failed') THEN
+    RAISE EXCEPTION 'invalid_audio_quality_status';
+  END IF;
+
+  SELECT *
+  INTO v_product
+  FROM public.products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'product_not_found';
+  END IF;
+
+  v_current_master := COALESCE(
+    NULLIF(btrim(COALESCE(v_product.master_path, '')), ''),
+    NULLIF(btrim(COALESCE(v_product.master_url, '')), '')
+  );
+
+  -- The master changed while the job ran: its own check is already queued.
+  IF v_current_master IS DISTINCT FROM NULLIF(btrim(COALESCE(p_master_reference, '')), '') THEN
+    RETURN jsonb_build_object(
+      'recorded', false,
+      'status', v_product.audio_quality_status,
+      'is_published', COALESCE(v_product.is_published, false)
+    );
+  END IF;
+
+  IF p_status = 'failed' THEN
+    UPDATE public.products
+    SET
+      audio_quality_status = 'failed',
+      audio_quality_report = COALESCE(p_report, '{}'::jsonb),
+      audio_quality_checked_at = now(),
+      audio_quality_held_publish = audio_quality_held_publish OR COALESCE(is_published, false),
+      is_published = false
+    WHERE id = p_product_id
+    RETURNING * INTO v_product;
+  ELSIF v_product.duplicate_review_status IN ('pending', 'confirmed') THEN
+    -- The duplicate review decides when the beat comes back.
+    UPDATE public.products
+    SET
+      audio_quality_status = 'passed',
+      audio_quality_report = COALESCE(p_report, '{}'::jsonb),
+      audio_quality_checked_at = now(),
+      duplicate_review_held_publish = duplicate_review_held_publish OR audio_quality_held_publish,
+      audio_quality_held_publish = false
+    WHERE id = p_product_id
+    RETURNING * INTO v_product;
+  ELSE
+    UPDATE public.products
+    SET
+      audio_quality_status = 'passed',
+      audio_quality_report = COALESCE(p_report, '{}'::jsonb),
+      audio_quality_checked_at = now(),
+      is_published = COALESCE(is_published, false) OR audio_quality_held_publish,
+      audio_quality_held_publish = false
+    WHERE id = p_product_id
+    RETURNING * INTO v_product;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'recorded', true,
+    'status', v_product.audio_quality_status,
+    'is_published', COALESCE(v_product.is_published, false)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_audio_processing_job(
+  p_product_id uuid,
+  p_job_type text DEFAULT 'generate_preview'
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', '');
+  v_product public.products%ROWTYPE;
+BEGIN
+  IF p_product_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF p_job_type NOT IN ('generate_preview', 'reprocess_all', 'analyze_audio', 'validate_stems', 'analyze_quality') THEN
+    RAISE EXCEPTION 'invalid_job_type';
+  END IF;
+
+  SELECT *
+  INTO v_product
+  FROM public.products
+  WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF p_job_type = 'reprocess_all' THEN
+    IF NOT (v_jwt_role = 'service_role' OR public.is_admin(v_actor)) THEN
+      RAISE EXCEPTION 'admin_required';
+    END IF;
+  ELSIF NOT (
+    v_jwt_role = 'service_role'
+    OR public.is_admin(v_actor)
+    OR v_product.producer_id = v_actor
+  ) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF p_job_type IN ('generate_preview', 'analyze_audio', 'analyze_quality') THEN
+    IF v_product.product_type NOT IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+       OR v_product.deleted_at IS NOT NULL THEN
+      RETURN false;
+    END IF;
+
+    IF p_job_type = 'generate_preview' AND v_product.is_published IS DISTINCT FROM true THEN
+      RETURN false;
+    END IF;
+
+    IF coalesce(
+      nullif(btrim(COALESCE(v_product.master_path, '')), ''),
+      nullif(btrim(COALESCE(v_product.master_url, '')), '')
+    ) IS NULL THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  IF p_job_type = 'validate_stems' THEN
+    IF v_product.deleted_at IS NOT NULL OR NOT EXISTS (
+      SELECT 1
+      FROM public.product_files pf
+      WHERE pf.product_id = p_product_id
+        AND pf.file_kind IN ('stem', 'stem_archive')
+        AND pf.validation_status = 'pending'
+    ) THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.audio_processing_jobs (product_id, job_type, status)
+    VALUES (p_product_id, p_job_type, 'queued');
+    RETURN true;
+  EXCEPTION
+    WHEN unique_violation THEN
+      RETURN false;
+  END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_product_preview_job()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.product_type NOT IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+     OR NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF coalesce(
+    nullif(btrim(COALESCE(NEW.master_path, '')), ''),
+    nullif(btrim(COALESCE(NEW.master_url, '')), '')
+  ) IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+     OR NEW.master_path IS DISTINCT FROM OLD.master_path
+     OR NEW.master_url IS DISTINCT FROM OLD.master_url THEN
+    PERFORM public.enqueue_audio_processing_job(NEW.id, 'analyze_audio');
+    PERFORM public.enqueue_audio_processing_job(NEW.id, 'analyze_quality');
+  END IF;
+
+  IF NEW.is_published IS DISTINCT FROM true THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+     OR NEW.master_path IS DISTINCT FROM OLD.master_path
+     OR NEW.master_url IS DISTINCT FROM OLD.master_url
+     OR (OLD.is_published = false AND NEW.is_published = true)
+     OR (OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL) THEN
+    PERFORM public.enqueue_audio_processing_job(NEW.id, 'generate_preview');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_audio_processing_jobs(
+  p_limit integer DEFAULT 20,
+  p_worker text DEFAULT NULL
+)
+RETURNS SETOF public.audio_processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', '');
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_worker text := COALESCE(NULLIF(btrim(COALESCE(p_worker, '')), ''), 'audio-worker');
+  v_has_active_watermark boolean;
+BEGIN
+  IF NOT (v_jwt_role = 'service_role' OR public.is_admin(v_actor)) THEN
+    RAISE EXCEPTION 'admin_or_service_role_required';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.site_audio_settings sas
+    WHERE sas.enabled = true
+      AND NULLIF(btrim(COALESCE(sas.watermark_audio_path, '')), '') IS NOT NULL
+  )
+  INTO v_has_active_watermark;
+
+  RETURN QUERY
+  WITH reclaimed AS (
+    UPDATE public.audio_processing_jobs AS stale
+    SET
+      status = 'queued',
+      locked_at = NULL,
+      locked_by = NULL,
+      updated_at = now()
+    WHERE stale.status = 'processing'
+      AND stale.locked_at IS NOT NULL
+      AND stale.locked_at < now() - interval '15 minutes'
+    RETURNING stale.id
+  ),
+  candidates AS (
+    SELECT job.id
+    FROM public.audio_processing_jobs AS job
+    WHERE job.status IN ('queued', 'error')
+      AND job.attempts < job.max_attempts
+      -- Analysis, quality checks and stem validation do not render a
+      -- preview, so they are not paused by a missing watermark sample.
+      AND (
+        v_has_active_watermark
+        OR job.job_type IN ('analyze_audio', 'validate_stems', 'analyze_quality')
+      )
+    ORDER BY job.created_at ASC
+    FOR UPDATE SKIP LOCKED
+    LIMIT v_limit
+  ),
+  claimed AS (
+    UPDATE public.audio_processing_jobs AS job
+    SET
+      status = 'processing',
+      attempts = job.attempts + 1,
+      locked_at = now(),
+      locked_by = v_worker,
+      updated_at = now()
+    FROM candidates
+    WHERE job.id = candidates.id
+    RETURNING job.*
+  )
+  SELECT * FROM claimed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_audio_analysis_backfill()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', '');
+  v_candidate_count integer := 0;
+  v_enqueued_count integer := 0;
+BEGIN
+  IF NOT (v_jwt_role = 'service_role' OR public.is_admin(v_actor)) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  WITH candidate_products AS (
+    SELECT p.id
+    FROM public.products p
+    WHERE p.product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+      AND p.deleted_at IS NULL
+      AND (
+        p.audio_analyzed_at IS NULL
+        OR NOT EXISTS (SELECT 1 FROM public.audio_fingerprints af WHERE af.product_id = p.id)
+        OR p.audio_quality_checked_at IS NULL
+      )
+      AND COALESCE(
+        NULLIF(btrim(COALESCE(p.master_path, '')), ''),
+        NULLIF(btrim(COALESCE(p.master_url, '')), '')
+      ) IS NOT NULL
+  )
+  SELECT COUNT(*) INTO v_candidate_count
+  FROM candidate_products;
+
+  WITH inserted_jobs AS (
+    INSERT INTO public.audio_processing_jobs (product_id, job_type, status)
+    SELECT p.id, job_type.name, 'queued'
+    FROM public.products p
+    CROSS JOIN LATERAL (
+      SELECT 'analyze_audio'::text AS name
+      WHERE p.audio_analyzed_at IS NULL
+        OR NOT EXISTS (SELECT 1 FROM public.audio_fingerprints af WHERE af.product_id = p.id)
+      UNION ALL
+      SELECT 'analyze_quality'::text
+      WHERE p.audio_quality_checked_at IS NULL
+    ) AS job_type
+    WHERE p.product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+      AND p.deleted_at IS NULL
+      AND COALESCE(
+        NULLIF(btrim(COALESCE(p.master_path, '')), ''),
+        NULLIF(btrim(COALESCE(p.master_url, '')), '')
+      ) IS NOT NULL
+    ON CONFLICT DO NOTHING
+    RETURNING product_id
+  )
+  SELECT COUNT(DISTINCT product_id) INTO v_enqueued_count
+  FROM inserted_jobs;
+
+  RETURN jsonb_build_object(
+    'enqueued_count', v_enqueued_count,
+    'skipped_count', GREATEST(v_candidate_count - v_enqueued_count, 0),
+    'candidate_count', v_candidate_count
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rpc_publish_product_version(
+  p_source_product_id uuid,
+  p_new_data jsonb DEFAULT '{}'::jsonb
+)
+RETURNS public.products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_source public.products%ROWTYPE;
+  v_root_id uuid;
+  v_next_version integer;
+  v_new_product public.products%ROWTYPE;
+  v_actor_is_elite_producer boolean := false;
+  v_requested_is_elite boolean;
+  v_new_is_exclusive boolean;
+  v_new_product_type public.product_type;
+  v_new_master_path text;
+  v_new_master_url text;
+BEGIN
+  SELECT *
+  INTO v_source
+  FROM public.products
+  WHERE id = p_source_product_id
+    AND product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+    AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'product_not_found';
+  END IF;
+
+  IF v_actor IS NULL OR v_source.producer_id <> v_actor THEN
+    RAISE EXCEPTION 'not_owner';
+  END IF;
+
+  v_new_master_path := COALESCE(NULLIF(btrim(COALESCE(p_new_data->>'master_path', '')), ''), v_source.master_path);
+  v_new_master_url := COALESCE(NULLIF(btrim(COALESCE(p_new_data->>'master_url', '')), ''), v_source.master_url);
+
+  -- A new master is checked after insert and held if it fails; reusing one
+  -- that already failed is refused up front.
+  IF v_source.audio_quality_status = 'failed'
+     AND v_new_master_path IS NOT DISTINCT FROM v_source.master_path
+     AND v_new_master_url IS NOT DISTINCT FROM v_source.master_url THEN
+    RAISE EXCEPTION 'audio_quality_failed'
+      USING ERRCODE = '23514';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_profiles up
+    WHERE up.id = v_actor
+      AND up.account_type = 'elite_producer'
+      AND up.is_producer_active = true
+      AND COALESCE(up.is_deleted, false) = false
+      AND up.deleted_at IS NULL
+  )
+  INTO v_actor_is_elite_producer;
+
+  v_requested_is_elite := COALESCE(
+    NULLIF(COALESCE(p_new_data->>'is_elite', ''), '')::boolean,
+    v_source.is_elite
+  );
+
+  IF v_requested_is_elite = true
+     AND v_source.is_elite = false
+     AND v_actor_is_elite_producer = false THEN
+    RAISE EXCEPTION 'elite_producer_required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_requested_is_elite = true
+     AND v_source.is_elite = false
+     AND (
+       public.product_lineage_has_completed_sales(v_source.id)
+       OR public.product_lineage_has_public_marketplace_history(v_source.id)
+     ) THEN
+    RAISE EXCEPTION 'elite_status_locked_by_sales_or_public_history'
+      USING ERRCODE = '23514';
+  END IF;
+
+  v_new_is_exclusive := COALESCE(
+    NULLIF(COALESCE(p_new_data->>'is_exclusive', ''), '')::boolean,
+    v_source.is_exclusive
+  );
+  v_new_product_type := CASE
+    WHEN v_new_is_exclusive THEN 'exclusive'::public.product_type
+    ELSE 'beat'::public.product_type
+  END;
+
+  v_root_id := COALESCE(v_source.parent_product_id, v_source.id);
+
+  PERFORM 1
+  FROM public.products
+  WHERE COALESCE(parent_product_id, id) = v_root_id
+    AND product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+    AND deleted_at IS NULL
+  FOR UPDATE;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1
+  INTO v_next_version
+  FROM public.products
+  WHERE COALESCE(parent_product_id, id) = v_root_id
+    AND product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+    AND deleted_at IS NULL;
+
+  INSERT INTO public.products (
+    producer_id,
+    title,
+    slug,
+    description,
+    product_type,
+    genre_id,
+    mood_id,
+    bpm,
+    key_signature,
+    price,
+    cover_image_url,
+    is_exclusive,
+    is_elite,
+    is_sold,
+    sold_at,
+    sold_to_user_id,
+    is_published,
+    play_count,
+    tags,
+    duration_seconds,
+    file_format,
+    license_terms,
+    watermark_profile_id,
+    deleted_at,
+    master_path,
+    master_url,
+    watermarked_path,
+    preview_url,
+    exclusive_preview_url,
+    watermarked_bucket,
+    processing_status,
+    processing_error,
+    processed_at,
+    preview_signature,
+    last_watermark_hash,
+    preview_version,
+    status,
+    version,
+    version_number,
+    parent_product_id,
+    original_beat_id,
+    archived_at
+  )
+  VALUES (
+    v_source.producer_id,
+    COALESCE(NULLIF(btrim(COALESCE(p_new_data->>'title', '')), ''), v_source.title),
+    NULLIF(btrim(COALESCE(p_new_data->>'slug', '')), ''),
+    COALESCE(NULLIF(btrim(COALESCE(p_new_data->>'description', '')), ''), v_source.description),
+    v_new_product_type,
+    COALESCE(NULLIF(COALESCE(p_new_data->>'genre_id', ''), '')::uuid, v_source.genre_id),
+    COALESCE(NULLIF(COALESCE(p_new_data->>'mood_id', ''), '')::uuid, v_source.mood_id),
+    COALESCE(NULLIF(COALESCE(p_new_data->>'bpm', ''), '')::integer, v_source.bpm),
+    COALESCE(NULLIF(btrim(COALESCE(p_new_data->>'key_signature', '')), ''), v_source.key_signature),
+    COALESCE(NULLIF(COALESCE(p_new_data->>'price', ''), '')::integer, v_source.price),
+    COALESCE(NULLIF(btrim(COALESCE(p_new_data->>'cover_image_url', '')), ''), v_source.cover_image_url),
+    v_new_is_exclusive,
+    v_requested_is_elite,
+    false,
+    NULL,
+    NULL,
+    true,
+    0,
+    CASE
+      WHEN jsonb_typeof(p_new_data->'tags') = 'array' THEN ARRAY(
+        SELECT jsonb_array_elements_text(COALESCE(p_new_data->'tags', '[]'::jsonb))
+      )
+      ELSE v_source.tags
+    END,
+    COALESCE(NULLIF(COALESCE(p_new_data->>'duration_seconds', ''), '')::integer, v_source.duration_seconds),
+    COALESCE(NULLIF(btrim(COALESCE(p_new_data->>'file_format', '')), ''), v_source.file_format),
+    COALESCE(p_new_data->'license_terms', v_source.license_terms),
+    v_source.watermark_profile_id,
+    NULL,
+    v_new_master_path,
+    v_new_master_url,
+    NULL,
+    NULL,
+    NULL,
+    COALESCE(NULLIF(btrim(COALESCE(p_new_data->>'watermarked_bucket', '')), ''), v_source.watermarked_bucket),
+    'pending',
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    1,
+    'archived',
+    v_next_version,
+    v_next_version,
+    v_root_id,
+    v_root_id,
+    now()
+  )
+  RETURNING * INTO v_new_product;
+
+  UPDATE public.products
+  SET
+    status = 'archived',
+    archived_at = COALESCE(archived_at, now()),
+    is_published = false,
+    updated_at = now()
+  WHERE COALESCE(parent_product_id, id) = v_root_id
+    AND status = 'active'
+    AND product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+    AND deleted_at IS NULL;
+
+  UPDATE public.products
+  SET
+    status = 'active',
+    archived_at = NULL,
+    is_published = true,
+    updated_at = now()
+  WHERE id = v_new_product.id
+  RETURNING * INTO v_new_product;
+
+  RETURN v_new_product;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.guard_product_audio_quality() FROM PUBLIC;
+
+REVOKE EXECUTE ON FUNCTION public.record_audio_quality_report(uuid, text, text, jsonb) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.record_audio_quality_report(uuid, text, text, jsonb) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.record_audio_quality_report(uuid, text, text, jsonb) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.record_audio_quality_report(uuid, text, text, jsonb) TO service_role;
+
+COMMIT;
@@ -0,0 +1,299 @@
+/*
+  # Versioned, multilingual license contract templates
+
+  Contracts were rendered from a hardcoded French layout whatever the buyer's
+  language. The wording now lives in versioned templates with one body per
+  language, and each purchase records the template version and language its
+  contract was rendered with so the exact wording can be reproduced later.
+
+  - license_contract_templates holds (template_key, version) rows. bodies maps
+    a language (fr, en, de, es) to {title, reference, parties[], sections[],
+    signatures[], terms}; every string may use {{placeholders}} filled from the contract
+    payload. fr and en are required since they are the fallback languages.
+  - Template versions are immutable once inserted: new wording is a new
+    version, and licenses are pointed at it explicitly.
+  - licenses.contract_template_id selects the template of a license. NULL
+    means the latest version of the 'standard' template.
+  - purchases gains contract_template_id, contract_template_version and
+    contract_language, written together with contract_pdf_path. Regenerating
+    a contract reuses them instead of the license's current template.
+  - Version 1 of 'standard' reproduces the previous contract content in the
+    four site languages and is assigned to the existing licenses.
+
+  Idempotent: uses IF NOT EXISTS for tables, columns and named constraints.
+*/
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.license_contract_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_key text NOT NULL,
+  version integer NOT NULL,
+  bodies jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT license_contract_templates_key_version_key UNIQUE (template_key, version)
+);
+
+ALTER TABLE public.license_contract_templates
+  DROP CONSTRAINT IF EXISTS license_contract_templates_version_positive;
+ALTER TABLE public.license_contract_templates
+  ADD CONSTRAINT license_contract_templates_version_positive CHECK (version >= 1);
+
+ALTER TABLE public.license_contract_templates
+  DROP CONSTRAINT IF EXISTS license_contract_templates_bodies_languages;
+ALTER TABLE public.license_contract_templates
+  ADD CONSTRAINT license_contract_templates_bodies_languages CHECK (
+    jsonb_typeof(bodies) = 'object'
+    AND bodies ?& ARRAY['fr', 'en']
+    AND bodies - ARRAY['fr', 'en', 'de', 'es'] = '{}'::jsonb
+  );
+
+COMMENT ON TABLE public.license_contract_templates IS
+  'Immutable contract template versions. bodies maps fr/en/de/es to the rendered layout with {{placeholders}}.';
+
+ALTER TABLE public.license_contract_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read license contract templates" ON public.license_contract_templates;
+CREATE POLICY "Admins can read license contract templates"
+ON public.license_contract_templates
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.prevent_license_contract_template_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.template_key IS DISTINCT FROM OLD.template_key
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.bodies IS DISTINCT FROM OLD.bodies THEN
+    RAISE EXCEPTION 'license_contract_template_immutable'
+      USING ERRCODE = '55000',
+            HINT = 'Insert a new version of the template instead.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_prevent_license_contract_template_changes ON public.license_contract_templates;
+CREATE TRIGGER trg_prevent_license_contract_template_changes
+  BEFORE UPDATE ON public.license_contract_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_license_contract_template_changes();
+
+-- ---------------------------------------------------------------------------
+-- License and purchase references
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.licenses
+  ADD COLUMN IF NOT EXISTS contract_template_id uuid
+    REFERENCES public.license_contract_templates(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_licenses_contract_template_id
+  ON public.licenses (contract_template_id);
+
+ALTER TABLE public.purchases
+  ADD COLUMN IF NOT EXISTS contract_template_id uuid
+    REFERENCES public.license_contract_templates(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS contract_template_version integer,
+  ADD COLUMN IF NOT EXISTS contract_language text;
+
+ALTER TABLE public.purchases
+  DROP CONSTRAINT IF EXISTS purchases_contract_language_check;
+ALTER TABLE public.purchases
+  ADD CONSTRAINT purchases_contract_language_check CHECK (
+    contract_language IS NULL OR contract_language IN ('fr', 'en', 'de', 'es')
+  );
+
+ALTER TABLE public.purchases
+  DROP CONSTRAINT IF EXISTS purchases_contract_template_consistency;
+ALTER TABLE public.purchases
+  ADD CONSTRAINT purchases_contract_template_consistency CHECK (
+    (contract_template_id IS NULL) = (contract_template_version IS NULL)
+    AND (contract_template_id IS NULL) = (contract_language IS NULL)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_purchases_contract_template_id
+  ON public.purchases (contract_template_id)
+  WHERE contract_template_id IS NOT NULL;
+
+COMMENT ON COLUMN public.licenses.contract_template_id IS
+  'Contract template version used for new purchases of this license. NULL uses the latest standard template.';
+COMMENT ON COLUMN public.purchases.contract_template_version IS
+  'Version of license_contract_templates the contract PDF was rendered from, with contract_template_id and contract_language.';
+
+-- ---------------------------------------------------------------------------
+-- Seed: standard v1
+-- ---------------------------------------------------------------------------
+INSERT INTO public.license_contract_templates (template_key, version, bodies)
+VALUES (
+  'standard',
+  1,
+  $bodies$
+  {
+    "fr": {
+      "title": "CONTRAT DE LICENCE",
+      "reference": "Référence d'achat : {{purchaseId}}",
+      "parties": [
+        "Date : {{contractDate}}",
+        "Producteur : {{producerName}}",
+        "Acheteur : {{buyerName}}",
+        "Titre : {{trackTitle}}",
+        "Licence : {{licenseName}}"
+      ],
+      "sections": [
+        { "heading": "Description de la licence", "body": "{{licenseDescription}}" },
+        { "heading": "Droits et limites", "body": "{{rights}}" },
+        { "heading": "Clause de crédit", "body": "{{creditClause}}" }
+      ],
+      "signatures": [
+        "Signature du producteur : ______________________",
+        "Signature de l'acheteur : ______________________"
+      ],
+      "terms": {
+        "yes": "Oui",
+        "no": "Non",
+        "unlimited": "Illimité",
+        "maxStreams": "Streams max",
+        "maxSales": "Ventes max",
+        "youtubeMonetization": "Monétisation YouTube",
+        "musicVideoAllowed": "Clip autorisé",
+        "creditRequired": "Crédit obligatoire",
+        "creditClauseRequired": "L'acheteur doit créditer {{producerName}} sur toute publication de « {{trackTitle}} » (par exemple « Prod. by {{producerName}} »).",
+        "creditClauseOptional": "Le crédit de {{producerName}} est apprécié mais n'est pas obligatoire.",
+        "noDescription": "Aucune description fournie.",
+        "unknownBuyer": "Acheteur",
+        "unknownProducer": "Producteur",
+        "untitled": "Titre non renseigné"
+      }
+    },
+    "en": {
+      "title": "LICENSE AGREEMENT",
+      "reference": "Purchase reference: {{purchaseId}}",
+      "parties": [
+        "Date: {{contractDate}}",
+        "Producer: {{producerName}}",
+        "Buyer: {{buyerName}}",
+        "Title: {{trackTitle}}",
+        "License: {{licenseName}}"
+      ],
+      "sections": [
+        { "heading": "License description", "body": "{{licenseDescription}}" },
+        { "heading": "Rights and limits", "body": "{{rights}}" },
+        { "heading": "Credit clause", "body": "{{creditClause}}" }
+      ],
+      "signatures": [
+        "Producer signature: ______________________",
+        "Buyer signature: ______________________"
+      ],
+      "terms": {
+        "yes": "Yes",
+        "no": "No",
+        "unlimited": "Unlimited",
+        "maxStreams": "Max streams",
+        "maxSales": "Max sales",
+        "youtubeMonetization": "YouTube monetization",
+        "musicVideoAllowed": "Music video allowed",
+        "creditRequired": "Credit required",
+        "creditClauseRequired": "The buyer must credit {{producerName}} on every release of \"{{trackTitle}}\" (for example \"Prod. by {{producerName}}\").",
+        "creditClauseOptional": "Crediting {{producerName}} is appreciated but not required.",
+        "noDescription": "No description provided.",
+        "unknownBuyer": "Buyer",
+        "unknownProducer": "Producer",
+        "untitled": "Untitled"
+      }
+    },
+    "de": {
+      "title": "LIZENZVERTRAG",
+      "reference": "Kaufreferenz: {{purchaseId}}",
+      "parties": [
+        "Datum: {{contractDate}}",
+        "Produzent: {{producerName}}",
+        "Käufer: {{buyerName}}",
+        "Titel: {{trackTitle}}",
+        "Lizenz: {{licenseName}}"
+      ],
+      "sections": [
+        { "heading": "Lizenzbeschreibung", "body": "{{licenseDescription}}" },
+        { "heading": "Rechte und Grenzen", "body": "{{rights}}" },
+        { "heading": "Nennungsklausel", "body": "{{creditClause}}" }
+      ],
+      "signatures": [
+        "Unterschrift Produzent: ______________________",
+        "Unterschrift Käufer: ______________________"
+      ],
+      "terms": {
+        "yes": "Ja",
+        "no": "Nein",
+        "unlimited": "Unbegrenzt",
+        "maxStreams": "Max. Streams",
+        "maxSales": "Max. Verkäufe",
+        "youtubeMonetization": "YouTube-Monetarisierung",
+        "musicVideoAllowed": "Musikvideo erlaubt",
+        "creditRequired": "Nennung erforderlich",
+        "creditClauseRequired": "Der Käufer muss {{producerName}} bei jeder Veröffentlichung von „{{trackTitle}}“ nennen (zum Beispiel „Prod. by {{producerName}}“).",
+        "creditClauseOptional": "Eine Nennung von {{producerName}} ist erwünscht, aber nicht erforderlich.",
+        "noDescription": "Keine Beschreibung angegeben.",
+        "unknownBuyer": "Käufer",
+        "unknownProducer": "Produzent",
+        "untitled": "Ohne Titel"
+      }
+    },
+    "es": {
+      "title": "CONTRATO DE LICENCIA",
+      "reference": "Referencia de compra: {{purchaseId}}",
+      "parties": [
+        "Fecha: {{contractDate}}",
+        "Productor: {{producerName}}",
+        "Comprador: {{buyerName}}",
+        "Título: {{trackTitle}}",
+        "Licencia: {{licenseName}}"
+      ],
+      "sections": [
+        { "heading": "Descripción de la licencia", "body": "{{licenseDescription}}" },
+        { "heading": "Derechos y límites", "body": "{{rights}}" },
+        { "heading": "Cláusula de crédito", "body": "{{creditClause}}" }
+      ],
+      "signatures": [
+        "Firma del productor: ______________________",
+        "Firma del comprador: ______________________"
+      ],
+      "terms": {
+        "yes": "Sí",
+        "no": "No",
+        "unlimited": "Ilimitado",
+        "maxStreams": "Streams máx.",
+        "maxSales": "Ventas máx.",
+        "youtubeMonetization": "Monetización en YouTube",
+        "musicVideoAllowed": "Videoclip permitido",
+        "creditRequired": "Crédito obligatorio",
+        "creditClauseRequired": "El comprador debe acreditar a {{producerName}} en cada publicación de «{{trackTitle}}» (por ejemplo «Prod. by {{producerName}}»).",
+        "creditClauseOptional": "Acreditar a {{producerName}} se agradece, pero no es obligatorio.",
+        "noDescription": "Sin descripción.",
+        "unknownBuyer": "Comprador",
+        "unknownProducer": "Productor",
+        "untitled": "Sin título"
+      }
+    }
+  }
+  $bodies$::jsonb
+)
+ON CONFLICT (template_key, version) DO NOTHING;
+
+UPDATE public.licenses AS l
+SET contract_template_id = t.id
+FROM public.license_contract_templates AS t
+WHERE t.template_key = 'standard'
+  AND t.version = 1
+  AND l.contract_template_id IS NULL;
+
+REVOKE ALL ON TABLE public.license_contract_templates FROM PUBLIC;
+REVOKE ALL ON TABLE public.license_contract_templates FROM anon;
+REVOKE ALL ON TABLE public.license_contract_templates FROM authenticated;
+GRANT SELECT ON TABLE public.license_contract_templates TO authenticated;
+GRANT ALL ON TABLE public.license_contract_templates TO service_role;
+REVOKE EXECUTE ON FUNCTION public.prevent_license_contract_template_changes() FROM PUBLIC;
+
+COMMIT;
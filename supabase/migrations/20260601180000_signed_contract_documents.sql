@@ -0,0 +1,104 @@
+/*
+  # Signed contract documents
+
+  Generated contracts were plain PDFs that anyone could edit before a
+  distributor or Content ID dispute. Every PDF generated by
+  /api/generate-contract is now recorded with its content hash and an
+  Ed25519 signature, and carries a public reference that
+  /api/verify-contract resolves.
+
+  - contract_documents has one row per generated PDF: the printed reference,
+    the SHA-256 of the exact bytes uploaded, the signature over
+    (reference, purchase, hash, issued_at), the signing key fingerprint and
+    a snapshot of the purchase and license details printed on it.
+  - Rows are append-only: a regenerated contract gets a new reference and
+    the earlier PDF still verifies as issued by the platform.
+  - Buyers can read the documents of their own purchases; admins can read
+    all of them. Only the service role writes.
+
+  Idempotent: uses IF NOT EXISTS for tables and indexes.
+*/
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.contract_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_id uuid NOT NULL REFERENCES public.purchases(id) ON DELETE CASCADE,
+  reference text NOT NULL,
+  storage_path text NOT NULL,
+  sha256 text NOT NULL,
+  signature text NOT NULL,
+  signing_key_id text NOT NULL,
+  contract_template_id uuid REFERENCES public.license_contract_templates(id) ON DELETE RESTRICT,
+  contract_template_version integer,
+  contract_language text,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT contract_documents_reference_key UNIQUE (reference),
+  CONSTRAINT contract_documents_sha256_format CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  CONSTRAINT contract_documents_language_check CHECK (
+    contract_language IS NULL OR contract_language IN ('fr', 'en', 'de', 'es')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_documents_sha256
+  ON public.contract_documents (sha256);
+
+CREATE INDEX IF NOT EXISTS idx_contract_documents_purchase_issued
+  ON public.contract_documents (purchase_id, issued_at DESC);
+
+COMMENT ON TABLE public.contract_documents IS
+  'Append-only log of generated contract PDFs with their SHA-256, Ed25519 signature and public verification reference.';
+COMMENT ON COLUMN public.contract_documents.signing_key_id IS
+  'First 16 hex chars of the SHA-256 of the signing public key (SPKI DER).';
+COMMENT ON COLUMN public.contract_documents.details IS
+  'Purchase and license values printed on the PDF, returned by contract verification.';
+
+ALTER TABLE public.contract_documents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Buyers can read own contract documents" ON public.contract_documents;
+CREATE POLICY "Buyers can read own contract documents"
+ON public.contract_documents
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.purchases p
+    WHERE p.id = contract_documents.purchase_id
+      AND p.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can read contract documents" ON public.contract_documents;
+CREATE POLICY "Admins can read contract documents"
+ON public.contract_documents
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.prevent_contract_document_updates()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  RAISE EXCEPTION 'contract_document_immutable'
+    USING ERRCODE = '55000';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_prevent_contract_document_updates ON public.contract_documents;
+CREATE TRIGGER trg_prevent_contract_document_updates
+  BEFORE UPDATE ON public.contract_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_contract_document_updates();
+
+REVOKE ALL ON TABLE public.contract_documents FROM PUBLIC;
+REVOKE ALL ON TABLE public.contract_documents FROM anon;
+REVOKE ALL ON TABLE public.contract_documents FROM authenticated;
+GRANT SELECT ON TABLE public.contract_documents TO authenticated;
+GRANT ALL ON TABLE public.contract_documents TO service_role;
+REVOKE EXECUTE ON FUNCTION public.prevent_contract_document_updates() FROM PUBLIC;
+
+COMMIT;
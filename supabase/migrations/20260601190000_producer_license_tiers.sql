@@ -0,0 +1,578 @@
+/*
+  # Producer license tiers
+
+  License terms only existed in the platform-wide `licenses` catalog, so
+  every beat was sold under the same handful of tiers. Producers can now
+  define their own tiers and pick, per beat, which tiers are offered and at
+  what price.
+
+  - licenses.producer_id marks a producer-owned tier (NULL = platform
+    license). Names stay unique among platform licenses and per producer,
+    so two producers can both have a "Premium" tier.
+  - licenses.archived_at retires a producer tier: it can no longer be
+    offered, and past purchases keep pointing at it.
+  - product_licenses.source tells the seeded platform defaults ('default')
+    from the tiers a producer picked for the product ('producer'). Checkout
+    prices a product from its active 'producer' rows when it has any, and
+    from products.price otherwise.
+  - seed_default_product_licenses only seeds platform licenses.
+  - rpc_save_license_tier, rpc_archive_license_tier and
+    rpc_set_product_license_tiers are the only write path for producers.
+
+  Idempotent: uses IF NOT EXISTS for columns and indexes and drops named
+  constraints before re-adding them.
+*/
+
+BEGIN;
+
+ALTER TABLE public.licenses
+  ADD COLUMN IF NOT EXISTS producer_id uuid REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+ALTER TABLE public.licenses
+  DROP CONSTRAINT IF EXISTS licenses_name_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_licenses_platform_name
+  ON public.licenses (name)
+  WHERE producer_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_licenses_producer_name
+  ON public.licenses (producer_id, lower(name))
+  WHERE producer_id IS NOT NULL;
+
+ALTER TABLE public.licenses
+  DROP CONSTRAINT IF EXISTS licenses_producer_tier_check;
+
+ALTER TABLE public.licenses
+  ADD CONSTRAINT licenses_producer_tier_check CHECK (
+    producer_id IS NULL
+    OR (
+      char_length(btrim(name)) BETWEEN 1 AND 60
+      AND price IS NOT NULL
+      AND price > 0
+    )
+  );
+
+COMMENT ON COLUMN public.licenses.producer_id IS
+  'Owner of a producer-defined license tier; NULL for platform licenses.';
+COMMENT ON COLUMN public.licenses.archived_at IS
+  'Set when a producer retires a tier; archived tiers cannot be offered on products.';
+
+ALTER TABLE public.product_licenses
+  ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'default';
+
+ALTER TABLE public.product_licenses
+  DROP CONSTRAINT IF EXISTS product_licenses_source_check;
+
+ALTER TABLE public.product_licenses
+  ADD CONSTRAINT product_licenses_source_check CHECK (source IN ('default', 'producer'));
+
+CREATE INDEX IF NOT EXISTS idx_product_licenses_product_source_active
+  ON public.product_licenses (product_id, sort_order)
+  WHERE source = 'producer' AND is_active = true;
+
+COMMENT ON COLUMN public.product_licenses.source IS
+  'default = seeded platform offer; producer = tier picked by the producer. Products with active producer rows are priced from them.';
+
+-- ---------------------------------------------------------------------------
+-- Default offers only use platform licenses
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.seed_default_product_licenses(p_product_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_product public.products%ROWTYPE;
+  v_basic_id uuid;
+  v_premium_id uuid;
+  v_unlimited_id uuid;
+  v_exclusive_id uuid;
+BEGIN
+  IF p_product_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT *
+  INTO v_product
+  FROM public.products
+  WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_product.product_type = 'kit'::public.product_type THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO v_basic_id
+  FROM public.licenses
+  WHERE lower(name) = 'basic'
+    AND producer_id IS NULL
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  SELECT id INTO v_premium_id
+  FROM public.licenses
+  WHERE lower(name) = 'premium'
+    AND producer_id IS NULL
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  SELECT id INTO v_unlimited_id
+  FROM public.licenses
+  WHERE lower(name) = 'unlimited'
+    AND producer_id IS NULL
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  SELECT id INTO v_exclusive_id
+  FROM public.licenses
+  WHERE lower(name) = 'exclusive'
+    AND producer_id IS NULL
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  IF v_product.is_exclusive IS TRUE OR v_product.product_type = 'exclusive'::public.product_type THEN
+    IF v_exclusive_id IS NOT NULL THEN
+      INSERT INTO public.product_licenses (
+        product_id,
+        license_id,
+        license_type,
+        price,
+        features,
+        sort_order
+      )
+      VALUES (
+        v_product.id,
+        v_exclusive_id,
+        'exclusive',
+        GREATEST(COALESCE(v_product.price, 0), 12000),
+        jsonb_build_object(
+          'distribution', 'exclusive',
+          'transfer_of_rights', true
+        ),
+        0
+      )
+      ON CONFLICT (product_id, license_id) DO NOTHING;
+    END IF;
+
+    RETURN;
+  END IF;
+
+  IF v_basic_id IS NOT NULL THEN
+    INSERT INTO public.product_licenses (
+      product_id,
+      license_id,
+      license_type,
+      price,
+      features,
+      sort_order
+    )
+    VALUES (
+      v_product.id,
+      v_basic_id,
+      'basic',
+      1900,
+      jsonb_build_object(
+        'distribution', 'non-exclusive',
+        'tier', 'entry'
+      ),
+      0
+    )
+    ON CONFLICT (product_id, license_id) DO NOTHING;
+  END IF;
+
+  IF v_premium_id IS NOT NULL THEN
+    INSERT INTO public.product_licenses (
+      product_id,
+      license_id,
+      license_type,
+      price,
+      features,
+      sort_order
+    )
+    VALUES (
+      v_product.id,
+      v_premium_id,
+      'premium',
+      4900,
+      jsonb_build_object(
+        'distribution', 'non-exclusive',
+        'tier', 'commercial'
+      ),
+      1
+    )
+    ON CONFLICT (product_id, license_id) DO NOTHING;
+  END IF;
+
+  IF v_unlimited_id IS NOT NULL THEN
+    INSERT INTO public.product_licenses (
+      product_id,
+      license_id,
+      license_type,
+      price,
+      features,
+      sort_order
+    )
+    VALUES (
+      v_product.id,
+      v_unlimited_id,
+      'unlimited',
+      7900,
+      jsonb_build_object(
+        'distribution', 'non-exclusive',
+        'tier', 'unlimited'
+      ),
+      2
+    )
+    ON CONFLICT (product_id, license_id) DO NOTHING;
+  END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION public.seed_default_product_licenses(uuid) IS
+  'Seeds default product-specific licenses for beats and exclusive products without overwriting existing mappings.';
+
+-- ---------------------------------------------------------------------------
+-- Producer RPCs
+-- ---------------------------------------------------------------------------
+-- NULL limits mean unlimited; a NULL p_license_id creates a new tier.
+CREATE OR REPLACE FUNCTION public.rpc_save_license_tier(
+  p_name text,
+  p_description text,
+  p_youtube_monetization boolean,
+  p_music_video_allowed boolean,
+  p_credit_required boolean,
+  p_exclusive_allowed boolean,
+  p_stems_included boolean,
+  p_price integer,
+  p_max_streams integer DEFAULT NULL,
+  p_max_sales integer DEFAULT NULL,
+  p_license_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_name text := btrim(COALESCE(p_name, ''));
+  v_description text := NULLIF(btrim(COALESCE(p_description, '')), '');
+  v_existing public.licenses%ROWTYPE;
+  v_license_id uuid;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'auth_required';
+  END IF;
+
+  IF NOT public.is_active_producer(v_actor) THEN
+    RAISE EXCEPTION 'producer_required';
+  END IF;
+
+  IF char_length(v_name) NOT BETWEEN 1 AND 60 THEN
+    RAISE EXCEPTION 'invalid_license_tier_name';
+  END IF;
+
+  IF (p_max_streams IS NOT NULL AND p_max_streams < 0)
+    OR (p_max_sales IS NOT NULL AND p_max_sales < 0) THEN
+    RAISE EXCEPTION 'invalid_license_tier_limits';
+  END IF;
+
+  IF p_price IS NULL OR p_price <= 0 THEN
+    RAISE EXCEPTION 'invalid_license_tier_price';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.licenses l
+    WHERE l.producer_id = v_actor
+      AND lower(l.name) = lower(v_name)
+      AND l.id IS DISTINCT FROM p_license_id
+  ) THEN
+    RAISE EXCEPTION 'license_tier_name_taken';
+  END IF;
+
+  IF p_license_id IS NULL THEN
+    INSERT INTO public.licenses (
+      producer_id,
+      name,
+      description,
+      max_streams,
+      max_sales,
+      youtube_monetization,
+      music_video_allowed,
+      credit_required,
+      exclusive_allowed,
+      stems_included,
+      price
+    )
+    VALUES (
+      v_actor,
+      v_name,
+      v_description,
+      p_max_streams,
+      p_max_sales,
+      COALESCE(p_youtube_monetization, false),
+      COALESCE(p_music_video_allowed, false),
+      COALESCE(p_credit_required, true),
+      COALESCE(p_exclusive_allowed, false),
+      COALESCE(p_stems_included, false),
+      p_price
+    )
+    RETURNING id INTO v_license_id;
+
+    RETURN v_license_id;
+  END IF;
+
+  SELECT *
+  INTO v_existing
+  FROM public.licenses
+  WHERE id = p_license_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_existing.producer_id IS DISTINCT FROM v_actor THEN
+    RAISE EXCEPTION 'license_tier_not_found';
+  END IF;
+
+  IF v_existing.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'license_tier_archived';
+  END IF;
+
+  -- Products offering the tier were checked against it when it was attached.
+  IF COALESCE(p_exclusive_allowed, false) <> v_existing.exclusive_allowed THEN
+    RAISE EXCEPTION 'license_tier_exclusive_locked';
+  END IF;
+
+  -- Purchases keep their own snapshot of the terms (purchases.metadata), so
+  -- editing a tier only affects future sales.
+  UPDATE public.licenses
+  SET
+    name = v_name,
+    description = v_description,
+    max_streams = p_max_streams,
+    max_sales = p_max_sales,
+    youtube_monetization = COALESCE(p_youtube_monetization, false),
+    music_video_allowed = COALESCE(p_music_video_allowed, false),
+    credit_required = COALESCE(p_credit_required, true),
+    stems_included = COALESCE(p_stems_included, false),
+    price = p_price
+  WHERE id = p_license_id;
+
+  UPDATE public.product_licenses
+  SET license_type = lower(v_name)
+  WHERE license_id = p_license_id
+    AND license_type IS DISTINCT FROM lower(v_name);
+
+  RETURN p_license_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rpc_archive_license_tier(p_license_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_license public.licenses%ROWTYPE;
+  v_detached_count integer := 0;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'auth_required';
+  END IF;
+
+  SELECT *
+  INTO v_license
+  FROM public.licenses
+  WHERE id = p_license_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_license.producer_id IS DISTINCT FROM v_actor THEN
+    RAISE EXCEPTION 'license_tier_not_found';
+  END IF;
+
+  IF v_license.archived_at IS NULL THEN
+    UPDATE public.licenses
+    SET archived_at = now()
+    WHERE id = p_license_id;
+  END IF;
+
+  UPDATE public.product_licenses
+  SET is_active = false
+  WHERE license_id = p_license_id
+    AND is_active = true;
+
+  GET DIAGNOSTICS v_detached_count = ROW_COUNT;
+
+  RETURN v_detached_count;
+END;
+$$;
+
+/*
+  p_tiers is an ordered array of {"license_id": uuid, "price": cents}; price
+  may be omitted to use the tier's own price. An empty array goes back to the
+  platform defaults.
+*/
+CREATE OR REPLACE FUNCTION public.rpc_set_product_license_tiers(
+  p_product_id uuid,
+  p_tiers jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_product public.products%ROWTYPE;
+  v_license public.licenses%ROWTYPE;
+  v_tier jsonb;
+  v_position integer := 0;
+  v_license_id uuid;
+  v_price integer;
+  v_license_ids uuid[] := ARRAY[]::uuid[];
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'auth_required';
+  END IF;
+
+  IF NOT public.is_active_producer(v_actor) THEN
+    RAISE EXCEPTION 'producer_required';
+  END IF;
+
+  IF p_tiers IS NULL OR jsonb_typeof(p_tiers) <> 'array' THEN
+    RAISE EXCEPTION 'invalid_license_tiers';
+  END IF;
+
+  IF jsonb_array_length(p_tiers) > 6 THEN
+    RAISE EXCEPTION 'too_many_license_tiers';
+  END IF;
+
+  SELECT *
+  INTO v_product
+  FROM public.products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_product.producer_id <> v_actor OR v_product.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'product_not_found';
+  END IF;
+
+  IF v_product.product_type = 'kit'::public.product_type THEN
+    RAISE EXCEPTION 'product_not_licensable';
+  END IF;
+
+  IF v_product.is_sold THEN
+    RAISE EXCEPTION 'product_already_sold';
+  END IF;
+
+  FOR v_tier IN SELECT value FROM jsonb_array_elements(p_tiers)
+  LOOP
+    IF jsonb_typeof(v_tier) <> 'object'
+      OR COALESCE(v_tier->>'license_id', '') !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      OR (v_tier ? 'price' AND jsonb_typeof(v_tier->'price') NOT IN ('number', 'null')) THEN
+      RAISE EXCEPTION 'invalid_license_tiers';
+    END IF;
+
+    v_license_id := (v_tier->>'license_id')::uuid;
+
+    IF v_license_id = ANY(v_license_ids) THEN
+      RAISE EXCEPTION 'duplicate_license_tier';
+    END IF;
+
+    SELECT *
+    INTO v_license
+    FROM public.licenses
+    WHERE id = v_license_id;
+
+    IF NOT FOUND
+      OR v_license.archived_at IS NOT NULL
+      OR (v_license.producer_id IS NOT NULL AND v_license.producer_id <> v_actor) THEN
+      RAISE EXCEPTION 'license_tier_not_found';
+    END IF;
+
+    -- Exclusive products transfer ownership; non-exclusive ones never do.
+    IF v_license.exclusive_allowed <> COALESCE(v_product.is_exclusive, false) THEN
+      RAISE EXCEPTION 'license_tier_exclusive_mismatch';
+    END IF;
+
+    IF jsonb_typeof(v_tier->'price') = 'number' THEN
+      IF (v_tier->>'price')::numeric <> trunc((v_tier->>'price')::numeric) THEN
+        RAISE EXCEPTION 'invalid_license_tier_price';
+      END IF;
+      v_price := (v_tier->>'price')::integer;
+    ELSE
+      v_price := v_license.price;
+    END IF;
+
+    IF v_price IS NULL OR v_price <= 0 THEN
+      RAISE EXCEPTION 'invalid_license_tier_price';
+    END IF;
+
+    INSERT INTO public.product_licenses (
+      product_id,
+      license_id,
+      license_type,
+      price,
+      sort_order,
+      is_active,
+      source
+    )
+    VALUES (
+      v_product.id,
+      v_license.id,
+      lower(v_license.name),
+      v_price,
+      v_position,
+      true,
+      'producer'
+    )
+    ON CONFLICT (product_id, license_id) DO UPDATE SET
+      license_type = EXCLUDED.license_type,
+      price = EXCLUDED.price,
+      sort_order = EXCLUDED.sort_order,
+      is_active = true,
+      source = 'producer';
+
+    v_license_ids := array_append(v_license_ids, v_license.id);
+    v_position := v_position + 1;
+  END LOOP;
+
+  IF v_position = 0 THEN
+    DELETE FROM public.product_licenses
+    WHERE product_id = v_product.id
+      AND source = 'producer';
+
+    UPDATE public.product_licenses
+    SET is_active = true
+    WHERE product_id = v_product.id
+      AND source = 'default'
+      AND is_active = false;
+
+    PERFORM public.seed_default_product_licenses(v_product.id);
+    RETURN 0;
+  END IF;
+
+  UPDATE public.product_licenses
+  SET is_active = false
+  WHERE product_id = v_product.id
+    AND is_active = true
+    AND NOT (license_id = ANY(v_license_ids));
+
+  RETURN v_position;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rpc_save_license_tier(text, text, boolean, boolean, boolean, boolean, boolean, integer, integer, integer, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.rpc_archive_license_tier(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.rpc_set_product_license_tiers(uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.rpc_save_license_tier(text, text, boolean, boolean, boolean, boolean, boolean, integer, integer, integer, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_archive_license_tier(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_set_product_license_tiers(uuid, jsonb) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,444 @@
+/*
+  # License upgrades
+
+  A buyer whose lease took off had to buy the higher license at full price.
+  A completed purchase can now be upgraded by paying the difference, either
+  to a higher producer tier of the same product or to the exclusive version
+  of the beat (an unsold exclusive product of the same lineage).
+
+  - purchases.upgraded_from_purchase_id links the upgrade to the purchase it
+    replaces; purchases.superseded_at and superseded_by_purchase_id mark the
+    replaced one. The replaced purchase stays 'completed' (it was paid for)
+    but no longer counts as the buyer's current purchase of the product.
+  - idx_purchases_unique_completed_user_product only applies to purchases
+    that have not been superseded, so an upgrade of the same product can be
+    recorded next to the lease it replaces.
+  - The credit of an upgrade is everything paid along the chain: the amount
+    of the replaced purchase plus the credit it was itself granted. It is
+    stored as metadata.upgrade_credit on the upgrade purchase.
+  - complete_license_purchase gains p_upgraded_from_purchase_id. It checks
+    the replaced purchase, marks it superseded and moves the entitlement to
+    the new purchase in the same transaction.
+  - Version 2 of the 'standard' contract template adds the clause printed on
+    upgrade contracts; licenses on version 1 are pointed at it.
+
+  Idempotent: uses IF NOT EXISTS for columns and indexes, drops the previous
+  complete_license_purchase signature and inserts the template with
+  ON CONFLICT DO NOTHING.
+*/
+
+BEGIN;
+
+ALTER TABLE public.purchases
+  ADD COLUMN IF NOT EXISTS upgraded_from_purchase_id uuid REFERENCES public.purchases(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS superseded_at timestamptz,
+  ADD COLUMN IF NOT EXISTS superseded_by_purchase_id uuid REFERENCES public.purchases(id) ON DELETE SET NULL;
+
+-- A purchase can only be upgraded once; the upgrade itself can be upgraded.
+CREATE UNIQUE INDEX IF NOT EXISTS uq_purchases_upgraded_from_purchase_id
+  ON public.purchases (upgraded_from_purchase_id)
+  WHERE upgraded_from_purchase_id IS NOT NULL AND status = 'completed';
+
+CREATE INDEX IF NOT EXISTS idx_purchases_superseded_by_purchase_id
+  ON public.purchases (superseded_by_purchase_id)
+  WHERE superseded_by_purchase_id IS NOT NULL;
+
+DROP INDEX IF EXISTS public.idx_purchases_unique_completed_user_product;
+
+CREATE UNIQUE INDEX idx_purchases_unique_completed_user_product
+  ON public.purchases (user_id, product_id)
+  WHERE status = 'completed' AND superseded_at IS NULL;
+
+COMMENT ON COLUMN public.purchases.upgraded_from_purchase_id IS
+  'Purchase replaced by this license upgrade; the amount of this row is only the difference paid.';
+COMMENT ON COLUMN public.purchases.superseded_at IS
+  'Set when the license was upgraded; the purchase stays completed but its contract is replaced.';
+
+-- ---------------------------------------------------------------------------
+-- complete_license_purchase
+-- ---------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.complete_license_purchase(uuid, uuid, text, text, uuid, integer);
+
+CREATE OR REPLACE FUNCTION public.complete_license_purchase(
+  p_product_id uuid,
+  p_user_id uuid,
+  p_checkout_session_id text,
+  p_payment_intent_id text,
+  p_license_id uuid,
+  p_amount integer,
+  p_upgraded_from_purchase_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_purchase_id uuid;
+  v_existing_purchase_id uuid;
+  v_existing_purchase_status public.purchase_status;
+  v_producer_id uuid;
+  v_product public.products%ROWTYPE;
+  v_license public.licenses%ROWTYPE;
+  v_existing_license_sales integer;
+  v_lock public.exclusive_locks%ROWTYPE;
+  v_is_new_purchase boolean := false;
+  v_upgraded_from public.purchases%ROWTYPE;
+  v_upgraded_from_product public.products%ROWTYPE;
+  v_upgrade_credit integer;
+BEGIN
+  IF p_checkout_session_id IS NULL OR btrim(p_checkout_session_id) = '' THEN
+    RAISE EXCEPTION 'Missing checkout session id';
+  END IF;
+
+  IF p_payment_intent_id IS NULL OR btrim(p_payment_intent_id) = '' THEN
+    RAISE EXCEPTION 'Missing payment intent id';
+  END IF;
+
+  SELECT id, status
+  INTO v_existing_purchase_id, v_existing_purchase_status
+  FROM public.purchases
+  WHERE stripe_payment_intent_id = p_payment_intent_id
+     OR stripe_checkout_session_id = p_checkout_session_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_existing_purchase_id IS NOT NULL THEN
+    IF v_existing_purchase_status = 'completed' THEN
+      INSERT INTO public.entitlements (
+        user_id,
+        product_id,
+        purchase_id,
+        entitlement_type
+      ) VALUES (
+        p_user_id,
+        p_product_id,
+        v_existing_purchase_id,
+        'purchase'
+      )
+      ON CONFLICT (user_id, product_id) DO UPDATE SET
+        purchase_id = EXCLUDED.purchase_id,
+        is_active = true,
+        granted_at = now();
+
+      PERFORM 1
+      FROM public.entitlements
+      WHERE user_id = p_user_id
+        AND product_id = p_product_id
+        AND purchase_id = v_existing_purchase_id
+        AND is_active = true;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Could not ensure active entitlement for completed purchase %', v_existing_purchase_id;
+      END IF;
+    END IF;
+
+    RETURN v_existing_purchase_id;
+  END IF;
+
+  SELECT *
+  INTO v_product
+  FROM public.products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found: %', p_product_id;
+  END IF;
+
+  IF v_product.producer_id = p_user_id THEN
+    RAISE EXCEPTION 'self_purchase_forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT *
+  INTO v_license
+  FROM public.licenses
+  WHERE id = p_license_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'License not found: %', p_license_id;
+  END IF;
+
+  IF p_amount IS NULL OR p_amount < 0 THEN
+    RAISE EXCEPTION 'Invalid amount snapshot: %', p_amount;
+  END IF;
+
+  IF v_product.is_exclusive AND NOT v_license.exclusive_allowed THEN
+    RAISE EXCEPTION 'License % does not allow exclusive purchase', v_license.name;
+  END IF;
+
+  IF v_product.is_exclusive THEN
+    IF v_product.is_sold THEN
+      RAISE EXCEPTION 'This exclusive product has already been sold';
+    END IF;
+
+    SELECT *
+    INTO v_lock
+    FROM public.exclusive_locks
+    WHERE product_id = p_product_id
+      AND stripe_checkout_session_id = p_checkout_session_id;
+
+    IF NOT FOUND THEN
+      RAISE NOTICE 'complete_license_purchase: missing lock for paid exclusive checkout %, product %, user %; proceeding',
+        p_checkout_session_id, p_product_id, p_user_id;
+    END IF;
+  END IF;
+
+  IF v_license.max_sales IS NOT NULL THEN
+    SELECT count(*)
+    INTO v_existing_license_sales
+    FROM public.purchases
+    WHERE product_id = p_product_id
+      AND license_id = p_license_id
+      AND status = 'completed';
+
+    IF v_existing_license_sales >= v_license.max_sales THEN
+      RAISE EXCEPTION 'License % reached max sales limit for this product', v_license.name;
+    END IF;
+  END IF;
+
+  IF p_upgraded_from_purchase_id IS NOT NULL THEN
+    SELECT *
+    INTO v_upgraded_from
+    FROM public.purchases
+    WHERE id = p_upgraded_from_purchase_id
+    FOR UPDATE;
+
+    IF NOT FOUND
+      OR v_upgraded_from.user_id <> p_user_id
+      OR v_upgraded_from.status <> 'completed'
+      OR v_upgraded_from.superseded_at IS NOT NULL THEN
+      RAISE EXCEPTION 'license_upgrade_source_invalid';
+    END IF;
+
+    SELECT *
+    INTO v_upgraded_from_product
+    FROM public.products
+    WHERE id = v_upgraded_from.product_id;
+
+    -- Same product with another tier, or the exclusive version of the beat.
+    IF NOT FOUND
+      OR (
+        v_upgraded_from.product_id = p_product_id
+        AND v_upgraded_from.license_id IS NOT DISTINCT FROM p_license_id
+      )
+      OR (
+        v_upgraded_from.product_id <> p_product_id
+        AND (
+          NOT v_product.is_exclusive
+          OR COALESCE(v_upgraded_from_product.parent_product_id, v_upgraded_from_product.original_beat_id, v_upgraded_from_product.id)
+            <> COALESCE(v_product.parent_product_id, v_product.original_beat_id, v_product.id)
+        )
+      ) THEN
+      RAISE EXCEPTION 'license_upgrade_target_invalid';
+    END IF;
+
+    v_upgrade_credit := v_upgraded_from.amount
+      + COALESCE((v_upgraded_from.metadata->>'upgrade_credit')::integer, 0);
+
+    -- Frees the (user, product) slot before the upgrade row is inserted.
+    UPDATE public.purchases
+    SET superseded_at = now()
+    WHERE id = v_upgraded_from.id;
+  END IF;
+
+  v_producer_id := v_product.producer_id;
+
+  INSERT INTO public.purchases (
+    user_id,
+    product_id,
+    producer_id,
+    stripe_payment_intent_id,
+    stripe_checkout_session_id,
+    amount,
+    status,
+    is_exclusive,
+    license_type,
+    license_id,
+    upgraded_from_purchase_id,
+    completed_at,
+    download_expires_at,
+    metadata
+  ) VALUES (
+    p_user_id,
+    p_product_id,
+    v_producer_id,
+    p_payment_intent_id,
+    p_checkout_session_id,
+    p_amount,
+    'completed',
+    v_product.is_exclusive,
+    v_license.name,
+    v_license.id,
+    p_upgraded_from_purchase_id,
+    now(),
+    CASE
+      WHEN v_product.is_exclusive THEN now() + interval '24 hours'
+      ELSE now() + interval '7 days'
+    END,
+    jsonb_build_object(
+      'license_id', v_license.id,
+      'license_name', v_license.name,
+      'max_streams', v_license.max_streams,
+      'max_sales', v_license.max_sales,
+      'youtube_monetization', v_license.youtube_monetization,
+      'music_video_allowed', v_license.music_video_allowed,
+      'credit_required', v_license.credit_required,
+      'exclusive_allowed', v_license.exclusive_allowed,
+      'stems_included', v_license.stems_included,
+      'price_source', 'checkout.metadata.db_price_snapshot'
+    ) || CASE
+      WHEN p_upgraded_from_purchase_id IS NOT NULL THEN jsonb_build_object(
+        'upgraded_from_purchase_id', p_upgraded_from_purchase_id,
+        'upgraded_from_license_name', COALESCE(v_upgraded_from.metadata->>'license_name', v_upgraded_from.license_type),
+        'upgrade_credit', v_upgrade_credit
+      )
+      ELSE '{}'::jsonb
+    END
+  )
+  ON CONFLICT DO NOTHING
+  RETURNING id INTO v_purchase_id;
+
+  IF v_purchase_id IS NULL THEN
+    -- The upgrade must not fall back to another purchase of the product.
+    IF p_upgraded_from_purchase_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Could not record license upgrade for payment intent %', p_payment_intent_id;
+    END IF;
+
+    SELECT id
+    INTO v_purchase_id
+    FROM public.purchases
+    WHERE stripe_payment_intent_id = p_payment_intent_id
+       OR stripe_checkout_session_id = p_checkout_session_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_purchase_id IS NULL THEN
+      SELECT id
+      INTO v_purchase_id
+      FROM public.purchases
+      WHERE user_id = p_user_id
+        AND product_id = p_product_id
+        AND status = 'completed'
+        AND superseded_at IS NULL
+      ORDER BY created_at DESC
+      LIMIT 1;
+    END IF;
+
+    IF v_purchase_id IS NULL THEN
+      RAISE EXCEPTION 'Could not resolve existing purchase for payment intent %', p_payment_intent_id;
+    END IF;
+  ELSE
+    v_is_new_purchase := true;
+  END IF;
+
+  IF p_upgraded_from_purchase_id IS NOT NULL THEN
+    UPDATE public.purchases
+    SET superseded_by_purchase_id = v_purchase_id
+    WHERE id = p_upgraded_from_purchase_id;
+  END IF;
+
+  INSERT INTO public.entitlements (
+    user_id,
+    product_id,
+    purchase_id,
+    entitlement_type
+  ) VALUES (
+    p_user_id,
+    p_product_id,
+    v_purchase_id,
+    'purchase'
+  )
+  ON CONFLICT (user_id, product_id) DO UPDATE SET
+    purchase_id = EXCLUDED.purchase_id,
+    is_active = true,
+    granted_at = now();
+
+  PERFORM 1
+  FROM public.entitlements
+  WHERE user_id = p_user_id
+    AND product_id = p_product_id
+    AND purchase_id = v_purchase_id
+    AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Could not ensure active entitlement for purchase %', v_purchase_id;
+  END IF;
+
+  IF v_product.is_exclusive THEN
+    UPDATE public.products
+    SET
+      is_sold = true,
+      sold_at = now(),
+      sold_to_user_id = p_user_id,
+      is_published = false
+    WHERE id = p_product_id;
+
+    DELETE FROM public.exclusive_locks
+    WHERE product_id = p_product_id;
+  END IF;
+
+  -- An upgrade replaces a purchase, it is not an additional one.
+  IF v_is_new_purchase AND p_upgraded_from_purchase_id IS NULL THEN
+    UPDATE public.user_profiles
+    SET total_purchases = total_purchases + 1
+    WHERE id = p_user_id;
+  END IF;
+
+  RETURN v_purchase_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_license_purchase(uuid, uuid, text, text, uuid, integer, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.complete_license_purchase(uuid, uuid, text, text, uuid, integer, uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.complete_license_purchase(uuid, uuid, text, text, uuid, integer, uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_license_purchase(uuid, uuid, text, text, uuid, integer, uuid) TO service_role;
+
+-- ---------------------------------------------------------------------------
+-- Seed: standard v2 (v1 + upgrade clause)
+-- ---------------------------------------------------------------------------
+INSERT INTO public.license_contract_templates (template_key, version, bodies)
+SELECT
+  'standard',
+  2,
+  jsonb_object_agg(
+    body.language,
+    body.content || jsonb_build_object('terms', (body.content->'terms') || clause.terms)
+  )
+FROM public.license_contract_templates AS v1
+CROSS JOIN LATERAL jsonb_each(v1.bodies) AS body(language, content)
+JOIN (
+  VALUES
+    ('fr', $terms${
+      "supersedesHeading": "Mise à niveau de licence",
+      "supersedesClause": "Le présent contrat remplace la licence « {{supersededLicenseName}} » accordée lors de l'achat {{supersededPurchaseId}}, qui prend fin à la date du présent contrat. Les exploitations réalisées sous cette licence avant cette date restent valables."
+    }$terms$::jsonb),
+    ('en', $terms${
+      "supersedesHeading": "License upgrade",
+      "supersedesClause": "This agreement supersedes the \"{{supersededLicenseName}}\" license granted under purchase {{supersededPurchaseId}}, which ends on the date of this agreement. Uses made under that license before this date remain valid."
+    }$terms$::jsonb),
+    ('de', $terms${
+      "supersedesHeading": "Lizenz-Upgrade",
+      "supersedesClause": "Dieser Vertrag ersetzt die Lizenz „{{supersededLicenseName}}“ aus dem Kauf {{supersededPurchaseId}}, die mit dem Datum dieses Vertrags endet. Nutzungen, die vor diesem Datum unter dieser Lizenz erfolgt sind, bleiben gültig."
+    }$terms$::jsonb),
+    ('es', $terms${
+      "supersedesHeading": "Mejora de licencia",
+      "supersedesClause": "Este contrato sustituye la licencia \"{{supersededLicenseName}}\" concedida en la compra {{supersededPurchaseId}}, que termina en la fecha de este contrato. Los usos realizados bajo esa licencia antes de esta fecha siguen siendo válidos."
+    }$terms$::jsonb)
+) AS clause(language, terms) ON clause.language = body.language
+WHERE v1.template_key = 'standard'
+  AND v1.version = 1
+GROUP BY v1.id
+ON CONFLICT (template_key, version) DO NOTHING;
+
+UPDATE public.licenses AS l
+SET contract_template_id = v2.id
+FROM public.license_contract_templates AS v1,
+  public.license_contract_templates AS v2
+WHERE v1.template_key = 'standard'
+  AND v1.version = 1
+  AND v2.template_key = 'standard'
+  AND v2.version = 2
+  AND l.contract_template_id = v1.id;
+
+COMMIT;
@@ -0,0 +1,354 @@
+/*
+  # Purchase refunds and disputes
+
+  stripe-webhook ignored charge.refunded and charge.dispute.*: a refunded
+  purchase stayed 'completed', kept its entitlement and master downloads and
+  still counted in producer earnings.
+
+  - purchases.refunded_at, disputed_at and contract_voided_at record the
+    reversal. Producer earnings views only count 'completed' purchases, so a
+    refunded purchase drops out of them.
+  - reverse_purchase(purchase, reason, details) moves a completed purchase to
+    'refunded', deactivates its entitlement, voids its contract, settles the
+    producer payout in metadata and notifies buyer and producer. Refunding a
+    license upgrade gives the buyer back the license it replaced.
+  - set_purchase_dispute(purchase, dispute, open) suspends the entitlement
+    while a dispute is open and restores it when the dispute is won. A lost
+    dispute goes through reverse_purchase.
+  - Payout settlement, in metadata like the rest of the payout tracking:
+      platform_fallback, not yet paid out  -> payout_status 'cancelled'
+      platform_fallback, already processed -> 'clawback_due' and
+                                             producer_balance_adjustment_cents
+      stripe_connect, transfer reversed    -> 'reversed'
+      stripe_connect, reversal failed      -> 'clawback_due' and
+                                             producer_balance_adjustment_cents
+  - New events PURCHASE_REFUNDED (buyer), SALE_REFUNDED and SALE_DISPUTED
+    (producer) with their email handlers.
+
+  contract_documents stays append-only: voiding is recorded on the purchase
+  and reported by contract verification.
+*/
+
+BEGIN;
+
+ALTER TABLE public.purchases
+  ADD COLUMN IF NOT EXISTS refunded_at timestamptz,
+  ADD COLUMN IF NOT EXISTS disputed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS contract_voided_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_purchases_stripe_payment_intent_id
+  ON public.purchases (stripe_payment_intent_id)
+  WHERE stripe_payment_intent_id IS NOT NULL;
+
+COMMENT ON COLUMN public.purchases.disputed_at IS
+  'Set while a Stripe dispute is open on the payment; downloads are suspended meanwhile.';
+COMMENT ON COLUMN public.purchases.contract_voided_at IS
+  'The license contract was voided by a refund or a lost dispute.';
+
+-- -----------------------------------------------------------------------------
+-- Event pipeline
+-- -----------------------------------------------------------------------------
+ALTER TABLE public.event_bus
+  DROP CONSTRAINT IF EXISTS event_bus_event_type_check;
+
+ALTER TABLE public.event_bus
+  ADD CONSTRAINT event_bus_event_type_check
+  CHECK (
+    event_type IN (
+      'USER_SIGNUP',
+      'USER_CONFIRMED',
+      'PRODUCER_ACTIVATED',
+      'BEAT_PURCHASED',
+      'LICENSE_GENERATED',
+      'BATTLE_WON',
+      'BATTLE_INVITATION',
+      'COMMENT_RECEIVED',
+      'PURCHASE_REFUNDED',
+      'SALE_REFUNDED',
+      'SALE_DISPUTED'
+    )
+  );
+
+ALTER TABLE public.event_handlers
+  DROP CONSTRAINT IF EXISTS event_handlers_event_type_check;
+
+ALTER TABLE public.event_handlers
+  ADD CONSTRAINT event_handlers_event_type_check
+  CHECK (
+    event_type IN (
+      'USER_SIGNUP',
+      'USER_CONFIRMED',
+      'PRODUCER_ACTIVATED',
+      'BEAT_PURCHASED',
+      'LICENSE_GENERATED',
+      'BATTLE_WON',
+      'BATTLE_INVITATION',
+      'COMMENT_RECEIVED',
+      'PURCHASE_REFUNDED',
+      'SALE_REFUNDED',
+      'SALE_DISPUTED'
+    )
+  );
+
+ALTER TABLE public.event_outbox
+  DROP CONSTRAINT IF EXISTS event_outbox_event_type_check;
+
+ALTER TABLE public.event_outbox
+  ADD CONSTRAINT event_outbox_event_type_check
+  CHECK (
+    event_type IN (
+      'USER_SIGNUP',
+      'USER_CONFIRMED',
+      'PRODUCER_ACTIVATED',
+      'BEAT_PURCHASED',
+      'LICENSE_GENERATED',
+      'BATTLE_WON',
+      'BATTLE_INVITATION',
+      'COMMENT_RECEIVED',
+      'PURCHASE_REFUNDED',
+      'SALE_REFUNDED',
+      'SALE_DISPUTED'
+    )
+  );
+
+INSERT INTO public.event_handlers (event_type, handler_type, handler_key, config, is_active)
+VALUES
+  ('PURCHASE_REFUNDED', 'email', 'purchase_refunded', '{}'::jsonb, true),
+  ('SALE_REFUNDED', 'email', 'sale_refunded', '{}'::jsonb, true),
+  ('SALE_DISPUTED', 'email', 'sale_disputed', '{}'::jsonb, true)
+ON CONFLICT (event_type, handler_type, handler_key) DO UPDATE
+SET
+  is_active = EXCLUDED.is_active,
+  config = EXCLUDED.config,
+  updated_at = now();
+
+-- -----------------------------------------------------------------------------
+-- reverse_purchase
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.reverse_purchase(
+  p_purchase_id uuid,
+  p_reason text,
+  p_details jsonb DEFAULT '{}'::jsonb
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_purchase public.purchases%ROWTYPE;
+  v_details jsonb := COALESCE(p_details, '{}'::jsonb);
+  v_metadata jsonb;
+  v_payout_mode text;
+  v_payout_status text;
+  v_adjustment integer;
+  v_product_title text;
+  v_buyer_email text;
+  v_producer_email text;
+BEGIN
+  IF p_reason NOT IN ('refund', 'dispute_lost') THEN
+    RAISE EXCEPTION 'invalid_reversal_reason';
+  END IF;
+
+  SELECT *
+  INTO v_purchase
+  FROM public.purchases
+  WHERE id = p_purchase_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'purchase_not_found';
+  END IF;
+
+  -- Replayed webhook: the purchase was already reversed.
+  IF v_purchase.status <> 'completed' THEN
+    RETURN false;
+  END IF;
+
+  v_metadata := COALESCE(v_purchase.metadata, '{}'::jsonb);
+  v_payout_mode := COALESCE(v_metadata->>'payout_mode', 'stripe_connect');
+
+  IF v_payout_mode = 'platform_fallback' THEN
+    IF v_metadata->>'payout_status' = 'processed' THEN
+      v_payout_status := 'clawback_due';
+      v_adjustment := -COALESCE((v_metadata->>'payout_amount')::integer, v_purchase.producer_share_cents_snapshot, 0);
+    ELSE
+      v_payout_status := 'cancelled';
+    END IF;
+  ELSIF COALESCE((v_details->>'unreversed_amount')::integer, 0) > 0 THEN
+    v_payout_status := 'clawback_due';
+    v_adjustment := -(v_details->>'unreversed_amount')::integer;
+  ELSE
+    v_payout_status := 'reversed';
+  END IF;
+
+  UPDATE public.purchases
+  SET
+    status = 'refunded',
+    refunded_at = now(),
+    contract_voided_at = now(),
+    metadata = v_metadata || jsonb_build_object(
+      'payout_status', v_payout_status,
+      'reversal', v_details || jsonb_build_object('reason', p_reason, 'reversed_at', now())
+    ) || CASE
+      WHEN v_adjustment IS NOT NULL
+        THEN jsonb_build_object('producer_balance_adjustment_cents', v_adjustment)
+      ELSE '{}'::jsonb
+    END
+  WHERE id = p_purchase_id;
+
+  UPDATE public.entitlements
+  SET is_active = false
+  WHERE purchase_id = p_purchase_id;
+
+  -- Refunding an upgrade hands back the license it replaced.
+  IF v_purchase.upgraded_from_purchase_id IS NOT NULL THEN
+    UPDATE public.purchases
+    SET
+      superseded_at = NULL,
+      superseded_by_purchase_id = NULL
+    WHERE id = v_purchase.upgraded_from_purchase_id
+      AND status = 'completed'
+      AND superseded_by_purchase_id = p_purchase_id;
+
+    IF FOUND THEN
+      INSERT INTO public.entitlements (user_id, product_id, purchase_id, entitlement_type)
+      SELECT user_id, product_id, id, 'purchase'
+      FROM public.purchases
+      WHERE id = v_purchase.upgraded_from_purchase_id
+      ON CONFLICT (user_id, product_id) DO UPDATE SET
+        purchase_id = EXCLUDED.purchase_id,
+        is_active = true,
+        granted_at = now();
+    END IF;
+  END IF;
+
+  SELECT COALESCE(v_purchase.beat_title_snapshot, pr.title)
+  INTO v_product_title
+  FROM public.products pr
+  WHERE pr.id = v_purchase.product_id;
+
+  SELECT up.email INTO v_buyer_email FROM public.user_profiles up WHERE up.id = v_purchase.user_id;
+  SELECT up.email INTO v_producer_email FROM public.user_profiles up WHERE up.id = v_purchase.producer_id;
+
+  PERFORM public.publish_event(
+    'PURCHASE_REFUNDED',
+    v_purchase.user_id,
+    jsonb_build_object(
+      'aggregate_type', 'purchase',
+      'aggregate_id', v_purchase.id,
+      'purchase_id', v_purchase.id,
+      'product_id', v_purchase.product_id,
+      'product_title', COALESCE(v_product_title, ''),
+      'amount_cents', v_purchase.amount,
+      'currency', v_purchase.currency,
+      'reason', p_reason,
+      'email', COALESCE(v_buyer_email, '')
+    )
+  );
+
+  PERFORM public.publish_event(
+    'SALE_REFUNDED',
+    v_purchase.producer_id,
+    jsonb_build_object(
+      'aggregate_type', 'purchase',
+      'aggregate_id', v_purchase.id,
+      'purchase_id', v_purchase.id,
+      'product_id', v_purchase.product_id,
+      'product_title', COALESCE(v_product_title, ''),
+      'producer_share_cents', COALESCE(v_purchase.producer_share_cents_snapshot, 0),
+      'payout_status', v_payout_status,
+      'reason', p_reason,
+      'email', COALESCE(v_producer_email, '')
+    )
+  );
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_purchase(uuid, text, jsonb) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.reverse_purchase(uuid, text, jsonb) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.reverse_purchase(uuid, text, jsonb) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.reverse_purchase(uuid, text, jsonb) TO service_role;
+
+-- -----------------------------------------------------------------------------
+-- set_purchase_dispute
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.set_purchase_dispute(
+  p_purchase_id uuid,
+  p_dispute_id text,
+  p_open boolean
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_purchase public.purchases%ROWTYPE;
+  v_product_title text;
+  v_producer_email text;
+BEGIN
+  SELECT *
+  INTO v_purchase
+  FROM public.purchases
+  WHERE id = p_purchase_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'purchase_not_found';
+  END IF;
+
+  IF v_purchase.status <> 'completed' OR (v_purchase.disputed_at IS NOT NULL) = p_open THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.purchases
+  SET
+    disputed_at = CASE WHEN p_open THEN now() ELSE NULL END,
+    metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+      'dispute_id', p_dispute_id,
+      'dispute_status', CASE WHEN p_open THEN 'open' ELSE 'won' END
+    )
+  WHERE id = p_purchase_id;
+
+  -- A superseded purchase no longer holds the entitlement, so only rows
+  -- still pointing at this purchase are touched.
+  UPDATE public.entitlements
+  SET is_active = NOT p_open
+  WHERE purchase_id = p_purchase_id;
+
+  IF p_open THEN
+    SELECT COALESCE(v_purchase.beat_title_snapshot, pr.title)
+    INTO v_product_title
+    FROM public.products pr
+    WHERE pr.id = v_purchase.product_id;
+
+    SELECT up.email INTO v_producer_email FROM public.user_profiles up WHERE up.id = v_purchase.producer_id;
+
+    PERFORM public.publish_event(
+      'SALE_DISPUTED',
+      v_purchase.producer_id,
+      jsonb_build_object(
+        'aggregate_type', 'purchase',
+        'aggregate_id', v_purchase.id,
+        'purchase_id', v_purchase.id,
+        'product_id', v_purchase.product_id,
+        'product_title', COALESCE(v_product_title, ''),
+        'dispute_id', p_dispute_id,
+        'email', COALESCE(v_producer_email, '')
+      )
+    );
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_purchase_dispute(uuid, text, boolean) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.set_purchase_dispute(uuid, text, boolean) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.set_purchase_dispute(uuid, text, boolean) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.set_purchase_dispute(uuid, text, boolean) TO service_role;
+
+COMMIT;
@@ -0,0 +1,348 @@
+/*
+  # Exclusive sale records
+
+  Selling an exclusive only unpublished the exclusive product itself: lease
+  holders of the same beat were not told, the other versions of the beat
+  stayed on sale and nothing recorded which leases predate the exclusive.
+
+  - exclusive_sale_records keeps one row per completed exclusive purchase with
+    the non-exclusive licenses already granted on the beat (prior_leases).
+  - record_exclusive_sale runs from a trigger on purchases, so both
+    complete_license_purchase and the legacy complete_exclusive_purchase are
+    covered. It archives every other version of the beat (parent_product_id
+    and original_beat_id lineage) and notifies each prior lease holder.
+  - Archived versions of a sold lineage cannot be put back on sale
+    (product_lineage_sold_exclusively).
+  - Standard contract template v3 adds the prior licenses rider printed on
+    the exclusive buyer's contract; licenses on version 2 are pointed at it.
+*/
+
+BEGIN;
+
+-- -----------------------------------------------------------------------------
+-- Lineage
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.product_lineage_ids(p_product_id uuid)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  WITH start AS (
+    SELECT COALESCE(p.parent_product_id, p.original_beat_id, p.id) AS id
+    FROM public.products p
+    WHERE p.id = p_product_id
+  ),
+  root AS (
+    -- original_beat_id may point at a version rather than the root.
+    SELECT COALESCE(p.parent_product_id, p.id) AS id
+    FROM public.products p
+    JOIN start ON start.id = p.id
+  ),
+  versions AS (
+    SELECT p.id
+    FROM public.products p, root
+    WHERE p.id = root.id
+       OR p.parent_product_id = root.id
+  ),
+  derived AS (
+    SELECT p.id
+    FROM public.products p
+    WHERE p.original_beat_id IN (SELECT id FROM versions)
+  )
+  SELECT id FROM versions
+  UNION
+  SELECT id FROM derived
+  UNION
+  SELECT p.id
+  FROM public.products p
+  WHERE p.parent_product_id IN (SELECT id FROM derived)
+  UNION
+  SELECT p_product_id;
+$$;
+
+COMMENT ON FUNCTION public.product_lineage_ids(uuid) IS
+  'Every version of a beat: the root, its versions and the exclusives derived from them.';
+
+REVOKE EXECUTE ON FUNCTION public.product_lineage_ids(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.product_lineage_ids(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.product_lineage_ids(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.product_lineage_ids(uuid) TO service_role;
+
+-- -----------------------------------------------------------------------------
+-- Sale records
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.exclusive_sale_records (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_id uuid NOT NULL REFERENCES public.purchases(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  buyer_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  producer_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  prior_leases jsonb NOT NULL DEFAULT '[]'::jsonb,
+  delisted_product_ids uuid[] NOT NULL DEFAULT '{}'::uuid[],
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT exclusive_sale_records_purchase_id_key UNIQUE (purchase_id),
+  CONSTRAINT exclusive_sale_records_prior_leases_array CHECK (jsonb_typeof(prior_leases) = 'array')
+);
+
+CREATE INDEX IF NOT EXISTS idx_exclusive_sale_records_product_id
+  ON public.exclusive_sale_records (product_id);
+
+COMMENT ON TABLE public.exclusive_sale_records IS
+  'One row per exclusive sale, listing the non-exclusive licenses granted on the beat before it.';
+COMMENT ON COLUMN public.exclusive_sale_records.prior_leases IS
+  'Array of {purchase_id, user_id, product_id, license_name, purchased_at}; those licenses stay valid.';
+COMMENT ON COLUMN public.exclusive_sale_records.delisted_product_ids IS
+  'Versions of the beat archived by the sale.';
+
+ALTER TABLE public.exclusive_sale_records ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.exclusive_sale_records FROM anon;
+REVOKE ALL ON TABLE public.exclusive_sale_records FROM authenticated;
+GRANT SELECT ON TABLE public.exclusive_sale_records TO authenticated;
+GRANT ALL ON TABLE public.exclusive_sale_records TO service_role;
+
+DROP POLICY IF EXISTS "Buyers and producers can read own exclusive sales" ON public.exclusive_sale_records;
+CREATE POLICY "Buyers and producers can read own exclusive sales"
+ON public.exclusive_sale_records
+FOR SELECT
+TO authenticated
+USING (buyer_id = auth.uid() OR producer_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can read exclusive sales" ON public.exclusive_sale_records;
+CREATE POLICY "Admins can read exclusive sales"
+ON public.exclusive_sale_records
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.record_exclusive_sale()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_record_id uuid;
+  v_sold_at timestamptz := COALESCE(NEW.completed_at, now());
+  v_product_title text;
+  v_lineage uuid[];
+  v_prior_leases jsonb;
+  v_delisted uuid[];
+  v_holder record;
+BEGIN
+  IF NEW.is_exclusive IS DISTINCT FROM true
+     OR NEW.status <> 'completed'
+     OR (TG_OP = 'UPDATE' AND OLD.status = 'completed') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT array_agg(lineage.id)
+  INTO v_lineage
+  FROM public.product_lineage_ids(NEW.product_id) AS lineage(id);
+
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'purchase_id', pu.id,
+        'user_id', pu.user_id,
+        'product_id', pu.product_id,
+        'license_name', COALESCE(pu.license_name_snapshot, pu.license_type, 'Standard'),
+        'purchased_at', COALESCE(pu.completed_at, pu.created_at)
+      )
+      ORDER BY COALESCE(pu.completed_at, pu.created_at), pu.id
+    ),
+    '[]'::jsonb
+  )
+  INTO v_prior_leases
+  FROM public.purchases pu
+  WHERE pu.product_id = ANY(v_lineage)
+    AND pu.id <> NEW.id
+    AND pu.is_exclusive = false
+    AND pu.status = 'completed'
+    AND pu.superseded_at IS NULL
+    AND pu.user_id <> NEW.user_id
+    AND COALESCE(pu.completed_at, pu.created_at) <= v_sold_at;
+
+  WITH archived AS (
+    UPDATE public.products
+    SET
+      status = 'archived',
+      archived_at = COALESCE(archived_at, now()),
+      is_published = false,
+      updated_at = now()
+    WHERE id = ANY(v_lineage)
+      AND id <> NEW.product_id
+      AND deleted_at IS NULL
+      AND (status <> 'archived' OR is_published = true)
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}'::uuid[])
+  INTO v_delisted
+  FROM archived;
+
+  INSERT INTO public.exclusive_sale_records (
+    purchase_id,
+    product_id,
+    buyer_id,
+    producer_id,
+    prior_leases,
+    delisted_product_ids
+  )
+  VALUES (
+    NEW.id,
+    NEW.product_id,
+    NEW.user_id,
+    NEW.producer_id,
+    v_prior_leases,
+    v_delisted
+  )
+  ON CONFLICT (purchase_id) DO NOTHING
+  RETURNING id INTO v_record_id;
+
+  IF v_record_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(NULLIF(btrim(p.title), ''), 'ce beat')
+  INTO v_product_title
+  FROM public.products p
+  WHERE p.id = NEW.product_id;
+
+  FOR v_holder IN
+    SELECT DISTINCT (lease->>'user_id')::uuid AS user_id
+    FROM jsonb_array_elements(v_prior_leases) AS lease
+  LOOP
+    BEGIN
+      INSERT INTO public.notifications (
+        user_id,
+        type,
+        title,
+        message,
+        entity_type,
+        entity_id,
+        target_url
+      )
+      VALUES (
+        v_holder.user_id,
+        'exclusive_sold_lease_holder',
+        'Exclusivite vendue sur un beat que vous avez licencie',
+        format(
+          'Les droits exclusifs de "%s" ont ete vendus. Votre licence reste valable selon ses conditions.',
+          COALESCE(v_product_title, 'ce beat')
+        ),
+        'exclusive_sale',
+        v_record_id,
+        '/dashboard#purchases'
+      )
+      ON CONFLICT (user_id, type, entity_type, entity_id)
+        WHERE entity_type IS NOT NULL
+          AND entity_id IS NOT NULL
+        DO NOTHING;
+    EXCEPTION
+      WHEN others THEN
+        RAISE NOTICE 'exclusive sale notification failed for user %: %', v_holder.user_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_exclusive_purchase_record_sale ON public.purchases;
+CREATE TRIGGER on_exclusive_purchase_record_sale
+  AFTER INSERT OR UPDATE OF status
+  ON public.purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_exclusive_sale();
+
+-- -----------------------------------------------------------------------------
+-- Keep a sold lineage off sale
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.guard_exclusively_sold_lineage()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL
+     OR NEW.status <> 'active'
+     OR COALESCE(NEW.is_published, false) = false THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.status = 'active'
+     AND COALESCE(OLD.is_published, false) = true THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.exclusive_sale_records esr
+    WHERE esr.product_id IN (SELECT public.product_lineage_ids(COALESCE(NEW.parent_product_id, NEW.original_beat_id, NEW.id)))
+  ) THEN
+    RAISE EXCEPTION 'product_lineage_sold_exclusively';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_exclusively_sold_lineage ON public.products;
+CREATE TRIGGER guard_exclusively_sold_lineage
+  BEFORE INSERT OR UPDATE OF status, is_published
+  ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_exclusively_sold_lineage();
+
+-- -----------------------------------------------------------------------------
+-- Seed: standard v3 (v2 + prior licenses rider)
+-- -----------------------------------------------------------------------------
+INSERT INTO public.license_contract_templates (template_key, version, bodies)
+SELECT
+  'standard',
+  3,
+  jsonb_object_agg(
+    body.language,
+    body.content || jsonb_build_object('terms', (body.content->'terms') || clause.terms)
+  )
+FROM public.license_contract_templates AS v2
+CROSS JOIN LATERAL jsonb_each(v2.bodies) AS body(language, content)
+JOIN (
+  VALUES
+    ('fr', $terms${
+      "priorLeasesHeading": "Avenant : licences non exclusives antérieures",
+      "priorLeasesClause": "Avant la présente cession exclusive, le Producteur a accordé {{priorLeaseCount}} licence(s) non exclusive(s) sur cette œuvre. Elles restent valables selon leurs propres conditions et l'Acheteur ne peut s'opposer aux exploitations qu'elles autorisent :\n{{priorLeases}}"
+    }$terms$::jsonb),
+    ('en', $terms${
+      "priorLeasesHeading": "Rider: prior non-exclusive licenses",
+      "priorLeasesClause": "Before this exclusive sale, the Producer granted {{priorLeaseCount}} non-exclusive license(s) on this work. They remain valid on their own terms and the Buyer may not object to the uses they permit:\n{{priorLeases}}"
+    }$terms$::jsonb),
+    ('de', $terms${
+      "priorLeasesHeading": "Zusatz: frühere nicht-exklusive Lizenzen",
+      "priorLeasesClause": "Vor diesem exklusiven Verkauf hat der Produzent {{priorLeaseCount}} nicht-exklusive Lizenz(en) an diesem Werk erteilt. Sie bleiben zu ihren eigenen Bedingungen gültig, und der Käufer kann den von ihnen erlaubten Nutzungen nicht widersprechen:\n{{priorLeases}}"
+    }$terms$::jsonb),
+    ('es', $terms${
+      "priorLeasesHeading": "Anexo: licencias no exclusivas anteriores",
+      "priorLeasesClause": "Antes de esta venta exclusiva, el Productor concedió {{priorLeaseCount}} licencia(s) no exclusiva(s) sobre esta obra. Siguen siendo válidas según sus propias condiciones y el Comprador no puede oponerse a los usos que permiten:\n{{priorLeases}}"
+    }$terms$::jsonb)
+) AS clause(language, terms) ON clause.language = body.language
+WHERE v2.template_key = 'standard'
+  AND v2.version = 2
+GROUP BY v2.id
+ON CONFLICT (template_key, version) DO NOTHING;
+
+UPDATE public.licenses AS l
+SET contract_template_id = v3.id
+FROM public.license_contract_templates AS v2,
+  public.license_contract_templates AS v3
+WHERE v2.template_key = 'standard'
+  AND v2.version = 2
+  AND v3.template_key = 'standard'
+  AND v3.version = 3
+  AND l.contract_template_id = v2.id;
+
+COMMIT;
@@ -0,0 +1,268 @@
+/*
+  # Producer deals
+
+  Every cart item was priced on its own. Producers can now run two kinds of
+  deals on their non-exclusive beats:
+
+  - buy_x_get_y: in every group of buy_quantity + free_quantity eligible beats
+    of the producer, the free_quantity cheapest ones are free. product_ids
+    limits the deal to some beats; empty means all of them.
+  - bundle: the beats listed in product_ids bought together cost
+    bundle_price, whatever tier the buyer picks for each of them. A bundle
+    that would not save anything is simply not applied.
+
+  The cart and create-checkout evaluate deals the same way. Checkout spreads
+  each deal's discount over the beats it covers, so every Stripe line item
+  and every purchase carries the amount actually paid for that beat; the
+  deal and the list price are recorded in purchases.metadata.
+
+  rpc_save_producer_deal and rpc_archive_producer_deal are the only write
+  path for producers.
+*/
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.producer_deals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  producer_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  deal_type text NOT NULL,
+  buy_quantity integer,
+  free_quantity integer,
+  bundle_price integer,
+  product_ids uuid[] NOT NULL DEFAULT '{}'::uuid[],
+  archived_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.producer_deals
+  DROP CONSTRAINT IF EXISTS producer_deals_type_check;
+
+ALTER TABLE public.producer_deals
+  ADD CONSTRAINT producer_deals_type_check CHECK (deal_type IN ('buy_x_get_y', 'bundle'));
+
+-- A deal never spans more beats than one checkout can hold (5).
+ALTER TABLE public.producer_deals
+  DROP CONSTRAINT IF EXISTS producer_deals_shape_check;
+
+ALTER TABLE public.producer_deals
+  ADD CONSTRAINT producer_deals_shape_check CHECK (
+    char_length(btrim(title)) BETWEEN 1 AND 60
+    AND (
+      (
+        deal_type = 'buy_x_get_y'
+        AND buy_quantity >= 1
+        AND free_quantity >= 1
+        AND buy_quantity + free_quantity <= 5
+        AND bundle_price IS NULL
+      )
+      OR (
+        deal_type = 'bundle'
+        AND bundle_price >= 100
+        AND cardinality(product_ids) BETWEEN 2 AND 5
+        AND buy_quantity IS NULL
+        AND free_quantity IS NULL
+      )
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_producer_deals_producer_active
+  ON public.producer_deals (producer_id)
+  WHERE archived_at IS NULL;
+
+COMMENT ON TABLE public.producer_deals IS
+  'Producer-defined cart deals: buy X get Y free and fixed-price bundles of beats.';
+COMMENT ON COLUMN public.producer_deals.product_ids IS
+  'Beats covered by the deal. Required for bundles; empty on buy_x_get_y means every beat of the producer.';
+COMMENT ON COLUMN public.producer_deals.bundle_price IS
+  'Price in cents of the bundle, whatever tier is picked for each beat.';
+
+ALTER TABLE public.producer_deals ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.producer_deals FROM anon;
+REVOKE ALL ON TABLE public.producer_deals FROM authenticated;
+GRANT SELECT ON TABLE public.producer_deals TO anon;
+GRANT SELECT ON TABLE public.producer_deals TO authenticated;
+GRANT ALL ON TABLE public.producer_deals TO service_role;
+
+DROP POLICY IF EXISTS "Anyone can read active producer deals" ON public.producer_deals;
+CREATE POLICY "Anyone can read active producer deals"
+ON public.producer_deals
+FOR SELECT
+TO anon, authenticated
+USING (archived_at IS NULL);
+
+DROP POLICY IF EXISTS "Producers can read own deals" ON public.producer_deals;
+CREATE POLICY "Producers can read own deals"
+ON public.producer_deals
+FOR SELECT
+TO authenticated
+USING (producer_id = auth.uid());
+
+-- ---------------------------------------------------------------------------
+-- Producer RPCs
+-- ---------------------------------------------------------------------------
+-- A NULL p_deal_id creates a new deal.
+CREATE OR REPLACE FUNCTION public.rpc_save_producer_deal(
+  p_title text,
+  p_deal_type text,
+  p_product_ids uuid[],
+  p_buy_quantity integer DEFAULT NULL,
+  p_free_quantity integer DEFAULT NULL,
+  p_bundle_price integer DEFAULT NULL,
+  p_deal_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_title text := btrim(COALESCE(p_title, ''));
+  v_product_ids uuid[] := ARRAY(SELECT DISTINCT unnest(COALESCE(p_product_ids, '{}'::uuid[])));
+  v_existing public.producer_deals%ROWTYPE;
+  v_deal_id uuid;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'auth_required';
+  END IF;
+
+  IF NOT public.is_active_producer(v_actor) THEN
+    RAISE EXCEPTION 'producer_required';
+  END IF;
+
+  IF char_length(v_title) NOT BETWEEN 1 AND 60 THEN
+    RAISE EXCEPTION 'invalid_deal_title';
+  END IF;
+
+  IF p_deal_type = 'buy_x_get_y' THEN
+    IF p_buy_quantity IS NULL OR p_free_quantity IS NULL
+      OR p_buy_quantity < 1 OR p_free_quantity < 1
+      OR p_buy_quantity + p_free_quantity > 5 THEN
+      RAISE EXCEPTION 'invalid_deal_quantities';
+    END IF;
+  ELSIF p_deal_type = 'bundle' THEN
+    IF p_bundle_price IS NULL OR p_bundle_price < 100 THEN
+      RAISE EXCEPTION 'invalid_bundle_price';
+    END IF;
+
+    IF cardinality(v_product_ids) NOT BETWEEN 2 AND 5 THEN
+      RAISE EXCEPTION 'invalid_deal_products';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'invalid_deal_type';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(v_product_ids) AS requested(id)
+    LEFT JOIN public.products p ON p.id = requested.id
+    WHERE p.id IS NULL
+      OR p.producer_id <> v_actor
+      OR p.deleted_at IS NOT NULL
+      OR COALESCE(p.is_exclusive, false) = true
+  ) THEN
+    RAISE EXCEPTION 'invalid_deal_products';
+  END IF;
+
+  IF p_deal_id IS NULL THEN
+    INSERT INTO public.producer_deals (
+      producer_id,
+      title,
+      deal_type,
+      buy_quantity,
+      free_quantity,
+      bundle_price,
+      product_ids
+    )
+    VALUES (
+      v_actor,
+      v_title,
+      p_deal_type,
+      CASE WHEN p_deal_type = 'buy_x_get_y' THEN p_buy_quantity END,
+      CASE WHEN p_deal_type = 'buy_x_get_y' THEN p_free_quantity END,
+      CASE WHEN p_deal_type = 'bundle' THEN p_bundle_price END,
+      v_product_ids
+    )
+    RETURNING id INTO v_deal_id;
+
+    RETURN v_deal_id;
+  END IF;
+
+  SELECT *
+  INTO v_existing
+  FROM public.producer_deals
+  WHERE id = p_deal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_existing.producer_id IS DISTINCT FROM v_actor THEN
+    RAISE EXCEPTION 'deal_not_found';
+  END IF;
+
+  IF v_existing.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'deal_archived';
+  END IF;
+
+  -- Purchases record the deal they got in their metadata, so editing a deal
+  -- only affects future checkouts.
+  UPDATE public.producer_deals
+  SET
+    title = v_title,
+    deal_type = p_deal_type,
+    buy_quantity = CASE WHEN p_deal_type = 'buy_x_get_y' THEN p_buy_quantity END,
+    free_quantity = CASE WHEN p_deal_type = 'buy_x_get_y' THEN p_free_quantity END,
+    bundle_price = CASE WHEN p_deal_type = 'bundle' THEN p_bundle_price END,
+    product_ids = v_product_ids,
+    updated_at = now()
+  WHERE id = p_deal_id;
+
+  RETURN p_deal_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rpc_archive_producer_deal(p_deal_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_deal public.producer_deals%ROWTYPE;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'auth_required';
+  END IF;
+
+  SELECT *
+  INTO v_deal
+  FROM public.producer_deals
+  WHERE id = p_deal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_deal.producer_id IS DISTINCT FROM v_actor THEN
+    RAISE EXCEPTION 'deal_not_found';
+  END IF;
+
+  IF v_deal.archived_at IS NOT NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.producer_deals
+  SET
+    archived_at = now(),
+    updated_at = now()
+  WHERE id = p_deal_id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rpc_save_producer_deal(text, text, uuid[], integer, integer, integer, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.rpc_archive_producer_deal(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.rpc_save_producer_deal(text, text, uuid[], integer, integer, integer, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_archive_producer_deal(uuid) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,540 @@
+/*
+  # Promo codes
+
+  entitlement_type has had a 'promo' value since the first schema, but
+  nothing ever produced it and both checkouts charged fixed prices. Admins
+  and producers can now create promo codes:
+
+  - discount_type 'percent' (1-100) or 'fixed' (cents).
+  - scope 'product' (one beat), 'producer' (every beat of a producer),
+    'all_beats' (the whole marketplace) or 'plan' (producer subscriptions,
+    optionally a single tier). Producers can only create 'product' and
+    'producer' codes on their own catalogue; the other scopes are admin only.
+  - starts_at / expires_at, max_redemptions (whole code) and per_user_limit.
+
+  check_promo_code validates a code for a buyer; create-checkout and
+  producer-checkout call it server-side and rpc_check_promo_code lets the
+  cart preview the same answer. Beat discounts are applied after producer
+  deals and spread over the covered items like deals, so payouts follow the
+  amount actually paid. Plan discounts become a one-off Stripe coupon.
+
+  stripe-webhook records one promo_code_redemptions row per paid checkout
+  session and marks the entitlements it granted as 'promo'. Caps are checked
+  when the checkout is created; a session paid after the cap was reached is
+  still recorded, since the buyer has been charged.
+*/
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL,
+  created_by uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  producer_id uuid REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  discount_type text NOT NULL,
+  discount_value integer NOT NULL,
+  scope text NOT NULL,
+  product_id uuid REFERENCES public.products(id) ON DELETE CASCADE,
+  scope_producer_id uuid REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  plan_tier text,
+  max_redemptions integer,
+  per_user_limit integer NOT NULL DEFAULT 1,
+  starts_at timestamptz,
+  expires_at timestamptz,
+  archived_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_codes_code
+  ON public.promo_codes (upper(code));
+
+CREATE INDEX IF NOT EXISTS idx_promo_codes_producer
+  ON public.promo_codes (producer_id)
+  WHERE producer_id IS NOT NULL;
+
+ALTER TABLE public.promo_codes
+  DROP CONSTRAINT IF EXISTS promo_codes_shape_check;
+
+ALTER TABLE public.promo_codes
+  ADD CONSTRAINT promo_codes_shape_check CHECK (
+    code ~ '^[A-Z0-9_-]{3,32}$'
+    AND (
+      (discount_type = 'percent' AND discount_value BETWEEN 1 AND 100)
+      OR (discount_type = 'fixed' AND discount_value >= 1)
+    )
+    AND (
+      (scope = 'product' AND product_id IS NOT NULL AND scope_producer_id IS NULL AND plan_tier IS NULL)
+      OR (scope = 'producer' AND product_id IS NULL AND scope_producer_id IS NOT NULL AND plan_tier IS NULL)
+      OR (scope = 'all_beats' AND product_id IS NULL AND scope_producer_id IS NULL AND plan_tier IS NULL)
+      OR (scope = 'plan' AND product_id IS NULL AND scope_producer_id IS NULL
+        AND (plan_tier IS NULL OR plan_tier IN ('producteur', 'elite')))
+    )
+    -- Producer codes stay on the producer's own beats.
+    AND (producer_id IS NULL OR scope IN ('product', 'producer'))
+    AND (max_redemptions IS NULL OR max_redemptions >= 1)
+    AND per_user_limit >= 1
+    AND (starts_at IS NULL OR expires_at IS NULL OR expires_at > starts_at)
+  );
+
+COMMENT ON TABLE public.promo_codes IS
+  'Promo codes created by admins (producer_id NULL) or producers, applied by create-checkout and producer-checkout.';
+COMMENT ON COLUMN public.promo_codes.discount_value IS
+  'Percentage (1-100) for percent codes, amount in cents for fixed codes.';
+COMMENT ON COLUMN public.promo_codes.plan_tier IS
+  'Producer plan tier a plan code is limited to; NULL means any tier.';
+
+CREATE TABLE IF NOT EXISTS public.promo_code_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id uuid NOT NULL REFERENCES public.promo_codes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  checkout_session_id text NOT NULL,
+  context text NOT NULL,
+  discount_amount integer NOT NULL DEFAULT 0,
+  purchase_ids uuid[] NOT NULL DEFAULT '{}'::uuid[],
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_code_redemptions_session
+  ON public.promo_code_redemptions (checkout_session_id);
+
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_code_user
+  ON public.promo_code_redemptions (promo_code_id, user_id);
+
+ALTER TABLE public.promo_code_redemptions
+  DROP CONSTRAINT IF EXISTS promo_code_redemptions_context_check;
+
+ALTER TABLE public.promo_code_redemptions
+  ADD CONSTRAINT promo_code_redemptions_context_check CHECK (
+    context IN ('marketplace', 'plan') AND discount_amount >= 0
+  );
+
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promo_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Codes are secret: buyers only reach them through check_promo_code.
+REVOKE ALL ON TABLE public.promo_codes FROM anon;
+REVOKE ALL ON TABLE public.promo_codes FROM authenticated;
+GRANT SELECT ON TABLE public.promo_codes TO authenticated;
+GRANT ALL ON TABLE public.promo_codes TO service_role;
+
+REVOKE ALL ON TABLE public.promo_code_redemptions FROM anon;
+REVOKE ALL ON TABLE public.promo_code_redemptions FROM authenticated;
+GRANT SELECT ON TABLE public.promo_code_redemptions TO authenticated;
+GRANT ALL ON TABLE public.promo_code_redemptions TO service_role;
+
+DROP POLICY IF EXISTS "Producers can read own promo codes" ON public.promo_codes;
+CREATE POLICY "Producers can read own promo codes"
+ON public.promo_codes
+FOR SELECT
+TO authenticated
+USING (producer_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can read promo codes" ON public.promo_codes;
+CREATE POLICY "Admins can read promo codes"
+ON public.promo_codes
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Producers can read redemptions of own promo codes" ON public.promo_code_redemptions;
+CREATE POLICY "Producers can read redemptions of own promo codes"
+ON public.promo_code_redemptions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.promo_codes pc
+    WHERE pc.id = promo_code_redemptions.promo_code_id
+      AND pc.producer_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can read promo code redemptions" ON public.promo_code_redemptions;
+CREATE POLICY "Admins can read promo code redemptions"
+ON public.promo_code_redemptions
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+-- ---------------------------------------------------------------------------
+-- Validation
+-- ---------------------------------------------------------------------------
+-- p_context is 'marketplace' (cart checkout) or 'plan' (producer-checkout).
+CREATE OR REPLACE FUNCTION public.check_promo_code(
+  p_code text,
+  p_user_id uuid,
+  p_context text
+)
+RETURNS public.promo_codes
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_promo public.promo_codes%ROWTYPE;
+  v_redemptions integer;
+BEGIN
+  SELECT *
+  INTO v_promo
+  FROM public.promo_codes
+  WHERE upper(code) = upper(btrim(COALESCE(p_code, '')))
+    AND archived_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'promo_code_not_found';
+  END IF;
+
+  IF v_promo.starts_at IS NOT NULL AND v_promo.starts_at > now() THEN
+    RAISE EXCEPTION 'promo_code_not_started';
+  END IF;
+
+  IF v_promo.expires_at IS NOT NULL AND v_promo.expires_at <= now() THEN
+    RAISE EXCEPTION 'promo_code_expired';
+  END IF;
+
+  IF (p_context = 'plan') IS DISTINCT FROM (v_promo.scope = 'plan') THEN
+    RAISE EXCEPTION 'promo_code_not_applicable';
+  END IF;
+
+  IF v_promo.max_redemptions IS NOT NULL THEN
+    SELECT count(*)
+    INTO v_redemptions
+    FROM public.promo_code_redemptions
+    WHERE promo_code_id = v_promo.id;
+
+    IF v_redemptions >= v_promo.max_redemptions THEN
+      RAISE EXCEPTION 'promo_code_exhausted';
+    END IF;
+  END IF;
+
+  SELECT count(*)
+  INTO v_redemptions
+  FROM public.promo_code_redemptions
+  WHERE promo_code_id = v_promo.id
+    AND user_id = p_user_id;
+
+  IF v_redemptions >= v_promo.per_user_limit THEN
+    RAISE EXCEPTION 'promo_code_already_used';
+  END IF;
+
+  RETURN v_promo;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rpc_check_promo_code(
+  p_code text,
+  p_context text DEFAULT 'marketplace'
+)
+RETURNS public.promo_codes
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'auth_required';
+  END IF;
+
+  RETURN public.check_promo_code(p_code, auth.uid(), p_context);
+END;
+$$;
+
+-- Idempotent per checkout session: Stripe may deliver the webhook twice.
+CREATE OR REPLACE FUNCTION public.record_promo_code_redemption(
+  p_promo_code_id uuid,
+  p_user_id uuid,
+  p_checkout_session_id text,
+  p_context text,
+  p_discount_amount integer,
+  p_purchase_ids uuid[] DEFAULT '{}'::uuid[]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_redemption_id uuid;
+BEGIN
+  INSERT INTO public.promo_code_redemptions (
+    promo_code_id,
+    user_id,
+    checkout_session_id,
+    context,
+    discount_amount,
+    purchase_ids
+  )
+  VALUES (
+    p_promo_code_id,
+    p_user_id,
+    p_checkout_session_id,
+    p_context,
+    GREATEST(COALESCE(p_discount_amount, 0), 0),
+    COALESCE(p_purchase_ids, '{}'::uuid[])
+  )
+  ON CONFLICT (checkout_session_id) DO NOTHING
+  RETURNING id INTO v_redemption_id;
+
+  IF v_redemption_id IS NULL THEN
+    SELECT id
+    INTO v_redemption_id
+    FROM public.promo_code_redemptions
+    WHERE checkout_session_id = p_checkout_session_id;
+  END IF;
+
+  UPDATE public.entitlements
+  SET entitlement_type = 'promo'
+  WHERE purchase_id = ANY(COALESCE(p_purchase_ids, '{}'::uuid[]))
+    AND user_id = p_user_id;
+
+  RETURN v_redemption_id;
+END;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Producer and admin RPCs
+-- ---------------------------------------------------------------------------
+-- Codes are not editable once created: redemptions refer to their terms.
+CREATE OR REPLACE FUNCTION public.rpc_create_promo_code(
+  p_code text,
+  p_discount_type text,
+  p_discount_value integer,
+  p_scope text,
+  p_product_id uuid DEFAULT NULL,
+  p_scope_producer_id uuid DEFAULT NULL,
+  p_plan_tier text DEFAULT NULL,
+  p_max_redemptions integer DEFAULT NULL,
+  p_per_user_limit integer DEFAULT 1,
+  p_starts_at timestamptz DEFAULT NULL,
+  p_expires_at timestamptz DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_is_admin boolean;
+  v_code text := upper(btrim(COALESCE(p_code, '')));
+  v_scope_producer_id uuid := p_scope_producer_id;
+  v_promo_id uuid;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'auth_required';
+  END IF;
+
+  v_is_admin := public.is_admin(v_actor);
+
+  IF NOT v_is_admin AND NOT public.is_active_producer(v_actor) THEN
+    RAISE EXCEPTION 'producer_required';
+  END IF;
+
+  IF v_code !~ '^[A-Z0-9_-]{3,32}$' THEN
+    RAISE EXCEPTION 'invalid_promo_code';
+  END IF;
+
+  IF NOT (
+    (p_discount_type = 'percent' AND p_discount_value BETWEEN 1 AND 100)
+    OR (p_discount_type = 'fixed' AND p_discount_value >= 1)
+  ) THEN
+    RAISE EXCEPTION 'invalid_promo_discount';
+  END IF;
+
+  IF p_scope NOT IN ('product', 'producer', 'all_beats', 'plan')
+    OR (NOT v_is_admin AND p_scope NOT IN ('product', 'producer')) THEN
+    RAISE EXCEPTION 'invalid_promo_scope';
+  END IF;
+
+  IF p_scope = 'producer' AND NOT v_is_admin THEN
+    v_scope_producer_id := v_actor;
+  END IF;
+
+  IF p_scope = 'product' AND NOT EXISTS (
+    SELECT 1
+    FROM public.products p
+    WHERE p.id = p_product_id
+      AND p.deleted_at IS NULL
+      AND (v_is_admin OR p.producer_id = v_actor)
+  ) THEN
+    RAISE EXCEPTION 'invalid_promo_scope';
+  END IF;
+
+  IF p_scope = 'producer' AND NOT public.is_active_producer(v_scope_producer_id) THEN
+    RAISE EXCEPTION 'invalid_promo_scope';
+  END IF;
+
+  IF p_scope = 'plan' AND p_plan_tier IS NOT NULL AND p_plan_tier NOT IN ('producteur', 'elite') THEN
+    RAISE EXCEPTION 'invalid_promo_scope';
+  END IF;
+
+  IF (p_max_redemptions IS NOT NULL AND p_max_redemptions < 1)
+    OR p_per_user_limit IS NULL
+    OR p_per_user_limit < 1 THEN
+    RAISE EXCEPTION 'invalid_promo_limits';
+  END IF;
+
+  IF (p_expires_at IS NOT NULL AND p_expires_at <= now())
+    OR (p_starts_at IS NOT NULL AND p_expires_at IS NOT NULL AND p_expires_at <= p_starts_at) THEN
+    RAISE EXCEPTION 'invalid_promo_dates';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.promo_codes WHERE upper(code) = v_code) THEN
+    RAISE EXCEPTION 'promo_code_taken';
+  END IF;
+
+  INSERT INTO public.promo_codes (
+    code,
+    created_by,
+    producer_id,
+    discount_type,
+    discount_value,
+    scope,
+    product_id,
+    scope_producer_id,
+    plan_tier,
+    max_redemptions,
+    per_user_limit,
+    starts_at,
+    expires_at
+  )
+  VALUES (
+    v_code,
+    v_actor,
+    CASE WHEN v_is_admin THEN NULL ELSE v_actor END,
+    p_discount_type,
+    p_discount_value,
+    p_scope,
+    CASE WHEN p_scope = 'product' THEN p_product_id END,
+    CASE WHEN p_scope = 'producer' THEN v_scope_producer_id END,
+    CASE WHEN p_scope = 'plan' THEN p_plan_tier END,
+    p_max_redemptions,
+    p_per_user_limit,
+    p_starts_at,
+    p_expires_at
+  )
+  RETURNING id INTO v_promo_id;
+
+  RETURN v_promo_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rpc_archive_promo_code(p_promo_code_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_promo public.promo_codes%ROWTYPE;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'auth_required';
+  END IF;
+
+  SELECT *
+  INTO v_promo
+  FROM public.promo_codes
+  WHERE id = p_promo_code_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+    OR NOT (
+      v_promo.producer_id = v_actor
+      OR (v_promo.producer_id IS NULL AND public.is_admin(v_actor))
+    ) THEN
+    RAISE EXCEPTION 'promo_code_not_found';
+  END IF;
+
+  IF v_promo.archived_at IS NOT NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.promo_codes
+  SET
+    archived_at = now(),
+    updated_at = now()
+  WHERE id = p_promo_code_id;
+
+  RETURN true;
+END;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Admin revenue
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE VIEW public.admin_revenue_breakdown
+WITH (security_invoker = true) AS
+SELECT
+  p.id,
+  p.created_at,
+  ROUND(COALESCE(p.amount, 0)::numeric / 100.0, 2) AS gross_eur,
+  ROUND(COALESCE(p.producer_share_cents_snapshot, 0)::numeric / 100.0, 2) AS producer_share_eur,
+  ROUND(COALESCE(p.platform_share_cents_snapshot, 0)::numeric / 100.0, 2) AS platform_share_eur,
+  p.purchase_source,
+  pr.title,
+  buyer.email AS buyer_email,
+  producer.email AS producer_email,
+  p.metadata->>'promo_code' AS promo_code
+FROM public.purchases p
+JOIN public.products pr
+  ON pr.id = p.product_id
+JOIN public.user_profiles buyer
+  ON buyer.id = p.user_id
+JOIN public.user_profiles producer
+  ON producer.id = pr.producer_id
+WHERE (
+    public.is_admin(auth.uid())
+    OR COALESCE(auth.jwt()->>'role', current_setting('request.jwt.claim.role', true), '') = 'service_role'
+  )
+  AND p.status = 'completed';
+
+CREATE OR REPLACE VIEW public.admin_promo_code_usage
+WITH (security_invoker = true) AS
+SELECT
+  pc.id,
+  pc.code,
+  pc.scope,
+  pc.discount_type,
+  pc.discount_value,
+  pc.archived_at,
+  owner.email AS producer_email,
+  count(r.id)::integer AS redemption_count,
+  ROUND(COALESCE(sum(r.discount_amount), 0)::numeric / 100.0, 2) AS discount_eur
+FROM public.promo_codes pc
+LEFT JOIN public.user_profiles owner
+  ON owner.id = pc.producer_id
+LEFT JOIN public.promo_code_redemptions r
+  ON r.promo_code_id = pc.id
+WHERE public.is_admin(auth.uid())
+  OR COALESCE(auth.jwt()->>'role', current_setting('request.jwt.claim.role', true), '') = 'service_role'
+GROUP BY pc.id, owner.email;
+
+GRANT SELECT ON TABLE public.admin_revenue_breakdown TO authenticated;
+GRANT SELECT ON TABLE public.admin_revenue_breakdown TO service_role;
+GRANT SELECT ON TABLE public.admin_promo_code_usage TO authenticated;
+GRANT SELECT ON TABLE public.admin_promo_code_usage TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.check_promo_code(text, uuid, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.check_promo_code(text, uuid, text) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.check_promo_code(text, uuid, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.check_promo_code(text, uuid, text) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.record_promo_code_redemption(uuid, uuid, text, text, integer, uuid[]) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.record_promo_code_redemption(uuid, uuid, text, text, integer, uuid[]) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.record_promo_code_redemption(uuid, uuid, text, text, integer, uuid[]) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.record_promo_code_redemption(uuid, uuid, text, text, integer, uuid[]) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.rpc_check_promo_code(text, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.rpc_create_promo_code(text, text, integer, text, uuid, uuid, text, integer, integer, timestamptz, timestamptz) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.rpc_archive_promo_code(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.rpc_check_promo_code(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_create_promo_code(text, text, integer, text, uuid, uuid, text, integer, integer, timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_archive_promo_code(uuid) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,136 @@
+/*
+  # Multi-currency display and checkout
+
+  Catalog prices (products.price, product_licenses.price, licenses.price)
+  stay in euro cents and purchases.currency stays 'eur': producer
+  payouts, commissions and producer_revenue_view all reconcile in euros.
+
+  exchange_rates stores how many units of a currency one euro buys. The
+  storefront converts catalog prices with it for display, and create-checkout
+  charges Stripe in the buyer's currency with the same rate, rounding each
+  line separately. The rate used is sent in the session metadata and
+  stripe-webhook records it on every purchase:
+
+  - presentment_currency: what the buyer paid in ('EUR' when unconverted).
+  - presentment_amount: what the buyer paid for the line, in that currency's
+    cents. NULL for euro purchases, where it equals amount.
+  - fx_rate: the exchange_rates value at checkout time.
+
+  Rates are maintained by admins (or a service-role job); a deactivated
+  currency falls back to euros at checkout.
+*/
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  currency text PRIMARY KEY,
+  rate_from_eur numeric(12, 6) NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.exchange_rates
+  DROP CONSTRAINT IF EXISTS exchange_rates_shape_check;
+
+ALTER TABLE public.exchange_rates
+  ADD CONSTRAINT exchange_rates_shape_check CHECK (
+    currency ~ '^[A-Z]{3}$'
+    AND rate_from_eur > 0
+    AND (currency <> 'EUR' OR (rate_from_eur = 1 AND is_active))
+  );
+
+COMMENT ON TABLE public.exchange_rates IS
+  'Units of each display currency per euro, used to show catalog prices and charge checkouts in the buyer''s currency.';
+
+INSERT INTO public.exchange_rates (currency, rate_from_eur)
+VALUES
+  ('EUR', 1),
+  ('USD', 1.08),
+  ('GBP', 0.85),
+  ('CHF', 0.95),
+  ('CAD', 1.47)
+ON CONFLICT (currency) DO NOTHING;
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.exchange_rates FROM anon;
+REVOKE ALL ON TABLE public.exchange_rates FROM authenticated;
+GRANT SELECT ON TABLE public.exchange_rates TO anon;
+GRANT SELECT, INSERT, UPDATE ON TABLE public.exchange_rates TO authenticated;
+GRANT ALL ON TABLE public.exchange_rates TO service_role;
+
+DROP POLICY IF EXISTS "Anyone can read exchange rates" ON public.exchange_rates;
+CREATE POLICY "Anyone can read exchange rates"
+ON public.exchange_rates
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can insert exchange rates" ON public.exchange_rates;
+CREATE POLICY "Admins can insert exchange rates"
+ON public.exchange_rates
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can update exchange rates" ON public.exchange_rates;
+CREATE POLICY "Admins can update exchange rates"
+ON public.exchange_rates
+FOR UPDATE
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+ALTER TABLE public.purchases
+  ADD COLUMN IF NOT EXISTS presentment_currency text NOT NULL DEFAULT 'EUR',
+  ADD COLUMN IF NOT EXISTS presentment_amount integer,
+  ADD COLUMN IF NOT EXISTS fx_rate numeric(12, 6) NOT NULL DEFAULT 1;
+
+ALTER TABLE public.purchases
+  DROP CONSTRAINT IF EXISTS purchases_presentment_check;
+
+ALTER TABLE public.purchases
+  ADD CONSTRAINT purchases_presentment_check CHECK (
+    presentment_currency ~ '^[A-Z]{3}$'
+    AND fx_rate > 0
+    AND (presentment_amount IS NULL OR presentment_amount >= 0)
+  );
+
+COMMENT ON COLUMN public.purchases.presentment_currency IS
+  'Currency the buyer was charged in. amount stays in euro cents.';
+COMMENT ON COLUMN public.purchases.presentment_amount IS
+  'Amount charged in presentment_currency cents; NULL when charged in euros.';
+COMMENT ON COLUMN public.purchases.fx_rate IS
+  'exchange_rates.rate_from_eur used at checkout.';
+
+-- Earnings stay in euros; the presentment columns only let producers match
+-- a sale with what the buyer saw on their statement.
+CREATE OR REPLACE VIEW public.producer_revenue_view
+WITH (security_invoker = true) AS
+SELECT
+  p.id,
+  p.created_at,
+  p.product_id,
+  pr.title AS product_title,
+  p.purchase_source,
+  ROUND(COALESCE(p.producer_share_cents_snapshot, 0)::numeric / 100.0, 2) AS amount_earned_eur,
+  COALESCE(p.metadata->>'payout_status', 'pending') AS payout_status,
+  COALESCE(p.metadata->>'payout_mode', 'stripe_connect') AS payout_mode,
+  CASE
+    WHEN p.metadata->>'payout_processed_at' IS NOT NULL
+    THEN (p.metadata->>'payout_processed_at')::timestamptz
+    ELSE NULL
+  END AS payout_processed_at,
+  p.presentment_currency,
+  ROUND(COALESCE(p.presentment_amount, p.amount)::numeric / 100.0, 2) AS presentment_amount,
+  p.fx_rate
+FROM public.purchases p
+JOIN public.products pr ON pr.id = p.product_id
+WHERE pr.producer_id = auth.uid()
+  AND p.status = 'completed'
+ORDER BY p.created_at DESC;
+
+GRANT SELECT ON TABLE public.producer_revenue_view TO authenticated;
+GRANT SELECT ON TABLE public.producer_revenue_view TO service_role;
+
+COMMIT;
@@ -0,0 +1,380 @@
+/*
+  # Invoices
+
+  Buyers could download license contracts but never an invoice, which labels
+  and professional artists need for their accounting.
+
+  - invoices holds one row per invoiced payment, numbered sequentially per
+    seller with no gaps: a marketplace sale is invoiced by its producer
+    (seller_key = producer id), a subscription payment by the platform
+    (seller_key = 'platform'). invoice_sequences keeps each seller's counter.
+  - issue_invoice_for_purchase invoices a completed stripe_checkout purchase.
+    Credit redemptions are not invoiced on their own: the subscription
+    invoice that granted the credits already is.
+  - issue_subscription_invoice invoices a paid Stripe subscription invoice.
+  - Amounts are what the buyer was charged, tax included, in the charged
+    currency; amount_eur_cents keeps the euro amount of marketplace sales.
+  - Seller and buyer names are snapshotted at issue time: a profile edit never
+    rewrites an invoice already issued. api/generate-invoice renders the PDF
+    into the private invoices bucket and sets pdf_path.
+*/
+
+BEGIN;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('invoices', 'invoices', false, 5242880, ARRAY['application/pdf']::text[])
+ON CONFLICT (id) DO UPDATE
+SET name = EXCLUDED.name,
+    public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE TABLE IF NOT EXISTS public.invoice_sequences (
+  seller_key text PRIMARY KEY,
+  last_number integer NOT NULL DEFAULT 0 CHECK (last_number >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.invoice_sequences IS
+  'Last invoice number issued per seller (producer id, or ''platform'').';
+
+ALTER TABLE public.invoice_sequences ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.invoice_sequences FROM anon;
+REVOKE ALL ON TABLE public.invoice_sequences FROM authenticated;
+GRANT ALL ON TABLE public.invoice_sequences TO service_role;
+
+CREATE TABLE IF NOT EXISTS public.invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_key text NOT NULL,
+  sequence_number integer NOT NULL CHECK (sequence_number > 0),
+  invoice_number text NOT NULL,
+  kind text NOT NULL,
+  seller_id uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  buyer_id uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  purchase_id uuid REFERENCES public.purchases(id) ON DELETE SET NULL,
+  stripe_invoice_id text,
+  seller_name text NOT NULL,
+  buyer_name text NOT NULL,
+  buyer_email text,
+  description text NOT NULL,
+  license_name text,
+  payment_source text NOT NULL,
+  currency text NOT NULL,
+  amount_cents integer NOT NULL CHECK (amount_cents >= 0),
+  tax_cents integer NOT NULL DEFAULT 0 CHECK (tax_cents >= 0),
+  fx_rate numeric(12, 6) NOT NULL DEFAULT 1 CHECK (fx_rate > 0),
+  amount_eur_cents integer CHECK (amount_eur_cents >= 0),
+  pdf_path text,
+  pdf_generated_at timestamptz,
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT invoices_invoice_number_key UNIQUE (invoice_number),
+  CONSTRAINT invoices_seller_sequence_key UNIQUE (seller_key, sequence_number),
+  CONSTRAINT invoices_purchase_id_key UNIQUE (purchase_id),
+  CONSTRAINT invoices_stripe_invoice_id_key UNIQUE (stripe_invoice_id)
+);
+
+ALTER TABLE public.invoices
+  DROP CONSTRAINT IF EXISTS invoices_shape_check;
+
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_shape_check CHECK (
+    kind IN ('purchase', 'subscription')
+    AND payment_source IN ('stripe_checkout', 'subscription')
+    AND currency ~ '^[A-Z]{3}$'
+    AND tax_cents <= amount_cents
+  );
+
+CREATE INDEX IF NOT EXISTS idx_invoices_buyer_issued
+  ON public.invoices (buyer_id, issued_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invoices_seller_issued
+  ON public.invoices (seller_id, issued_at DESC);
+
+COMMENT ON TABLE public.invoices IS
+  'Invoices for marketplace sales (issued by the producer) and subscription payments (issued by the platform).';
+COMMENT ON COLUMN public.invoices.amount_cents IS
+  'Total charged, tax included, in currency cents.';
+COMMENT ON COLUMN public.invoices.tax_cents IS
+  'Tax included in amount_cents, as reported by Stripe.';
+COMMENT ON COLUMN public.invoices.amount_eur_cents IS
+  'Euro amount payouts reconcile with; NULL for a subscription charged in another currency.';
+COMMENT ON COLUMN public.invoices.purchase_id IS
+  'Set for kind = purchase; NULL once the purchase row is gone, the invoice itself is kept.';
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.invoices FROM anon;
+REVOKE ALL ON TABLE public.invoices FROM authenticated;
+GRANT SELECT ON TABLE public.invoices TO authenticated;
+GRANT ALL ON TABLE public.invoices TO service_role;
+
+DROP POLICY IF EXISTS "Buyers and sellers can read own invoices" ON public.invoices;
+CREATE POLICY "Buyers and sellers can read own invoices"
+ON public.invoices
+FOR SELECT
+TO authenticated
+USING (buyer_id = auth.uid() OR seller_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can read invoices" ON public.invoices;
+CREATE POLICY "Admins can read invoices"
+ON public.invoices
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+-- -----------------------------------------------------------------------------
+-- Numbering
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.allocate_invoice_number(p_seller_key text)
+RETURNS integer
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  INSERT INTO public.invoice_sequences AS s (seller_key, last_number)
+  VALUES (p_seller_key, 1)
+  ON CONFLICT (seller_key)
+  DO UPDATE SET last_number = s.last_number + 1, updated_at = now()
+  RETURNING last_number;
+$$;
+
+COMMENT ON FUNCTION public.allocate_invoice_number(text) IS
+  'Next invoice number of a seller. The row lock on its counter serializes concurrent issuers.';
+
+REVOKE EXECUTE ON FUNCTION public.allocate_invoice_number(text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.allocate_invoice_number(text) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.allocate_invoice_number(text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.allocate_invoice_number(text) TO service_role;
+
+-- 'BTL-000042' for the platform, 'P1A2B3C4D-000042' for a producer.
+CREATE OR REPLACE FUNCTION public.format_invoice_number(p_seller_key text, p_sequence integer)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT
+    CASE
+      WHEN p_seller_key = 'platform' THEN 'BTL'
+      ELSE 'P' || upper(left(replace(p_seller_key, '-', ''), 8))
+    END
+    || '-' || lpad(p_sequence::text, 6, '0');
+$$;
+
+-- -----------------------------------------------------------------------------
+-- Issuing
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.issue_invoice_for_purchase(
+  p_purchase_id uuid,
+  p_tax_cents integer DEFAULT 0
+)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_purchase public.purchases%ROWTYPE;
+  v_invoice public.invoices%ROWTYPE;
+  v_seller_key text;
+  v_sequence integer;
+  v_amount integer;
+BEGIN
+  -- Locking the purchase makes concurrent callers (webhook, dashboard) wait
+  -- for each other, so a purchase never consumes two numbers.
+  SELECT * INTO v_purchase
+  FROM public.purchases
+  WHERE id = p_purchase_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'purchase_not_found';
+  END IF;
+
+  SELECT * INTO v_invoice
+  FROM public.invoices
+  WHERE purchase_id = p_purchase_id;
+
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+
+  IF v_purchase.status <> 'completed' THEN
+    RAISE EXCEPTION 'purchase_not_completed';
+  END IF;
+
+  IF v_purchase.purchase_source <> 'stripe_checkout' THEN
+    RAISE EXCEPTION 'purchase_not_invoiceable';
+  END IF;
+
+  v_seller_key := v_purchase.producer_id::text;
+  v_amount := COALESCE(v_purchase.presentment_amount, v_purchase.amount);
+  v_sequence := public.allocate_invoice_number(v_seller_key);
+
+  INSERT INTO public.invoices (
+    seller_key,
+    sequence_number,
+    invoice_number,
+    kind,
+    seller_id,
+    buyer_id,
+    purchase_id,
+    seller_name,
+    buyer_name,
+    buyer_email,
+    description,
+    license_name,
+    payment_source,
+    currency,
+    amount_cents,
+    tax_cents,
+    fx_rate,
+    amount_eur_cents,
+    issued_at
+  )
+  SELECT
+    v_seller_key,
+    v_sequence,
+    public.format_invoice_number(v_seller_key, v_sequence),
+    'purchase',
+    v_purchase.producer_id,
+    v_purchase.user_id,
+    v_purchase.id,
+    COALESCE(
+      NULLIF(btrim(seller.full_name), ''),
+      NULLIF(btrim(v_purchase.producer_display_name_snapshot), ''),
+      seller.username,
+      'Producer'
+    ),
+    COALESCE(NULLIF(btrim(buyer.full_name), ''), buyer.username, buyer.email, 'Buyer'),
+    buyer.email,
+    COALESCE(v_purchase.beat_title_snapshot, product.title, 'Beat'),
+    COALESCE(v_purchase.license_name_snapshot, v_purchase.license_type, 'Standard'),
+    'stripe_checkout',
+    upper(v_purchase.presentment_currency),
+    v_amount,
+    LEAST(GREATEST(COALESCE(p_tax_cents, 0), 0), v_amount),
+    v_purchase.fx_rate,
+    v_purchase.amount,
+    COALESCE(v_purchase.completed_at, v_purchase.created_at)
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.user_profiles seller ON seller.id = v_purchase.producer_id
+  LEFT JOIN public.user_profiles buyer ON buyer.id = v_purchase.user_id
+  LEFT JOIN public.products product ON product.id = v_purchase.product_id
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_invoice_for_purchase(uuid, integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.issue_invoice_for_purchase(uuid, integer) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.issue_invoice_for_purchase(uuid, integer) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.issue_invoice_for_purchase(uuid, integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.issue_subscription_invoice(
+  p_stripe_invoice_id text,
+  p_buyer_id uuid,
+  p_description text,
+  p_currency text,
+  p_amount_cents integer,
+  p_tax_cents integer DEFAULT 0,
+  p_issued_at timestamptz DEFAULT now()
+)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_invoice public.invoices%ROWTYPE;
+  v_sequence integer;
+  v_currency text := upper(btrim(p_currency));
+BEGIN
+  IF p_stripe_invoice_id IS NULL OR btrim(p_stripe_invoice_id) = '' THEN
+    RAISE EXCEPTION 'stripe_invoice_id_required';
+  END IF;
+
+  -- Stripe retries deliver the same invoice again: one number per invoice.
+  PERFORM pg_advisory_xact_lock(hashtext('issue_subscription_invoice:' || p_stripe_invoice_id));
+
+  SELECT * INTO v_invoice
+  FROM public.invoices
+  WHERE stripe_invoice_id = p_stripe_invoice_id;
+
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    RAISE EXCEPTION 'invoice_amount_required';
+  END IF;
+
+  v_sequence := public.allocate_invoice_number('platform');
+
+  INSERT INTO public.invoices (
+    seller_key,
+    sequence_number,
+    invoice_number,
+    kind,
+    seller_id,
+    buyer_id,
+    stripe_invoice_id,
+    seller_name,
+    buyer_name,
+    buyer_email,
+    description,
+    payment_source,
+    currency,
+    amount_cents,
+    tax_cents,
+    fx_rate,
+    amount_eur_cents,
+    issued_at
+  )
+  SELECT
+    'platform',
+    v_sequence,
+    public.format_invoice_number('platform', v_sequence),
+    'subscription',
+    NULL,
+    p_buyer_id,
+    p_stripe_invoice_id,
+    'Beatelion',
+    COALESCE(NULLIF(btrim(buyer.full_name), ''), buyer.username, buyer.email, 'Customer'),
+    buyer.email,
+    COALESCE(NULLIF(btrim(p_description), ''), 'Subscription'),
+    'subscription',
+    v_currency,
+    p_amount_cents,
+    LEAST(GREATEST(COALESCE(p_tax_cents, 0), 0), p_amount_cents),
+    1,
+    CASE WHEN v_currency = 'EUR' THEN p_amount_cents END,
+    COALESCE(p_issued_at, now())
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.user_profiles buyer ON buyer.id = p_buyer_id
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_subscription_invoice(text, uuid, text, text, integer, integer, timestamptz) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.issue_subscription_invoice(text, uuid, text, text, integer, integer, timestamptz) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.issue_subscription_invoice(text, uuid, text, text, integer, integer, timestamptz) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.issue_subscription_invoice(text, uuid, text, text, integer, integer, timestamptz) TO service_role;
+
+INSERT INTO public.rpc_rate_limit_rules (rpc_name, scope, allowed_per_minute, is_enabled)
+VALUES
+  ('get_invoice_url_user', 'per_user', 10, true),
+  ('export_purchase_history_user', 'per_user', 3, true)
+ON CONFLICT (rpc_name)
+DO UPDATE SET
+  scope = EXCLUDED.scope,
+  allowed_per_minute = EXCLUDED.allowed_per_minute,
+  is_enabled = EXCLUDED.is_enabled,
+  updated_at = now();
+
+COMMIT;
@@ -0,0 +1,1446 @@
+/*
+  # Bracket tournaments
+
+  Battles are strictly 1v1 and admin campaigns only pair two producers into a
+  single battle. Tournaments chain normal battles into a bracket:
+
+  - format 'single_elimination' or 'double_elimination' (winners bracket,
+    losers bracket and one grand final, no bracket reset).
+  - Admins add entrants (producer + beat) while the tournament is a draft.
+    admin_start_tournament seeds them from user_profiles.elo_rating, pads the
+    field to a power of two with byes and builds every match up front. Each
+    match knows where its winner (and, in double elimination, its loser) goes.
+  - A match whose two slots are known becomes 'ready' and gets a battle. A
+    slot that stays empty (bye, disqualified entrant) advances the other
+    entrant without a battle.
+
+  Round battles are inserted here, the way admin_launch_battle_campaign does
+  it, rather than through rpc_create_battle: that RPC makes the caller
+  producer1, charges their monthly quota, applies the pair cooldown (which
+  would forbid a grand final rematch) and waits for producer2 to accept.
+  Tournament battles go through the same assert_battle_create_validations
+  gate and start 'active' straight away, with voting_ends_at set from the
+  round duration.
+
+  Winners advance in advance_tournament: once a round battle is completed its
+  winner moves on (ties go to the better seed) and the matches this makes
+  ready get their battle. agent_finalize_expired_battles calls it for every
+  running tournament after finalizing expired battles; admins can also run it
+  from the admin page, for instance after finalizing a battle by hand.
+
+  Admin controls: byes (advance an entrant without a battle), disqualifications
+  and per-round durations.
+*/
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.tournaments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  slug text NOT NULL UNIQUE,
+  description text,
+  format text NOT NULL DEFAULT 'single_elimination',
+  status text NOT NULL DEFAULT 'draft',
+  round_duration_hours integer NOT NULL DEFAULT 72,
+  winner_id uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  started_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tournaments
+  DROP CONSTRAINT IF EXISTS tournaments_shape_check;
+
+ALTER TABLE public.tournaments
+  ADD CONSTRAINT tournaments_shape_check CHECK (
+    format IN ('single_elimination', 'double_elimination')
+    AND status IN ('draft', 'running', 'completed', 'cancelled')
+    AND round_duration_hours BETWEEN 1 AND 720
+  );
+
+CREATE INDEX IF NOT EXISTS idx_tournaments_status
+  ON public.tournaments (status, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.tournament_entrants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id uuid NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  producer_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  seed integer,
+  elo_at_seed integer,
+  status text NOT NULL DEFAULT 'registered',
+  disqualified_reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tournament_id, producer_id)
+);
+
+ALTER TABLE public.tournament_entrants
+  DROP CONSTRAINT IF EXISTS tournament_entrants_status_check;
+
+ALTER TABLE public.tournament_entrants
+  ADD CONSTRAINT tournament_entrants_status_check CHECK (
+    status IN ('registered', 'active', 'eliminated', 'disqualified', 'champion')
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tournament_entrants_seed
+  ON public.tournament_entrants (tournament_id, seed)
+  WHERE seed IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.tournament_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id uuid NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  bracket text NOT NULL,
+  round integer NOT NULL,
+  position integer NOT NULL,
+  entrant1_id uuid REFERENCES public.tournament_entrants(id) ON DELETE SET NULL,
+  entrant2_id uuid REFERENCES public.tournament_entrants(id) ON DELETE SET NULL,
+  -- A slot is ready once its source match is decided, even if it stays empty.
+  slot1_ready boolean NOT NULL DEFAULT false,
+  slot2_ready boolean NOT NULL DEFAULT false,
+  winner_to_match_id uuid REFERENCES public.tournament_matches(id) ON DELETE SET NULL,
+  winner_to_slot smallint,
+  loser_to_match_id uuid REFERENCES public.tournament_matches(id) ON DELETE SET NULL,
+  loser_to_slot smallint,
+  battle_id uuid UNIQUE REFERENCES public.battles(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'pending',
+  resolution text,
+  winner_entrant_id uuid REFERENCES public.tournament_entrants(id) ON DELETE SET NULL,
+  loser_entrant_id uuid REFERENCES public.tournament_entrants(id) ON DELETE SET NULL,
+  completed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tournament_id, bracket, round, position)
+);
+
+ALTER TABLE public.tournament_matches
+  DROP CONSTRAINT IF EXISTS tournament_matches_shape_check;
+
+ALTER TABLE public.tournament_matches
+  ADD CONSTRAINT tournament_matches_shape_check CHECK (
+    bracket IN ('winners', 'losers', 'grand_final')
+    AND round >= 1
+    AND position >= 1
+    AND status IN ('pending', 'ready', 'live', 'completed')
+    AND (resolution IS NULL OR resolution IN ('battle', 'tiebreak', 'bye', 'disqualification', 'void'))
+    AND (status = 'completed') = (resolution IS NOT NULL)
+    AND (winner_to_slot IS NULL OR winner_to_slot IN (1, 2))
+    AND (loser_to_slot IS NULL OR loser_to_slot IN (1, 2))
+  );
+
+CREATE INDEX IF NOT EXISTS idx_tournament_matches_tournament_status
+  ON public.tournament_matches (tournament_id, status);
+
+CREATE TABLE IF NOT EXISTS public.tournament_round_durations (
+  tournament_id uuid NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  bracket text NOT NULL,
+  round integer NOT NULL,
+  duration_hours integer NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (tournament_id, bracket, round)
+);
+
+ALTER TABLE public.tournament_round_durations
+  DROP CONSTRAINT IF EXISTS tournament_round_durations_shape_check;
+
+ALTER TABLE public.tournament_round_durations
+  ADD CONSTRAINT tournament_round_durations_shape_check CHECK (
+    bracket IN ('winners', 'losers', 'grand_final')
+    AND round >= 1
+    AND duration_hours BETWEEN 1 AND 720
+  );
+
+COMMENT ON TABLE public.tournaments IS
+  'Single or double elimination brackets whose matches are normal battles.';
+COMMENT ON COLUMN public.tournaments.round_duration_hours IS
+  'Voting duration of a round battle unless tournament_round_durations overrides the round.';
+COMMENT ON COLUMN public.tournament_entrants.seed IS
+  '1 = highest elo_rating when the tournament started.';
+COMMENT ON COLUMN public.tournament_matches.resolution IS
+  'battle (votes), tiebreak (tied battle, better seed advanced), bye, disqualification or void (both slots empty).';
+
+ALTER TABLE public.tournaments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tournament_entrants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tournament_matches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tournament_round_durations ENABLE ROW LEVEL SECURITY;
+
+-- Writes only go through the RPCs below.
+REVOKE ALL ON TABLE public.tournaments FROM anon;
+REVOKE ALL ON TABLE public.tournaments FROM authenticated;
+GRANT SELECT ON TABLE public.tournaments TO anon;
+GRANT SELECT ON TABLE public.tournaments TO authenticated;
+GRANT ALL ON TABLE public.tournaments TO service_role;
+
+REVOKE ALL ON TABLE public.tournament_entrants FROM anon;
+REVOKE ALL ON TABLE public.tournament_entrants FROM authenticated;
+GRANT SELECT ON TABLE public.tournament_entrants TO anon;
+GRANT SELECT ON TABLE public.tournament_entrants TO authenticated;
+GRANT ALL ON TABLE public.tournament_entrants TO service_role;
+
+REVOKE ALL ON TABLE public.tournament_matches FROM anon;
+REVOKE ALL ON TABLE public.tournament_matches FROM authenticated;
+GRANT SELECT ON TABLE public.tournament_matches TO anon;
+GRANT SELECT ON TABLE public.tournament_matches TO authenticated;
+GRANT ALL ON TABLE public.tournament_matches TO service_role;
+
+REVOKE ALL ON TABLE public.tournament_round_durations FROM anon;
+REVOKE ALL ON TABLE public.tournament_round_durations FROM authenticated;
+GRANT SELECT ON TABLE public.tournament_round_durations TO anon;
+GRANT SELECT ON TABLE public.tournament_round_durations TO authenticated;
+GRANT ALL ON TABLE public.tournament_round_durations TO service_role;
+
+DROP POLICY IF EXISTS "Anyone can read published tournaments" ON public.tournaments;
+CREATE POLICY "Anyone can read published tournaments"
+ON public.tournaments
+FOR SELECT
+TO anon, authenticated
+USING (status <> 'draft');
+
+DROP POLICY IF EXISTS "Admins can read tournaments" ON public.tournaments;
+CREATE POLICY "Admins can read tournaments"
+ON public.tournaments
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Anyone can read published tournament entrants" ON public.tournament_entrants;
+CREATE POLICY "Anyone can read published tournament entrants"
+ON public.tournament_entrants
+FOR SELECT
+TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.tournaments t
+    WHERE t.id = tournament_entrants.tournament_id
+      AND t.status <> 'draft'
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can read tournament entrants" ON public.tournament_entrants;
+CREATE POLICY "Admins can read tournament entrants"
+ON public.tournament_entrants
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Anyone can read published tournament matches" ON public.tournament_matches;
+CREATE POLICY "Anyone can read published tournament matches"
+ON public.tournament_matches
+FOR SELECT
+TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.tournaments t
+    WHERE t.id = tournament_matches.tournament_id
+      AND t.status <> 'draft'
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can read tournament matches" ON public.tournament_matches;
+CREATE POLICY "Admins can read tournament matches"
+ON public.tournament_matches
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Anyone can read published tournament round durations" ON public.tournament_round_durations;
+CREATE POLICY "Anyone can read published tournament round durations"
+ON public.tournament_round_durations
+FOR SELECT
+TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.tournaments t
+    WHERE t.id = tournament_round_durations.tournament_id
+      AND t.status <> 'draft'
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can read tournament round durations" ON public.tournament_round_durations;
+CREATE POLICY "Admins can read tournament round durations"
+ON public.tournament_round_durations
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+-- ---------------------------------------------------------------------------
+-- Bracket mechanics (internal)
+-- ---------------------------------------------------------------------------
+-- Standard seeding order: 1 meets the last seed, and seeds 1 and 2 can only
+-- meet in the final. For 8 slots: {1,8,4,5,2,7,3,6}.
+CREATE OR REPLACE FUNCTION public.tournament_seed_order(p_size integer)
+RETURNS integer[]
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_order integer[] := ARRAY[1];
+  v_next integer[];
+  v_seed integer;
+  v_len integer;
+BEGIN
+  WHILE cardinality(v_order) < p_size LOOP
+    v_len := cardinality(v_order) * 2;
+    v_next := ARRAY[]::integer[];
+    FOREACH v_seed IN ARRAY v_order LOOP
+      v_next := v_next || v_seed || (v_len + 1 - v_seed);
+    END LOOP;
+    v_order := v_next;
+  END LOOP;
+
+  RETURN v_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.tournament_round_duration_hours(
+  p_tournament_id uuid,
+  p_bracket text,
+  p_round integer
+)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT d.duration_hours
+      FROM public.tournament_round_durations d
+      WHERE d.tournament_id = p_tournament_id
+        AND d.bracket = p_bracket
+        AND d.round = p_round
+    ),
+    (SELECT t.round_duration_hours FROM public.tournaments t WHERE t.id = p_tournament_id)
+  );
+$$;
+
+-- Decides a match and sends its winner and loser on. A loser with nowhere to
+-- go is eliminated; a winner with nowhere to go wins the tournament.
+CREATE OR REPLACE FUNCTION public.tournament_resolve_match(
+  p_match_id uuid,
+  p_winner_entrant_id uuid,
+  p_loser_entrant_id uuid,
+  p_resolution text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_match public.tournament_matches%ROWTYPE;
+BEGIN
+  UPDATE public.tournament_matches
+  SET status = 'completed',
+      resolution = p_resolution,
+      winner_entrant_id = p_winner_entrant_id,
+      loser_entrant_id = p_loser_entrant_id,
+      completed_at = now(),
+      updated_at = now()
+  WHERE id = p_match_id
+    AND status <> 'completed'
+  RETURNING * INTO v_match;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'tournament_match_already_decided';
+  END IF;
+
+  IF v_match.loser_to_match_id IS NOT NULL THEN
+    PERFORM public.tournament_fill_slot(v_match.loser_to_match_id, v_match.loser_to_slot, p_loser_entrant_id);
+  ELSIF p_loser_entrant_id IS NOT NULL THEN
+    UPDATE public.tournament_entrants
+    SET status = 'eliminated',
+        updated_at = now()
+    WHERE id = p_loser_entrant_id
+      AND status = 'active';
+  END IF;
+
+  IF v_match.winner_to_match_id IS NOT NULL THEN
+    PERFORM public.tournament_fill_slot(v_match.winner_to_match_id, v_match.winner_to_slot, p_winner_entrant_id);
+    RETURN;
+  END IF;
+
+  UPDATE public.tournament_entrants
+  SET status = 'champion',
+      updated_at = now()
+  WHERE id = p_winner_entrant_id;
+
+  UPDATE public.tournaments t
+  SET status = 'completed',
+      winner_id = (SELECT e.producer_id FROM public.tournament_entrants e WHERE e.id = p_winner_entrant_id),
+      completed_at = now(),
+      updated_at = now()
+  WHERE t.id = v_match.tournament_id;
+END;
+$$;
+
+-- Places an entrant (or nothing) in a slot. Once both slots are known the
+-- match is ready, or settles itself when a slot is empty.
+CREATE OR REPLACE FUNCTION public.tournament_fill_slot(
+  p_match_id uuid,
+  p_slot smallint,
+  p_entrant_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_match public.tournament_matches%ROWTYPE;
+  v_entrant1_id uuid;
+  v_entrant2_id uuid;
+BEGIN
+  UPDATE public.tournament_matches
+  SET entrant1_id = CASE WHEN p_slot = 1 THEN p_entrant_id ELSE entrant1_id END,
+      entrant2_id = CASE WHEN p_slot = 2 THEN p_entrant_id ELSE entrant2_id END,
+      slot1_ready = slot1_ready OR p_slot = 1,
+      slot2_ready = slot2_ready OR p_slot = 2,
+      updated_at = now()
+  WHERE id = p_match_id
+  RETURNING * INTO v_match;
+
+  IF NOT (v_match.slot1_ready AND v_match.slot2_ready) OR v_match.status <> 'pending' THEN
+    RETURN;
+  END IF;
+
+  -- Disqualified entrants count as empty slots.
+  SELECT e.id INTO v_entrant1_id
+  FROM public.tournament_entrants e
+  WHERE e.id = v_match.entrant1_id
+    AND e.status <> 'disqualified';
+
+  SELECT e.id INTO v_entrant2_id
+  FROM public.tournament_entrants e
+  WHERE e.id = v_match.entrant2_id
+    AND e.status <> 'disqualified';
+
+  IF v_entrant1_id IS NULL AND v_entrant2_id IS NULL THEN
+    PERFORM public.tournament_resolve_match(p_match_id, NULL, NULL, 'void');
+  ELSIF v_entrant2_id IS NULL THEN
+    PERFORM public.tournament_resolve_match(p_match_id, v_entrant1_id, NULL, 'bye');
+  ELSIF v_entrant1_id IS NULL THEN
+    PERFORM public.tournament_resolve_match(p_match_id, v_entrant2_id, NULL, 'bye');
+  ELSE
+    UPDATE public.tournament_matches
+    SET status = 'ready',
+        updated_at = now()
+    WHERE id = p_match_id;
+  END IF;
+END;
+$$;
+
+-- Creates the battle of a ready match.
+CREATE OR REPLACE FUNCTION public.open_tournament_match_battle(p_match_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_match public.tournament_matches%ROWTYPE;
+  v_tournament public.tournaments%ROWTYPE;
+  v_entrant1 public.tournament_entrants%ROWTYPE;
+  v_entrant2 public.tournament_entrants%ROWTYPE;
+  v_round_label text;
+  v_slug_base text;
+  v_slug text;
+  v_counter integer := 0;
+  v_genre_id uuid;
+  v_battle_id uuid;
+BEGIN
+  SELECT * INTO v_match
+  FROM public.tournament_matches
+  WHERE id = p_match_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_match.status <> 'ready' THEN
+    RAISE EXCEPTION 'tournament_match_not_ready';
+  END IF;
+
+  SELECT * INTO v_tournament FROM public.tournaments WHERE id = v_match.tournament_id;
+  SELECT * INTO v_entrant1 FROM public.tournament_entrants WHERE id = v_match.entrant1_id;
+  SELECT * INTO v_entrant2 FROM public.tournament_entrants WHERE id = v_match.entrant2_id;
+
+  -- Brackets pair producers across the whole field: no elo gap limit.
+  PERFORM public.assert_battle_create_validations(
+    v_entrant1.producer_id,
+    v_entrant2.producer_id,
+    v_entrant1.product_id,
+    v_entrant2.product_id,
+    true,
+    100000
+  );
+
+  v_round_label := CASE
+    WHEN v_match.bracket = 'grand_final' THEN 'Grand final'
+    WHEN v_match.bracket = 'losers' THEN 'Losers round ' || v_match.round
+    WHEN v_match.winner_to_match_id IS NULL THEN 'Final'
+    ELSE 'Round ' || v_match.round
+  END;
+
+  v_slug_base := v_tournament.slug || '-' || CASE v_match.bracket
+    WHEN 'winners' THEN 'r' || v_match.round || '-' || v_match.position
+    WHEN 'losers' THEN 'lr' || v_match.round || '-' || v_match.position
+    ELSE 'grand-final'
+  END;
+
+  v_slug := v_slug_base;
+  LOOP
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.battles b WHERE b.slug = v_slug);
+    v_counter := v_counter + 1;
+    v_slug := v_slug_base || '-' || v_counter::text;
+    IF v_counter > 1000 THEN
+      RAISE EXCEPTION 'unable_to_generate_battle_slug';
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(p1.genre_id, p2.genre_id)
+  INTO v_genre_id
+  FROM (SELECT 1) seed
+  LEFT JOIN public.products p1 ON p1.id = v_entrant1.product_id
+  LEFT JOIN public.products p2 ON p2.id = v_entrant2.product_id;
+
+  INSERT INTO public.battles (
+    title,
+    slug,
+    description,
+    producer1_id,
+    producer2_id,
+    product1_id,
+    product2_id,
+    genre_id,
+    status,
+    accepted_at,
+    admin_validated_at,
+    starts_at,
+    voting_ends_at,
+    winner_id,
+    votes_producer1,
+    votes_producer2,
+    battle_type
+  )
+  VALUES (
+    v_tournament.title || ' - ' || v_round_label,
+    v_slug,
+    v_tournament.description,
+    v_entrant1.producer_id,
+    v_entrant2.producer_id,
+    v_entrant1.product_id,
+    v_entrant2.product_id,
+    v_genre_id,
+    'active',
+    now(),
+    now(),
+    now(),
+    now() + make_interval(hours => public.tournament_round_duration_hours(v_match.tournament_id, v_match.bracket, v_match.round)),
+    NULL,
+    0,
+    0,
+    'admin'
+  )
+  RETURNING id INTO v_battle_id;
+
+  UPDATE public.tournament_matches
+  SET battle_id = v_battle_id,
+      status = 'live',
+      updated_at = now()
+  WHERE id = p_match_id;
+
+  RETURN v_battle_id;
+END;
+$$;
+
+-- Moves winners of completed round battles on, then opens a battle for every
+-- match that became ready. A match whose battle cannot be created (beat
+-- unpublished, producer deactivated) stays ready and is logged; the admin can
+-- award a bye or disqualify, and the next run retries.
+CREATE OR REPLACE FUNCTION public.advance_tournament(p_tournament_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_tournament public.tournaments%ROWTYPE;
+  v_row record;
+  v_winner_entrant_id uuid;
+  v_loser_entrant_id uuid;
+  v_opened integer := 0;
+BEGIN
+  SELECT * INTO v_tournament
+  FROM public.tournaments
+  WHERE id = p_tournament_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'tournament_not_found';
+  END IF;
+
+  IF v_tournament.status <> 'running' THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_row IN
+    SELECT
+      m.id,
+      m.entrant1_id,
+      m.entrant2_id,
+      b.winner_id,
+      e1.producer_id AS producer1_id,
+      e2.producer_id AS producer2_id,
+      e1.seed AS seed1,
+      e2.seed AS seed2
+    FROM public.tournament_matches m
+    JOIN public.battles b ON b.id = m.battle_id
+    JOIN public.tournament_entrants e1 ON e1.id = m.entrant1_id
+    JOIN public.tournament_entrants e2 ON e2.id = m.entrant2_id
+    WHERE m.tournament_id = p_tournament_id
+      AND m.status = 'live'
+      AND b.status = 'completed'
+    ORDER BY m.round, m.bracket, m.position
+  LOOP
+    IF v_row.winner_id = v_row.producer1_id
+       OR (v_row.winner_id IS NULL AND v_row.seed1 < v_row.seed2) THEN
+      v_winner_entrant_id := v_row.entrant1_id;
+      v_loser_entrant_id := v_row.entrant2_id;
+    ELSE
+      v_winner_entrant_id := v_row.entrant2_id;
+      v_loser_entrant_id := v_row.entrant1_id;
+    END IF;
+
+    PERFORM public.tournament_resolve_match(
+      v_row.id,
+      v_winner_entrant_id,
+      v_loser_entrant_id,
+      CASE WHEN v_row.winner_id IS NULL THEN 'tiebreak' ELSE 'battle' END
+    );
+  END LOOP;
+
+  FOR v_row IN
+    SELECT m.id
+    FROM public.tournament_matches m
+    WHERE m.tournament_id = p_tournament_id
+      AND m.status = 'ready'
+    ORDER BY m.round, m.bracket, m.position
+  LOOP
+    BEGIN
+      PERFORM public.open_tournament_match_battle(v_row.id);
+      v_opened := v_opened + 1;
+    EXCEPTION
+      WHEN OTHERS THEN
+        PERFORM public.log_admin_action_audit(
+          p_admin_user_id => auth.uid(),
+          p_action_type => 'open_tournament_match_battle',
+          p_entity_type => 'tournament_match',
+          p_entity_id => v_row.id,
+          p_source => 'advance_tournament',
+          p_context => jsonb_build_object('tournament_id', p_tournament_id),
+          p_extra_details => '{}'::jsonb,
+          p_success => false,
+          p_error => SQLERRM
+        );
+    END;
+  END LOOP;
+
+  RETURN v_opened;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.advance_running_tournaments()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_tournament_id uuid;
+  v_opened integer := 0;
+BEGIN
+  FOR v_tournament_id IN
+    SELECT t.id
+    FROM public.tournaments t
+    WHERE t.status = 'running'
+    ORDER BY t.started_at
+  LOOP
+    v_opened := v_opened + public.advance_tournament(v_tournament_id);
+  END LOOP;
+
+  RETURN v_opened;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.tournament_seed_order(integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.tournament_seed_order(integer) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.tournament_seed_order(integer) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.tournament_seed_order(integer) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.tournament_round_duration_hours(uuid, text, integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.tournament_round_duration_hours(uuid, text, integer) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.tournament_round_duration_hours(uuid, text, integer) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.tournament_round_duration_hours(uuid, text, integer) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.tournament_resolve_match(uuid, uuid, uuid, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.tournament_resolve_match(uuid, uuid, uuid, text) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.tournament_resolve_match(uuid, uuid, uuid, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.tournament_resolve_match(uuid, uuid, uuid, text) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.tournament_fill_slot(uuid, smallint, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.tournament_fill_slot(uuid, smallint, uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.tournament_fill_slot(uuid, smallint, uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.tournament_fill_slot(uuid, smallint, uuid) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.open_tournament_match_battle(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.open_tournament_match_battle(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.open_tournament_match_battle(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.open_tournament_match_battle(uuid) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.advance_tournament(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.advance_tournament(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.advance_tournament(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.advance_tournament(uuid) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.advance_running_tournaments() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.advance_running_tournaments() FROM anon;
+REVOKE EXECUTE ON FUNCTION public.advance_running_tournaments() FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.advance_running_tournaments() TO service_role;
+
+-- ---------------------------------------------------------------------------
+-- Admin RPCs
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.admin_create_tournament(
+  p_title text,
+  p_description text DEFAULT NULL,
+  p_format text DEFAULT 'single_elimination',
+  p_round_duration_hours integer DEFAULT 72
+)
+RETURNS public.tournaments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_title text := NULLIF(btrim(COALESCE(p_title, '')), '');
+  v_slug_base text;
+  v_slug text;
+  v_counter integer := 0;
+  v_tournament public.tournaments%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin(v_actor) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  IF v_title IS NULL THEN
+    RAISE EXCEPTION 'title_required';
+  END IF;
+
+  IF p_format NOT IN ('single_elimination', 'double_elimination') THEN
+    RAISE EXCEPTION 'invalid_tournament_format';
+  END IF;
+
+  IF p_round_duration_hours IS NULL OR p_round_duration_hours NOT BETWEEN 1 AND 720 THEN
+    RAISE EXCEPTION 'invalid_round_duration';
+  END IF;
+
+  v_slug_base := lower(regexp_replace(v_title, '[^a-zA-Z0-9]+', '-', 'g'));
+  v_slug_base := regexp_replace(v_slug_base, '(^-+|-+$)', '', 'g');
+
+  IF v_slug_base IS NULL OR v_slug_base = '' THEN
+    v_slug_base := 'tournament';
+  END IF;
+
+  v_slug := v_slug_base;
+  LOOP
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.tournaments t WHERE t.slug = v_slug);
+    v_counter := v_counter + 1;
+    v_slug := v_slug_base || '-' || v_counter::text;
+    IF v_counter > 1000 THEN
+      RAISE EXCEPTION 'unable_to_generate_tournament_slug';
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.tournaments (title, slug, description, format, round_duration_hours, created_by)
+  VALUES (
+    v_title,
+    v_slug,
+    NULLIF(btrim(COALESCE(p_description, '')), ''),
+    p_format,
+    p_round_duration_hours,
+    v_actor
+  )
+  RETURNING * INTO v_tournament;
+
+  RETURN v_tournament;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_add_tournament_entrant(
+  p_tournament_id uuid,
+  p_producer_id uuid,
+  p_product_id uuid
+)
+RETURNS public.tournament_entrants
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_status text;
+  v_entrant public.tournament_entrants%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  SELECT status INTO v_status
+  FROM public.tournaments
+  WHERE id = p_tournament_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'tournament_not_found';
+  END IF;
+
+  IF v_status <> 'draft' THEN
+    RAISE EXCEPTION 'tournament_already_started';
+  END IF;
+
+  IF NOT public.is_battle_product_eligible(p_product_id, p_producer_id) THEN
+    RAISE EXCEPTION 'tournament_product_invalid';
+  END IF;
+
+  INSERT INTO public.tournament_entrants (tournament_id, producer_id, product_id)
+  VALUES (p_tournament_id, p_producer_id, p_product_id)
+  ON CONFLICT (tournament_id, producer_id) DO UPDATE
+  SET product_id = EXCLUDED.product_id,
+      updated_at = now()
+  RETURNING * INTO v_entrant;
+
+  RETURN v_entrant;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_remove_tournament_entrant(p_entrant_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  DELETE FROM public.tournament_entrants e
+  USING public.tournaments t
+  WHERE e.id = p_entrant_id
+    AND t.id = e.tournament_id
+    AND t.status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'tournament_already_started';
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Seeds the entrants from elo_rating and builds the whole bracket.
+CREATE OR REPLACE FUNCTION public.admin_start_tournament(p_tournament_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_tournament public.tournaments%ROWTYPE;
+  v_count integer;
+  v_size integer := 1;
+  v_rounds integer := 0;
+  v_losers_rounds integer := 0;
+  v_order integer[];
+  v_round integer;
+  v_position integer;
+  v_match_id uuid;
+  v_entrant1_id uuid;
+  v_entrant2_id uuid;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  SELECT * INTO v_tournament
+  FROM public.tournaments
+  WHERE id = p_tournament_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'tournament_not_found';
+  END IF;
+
+  IF v_tournament.status <> 'draft' THEN
+    RAISE EXCEPTION 'tournament_already_started';
+  END IF;
+
+  SELECT count(*) INTO v_count
+  FROM public.tournament_entrants
+  WHERE tournament_id = p_tournament_id;
+
+  IF v_count < CASE WHEN v_tournament.format = 'double_elimination' THEN 3 ELSE 2 END THEN
+    RAISE EXCEPTION 'tournament_not_enough_entrants';
+  END IF;
+
+  WITH ranked AS (
+    SELECT
+      e.id,
+      COALESCE(up.elo_rating, 1200) AS elo,
+      row_number() OVER (ORDER BY COALESCE(up.elo_rating, 1200) DESC, e.created_at, e.id) AS seed
+    FROM public.tournament_entrants e
+    LEFT JOIN public.user_profiles up ON up.id = e.producer_id
+    WHERE e.tournament_id = p_tournament_id
+  )
+  UPDATE public.tournament_entrants e
+  SET seed = ranked.seed,
+      elo_at_seed = ranked.elo,
+      status = 'active',
+      updated_at = now()
+  FROM ranked
+  WHERE e.id = ranked.id;
+
+  WHILE v_size < v_count LOOP
+    v_size := v_size * 2;
+    v_rounds := v_rounds + 1;
+  END LOOP;
+
+  FOR v_round IN 1..v_rounds LOOP
+    FOR v_position IN 1..(v_size / power(2, v_round)::integer) LOOP
+      INSERT INTO public.tournament_matches (tournament_id, bracket, round, position)
+      VALUES (p_tournament_id, 'winners', v_round, v_position);
+    END LOOP;
+  END LOOP;
+
+  UPDATE public.tournament_matches m
+  SET winner_to_match_id = n.id,
+      winner_to_slot = CASE WHEN m.position % 2 = 1 THEN 1 ELSE 2 END
+  FROM public.tournament_matches n
+  WHERE m.tournament_id = p_tournament_id
+    AND n.tournament_id = p_tournament_id
+    AND m.bracket = 'winners'
+    AND n.bracket = 'winners'
+    AND n.round = m.round + 1
+    AND n.position = (m.position + 1) / 2;
+
+  IF v_tournament.format = 'double_elimination' THEN
+    -- Losers round 2r-1 pairs the survivors of the previous losers round,
+    -- round 2r takes the losers of winners round r+1.
+    v_losers_rounds := 2 * (v_rounds - 1);
+
+    FOR v_round IN 1..v_losers_rounds LOOP
+      FOR v_position IN 1..(v_size / power(2, ceil(v_round / 2.0) + 1)::integer) LOOP
+        INSERT INTO public.tournament_matches (tournament_id, bracket, round, position)
+        VALUES (p_tournament_id, 'losers', v_round, v_position);
+      END LOOP;
+    END LOOP;
+
+    INSERT INTO public.tournament_matches (tournament_id, bracket, round, position)
+    VALUES (p_tournament_id, 'grand_final', 1, 1);
+
+    UPDATE public.tournament_matches m
+    SET winner_to_match_id = n.id,
+        winner_to_slot = 1
+    FROM public.tournament_matches n
+    WHERE m.tournament_id = p_tournament_id
+      AND n.tournament_id = p_tournament_id
+      AND m.bracket = 'winners'
+      AND m.round = v_rounds
+      AND n.bracket = 'grand_final';
+
+    UPDATE public.tournament_matches m
+    SET loser_to_match_id = n.id,
+        loser_to_slot = CASE
+          WHEN m.round > 1 THEN 2
+          WHEN m.position % 2 = 1 THEN 1
+          ELSE 2
+        END
+    FROM public.tournament_matches n
+    WHERE m.tournament_id = p_tournament_id
+      AND n.tournament_id = p_tournament_id
+      AND m.bracket = 'winners'
+      AND n.bracket = 'losers'
+      AND (
+        (m.round = 1 AND n.round = 1 AND n.position = (m.position + 1) / 2)
+        OR (m.round > 1 AND n.round = 2 * (m.round - 1) AND n.position = m.position)
+      );
+
+    UPDATE public.tournament_matches m
+    SET winner_to_match_id = n.id,
+        winner_to_slot = CASE
+          WHEN m.round % 2 = 1 THEN 1
+          WHEN m.position % 2 = 1 THEN 1
+          ELSE 2
+        END
+    FROM public.tournament_matches n
+    WHERE m.tournament_id = p_tournament_id
+      AND n.tournament_id = p_tournament_id
+      AND m.bracket = 'losers'
+      AND n.bracket = 'losers'
+      AND n.round = m.round + 1
+      AND (
+        (m.round % 2 = 1 AND n.position = m.position)
+        OR (m.round % 2 = 0 AND n.position = (m.position + 1) / 2)
+      );
+
+    UPDATE public.tournament_matches m
+    SET winner_to_match_id = n.id,
+        winner_to_slot = 2
+    FROM public.tournament_matches n
+    WHERE m.tournament_id = p_tournament_id
+      AND n.tournament_id = p_tournament_id
+      AND m.bracket = 'losers'
+      AND m.round = v_losers_rounds
+      AND n.bracket = 'grand_final';
+  END IF;
+
+  UPDATE public.tournaments
+  SET status = 'running',
+      started_at = now(),
+      updated_at = now()
+  WHERE id = p_tournament_id;
+
+  -- Seeds beyond the field are byes: the filled slot advances on its own.
+  v_order := public.tournament_seed_order(v_size);
+
+  FOR v_position IN 1..(v_size / 2) LOOP
+    SELECT id INTO v_match_id
+    FROM public.tournament_matches
+    WHERE tournament_id = p_tournament_id
+      AND bracket = 'winners'
+      AND round = 1
+      AND position = v_position;
+
+    SELECT id INTO v_entrant1_id
+    FROM public.tournament_entrants
+    WHERE tournament_id = p_tournament_id
+      AND seed = v_order[2 * v_position - 1];
+
+    SELECT id INTO v_entrant2_id
+    FROM public.tournament_entrants
+    WHERE tournament_id = p_tournament_id
+      AND seed = v_order[2 * v_position];
+
+    PERFORM public.tournament_fill_slot(v_match_id, 1::smallint, v_entrant1_id);
+    PERFORM public.tournament_fill_slot(v_match_id, 2::smallint, v_entrant2_id);
+  END LOOP;
+
+  RETURN public.advance_tournament(p_tournament_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_advance_tournament(p_tournament_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  RETURN public.advance_tournament(p_tournament_id);
+END;
+$$;
+
+-- Advances p_entrant_id without a battle (opponent no-show, technical issue).
+-- The opponent takes the loss, so in double elimination they drop to the
+-- losers bracket. An open battle is cancelled.
+CREATE OR REPLACE FUNCTION public.admin_award_tournament_bye(
+  p_match_id uuid,
+  p_entrant_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_match public.tournament_matches%ROWTYPE;
+  v_battle_status text;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  PERFORM 1
+  FROM public.tournaments t
+  JOIN public.tournament_matches m ON m.tournament_id = t.id
+  WHERE m.id = p_match_id
+  FOR UPDATE OF t;
+
+  SELECT * INTO v_match
+  FROM public.tournament_matches
+  WHERE id = p_match_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'tournament_match_not_found';
+  END IF;
+
+  IF v_match.status NOT IN ('ready', 'live') THEN
+    RAISE EXCEPTION 'tournament_match_not_open';
+  END IF;
+
+  IF p_entrant_id IS NULL OR p_entrant_id NOT IN (v_match.entrant1_id, v_match.entrant2_id) THEN
+    RAISE EXCEPTION 'tournament_entrant_not_in_match';
+  END IF;
+
+  IF v_match.battle_id IS NOT NULL THEN
+    SELECT status::text INTO v_battle_status FROM public.battles WHERE id = v_match.battle_id;
+
+    IF v_battle_status = 'completed' THEN
+      RAISE EXCEPTION 'tournament_match_already_decided';
+    END IF;
+
+    IF v_battle_status IS DISTINCT FROM 'cancelled' THEN
+      PERFORM public.admin_cancel_battle(v_match.battle_id);
+    END IF;
+  END IF;
+
+  PERFORM public.tournament_resolve_match(
+    p_match_id,
+    p_entrant_id,
+    CASE WHEN p_entrant_id = v_match.entrant1_id THEN v_match.entrant2_id ELSE v_match.entrant1_id END,
+    'bye'
+  );
+
+  PERFORM public.advance_tournament(v_match.tournament_id);
+
+  RETURN true;
+END;
+$$;
+
+-- Removes an entrant from the tournament. Their open match goes to the
+-- opponent; matches they were waiting for treat their slot as empty.
+CREATE OR REPLACE FUNCTION public.admin_disqualify_tournament_entrant(
+  p_entrant_id uuid,
+  p_reason text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_entrant public.tournament_entrants%ROWTYPE;
+  v_tournament_status text;
+  v_match public.tournament_matches%ROWTYPE;
+  v_battle_status text;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  SELECT * INTO v_entrant
+  FROM public.tournament_entrants
+  WHERE id = p_entrant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'tournament_entrant_not_found';
+  END IF;
+
+  SELECT status INTO v_tournament_status
+  FROM public.tournaments
+  WHERE id = v_entrant.tournament_id
+  FOR UPDATE;
+
+  IF v_tournament_status <> 'running' THEN
+    RAISE EXCEPTION 'tournament_not_running';
+  END IF;
+
+  IF v_entrant.status <> 'active' THEN
+    RAISE EXCEPTION 'tournament_entrant_not_active';
+  END IF;
+
+  UPDATE public.tournament_entrants
+  SET status = 'disqualified',
+      disqualified_reason = NULLIF(btrim(COALESCE(p_reason, '')), ''),
+      updated_at = now()
+  WHERE id = p_entrant_id;
+
+  SELECT * INTO v_match
+  FROM public.tournament_matches
+  WHERE tournament_id = v_entrant.tournament_id
+    AND status IN ('ready', 'live')
+    AND p_entrant_id IN (entrant1_id, entrant2_id)
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF v_match.battle_id IS NOT NULL THEN
+      SELECT status::text INTO v_battle_status FROM public.battles WHERE id = v_match.battle_id;
+      IF v_battle_status NOT IN ('completed', 'cancelled') THEN
+        PERFORM public.admin_cancel_battle(v_match.battle_id);
+      END IF;
+    END IF;
+
+    -- No loser: a disqualified entrant does not drop to the losers bracket.
+    PERFORM public.tournament_resolve_match(
+      v_match.id,
+      CASE WHEN v_match.entrant1_id = p_entrant_id THEN v_match.entrant2_id ELSE v_match.entrant1_id END,
+      NULL,
+      'disqualification'
+    );
+  END IF;
+
+  PERFORM public.advance_tournament(v_entrant.tournament_id);
+
+  RETURN true;
+END;
+$$;
+
+-- Sets the voting duration of one round. Battles already open in that round
+-- are moved to the new end when it is still in the future.
+CREATE OR REPLACE FUNCTION public.admin_set_tournament_round_duration(
+  p_tournament_id uuid,
+  p_bracket text,
+  p_round integer,
+  p_duration_hours integer
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_updated integer := 0;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  IF p_duration_hours IS NULL OR p_duration_hours NOT BETWEEN 1 AND 720 THEN
+    RAISE EXCEPTION 'invalid_round_duration';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.tournaments t
+    WHERE t.id = p_tournament_id
+      AND t.status IN ('draft', 'running')
+  ) THEN
+    RAISE EXCEPTION 'tournament_not_found';
+  END IF;
+
+  INSERT INTO public.tournament_round_durations (tournament_id, bracket, round, duration_hours)
+  VALUES (p_tournament_id, p_bracket, p_round, p_duration_hours)
+  ON CONFLICT (tournament_id, bracket, round) DO UPDATE
+  SET duration_hours = EXCLUDED.duration_hours,
+      updated_at = now();
+
+  UPDATE public.battles b
+  SET voting_ends_at = b.starts_at + make_interval(hours => p_duration_hours),
+      updated_at = now()
+  FROM public.tournament_matches m
+  WHERE m.battle_id = b.id
+    AND m.tournament_id = p_tournament_id
+    AND m.bracket = p_bracket
+    AND m.round = p_round
+    AND m.status = 'live'
+    AND b.status = 'active'
+    AND b.starts_at + make_interval(hours => p_duration_hours) > now();
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_create_tournament(text, text, text, integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_create_tournament(text, text, text, integer) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_create_tournament(text, text, text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_create_tournament(text, text, text, integer) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.admin_add_tournament_entrant(uuid, uuid, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_add_tournament_entrant(uuid, uuid, uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_add_tournament_entrant(uuid, uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_add_tournament_entrant(uuid, uuid, uuid) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.admin_remove_tournament_entrant(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_remove_tournament_entrant(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_remove_tournament_entrant(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_remove_tournament_entrant(uuid) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.admin_start_tournament(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_start_tournament(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_start_tournament(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_start_tournament(uuid) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.admin_advance_tournament(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_advance_tournament(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_advance_tournament(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_advance_tournament(uuid) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.admin_award_tournament_bye(uuid, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_award_tournament_bye(uuid, uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_award_tournament_bye(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_award_tournament_bye(uuid, uuid) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.admin_disqualify_tournament_entrant(uuid, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_disqualify_tournament_entrant(uuid, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_disqualify_tournament_entrant(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_disqualify_tournament_entrant(uuid, text) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.admin_set_tournament_round_duration(uuid, text, integer, integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_set_tournament_round_duration(uuid, text, integer, integer) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_set_tournament_round_duration(uuid, text, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_tournament_round_duration(uuid, text, integer, integer) TO service_role;
+
+-- ---------------------------------------------------------------------------
+-- agent_finalize_expired_battles: advance tournaments after finalizing
+-- ---------------------------------------------------------------------------
+-- Same body as migration 229, plus the advance_running_tournaments() call at
+-- the end. A tournament failure must not undo the battle finalization.
+CREATE OR REPLACE FUNCTION public.agent_finalize_expired_battles(p_limit integer DEFAULT 100)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor          uuid   := auth.uid();
+  v_jwt_role       text   := current_setting('request.jwt.claim.role', true);
+  v_row            record;
+  v_limit          integer := GREATEST(1, LEAST(COALESCE(p_limit, 100), 500));
+  v_count          integer := 0;
+  v_candidate_ids  uuid[]  := ARRAY[]::uuid[];
+  v_candidate_id   uuid;
+  v_status         public.battle_status;
+  v_winner_id      uuid;
+  v_finalize_count integer := 0;
+BEGIN
+  IF NOT (
+    v_jwt_role = 'service_role'
+    OR public.is_admin(v_actor)
+  ) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  -- Identifier les candidats (active ET voting, expirés)
+  FOR v_row IN
+    SELECT b.id, b.status, b.voting_ends_at
+    FROM public.battles b
+    WHERE b.status IN ('active', 'voting')
+      AND b.voting_ends_at IS NOT NULL
+      AND b.voting_ends_at <= now()
+    ORDER BY b.voting_ends_at ASC
+    LIMIT v_limit
+  LOOP
+    v_candidate_ids := array_append(v_candidate_ids, v_row.id);
+  END LOOP;
+
+  -- Appeler finalize_expired_battles (maintenant corrigé pour active + voting)
+  BEGIN
+    v_finalize_count := public.finalize_expired_battles(v_limit);
+  EXCEPTION
+    WHEN OTHERS THEN
+      FOREACH v_candidate_id IN ARRAY v_candidate_ids
+      LOOP
+        INSERT INTO public.ai_admin_actions (
+          action_type, entity_type, entity_id,
+          ai_decision, confidence_score, reason,
+          status, human_override, reversible,
+          executed_at, executed_by, error
+        ) VALUES (
+          'battle_finalize', 'battle', v_candidate_id,
+          jsonb_build_object(
+            'model', 'rule-based',
+            'source', 'agent_finalize_expired_battles',
+            'battle_id', v_candidate_id
+          ),
+          1,
+          'Battle finalization failed in finalize_expired_battles wrapper.',
+          'failed', false, true,
+          now(), NULL, SQLERRM
+        );
+      END LOOP;
+      RAISE;
+  END;
+
+  -- Logger le résultat pour chaque candidat
+  FOREACH v_candidate_id IN ARRAY v_candidate_ids
+  LOOP
+    SELECT b.status, b.winner_id
+    INTO v_status, v_winner_id
+    FROM public.battles b
+    WHERE b.id = v_candidate_id;
+
+    IF v_status = 'completed' THEN
+      INSERT INTO public.ai_admin_actions (
+        action_type, entity_type, entity_id,
+        ai_decision, confidence_score, reason,
+        status, human_override, reversible,
+        executed_at, executed_by, error
+      ) VALUES (
+        'battle_finalize', 'battle', v_candidate_id,
+        jsonb_build_object(
+          'model', 'rule-based',
+          'source', 'agent_finalize_expired_battles',
+          'battle_id', v_candidate_id,
+          'winner_id', v_winner_id,
+          'finalize_expired_battles_count', v_finalize_count
+        ),
+        1,
+        'Battle auto-finalized by finalize_expired_battles().',
+        'executed', false, true,
+        now(), NULL, NULL
+      );
+      v_count := v_count + 1;
+    ELSE
+      -- Battle non finalisée (état inattendu — log sans marquer failed)
+      INSERT INTO public.ai_admin_actions (
+        action_type, entity_type, entity_id,
+        ai_decision, confidence_score, reason,
+        status, human_override, reversible,
+        executed_at, executed_by, error
+      ) VALUES (
+        'battle_finalize', 'battle', v_candidate_id,
+        jsonb_build_object(
+          'model', 'rule-based',
+          'source', 'agent_finalize_expired_battles',
+          'battle_id', v_candidate_id,
+          'current_status', v_status,
+          'finalize_expired_battles_count', v_finalize_count
+        ),
+        1,
+        'Battle not in completed status after finalize call — may have been recently extended or already processed.',
+        'failed', false, true,
+        now(), NULL,
+        'battle_not_completed_after_finalize_call'
+      );
+    END IF;
+  END LOOP;
+
+  BEGIN
+    PERFORM public.advance_running_tournaments();
+  EXCEPTION
+    WHEN OTHERS THEN
+      RAISE WARNING 'advance_running_tournaments failed: %', SQLERRM;
+  END;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.agent_finalize_expired_battles(integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.agent_finalize_expired_battles(integer) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.agent_finalize_expired_battles(integer) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.agent_finalize_expired_battles(integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.agent_finalize_expired_battles(integer) TO service_role;
+
+COMMIT;
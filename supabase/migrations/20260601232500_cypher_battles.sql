@@ -0,0 +1,1441 @@
+/*
+  # Multi-producer cypher battles
+
+  Community "sample flip" events gather more than two producers on the same
+  brief. Until now the only way to run them was a pile of independent 1v1
+  battles, which splits the audience and produces no single result.
+
+  This migration adds a `cypher` battle format next to the historical `duel`:
+  - 3 to 8 entrants per battle, stored in `battle_entrants`. The first entrant
+    also fills `producer1_id`/`product1_id` because both columns are NOT NULL
+    and many existing readers key on them; `producer2_id` stays NULL, so the
+    1v1-only side effects (Elo update, invitation and status notifications,
+    quality snapshots) skip cypher battles.
+  - Ranked ballots: each voter ranks their top 3 entrants. Ballots are scored
+    3/2/1 points; first-place votes break ties on points. Rankings are kept in
+    `battle_vote_rankings`, while `battle_votes.voted_for_producer_id` keeps the
+    first choice so the one-vote-per-user, cooldown and fraud checks still apply.
+  - `record_battle_vote` and `rpc_vote_with_feedback` accept an optional
+    `p_ranking uuid[]` (producer ids, best first). Duel battles ignore it.
+    Feedback criteria describe the first choice.
+  - `private.finalize_battle` ranks cypher entrants and sets `winner_id` to the
+    sole first place (NULL on a tie), like duels.
+  - `get_battle_feedback_payload` returns an `entrants` array with per-entrant
+    votes, points, final rank and criterion scores, for both formats.
+  - Admins create cypher battles with `admin_create_cypher_battle`; they open
+    directly in `active` status, like official campaign battles.
+*/
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Schema
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.battles
+  ADD COLUMN IF NOT EXISTS battle_format text NOT NULL DEFAULT 'duel';
+
+ALTER TABLE public.battles
+  DROP CONSTRAINT IF EXISTS battles_battle_format_check;
+
+ALTER TABLE public.battles
+  ADD CONSTRAINT battles_battle_format_check
+  CHECK (battle_format IN ('duel', 'cypher'));
+
+CREATE TABLE IF NOT EXISTS public.battle_entrants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  battle_id uuid NOT NULL REFERENCES public.battles(id) ON DELETE CASCADE,
+  producer_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  position smallint NOT NULL CHECK (position BETWEEN 1 AND 8),
+  points integer NOT NULL DEFAULT 0 CHECK (points >= 0),
+  first_place_votes integer NOT NULL DEFAULT 0 CHECK (first_place_votes >= 0),
+  final_rank smallint CHECK (final_rank IS NULL OR final_rank BETWEEN 1 AND 8),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT battle_entrants_battle_producer_key UNIQUE (battle_id, producer_id),
+  CONSTRAINT battle_entrants_battle_position_key UNIQUE (battle_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_battle_entrants_producer_id
+  ON public.battle_entrants (producer_id);
+
+CREATE TABLE IF NOT EXISTS public.battle_vote_rankings (
+  vote_id uuid NOT NULL REFERENCES public.battle_votes(id) ON DELETE CASCADE,
+  battle_id uuid NOT NULL REFERENCES public.battles(id) ON DELETE CASCADE,
+  entrant_id uuid NOT NULL REFERENCES public.battle_entrants(id) ON DELETE CASCADE,
+  rank smallint NOT NULL CHECK (rank BETWEEN 1 AND 3),
+  points smallint NOT NULL CHECK (points BETWEEN 1 AND 3),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (vote_id, rank),
+  CONSTRAINT battle_vote_rankings_vote_entrant_key UNIQUE (vote_id, entrant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_battle_vote_rankings_battle_id
+  ON public.battle_vote_rankings (battle_id);
+
+ALTER TABLE public.battle_entrants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.battle_vote_rankings ENABLE ROW LEVEL SECURITY;
+
+REVOKE INSERT, UPDATE, DELETE ON TABLE public.battle_entrants FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON TABLE public.battle_vote_rankings FROM anon, authenticated;
+GRANT SELECT ON TABLE public.battle_entrants TO anon, authenticated;
+GRANT SELECT ON TABLE public.battle_vote_rankings TO authenticated;
+GRANT ALL ON TABLE public.battle_entrants TO service_role;
+GRANT ALL ON TABLE public.battle_vote_rankings TO service_role;
+
+-- Entrants follow the visibility of their battle.
+DROP POLICY IF EXISTS "Battle entrants follow battle visibility" ON public.battle_entrants;
+CREATE POLICY "Battle entrants follow battle visibility"
+ON public.battle_entrants
+FOR SELECT
+TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.battles b
+    WHERE b.id = battle_entrants.battle_id
+  )
+);
+
+DROP POLICY IF EXISTS "Voters can read their own ballot" ON public.battle_vote_rankings;
+CREATE POLICY "Voters can read their own ballot"
+ON public.battle_vote_rankings
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.battle_votes bv
+    WHERE bv.id = battle_vote_rankings.vote_id
+      AND bv.user_id = (SELECT auth.uid())
+  )
+  OR public.is_admin((SELECT auth.uid()))
+);
+
+-- The insert policy gates RPC-only writes; cypher first choices are entrants
+-- rather than producer1/producer2.
+DROP POLICY IF EXISTS "Confirmed users can vote" ON public.battle_votes;
+
+CREATE POLICY "Confirmed users can vote"
+ON public.battle_votes
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND public.is_email_verified_user(auth.uid())
+  AND public.is_account_old_enough(auth.uid(), interval '24 hours')
+  AND current_setting('app.battle_vote_rpc', true) = '1'
+  AND voted_for_producer_id != auth.uid()
+  AND EXISTS (
+    SELECT 1
+    FROM public.battles b
+    WHERE b.id = battle_votes.battle_id
+      AND b.status = 'active'
+      AND b.starts_at IS NOT NULL
+      AND b.starts_at <= now()
+      AND b.voting_ends_at IS NOT NULL
+      AND now() < b.voting_ends_at
+      AND (
+        (
+          b.battle_format = 'duel'
+          AND b.producer1_id IS NOT NULL
+          AND b.producer2_id IS NOT NULL
+          AND (
+            voted_for_producer_id = b.producer1_id
+            OR voted_for_producer_id = b.producer2_id
+          )
+          AND auth.uid() != b.producer1_id
+          AND auth.uid() != b.producer2_id
+        )
+        OR (
+          b.battle_format = 'cypher'
+          AND EXISTS (
+            SELECT 1
+            FROM public.battle_entrants be
+            WHERE be.battle_id = b.id
+              AND be.producer_id = battle_votes.voted_for_producer_id
+          )
+          AND NOT EXISTS (
+            SELECT 1
+            FROM public.battle_entrants be
+            WHERE be.battle_id = b.id
+              AND be.producer_id = auth.uid()
+          )
+        )
+      )
+  )
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.battle_votes bv
+    WHERE bv.battle_id = battle_votes.battle_id
+      AND bv.user_id = auth.uid()
+  )
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.battle_votes bv_recent
+    WHERE bv_recent.user_id = auth.uid()
+      AND bv_recent.created_at > now() - interval '30 seconds'
+  )
+);
+
+-- ---------------------------------------------------------------------------
+-- 2) Ballots
+-- ---------------------------------------------------------------------------
+-- Records a ranked cypher ballot. Callers hold the battle row lock and have
+-- already run the voter checks shared with duels (auth, window, cooldown).
+CREATE OR REPLACE FUNCTION public.record_cypher_ballot(
+  p_battle_id uuid,
+  p_user_id uuid,
+  p_ranking uuid[]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_ranking uuid[] := COALESCE(p_ranking, ARRAY[]::uuid[]);
+  v_vote_id uuid;
+BEGIN
+  IF (SELECT count(*) FROM public.battle_entrants WHERE battle_id = p_battle_id) < 3 THEN
+    RAISE EXCEPTION 'battle_not_ready_for_voting';
+  END IF;
+
+  IF COALESCE(array_length(v_ranking, 1), 0) <> 3
+     OR array_position(v_ranking, NULL) IS NOT NULL
+     OR (SELECT count(DISTINCT producer_id) FROM unnest(v_ranking) AS producer_id) <> 3 THEN
+    RAISE EXCEPTION 'invalid_ballot';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(v_ranking) AS r(producer_id)
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM public.battle_entrants be
+      WHERE be.battle_id = p_battle_id
+        AND be.producer_id = r.producer_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'invalid_vote_target';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.battle_entrants be
+    WHERE be.battle_id = p_battle_id
+      AND be.producer_id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'participants_cannot_vote';
+  END IF;
+
+  PERFORM set_config('app.battle_vote_rpc', '1', true);
+
+  INSERT INTO public.battle_votes (battle_id, user_id, voted_for_producer_id)
+  VALUES (p_battle_id, p_user_id, v_ranking[1])
+  RETURNING id INTO v_vote_id;
+
+  INSERT INTO public.battle_vote_rankings (vote_id, battle_id, entrant_id, rank, points)
+  SELECT v_vote_id, p_battle_id, be.id, r.rank, 4 - r.rank
+  FROM unnest(v_ranking) WITH ORDINALITY AS r(producer_id, rank)
+  JOIN public.battle_entrants be
+    ON be.battle_id = p_battle_id
+   AND be.producer_id = r.producer_id;
+
+  UPDATE public.battle_entrants be
+  SET points = be.points + (4 - r.rank)::integer,
+      first_place_votes = be.first_place_votes + CASE WHEN r.rank = 1 THEN 1 ELSE 0 END,
+      updated_at = now()
+  FROM unnest(v_ranking) WITH ORDINALITY AS r(producer_id, rank)
+  WHERE be.battle_id = p_battle_id
+    AND be.producer_id = r.producer_id;
+
+  RETURN v_vote_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_cypher_ballot(uuid, uuid, uuid[]) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.record_cypher_ballot(uuid, uuid, uuid[]) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.record_cypher_ballot(uuid, uuid, uuid[]) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.record_cypher_ballot(uuid, uuid, uuid[]) TO service_role;
+
+-- Ranks cypher entrants by points, then first-place votes. Ties share a rank.
+-- Returns the sole first place, or NULL when first place is shared.
+CREATE OR REPLACE FUNCTION public.rank_cypher_entrants(p_battle_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_winner_id uuid;
+BEGIN
+  WITH ranked AS (
+    SELECT
+      be.id,
+      RANK() OVER (ORDER BY be.points DESC, be.first_place_votes DESC) AS final_rank
+    FROM public.battle_entrants be
+    WHERE be.battle_id = p_battle_id
+  )
+  UPDATE public.battle_entrants be
+  SET final_rank = ranked.final_rank,
+      updated_at = now()
+  FROM ranked
+  WHERE be.id = ranked.id;
+
+  SELECT be.producer_id
+  INTO v_winner_id
+  FROM public.battle_entrants be
+  WHERE be.battle_id = p_battle_id
+    AND be.final_rank = 1
+    AND be.points > 0
+    AND (
+      SELECT count(*)
+      FROM public.battle_entrants tied
+      WHERE tied.battle_id = p_battle_id
+        AND tied.final_rank = 1
+    ) = 1;
+
+  RETURN v_winner_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rank_cypher_entrants(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.rank_cypher_entrants(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.rank_cypher_entrants(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.rank_cypher_entrants(uuid) TO service_role;
+
+-- Legacy vote path (service_role only since migration 142), generalized to
+-- cypher ballots.
+DROP FUNCTION IF EXISTS public.record_battle_vote(uuid, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION public.record_battle_vote(
+  p_battle_id uuid,
+  p_user_id uuid,
+  p_voted_for_producer_id uuid,
+  p_ranking uuid[] DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_battle public.battles%ROWTYPE;
+  v_actor uuid := auth.uid();
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'auth_required';
+  END IF;
+
+  IF p_user_id IS DISTINCT FROM v_actor THEN
+    RAISE EXCEPTION 'vote_user_mismatch';
+  END IF;
+
+  IF NOT public.is_email_verified_user(p_user_id) THEN
+    RAISE EXCEPTION 'vote_not_allowed_unverified_email';
+  END IF;
+
+  IF NOT public.is_account_old_enough(v_actor, interval '24 hours') THEN
+    RAISE EXCEPTION 'account_too_new';
+  END IF;
+
+  IF NOT public.check_rpc_rate_limit(v_actor, 'record_battle_vote') THEN
+    RAISE EXCEPTION 'rate_limit_exceeded';
+  END IF;
+
+  SELECT * INTO v_battle
+  FROM public.battles
+  WHERE id = p_battle_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'battle_not_found';
+  END IF;
+
+  IF v_battle.status != 'active' THEN
+    RAISE EXCEPTION 'battle_not_open_for_voting';
+  END IF;
+
+  IF v_battle.starts_at IS NULL OR now() < v_battle.starts_at THEN
+    RAISE EXCEPTION 'battle_not_started';
+  END IF;
+
+  IF v_battle.voting_ends_at IS NULL OR now() >= v_battle.voting_ends_at THEN
+    RAISE EXCEPTION 'battle_voting_expired';
+  END IF;
+
+  IF v_battle.battle_format = 'duel' THEN
+    IF v_battle.producer1_id IS NULL OR v_battle.producer2_id IS NULL THEN
+      RAISE EXCEPTION 'battle_not_ready_for_voting';
+    END IF;
+
+    IF p_voted_for_producer_id != v_battle.producer1_id
+       AND p_voted_for_producer_id != v_battle.producer2_id THEN
+      RAISE EXCEPTION 'invalid_vote_target';
+    END IF;
+
+    IF v_actor = v_battle.producer1_id
+       OR v_actor = v_battle.producer2_id THEN
+      RAISE EXCEPTION 'participants_cannot_vote';
+    END IF;
+  ELSIF p_ranking IS NULL OR p_ranking[1] IS DISTINCT FROM p_voted_for_producer_id THEN
+    RAISE EXCEPTION 'invalid_ballot';
+  END IF;
+
+  IF p_voted_for_producer_id = v_actor THEN
+    RAISE EXCEPTION 'self_vote_not_allowed';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.battle_votes
+    WHERE battle_id = p_battle_id
+      AND user_id = v_actor
+  ) THEN
+    RAISE EXCEPTION 'already_voted';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.battle_votes bv
+    WHERE bv.user_id = v_actor
+      AND bv.created_at > now() - interval '30 seconds'
+  ) THEN
+    RAISE EXCEPTION 'vote_cooldown';
+  END IF;
+
+  IF v_battle.battle_format = 'cypher' THEN
+    PERFORM public.record_cypher_ballot(p_battle_id, v_actor, p_ranking);
+  ELSE
+    PERFORM set_config('app.battle_vote_rpc', '1', true);
+
+    INSERT INTO public.battle_votes (battle_id, user_id, voted_for_producer_id)
+    VALUES (p_battle_id, v_actor, p_voted_for_producer_id);
+
+    IF p_voted_for_producer_id = v_battle.producer1_id THEN
+      UPDATE public.battles
+      SET votes_producer1 = votes_producer1 + 1
+      WHERE id = p_battle_id;
+    ELSE
+      UPDATE public.battles
+      SET votes_producer2 = votes_producer2 + 1
+      WHERE id = p_battle_id;
+    END IF;
+  END IF;
+
+  PERFORM public.log_fraud_event('battle_vote', v_actor, p_battle_id, NULL);
+
+  RETURN true;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'already_voted';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_battle_vote(uuid, uuid, uuid, uuid[]) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.record_battle_vote(uuid, uuid, uuid, uuid[]) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.record_battle_vote(uuid, uuid, uuid, uuid[]) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.record_battle_vote(uuid, uuid, uuid, uuid[]) TO service_role;
+
+DROP FUNCTION IF EXISTS public.rpc_vote_with_feedback(uuid, uuid, text[]);
+
+CREATE OR REPLACE FUNCTION public.rpc_vote_with_feedback(
+  p_battle_id uuid,
+  p_winner_producer_id uuid,
+  p_criteria text[],
+  p_ranking uuid[] DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_battle public.battles%ROWTYPE;
+  v_vote_id uuid;
+  v_winner_product_id uuid;
+  v_raw_criteria text[] := COALESCE(p_criteria, ARRAY[]::text[]);
+  v_criteria text[];
+  v_invalid_criteria text[];
+  v_feedback_count integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'auth_required';
+  END IF;
+
+  IF p_battle_id IS NULL OR p_winner_producer_id IS NULL THEN
+    RAISE EXCEPTION 'invalid_feedback_payload';
+  END IF;
+
+  IF NOT public.is_email_verified_user(v_user_id) THEN
+    RAISE EXCEPTION 'vote_not_allowed_unverified_email';
+  END IF;
+
+  IF NOT public.is_account_old_enough(v_user_id, interval '24 hours') THEN
+    RAISE EXCEPTION 'account_too_new';
+  END IF;
+
+  IF NOT public.check_rpc_rate_limit(v_user_id, 'rpc_vote_with_feedback') THEN
+    RAISE EXCEPTION 'rate_limit_exceeded';
+  END IF;
+
+  IF COALESCE(array_length(v_raw_criteria, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'feedback_empty';
+  END IF;
+
+  IF COALESCE(array_length(v_raw_criteria, 1), 0) > 3 THEN
+    RAISE EXCEPTION 'feedback_max_3_criteria';
+  END IF;
+
+  SELECT array_agg(DISTINCT normalized.criterion ORDER BY normalized.criterion)
+  INTO v_criteria
+  FROM (
+    SELECT lower(btrim(raw_value)) AS criterion
+    FROM unnest(v_raw_criteria) AS raw_value
+    WHERE btrim(COALESCE(raw_value, '')) <> ''
+  ) AS normalized;
+
+  IF COALESCE(array_length(v_criteria, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'feedback_empty';
+  END IF;
+
+  IF COALESCE(array_length(v_criteria, 1), 0) > 3 THEN
+    RAISE EXCEPTION 'feedback_max_3_criteria';
+  END IF;
+
+  SELECT array_agg(c)
+  INTO v_invalid_criteria
+  FROM unnest(v_criteria) AS c
+  WHERE c NOT IN (
+    'groove',
+    'melody',
+    'ambience',
+    'sound_design',
+    'drums',
+    'mix',
+    'originality',
+    'energy',
+    'artistic_vibe'
+  );
+
+  IF COALESCE(array_length(v_invalid_criteria, 1), 0) > 0 THEN
+    RAISE EXCEPTION 'feedback_invalid_criterion';
+  END IF;
+
+  SELECT *
+  INTO v_battle
+  FROM public.battles
+  WHERE id = p_battle_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'battle_not_found';
+  END IF;
+
+  IF v_battle.status != 'active' THEN
+    RAISE EXCEPTION 'battle_not_open_for_voting';
+  END IF;
+
+  IF v_battle.starts_at IS NULL OR now() < v_battle.starts_at THEN
+    RAISE EXCEPTION 'battle_not_started';
+  END IF;
+
+  IF v_battle.voting_ends_at IS NULL OR now() >= v_battle.voting_ends_at THEN
+    RAISE EXCEPTION 'battle_voting_expired';
+  END IF;
+
+  IF v_battle.battle_format = 'duel' THEN
+    IF v_battle.producer1_id IS NULL OR v_battle.producer2_id IS NULL THEN
+      RAISE EXCEPTION 'battle_not_ready_for_voting';
+    END IF;
+
+    IF p_winner_producer_id != v_battle.producer1_id
+       AND p_winner_producer_id != v_battle.producer2_id THEN
+      RAISE EXCEPTION 'invalid_vote_target';
+    END IF;
+
+    IF v_user_id = v_battle.producer1_id
+       OR v_user_id = v_battle.producer2_id THEN
+      RAISE EXCEPTION 'participants_cannot_vote';
+    END IF;
+  ELSIF p_ranking IS NULL OR p_ranking[1] IS DISTINCT FROM p_winner_producer_id THEN
+    RAISE EXCEPTION 'invalid_ballot';
+  END IF;
+
+  IF p_winner_producer_id = v_user_id THEN
+    RAISE EXCEPTION 'self_vote_not_allowed';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.battle_votes bv
+    WHERE bv.battle_id = p_battle_id
+      AND bv.user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'already_voted';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.battle_votes bv
+    WHERE bv.user_id = v_user_id
+      AND bv.created_at > now() - interval '30 seconds'
+  ) THEN
+    RAISE EXCEPTION 'vote_cooldown';
+  END IF;
+
+  IF v_battle.battle_format = 'cypher' THEN
+    SELECT be.product_id
+    INTO v_winner_product_id
+    FROM public.battle_entrants be
+    WHERE be.battle_id = p_battle_id
+      AND be.producer_id = p_winner_producer_id;
+  ELSIF p_winner_producer_id = v_battle.producer1_id THEN
+    v_winner_product_id := v_battle.product1_id;
+  ELSE
+    v_winner_product_id := v_battle.product2_id;
+  END IF;
+
+  IF v_winner_product_id IS NULL THEN
+    RAISE EXCEPTION 'winner_product_not_found';
+  END IF;
+
+  -- Gate direct inserts: only this RPC enables write paths for this transaction.
+  PERFORM set_config('app.battle_vote_rpc', '1', true);
+  PERFORM set_config('app.battle_vote_feedback_rpc', '1', true);
+  PERFORM set_config('app.user_music_pref_rpc', '1', true);
+
+  IF v_battle.battle_format = 'cypher' THEN
+    v_vote_id := public.record_cypher_ballot(p_battle_id, v_user_id, p_ranking);
+  ELSE
+    INSERT INTO public.battle_votes (battle_id, user_id, voted_for_producer_id)
+    VALUES (p_battle_id, v_user_id, p_winner_producer_id)
+    RETURNING id INTO v_vote_id;
+
+    IF p_winner_producer_id = v_battle.producer1_id THEN
+      UPDATE public.battles
+      SET votes_producer1 = votes_producer1 + 1
+      WHERE id = p_battle_id;
+    ELSE
+      UPDATE public.battles
+      SET votes_producer2 = votes_producer2 + 1
+      WHERE id = p_battle_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.battle_vote_feedback (
+    vote_id,
+    battle_id,
+    winner_product_id,
+    user_id,
+    criterion
+  )
+  SELECT
+    v_vote_id,
+    p_battle_id,
+    v_winner_product_id,
+    v_user_id,
+    criterion
+  FROM unnest(v_criteria) AS criterion
+  ON CONFLICT (vote_id, criterion) DO NOTHING;
+
+  GET DIAGNOSTICS v_feedback_count = ROW_COUNT;
+
+  IF v_feedback_count = 0 THEN
+    RAISE EXCEPTION 'feedback_empty';
+  END IF;
+
+  INSERT INTO public.user_music_preferences (
+    user_id,
+    criterion,
+    score,
+    updated_at
+  )
+  SELECT
+    v_user_id,
+    criterion,
+    1,
+    now()
+  FROM unnest(v_criteria) AS criterion
+  ON CONFLICT (user_id, criterion)
+  DO UPDATE SET
+    score = public.user_music_preferences.score + 1,
+    updated_at = now();
+
+  PERFORM public.log_fraud_event('battle_vote', v_user_id, p_battle_id, NULL);
+
+  RETURN jsonb_build_object(
+    'vote_id', v_vote_id,
+    'battle_id', p_battle_id,
+    'feedback_count', v_feedback_count
+  );
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'already_voted';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rpc_vote_with_feedback(uuid, uuid, text[], uuid[]) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.rpc_vote_with_feedback(uuid, uuid, text[], uuid[]) FROM anon;
+GRANT EXECUTE ON FUNCTION public.rpc_vote_with_feedback(uuid, uuid, text[], uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_vote_with_feedback(uuid, uuid, text[], uuid[]) TO service_role;
+
+-- ---------------------------------------------------------------------------
+-- 3) Finalization
+-- ---------------------------------------------------------------------------
+-- Same body as migration 265, except for the cypher ranking, the completion
+-- counters of every entrant and the duel-only quality snapshot.
+CREATE OR REPLACE FUNCTION private.finalize_battle(p_battle_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $function$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := current_setting('request.jwt.claim.role', true);
+  v_is_admin_actor boolean := public.is_admin(v_actor);
+  v_battle public.battles%ROWTYPE;
+  v_winner_id uuid;
+  v_participant_id uuid;
+BEGIN
+  IF NOT (
+    v_jwt_role = 'service_role'
+    OR v_is_admin_actor
+  ) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  IF NOT public.check_rpc_rate_limit(v_actor, 'finalize_battle') THEN
+    PERFORM public.log_admin_action_audit(
+      p_admin_user_id => v_actor,
+      p_action_type => 'finalize_battle',
+      p_entity_type => 'battle',
+      p_entity_id => p_battle_id,
+      p_source => 'rpc',
+      p_context => jsonb_build_object(
+        'guard', 'rate_limit',
+        'jwt_role', v_jwt_role,
+        'is_admin_actor', v_is_admin_actor
+      ),
+      p_extra_details => jsonb_build_object('message', 'rate_limit_exceeded'),
+      p_success => false,
+      p_error => 'rate_limit_exceeded'
+    );
+    RAISE EXCEPTION 'rate_limit_exceeded';
+  END IF;
+
+  SELECT * INTO v_battle
+  FROM public.battles
+  WHERE id = p_battle_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'battle_not_found';
+  END IF;
+
+  IF v_battle.status = 'cancelled' THEN
+    RAISE EXCEPTION 'battle_cancelled';
+  END IF;
+
+  IF v_battle.status = 'completed' THEN
+    IF v_is_admin_actor THEN
+      INSERT INTO public.ai_admin_actions (
+        action_type,
+        entity_type,
+        entity_id,
+        ai_decision,
+        confidence_score,
+        reason,
+        status,
+        human_override,
+        reversible,
+        executed_at,
+        executed_by,
+        error
+      )
+      VALUES (
+        'battle_finalize_admin',
+        'battle',
+        p_battle_id,
+        jsonb_build_object(
+          'source', 'finalize_battle',
+          'noop', true,
+          'already_completed', true,
+          'winner_id', v_battle.winner_id,
+          'actor', v_actor
+        ),
+        1.0,
+        'Battle already completed (admin finalize noop)',
+        'executed',
+        false,
+        true,
+        now(),
+        v_actor,
+        NULL
+      );
+    END IF;
+
+    PERFORM public.log_admin_action_audit(
+      p_admin_user_id => v_actor,
+      p_action_type => 'finalize_battle',
+      p_entity_type => 'battle',
+      p_entity_id => p_battle_id,
+      p_source => 'rpc',
+      p_context => jsonb_build_object(
+        'status_before', v_battle.status,
+        'status_after', v_battle.status,
+        'jwt_role', v_jwt_role,
+        'is_admin_actor', v_is_admin_actor,
+        'noop', true
+      ),
+      p_extra_details => jsonb_build_object('winner_id', v_battle.winner_id),
+      p_success => true,
+      p_error => NULL
+    );
+
+    RETURN v_battle.winner_id;
+  END IF;
+
+  IF v_battle.status NOT IN ('active', 'voting') THEN
+    RAISE EXCEPTION 'battle_not_open_for_finalization';
+  END IF;
+
+  IF v_battle.battle_format = 'cypher' THEN
+    v_winner_id := public.rank_cypher_entrants(p_battle_id);
+  ELSIF v_battle.votes_producer1 > v_battle.votes_producer2 THEN
+    v_winner_id := v_battle.producer1_id;
+  ELSIF v_battle.votes_producer2 > v_battle.votes_producer1 THEN
+    v_winner_id := v_battle.producer2_id;
+  ELSE
+    v_winner_id := NULL;
+  END IF;
+
+  UPDATE public.battles
+  SET status = 'completed',
+      winner_id = v_winner_id,
+      voting_ends_at = COALESCE(voting_ends_at, now()),
+      updated_at = now()
+  WHERE id = p_battle_id;
+
+  FOR v_participant_id IN
+    SELECT DISTINCT participant_id
+    FROM (
+      SELECT v_battle.producer1_id AS participant_id
+      UNION ALL
+      SELECT v_battle.producer2_id
+      UNION ALL
+      SELECT be.producer_id
+      FROM public.battle_entrants be
+      WHERE be.battle_id = p_battle_id
+    ) participants
+    WHERE participant_id IS NOT NULL
+  LOOP
+    UPDATE public.user_profiles
+    SET battles_completed = COALESCE(battles_completed, 0) + 1,
+        updated_at = now()
+    WHERE id = v_participant_id;
+
+    PERFORM public.recalculate_engagement(v_participant_id);
+
+    -- The completion trigger only knows producer1/producer2; the shared
+    -- idempotency key keeps producer1 from being credited twice.
+    IF v_battle.battle_format = 'cypher' THEN
+      PERFORM public.apply_reputation_event_internal(
+        p_user_id => v_participant_id,
+        p_source => 'battles',
+        p_event_type => 'battle_participation',
+        p_entity_type => 'battle',
+        p_entity_id => p_battle_id,
+        p_delta => NULL,
+        p_metadata => jsonb_build_object(
+          'battle_id', p_battle_id,
+          'role', 'cypher_entrant'
+        ),
+        p_idempotency_key => 'battle_participation:' || p_battle_id::text || ':' || v_participant_id::text
+      );
+    END IF;
+  END LOOP;
+
+  -- Phase 1 feedback dashboard: compute battle quality snapshots.
+  -- Wrapped in BEGIN/EXCEPTION so snapshot failure cannot block finalization.
+  -- Snapshots compare the two duel slots; cypher results live on battle_entrants.
+  IF v_battle.battle_format = 'duel' THEN
+    BEGIN
+      PERFORM public.rpc_compute_battle_quality_snapshot(p_battle_id);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'finalize_battle: rpc_compute_battle_quality_snapshot failed for battle_id=% (SQLSTATE=%, MSG=%)',
+        p_battle_id, SQLSTATE, SQLERRM;
+    END;
+  END IF;
+
+  IF v_is_admin_actor THEN
+    INSERT INTO public.ai_admin_actions (
+      action_type,
+      entity_type,
+      entity_id,
+      ai_decision,
+      confidence_score,
+      reason,
+      status,
+      human_override,
+      reversible,
+      executed_at,
+      executed_by,
+      error
+    )
+    VALUES (
+      'battle_finalize_admin',
+      'battle',
+      p_battle_id,
+      jsonb_build_object(
+        'source', 'finalize_battle',
+        'noop', false,
+        'status_before', v_battle.status,
+        'status_after', 'completed',
+        'winner_id', v_winner_id,
+        'battle_format', v_battle.battle_format,
+        'votes_producer1', v_battle.votes_producer1,
+        'votes_producer2', v_battle.votes_producer2,
+        'actor', v_actor
+      ),
+      1.0,
+      'Battle finalized by admin',
+      'executed',
+      false,
+      true,
+      now(),
+      v_actor,
+      NULL
+    );
+  END IF;
+
+  PERFORM public.log_admin_action_audit(
+    p_admin_user_id => v_actor,
+    p_action_type => 'finalize_battle',
+    p_entity_type => 'battle',
+    p_entity_id => p_battle_id,
+    p_source => 'rpc',
+    p_context => jsonb_build_object(
+      'status_before', v_battle.status,
+      'status_after', 'completed',
+      'jwt_role', v_jwt_role,
+      'is_admin_actor', v_is_admin_actor,
+      'noop', false
+    ),
+    p_extra_details => jsonb_build_object(
+      'winner_id', v_winner_id,
+      'battle_format', v_battle.battle_format,
+      'votes_producer1', v_battle.votes_producer1,
+      'votes_producer2', v_battle.votes_producer2
+    ),
+    p_success => true,
+    p_error => NULL
+  );
+
+  RETURN v_winner_id;
+END;
+$function$;
+
+-- ---------------------------------------------------------------------------
+-- 4) Admin creation
+-- ---------------------------------------------------------------------------
+-- p_entrants: [{"producer_id": uuid, "product_id": uuid}, ...] in display order.
+CREATE OR REPLACE FUNCTION public.admin_create_cypher_battle(
+  p_title text,
+  p_description text,
+  p_entrants jsonb,
+  p_voting_duration_hours integer DEFAULT 72
+)
+RETURNS public.battles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_title text := NULLIF(btrim(COALESCE(p_title, '')), '');
+  v_entrant_count integer;
+  v_first record;
+  v_slug_base text;
+  v_slug text;
+  v_counter integer := 0;
+  v_battle public.battles%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin(v_actor) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  IF v_title IS NULL THEN
+    RAISE EXCEPTION 'title_required';
+  END IF;
+
+  IF p_voting_duration_hours IS NULL OR p_voting_duration_hours NOT BETWEEN 1 AND 720 THEN
+    RAISE EXCEPTION 'invalid_voting_duration';
+  END IF;
+
+  IF p_entrants IS NULL OR jsonb_typeof(p_entrants) <> 'array' THEN
+    RAISE EXCEPTION 'cypher_entrants_invalid';
+  END IF;
+
+  CREATE TEMP TABLE IF NOT EXISTS pg_temp.cypher_entrants_input (
+    position smallint,
+    producer_id uuid,
+    product_id uuid
+  ) ON COMMIT DROP;
+  TRUNCATE pg_temp.cypher_entrants_input;
+
+  INSERT INTO pg_temp.cypher_entrants_input (position, producer_id, product_id)
+  SELECT
+    e.ordinality::smallint,
+    NULLIF(e.value->>'producer_id', '')::uuid,
+    NULLIF(e.value->>'product_id', '')::uuid
+  FROM jsonb_array_elements(p_entrants) WITH ORDINALITY AS e(value, ordinality);
+
+  SELECT count(*) INTO v_entrant_count FROM pg_temp.cypher_entrants_input;
+
+  IF v_entrant_count NOT BETWEEN 3 AND 8 THEN
+    RAISE EXCEPTION 'cypher_entrant_count_invalid';
+  END IF;
+
+  IF (SELECT count(DISTINCT producer_id) FROM pg_temp.cypher_entrants_input) <> v_entrant_count
+     OR (SELECT count(DISTINCT product_id) FROM pg_temp.cypher_entrants_input) <> v_entrant_count THEN
+    RAISE EXCEPTION 'cypher_entrants_invalid';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM pg_temp.cypher_entrants_input i
+    LEFT JOIN public.user_profiles up ON up.id = i.producer_id
+    WHERE up.id IS NULL
+      OR up.is_producer_active IS NOT TRUE
+      OR COALESCE(up.is_deleted, false) = true
+      OR up.deleted_at IS NOT NULL
+      OR NOT public.is_battle_product_eligible(i.product_id, i.producer_id)
+  ) THEN
+    RAISE EXCEPTION 'cypher_product_invalid';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM pg_temp.cypher_entrants_input i
+    JOIN public.battle_product_locks l ON l.product_id = i.product_id
+  ) OR EXISTS (
+    SELECT 1
+    FROM pg_temp.cypher_entrants_input i
+    JOIN public.battle_entrants be ON be.product_id = i.product_id
+    JOIN public.battles b ON b.id = be.battle_id
+    WHERE b.status IN ('active', 'voting')
+  ) THEN
+    RAISE EXCEPTION 'BATTLE_PRODUCT_ALREADY_OCCUPIED';
+  END IF;
+
+  SELECT * INTO v_first
+  FROM pg_temp.cypher_entrants_input
+  WHERE position = 1;
+
+  v_slug_base := lower(regexp_replace(v_title, '[^a-zA-Z0-9]+', '-', 'g'));
+  v_slug_base := regexp_replace(v_slug_base, '(^-+|-+$)', '', 'g');
+
+  IF v_slug_base IS NULL OR v_slug_base = '' THEN
+    v_slug_base := 'cypher';
+  END IF;
+
+  v_slug := v_slug_base;
+  LOOP
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.battles b WHERE b.slug = v_slug);
+    v_counter := v_counter + 1;
+    v_slug := v_slug_base || '-' || v_counter::text;
+    IF v_counter > 1000 THEN
+      RAISE EXCEPTION 'unable_to_generate_battle_slug';
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.battles (
+    title,
+    slug,
+    description,
+    producer1_id,
+    producer2_id,
+    product1_id,
+    product2_id,
+    genre_id,
+    status,
+    accepted_at,
+    admin_validated_at,
+    starts_at,
+    voting_ends_at,
+    winner_id,
+    votes_producer1,
+    votes_producer2,
+    battle_type,
+    battle_format
+  )
+  VALUES (
+    v_title,
+    v_slug,
+    NULLIF(btrim(COALESCE(p_description, '')), ''),
+    v_first.producer_id,
+    NULL,
+    v_first.product_id,
+    NULL,
+    (SELECT p.genre_id FROM public.products p WHERE p.id = v_first.product_id),
+    'active',
+    now(),
+    now(),
+    now(),
+    now() + make_interval(hours => p_voting_duration_hours),
+    NULL,
+    0,
+    0,
+    'admin',
+    'cypher'
+  )
+  RETURNING * INTO v_battle;
+
+  INSERT INTO public.battle_entrants (battle_id, producer_id, product_id, position)
+  SELECT v_battle.id, i.producer_id, i.product_id, i.position
+  FROM pg_temp.cypher_entrants_input i
+  ORDER BY i.position;
+
+  PERFORM public.log_admin_action_audit(
+    p_admin_user_id => v_actor,
+    p_action_type => 'admin_create_cypher_battle',
+    p_entity_type => 'battle',
+    p_entity_id => v_battle.id,
+    p_source => 'rpc',
+    p_context => jsonb_build_object('entrant_count', v_entrant_count),
+    p_extra_details => jsonb_build_object('voting_duration_hours', p_voting_duration_hours),
+    p_success => true,
+    p_error => NULL
+  );
+
+  RETURN v_battle;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_create_cypher_battle(text, text, jsonb, integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_create_cypher_battle(text, text, jsonb, integer) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_create_cypher_battle(text, text, jsonb, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_create_cypher_battle(text, text, jsonb, integer) TO service_role;
+
+-- ---------------------------------------------------------------------------
+-- 5) Feedback payload
+-- ---------------------------------------------------------------------------
+-- Same body as migration 268, plus `battle.battle_format`, the cypher winner
+-- product and voter count, and the `entrants` array with per-entrant criterion
+-- scores (criterion share of the feedback given to that entrant's beat).
+CREATE OR REPLACE FUNCTION public.get_battle_feedback_payload(
+  p_battle_id uuid,
+  p_viewer_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $function$
+DECLARE
+  v_battle public.battles%ROWTYPE;
+  v_authed_uid uuid := auth.uid();
+  v_total_feedback int := 0;
+  v_total_voters int := 0;
+  v_battle_size text;
+  v_coherence_sufficient boolean;
+  v_snapshots jsonb;
+  v_top_criteria jsonb;
+  v_ranking jsonb;
+  v_entrants jsonb;
+  v_winner_product_id uuid;
+  v_viewer jsonb;
+  v_meta jsonb;
+BEGIN
+  IF p_battle_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'battle_required');
+  END IF;
+
+  SELECT * INTO v_battle FROM public.battles WHERE id = p_battle_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'battle_not_found');
+  END IF;
+
+  IF v_battle.status::text <> 'completed' THEN
+    RETURN jsonb_build_object(
+      'error', 'not_finalized',
+      'status', v_battle.status::text
+    );
+  END IF;
+
+  IF v_battle.battle_format = 'cypher' THEN
+    SELECT COUNT(*)::int INTO v_total_voters
+    FROM public.battle_votes
+    WHERE battle_id = p_battle_id;
+  ELSE
+    v_total_voters := COALESCE(v_battle.votes_producer1, 0) + COALESCE(v_battle.votes_producer2, 0);
+  END IF;
+
+  SELECT COUNT(*)::int INTO v_total_feedback
+  FROM public.battle_vote_feedback
+  WHERE battle_id = p_battle_id;
+
+  v_battle_size := CASE
+    WHEN v_total_voters < 10 THEN 'small'
+    WHEN v_total_voters < 50 THEN 'medium'
+    ELSE 'large'
+  END;
+
+  v_coherence_sufficient := v_total_feedback >= 5;
+
+  WITH ranked AS (
+    SELECT
+      bqs.product_id,
+      bqs.votes_total,
+      bqs.votes_for_product,
+      bqs.win_rate,
+      bqs.preference_score,
+      bqs.artistic_score,
+      bqs.coherence_score,
+      bqs.credibility_score,
+      bqs.quality_index,
+      bqs.computed_at,
+      -- Per-product coherence sufficiency derived from snapshot meta.
+      -- meta.total_feedback is the count of feedback rows *for this product*
+      -- (votes_for_product). The 5-row threshold mirrors the compute logic in
+      -- private.compute_battle_quality_snapshot.
+      (COALESCE((bqs.meta->>'total_feedback')::int, 0) >= 5) AS coherence_data_sufficient,
+      ROW_NUMBER() OVER (
+        ORDER BY bqs.quality_index DESC NULLS LAST, bqs.product_id
+      ) AS rank
+    FROM public.battle_quality_snapshots bqs
+    WHERE bqs.battle_id = p_battle_id
+  )
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'product_id', r.product_id,
+      'producer', jsonb_build_object(
+        'id', up.id,
+        'display_name', COALESCE(up.username, up.full_name),
+        'avatar_url', up.avatar_url
+      ),
+      'votes_total', r.votes_total,
+      'votes_for_product', r.votes_for_product,
+      'win_rate', r.win_rate,
+      'scores', jsonb_build_object(
+        'artistic', r.artistic_score,
+        'coherence', r.coherence_score,
+        'credibility', r.credibility_score,
+        'preference', r.preference_score
+      ),
+      'coherence_data_sufficient', r.coherence_data_sufficient,
+      'quality_index', r.quality_index,
+      'computed_at', r.computed_at,
+      'rank', r.rank
+    ) ORDER BY r.rank
+  )
+  INTO v_snapshots
+  FROM ranked r
+  LEFT JOIN public.products p ON p.id = r.product_id
+  LEFT JOIN public.user_profiles up ON up.id = p.producer_id;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'criterion_key', c.criterion,
+      'count', c.cnt,
+      'share', CASE
+        WHEN v_total_feedback > 0 THEN ROUND(c.cnt::numeric / v_total_feedback, 4)
+        ELSE 0::numeric
+      END
+    ) ORDER BY c.cnt DESC
+  ), '[]'::jsonb)
+  INTO v_top_criteria
+  FROM (
+    SELECT criterion, COUNT(*)::int AS cnt
+    FROM public.battle_vote_feedback
+    WHERE battle_id = p_battle_id
+    GROUP BY criterion
+    ORDER BY COUNT(*) DESC
+    LIMIT 3
+  ) c;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'product_id', r.product_id,
+      'rank', r.rank,
+      'quality_index', r.quality_index
+    ) ORDER BY r.rank
+  ), '[]'::jsonb)
+  INTO v_ranking
+  FROM (
+    SELECT
+      product_id,
+      quality_index,
+      ROW_NUMBER() OVER (
+        ORDER BY quality_index DESC NULLS LAST, product_id
+      ) AS rank
+    FROM public.battle_quality_snapshots
+    WHERE battle_id = p_battle_id
+  ) r;
+
+  -- Duels expose their two slots with the same shape as cypher entrants.
+  WITH entrant_rows AS (
+    SELECT
+      be.producer_id,
+      be.product_id,
+      be.position,
+      be.first_place_votes AS votes,
+      be.points,
+      be.final_rank
+    FROM public.battle_entrants be
+    WHERE be.battle_id = p_battle_id
+      AND v_battle.battle_format = 'cypher'
+
+    UNION ALL
+
+    SELECT
+      slots.producer_id,
+      slots.product_id,
+      slots.position,
+      slots.votes,
+      NULL::integer,
+      CASE
+        WHEN v_battle.winner_id IS NULL OR v_battle.winner_id = slots.producer_id THEN 1
+        ELSE 2
+      END::smallint
+    FROM (
+      VALUES
+        (v_battle.producer1_id, v_battle.product1_id, 1::smallint, COALESCE(v_battle.votes_producer1, 0)),
+        (v_battle.producer2_id, v_battle.product2_id, 2::smallint, COALESCE(v_battle.votes_producer2, 0))
+    ) AS slots(producer_id, product_id, position, votes)
+    WHERE v_battle.battle_format = 'duel'
+      AND slots.producer_id IS NOT NULL
+  )
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'product_id', e.product_id,
+      'producer', jsonb_build_object(
+        'id', up.id,
+        'display_name', COALESCE(up.username, up.full_name),
+        'avatar_url', up.avatar_url
+      ),
+      'position', e.position,
+      'votes', e.votes,
+      'points', e.points,
+      'final_rank', e.final_rank,
+      'criterion_scores', COALESCE(cs.scores, '[]'::jsonb)
+    ) ORDER BY e.final_rank NULLS LAST, e.position
+  ), '[]'::jsonb)
+  INTO v_entrants
+  FROM entrant_rows e
+  LEFT JOIN public.user_profiles up ON up.id = e.producer_id
+  LEFT JOIN LATERAL (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'criterion_key', f.criterion,
+        'count', f.cnt,
+        'share', ROUND(f.cnt::numeric / NULLIF(f.total, 0), 4)
+      ) ORDER BY f.cnt DESC, f.criterion
+    ) AS scores
+    FROM (
+      SELECT
+        criterion,
+        COUNT(*)::int AS cnt,
+        SUM(COUNT(*)) OVER ()::int AS total
+      FROM public.battle_vote_feedback
+      WHERE battle_id = p_battle_id
+        AND winner_product_id = e.product_id
+      GROUP BY criterion
+    ) f
+  ) cs ON true;
+
+  IF v_battle.winner_id IS NULL THEN
+    v_winner_product_id := NULL;
+  ELSIF v_battle.battle_format = 'cypher' THEN
+    SELECT be.product_id
+    INTO v_winner_product_id
+    FROM public.battle_entrants be
+    WHERE be.battle_id = p_battle_id
+      AND be.producer_id = v_battle.winner_id;
+  ELSIF v_battle.winner_id = v_battle.producer1_id THEN
+    v_winner_product_id := v_battle.product1_id;
+  ELSIF v_battle.winner_id = v_battle.producer2_id THEN
+    v_winner_product_id := v_battle.product2_id;
+  END IF;
+
+  IF v_authed_uid IS NULL THEN
+    v_viewer := jsonb_build_object(
+      'is_authenticated', false,
+      'voted', false,
+      'vote', null::jsonb
+    );
+  ELSE
+    WITH vf AS (
+      SELECT criterion, winner_product_id
+      FROM public.battle_vote_feedback
+      WHERE battle_id = p_battle_id
+        AND user_id = v_authed_uid
+    )
+    SELECT
+      CASE
+        WHEN NOT EXISTS (SELECT 1 FROM vf) THEN
+          jsonb_build_object(
+            'is_authenticated', true,
+            'voted', false,
+            'vote', null::jsonb
+          )
+        ELSE
+          jsonb_build_object(
+            'is_authenticated', true,
+            'voted', true,
+            'vote', jsonb_build_object(
+              'criteria', (SELECT jsonb_agg(DISTINCT criterion) FROM vf),
+              'preferred_product_id', (SELECT winner_product_id FROM vf LIMIT 1)
+            )
+          )
+      END
+    INTO v_viewer;
+  END IF;
+
+  v_meta := jsonb_build_object(
+    'total_feedback', v_total_feedback,
+    'total_voters', v_total_voters,
+    'battle_size', v_battle_size,
+    'coherence_data_sufficient', v_coherence_sufficient,
+    'credibility_dynamic', false
+  );
+
+  RETURN jsonb_build_object(
+    'battle', jsonb_build_object(
+      'id', v_battle.id,
+      'slug', v_battle.slug,
+      'title', v_battle.title,
+      'status', v_battle.status::text,
+      'battle_tier', v_battle.battle_tier,
+      'battle_format', v_battle.battle_format,
+      'winner_product_id', v_winner_product_id,
+      'is_tie', (v_battle.winner_id IS NULL AND v_battle.status::text = 'completed'),
+      'finalized_at', v_battle.voting_ends_at,
+      'voting_started_at', v_battle.starts_at,
+      'voting_ended_at', v_battle.voting_ends_at,
+      'voting_duration_seconds',
+        CASE
+          WHEN v_battle.voting_ends_at IS NOT NULL AND v_battle.starts_at IS NOT NULL
+          THEN EXTRACT(EPOCH FROM (v_battle.voting_ends_at - v_battle.starts_at))::int
+          ELSE NULL
+        END
+    ),
+    'snapshots', COALESCE(v_snapshots, '[]'::jsonb),
+    'top_criteria', v_top_criteria,
+    'ranking', v_ranking,
+    'entrants', v_entrants,
+    'viewer', v_viewer,
+    'meta', v_meta
+  );
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.get_battle_feedback_payload(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_battle_feedback_payload(uuid, uuid) TO anon, authenticated;
+
+COMMIT;
@@ -0,0 +1,284 @@
+/*
+  # Blind voting for battles and campaigns
+
+  Voters see both producers' names, avatars and reputation badges while a
+  battle is open, so well-known producers win on name recognition rather than
+  on the beat. The fraud views only catch vote manipulation, not this bias.
+
+  This migration adds an opt-in blind mode:
+  - `battles.blind_voting` and `admin_battle_campaigns.blind_voting` flags.
+    A campaign copies its flag to the battle it launches, and keeps it in sync
+    until that battle completes.
+  - `admin_set_battle_blind_voting` lets admins toggle the mode on any battle
+    that has not completed yet.
+  - `is_blind_battle_participant` tells whether a user is a duel producer or a
+    cypher entrant of a battle that is still blind. The public comment policy
+    uses it to hide participants' comments (they reveal authorship) from
+    everyone but their author until the battle completes.
+  - The home battles preview and the battle of the day stop returning producer
+    usernames for battles that are still blind.
+
+  The battle row itself still carries the producer ids: the vote pipeline,
+  fraud checks and notifications need them. Masking names, avatars, profile
+  links and slot order is done by the web app and the share image endpoint.
+  Once the battle completes the flag stays set, so results, the feedback
+  report and the radar are attributed as usual.
+*/
+
+BEGIN;
+
+ALTER TABLE public.battles
+  ADD COLUMN IF NOT EXISTS blind_voting boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.admin_battle_campaigns
+  ADD COLUMN IF NOT EXISTS blind_voting boolean NOT NULL DEFAULT false;
+
+-- -----------------------------------------------------------------------------
+-- Participant helper
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.is_blind_battle_participant(p_battle_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.battles b
+    WHERE b.id = p_battle_id
+      AND b.blind_voting = true
+      AND b.status <> 'completed'
+      AND p_user_id IS NOT NULL
+      AND (
+        p_user_id IN (b.producer1_id, b.producer2_id)
+        OR EXISTS (
+          SELECT 1
+          FROM public.battle_entrants be
+          WHERE be.battle_id = b.id
+            AND be.producer_id = p_user_id
+        )
+      )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_blind_battle_participant(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.is_blind_battle_participant(uuid, uuid) TO anon, authenticated, service_role;
+
+-- -----------------------------------------------------------------------------
+-- Comments: participants' comments stay hidden while the battle is blind
+-- -----------------------------------------------------------------------------
+
+DROP POLICY IF EXISTS "Anyone can view visible comments" ON public.battle_comments;
+
+CREATE POLICY "Anyone can view visible comments"
+ON public.battle_comments
+FOR SELECT
+USING (
+  is_hidden = false
+  AND (
+    user_id = (SELECT auth.uid())
+    OR NOT public.is_blind_battle_participant(battle_id, user_id)
+  )
+);
+
+-- -----------------------------------------------------------------------------
+-- Campaign flag propagation
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.sync_campaign_blind_voting()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.battle_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.battles
+  SET blind_voting = NEW.blind_voting,
+      updated_at = now()
+  WHERE id = NEW.battle_id
+    AND status <> 'completed'
+    AND blind_voting IS DISTINCT FROM NEW.blind_voting;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_campaign_blind_voting() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.sync_campaign_blind_voting() FROM anon;
+REVOKE EXECUTE ON FUNCTION public.sync_campaign_blind_voting() FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.sync_campaign_blind_voting() TO service_role;
+
+DROP TRIGGER IF EXISTS trg_sync_campaign_blind_voting ON public.admin_battle_campaigns;
+CREATE TRIGGER trg_sync_campaign_blind_voting
+  AFTER INSERT OR UPDATE OF battle_id, blind_voting
+  ON public.admin_battle_campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_campaign_blind_voting();
+
+-- -----------------------------------------------------------------------------
+-- Admin toggle
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.admin_set_battle_blind_voting(p_battle_id uuid, p_enabled boolean)
+RETURNS public.battles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_battle public.battles%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  SELECT *
+  INTO v_battle
+  FROM public.battles
+  WHERE id = p_battle_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'battle_not_found';
+  END IF;
+
+  IF v_battle.status = 'completed' THEN
+    RAISE EXCEPTION 'battle_already_completed';
+  END IF;
+
+  UPDATE public.battles
+  SET blind_voting = COALESCE(p_enabled, false),
+      updated_at = now()
+  WHERE id = p_battle_id
+  RETURNING * INTO v_battle;
+
+  RETURN v_battle;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_set_battle_blind_voting(uuid, boolean) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_set_battle_blind_voting(uuid, boolean) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_set_battle_blind_voting(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_battle_blind_voting(uuid, boolean) TO service_role;
+
+-- -----------------------------------------------------------------------------
+-- Public home projections
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.get_public_home_battles_preview(p_limit integer DEFAULT 3)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  slug text,
+  status public.battle_status,
+  producer1_id uuid,
+  producer1_username text,
+  producer2_id uuid,
+  producer2_username text,
+  votes_producer1 integer,
+  votes_producer2 integer,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+  SELECT
+    pb.id,
+    pb.title,
+    pb.slug,
+    pb.status,
+    pb.producer1_id,
+    CASE WHEN COALESCE(b.blind_voting, false) AND pb.status <> 'completed' THEN NULL ELSE pb.producer1_username END,
+    pb.producer2_id,
+    CASE WHEN COALESCE(b.blind_voting, false) AND pb.status <> 'completed' THEN NULL ELSE pb.producer2_username END,
+    pb.votes_producer1,
+    pb.votes_producer2,
+    pb.created_at
+  FROM public.public_home_battles_preview pb
+  LEFT JOIN public.battles b ON b.id = pb.id
+  ORDER BY pb.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 3), 1), 12);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_home_battles_preview(integer) TO anon, authenticated, service_role;
+
+-- `battle_of_the_day` is a SECURITY INVOKER view over this private function
+-- (see 20260430210000); only the username columns change.
+CREATE OR REPLACE FUNCTION private._view_battle_of_the_day()
+RETURNS TABLE (
+  battle_id uuid,
+  slug text,
+  title text,
+  status public.battle_status,
+  producer1_id uuid,
+  producer1_username text,
+  producer2_id uuid,
+  producer2_username text,
+  winner_id uuid,
+  votes_today integer,
+  votes_total integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, private, pg_temp
+AS $$
+WITH daily_votes AS (
+  SELECT
+    bv.battle_id,
+    count(*)::integer AS votes_today
+  FROM public.battle_votes bv
+  WHERE bv.created_at >= date_trunc('day', now())
+    AND bv.created_at < date_trunc('day', now()) + interval '1 day'
+  GROUP BY bv.battle_id
+),
+ranked AS (
+  SELECT
+    b.id AS battle_id,
+    b.slug,
+    b.title,
+    b.status,
+    b.producer1_id,
+    b.producer2_id,
+    b.winner_id,
+    (b.blind_voting AND b.status <> 'completed') AS is_blind,
+    COALESCE(dv.votes_today, 0)::integer AS votes_today,
+    (COALESCE(b.votes_producer1, 0) + COALESCE(b.votes_producer2, 0))::integer AS votes_total,
+    row_number() OVER (
+      ORDER BY
+        COALESCE(dv.votes_today, 0) DESC,
+        (COALESCE(b.votes_producer1, 0) + COALESCE(b.votes_producer2, 0)) DESC,
+        b.updated_at DESC,
+        b.id ASC
+    ) AS rn
+  FROM public.battles b
+  LEFT JOIN daily_votes dv ON dv.battle_id = b.id
+  WHERE b.status IN ('active', 'voting', 'completed')
+)
+SELECT
+  r.battle_id,
+  r.slug,
+  r.title,
+  r.status,
+  r.producer1_id,
+  CASE WHEN r.is_blind THEN NULL ELSE p1.username END AS producer1_username,
+  r.producer2_id,
+  CASE WHEN r.is_blind THEN NULL ELSE p2.username END AS producer2_username,
+  r.winner_id,
+  r.votes_today,
+  r.votes_total
+FROM ranked r
+LEFT JOIN public.public_producer_profiles p1 ON p1.user_id = r.producer1_id
+LEFT JOIN public.public_producer_profiles p2 ON p2.user_id = r.producer2_id
+WHERE r.rn = 1;
+$$;
+
+COMMIT;
@@ -0,0 +1,814 @@
+/*
+  # Sample-flip challenges
+
+  Official campaigns only pair two applicants who bring beats they already
+  have, so the classic "everyone flips the same sample" challenge cannot run.
+  This migration adds a second campaign kind:
+
+  - `admin_battle_campaigns.campaign_kind` ('duel' keeps the existing flow,
+    'sample_flip' is the new one) with the challenge material: a downloadable
+    source pack (`source_pack_url`, stored in the public
+    `battle-campaign-source-packs` bucket), an optional BPM range and an
+    optional list of allowed keys, written the way the audio worker writes
+    `detected_key_signature` ("C#", "Am"...).
+  - `campaign_flip_submissions`: one flip per producer and campaign, sent with
+    `submit_sample_flip` until `submission_deadline`. Only beats uploaded after
+    the campaign was created are accepted, so flips are brand-new work.
+  - `evaluate_sample_flip_submission` checks a flip against the constraints
+    once the worker has analysed it, and runs again from a products trigger
+    whenever the analysis or the quality gate result changes. Detected tempos
+    within 2 BPM of the range, or at half or double time, pass. A failed
+    quality gate fails the flip; a detection below the 0.35 confidence used by
+    the upload form (or a failed analysis) leaves it for an admin to review.
+    Fingerprint duplicates are ignored on purpose: flips of one sample are
+    expected to match each other.
+  - Once the deadline has passed and every flip is resolved, admins open the
+    passed flips for community voting as a cypher battle
+    (`admin_open_sample_flip_vote`, 3 to 8 flips) or bracket them into a
+    tournament (`admin_bracket_sample_flip`). Both go through the existing
+    cypher and tournament RPCs and mark the campaign as launched.
+
+  `apply_to_admin_battle_campaign` now refuses sample-flip campaigns: they
+  take submissions, not applications.
+*/
+
+BEGIN;
+
+-- -----------------------------------------------------------------------------
+-- Campaign kind and challenge material
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE public.admin_battle_campaigns
+  ADD COLUMN IF NOT EXISTS campaign_kind text NOT NULL DEFAULT 'duel',
+  ADD COLUMN IF NOT EXISTS source_pack_url text,
+  ADD COLUMN IF NOT EXISTS flip_bpm_min numeric(5,1),
+  ADD COLUMN IF NOT EXISTS flip_bpm_max numeric(5,1),
+  ADD COLUMN IF NOT EXISTS flip_allowed_keys text[] NOT NULL DEFAULT '{}'::text[],
+  ADD COLUMN IF NOT EXISTS tournament_id uuid REFERENCES public.tournaments(id) ON DELETE SET NULL;
+
+ALTER TABLE public.admin_battle_campaigns
+  DROP CONSTRAINT IF EXISTS admin_battle_campaigns_flip_shape_check;
+
+ALTER TABLE public.admin_battle_campaigns
+  ADD CONSTRAINT admin_battle_campaigns_flip_shape_check CHECK (
+    campaign_kind IN ('duel', 'sample_flip')
+    AND (flip_bpm_min IS NULL) = (flip_bpm_max IS NULL)
+    AND (flip_bpm_min IS NULL OR (flip_bpm_min BETWEEN 40 AND 300 AND flip_bpm_max BETWEEN 40 AND 300 AND flip_bpm_min <= flip_bpm_max))
+    AND (campaign_kind = 'sample_flip' OR (source_pack_url IS NULL AND flip_bpm_min IS NULL AND cardinality(flip_allowed_keys) = 0))
+  );
+
+CREATE OR REPLACE VIEW public.admin_battle_campaigns_public
+WITH (security_invoker = true) AS
+SELECT
+  id,
+  title,
+  description,
+  social_description,
+  cover_image_url,
+  share_slug,
+  status,
+  participation_deadline,
+  submission_deadline,
+  battle_id,
+  created_at,
+  updated_at,
+  campaign_kind,
+  source_pack_url,
+  flip_bpm_min,
+  flip_bpm_max,
+  flip_allowed_keys,
+  tournament_id
+FROM public.admin_battle_campaigns
+WHERE status IN ('applications_open', 'selection_locked', 'launched');
+
+-- -----------------------------------------------------------------------------
+-- Source pack bucket
+-- -----------------------------------------------------------------------------
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_namespace WHERE nspname = 'storage') THEN
+    RAISE NOTICE 'Schema storage not found; skipping battle-campaign-source-packs bucket creation.';
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM storage.buckets WHERE id = 'battle-campaign-source-packs') THEN
+    INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+    VALUES (
+      'battle-campaign-source-packs',
+      'Sample-flip challenge source packs',
+      true,
+      524288000,
+      '{application/zip,application/x-zip-compressed,audio/wav,audio/x-wav,audio/mpeg,audio/flac,audio/x-flac,audio/aiff,audio/x-aiff}'
+    );
+  ELSE
+    UPDATE storage.buckets
+    SET public = true,
+        file_size_limit = 524288000,
+        allowed_mime_types = '{application/zip,application/x-zip-compressed,audio/wav,audio/x-wav,audio/mpeg,audio/flac,audio/x-flac,audio/aiff,audio/x-aiff}'
+    WHERE id = 'battle-campaign-source-packs';
+  END IF;
+END
+$$;
+
+DO $$
+DECLARE
+  objects_exists boolean;
+BEGIN
+  SELECT EXISTS (
+    SELECT 1
+    FROM information_schema.tables
+    WHERE table_schema = 'storage'
+      AND table_name = 'objects'
+  ) INTO objects_exists;
+
+  IF NOT objects_exists THEN
+    RAISE NOTICE 'storage.objects not found; skipping battle-campaign-source-packs storage policies.';
+    RETURN;
+  END IF;
+
+  DROP POLICY IF EXISTS "Anyone can view campaign source packs" ON storage.objects;
+  DROP POLICY IF EXISTS "Admins can upload campaign source packs" ON storage.objects;
+  DROP POLICY IF EXISTS "Admins can update campaign source packs" ON storage.objects;
+  DROP POLICY IF EXISTS "Admins can delete campaign source packs" ON storage.objects;
+
+  CREATE POLICY "Anyone can view campaign source packs"
+    ON storage.objects
+    FOR SELECT
+    TO anon, authenticated
+    USING (
+      bucket_id = 'battle-campaign-source-packs'
+      AND name LIKE 'campaigns/%'
+    );
+
+  CREATE POLICY "Admins can upload campaign source packs"
+    ON storage.objects
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+      bucket_id = 'battle-campaign-source-packs'
+      AND name LIKE 'campaigns/%'
+      AND public.is_admin(auth.uid())
+    );
+
+  CREATE POLICY "Admins can update campaign source packs"
+    ON storage.objects
+    FOR UPDATE
+    TO authenticated
+    USING (
+      bucket_id = 'battle-campaign-source-packs'
+      AND name LIKE 'campaigns/%'
+      AND public.is_admin(auth.uid())
+    )
+    WITH CHECK (
+      bucket_id = 'battle-campaign-source-packs'
+      AND name LIKE 'campaigns/%'
+      AND public.is_admin(auth.uid())
+    );
+
+  CREATE POLICY "Admins can delete campaign source packs"
+    ON storage.objects
+    FOR DELETE
+    TO authenticated
+    USING (
+      bucket_id = 'battle-campaign-source-packs'
+      AND name LIKE 'campaigns/%'
+      AND public.is_admin(auth.uid())
+    );
+END
+$$;
+
+-- -----------------------------------------------------------------------------
+-- Submissions
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS public.campaign_flip_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id uuid NOT NULL REFERENCES public.admin_battle_campaigns(id) ON DELETE CASCADE,
+  producer_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending_check',
+  check_report jsonb NOT NULL DEFAULT '{}'::jsonb,
+  checked_at timestamptz,
+  reviewed_by uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT campaign_flip_submissions_campaign_producer_key UNIQUE (campaign_id, producer_id)
+);
+
+ALTER TABLE public.campaign_flip_submissions
+  DROP CONSTRAINT IF EXISTS campaign_flip_submissions_status_check;
+
+ALTER TABLE public.campaign_flip_submissions
+  ADD CONSTRAINT campaign_flip_submissions_status_check CHECK (
+    status IN ('pending_check', 'passed', 'failed', 'needs_review')
+  );
+
+CREATE INDEX IF NOT EXISTS idx_campaign_flip_submissions_product_id
+  ON public.campaign_flip_submissions (product_id);
+
+ALTER TABLE public.campaign_flip_submissions ENABLE ROW LEVEL SECURITY;
+
+REVOKE INSERT, UPDATE, DELETE ON TABLE public.campaign_flip_submissions FROM anon, authenticated;
+GRANT SELECT ON TABLE public.campaign_flip_submissions TO authenticated;
+GRANT ALL ON TABLE public.campaign_flip_submissions TO service_role;
+
+DROP POLICY IF EXISTS "Producers can read their own flip submissions" ON public.campaign_flip_submissions;
+CREATE POLICY "Producers can read their own flip submissions"
+ON public.campaign_flip_submissions
+FOR SELECT
+TO authenticated
+USING (producer_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can read flip submissions" ON public.campaign_flip_submissions;
+CREATE POLICY "Admins can read flip submissions"
+ON public.campaign_flip_submissions
+FOR SELECT
+TO authenticated
+USING (public.is_admin((SELECT auth.uid())));
+
+-- -----------------------------------------------------------------------------
+-- Constraint check
+-- -----------------------------------------------------------------------------
+
+-- Mirrors evaluateSampleFlip in src/lib/battles/sampleFlip.ts.
+CREATE OR REPLACE FUNCTION public.evaluate_sample_flip_submission(p_submission_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_submission public.campaign_flip_submissions%ROWTYPE;
+  v_campaign public.admin_battle_campaigns%ROWTYPE;
+  v_product public.products%ROWTYPE;
+  v_reasons text[] := '{}'::text[];
+  v_uncertain boolean := false;
+  v_status text;
+BEGIN
+  SELECT * INTO v_submission
+  FROM public.campaign_flip_submissions
+  WHERE id = p_submission_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- An admin decision is final.
+  IF v_submission.reviewed_at IS NOT NULL THEN
+    RETURN v_submission.status;
+  END IF;
+
+  SELECT * INTO v_campaign FROM public.admin_battle_campaigns WHERE id = v_submission.campaign_id;
+  SELECT * INTO v_product FROM public.products WHERE id = v_submission.product_id;
+
+  IF v_product.audio_analyzed_at IS NULL THEN
+    IF v_product.audio_analysis_error IS NULL THEN
+      v_status := 'pending_check';
+    ELSE
+      v_status := 'needs_review';
+      v_reasons := array_append(v_reasons, 'analysis_failed');
+    END IF;
+  ELSE
+    IF v_product.audio_quality_status = 'failed' THEN
+      v_reasons := array_append(v_reasons, 'quality_failed');
+    END IF;
+
+    IF v_campaign.flip_bpm_min IS NOT NULL THEN
+      IF v_product.detected_bpm IS NULL OR COALESCE(v_product.detected_bpm_confidence, 0) < 0.35 THEN
+        v_uncertain := true;
+        v_reasons := array_append(v_reasons, 'bpm_uncertain');
+      ELSIF NOT EXISTS (
+        SELECT 1
+        FROM unnest(ARRAY[v_product.detected_bpm, v_product.detected_bpm / 2, v_product.detected_bpm * 2]) AS candidate(bpm)
+        WHERE candidate.bpm BETWEEN v_campaign.flip_bpm_min - 2 AND v_campaign.flip_bpm_max + 2
+      ) THEN
+        v_reasons := array_append(v_reasons, 'bpm_out_of_range');
+      END IF;
+    END IF;
+
+    IF cardinality(v_campaign.flip_allowed_keys) > 0 THEN
+      IF v_product.detected_key_signature IS NULL OR COALESCE(v_product.detected_key_confidence, 0) < 0.35 THEN
+        v_uncertain := true;
+        v_reasons := array_append(v_reasons, 'key_uncertain');
+      ELSIF NOT (v_product.detected_key_signature = ANY (v_campaign.flip_allowed_keys)) THEN
+        v_reasons := array_append(v_reasons, 'key_not_allowed');
+      END IF;
+    END IF;
+
+    v_status := CASE
+      WHEN EXISTS (
+        SELECT 1 FROM unnest(v_reasons) AS reason
+        WHERE reason NOT IN ('bpm_uncertain', 'key_uncertain')
+      ) THEN 'failed'
+      WHEN v_uncertain THEN 'needs_review'
+      ELSE 'passed'
+    END;
+  END IF;
+
+  UPDATE public.campaign_flip_submissions
+  SET status = v_status,
+      check_report = jsonb_build_object(
+        'reasons', to_jsonb(v_reasons),
+        'detected_bpm', v_product.detected_bpm,
+        'detected_bpm_confidence', v_product.detected_bpm_confidence,
+        'detected_key_signature', v_product.detected_key_signature,
+        'detected_key_confidence', v_product.detected_key_confidence,
+        'audio_quality_status', v_product.audio_quality_status
+      ),
+      checked_at = CASE WHEN v_status = 'pending_check' THEN NULL ELSE now() END,
+      updated_at = now()
+  WHERE id = p_submission_id;
+
+  RETURN v_status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_sample_flip_submission(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.evaluate_sample_flip_submission(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.evaluate_sample_flip_submission(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.evaluate_sample_flip_submission(uuid) TO service_role;
+
+-- Re-checks open flips when the worker writes an analysis or quality result.
+CREATE OR REPLACE FUNCTION public.sync_sample_flip_submissions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_submission_id uuid;
+BEGIN
+  FOR v_submission_id IN
+    SELECT s.id
+    FROM public.campaign_flip_submissions s
+    JOIN public.admin_battle_campaigns c ON c.id = s.campaign_id
+    WHERE s.product_id = NEW.id
+      AND s.reviewed_at IS NULL
+      AND c.status = 'applications_open'
+  LOOP
+    PERFORM public.evaluate_sample_flip_submission(v_submission_id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_sample_flip_submissions() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.sync_sample_flip_submissions() FROM anon;
+REVOKE EXECUTE ON FUNCTION public.sync_sample_flip_submissions() FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.sync_sample_flip_submissions() TO service_role;
+
+DROP TRIGGER IF EXISTS trg_sync_sample_flip_submissions ON public.products;
+CREATE TRIGGER trg_sync_sample_flip_submissions
+  AFTER UPDATE OF audio_analyzed_at, audio_analysis_error, audio_quality_status
+  ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_sample_flip_submissions();
+
+-- -----------------------------------------------------------------------------
+-- Producer submission
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.submit_sample_flip(
+  p_campaign_id uuid,
+  p_product_id uuid
+)
+RETURNS public.campaign_flip_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_campaign public.admin_battle_campaigns%ROWTYPE;
+  v_submission public.campaign_flip_submissions%ROWTYPE;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'auth_required';
+  END IF;
+
+  IF NOT public.is_current_user_active(v_actor) THEN
+    RAISE EXCEPTION 'account_deleted_or_inactive';
+  END IF;
+
+  PERFORM 1
+  FROM public.user_profiles up
+  WHERE up.id = v_actor
+    AND up.role IN ('producer', 'admin')
+    AND up.is_producer_active = true
+    AND COALESCE(up.is_deleted, false) = false
+    AND up.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'producer_active_required';
+  END IF;
+
+  SELECT *
+  INTO v_campaign
+  FROM public.admin_battle_campaigns
+  WHERE id = p_campaign_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'campaign_not_found';
+  END IF;
+
+  IF v_campaign.campaign_kind <> 'sample_flip' THEN
+    RAISE EXCEPTION 'campaign_not_sample_flip';
+  END IF;
+
+  IF v_campaign.status <> 'applications_open' THEN
+    RAISE EXCEPTION 'campaign_not_open';
+  END IF;
+
+  IF v_campaign.submission_deadline < now() THEN
+    RAISE EXCEPTION 'campaign_submission_closed';
+  END IF;
+
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id = p_product_id
+    AND p.producer_id = v_actor
+    AND p.product_type = 'beat'
+    AND p.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'invalid_flip_product';
+  END IF;
+
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id = p_product_id
+    AND p.created_at >= v_campaign.created_at;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'flip_product_predates_campaign';
+  END IF;
+
+  INSERT INTO public.campaign_flip_submissions (campaign_id, producer_id, product_id)
+  VALUES (p_campaign_id, v_actor, p_product_id)
+  ON CONFLICT (campaign_id, producer_id)
+  DO UPDATE SET
+    product_id = EXCLUDED.product_id,
+    status = 'pending_check',
+    check_report = '{}'::jsonb,
+    checked_at = NULL,
+    reviewed_by = NULL,
+    reviewed_at = NULL,
+    updated_at = now()
+  RETURNING * INTO v_submission;
+
+  PERFORM public.evaluate_sample_flip_submission(v_submission.id);
+
+  SELECT * INTO v_submission
+  FROM public.campaign_flip_submissions
+  WHERE id = v_submission.id;
+
+  RETURN v_submission;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_sample_flip(uuid, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.submit_sample_flip(uuid, uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.submit_sample_flip(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_sample_flip(uuid, uuid) TO service_role;
+
+-- -----------------------------------------------------------------------------
+-- Applications stay a duel-only flow
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.apply_to_admin_battle_campaign(
+  p_campaign_id uuid,
+  p_message text DEFAULT NULL,
+  p_proposed_product_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  success boolean,
+  status text,
+  message text,
+  application_id uuid
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_campaign public.admin_battle_campaigns%ROWTYPE;
+  v_application_id uuid;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'auth_required';
+  END IF;
+
+  IF NOT public.is_current_user_active(v_actor) THEN
+    RAISE EXCEPTION 'account_deleted_or_inactive';
+  END IF;
+
+  PERFORM 1
+  FROM public.user_profiles up
+  WHERE up.id = v_actor
+    AND up.role IN ('producer', 'admin')
+    AND up.is_producer_active = true
+    AND COALESCE(up.is_deleted, false) = false
+    AND up.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'producer_active_required';
+  END IF;
+
+  SELECT *
+  INTO v_campaign
+  FROM public.admin_battle_campaigns
+  WHERE id = p_campaign_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'campaign_not_found';
+  END IF;
+
+  IF v_campaign.campaign_kind = 'sample_flip' THEN
+    RAISE EXCEPTION 'campaign_requires_flip_submission';
+  END IF;
+
+  IF v_campaign.status <> 'applications_open' THEN
+    RAISE EXCEPTION 'campaign_not_open';
+  END IF;
+
+  IF v_campaign.participation_deadline < now() THEN
+    RAISE EXCEPTION 'campaign_participation_closed';
+  END IF;
+
+  IF p_proposed_product_id IS NOT NULL THEN
+    PERFORM 1
+    FROM public.products p
+    WHERE p.id = p_proposed_product_id
+      AND p.producer_id = v_actor
+      AND p.product_type = 'beat'
+      AND p.status = 'active'
+      AND p.is_published = true
+      AND p.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_proposed_product';
+    END IF;
+  END IF;
+
+  INSERT INTO public.admin_battle_applications (
+    campaign_id,
+    producer_id,
+    message,
+    proposed_product_id,
+    admin_feedback,
+    admin_feedback_at,
+    status
+  )
+  VALUES (
+    p_campaign_id,
+    v_actor,
+    NULLIF(btrim(COALESCE(p_message, '')), ''),
+    p_proposed_product_id,
+    NULL,
+    NULL,
+    'pending'
+  )
+  ON CONFLICT (campaign_id, producer_id)
+  DO UPDATE SET
+    message = EXCLUDED.message,
+    proposed_product_id = EXCLUDED.proposed_product_id,
+    admin_feedback = NULL,
+    admin_feedback_at = NULL,
+    status = 'pending'::public.admin_battle_application_status,
+    updated_at = now()
+  RETURNING id INTO v_application_id;
+
+  RETURN QUERY
+  SELECT true, 'applied'::text, 'Application submitted.'::text, v_application_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_to_admin_battle_campaign(uuid, text, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.apply_to_admin_battle_campaign(uuid, text, uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.apply_to_admin_battle_campaign(uuid, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_to_admin_battle_campaign(uuid, text, uuid) TO service_role;
+
+-- -----------------------------------------------------------------------------
+-- Admin RPCs
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.admin_review_flip_submission(
+  p_submission_id uuid,
+  p_accept boolean
+)
+RETURNS public.campaign_flip_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_submission public.campaign_flip_submissions%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin(v_actor) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  IF p_accept IS NULL THEN
+    RAISE EXCEPTION 'invalid_review_decision';
+  END IF;
+
+  UPDATE public.campaign_flip_submissions s
+  SET status = CASE WHEN p_accept THEN 'passed' ELSE 'failed' END,
+      reviewed_by = v_actor,
+      reviewed_at = now(),
+      updated_at = now()
+  FROM public.admin_battle_campaigns c
+  WHERE s.id = p_submission_id
+    AND c.id = s.campaign_id
+    AND c.status = 'applications_open'
+  RETURNING s.* INTO v_submission;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'flip_submission_not_found';
+  END IF;
+
+  RETURN v_submission;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_review_flip_submission(uuid, boolean) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_review_flip_submission(uuid, boolean) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_review_flip_submission(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_review_flip_submission(uuid, boolean) TO service_role;
+
+-- Shared guard for both launch paths; returns the locked campaign.
+CREATE OR REPLACE FUNCTION public.lock_sample_flip_campaign_for_launch(p_campaign_id uuid)
+RETURNS public.admin_battle_campaigns
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_campaign public.admin_battle_campaigns%ROWTYPE;
+BEGIN
+  SELECT *
+  INTO v_campaign
+  FROM public.admin_battle_campaigns
+  WHERE id = p_campaign_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'campaign_not_found';
+  END IF;
+
+  IF v_campaign.campaign_kind <> 'sample_flip' THEN
+    RAISE EXCEPTION 'campaign_not_sample_flip';
+  END IF;
+
+  IF v_campaign.status = 'launched' THEN
+    RAISE EXCEPTION 'campaign_already_launched';
+  END IF;
+
+  IF v_campaign.status <> 'applications_open' THEN
+    RAISE EXCEPTION 'campaign_not_open';
+  END IF;
+
+  IF v_campaign.submission_deadline > now() THEN
+    RAISE EXCEPTION 'campaign_submissions_still_open';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.campaign_flip_submissions s
+    WHERE s.campaign_id = p_campaign_id
+      AND s.status IN ('pending_check', 'needs_review')
+  ) THEN
+    RAISE EXCEPTION 'flip_submissions_unresolved';
+  END IF;
+
+  RETURN v_campaign;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_sample_flip_campaign_for_launch(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.lock_sample_flip_campaign_for_launch(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.lock_sample_flip_campaign_for_launch(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.lock_sample_flip_campaign_for_launch(uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.admin_open_sample_flip_vote(
+  p_campaign_id uuid,
+  p_voting_duration_hours integer DEFAULT 72
+)
+RETURNS public.battles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_campaign public.admin_battle_campaigns%ROWTYPE;
+  v_entrants jsonb;
+  v_battle public.battles%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  v_campaign := public.lock_sample_flip_campaign_for_launch(p_campaign_id);
+
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object('producer_id', s.producer_id, 'product_id', s.product_id) ORDER BY s.created_at),
+    '[]'::jsonb
+  )
+  INTO v_entrants
+  FROM public.campaign_flip_submissions s
+  WHERE s.campaign_id = p_campaign_id
+    AND s.status = 'passed';
+
+  -- Entrant count, beat eligibility and the battle itself are handled there.
+  v_battle := public.admin_create_cypher_battle(
+    v_campaign.title,
+    v_campaign.description,
+    v_entrants,
+    p_voting_duration_hours
+  );
+
+  UPDATE public.admin_battle_campaigns
+  SET battle_id = v_battle.id,
+      status = 'launched',
+      launched_at = now(),
+      updated_at = now()
+  WHERE id = p_campaign_id;
+
+  SELECT * INTO v_battle FROM public.battles WHERE id = v_battle.id;
+
+  RETURN v_battle;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_open_sample_flip_vote(uuid, integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_open_sample_flip_vote(uuid, integer) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_open_sample_flip_vote(uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_open_sample_flip_vote(uuid, integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.admin_bracket_sample_flip(
+  p_campaign_id uuid,
+  p_format text DEFAULT 'single_elimination',
+  p_round_duration_hours integer DEFAULT 72
+)
+RETURNS public.tournaments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_campaign public.admin_battle_campaigns%ROWTYPE;
+  v_tournament public.tournaments%ROWTYPE;
+  v_submission record;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  v_campaign := public.lock_sample_flip_campaign_for_launch(p_campaign_id);
+
+  v_tournament := public.admin_create_tournament(
+    v_campaign.title,
+    v_campaign.description,
+    p_format,
+    p_round_duration_hours
+  );
+
+  FOR v_submission IN
+    SELECT s.producer_id, s.product_id
+    FROM public.campaign_flip_submissions s
+    WHERE s.campaign_id = p_campaign_id
+      AND s.status = 'passed'
+    ORDER BY s.created_at
+  LOOP
+    PERFORM public.admin_add_tournament_entrant(v_tournament.id, v_submission.producer_id, v_submission.product_id);
+  END LOOP;
+
+  PERFORM public.admin_start_tournament(v_tournament.id);
+
+  UPDATE public.admin_battle_campaigns
+  SET tournament_id = v_tournament.id,
+      status = 'launched',
+      launched_at = now(),
+      updated_at = now()
+  WHERE id = p_campaign_id;
+
+  SELECT * INTO v_tournament FROM public.tournaments WHERE id = v_tournament.id;
+
+  RETURN v_tournament;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_bracket_sample_flip(uuid, text, integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_bracket_sample_flip(uuid, text, integer) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_bracket_sample_flip(uuid, text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_bracket_sample_flip(uuid, text, integer) TO service_role;
+
+COMMIT;
@@ -0,0 +1,892 @@
+/*
+  # Judge panels for battles
+
+  The `battle_vote_feedback` criteria are only gathered from public voters, so
+  sponsored events have no way to bring in invited experts whose opinion
+  counts differently. This migration adds an optional judge panel:
+
+  - `battles.judge_weight` turns the panel on and sets the formula. A
+    competitor's final score is
+      judge_weight * (judge average / 10) + (1 - judge_weight) * vote share
+    where the vote share is their share of the duel votes, or of the cypher
+    points. NULL (the default) keeps the community vote as the only input.
+  - `battle_judges` lists the invited judges, who cannot compete in the
+    battle they judge.
+  - `battle_judge_scorecards`: one private scorecard per judge and competitor,
+    with a 1-10 score for every `battle_vote_feedback` criterion and an
+    optional comment. Judges only read their own cards, admins read all of
+    them. Cards are sent with `submit_battle_judge_scorecard` while the battle
+    is active or voting.
+  - `compute_battle_judged_scores` applies the formula. When a judged battle
+    is finalized with at least one scorecard, `finalize_battle` picks the
+    winner (and the cypher ranking) from the final scores instead of the raw
+    votes. A panel that never scored leaves the community result untouched.
+  - `get_battle_judging_results` returns the breakdown of a completed battle
+    to everyone, and the judges' comments to the producers they are about
+    (admins get all of them). Nothing is returned before completion.
+*/
+
+BEGIN;
+
+-- -----------------------------------------------------------------------------
+-- Formula
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE public.battles
+  ADD COLUMN IF NOT EXISTS judge_weight numeric(3,2);
+
+ALTER TABLE public.battles
+  DROP CONSTRAINT IF EXISTS battles_judge_weight_check;
+
+ALTER TABLE public.battles
+  ADD CONSTRAINT battles_judge_weight_check CHECK (
+    judge_weight IS NULL OR judge_weight BETWEEN 0 AND 1
+  );
+
+-- -----------------------------------------------------------------------------
+-- Judges and scorecards
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS public.battle_judges (
+  battle_id uuid NOT NULL REFERENCES public.battles(id) ON DELETE CASCADE,
+  judge_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  invited_by uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (battle_id, judge_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_battle_judges_judge_id
+  ON public.battle_judges (judge_id);
+
+CREATE TABLE IF NOT EXISTS public.battle_judge_scorecards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  battle_id uuid NOT NULL,
+  judge_id uuid NOT NULL,
+  producer_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  criterion_scores jsonb NOT NULL,
+  comment text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT battle_judge_scorecards_judge_fkey
+    FOREIGN KEY (battle_id, judge_id) REFERENCES public.battle_judges(battle_id, judge_id) ON DELETE CASCADE,
+  CONSTRAINT battle_judge_scorecards_judge_producer_key UNIQUE (battle_id, judge_id, producer_id)
+);
+
+ALTER TABLE public.battle_judge_scorecards
+  DROP CONSTRAINT IF EXISTS battle_judge_scorecards_shape_check;
+
+ALTER TABLE public.battle_judge_scorecards
+  ADD CONSTRAINT battle_judge_scorecards_shape_check CHECK (
+    jsonb_typeof(criterion_scores) = 'object'
+    AND (comment IS NULL OR char_length(comment) <= 2000)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_battle_judge_scorecards_battle_producer
+  ON public.battle_judge_scorecards (battle_id, producer_id);
+
+ALTER TABLE public.battle_judges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.battle_judge_scorecards ENABLE ROW LEVEL SECURITY;
+
+REVOKE INSERT, UPDATE, DELETE ON TABLE public.battle_judges FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON TABLE public.battle_judge_scorecards FROM anon, authenticated;
+GRANT SELECT ON TABLE public.battle_judges TO authenticated;
+GRANT SELECT ON TABLE public.battle_judge_scorecards TO authenticated;
+GRANT ALL ON TABLE public.battle_judges TO service_role;
+GRANT ALL ON TABLE public.battle_judge_scorecards TO service_role;
+
+DROP POLICY IF EXISTS "Judges can read their own panel seats" ON public.battle_judges;
+CREATE POLICY "Judges can read their own panel seats"
+ON public.battle_judges
+FOR SELECT
+TO authenticated
+USING (judge_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can read battle judges" ON public.battle_judges;
+CREATE POLICY "Admins can read battle judges"
+ON public.battle_judges
+FOR SELECT
+TO authenticated
+USING (public.is_admin((SELECT auth.uid())));
+
+DROP POLICY IF EXISTS "Judges can read their own scorecards" ON public.battle_judge_scorecards;
+CREATE POLICY "Judges can read their own scorecards"
+ON public.battle_judge_scorecards
+FOR SELECT
+TO authenticated
+USING (judge_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can read judge scorecards" ON public.battle_judge_scorecards;
+CREATE POLICY "Admins can read judge scorecards"
+ON public.battle_judge_scorecards
+FOR SELECT
+TO authenticated
+USING (public.is_admin((SELECT auth.uid())));
+
+-- -----------------------------------------------------------------------------
+-- Competitors
+-- -----------------------------------------------------------------------------
+
+-- Duel producers or cypher entrants, with the community share they earned.
+CREATE OR REPLACE FUNCTION public.get_battle_competitor_shares(p_battle_id uuid)
+RETURNS TABLE (producer_id uuid, community_score numeric)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  WITH competitors AS (
+    SELECT b.producer1_id AS producer_id, b.votes_producer1::numeric AS tally
+    FROM public.battles b
+    WHERE b.id = p_battle_id
+      AND b.battle_format = 'duel'
+    UNION ALL
+    SELECT b.producer2_id, b.votes_producer2::numeric
+    FROM public.battles b
+    WHERE b.id = p_battle_id
+      AND b.battle_format = 'duel'
+      AND b.producer2_id IS NOT NULL
+    UNION ALL
+    SELECT be.producer_id, be.points::numeric
+    FROM public.battle_entrants be
+    JOIN public.battles b ON b.id = be.battle_id
+    WHERE be.battle_id = p_battle_id
+      AND b.battle_format = 'cypher'
+  )
+  SELECT
+    c.producer_id,
+    COALESCE(c.tally / NULLIF(SUM(c.tally) OVER (), 0), 0)::numeric AS community_score
+  FROM competitors c;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_battle_competitor_shares(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.get_battle_competitor_shares(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.get_battle_competitor_shares(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_battle_competitor_shares(uuid) TO service_role;
+
+-- -----------------------------------------------------------------------------
+-- Admin panel management
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.admin_set_battle_judge_weight(p_battle_id uuid, p_judge_weight numeric DEFAULT NULL)
+RETURNS public.battles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_battle public.battles%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  IF p_judge_weight IS NOT NULL AND (p_judge_weight < 0 OR p_judge_weight > 1) THEN
+    RAISE EXCEPTION 'invalid_judge_weight';
+  END IF;
+
+  SELECT *
+  INTO v_battle
+  FROM public.battles
+  WHERE id = p_battle_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'battle_not_found';
+  END IF;
+
+  IF v_battle.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'battle_already_completed';
+  END IF;
+
+  UPDATE public.battles
+  SET judge_weight = round(p_judge_weight, 2),
+      updated_at = now()
+  WHERE id = p_battle_id
+  RETURNING * INTO v_battle;
+
+  RETURN v_battle;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_set_battle_judge_weight(uuid, numeric) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_set_battle_judge_weight(uuid, numeric) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_set_battle_judge_weight(uuid, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_battle_judge_weight(uuid, numeric) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.admin_add_battle_judge(p_battle_id uuid, p_username text)
+RETURNS public.battle_judges
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_battle public.battles%ROWTYPE;
+  v_judge_id uuid;
+  v_row public.battle_judges%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin(v_actor) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  SELECT *
+  INTO v_battle
+  FROM public.battles
+  WHERE id = p_battle_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'battle_not_found';
+  END IF;
+
+  IF v_battle.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'battle_already_completed';
+  END IF;
+
+  SELECT up.id
+  INTO v_judge_id
+  FROM public.user_profiles up
+  WHERE lower(up.username) = lower(btrim(COALESCE(p_username, '')));
+
+  IF v_judge_id IS NULL THEN
+    RAISE EXCEPTION 'judge_user_not_found';
+  END IF;
+
+  IF v_judge_id IN (v_battle.producer1_id, v_battle.producer2_id)
+    OR EXISTS (
+      SELECT 1
+      FROM public.battle_entrants be
+      WHERE be.battle_id = p_battle_id
+        AND be.producer_id = v_judge_id
+    ) THEN
+    RAISE EXCEPTION 'judge_is_competitor';
+  END IF;
+
+  INSERT INTO public.battle_judges (battle_id, judge_id, invited_by)
+  VALUES (p_battle_id, v_judge_id, v_actor)
+  ON CONFLICT (battle_id, judge_id) DO UPDATE
+    SET invited_by = public.battle_judges.invited_by
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_add_battle_judge(uuid, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_add_battle_judge(uuid, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_add_battle_judge(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_add_battle_judge(uuid, text) TO service_role;
+
+-- Removing a judge drops their scorecards with them.
+CREATE OR REPLACE FUNCTION public.admin_remove_battle_judge(p_battle_id uuid, p_judge_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_status public.battle_status;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  SELECT b.status
+  INTO v_status
+  FROM public.battles b
+  WHERE b.id = p_battle_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'battle_not_found';
+  END IF;
+
+  IF v_status = 'completed' THEN
+    RAISE EXCEPTION 'battle_already_completed';
+  END IF;
+
+  DELETE FROM public.battle_judges
+  WHERE battle_id = p_battle_id
+    AND judge_id = p_judge_id;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_remove_battle_judge(uuid, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.admin_remove_battle_judge(uuid, uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_remove_battle_judge(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_remove_battle_judge(uuid, uuid) TO service_role;
+
+-- -----------------------------------------------------------------------------
+-- Scorecards
+-- -----------------------------------------------------------------------------
+
+-- p_scores: {"groove": 8, "melody": 6, ...} with every feedback criterion
+-- scored from 1 to 10. Sending a card again replaces it.
+CREATE OR REPLACE FUNCTION public.submit_battle_judge_scorecard(
+  p_battle_id uuid,
+  p_producer_id uuid,
+  p_scores jsonb,
+  p_comment text DEFAULT NULL
+)
+RETURNS public.battle_judge_scorecards
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_status public.battle_status;
+  v_comment text := NULLIF(btrim(COALESCE(p_comment, '')), '');
+  v_criteria text[] := ARRAY[
+    'groove',
+    'melody',
+    'ambience',
+    'sound_design',
+    'drums',
+    'mix',
+    'originality',
+    'energy',
+    'artistic_vibe'
+  ];
+  v_row public.battle_judge_scorecards%ROWTYPE;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'auth_required';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.battle_judges bj
+    WHERE bj.battle_id = p_battle_id
+      AND bj.judge_id = v_actor
+  ) THEN
+    RAISE EXCEPTION 'judge_required';
+  END IF;
+
+  SELECT b.status
+  INTO v_status
+  FROM public.battles b
+  WHERE b.id = p_battle_id;
+
+  IF v_status IS NULL OR v_status NOT IN ('active', 'voting') THEN
+    RAISE EXCEPTION 'battle_not_open_for_judging';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.get_battle_competitor_shares(p_battle_id) c
+    WHERE c.producer_id = p_producer_id
+  ) THEN
+    RAISE EXCEPTION 'judge_producer_invalid';
+  END IF;
+
+  IF p_scores IS NULL
+    OR jsonb_typeof(p_scores) <> 'object'
+    OR (SELECT count(*) FROM jsonb_object_keys(p_scores)) <> cardinality(v_criteria)
+    OR EXISTS (
+      SELECT 1
+      FROM jsonb_each(p_scores) AS s(criterion, score)
+      WHERE s.criterion <> ALL (v_criteria)
+        OR jsonb_typeof(s.score) <> 'number'
+        OR (s.score #>> '{}')::numeric NOT IN (1, 2, 3, 4, 5, 6, 7, 8, 9, 10)
+    ) THEN
+    RAISE EXCEPTION 'judge_scores_invalid';
+  END IF;
+
+  IF char_length(COALESCE(v_comment, '')) > 2000 THEN
+    RAISE EXCEPTION 'judge_comment_too_long';
+  END IF;
+
+  INSERT INTO public.battle_judge_scorecards (battle_id, judge_id, producer_id, criterion_scores, comment)
+  VALUES (p_battle_id, v_actor, p_producer_id, p_scores, v_comment)
+  ON CONFLICT (battle_id, judge_id, producer_id) DO UPDATE
+    SET criterion_scores = EXCLUDED.criterion_scores,
+        comment = EXCLUDED.comment,
+        updated_at = now()
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_battle_judge_scorecard(uuid, uuid, jsonb, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.submit_battle_judge_scorecard(uuid, uuid, jsonb, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.submit_battle_judge_scorecard(uuid, uuid, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_battle_judge_scorecard(uuid, uuid, jsonb, text) TO service_role;
+
+-- -----------------------------------------------------------------------------
+-- Final scores
+-- -----------------------------------------------------------------------------
+
+-- Mirrors combineJudgedScore in src/lib/battles/judging.ts. judge_score is the
+-- mean of every card's criterion average, on a 0-1 scale.
+CREATE OR REPLACE FUNCTION public.compute_battle_judged_scores(p_battle_id uuid)
+RETURNS TABLE (
+  producer_id uuid,
+  community_score numeric,
+  judge_score numeric,
+  scorecard_count integer,
+  final_score numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  WITH cards AS (
+    SELECT
+      sc.producer_id,
+      (SELECT avg(s.value::numeric) FROM jsonb_each_text(sc.criterion_scores) AS s) / 10 AS card_score
+    FROM public.battle_judge_scorecards sc
+    WHERE sc.battle_id = p_battle_id
+  ),
+  judged AS (
+    SELECT cards.producer_id, avg(cards.card_score) AS judge_score, count(*)::integer AS scorecard_count
+    FROM cards
+    GROUP BY cards.producer_id
+  ),
+  weight AS (
+    SELECT CASE WHEN EXISTS (SELECT 1 FROM cards) THEN b.judge_weight END AS judge_weight
+    FROM public.battles b
+    WHERE b.id = p_battle_id
+  )
+  SELECT
+    c.producer_id,
+    round(c.community_score, 4),
+    round(j.judge_score, 4),
+    COALESCE(j.scorecard_count, 0),
+    round(
+      CASE
+        WHEN w.judge_weight IS NULL THEN c.community_score
+        ELSE w.judge_weight * COALESCE(j.judge_score, 0) + (1 - w.judge_weight) * c.community_score
+      END,
+      4
+    )
+  FROM public.get_battle_competitor_shares(p_battle_id) c
+  CROSS JOIN weight w
+  LEFT JOIN judged j ON j.producer_id = c.producer_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.compute_battle_judged_scores(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.compute_battle_judged_scores(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.compute_battle_judged_scores(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.compute_battle_judged_scores(uuid) TO service_role;
+
+-- Winner of a judged battle: the single best final score, NULL on a tie.
+-- Cypher entrants are re-ranked on the same scores.
+CREATE OR REPLACE FUNCTION public.apply_battle_judging(p_battle_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_winner_id uuid;
+BEGIN
+  WITH scores AS (
+    SELECT s.producer_id, RANK() OVER (ORDER BY s.final_score DESC) AS final_rank
+    FROM public.compute_battle_judged_scores(p_battle_id) s
+  )
+  UPDATE public.battle_entrants be
+  SET final_rank = scores.final_rank,
+      updated_at = now()
+  FROM scores
+  WHERE be.battle_id = p_battle_id
+    AND be.producer_id = scores.producer_id;
+
+  WITH scores AS (
+    SELECT
+      s.producer_id,
+      s.final_score,
+      RANK() OVER (ORDER BY s.final_score DESC) AS final_rank
+    FROM public.compute_battle_judged_scores(p_battle_id) s
+  )
+  SELECT scores.producer_id
+  INTO v_winner_id
+  FROM scores
+  WHERE scores.final_rank = 1
+    AND scores.final_score > 0
+    AND (SELECT count(*) FROM scores tied WHERE tied.final_rank = 1) = 1;
+
+  RETURN v_winner_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_battle_judging(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.apply_battle_judging(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.apply_battle_judging(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_battle_judging(uuid) TO service_role;
+
+-- -----------------------------------------------------------------------------
+-- Public results
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.get_battle_judging_results(p_battle_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_battle public.battles%ROWTYPE;
+  v_is_admin boolean := public.is_admin(v_actor);
+  v_judge_count integer;
+  v_scored boolean;
+BEGIN
+  SELECT *
+  INTO v_battle
+  FROM public.battles
+  WHERE id = p_battle_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'battle_not_found');
+  END IF;
+
+  IF v_battle.judge_weight IS NULL THEN
+    RETURN jsonb_build_object('has_panel', false);
+  END IF;
+
+  SELECT count(*)::integer
+  INTO v_judge_count
+  FROM public.battle_judges bj
+  WHERE bj.battle_id = p_battle_id;
+
+  IF v_battle.status <> 'completed' THEN
+    RETURN jsonb_build_object(
+      'has_panel', true,
+      'completed', false,
+      'judge_weight', v_battle.judge_weight,
+      'judge_count', v_judge_count
+    );
+  END IF;
+
+  v_scored := EXISTS (
+    SELECT 1
+    FROM public.battle_judge_scorecards sc
+    WHERE sc.battle_id = p_battle_id
+  );
+
+  RETURN jsonb_build_object(
+    'has_panel', true,
+    'completed', true,
+    'judge_weight', v_battle.judge_weight,
+    'judge_count', v_judge_count,
+    'scored', v_scored,
+    'entries', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'producer_id', s.producer_id,
+          'username', up.username,
+          'community_score', s.community_score,
+          'judge_score', s.judge_score,
+          'scorecard_count', s.scorecard_count,
+          'final_score', s.final_score,
+          'criteria', COALESCE((
+            SELECT jsonb_object_agg(c.criterion, c.average)
+            FROM (
+              SELECT cs.key AS criterion, round(avg(cs.value::numeric), 2) AS average
+              FROM public.battle_judge_scorecards sc
+              CROSS JOIN LATERAL jsonb_each_text(sc.criterion_scores) AS cs
+              WHERE sc.battle_id = p_battle_id
+                AND sc.producer_id = s.producer_id
+              GROUP BY cs.key
+            ) c
+          ), '{}'::jsonb)
+        )
+        ORDER BY s.final_score DESC, up.username
+      )
+      FROM public.compute_battle_judged_scores(p_battle_id) s
+      LEFT JOIN public.user_profiles up ON up.id = s.producer_id
+    ), '[]'::jsonb),
+    'comments', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'producer_id', sc.producer_id,
+          'judge_username', judge.username,
+          'comment', sc.comment
+        )
+        ORDER BY sc.producer_id, sc.updated_at
+      )
+      FROM public.battle_judge_scorecards sc
+      LEFT JOIN public.user_profiles judge ON judge.id = sc.judge_id
+      WHERE sc.battle_id = p_battle_id
+        AND sc.comment IS NOT NULL
+        AND (v_is_admin OR sc.producer_id = v_actor)
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_battle_judging_results(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_battle_judging_results(uuid) TO anon, authenticated, service_role;
+
+-- -----------------------------------------------------------------------------
+-- Finalization
+-- -----------------------------------------------------------------------------
+-- Same body as the cypher migration, except that a judged battle with at
+-- least one scorecard takes its winner from the final scores.
+CREATE OR REPLACE FUNCTION private.finalize_battle(p_battle_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $function$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := current_setting('request.jwt.claim.role', true);
+  v_is_admin_actor boolean := public.is_admin(v_actor);
+  v_battle public.battles%ROWTYPE;
+  v_winner_id uuid;
+  v_participant_id uuid;
+BEGIN
+  IF NOT (
+    v_jwt_role = 'service_role'
+    OR v_is_admin_actor
+  ) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  IF NOT public.check_rpc_rate_limit(v_actor, 'finalize_battle') THEN
+    PERFORM public.log_admin_action_audit(
+      p_admin_user_id => v_actor,
+      p_action_type => 'finalize_battle',
+      p_entity_type => 'battle',
+      p_entity_id => p_battle_id,
+      p_source => 'rpc',
+      p_context => jsonb_build_object(
+        'guard', 'rate_limit',
+        'jwt_role', v_jwt_role,
+        'is_admin_actor', v_is_admin_actor
+      ),
+      p_extra_details => jsonb_build_object('message', 'rate_limit_exceeded'),
+      p_success => false,
+      p_error => 'rate_limit_exceeded'
+    );
+    RAISE EXCEPTION 'rate_limit_exceeded';
+  END IF;
+
+  SELECT * INTO v_battle
+  FROM public.battles
+  WHERE id = p_battle_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'battle_not_found';
+  END IF;
+
+  IF v_battle.status = 'cancelled' THEN
+    RAISE EXCEPTION 'battle_cancelled';
+  END IF;
+
+  IF v_battle.status = 'completed' THEN
+    IF v_is_admin_actor THEN
+      INSERT INTO public.ai_admin_actions (
+        action_type,
+        entity_type,
+        entity_id,
+        ai_decision,
+        confidence_score,
+        reason,
+        status,
+        human_override,
+        reversible,
+        executed_at,
+        executed_by,
+        error
+      )
+      VALUES (
+        'battle_finalize_admin',
+        'battle',
+        p_battle_id,
+        jsonb_build_object(
+          'source', 'finalize_battle',
+          'noop', true,
+          'already_completed', true,
+          'winner_id', v_battle.winner_id,
+          'actor', v_actor
+        ),
+        1.0,
+        'Battle already completed (admin finalize noop)',
+        'executed',
+        false,
+        true,
+        now(),
+        v_actor,
+        NULL
+      );
+    END IF;
+
+    PERFORM public.log_admin_action_audit(
+      p_admin_user_id => v_actor,
+      p_action_type => 'finalize_battle',
+      p_entity_type => 'battle',
+      p_entity_id => p_battle_id,
+      p_source => 'rpc',
+      p_context => jsonb_build_object(
+        'status_before', v_battle.status,
+        'status_after', v_battle.status,
+        'jwt_role', v_jwt_role,
+        'is_admin_actor', v_is_admin_actor,
+        'noop', true
+      ),
+      p_extra_details => jsonb_build_object('winner_id', v_battle.winner_id),
+      p_success => true,
+      p_error => NULL
+    );
+
+    RETURN v_battle.winner_id;
+  END IF;
+
+  IF v_battle.status NOT IN ('active', 'voting') THEN
+    RAISE EXCEPTION 'battle_not_open_for_finalization';
+  END IF;
+
+  IF v_battle.battle_format = 'cypher' THEN
+    v_winner_id := public.rank_cypher_entrants(p_battle_id);
+  ELSIF v_battle.votes_producer1 > v_battle.votes_producer2 THEN
+    v_winner_id := v_battle.producer1_id;
+  ELSIF v_battle.votes_producer2 > v_battle.votes_producer1 THEN
+    v_winner_id := v_battle.producer2_id;
+  ELSE
+    v_winner_id := NULL;
+  END IF;
+
+  IF v_battle.judge_weight IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM public.battle_judge_scorecards sc
+    WHERE sc.battle_id = p_battle_id
+  ) THEN
+    v_winner_id := public.apply_battle_judging(p_battle_id);
+  END IF;
+
+  UPDATE public.battles
+  SET status = 'completed',
+      winner_id = v_winner_id,
+      voting_ends_at = COALESCE(voting_ends_at, now()),
+      updated_at = now()
+  WHERE id = p_battle_id;
+
+  FOR v_participant_id IN
+    SELECT DISTINCT participant_id
+    FROM (
+      SELECT v_battle.producer1_id AS participant_id
+      UNION ALL
+      SELECT v_battle.producer2_id
+      UNION ALL
+      SELECT be.producer_id
+      FROM public.battle_entrants be
+      WHERE be.battle_id = p_battle_id
+    ) participants
+    WHERE participant_id IS NOT NULL
+  LOOP
+    UPDATE public.user_profiles
+    SET battles_completed = COALESCE(battles_completed, 0) + 1,
+        updated_at = now()
+    WHERE id = v_participant_id;
+
+    PERFORM public.recalculate_engagement(v_participant_id);
+
+    -- The completion trigger only knows producer1/producer2; the shared
+    -- idempotency key keeps producer1 from being credited twice.
+    IF v_battle.battle_format = 'cypher' THEN
+      PERFORM public.apply_reputation_event_internal(
+        p_user_id => v_participant_id,
+        p_source => 'battles',
+        p_event_type => 'battle_participation',
+        p_entity_type => 'battle',
+        p_entity_id => p_battle_id,
+        p_delta => NULL,
+        p_metadata => jsonb_build_object(
+          'battle_id', p_battle_id,
+          'role', 'cypher_entrant'
+        ),
+        p_idempotency_key => 'battle_participation:' || p_battle_id::text || ':' || v_participant_id::text
+      );
+    END IF;
+  END LOOP;
+
+  -- Phase 1 feedback dashboard: compute battle quality snapshots.
+  -- Wrapped in BEGIN/EXCEPTION so snapshot failure cannot block finalization.
+  -- Snapshots compare the two duel slots; cypher results live on battle_entrants.
+  IF v_battle.battle_format = 'duel' THEN
+    BEGIN
+      PERFORM public.rpc_compute_battle_quality_snapshot(p_battle_id);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'finalize_battle: rpc_compute_battle_quality_snapshot failed for battle_id=% (SQLSTATE=%, MSG=%)',
+        p_battle_id, SQLSTATE, SQLERRM;
+    END;
+  END IF;
+
+  IF v_is_admin_actor THEN
+    INSERT INTO public.ai_admin_actions (
+      action_type,
+      entity_type,
+      entity_id,
+      ai_decision,
+      confidence_score,
+      reason,
+      status,
+      human_override,
+      reversible,
+      executed_at,
+      executed_by,
+      error
+    )
+    VALUES (
+      'battle_finalize_admin',
+      'battle',
+      p_battle_id,
+      jsonb_build_object(
+        'source', 'finalize_battle',
+        'noop', false,
+        'status_before', v_battle.status,
+        'status_after', 'completed',
+        'winner_id', v_winner_id,
+        'battle_format', v_battle.battle_format,
+        'votes_producer1', v_battle.votes_producer1,
+        'votes_producer2', v_battle.votes_producer2,
+        'actor', v_actor
+      ),
+      1.0,
+      'Battle finalized by admin',
+      'executed',
+      false,
+      true,
+      now(),
+      v_actor,
+      NULL
+    );
+  END IF;
+
+  PERFORM public.log_admin_action_audit(
+    p_admin_user_id => v_actor,
+    p_action_type => 'finalize_battle',
+    p_entity_type => 'battle',
+    p_entity_id => p_battle_id,
+    p_source => 'rpc',
+    p_context => jsonb_build_object(
+      'status_before', v_battle.status,
+      'status_after', 'completed',
+      'jwt_role', v_jwt_role,
+      'is_admin_actor', v_is_admin_actor,
+      'noop', false
+    ),
+    p_extra_details => jsonb_build_object(
+      'winner_id', v_winner_id,
+      'battle_format', v_battle.battle_format,
+      'votes_producer1', v_battle.votes_producer1,
+      'votes_producer2', v_battle.votes_producer2
+    ),
+    p_success => true,
+    p_error => NULL
+  );
+
+  RETURN v_winner_id;
+END;
+$function$;
+
+COMMIT;
@@ -0,0 +1,277 @@
+/*
+  # Rendition settings in the preview signature
+
+  The audio worker skips a job when the product's preview_signature matches,
+  so changing the preview, low-bitrate or HLS encoder settings never reached
+  existing previews. The worker now folds those settings into the signature.
+
+  - public.products gains preview_rendition_settings: the settings the current
+    preview was rendered with, as written by the worker.
+  - compute_preview_signature gains an optional p_rendition_settings, appended
+    last. concat_ws skips NULL, so rows rendered before keep their signature
+    here and pick up the settings on their next worker job.
+  - enqueue_reprocess_all_previews passes each product's stored settings, so
+    only watermark changes are detected in SQL; setting changes are detected
+    by the worker, which cannot be read from the database.
+  - public_catalog_products exposes preview_renditions_version so catalog
+    rows only try HLS / low-bitrate renditions that were published.
+
+  Idempotent: uses IF NOT EXISTS for columns.
+*/
+
+BEGIN;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS preview_rendition_settings text;
+
+COMMENT ON COLUMN public.products.preview_rendition_settings IS
+  'Encoder settings of the current preview and its renditions (bitrates, sample rate, HLS segment length), folded into preview_signature by the audio worker.';
+
+-- ---------------------------------------------------------------------------
+-- Signature helpers
+-- ---------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.compute_preview_signature(text, text, numeric, integer, integer, uuid);
+
+CREATE OR REPLACE FUNCTION public.compute_preview_signature(
+  p_master_reference text,
+  p_watermark_audio_path text,
+  p_gain_db numeric,
+  p_min_interval_sec integer,
+  p_max_interval_sec integer,
+  p_watermark_profile_id uuid,
+  p_rendition_settings text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT encode(
+    extensions.digest(
+      concat_ws(
+        '|',
+        COALESCE(p_master_reference, ''),
+        COALESCE(p_watermark_audio_path, ''),
+        public.format_watermark_gain_db(p_gain_db),
+        COALESCE(p_min_interval_sec, 0)::text,
+        COALESCE(p_max_interval_sec, 0)::text,
+        p_watermark_profile_id::text,
+        NULLIF(btrim(COALESCE(p_rendition_settings, '')), '')
+      ),
+      'sha256'
+    ),
+    'hex'
+  );
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Global reprocess: compare against the settings each preview was rendered with
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.enqueue_reprocess_all_previews()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', '');
+  v_settings record;
+  v_candidate_count integer := 0;
+  v_enqueued_count integer := 0;
+  v_skipped_count integer := 0;
+BEGIN
+  IF NOT (v_jwt_role = 'service_role' OR public.is_admin(v_actor)) THEN
+    RAISE EXCEPTION 'admin_required';
+  END IF;
+
+  SELECT
+    NULLIF(btrim(COALESCE(sas.watermark_audio_path, '')), '') AS watermark_audio_path,
+    COALESCE(sas.gain_db, -10.00) AS gain_db,
+    COALESCE(sas.min_interval_sec, 20) AS min_interval_sec,
+    COALESCE(sas.max_interval_sec, 45) AS max_interval_sec,
+    public.compute_watermark_hash_v2(
+      NULLIF(btrim(COALESCE(sas.watermark_audio_path, '')), ''),
+      COALESCE(sas.gain_db, -10.00),
+      COALESCE(sas.min_interval_sec, 20),
+      COALESCE(sas.max_interval_sec, 45),
+      sas.updated_at
+    ) AS current_watermark_hash
+  INTO v_settings
+  FROM public.site_audio_settings sas
+  WHERE sas.enabled = true
+    AND NULLIF(btrim(COALESCE(sas.watermark_audio_path, '')), '') IS NOT NULL
+  ORDER BY sas.updated_at DESC, sas.created_at DESC, sas.id DESC
+  LIMIT 1;
+
+  IF NOT FOUND OR v_settings.watermark_audio_path IS NULL THEN
+    RAISE EXCEPTION 'active_watermark_required';
+  END IF;
+
+  WITH candidate_products AS (
+    SELECT p.id
+    FROM public.products p
+    WHERE p.product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+      AND p.is_published = true
+      AND p.deleted_at IS NULL
+      AND COALESCE(
+        NULLIF(btrim(COALESCE(p.master_path, '')), ''),
+        NULLIF(btrim(COALESCE(p.master_url, '')), '')
+      ) IS NOT NULL
+  )
+  SELECT COUNT(*) INTO v_candidate_count
+  FROM candidate_products;
+
+  WITH effective_watermarks AS (
+    SELECT
+      p.id,
+      p.master_path,
+      p.master_url,
+      p.preview_signature,
+      p.preview_rendition_settings,
+      p.last_watermark_hash,
+      p.watermarked_path,
+      p.preview_url,
+      p.exclusive_preview_url,
+      wp.id AS profile_id,
+      COALESCE(wp.overlay_audio_path, v_settings.watermark_audio_path) AS watermark_audio_path,
+      COALESCE(wp.gain_db, v_settings.gain_db) AS gain_db,
+      COALESCE(wp.min_interval_sec, v_settings.min_interval_sec) AS min_interval_sec,
+      COALESCE(wp.max_interval_sec, v_settings.max_interval_sec) AS max_interval_sec,
+      CASE
+        WHEN wp.id IS NULL THEN v_settings.current_watermark_hash
+        ELSE public.compute_watermark_hash_v2(
+          wp.overlay_audio_path,
+          COALESCE(wp.gain_db, v_settings.gain_db),
+          COALESCE(wp.min_interval_sec, v_settings.min_interval_sec),
+          COALESCE(wp.max_interval_sec, v_settings.max_interval_sec),
+          wp.updated_at
+        )
+      END AS current_watermark_hash
+    FROM public.products p
+    LEFT JOIN public.watermark_profiles wp
+      ON wp.id = p.watermark_profile_id
+      AND wp.enabled = true
+      AND NULLIF(btrim(COALESCE(wp.overlay_audio_path, '')), '') IS NOT NULL
+      AND (wp.producer_id IS NULL OR wp.producer_id = p.producer_id)
+    WHERE p.product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+      AND p.is_published = true
+      AND p.deleted_at IS NULL
+      AND COALESCE(
+        NULLIF(btrim(COALESCE(p.master_path, '')), ''),
+        NULLIF(btrim(COALESCE(p.master_url, '')), '')
+      ) IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.audio_processing_jobs job
+        WHERE job.product_id = p.id
+          AND job.job_type = 'generate_preview'
+          AND job.status IN ('queued', 'processing')
+      )
+  ),
+  scannable_products AS (
+    SELECT
+      ew.id,
+      ew.preview_signature,
+      ew.last_watermark_hash,
+      ew.watermarked_path,
+      ew.preview_url,
+      ew.exclusive_preview_url,
+      ew.current_watermark_hash,
+      public.compute_preview_signature(
+        COALESCE(
+          NULLIF(btrim(COALESCE(ew.master_path, '')), ''),
+          NULLIF(btrim(COALESCE(ew.master_url, '')), '')
+        ),
+        ew.watermark_audio_path,
+        ew.gain_db,
+        ew.min_interval_sec,
+        ew.max_interval_sec,
+        ew.profile_id,
+        ew.preview_rendition_settings
+      ) AS current_preview_signature
+    FROM effective_watermarks ew
+  ),
+  eligible_products AS (
+    SELECT sp.id
+    FROM scannable_products sp
+    WHERE sp.preview_signature IS NULL
+      OR sp.last_watermark_hash IS DISTINCT FROM sp.current_watermark_hash
+      OR sp.preview_signature IS DISTINCT FROM sp.current_preview_signature
+      OR COALESCE(
+        NULLIF(btrim(COALESCE(sp.watermarked_path, '')), ''),
+        NULLIF(btrim(COALESCE(sp.preview_url, '')), ''),
+        NULLIF(btrim(COALESCE(sp.exclusive_preview_url, '')), '')
+      ) IS NULL
+  ),
+  inserted_jobs AS (
+    INSERT INTO public.audio_processing_jobs (product_id, job_type, status)
+    SELECT ep.id, 'generate_preview', 'queued'
+    FROM eligible_products ep
+    ON CONFLICT DO NOTHING
+    RETURNING product_id
+  ),
+  updated_products AS (
+    UPDATE public.products p
+    SET
+      preview_version = GREATEST(COALESCE(p.preview_version, 1), 1) + 1,
+      processing_status = 'pending',
+      processing_error = NULL,
+      processed_at = NULL
+    FROM inserted_jobs ij
+    WHERE p.id = ij.product_id
+    RETURNING p.id
+  )
+  SELECT COUNT(*) INTO v_enqueued_count
+  FROM updated_products;
+
+  v_skipped_count := GREATEST(v_candidate_count - v_enqueued_count, 0);
+
+  RETURN jsonb_build_object(
+    'enqueued_count', v_enqueued_count,
+    'skipped_count', v_skipped_count
+  );
+END;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Catalog: expose the renditions version next to the preview
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION private.catalog_preview_renditions_version(p_product_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT p.preview_renditions_version
+  FROM public.products p
+  WHERE p.id = p_product_id;
+$$;
+
+CREATE OR REPLACE VIEW public.public_catalog_products
+WITH (security_invoker = true)
+AS
+SELECT
+  c.*,
+  private.catalog_preview_renditions_version(c.id) AS preview_renditions_version
+FROM private._view_public_catalog_products() c;
+
+REVOKE ALL ON TABLE public.public_catalog_products FROM PUBLIC;
+REVOKE ALL ON TABLE public.public_catalog_products FROM anon;
+REVOKE ALL ON TABLE public.public_catalog_products FROM authenticated;
+GRANT SELECT ON TABLE public.public_catalog_products TO anon;
+GRANT SELECT ON TABLE public.public_catalog_products TO authenticated;
+GRANT SELECT ON TABLE public.public_catalog_products TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.compute_preview_signature(text, text, numeric, integer, integer, uuid, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.enqueue_reprocess_all_previews() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION private.catalog_preview_renditions_version(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.compute_preview_signature(text, text, numeric, integer, integer, uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.enqueue_reprocess_all_previews() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_reprocess_all_previews() TO service_role;
+GRANT EXECUTE ON FUNCTION private.catalog_preview_renditions_version(uuid) TO anon;
+GRANT EXECUTE ON FUNCTION private.catalog_preview_renditions_version(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION private.catalog_preview_renditions_version(uuid) TO service_role;
+
+COMMIT;
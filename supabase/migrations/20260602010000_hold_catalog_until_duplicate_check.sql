@@ -0,0 +1,327 @@
+/*
+  # Hold new beats out of the catalog until their duplicate check ran
+
+  record_audio_fingerprint only unpublished a beat once the analyze_audio job
+  had compared it, so a re-upload of someone else's beat stayed listed and
+  purchasable in between. The check now happens before listing.
+
+  - public.products gains duplicate_check_pending. It turns true whenever a
+    beat or exclusive gets a new master, and record_audio_fingerprint turns it
+    back to false once the master was compared.
+  - public_catalog_products skips products whose check is pending
+    (private.catalog_product_awaits_audio_checks); create-checkout refuses
+    them too.
+  - record_audio_fingerprint now leaves duplicate_review_status at 'cleared'
+    when the last pending match goes away, like the admin review does,
+    instead of resetting it to NULL.
+  - Producers cannot change duplicate_check_pending.
+
+  Beats listed before this migration keep duplicate_check_pending = false and
+  stay listed; enqueue_audio_analysis_backfill still fingerprints them.
+
+  Idempotent: uses IF NOT EXISTS for columns.
+*/
+
+BEGIN;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS duplicate_check_pending boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.products.duplicate_check_pending IS
+  'True while the current master awaits its audio fingerprint comparison; the beat stays out of the public catalog and checkout until then.';
+
+-- ---------------------------------------------------------------------------
+-- Pending flag
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.mark_product_duplicate_check_pending()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.master_path IS NOT DISTINCT FROM OLD.master_path
+     AND NEW.master_url IS NOT DISTINCT FROM OLD.master_url THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.duplicate_check_pending :=
+    NEW.product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+    AND coalesce(
+      nullif(btrim(COALESCE(NEW.master_path, '')), ''),
+      nullif(btrim(COALESCE(NEW.master_url, '')), '')
+    ) IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Fires after trg_guard_product_duplicate_review (trigger names sort), so the
+-- guard only sees the value the caller sent.
+DROP TRIGGER IF EXISTS trg_mark_product_duplicate_check_pending ON public.products;
+CREATE TRIGGER trg_mark_product_duplicate_check_pending
+  BEFORE INSERT OR UPDATE OF master_path, master_url ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_product_duplicate_check_pending();
+
+CREATE OR REPLACE FUNCTION public.guard_product_duplicate_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', current_setting('request.jwt.claim.role', true), '');
+BEGIN
+  IF v_jwt_role = 'service_role' OR public.is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.duplicate_review_status IS DISTINCT FROM OLD.duplicate_review_status
+     OR NEW.duplicate_review_held_publish IS DISTINCT FROM OLD.duplicate_review_held_publish
+     OR NEW.duplicate_check_pending IS DISTINCT FROM OLD.duplicate_check_pending THEN
+    RAISE EXCEPTION 'duplicate_review_admin_only';
+  END IF;
+
+  IF COALESCE(NEW.is_published, false) = true
+     AND COALESCE(OLD.is_published, false) = false
+     AND NEW.duplicate_review_status IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'product_duplicate_review_pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_product_duplicate_review ON public.products;
+CREATE TRIGGER trg_guard_product_duplicate_review
+  BEFORE UPDATE OF is_published, duplicate_review_status, duplicate_review_held_publish, duplicate_check_pending
+  ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_product_duplicate_review();
+
+-- ---------------------------------------------------------------------------
+-- Fingerprint results
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.record_audio_fingerprint(
+  p_product_id uuid,
+  p_algorithm_version integer,
+  p_frame_hop_sec double precision,
+  p_duration_sec numeric,
+  p_codes integer[],
+  p_matches jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', current_setting('request.jwt.claim.role', true), '');
+  v_product public.products%ROWTYPE;
+  v_new_match_count integer := 0;
+  v_pending_match_count integer := 0;
+  v_top_similarity numeric;
+  v_matched_product_ids uuid[];
+  v_review_status text;
+BEGIN
+  IF v_jwt_role <> 'service_role' THEN
+    RAISE EXCEPTION 'service_role_required';
+  END IF;
+
+  SELECT *
+  INTO v_product
+  FROM public.products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'product_not_found';
+  END IF;
+
+  INSERT INTO public.audio_fingerprints (
+    product_id,
+    algorithm_version,
+    frame_hop_sec,
+    duration_sec,
+    codes,
+    lookup_codes
+  )
+  VALUES (
+    p_product_id,
+    p_algorithm_version,
+    p_frame_hop_sec,
+    p_duration_sec,
+    COALESCE(p_codes, '{}'::integer[]),
+    ARRAY(
+      SELECT DISTINCT c
+      FROM unnest(COALESCE(p_codes, '{}'::integer[])) AS c
+      WHERE c <> 0
+      ORDER BY c
+    )
+  )
+  ON CONFLICT (product_id) DO UPDATE
+  SET
+    algorithm_version = EXCLUDED.algorithm_version,
+    frame_hop_sec = EXCLUDED.frame_hop_sec,
+    duration_sec = EXCLUDED.duration_sec,
+    codes = EXCLUDED.codes,
+    lookup_codes = EXCLUDED.lookup_codes,
+    updated_at = now();
+
+  -- Pending matches the latest comparison no longer reports are stale.
+  DELETE FROM public.audio_fingerprint_matches afm
+  WHERE afm.product_id = p_product_id
+    AND afm.status = 'pending'
+    AND afm.matched_product_id <> ALL (
+      ARRAY(
+        SELECT (m->>'matched_product_id')::uuid
+        FROM jsonb_array_elements(COALESCE(p_matches, '[]'::jsonb)) AS m
+      )
+    );
+
+  -- Pairs an admin already reviewed keep their decision.
+  WITH incoming AS (
+    SELECT DISTINCT ON (mp.id)
+      mp.id AS matched_product_id,
+      LEAST(GREATEST((m->>'similarity')::numeric, 0), 1) AS similarity,
+      COALESCE((m->>'offset_sec')::numeric, 0) AS offset_sec,
+      COALESCE((m->>'overlap_sec')::numeric, 0) AS overlap_sec
+    FROM jsonb_array_elements(COALESCE(p_matches, '[]'::jsonb)) AS m
+    JOIN public.products mp ON mp.id = (m->>'matched_product_id')::uuid
+    WHERE mp.id <> p_product_id
+      AND mp.producer_id IS DISTINCT FROM v_product.producer_id
+      AND mp.deleted_at IS NULL
+    ORDER BY mp.id, (m->>'similarity')::numeric DESC
+  ),
+  inserted AS (
+    INSERT INTO public.audio_fingerprint_matches (
+      product_id,
+      matched_product_id,
+      similarity,
+      offset_sec,
+      overlap_sec
+    )
+    SELECT p_product_id, i.matched_product_id, i.similarity, i.offset_sec, i.overlap_sec
+    FROM incoming i
+    ON CONFLICT (product_id, matched_product_id) DO NOTHING
+    RETURNING matched_product_id, similarity
+  )
+  SELECT COUNT(*)::integer, MAX(similarity), array_agg(matched_product_id ORDER BY similarity DESC)
+  INTO v_new_match_count, v_top_similarity, v_matched_product_ids
+  FROM inserted;
+
+  SELECT COUNT(*)::integer
+  INTO v_pending_match_count
+  FROM public.audio_fingerprint_matches
+  WHERE product_id = p_product_id
+    AND status = 'pending';
+
+  v_review_status := v_product.duplicate_review_status;
+
+  IF v_pending_match_count > 0 AND v_review_status IS DISTINCT FROM 'confirmed' THEN
+    UPDATE public.products
+    SET
+      duplicate_review_status = 'pending',
+      duplicate_review_held_publish = CASE
+        WHEN v_review_status = 'pending' THEN duplicate_review_held_publish
+        ELSE COALESCE(is_published, false)
+      END,
+      is_published = false
+    WHERE id = p_product_id;
+
+    v_review_status := 'pending';
+  ELSIF v_pending_match_count = 0 AND v_review_status = 'pending' THEN
+    UPDATE public.products
+    SET
+      duplicate_review_status = 'cleared',
+      is_published = COALESCE(is_published, false) OR duplicate_review_held_publish,
+      duplicate_review_held_publish = false
+    WHERE id = p_product_id;
+
+    v_review_status := 'cleared';
+  END IF;
+
+  UPDATE public.products
+  SET duplicate_check_pending = false
+  WHERE id = p_product_id
+    AND duplicate_check_pending = true;
+
+  IF v_new_match_count > 0 THEN
+    INSERT INTO public.fraud_events (event_type, user_id, product_id)
+    VALUES ('audio_duplicate_suspected', v_product.producer_id, p_product_id);
+
+    INSERT INTO public.admin_notifications (user_id, type, payload)
+    SELECT
+      up.id,
+      'audio_duplicate_suspected',
+      jsonb_build_object(
+        'product_id', p_product_id,
+        'product_title', v_product.title,
+        'producer_id', v_product.producer_id,
+        'match_count', v_new_match_count,
+        'top_similarity', v_top_similarity,
+        'matched_product_ids', to_jsonb(v_matched_product_ids)
+      )
+    FROM public.user_profiles up
+    WHERE up.role = 'admin'::public.user_role
+      AND COALESCE(up.is_deleted, false) = false
+      AND up.deleted_at IS NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'new_match_count', v_new_match_count,
+    'pending_match_count', v_pending_match_count,
+    'review_status', v_review_status
+  );
+END;
+$$;
+-- ---------------------------------------------------------------------------
+-- Catalog: skip products awaiting their audio checks
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION private.catalog_product_awaits_audio_checks(p_product_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.products p
+    WHERE p.id = p_product_id
+      AND p.duplicate_check_pending
+  );
+$$;
+
+CREATE OR REPLACE VIEW public.public_catalog_products
+WITH (security_invoker = true)
+AS
+SELECT
+  c.*,
+  private.catalog_preview_renditions_version(c.id) AS preview_renditions_version
+FROM private._view_public_catalog_products() c
+WHERE NOT private.catalog_product_awaits_audio_checks(c.id);
+
+REVOKE ALL ON TABLE public.public_catalog_products FROM PUBLIC;
+REVOKE ALL ON TABLE public.public_catalog_products FROM anon;
+REVOKE ALL ON TABLE public.public_catalog_products FROM authenticated;
+GRANT SELECT ON TABLE public.public_catalog_products TO anon;
+GRANT SELECT ON TABLE public.public_catalog_products TO authenticated;
+GRANT SELECT ON TABLE public.public_catalog_products TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.mark_product_duplicate_check_pending() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.guard_product_duplicate_review() FROM PUBLIC;
+
+REVOKE EXECUTE ON FUNCTION public.record_audio_fingerprint(uuid, integer, double precision, numeric, integer[], jsonb) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.record_audio_fingerprint(uuid, integer, double precision, numeric, integer[], jsonb) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.record_audio_fingerprint(uuid, integer, double precision, numeric, integer[], jsonb) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.record_audio_fingerprint(uuid, integer, double precision, numeric, integer[], jsonb) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION private.catalog_product_awaits_audio_checks(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION private.catalog_product_awaits_audio_checks(uuid) TO anon;
+GRANT EXECUTE ON FUNCTION private.catalog_product_awaits_audio_checks(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION private.catalog_product_awaits_audio_checks(uuid) TO service_role;
+
+COMMIT;
@@ -0,0 +1,245 @@
+/*
+  # Hold new beats out of the catalog until their quality check ran
+
+  Only a master that had already failed the analyze_quality check was kept
+  from sale: a new master stayed listed and purchasable with
+  audio_quality_status still NULL until the worker caught up. Like the
+  duplicate check, the quality check now happens before listing.
+
+  - public.products gains audio_quality_pending. It turns true whenever a
+    beat or exclusive gets a new master, and record_audio_quality_report
+    turns it back to false once that master was graded.
+  - private.catalog_product_awaits_audio_checks also covers it, so
+    public_catalog_products skips these products; create-checkout refuses
+    them too.
+  - Producers cannot change audio_quality_pending.
+
+  Beats listed before this migration keep audio_quality_pending = false and
+  stay listed; enqueue_audio_analysis_backfill still checks them.
+
+  Idempotent: uses IF NOT EXISTS for columns.
+*/
+
+BEGIN;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS audio_quality_pending boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.products.audio_quality_pending IS
+  'True while the current master awaits its analyze_quality check; the beat stays out of the public catalog and checkout until then.';
+
+-- ---------------------------------------------------------------------------
+-- Pending flag
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.mark_product_audio_quality_pending()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.master_path IS NOT DISTINCT FROM OLD.master_path
+     AND NEW.master_url IS NOT DISTINCT FROM OLD.master_url THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.audio_quality_pending :=
+    NEW.product_type IN ('beat'::public.product_type, 'exclusive'::public.product_type)
+    AND coalesce(
+      nullif(btrim(COALESCE(NEW.master_path, '')), ''),
+      nullif(btrim(COALESCE(NEW.master_url, '')), '')
+    ) IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Fires after trg_guard_product_audio_quality (trigger names sort), so the
+-- guard only sees the value the caller sent.
+DROP TRIGGER IF EXISTS trg_mark_product_audio_quality_pending ON public.products;
+CREATE TRIGGER trg_mark_product_audio_quality_pending
+  BEFORE INSERT OR UPDATE OF master_path, master_url ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_product_audio_quality_pending();
+
+CREATE OR REPLACE FUNCTION public.guard_product_audio_quality()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', current_setting('request.jwt.claim.role', true), '');
+BEGIN
+  IF v_jwt_role = 'service_role' OR public.is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  -- A new master clears the report in reset_product_audio_analysis (which
+  -- fires after this trigger), so only direct edits are refused here.
+  IF (
+       NEW.master_path IS NOT DISTINCT FROM OLD.master_path
+       AND NEW.master_url IS NOT DISTINCT FROM OLD.master_url
+       AND (
+         NEW.audio_quality_status IS DISTINCT FROM OLD.audio_quality_status
+         OR NEW.audio_quality_report IS DISTINCT FROM OLD.audio_quality_report
+         OR NEW.audio_quality_checked_at IS DISTINCT FROM OLD.audio_quality_checked_at
+       )
+     )
+     OR NEW.audio_quality_held_publish IS DISTINCT FROM OLD.audio_quality_held_publish
+     OR NEW.audio_quality_pending IS DISTINCT FROM OLD.audio_quality_pending THEN
+    RAISE EXCEPTION 'audio_quality_worker_only';
+  END IF;
+
+  IF COALESCE(NEW.is_published, false) = true
+     AND COALESCE(OLD.is_published, false) = false
+     AND NEW.audio_quality_status = 'failed' THEN
+    RAISE EXCEPTION 'audio_quality_failed'
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+DROP TRIGGER IF EXISTS trg_guard_product_audio_quality ON public.products;
+CREATE TRIGGER trg_guard_product_audio_quality
+  BEFORE UPDATE OF
+    is_published,
+    master_path,
+    master_url,
+    audio_quality_status,
+    audio_quality_report,
+    audio_quality_checked_at,
+    audio_quality_held_publish,
+    audio_quality_pending
+  ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_product_audio_quality();
+
+-- ---------------------------------------------------------------------------
+-- Quality reports
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.record_audio_quality_report(
+  p_product_id uuid,
+  p_master_reference text,
+  p_status text,
+  p_report jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_jwt_role text := COALESCE(auth.jwt()->>'role', current_setting('request.jwt.claim.role', true), '');
+  v_product public.products%ROWTYPE;
+  v_current_master text;
+BEGIN
+  IF v_jwt_role <> 'service_role' THEN
+    RAISE EXCEPTION 'service_role_required';
+  END IF;
+
+  IF p_status NOT IN ('passed', 'failed') THEN
+    RAISE EXCEPTION 'invalid_audio_quality_status';
+  END IF;
+
+  SELECT *
+  INTO v_product
+  FROM public.products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'product_not_found';
+  END IF;
+
+  v_current_master := COALESCE(
+    NULLIF(btrim(COALESCE(v_product.master_path, '')), ''),
+    NULLIF(btrim(COALESCE(v_product.master_url, '')), '')
+  );
+
+  -- The master changed while the job ran: its own check is already queued.
+  IF v_current_master IS DISTINCT FROM NULLIF(btrim(COALESCE(p_master_reference, '')), '') THEN
+    RETURN jsonb_build_object(
+      'recorded', false,
+      'status', v_product.audio_quality_status,
+      'is_published', COALESCE(v_product.is_published, false)
+    );
+  END IF;
+
+  IF p_status = 'failed' THEN
+    UPDATE public.products
+    SET
+      audio_quality_status = 'failed',
+      audio_quality_report = COALESCE(p_report, '{}'::jsonb),
+      audio_quality_checked_at = now(),
+      audio_quality_pending = false,
+      audio_quality_held_publish = audio_quality_held_publish OR COALESCE(is_published, false),
+      is_published = false
+    WHERE id = p_product_id
+    RETURNING * INTO v_product;
+  ELSIF v_product.duplicate_review_status IN ('pending', 'confirmed') THEN
+    -- The duplicate review decides when the beat comes back.
+    UPDATE public.products
+    SET
+      audio_quality_status = 'passed',
+      audio_quality_report = COALESCE(p_report, '{}'::jsonb),
+      audio_quality_checked_at = now(),
+      audio_quality_pending = false,
+      duplicate_review_held_publish = duplicate_review_held_publish OR audio_quality_held_publish,
+      audio_quality_held_publish = false
+    WHERE id = p_product_id
+    RETURNING * INTO v_product;
+  ELSE
+    UPDATE public.products
+    SET
+      audio_quality_status = 'passed',
+      audio_quality_report = COALESCE(p_report, '{}'::jsonb),
+      audio_quality_checked_at = now(),
+      audio_quality_pending = false,
+      is_published = COALESCE(is_published, false) OR audio_quality_held_publish,
+      audio_quality_held_publish = false
+    WHERE id = p_product_id
+    RETURNING * INTO v_product;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'recorded', true,
+    'status', v_product.audio_quality_status,
+    'is_published', COALESCE(v_product.is_published, false)
+  );
+END;
+$$;
+-- ---------------------------------------------------------------------------
+-- Catalog: skip products awaiting their audio checks
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION private.catalog_product_awaits_audio_checks(p_product_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.products p
+    WHERE p.id = p_product_id
+      AND (p.duplicate_check_pending OR p.audio_quality_pending)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_product_audio_quality_pending() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.guard_product_audio_quality() FROM PUBLIC;
+
+REVOKE EXECUTE ON FUNCTION public.record_audio_quality_report(uuid, text, text, jsonb) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.record_audio_quality_report(uuid, text, text, jsonb) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.record_audio_quality_report(uuid, text, text, jsonb) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.record_audio_quality_report(uuid, text, text, jsonb) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION private.catalog_product_awaits_audio_checks(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION private.catalog_product_awaits_audio_checks(uuid) TO anon;
+GRANT EXECUTE ON FUNCTION private.catalog_product_awaits_audio_checks(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION private.catalog_product_awaits_audio_checks(uuid) TO service_role;
+
+COMMIT;
@@ -0,0 +1,217 @@
+/*
+  # Void exclusive sale records on refund
+
+  A refunded or lost-dispute exclusive kept its exclusive_sale_records row, so
+  guard_exclusively_sold_lineage went on refusing to put any version of the
+  beat back on sale although nobody holds the exclusive rights any more.
+
+  - exclusive_sale_records.voided_at is set by record_exclusive_sale when the
+    purchase leaves 'completed' (reverse_purchase marks it refunded).
+  - guard_exclusively_sold_lineage only counts records whose purchase is
+    still completed; the producer can republish the archived versions.
+  - A purchase completing again re-records its sale instead of keeping the
+    voided row.
+*/
+
+BEGIN;
+
+ALTER TABLE public.exclusive_sale_records
+  ADD COLUMN IF NOT EXISTS voided_at timestamptz;
+
+COMMENT ON COLUMN public.exclusive_sale_records.voided_at IS
+  'Set once the exclusive purchase is refunded or lost to a dispute; the lineage can be sold again.';
+
+CREATE OR REPLACE FUNCTION public.record_exclusive_sale()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_record_id uuid;
+  v_sold_at timestamptz := COALESCE(NEW.completed_at, now());
+  v_product_title text;
+  v_lineage uuid[];
+  v_prior_leases jsonb;
+  v_delisted uuid[];
+  v_holder record;
+BEGIN
+  IF NEW.is_exclusive IS DISTINCT FROM true THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.status = 'completed'
+     AND NEW.status <> 'completed' THEN
+    UPDATE public.exclusive_sale_records
+    SET voided_at = now()
+    WHERE purchase_id = NEW.id
+      AND voided_at IS NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status <> 'completed'
+     OR (TG_OP = 'UPDATE' AND OLD.status = 'completed') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT array_agg(lineage.id)
+  INTO v_lineage
+  FROM public.product_lineage_ids(NEW.product_id) AS lineage(id);
+
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'purchase_id', pu.id,
+        'user_id', pu.user_id,
+        'product_id', pu.product_id,
+        'license_name', COALESCE(pu.license_name_snapshot, pu.license_type, 'Standard'),
+        'purchased_at', COALESCE(pu.completed_at, pu.created_at)
+      )
+      ORDER BY COALESCE(pu.completed_at, pu.created_at), pu.id
+    ),
+    '[]'::jsonb
+  )
+  INTO v_prior_leases
+  FROM public.purchases pu
+  WHERE pu.product_id = ANY(v_lineage)
+    AND pu.id <> NEW.id
+    AND pu.is_exclusive = false
+    AND pu.status = 'completed'
+    AND pu.superseded_at IS NULL
+    AND pu.user_id <> NEW.user_id
+    AND COALESCE(pu.completed_at, pu.created_at) <= v_sold_at;
+
+  WITH archived AS (
+    UPDATE public.products
+    SET
+      status = 'archived',
+      archived_at = COALESCE(archived_at, now()),
+      is_published = false,
+      updated_at = now()
+    WHERE id = ANY(v_lineage)
+      AND id <> NEW.product_id
+      AND deleted_at IS NULL
+      AND (status <> 'archived' OR is_published = true)
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}'::uuid[])
+  INTO v_delisted
+  FROM archived;
+
+  INSERT INTO public.exclusive_sale_records (
+    purchase_id,
+    product_id,
+    buyer_id,
+    producer_id,
+    prior_leases,
+    delisted_product_ids
+  )
+  VALUES (
+    NEW.id,
+    NEW.product_id,
+    NEW.user_id,
+    NEW.producer_id,
+    v_prior_leases,
+    v_delisted
+  )
+  ON CONFLICT (purchase_id) DO UPDATE
+  SET
+    prior_leases = EXCLUDED.prior_leases,
+    delisted_product_ids = EXCLUDED.delisted_product_ids,
+    voided_at = NULL
+  WHERE exclusive_sale_records.voided_at IS NOT NULL
+  RETURNING id INTO v_record_id;
+
+  IF v_record_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(NULLIF(btrim(p.title), ''), 'ce beat')
+  INTO v_product_title
+  FROM public.products p
+  WHERE p.id = NEW.product_id;
+
+  FOR v_holder IN
+    SELECT DISTINCT (lease->>'user_id')::uuid AS user_id
+    FROM jsonb_array_elements(v_prior_leases) AS lease
+  LOOP
+    BEGIN
+      INSERT INTO public.notifications (
+        user_id,
+        type,
+        title,
+        message,
+        entity_type,
+        entity_id,
+        target_url
+      )
+      VALUES (
+        v_holder.user_id,
+        'exclusive_sold_lease_holder',
+        'Exclusivite vendue sur un beat que vous avez licencie',
+        format(
+          'Les droits exclusifs de "%s" ont ete vendus. Votre licence reste valable selon ses conditions.',
+          COALESCE(v_product_title, 'ce beat')
+        ),
+        'exclusive_sale',
+        v_record_id,
+        '/dashboard#purchases'
+      )
+      ON CONFLICT (user_id, type, entity_type, entity_id)
+        WHERE entity_type IS NOT NULL
+          AND entity_id IS NOT NULL
+        DO NOTHING;
+    EXCEPTION
+      WHEN others THEN
+        RAISE NOTICE 'exclusive sale notification failed for user %: %', v_holder.user_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_exclusively_sold_lineage()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL
+     OR NEW.status <> 'active'
+     OR COALESCE(NEW.is_published, false) = false THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.status = 'active'
+     AND COALESCE(OLD.is_published, false) = true THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.exclusive_sale_records esr
+    JOIN public.purchases pu ON pu.id = esr.purchase_id
+    WHERE esr.product_id IN (SELECT public.product_lineage_ids(COALESCE(NEW.parent_product_id, NEW.original_beat_id, NEW.id)))
+      AND esr.voided_at IS NULL
+      AND pu.status = 'completed'
+  ) THEN
+    RAISE EXCEPTION 'product_lineage_sold_exclusively';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Exclusives refunded before this migration.
+UPDATE public.exclusive_sale_records esr
+SET voided_at = COALESCE(pu.refunded_at, now())
+FROM public.purchases pu
+WHERE pu.id = esr.purchase_id
+  AND pu.status <> 'completed'
+  AND esr.voided_at IS NULL;
+
+COMMIT;
@@ -0,0 +1,271 @@
+/*
+  # Promo code reservations
+
+  max_redemptions and per_user_limit were only counted against paid
+  sessions, so concurrent checkouts could all pass check_promo_code and pay
+  with a code past its cap. Redemptions also went away with their code
+  (ON DELETE CASCADE), e.g. when the producer account or the beat behind it
+  was deleted, erasing what was granted on paid sales.
+
+  - create-checkout and producer-checkout reserve the code with
+    reserve_promo_code before creating the Stripe session. It locks the code
+    row, so concurrent checkouts are counted one after the other, and the
+    Stripe session expires with the reservation.
+  - check_promo_code counts the live reservations of other buyers next to
+    redemptions. A buyer holds one reservation per code: a new checkout
+    replaces the previous one and the checkouts expire its Stripe session,
+    so per_user_limit cannot be passed with parallel sessions either.
+  - record_promo_code_redemption turns the reservation into the redemption.
+  - promo_code_redemptions.promo_code_id is SET NULL on delete; the terms of
+    the code are kept in promo_code_snapshot.
+*/
+
+BEGIN;
+
+-- -----------------------------------------------------------------------------
+-- Redemptions outlive their code
+-- -----------------------------------------------------------------------------
+ALTER TABLE public.promo_code_redemptions
+  ADD COLUMN IF NOT EXISTS promo_code_snapshot jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.promo_code_redemptions.promo_code_snapshot IS
+  'code, discount_type, discount_value and scope of the code when it was redeemed.';
+
+UPDATE public.promo_code_redemptions r
+SET promo_code_snapshot = jsonb_build_object(
+  'code', pc.code,
+  'discount_type', pc.discount_type,
+  'discount_value', pc.discount_value,
+  'scope', pc.scope
+)
+FROM public.promo_codes pc
+WHERE pc.id = r.promo_code_id
+  AND r.promo_code_snapshot = '{}'::jsonb;
+
+ALTER TABLE public.promo_code_redemptions
+  ALTER COLUMN promo_code_id DROP NOT NULL;
+
+ALTER TABLE public.promo_code_redemptions
+  DROP CONSTRAINT IF EXISTS promo_code_redemptions_promo_code_id_fkey;
+
+ALTER TABLE public.promo_code_redemptions
+  ADD CONSTRAINT promo_code_redemptions_promo_code_id_fkey
+  FOREIGN KEY (promo_code_id) REFERENCES public.promo_codes(id) ON DELETE SET NULL;
+
+-- -----------------------------------------------------------------------------
+-- Reservations
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.promo_code_reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id uuid NOT NULL REFERENCES public.promo_codes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  checkout_session_id text,
+  reserved_until timestamptz NOT NULL DEFAULT (now() + interval '1 hour'),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_code_reservations_session
+  ON public.promo_code_reservations (checkout_session_id)
+  WHERE checkout_session_id IS NOT NULL;
+
+-- One live checkout per buyer and code: that is what keeps per_user_limit.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_code_reservations_code_user
+  ON public.promo_code_reservations (promo_code_id, user_id);
+
+COMMENT ON TABLE public.promo_code_reservations IS
+  'Promo codes held by checkout sessions not paid yet; they count towards the code limits until reserved_until.';
+COMMENT ON COLUMN public.promo_code_reservations.checkout_session_id IS
+  'Stripe session the reservation was made for; NULL until the session is created.';
+
+ALTER TABLE public.promo_code_reservations ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.promo_code_reservations FROM anon;
+REVOKE ALL ON TABLE public.promo_code_reservations FROM authenticated;
+GRANT ALL ON TABLE public.promo_code_reservations TO service_role;
+
+-- -----------------------------------------------------------------------------
+-- Validation
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.check_promo_code(
+  p_code text,
+  p_user_id uuid,
+  p_context text
+)
+RETURNS public.promo_codes
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_promo public.promo_codes%ROWTYPE;
+  v_redemptions integer;
+BEGIN
+  SELECT *
+  INTO v_promo
+  FROM public.promo_codes
+  WHERE upper(code) = upper(btrim(COALESCE(p_code, '')))
+    AND archived_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'promo_code_not_found';
+  END IF;
+
+  IF v_promo.starts_at IS NOT NULL AND v_promo.starts_at > now() THEN
+    RAISE EXCEPTION 'promo_code_not_started';
+  END IF;
+
+  IF v_promo.expires_at IS NOT NULL AND v_promo.expires_at <= now() THEN
+    RAISE EXCEPTION 'promo_code_expired';
+  END IF;
+
+  IF (p_context = 'plan') IS DISTINCT FROM (v_promo.scope = 'plan') THEN
+    RAISE EXCEPTION 'promo_code_not_applicable';
+  END IF;
+
+  IF v_promo.max_redemptions IS NOT NULL THEN
+    SELECT
+      (SELECT count(*) FROM public.promo_code_redemptions WHERE promo_code_id = v_promo.id)
+      + (
+        SELECT count(*)
+        FROM public.promo_code_reservations
+        WHERE promo_code_id = v_promo.id
+          AND user_id <> p_user_id
+          AND reserved_until > now()
+      )
+    INTO v_redemptions;
+
+    IF v_redemptions >= v_promo.max_redemptions THEN
+      RAISE EXCEPTION 'promo_code_exhausted';
+    END IF;
+  END IF;
+
+  SELECT count(*)
+  INTO v_redemptions
+  FROM public.promo_code_redemptions
+  WHERE promo_code_id = v_promo.id
+    AND user_id = p_user_id;
+
+  IF v_redemptions >= v_promo.per_user_limit THEN
+    RAISE EXCEPTION 'promo_code_already_used';
+  END IF;
+
+  RETURN v_promo;
+END;
+$$;
+
+-- Called by the checkouts right before they create the Stripe session.
+CREATE OR REPLACE FUNCTION public.reserve_promo_code(
+  p_promo_code_id uuid,
+  p_user_id uuid,
+  p_context text
+)
+RETURNS public.promo_code_reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_code text;
+  v_reservation public.promo_code_reservations%ROWTYPE;
+BEGIN
+  -- Concurrent checkouts of the same code wait here and count each other.
+  SELECT code
+  INTO v_code
+  FROM public.promo_codes
+  WHERE id = p_promo_code_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'promo_code_not_found';
+  END IF;
+
+  DELETE FROM public.promo_code_reservations
+  WHERE promo_code_id = p_promo_code_id
+    AND (reserved_until <= now() OR user_id = p_user_id);
+
+  PERFORM public.check_promo_code(v_code, p_user_id, p_context);
+
+  INSERT INTO public.promo_code_reservations (promo_code_id, user_id)
+  VALUES (p_promo_code_id, p_user_id)
+  RETURNING * INTO v_reservation;
+
+  RETURN v_reservation;
+END;
+$$;
+
+-- Idempotent per checkout session: Stripe may deliver the webhook twice.
+CREATE OR REPLACE FUNCTION public.record_promo_code_redemption(
+  p_promo_code_id uuid,
+  p_user_id uuid,
+  p_checkout_session_id text,
+  p_context text,
+  p_discount_amount integer,
+  p_purchase_ids uuid[] DEFAULT '{}'::uuid[]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_redemption_id uuid;
+BEGIN
+  INSERT INTO public.promo_code_redemptions (
+    promo_code_id,
+    user_id,
+    checkout_session_id,
+    context,
+    discount_amount,
+    purchase_ids,
+    promo_code_snapshot
+  )
+  SELECT
+    pc.id,
+    p_user_id,
+    p_checkout_session_id,
+    p_context,
+    GREATEST(COALESCE(p_discount_amount, 0), 0),
+    COALESCE(p_purchase_ids, '{}'::uuid[]),
+    -- A code deleted while the buyer paid leaves an empty snapshot.
+    CASE
+      WHEN pc.id IS NULL THEN '{}'::jsonb
+      ELSE jsonb_build_object(
+        'code', pc.code,
+        'discount_type', pc.discount_type,
+        'discount_value', pc.discount_value,
+        'scope', pc.scope
+      )
+    END
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.promo_codes pc
+    ON pc.id = p_promo_code_id
+  ON CONFLICT (checkout_session_id) DO NOTHING
+  RETURNING id INTO v_redemption_id;
+
+  IF v_redemption_id IS NULL THEN
+    SELECT id
+    INTO v_redemption_id
+    FROM public.promo_code_redemptions
+    WHERE checkout_session_id = p_checkout_session_id;
+  END IF;
+
+  -- The redemption now counts in place of the reservation.
+  DELETE FROM public.promo_code_reservations
+  WHERE checkout_session_id = p_checkout_session_id;
+
+  UPDATE public.entitlements
+  SET entitlement_type = 'promo'
+  WHERE purchase_id = ANY(COALESCE(p_purchase_ids, '{}'::uuid[]))
+    AND user_id = p_user_id;
+
+  RETURN v_redemption_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_promo_code(uuid, uuid, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.reserve_promo_code(uuid, uuid, text) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.reserve_promo_code(uuid, uuid, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_promo_code(uuid, uuid, text) TO service_role;
+
+COMMIT;
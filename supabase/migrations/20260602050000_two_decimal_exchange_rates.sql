@@ -0,0 +1,35 @@
+/*
+  # Two-decimal exchange rates only
+
+  Checkout amounts are converted from euro cents and sent to Stripe as the
+  smallest unit of the presentment currency. That only holds for
+  two-decimal currencies: a zero-decimal currency such as JPY would be
+  charged a hundred times the price, a three-decimal one such as KWD a
+  tenth of it. exchange_rates accepted any three-letter code, and
+  create-checkout charged in any currency with an active rate.
+
+  - exchange_rates_shape_check now lists the currencies the storefront and
+    the checkouts support (src/lib/utils/currency.ts and
+    supabase/functions/_shared/currency.ts).
+  - Rates for other currencies are removed; the storefront never offered
+    them.
+  - create-checkout falls back to euros for any other currency and
+    stripe-webhook rejects sessions charged in one.
+*/
+
+BEGIN;
+
+DELETE FROM public.exchange_rates
+WHERE currency NOT IN ('EUR', 'USD', 'GBP', 'CHF', 'CAD');
+
+ALTER TABLE public.exchange_rates
+  DROP CONSTRAINT IF EXISTS exchange_rates_shape_check;
+
+ALTER TABLE public.exchange_rates
+  ADD CONSTRAINT exchange_rates_shape_check CHECK (
+    currency IN ('EUR', 'USD', 'GBP', 'CHF', 'CAD')
+    AND rate_from_eur > 0
+    AND (currency <> 'EUR' OR (rate_from_eur = 1 AND is_active))
+  );
+
+COMMIT;
@@ -0,0 +1,356 @@
+/*
+  # Masked battle detail for blind battles
+
+  Blind battles hid names and avatars in the web app only: the battle page
+  still read producer1_id and producer2_id (and the cypher entrants'
+  producer_id) and looked up the public producer profiles, so anyone could
+  tell who made which beat before the battle completed.
+
+  - get_battle_detail and get_battle_entrants return the battle as the battle
+    page shows it. While a battle is blind, viewers other than its
+    participants and admins get a per-battle alias in place of each producer
+    id, no product ids, and the preview URLs the slots play.
+  - get_my_battle_vote and get_my_battle_judge_scorecards return the viewer's
+    own vote and scorecards under the same aliases.
+  - rpc_vote_with_feedback and submit_battle_judge_scorecard accept the
+    aliases: their implementations move to private and the public functions
+    turn aliases back into producer ids before calling them.
+
+  Aliases are random and kept in battle_blind_aliases, which API roles
+  cannot read. Once the battle completes every viewer gets the real ids.
+*/
+
+BEGIN;
+
+-- -----------------------------------------------------------------------------
+-- Aliases
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.battle_blind_aliases (
+  battle_id uuid NOT NULL REFERENCES public.battles(id) ON DELETE CASCADE,
+  producer_id uuid NOT NULL,
+  alias uuid NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (battle_id, producer_id)
+);
+
+COMMENT ON TABLE public.battle_blind_aliases IS
+  'Ids standing in for the producers of a blind battle until it completes.';
+
+ALTER TABLE public.battle_blind_aliases ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.battle_blind_aliases FROM anon;
+REVOKE ALL ON TABLE public.battle_blind_aliases FROM authenticated;
+GRANT ALL ON TABLE public.battle_blind_aliases TO service_role;
+
+CREATE OR REPLACE FUNCTION private.is_battle_identity_masked(p_battle_id uuid, p_viewer_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.battles b
+    WHERE b.id = p_battle_id
+      AND b.blind_voting = true
+      AND b.status <> 'completed'
+  )
+  AND NOT public.is_blind_battle_participant(p_battle_id, p_viewer_id)
+  AND NOT COALESCE(public.is_admin(p_viewer_id), false);
+$$;
+
+-- The alias of a producer of the battle for the current viewer, or the
+-- producer id itself when the viewer may see it.
+CREATE OR REPLACE FUNCTION private.mask_battle_producer(p_battle_id uuid, p_producer_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_alias uuid;
+BEGIN
+  IF p_producer_id IS NULL OR NOT private.is_battle_identity_masked(p_battle_id, auth.uid()) THEN
+    RETURN p_producer_id;
+  END IF;
+
+  INSERT INTO public.battle_blind_aliases (battle_id, producer_id)
+  VALUES (p_battle_id, p_producer_id)
+  ON CONFLICT (battle_id, producer_id) DO NOTHING;
+
+  SELECT alias
+  INTO v_alias
+  FROM public.battle_blind_aliases
+  WHERE battle_id = p_battle_id
+    AND producer_id = p_producer_id;
+
+  RETURN v_alias;
+END;
+$$;
+
+-- Producer ids pass through unchanged.
+CREATE OR REPLACE FUNCTION private.unmask_battle_producer(p_battle_id uuid, p_producer_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT a.producer_id
+      FROM public.battle_blind_aliases a
+      WHERE a.battle_id = p_battle_id
+        AND a.alias = p_producer_id
+    ),
+    p_producer_id
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION private.is_battle_identity_masked(uuid, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION private.mask_battle_producer(uuid, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION private.unmask_battle_producer(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION private.is_battle_identity_masked(uuid, uuid) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION private.mask_battle_producer(uuid, uuid) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION private.unmask_battle_producer(uuid, uuid) TO authenticated, service_role;
+
+-- -----------------------------------------------------------------------------
+-- Battle page reads
+-- -----------------------------------------------------------------------------
+-- SECURITY INVOKER: the battles, entrants, snapshots and catalog policies
+-- still decide what the viewer may read.
+CREATE OR REPLACE FUNCTION public.get_battle_detail(p_slug text)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  slug text,
+  description text,
+  producer1_id uuid,
+  producer2_id uuid,
+  product1_id uuid,
+  product2_id uuid,
+  status public.battle_status,
+  accepted_at timestamptz,
+  rejected_at timestamptz,
+  admin_validated_at timestamptz,
+  rejection_reason text,
+  response_deadline timestamptz,
+  submission_deadline timestamptz,
+  starts_at timestamptz,
+  voting_ends_at timestamptz,
+  winner_id uuid,
+  votes_producer1 integer,
+  votes_producer2 integer,
+  featured boolean,
+  prize_description text,
+  battle_format text,
+  blind_voting boolean,
+  judge_weight numeric,
+  created_at timestamptz,
+  updated_at timestamptz,
+  custom_duration_days integer,
+  extension_count integer,
+  identities_masked boolean,
+  product1_preview_url text,
+  product2_preview_url text
+)
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public, private, pg_temp
+AS $$
+  WITH battle AS (
+    SELECT
+      b.*,
+      private.is_battle_identity_masked(b.id, auth.uid()) AS masked
+    FROM public.battles b
+    WHERE b.slug = p_slug
+  )
+  SELECT
+    b.id,
+    b.title,
+    b.slug,
+    b.description,
+    private.mask_battle_producer(b.id, b.producer1_id),
+    private.mask_battle_producer(b.id, b.producer2_id),
+    CASE WHEN b.masked THEN NULL ELSE b.product1_id END,
+    CASE WHEN b.masked THEN NULL ELSE b.product2_id END,
+    b.status,
+    b.accepted_at,
+    b.rejected_at,
+    b.admin_validated_at,
+    b.rejection_reason,
+    b.response_deadline,
+    b.submission_deadline,
+    b.starts_at,
+    b.voting_ends_at,
+    b.winner_id,
+    b.votes_producer1,
+    b.votes_producer2,
+    b.featured,
+    b.prize_description,
+    b.battle_format,
+    b.blind_voting,
+    b.judge_weight,
+    b.created_at,
+    b.updated_at,
+    b.custom_duration_days,
+    b.extension_count,
+    b.masked,
+    CASE WHEN b.masked THEN COALESCE(p1.preview_url, s1.preview_url_snapshot) END,
+    CASE WHEN b.masked THEN COALESCE(p2.preview_url, s2.preview_url_snapshot) END
+  FROM battle b
+  LEFT JOIN public.public_catalog_products p1 ON p1.id = b.product1_id
+  LEFT JOIN public.public_catalog_products p2 ON p2.id = b.product2_id
+  LEFT JOIN public.battle_product_snapshots s1 ON s1.battle_id = b.id AND s1.slot = 'producer1'
+  LEFT JOIN public.battle_product_snapshots s2 ON s2.battle_id = b.id AND s2.slot = 'producer2';
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_battle_entrants(p_battle_id uuid)
+RETURNS TABLE (
+  id uuid,
+  battle_id uuid,
+  producer_id uuid,
+  product_id uuid,
+  "position" smallint,
+  points integer,
+  first_place_votes integer,
+  final_rank smallint,
+  created_at timestamptz,
+  updated_at timestamptz,
+  preview_url text
+)
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public, private, pg_temp
+AS $$
+  SELECT
+    be.id,
+    be.battle_id,
+    private.mask_battle_producer(be.battle_id, be.producer_id),
+    CASE WHEN masked.value THEN NULL ELSE be.product_id END,
+    be.position,
+    be.points,
+    be.first_place_votes,
+    be.final_rank,
+    be.created_at,
+    be.updated_at,
+    CASE WHEN masked.value THEN p.preview_url END
+  FROM public.battle_entrants be
+  CROSS JOIN LATERAL (SELECT private.is_battle_identity_masked(be.battle_id, auth.uid()) AS value) AS masked
+  LEFT JOIN public.public_catalog_products p ON p.id = be.product_id
+  WHERE be.battle_id = p_battle_id
+  ORDER BY be.position;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_battle_vote(p_battle_id uuid)
+RETURNS uuid
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public, private, pg_temp
+AS $$
+  SELECT private.mask_battle_producer(bv.battle_id, bv.voted_for_producer_id)
+  FROM public.battle_votes bv
+  WHERE bv.battle_id = p_battle_id
+    AND bv.user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_battle_judge_scorecards(p_battle_id uuid)
+RETURNS SETOF public.battle_judge_scorecards
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public, private, pg_temp
+AS $$
+  SELECT
+    s.id,
+    s.battle_id,
+    s.judge_id,
+    private.mask_battle_producer(s.battle_id, s.producer_id),
+    s.criterion_scores,
+    s.comment,
+    s.created_at,
+    s.updated_at
+  FROM public.battle_judge_scorecards s
+  WHERE s.battle_id = p_battle_id
+    AND s.judge_id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_battle_detail(text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.get_battle_entrants(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.get_my_battle_vote(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.get_my_battle_judge_scorecards(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_battle_detail(text) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_battle_entrants(uuid) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_my_battle_vote(uuid) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_my_battle_judge_scorecards(uuid) TO authenticated, service_role;
+
+-- -----------------------------------------------------------------------------
+-- Votes and scorecards cast on aliases
+-- -----------------------------------------------------------------------------
+-- Same move as the SECURITY DEFINER wrappers: the implementation keeps its
+-- grants in private and the public function only resolves the aliases.
+DO $$
+BEGIN
+  IF to_regprocedure('private.rpc_vote_with_feedback(uuid, uuid, text[], uuid[])') IS NULL THEN
+    ALTER FUNCTION public.rpc_vote_with_feedback(uuid, uuid, text[], uuid[]) SET SCHEMA private;
+  END IF;
+
+  IF to_regprocedure('private.submit_battle_judge_scorecard(uuid, uuid, jsonb, text)') IS NULL THEN
+    ALTER FUNCTION public.submit_battle_judge_scorecard(uuid, uuid, jsonb, text) SET SCHEMA private;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rpc_vote_with_feedback(
+  p_battle_id uuid,
+  p_winner_producer_id uuid,
+  p_criteria text[],
+  p_ranking uuid[] DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public, private, pg_temp
+AS $$
+  SELECT private.rpc_vote_with_feedback(
+    p_battle_id,
+    private.unmask_battle_producer(p_battle_id, p_winner_producer_id),
+    p_criteria,
+    (
+      SELECT array_agg(private.unmask_battle_producer(p_battle_id, r.producer_id) ORDER BY r.rank)
+      FROM unnest(p_ranking) WITH ORDINALITY AS r(producer_id, rank)
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.submit_battle_judge_scorecard(
+  p_battle_id uuid,
+  p_producer_id uuid,
+  p_scores jsonb,
+  p_comment text DEFAULT NULL
+)
+RETURNS public.battle_judge_scorecards
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public, private, pg_temp
+AS $$
+  SELECT *
+  FROM private.submit_battle_judge_scorecard(
+    p_battle_id,
+    private.unmask_battle_producer(p_battle_id, p_producer_id),
+    p_scores,
+    p_comment
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rpc_vote_with_feedback(uuid, uuid, text[], uuid[]) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.rpc_vote_with_feedback(uuid, uuid, text[], uuid[]) FROM anon;
+GRANT EXECUTE ON FUNCTION public.rpc_vote_with_feedback(uuid, uuid, text[], uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_vote_with_feedback(uuid, uuid, text[], uuid[]) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.submit_battle_judge_scorecard(uuid, uuid, jsonb, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.submit_battle_judge_scorecard(uuid, uuid, jsonb, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.submit_battle_judge_scorecard(uuid, uuid, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_battle_judge_scorecard(uuid, uuid, jsonb, text) TO service_role;
+
+COMMIT;
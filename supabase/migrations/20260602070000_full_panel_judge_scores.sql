@@ -0,0 +1,86 @@
+/*
+  # Judge scores averaged over the full panel
+
+  compute_battle_judged_scores averaged each competitor over the scorecards
+  they received. On a panel where judges scored different competitors, one
+  judge's card could decide a competitor's whole judge score while another
+  competitor was averaged over every judge, so skipping a card favoured the
+  competitor who was left out of it.
+
+  judge_score is now the sum of a competitor's card scores divided by the
+  number of judges on the panel: a judge who did not score a competitor
+  counts as 0 for them. Removing a judge still removes their cards, so the
+  panel and the cards always match. A panel that never scored keeps the
+  community result, as before.
+*/
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.compute_battle_judged_scores(p_battle_id uuid)
+RETURNS TABLE (
+  producer_id uuid,
+  community_score numeric,
+  judge_score numeric,
+  scorecard_count integer,
+  final_score numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  WITH cards AS (
+    SELECT
+      sc.producer_id,
+      (SELECT avg(s.value::numeric) FROM jsonb_each_text(sc.criterion_scores) AS s) / 10 AS card_score
+    FROM public.battle_judge_scorecards sc
+    WHERE sc.battle_id = p_battle_id
+  ),
+  panel AS (
+    SELECT count(*)::integer AS judge_count
+    FROM public.battle_judges bj
+    WHERE bj.battle_id = p_battle_id
+  ),
+  judged AS (
+    SELECT cards.producer_id, sum(cards.card_score) AS card_total, count(*)::integer AS scorecard_count
+    FROM cards
+    GROUP BY cards.producer_id
+  ),
+  weight AS (
+    SELECT CASE WHEN EXISTS (SELECT 1 FROM cards) THEN b.judge_weight END AS judge_weight
+    FROM public.battles b
+    WHERE b.id = p_battle_id
+  ),
+  scored AS (
+    SELECT
+      c.producer_id,
+      c.community_score,
+      COALESCE(j.card_total, 0) / NULLIF(p.judge_count, 0) AS judge_score,
+      COALESCE(j.scorecard_count, 0) AS scorecard_count,
+      w.judge_weight
+    FROM public.get_battle_competitor_shares(p_battle_id) c
+    CROSS JOIN weight w
+    CROSS JOIN panel p
+    LEFT JOIN judged j ON j.producer_id = c.producer_id
+  )
+  SELECT
+    s.producer_id,
+    round(s.community_score, 4),
+    round(s.judge_score, 4),
+    s.scorecard_count,
+    round(
+      CASE
+        WHEN s.judge_weight IS NULL THEN s.community_score
+        ELSE s.judge_weight * COALESCE(s.judge_score, 0) + (1 - s.judge_weight) * s.community_score
+      END,
+      4
+    )
+  FROM scored s;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.compute_battle_judged_scores(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.compute_battle_judged_scores(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.compute_battle_judged_scores(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.compute_battle_judged_scores(uuid) TO service_role;
+
+COMMIT;
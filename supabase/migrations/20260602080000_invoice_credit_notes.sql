@@ -0,0 +1,148 @@
+/*
+  # Invoice credit notes
+
+  A refunded or lost-dispute sale kept its invoice with nothing cancelling
+  it, so it still counted as invoiced revenue. Issued invoices are never
+  edited or deleted (numbering must stay gapless): a credit note cancels one.
+
+  - kind = 'credit_note' rows credit the invoice in credited_invoice_id, in
+    full, numbered in the same seller sequence. Amounts stay positive like
+    every invoice; the kind says they are credited. purchase_id stays NULL,
+    it keeps pointing at one invoice per purchase.
+  - issue_credit_note_for_purchase credits the invoice of a reversed
+    purchase. The stripe-webhook calls it after reverse_purchase; a purchase
+    that was never invoiced has nothing to credit.
+*/
+
+BEGIN;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS credited_invoice_id uuid REFERENCES public.invoices(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.invoices
+  DROP CONSTRAINT IF EXISTS invoices_credited_invoice_id_key;
+
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_credited_invoice_id_key UNIQUE (credited_invoice_id);
+
+ALTER TABLE public.invoices
+  DROP CONSTRAINT IF EXISTS invoices_shape_check;
+
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_shape_check CHECK (
+    kind IN ('purchase', 'subscription', 'credit_note')
+    AND payment_source IN ('stripe_checkout', 'subscription')
+    AND currency ~ '^[A-Z]{3}$'
+    AND tax_cents <= amount_cents
+    AND (kind = 'credit_note') = (credited_invoice_id IS NOT NULL)
+    AND (kind <> 'credit_note' OR purchase_id IS NULL)
+  );
+
+COMMENT ON COLUMN public.invoices.credited_invoice_id IS
+  'Set for kind = credit_note: the invoice it cancels in full.';
+COMMENT ON COLUMN public.invoices.purchase_id IS
+  'Set for kind = purchase; NULL once the purchase row is gone, the invoice itself is kept. A credit note reaches the purchase through credited_invoice_id.';
+
+-- -----------------------------------------------------------------------------
+-- Issuing
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.issue_credit_note_for_purchase(p_purchase_id uuid)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_purchase public.purchases%ROWTYPE;
+  v_invoice public.invoices%ROWTYPE;
+  v_credit_note public.invoices%ROWTYPE;
+  v_sequence integer;
+BEGIN
+  -- Same lock as issue_invoice_for_purchase: an invoice being issued for
+  -- this purchase is either visible here or never issued.
+  SELECT * INTO v_purchase
+  FROM public.purchases
+  WHERE id = p_purchase_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'purchase_not_found';
+  END IF;
+
+  SELECT * INTO v_invoice
+  FROM public.invoices
+  WHERE purchase_id = p_purchase_id;
+
+  -- Never invoiced: issue_invoice_for_purchase refuses it from now on.
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_credit_note
+  FROM public.invoices
+  WHERE credited_invoice_id = v_invoice.id;
+
+  IF FOUND THEN
+    RETURN v_credit_note;
+  END IF;
+
+  IF v_purchase.status = 'completed' THEN
+    RAISE EXCEPTION 'purchase_not_reversed';
+  END IF;
+
+  v_sequence := public.allocate_invoice_number(v_invoice.seller_key);
+
+  INSERT INTO public.invoices (
+    seller_key,
+    sequence_number,
+    invoice_number,
+    kind,
+    seller_id,
+    buyer_id,
+    credited_invoice_id,
+    seller_name,
+    buyer_name,
+    buyer_email,
+    description,
+    license_name,
+    payment_source,
+    currency,
+    amount_cents,
+    tax_cents,
+    fx_rate,
+    amount_eur_cents,
+    issued_at
+  )
+  VALUES (
+    v_invoice.seller_key,
+    v_sequence,
+    public.format_invoice_number(v_invoice.seller_key, v_sequence),
+    'credit_note',
+    v_invoice.seller_id,
+    v_invoice.buyer_id,
+    v_invoice.id,
+    v_invoice.seller_name,
+    v_invoice.buyer_name,
+    v_invoice.buyer_email,
+    v_invoice.description,
+    v_invoice.license_name,
+    v_invoice.payment_source,
+    v_invoice.currency,
+    v_invoice.amount_cents,
+    v_invoice.tax_cents,
+    v_invoice.fx_rate,
+    v_invoice.amount_eur_cents,
+    COALESCE(v_purchase.refunded_at, now())
+  )
+  RETURNING * INTO v_credit_note;
+
+  RETURN v_credit_note;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_credit_note_for_purchase(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.issue_credit_note_for_purchase(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.issue_credit_note_for_purchase(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.issue_credit_note_for_purchase(uuid) TO service_role;
+
+COMMIT;
@@ -0,0 +1,83 @@
+-- Exclusive sale refund SQL smoke test.
+-- Run against a local Supabase database after migrations:
+--   psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f tests/sql/exclusive_sale_refund.sql
+
+BEGIN;
+
+DO $$
+DECLARE
+  v_producer uuid := gen_random_uuid();
+  v_buyer uuid := gen_random_uuid();
+  v_lease_holder uuid := gen_random_uuid();
+  v_beat uuid := gen_random_uuid();
+  v_exclusive uuid := gen_random_uuid();
+  v_lease_purchase uuid := gen_random_uuid();
+  v_exclusive_purchase uuid := gen_random_uuid();
+  v_record public.exclusive_sale_records%ROWTYPE;
+  v_beat_status text;
+BEGIN
+  INSERT INTO auth.users (id, instance_id, aud, role, email, encrypted_password, email_confirmed_at, created_at, updated_at)
+  VALUES
+    (v_producer, '00000000-0000-0000-0000-000000000000', 'authenticated', 'authenticated', 'excl-producer@example.test', 'x', now(), now(), now()),
+    (v_buyer, '00000000-0000-0000-0000-000000000000', 'authenticated', 'authenticated', 'excl-buyer@example.test', 'x', now(), now(), now()),
+    (v_lease_holder, '00000000-0000-0000-0000-000000000000', 'authenticated', 'authenticated', 'excl-lease@example.test', 'x', now(), now(), now());
+
+  INSERT INTO public.user_profiles (id, email, username, role, is_producer_active)
+  VALUES
+    (v_producer, 'excl-producer@example.test', 'excl_producer_sql', 'producer', true),
+    (v_buyer, 'excl-buyer@example.test', 'excl_buyer_sql', 'confirmed_user', false),
+    (v_lease_holder, 'excl-lease@example.test', 'excl_lease_sql', 'confirmed_user', false)
+  ON CONFLICT (id) DO UPDATE
+  SET username = EXCLUDED.username,
+      role = EXCLUDED.role,
+      is_producer_active = EXCLUDED.is_producer_active;
+
+  INSERT INTO public.products (id, producer_id, title, slug, product_type, price, is_published, parent_product_id)
+  VALUES
+    (v_beat, v_producer, 'Exclusive SQL beat', 'exclusive-sql-beat', 'beat', 3000, true, NULL),
+    (v_exclusive, v_producer, 'Exclusive SQL beat (exclusive)', 'exclusive-sql-beat-exclusive', 'exclusive', 50000, true, v_beat);
+
+  INSERT INTO public.purchases (id, user_id, producer_id, product_id, amount, status, is_exclusive, completed_at)
+  VALUES (v_lease_purchase, v_lease_holder, v_producer, v_beat, 3000, 'completed', false, now() - interval '1 day');
+
+  INSERT INTO public.purchases (id, user_id, producer_id, product_id, amount, status, is_exclusive, completed_at)
+  VALUES (v_exclusive_purchase, v_buyer, v_producer, v_exclusive, 50000, 'completed', true, now());
+
+  SELECT * INTO v_record FROM public.exclusive_sale_records WHERE purchase_id = v_exclusive_purchase;
+  IF NOT FOUND OR v_record.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'expected an active sale record, got %', to_jsonb(v_record);
+  END IF;
+
+  IF jsonb_array_length(v_record.prior_leases) <> 1 OR NOT v_beat = ANY(v_record.delisted_product_ids) THEN
+    RAISE EXCEPTION 'expected the lease listed and the beat delisted, got %', to_jsonb(v_record);
+  END IF;
+
+  BEGIN
+    UPDATE public.products SET status = 'active', is_published = true WHERE id = v_beat;
+    RAISE EXCEPTION 'expected the sold lineage to stay off sale';
+  EXCEPTION
+    WHEN raise_exception THEN
+      IF SQLERRM <> 'product_lineage_sold_exclusively' THEN
+        RAISE;
+      END IF;
+  END;
+
+  IF public.reverse_purchase(v_exclusive_purchase, 'refund', '{}'::jsonb) IS NOT TRUE THEN
+    RAISE EXCEPTION 'expected the exclusive purchase to be reversed';
+  END IF;
+
+  SELECT * INTO v_record FROM public.exclusive_sale_records WHERE purchase_id = v_exclusive_purchase;
+  IF v_record.voided_at IS NULL THEN
+    RAISE EXCEPTION 'expected the refund to void the sale record';
+  END IF;
+
+  UPDATE public.products SET status = 'active', is_published = true WHERE id = v_beat;
+
+  SELECT status INTO v_beat_status FROM public.products WHERE id = v_beat;
+  IF v_beat_status <> 'active' THEN
+    RAISE EXCEPTION 'expected the beat back on sale, got %', v_beat_status;
+  END IF;
+END;
+$$;
+
+ROLLBACK;
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  compareBpm,
+  compareKey,
+  parseKeySignature,
+} from '../../src/lib/audio/detection.ts';
+
+test('parseKeySignature reads letter, solfege and enharmonic spellings', () => {
+  assert.deepEqual(parseKeySignature('Am'), { pitchClass: 9, minor: true });
+  assert.deepEqual(parseKeySignature('F# minor'), { pitchClass: 6, minor: true });
+  assert.deepEqual(parseKeySignature('Gb'), { pitchClass: 6, minor: false });
+  assert.deepEqual(parseKeySignature('Ebmaj'), { pitchClass: 3, minor: false });
+  assert.deepEqual(parseKeySignature('Ré mineur'), { pitchClass: 2, minor: true });
+  assert.deepEqual(parseKeySignature('sib'), { pitchClass: 10, minor: false });
+  assert.equal(parseKeySignature('dark'), null);
+  assert.equal(parseKeySignature(''), null);
+});
+
+test('compareBpm accepts half and double time and ignores low confidence', () => {
+  assert.equal(compareBpm('', 140, 0.8), 'suggest');
+  assert.equal(compareBpm('141', 140, 0.8), 'match');
+  assert.equal(compareBpm('70', 140, 0.8), 'match');
+  assert.equal(compareBpm('128', 140, 0.8), 'mismatch');
+  assert.equal(compareBpm('128', 140, 0.1), 'none');
+  assert.equal(compareBpm('128', null, null), 'none');
+});
+
+test('compareKey matches enharmonics but flags relative keys', () => {
+  assert.equal(compareKey('', 'C#m', 0.9), 'suggest');
+  assert.equal(compareKey('Dbm', 'C#m', 0.9), 'match');
+  assert.equal(compareKey('E', 'C#m', 0.9), 'mismatch');
+  assert.equal(compareKey('not a key', 'C#m', 0.9), 'mismatch');
+  assert.equal(compareKey('E', 'C#m', 0.2), 'none');
+});
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { getAudioQualityReasonParams, getAudioQualityReasons } from '../../src/lib/audio/quality.ts';
+
+test('getAudioQualityReasons keeps known checks from the worker report', () => {
+  const reasons = getAudioQualityReasons({
+    version: 1,
+    status: 'failed',
+    reasons: [
+      { code: 'clipping', value: 0.0042, threshold: 0.001 },
+      { code: 'loudness_war', value: 3, threshold: 1 },
+      { code: 'corrupt', value: 2, threshold: null },
+      'silence',
+    ],
+  });
+
+  assert.deepEqual(reasons, [
+    { code: 'clipping', value: 0.0042, threshold: 0.001 },
+    { code: 'corrupt', value: 2, threshold: null },
+  ]);
+  assert.deepEqual(getAudioQualityReasons(null), []);
+  assert.deepEqual(getAudioQualityReasons({ reasons: 'clipping' }), []);
+});
+
+test('getAudioQualityReasonParams formats values per check', () => {
+  assert.deepEqual(getAudioQualityReasonParams({ code: 'clipping', value: 0.0042, threshold: 0.001 }), {
+    value: '0.42%',
+    threshold: '0.1%',
+  });
+  assert.deepEqual(getAudioQualityReasonParams({ code: 'silence', value: 0.8, threshold: 0.5 }), {
+    value: '80%',
+    threshold: '50%',
+  });
+  assert.deepEqual(getAudioQualityReasonParams({ code: 'low_sample_rate', value: 22_050, threshold: 44_100 }), {
+    value: '22.1 kHz',
+    threshold: '44.1 kHz',
+  });
+  assert.deepEqual(getAudioQualityReasonParams({ code: 'low_bit_depth', value: 8, threshold: 16 }), {
+    value: '8 bit',
+    threshold: '16 bit',
+  });
+  assert.deepEqual(getAudioQualityReasonParams({ code: 'phase_inverted', value: -0.93, threshold: -0.5 }), {
+    value: '-0.93',
+    threshold: '-0.50',
+  });
+  assert.equal(getAudioQualityReasonParams({ code: 'corrupt', value: null, threshold: null }).threshold, '—');
+});
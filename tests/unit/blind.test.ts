@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { getBlindSlotLetter, isBlindVotingActive, orderBlindSlots } from '../../src/lib/battles/blind.ts';
+
+test('blind voting stays active until the battle completes', () => {
+  assert.equal(isBlindVotingActive({ blind_voting: true, status: 'active' }), true);
+  assert.equal(isBlindVotingActive({ blind_voting: true, status: 'completed' }), false);
+  assert.equal(isBlindVotingActive({ blind_voting: false, status: 'active' }), false);
+  assert.equal(isBlindVotingActive(null), false);
+});
+
+test('slot letters follow the alphabet', () => {
+  assert.deepEqual([0, 1, 2].map(getBlindSlotLetter), ['A', 'B', 'C']);
+});
+
+test('slot order is stable per viewer and keeps every slot', () => {
+  const slots = ['p1', 'p2', 'p3', 'p4', 'p5'];
+  const first = orderBlindSlots(slots, 'battle-1', 'viewer-1');
+
+  assert.deepEqual(orderBlindSlots(slots, 'battle-1', 'viewer-1'), first);
+  assert.deepEqual([...first].sort(), slots);
+  assert.deepEqual(slots, ['p1', 'p2', 'p3', 'p4', 'p5']);
+});
+
+test('slot order varies across viewers', () => {
+  const orders = new Set(
+    Array.from({ length: 20 }, (_, index) => orderBlindSlots(['p1', 'p2'], 'battle-1', `viewer-${index}`).join(',')),
+  );
+
+  assert.equal(orders.size, 2);
+});
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { evaluateProducerDeals, evaluatePromoCode } from '../../src/lib/products/deals.ts';
+import {
+  evaluateProducerDeals as evaluateCheckoutDeals,
+  evaluatePromoCode as evaluateCheckoutPromoCode,
+  type DealCartItem,
+  type ProducerDealRow,
+} from '../../supabase/functions/_shared/checkoutDeals.ts';
+import type { ProducerDeal } from '../../src/lib/supabase/types.ts';
+
+const deal = (overrides: Partial<ProducerDealRow>): ProducerDealRow => ({
+  id: 'deal-1',
+  producer_id: 'p1',
+  title: 'Deal',
+  deal_type: 'buy_x_get_y',
+  buy_quantity: 2,
+  free_quantity: 1,
+  bundle_price: null,
+  product_ids: [],
+  ...overrides,
+});
+
+const asProducerDeal = (row: ProducerDealRow): ProducerDeal => ({
+  ...row,
+  archived_at: null,
+  created_at: '2026-01-01',
+  updated_at: '2026-01-01',
+});
+
+const item = (productId: string, amount: number, producerId = 'p1', isExclusive = false): DealCartItem => ({
+  productId,
+  producerId,
+  amount,
+  isExclusive,
+});
+
+const carts: Array<{ name: string; items: DealCartItem[]; deals: ProducerDealRow[] }> = [
+  {
+    name: 'buy 2 get 1',
+    items: [item('a', 3000), item('b', 2000), item('c', 1000), item('d', 500)],
+    deals: [deal({})],
+  },
+  {
+    name: 'bundle before buy X get Y',
+    items: [item('a', 3000), item('b', 2000), item('c', 1999), item('d', 1001)],
+    deals: [
+      deal({ id: 'bundle', deal_type: 'bundle', buy_quantity: null, free_quantity: null, bundle_price: 3333, product_ids: ['a', 'c'] }),
+      deal({ id: 'b1g1', buy_quantity: 1, free_quantity: 1 }),
+    ],
+  },
+  {
+    name: 'several producers and an exclusive',
+    items: [item('a', 2500), item('b', 2500, 'p2'), item('c', 1200, 'p2'), item('d', 9900, 'p2', true), item('e', 700, 'p2')],
+    deals: [deal({ id: 'p2-deal', producer_id: 'p2' })],
+  },
+  {
+    name: 'bundle priced under a cent per beat',
+    items: [item('a', 100), item('b', 100)],
+    deals: [deal({ deal_type: 'bundle', buy_quantity: null, free_quantity: null, bundle_price: 1, product_ids: ['a', 'b'] })],
+  },
+];
+
+test('checkout and cart give every item the same deal discount', () => {
+  for (const cart of carts) {
+    const shown = evaluateProducerDeals(cart.items, cart.deals.map(asProducerDeal));
+    const charged = evaluateCheckoutDeals(cart.items, cart.deals);
+    const chargedShares = Object.fromEntries([...charged.itemDeals].map(([productId, entry]) => [productId, entry.discount]));
+
+    assert.deepEqual(chargedShares, shown.itemDiscounts, cart.name);
+    assert.equal(charged.discountTotal, shown.discountTotal, cart.name);
+  }
+});
+
+test('deal totals are what the items carry', () => {
+  const cart = carts[3]!;
+  const shown = evaluateProducerDeals(cart.items, cart.deals.map(asProducerDeal));
+  const charged = evaluateCheckoutDeals(cart.items, cart.deals);
+
+  // 199 off was asked but each beat keeps a cent.
+  assert.equal(charged.discountTotal, 198);
+  assert.equal(shown.discountTotal, 198);
+  assert.equal(shown.appliedDeals[0]?.discount, 198);
+});
+
+test('checkout and cart give every item the same promo discount', () => {
+  const items = [item('a', 3000), item('b', 2001, 'p2'), item('c', 999, 'p2')];
+  const promos = [
+    { discount_type: 'percent' as const, discount_value: 15, scope: 'all_beats' as const, product_id: null, scope_producer_id: null },
+    { discount_type: 'fixed' as const, discount_value: 1000, scope: 'producer' as const, product_id: null, scope_producer_id: 'p2' },
+    { discount_type: 'fixed' as const, discount_value: 10000, scope: 'product' as const, product_id: 'a', scope_producer_id: null },
+  ];
+
+  for (const promo of promos) {
+    assert.deepEqual(evaluateCheckoutPromoCode(items, promo), evaluatePromoCode(items, promo));
+  }
+});
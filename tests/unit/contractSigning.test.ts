@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import test from 'node:test';
+import {
+  createContractReference,
+  getContractKeyId,
+  loadContractSigningKey,
+  loadContractVerificationKey,
+  normalizeContractReference,
+  sha256Hex,
+  signContract,
+  verifyContractSignature,
+} from '../../api/_shared/contract-signing.ts';
+
+const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+const privatePem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+const publicPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+test('contract references are random, readable and normalized when retyped', () => {
+  const reference = createContractReference();
+  assert.match(reference, /^BTL-[0-9A-Z]{4}-[0-9A-Z]{4}-[0-9A-Z]{4}-[0-9A-Z]{4}$/);
+  assert.notEqual(reference, createContractReference());
+  assert.equal(normalizeContractReference(reference.toLowerCase()), reference);
+
+  assert.equal(normalizeContractReference(' btl-0l1o-ABCD-2345-6789 '), 'BTL-0110-ABCD-2345-6789');
+  assert.equal(normalizeContractReference('BTL-ABCD-EFGH-JKMN'), null);
+  assert.equal(normalizeContractReference('XYZ-ABCD-EFGH-JKMN-PQRS'), null);
+  assert.equal(normalizeContractReference('BTL-ABCD-EFGH-JKMN-PQRU'), null);
+});
+
+test('signatures cover the reference, purchase, content hash and issue date', () => {
+  // Dashboards often store the PEM on one line with escaped newlines.
+  const key = loadContractSigningKey(privatePem.replace(/\n/g, '\\n'));
+  const fields = {
+    reference: 'BTL-ABCD-EFGH-JKMN-PQRS',
+    purchaseId: 'purchase-123',
+    sha256: sha256Hex(new TextEncoder().encode('%PDF-1.3 contract')),
+    issuedAt: '2026-06-01T10:00:00.000Z',
+  };
+  const signature = signContract(key, fields);
+
+  const verificationKey = loadContractVerificationKey(publicPem);
+  assert.equal(getContractKeyId(verificationKey), key.keyId);
+  assert.equal(getContractKeyId(loadContractVerificationKey(privatePem)), key.keyId);
+  assert.equal(verifyContractSignature(verificationKey, fields, signature), true);
+
+  assert.equal(verifyContractSignature(verificationKey, { ...fields, purchaseId: 'purchase-456' }, signature), false);
+  assert.equal(verifyContractSignature(verificationKey, { ...fields, sha256: sha256Hex(new Uint8Array([1])) }, signature), false);
+  assert.equal(verifyContractSignature(verificationKey, fields, 'not-a-signature'), false);
+
+  const otherKey = generateKeyPairSync('ed25519').publicKey;
+  assert.notEqual(getContractKeyId(otherKey), key.keyId);
+  assert.equal(verifyContractSignature(otherKey, fields, signature), false);
+});
+
+test('only Ed25519 keys are accepted', () => {
+  const rsa = generateKeyPairSync('rsa', { modulusLength: 1024 });
+  assert.throws(
+    () => loadContractSigningKey(rsa.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()),
+    /Ed25519/,
+  );
+});
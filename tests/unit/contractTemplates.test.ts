@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import test from 'node:test';
+import {
+  fillContractPlaceholders,
+  parseContractTemplateBodies,
+  renderContract,
+  resolveContractLanguage,
+} from '../../contract-service/src/contractTemplates.ts';
+import type { ContractPayloadSource, ContractTemplateRow } from '../../contract-service/src/types.ts';
+
+// The seeded 'standard' v1 template, straight from its migration.
+const standardBodies = JSON.parse(
+  readFileSync(
+    new URL('../../supabase/migrations/20260601170000_license_contract_templates.sql', import.meta.url),
+    'utf8',
+  ).split('$bodies$')[1],
+);
+
+const template: ContractTemplateRow = {
+  id: 'template-1',
+  template_key: 'standard',
+  version: 1,
+  bodies: standardBodies,
+};
+
+const source: ContractPayloadSource = {
+  purchaseId: 'purchase-123',
+  completedAt: '2026-03-05T23:30:00Z',
+  producerName: 'Nova',
+  buyerName: null,
+  trackTitle: 'Night {{buyerName}} Drive',
+  licenseName: 'Premium',
+  licenseDescription: null,
+  maxStreams: 500000,
+  maxSales: null,
+  youtubeMonetization: true,
+  musicVideoAllowed: false,
+  creditRequired: true,
+};
+
+test('the seeded standard template is complete in every site language', () => {
+  assert.deepEqual(Object.keys(parseContractTemplateBodies(standardBodies)), ['fr', 'en', 'de', 'es']);
+});
+
+test('renderContract fills the buyer language body from the purchase', () => {
+  const contract = renderContract(template, source, 'de');
+
+  assert.equal(contract.language, 'de');
+  assert.equal(contract.templateVersion, 1);
+  assert.equal(contract.title, 'LIZENZVERTRAG');
+  assert.deepEqual(contract.parties, [
+    'Datum: 5. März 2026',
+    'Produzent: Nova',
+    'Käufer: Käufer',
+    // Values are inserted verbatim, never expanded again.
+    'Titel: Night {{buyerName}} Drive',
+    'Lizenz: Premium',
+  ]);
+  assert.deepEqual(contract.sections.map((section) => section.body), [
+    'Keine Beschreibung angegeben.',
+    '- Max. Streams: 500.000\n- Max. Verkäufe: Unbegrenzt\n- YouTube-Monetarisierung: Ja\n- Musikvideo erlaubt: Nein\n- Nennung erforderlich: Ja',
+    'Der Käufer muss Nova bei jeder Veröffentlichung von „Night {{buyerName}} Drive“ nennen (zum Beispiel „Prod. by Nova“).',
+  ]);
+});
+
+test('contract language falls back to English, then French', () => {
+  assert.equal(resolveContractLanguage('ES', ['fr', 'en', 'es']), 'es');
+  assert.equal(resolveContractLanguage('es', ['fr', 'en']), 'en');
+  assert.equal(resolveContractLanguage('it', ['fr', 'de']), 'fr');
+  assert.equal(resolveContractLanguage(null, ['de']), 'de');
+  assert.equal(resolveContractLanguage('fr', []), null);
+
+  const withoutSpanish = { ...standardBodies };
+  delete withoutSpanish.es;
+  const contract = renderContract({ ...template, bodies: withoutSpanish }, source, 'es');
+  assert.equal(contract.language, 'en');
+  assert.equal(contract.reference, 'Purchase reference: purchase-123');
+});
+
+test('unknown placeholders and unusable templates are rejected', () => {
+  assert.throws(() => fillContractPlaceholders('Hello {{ buyerEmail }}', { buyerName: 'x' }), /buyerEmail/);
+  assert.throws(
+    () => renderContract({ ...template, bodies: { fr: { title: 'Contrat' } } }, source, 'fr'),
+    /standard v1 has no usable body/,
+  );
+});
+
+test('upgrade contracts end with the supersedes clause when the template has one', () => {
+  const upgrade = { ...source, supersedes: { purchaseId: 'purchase-001', licenseName: 'Basic' } };
+  assert.equal(renderContract(template, upgrade, 'en').sections.length, 3);
+
+  const withClause = {
+    ...standardBodies,
+    en: {
+      ...standardBodies.en,
+      terms: {
+        ...standardBodies.en.terms,
+        supersedesHeading: 'License upgrade',
+        supersedesClause: 'Replaces {{supersededLicenseName}} ({{supersededPurchaseId}}) for {{buyerName}}.',
+      },
+    },
+  };
+  const contract = renderContract({ ...template, version: 2, bodies: withClause }, upgrade, 'en');
+  assert.deepEqual(contract.sections.at(-1), {
+    heading: 'License upgrade',
+    body: 'Replaces Basic (purchase-001) for Buyer.',
+  });
+  assert.equal(renderContract({ ...template, version: 2, bodies: withClause }, source, 'en').sections.length, 3);
+});
+
+test('exclusive contracts list the prior leases in the rider when the template has one', () => {
+  const exclusive = {
+    ...source,
+    priorLeases: [
+      { purchaseId: 'lease-001', licenseName: 'Basic', purchasedAt: '2026-03-02T10:00:00Z' },
+      { purchaseId: 'lease-002', licenseName: 'Premium', purchasedAt: '2026-03-04T10:00:00Z' },
+    ],
+  };
+  const withRider = {
+    ...standardBodies,
+    en: {
+      ...standardBodies.en,
+      terms: {
+        ...standardBodies.en.terms,
+        priorLeasesHeading: 'Prior licenses',
+        priorLeasesClause: '{{priorLeaseCount}} licenses:\n{{priorLeases}}',
+      },
+    },
+  };
+  const contract = renderContract({ ...template, version: 3, bodies: withRider }, exclusive, 'en');
+  assert.deepEqual(contract.sections.at(-1), {
+    heading: 'Prior licenses',
+    body: '2 licenses:\n- Basic, 2 March 2026 (lease-001)\n- Premium, 4 March 2026 (lease-002)',
+  });
+  assert.equal(renderContract({ ...template, version: 3, bodies: withRider }, { ...source, priorLeases: [] }, 'en').sections.length, 3);
+  assert.equal(renderContract(template, exclusive, 'en').sections.length, 3);
+});
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import test from 'node:test';
+import PDFDocument from 'pdfkit';
+import { MAX_PDF_BYTES, readVerificationBody } from '../../api/_shared/contract-upload.ts';
+import { sha256Hex } from '../../api/_shared/contract-signing.ts';
+
+const renderPdf = () => new Promise<Buffer>((resolve, reject) => {
+  const doc = new PDFDocument();
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  doc.on('end', () => resolve(Buffer.concat(chunks)));
+  doc.on('error', reject);
+  doc.text('License contract BTL-0000-0000-0000-0000');
+  doc.end();
+});
+
+// What Vercel hands the function with the body parser off: the raw stream.
+const post = (body: Buffer | string, contentType: string) =>
+  Object.assign(Readable.from([Buffer.from(body)]), { headers: { 'content-type': contentType } });
+
+test('a PDF posted as application/pdf is read and looked up by its hash', async () => {
+  const pdf = await renderPdf();
+  const body = await readVerificationBody(post(pdf, 'application/pdf'));
+
+  assert.equal(body.kind, 'pdf');
+  assert.ok(body.kind === 'pdf' && body.bytes.equals(pdf));
+  assert.equal(body.kind === 'pdf' && sha256Hex(body.bytes), sha256Hex(pdf));
+});
+
+test('uploads that are not PDFs or are too large are refused', async () => {
+  assert.deepEqual(
+    await readVerificationBody(post('not a pdf', 'application/octet-stream')),
+    { kind: 'error', error: 'invalid_pdf', status: 400 },
+  );
+  assert.deepEqual(
+    await readVerificationBody(post(Buffer.alloc(MAX_PDF_BYTES + 1, 0x25), 'application/pdf')),
+    { kind: 'error', error: 'pdf_too_large', status: 413 },
+  );
+});
+
+test('other bodies are read as JSON', async () => {
+  assert.deepEqual(
+    await readVerificationBody(post('{"reference":"BTL-0000-0000-0000-0000"}', 'application/json; charset=utf-8')),
+    { kind: 'json', value: { reference: 'BTL-0000-0000-0000-0000' } },
+  );
+  assert.deepEqual(await readVerificationBody(post('{', 'application/json')), { kind: 'json', value: null });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  isSupportedCurrency,
+  resolveLocaleCurrency,
+  SUPPORTED_CURRENCIES,
+  toPresentmentAmount,
+} from '../../src/lib/utils/currency.ts';
+import {
+  PRESENTMENT_CURRENCIES,
+  toPresentmentAmount as toCheckoutAmount,
+} from '../../supabase/functions/_shared/currency.ts';
+
+test('the locale region picks the default display currency', () => {
+  assert.equal(resolveLocaleCurrency('en-US'), 'USD');
+  assert.equal(resolveLocaleCurrency('en_GB'), 'GBP');
+  assert.equal(resolveLocaleCurrency('fr-CH'), 'CHF');
+  assert.equal(resolveLocaleCurrency('fr-CA'), 'CAD');
+  assert.equal(resolveLocaleCurrency('de-DE'), 'EUR');
+  assert.equal(resolveLocaleCurrency('es'), 'EUR');
+  assert.equal(resolveLocaleCurrency(undefined), 'EUR');
+});
+
+test('only two-decimal currencies we price in are supported', () => {
+  assert.equal(isSupportedCurrency('USD'), true);
+  assert.equal(isSupportedCurrency('usd'), false);
+  assert.equal(isSupportedCurrency('JPY'), false);
+  assert.equal(isSupportedCurrency(null), false);
+});
+
+test('euro cents convert to the nearest presentment cent', () => {
+  assert.equal(toPresentmentAmount(2999, 1), 2999);
+  assert.equal(toPresentmentAmount(2999, 1.08), 3239);
+  assert.equal(toPresentmentAmount(1000, 0.855), 855);
+  // Lines are converted one by one, so a cart total can differ from the
+  // converted euro total by a cent per line.
+  assert.equal(toPresentmentAmount(1005, 1.5) + toPresentmentAmount(1005, 1.5), 3016);
+  assert.equal(toPresentmentAmount(2010, 1.5), 3015);
+});
+
+test('checkouts charge in the currencies the storefront shows, at the same amounts', () => {
+  assert.deepEqual([...PRESENTMENT_CURRENCIES], [...SUPPORTED_CURRENCIES]);
+  for (const currency of SUPPORTED_CURRENCIES) {
+    assert.equal(toCheckoutAmount(2999, { currency, rate: 1.08 }), toPresentmentAmount(2999, 1.08));
+  }
+});
+
+test('checkouts refuse currencies that are not two-decimal', () => {
+  assert.throws(() => toCheckoutAmount(2999, { currency: 'JPY', rate: 162 }), /Unsupported presentment currency/);
+  assert.throws(() => toCheckoutAmount(2999, { currency: 'KWD', rate: 0.33 }), /Unsupported presentment currency/);
+});
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  getCypherBallotPoints,
+  getCypherPodium,
+  rankCypherStandings,
+  toggleCypherBallotChoice,
+} from '../../src/lib/battles/cypher.ts';
+
+const entrant = (id: string, position: number, points: number, firstPlaceVotes: number) => ({
+  id,
+  position,
+  points,
+  first_place_votes: firstPlaceVotes,
+});
+
+test('ballots give 3, 2 and 1 points to the first three choices', () => {
+  assert.deepEqual([1, 2, 3, 4, 0].map(getCypherBallotPoints), [3, 2, 1, 0, 0]);
+});
+
+test('toggling a choice appends it, removes it and caps the ballot at three', () => {
+  let ballot = toggleCypherBallotChoice([], 'a');
+  ballot = toggleCypherBallotChoice(ballot, 'b');
+  ballot = toggleCypherBallotChoice(ballot, 'c');
+  assert.deepEqual(toggleCypherBallotChoice(ballot, 'd'), ['a', 'b', 'c']);
+  assert.deepEqual(toggleCypherBallotChoice(ballot, 'a'), ['b', 'c']);
+});
+
+test('standings sort by points, then first-place votes, and share ranks on ties', () => {
+  const standings = rankCypherStandings([
+    entrant('a', 1, 6, 1),
+    entrant('b', 2, 9, 2),
+    entrant('c', 3, 6, 2),
+    entrant('d', 4, 6, 1),
+    entrant('e', 5, 0, 0),
+  ]);
+
+  assert.deepEqual(
+    standings.map((standing) => [standing.entrant.id, standing.rank]),
+    [['b', 1], ['c', 2], ['a', 3], ['d', 3], ['e', 5]],
+  );
+  assert.deepEqual(getCypherPodium(standings).map((standing) => standing.entrant.id), ['b', 'c', 'a', 'd']);
+});
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { allocateDealDiscount, evaluateProducerDeals, evaluatePromoCode } from '../../src/lib/products/deals.ts';
+import type { ProducerDeal } from '../../src/lib/supabase/types.ts';
+
+const deal = (overrides: Partial<ProducerDeal>): ProducerDeal => ({
+  id: 'deal-1',
+  producer_id: 'p1',
+  title: 'Deal',
+  deal_type: 'buy_x_get_y',
+  buy_quantity: 2,
+  free_quantity: 1,
+  bundle_price: null,
+  product_ids: [],
+  archived_at: null,
+  created_at: '2026-01-01',
+  updated_at: '2026-01-01',
+  ...overrides,
+});
+
+const item = (productId: string, amount: number, producerId = 'p1', isExclusive = false) => ({
+  productId,
+  producerId,
+  amount,
+  isExclusive,
+});
+
+test('buy 2 get 1 makes the cheapest beat of each group free', () => {
+  const result = evaluateProducerDeals(
+    [item('a', 3000), item('b', 2000), item('c', 1000), item('d', 500)],
+    [deal({})],
+  );
+  assert.equal(result.discountTotal, 1000);
+  assert.deepEqual(result.appliedDeals[0]?.productIds, ['a', 'b', 'c']);
+  assert.equal(result.itemDiscounts.d, undefined);
+  assert.equal(
+    Object.values(result.itemDiscounts).reduce((total, share) => total + share, 0),
+    1000,
+  );
+});
+
+test('deals skip exclusives, other producers and archived deals', () => {
+  const items = [item('a', 3000), item('b', 2000, 'p2'), item('x', 90000, 'p1', true), item('c', 1000)];
+  assert.equal(evaluateProducerDeals(items, [deal({})]).discountTotal, 0);
+  assert.equal(
+    evaluateProducerDeals([item('a', 3000), item('b', 2000), item('c', 1000)], [deal({ archived_at: '2026-02-01' })])
+      .discountTotal,
+    0,
+  );
+});
+
+test('a complete bundle wins over buy X get Y and only applies when it saves money', () => {
+  const items = [item('a', 3000), item('b', 3000), item('c', 3000)];
+  const bundle = deal({ id: 'bundle-1', deal_type: 'bundle', buy_quantity: null, free_quantity: null, bundle_price: 4000, product_ids: ['a', 'b'] });
+
+  const result = evaluateProducerDeals(items, [deal({}), bundle]);
+  assert.deepEqual(result.appliedDeals.map((applied) => [applied.dealId, applied.discount]), [['bundle-1', 2000]]);
+
+  const expensiveBundle = { ...bundle, bundle_price: 7000 };
+  assert.deepEqual(evaluateProducerDeals(items, [expensiveBundle]).appliedDeals, []);
+  assert.deepEqual(evaluateProducerDeals([item('a', 3000)], [bundle]).appliedDeals, []);
+});
+
+test('allocateDealDiscount spreads the discount by price and keeps every line paid', () => {
+  assert.deepEqual(allocateDealDiscount([item('a', 3000), item('b', 2000), item('c', 1000)], 1000), {
+    a: 500,
+    b: 333,
+    c: 167,
+  });
+
+  const shares = allocateDealDiscount([item('a', 2), item('b', 2), item('c', 2)], 3);
+  assert.equal(Object.values(shares).reduce((total, share) => total + share, 0), 3);
+  assert.ok(Object.values(shares).every((share) => share < 2));
+});
+
+test('evaluatePromoCode only discounts covered beats and keeps the cart payable', () => {
+  const items = [item('a', 3000), item('b', 2000, 'p2')];
+  const promo = { discount_type: 'percent' as const, discount_value: 10, scope: 'producer' as const, product_id: null, scope_producer_id: 'p2' };
+
+  assert.deepEqual(evaluatePromoCode(items, promo), { itemDiscounts: { b: 200 }, discountTotal: 200 });
+  assert.equal(evaluatePromoCode(items, { ...promo, scope: 'plan' }).discountTotal, 0);
+
+  const fixed = { ...promo, discount_type: 'fixed' as const, discount_value: 10000, scope: 'all_beats' as const };
+  assert.equal(evaluatePromoCode(items, fixed).discountTotal, 4950);
+  assert.equal(evaluatePromoCode([item('a', 50)], fixed).discountTotal, 0);
+});
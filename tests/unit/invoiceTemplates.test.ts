@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  formatInvoiceAmount,
+  renderInvoice,
+  resolveInvoiceLanguage,
+} from '../../contract-service/src/invoiceTemplates.ts';
+import type { InvoiceSource } from '../../contract-service/src/types.ts';
+
+const source: InvoiceSource = {
+  invoiceNumber: 'P1A2B3C4D-000042',
+  kind: 'purchase',
+  issuedAt: '2026-03-05T23:30:00Z',
+  sellerName: 'Nova',
+  buyerName: 'Ada',
+  buyerEmail: 'ada@example.com',
+  description: 'Night Drive',
+  licenseName: 'Premium',
+  paymentSource: 'stripe_checkout',
+  currency: 'EUR',
+  amountCents: 2999,
+  taxCents: 500,
+  purchaseId: 'purchase-123',
+  creditedInvoiceNumber: null,
+};
+
+test('a marketplace invoice is issued by the producer, tax included', () => {
+  const invoice = renderInvoice(source, 'fr');
+
+  assert.equal(invoice.language, 'fr');
+  assert.equal(invoice.title, 'FACTURE P1A2B3C4D-000042');
+  assert.deepEqual(invoice.details, [
+    { label: 'Numéro de facture', value: 'P1A2B3C4D-000042' },
+    { label: "Date d'émission", value: '5 mars 2026' },
+    { label: 'Moyen de paiement', value: 'Carte bancaire (Stripe)' },
+    { label: 'Référence achat', value: 'purchase-123' },
+  ]);
+  assert.deepEqual(invoice.seller, ['Vendeur', 'Nova']);
+  assert.deepEqual(invoice.lines, [{ label: 'Night Drive (Licence: Premium)', value: '29,99 €' }]);
+  assert.deepEqual(invoice.totals.map((row) => row.value), ['24,99 €', '5,00 €', '29,99 €']);
+  assert.equal(invoice.notes.at(-1), 'Facture émise par Nova via la marketplace Beatelion.');
+});
+
+test('subscription invoices come from the platform and carry no purchase reference', () => {
+  const invoice = renderInvoice(
+    { ...source, kind: 'subscription', paymentSource: 'subscription', licenseName: null, purchaseId: null, currency: 'USD', taxCents: 0 },
+    'en',
+  );
+
+  assert.equal(invoice.details.length, 3);
+  assert.deepEqual(invoice.lines, [{ label: 'Night Drive', value: 'US$29.99' }]);
+  assert.deepEqual(invoice.notes, ['Amounts include tax and were paid in full.']);
+});
+
+test('a credit note cancels the credited invoice with negated amounts', () => {
+  const creditNote = renderInvoice(
+    { ...source, kind: 'credit_note', invoiceNumber: 'P1A2B3C4D-000043', creditedInvoiceNumber: 'P1A2B3C4D-000042' },
+    'en',
+  );
+
+  assert.equal(creditNote.title, 'CREDIT NOTE P1A2B3C4D-000043');
+  assert.deepEqual(creditNote.details[3], { label: 'Credited invoice', value: 'P1A2B3C4D-000042' });
+  assert.deepEqual(creditNote.totals.map((row) => row.value), ['-€24.99', '-€5.00', '-€29.99']);
+  assert.equal(creditNote.notes[0], 'Amounts include tax and were refunded in full.');
+});
+
+test('invoice language falls back to English and amounts use plain spaces', () => {
+  assert.equal(resolveInvoiceLanguage(' DE '), 'de');
+  assert.equal(resolveInvoiceLanguage('it'), 'en');
+  assert.equal(resolveInvoiceLanguage(null), 'en');
+  assert.equal(formatInvoiceAmount(123456, 'EUR', 'fr'), '1 234,56 €');
+});
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  combineJudgedScore,
+  getCommunityShare,
+  getPanelJudgeScore,
+  getScorecardScore,
+  parseJudgeWeightPercent,
+} from '../../src/lib/battles/judging.ts';
+
+test('scorecards average their criteria on a 0-1 scale', () => {
+  assert.equal(getScorecardScore({ groove: 8, melody: 6, mix: 10 }), 0.8);
+  assert.equal(getScorecardScore({ groove: 8, melody: 0 }), 0.8);
+  assert.equal(getScorecardScore({}), null);
+});
+
+test('judge scores average over the whole panel', () => {
+  // Three judges, only one scored this competitor.
+  assert.equal(getPanelJudgeScore([0.9], 3), 0.3);
+  assert.equal(getPanelJudgeScore([0.9, 0.6, 0.3], 3), 0.6);
+  assert.equal(getPanelJudgeScore([], 3), 0);
+  assert.equal(getPanelJudgeScore([], 0), null);
+});
+
+test('the final score weighs judges against the community share', () => {
+  const community = getCommunityShare(30, 100);
+  assert.equal(community, 0.3);
+  assert.equal(
+    combineJudgedScore({ judgeWeight: 0.5, communityScore: community, judgeScore: 0.9, panelScored: true }),
+    0.6,
+  );
+  assert.equal(
+    combineJudgedScore({ judgeWeight: 0.5, communityScore: community, judgeScore: null, panelScored: true }),
+    0.15,
+  );
+  assert.equal(getCommunityShare(0, 0), 0);
+});
+
+test('battles without a scoring panel keep the community result', () => {
+  assert.equal(combineJudgedScore({ judgeWeight: null, communityScore: 0.7, judgeScore: 0.2, panelScored: true }), 0.7);
+  assert.equal(combineJudgedScore({ judgeWeight: 0.8, communityScore: 0.7, judgeScore: null, panelScored: false }), 0.7);
+});
+
+test('judge weights are read as whole percents', () => {
+  assert.equal(parseJudgeWeightPercent('60'), 0.6);
+  assert.equal(parseJudgeWeightPercent(' 33.4 '), 0.33);
+  assert.equal(parseJudgeWeightPercent(''), null);
+  assert.equal(parseJudgeWeightPercent('120'), undefined);
+  assert.equal(parseJudgeWeightPercent('abc'), undefined);
+});
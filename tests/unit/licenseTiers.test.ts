@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  EMPTY_LICENSE_TIER_FORM,
+  canOfferLicenseTier,
+  getLicenseTermRows,
+  parseLicenseTierForm,
+  parsePriceCents,
+} from '../../src/lib/products/licenseTiers.ts';
+
+test('parsePriceCents accepts comma and dot decimals', () => {
+  assert.equal(parsePriceCents('12,50'), 1250);
+  assert.equal(parsePriceCents(' 12.5 '), 1250);
+  assert.equal(parsePriceCents('29'), 2900);
+  assert.equal(parsePriceCents('0'), null);
+  assert.equal(parsePriceCents('-5'), null);
+  assert.equal(parsePriceCents('1.999'), null);
+  assert.equal(parsePriceCents(''), null);
+});
+
+test('parseLicenseTierForm treats empty limits as unlimited', () => {
+  const result = parseLicenseTierForm({ ...EMPTY_LICENSE_TIER_FORM, name: '  Premium ', price: '49', maxStreams: '500000' });
+  assert.equal(result.error, null);
+  assert.equal(result.settings?.name, 'Premium');
+  assert.equal(result.settings?.priceCents, 4900);
+  assert.equal(result.settings?.maxStreams, 500000);
+  assert.equal(result.settings?.maxSales, null);
+});
+
+test('parseLicenseTierForm reports the first invalid field', () => {
+  assert.equal(parseLicenseTierForm({ ...EMPTY_LICENSE_TIER_FORM, name: ' ', price: '49' }).error, 'name');
+  assert.equal(parseLicenseTierForm({ ...EMPTY_LICENSE_TIER_FORM, name: 'x'.repeat(61), price: '49' }).error, 'name');
+  assert.equal(parseLicenseTierForm({ ...EMPTY_LICENSE_TIER_FORM, name: 'Basic', price: '' }).error, 'price');
+  assert.equal(parseLicenseTierForm({ ...EMPTY_LICENSE_TIER_FORM, name: 'Basic', price: '9', maxSales: '1.5' }).error, 'limits');
+});
+
+test('getLicenseTermRows lists limits before rights', () => {
+  const rows = getLicenseTermRows({
+    max_streams: 10000,
+    max_sales: null,
+    youtube_monetization: true,
+    music_video_allowed: false,
+    credit_required: true,
+    stems_included: false,
+  });
+  assert.deepEqual(rows.map((row) => row.key), [
+    'maxStreams',
+    'maxSales',
+    'youtubeMonetization',
+    'musicVideoAllowed',
+    'creditRequired',
+    'stemsIncluded',
+  ]);
+  assert.deepEqual(rows[1], { key: 'maxSales', kind: 'limit', value: null });
+});
+
+test('canOfferLicenseTier only allows platform or own active tiers matching exclusivity', () => {
+  const product = { producer_id: 'p1', is_exclusive: false };
+  assert.equal(canOfferLicenseTier({ producer_id: null, archived_at: null, exclusive_allowed: false }, product), true);
+  assert.equal(canOfferLicenseTier({ producer_id: 'p1', archived_at: null, exclusive_allowed: false }, product), true);
+  assert.equal(canOfferLicenseTier({ producer_id: 'p2', archived_at: null, exclusive_allowed: false }, product), false);
+  assert.equal(canOfferLicenseTier({ producer_id: 'p1', archived_at: '2026-01-01', exclusive_allowed: false }, product), false);
+  assert.equal(canOfferLicenseTier({ producer_id: null, archived_at: null, exclusive_allowed: true }, product), false);
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildLicenseUpgradeOptions, getUpgradeCredit } from '../../src/lib/products/licenseUpgrades.ts';
+import type { ProductLicense } from '../../src/lib/supabase/types.ts';
+
+const offer = (licenseId: string, price: number, overrides: Partial<ProductLicense> = {}): ProductLicense => ({
+  id: `offer-${licenseId}`,
+  product_id: 'beat-1',
+  license_id: licenseId,
+  license_type: licenseId,
+  price,
+  stripe_price_id: null,
+  features: [],
+  sort_order: 0,
+  is_active: true,
+  source: 'producer',
+  created_at: '2026-01-01',
+  updated_at: '2026-01-01',
+  license: null,
+  ...overrides,
+});
+
+test('getUpgradeCredit adds the credit carried from earlier upgrades', () => {
+  assert.equal(getUpgradeCredit({ amount: 2000, metadata: {} }), 2000);
+  assert.equal(getUpgradeCredit({ amount: 1000, metadata: { upgrade_credit: '2000' } }), 3000);
+  assert.equal(getUpgradeCredit({ amount: 1000, metadata: { upgrade_credit: 'abc' } }), 1000);
+});
+
+test('buildLicenseUpgradeOptions keeps pricier tiers and exclusives, cheapest first', () => {
+  const purchase = { product_id: 'beat-1', license_id: 'basic', amount: 2000, metadata: {} };
+  const options = buildLicenseUpgradeOptions(
+    purchase,
+    [
+      offer('basic', 2000),
+      offer('mp3', 1500),
+      offer('premium', 5000),
+      offer('standard', 9000, { source: 'default' }),
+    ],
+    [
+      { id: 'exclusive-1', price: 30000 },
+      { id: 'exclusive-2', price: 99900, licenses: [offer('sole', 25000, { product_id: 'exclusive-2' })] },
+    ],
+  );
+
+  assert.deepEqual(
+    options.map((option) => [option.productId, option.licenseId, option.amountDue]),
+    [
+      ['beat-1', 'premium', 3000],
+      ['exclusive-2', 'sole', 23000],
+      ['exclusive-1', null, 28000],
+    ],
+  );
+});
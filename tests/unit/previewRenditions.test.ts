@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  derivePreviewRenditionPaths,
+  orderPreviewRenditions,
+  resolveCurrentRenditionPaths,
+} from '../../src/lib/audio/renditions.ts';
+
+test('derivePreviewRenditionPaths maps preview_vN.mp3 to its sibling renditions', () => {
+  assert.deepEqual(derivePreviewRenditionPaths('beats-watermarked/abc/preview_v3.mp3'), {
+    version: 3,
+    hls: 'beats-watermarked/abc/hls_v3/index.m3u8',
+    lowBitrate: 'beats-watermarked/abc/preview_v3_low.mp3',
+  });
+  assert.equal(
+    derivePreviewRenditionPaths('https://cdn.test/storage/v1/object/public/beats-watermarked/abc/preview_v2.mp3?t=1')?.hls,
+    'https://cdn.test/storage/v1/object/public/beats-watermarked/abc/hls_v2/index.m3u8',
+  );
+  assert.equal(derivePreviewRenditionPaths('abc/preview_v2_low.mp3'), null);
+  assert.equal(derivePreviewRenditionPaths('legacy/preview.mp3'), null);
+});
+
+test('orderPreviewRenditions prefers HLS and low bitrate only when the client benefits', () => {
+  const standard = ['full.mp3'];
+  const renditions = { hls: 'index.m3u8', lowBitrate: 'low.mp3' };
+
+  assert.deepEqual(
+    orderPreviewRenditions(standard, renditions, { supportsHls: false, constrainedNetwork: false }),
+    ['full.mp3', 'low.mp3'],
+  );
+  assert.deepEqual(
+    orderPreviewRenditions(standard, renditions, { supportsHls: true, constrainedNetwork: false }),
+    ['index.m3u8', 'full.mp3', 'low.mp3'],
+  );
+  assert.deepEqual(
+    orderPreviewRenditions(standard, renditions, { supportsHls: true, constrainedNetwork: true }),
+    ['index.m3u8', 'low.mp3', 'full.mp3'],
+  );
+  assert.deepEqual(
+    orderPreviewRenditions(standard, null, { supportsHls: true, constrainedNetwork: true }),
+    ['full.mp3'],
+  );
+});
+
+test('resolveCurrentRenditionPaths only returns renditions published for the preview', () => {
+  const references = ['https://cdn.test/legacy.mp3', 'beats-watermarked/abc/preview_v3.mp3'];
+
+  assert.equal(resolveCurrentRenditionPaths(references, 3)?.hls, 'beats-watermarked/abc/hls_v3/index.m3u8');
+  assert.equal(resolveCurrentRenditionPaths(references, 2), null);
+  assert.equal(resolveCurrentRenditionPaths(references, null), null);
+  assert.equal(resolveCurrentRenditionPaths(references, undefined), null);
+  assert.equal(resolveCurrentRenditionPaths(['https://cdn.test/legacy.mp3'], 1), null);
+});
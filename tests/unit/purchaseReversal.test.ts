@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  planTransferReversal,
+  resolveDisputeTransition,
+  resolveTransferRate,
+  selectRefundedPurchases,
+  splitUnreversedAmount,
+  toEurCents,
+  type ReversiblePurchase,
+} from '../../supabase/functions/_shared/purchaseReversal.ts';
+
+const purchase = (id: string, amount: number, overrides: Partial<ReversiblePurchase> = {}): ReversiblePurchase => ({
+  id,
+  status: 'completed',
+  amount,
+  presentment_amount: null,
+  presentment_currency: 'EUR',
+  fx_rate: 1,
+  producer_share_cents_snapshot: Math.round(amount * 0.8),
+  ...overrides,
+});
+
+const ids = (purchases: ReversiblePurchase[]) => purchases.map((entry) => entry.id);
+
+test('a full refund covers every completed purchase of the cart', () => {
+  const cart = [purchase('a', 3000), purchase('b', 2000, { status: 'refunded' }), purchase('c', 1000)];
+  assert.deepEqual(ids(selectRefundedPurchases(cart, 6000, true)), ['a', 'c']);
+});
+
+test('a partial refund covers the lines it adds up to', () => {
+  const cart = [purchase('a', 3000), purchase('b', 2000), purchase('c', 1000)];
+  assert.deepEqual(ids(selectRefundedPurchases(cart, 2000, false)), ['b']);
+  assert.deepEqual(ids(selectRefundedPurchases(cart, 4000, false)), ['a', 'c']);
+  // A single line is preferred to two cheaper ones of the same total.
+  assert.deepEqual(ids(selectRefundedPurchases(cart, 3000, false)), ['a']);
+});
+
+test('refunds are cumulative: purchases reversed earlier are not counted twice', () => {
+  const cart = [purchase('a', 3000, { status: 'refunded' }), purchase('b', 2000), purchase('c', 1000)];
+  assert.deepEqual(ids(selectRefundedPurchases(cart, 4000, false)), ['c']);
+  // Replaying the event that reversed a only finds it done.
+  assert.deepEqual(selectRefundedPurchases(cart, 3000, false), []);
+});
+
+test('a partial refund matching no line is a commercial gesture', () => {
+  const cart = [purchase('a', 3000), purchase('b', 2000)];
+  assert.deepEqual(selectRefundedPurchases(cart, 500, false), []);
+  assert.deepEqual(selectRefundedPurchases(cart, 0, false), []);
+});
+
+test('foreign currency lines match on the amount they were charged', () => {
+  const cart = [
+    purchase('a', 3000, { presentment_amount: 3240, presentment_currency: 'USD', fx_rate: 1.08 }),
+    purchase('b', 2000, { presentment_amount: 2160, presentment_currency: 'USD', fx_rate: 1.08 }),
+  ];
+  assert.deepEqual(ids(selectRefundedPurchases(cart, 2160, false)), ['b']);
+  assert.deepEqual(selectRefundedPurchases(cart, 2000, false), []);
+});
+
+test('the transfer rate follows the transfer currency', () => {
+  const usd = purchase('a', 3000, { presentment_amount: 3240, presentment_currency: 'USD', fx_rate: '1.080000' });
+  assert.equal(resolveTransferRate('usd', usd), 1.08);
+  assert.equal(resolveTransferRate('eur', usd), 1);
+  assert.equal(resolveTransferRate('gbp', usd), null);
+  assert.equal(resolveTransferRate('eur', purchase('b', 1000)), 1);
+});
+
+test('a partial refund only takes back the covered shares from the transfer', () => {
+  assert.equal(planTransferReversal({ remaining: 4320, coveredShareCents: 1600, rate: 1.08, fullRefund: false }), 1728);
+  assert.equal(planTransferReversal({ remaining: 1000, coveredShareCents: 1600, rate: 1.08, fullRefund: false }), 1000);
+  assert.equal(planTransferReversal({ remaining: 4320, coveredShareCents: 1600, rate: 1.08, fullRefund: true }), 4320);
+  assert.equal(planTransferReversal({ remaining: 0, coveredShareCents: 1600, rate: 1, fullRefund: true }), 0);
+});
+
+test('owed amounts are booked in euro cents', () => {
+  assert.equal(toEurCents(1728, 1.08), 1600);
+  assert.equal(toEurCents(1600, 1), 1600);
+});
+
+test('an unreversed amount is spread over the producers up to their share', () => {
+  const cart = [purchase('a', 3000), purchase('b', 2000), purchase('c', 1000)];
+  assert.deepEqual(splitUnreversedAmount(cart, 3000), [2400, 600, 0]);
+  assert.deepEqual(splitUnreversedAmount(cart, 5000), [2400, 1600, 1000]);
+  assert.deepEqual(splitUnreversedAmount(cart, 0), [0, 0, 0]);
+});
+
+test('dispute statuses map to reverse, suspend or restore', () => {
+  assert.equal(resolveDisputeTransition('lost'), 'reverse');
+  assert.equal(resolveDisputeTransition('needs_response'), 'open');
+  assert.equal(resolveDisputeTransition('under_review'), 'open');
+  assert.equal(resolveDisputeTransition('won'), 'close');
+  assert.equal(resolveDisputeTransition('warning_needs_response'), 'close');
+  assert.equal(resolveDisputeTransition('warning_closed'), 'close');
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { evaluateSampleFlip, getSampleFlipReasons } from '../../src/lib/battles/sampleFlip.ts';
+
+const constraints = { flip_bpm_min: 88, flip_bpm_max: 92, flip_allowed_keys: ['Am', 'C'] };
+
+const analysed = {
+  audio_analyzed_at: '2026-06-01T00:00:00Z',
+  audio_analysis_error: null,
+  audio_quality_status: 'passed',
+  detected_bpm: 90,
+  detected_bpm_confidence: 0.8,
+  detected_key_signature: 'Am',
+  detected_key_confidence: 0.7,
+};
+
+test('flips wait for the analysis, or go to review when it fails', () => {
+  assert.deepEqual(
+    evaluateSampleFlip(constraints, { ...analysed, audio_analyzed_at: null }),
+    { status: 'pending_check', reasons: [] },
+  );
+  assert.deepEqual(
+    evaluateSampleFlip(constraints, { ...analysed, audio_analyzed_at: null, audio_analysis_error: 'decode failed' }),
+    { status: 'needs_review', reasons: ['analysis_failed'] },
+  );
+});
+
+test('tempo passes within tolerance and at half or double time', () => {
+  assert.equal(evaluateSampleFlip(constraints, analysed).status, 'passed');
+  assert.equal(evaluateSampleFlip(constraints, { ...analysed, detected_bpm: 94 }).status, 'passed');
+  assert.equal(evaluateSampleFlip(constraints, { ...analysed, detected_bpm: 180 }).status, 'passed');
+  assert.equal(evaluateSampleFlip(constraints, { ...analysed, detected_bpm: 45 }).status, 'passed');
+  assert.deepEqual(
+    evaluateSampleFlip(constraints, { ...analysed, detected_bpm: 140 }),
+    { status: 'failed', reasons: ['bpm_out_of_range'] },
+  );
+});
+
+test('keys must be in the allowed list', () => {
+  assert.deepEqual(
+    evaluateSampleFlip(constraints, { ...analysed, detected_key_signature: 'F#m' }),
+    { status: 'failed', reasons: ['key_not_allowed'] },
+  );
+  assert.equal(
+    evaluateSampleFlip({ ...constraints, flip_allowed_keys: [] }, { ...analysed, detected_key_signature: 'F#m' }).status,
+    'passed',
+  );
+});
+
+test('low-confidence detections need review unless something else fails', () => {
+  assert.deepEqual(
+    evaluateSampleFlip(constraints, { ...analysed, detected_key_confidence: 0.2 }),
+    { status: 'needs_review', reasons: ['key_uncertain'] },
+  );
+  assert.deepEqual(
+    evaluateSampleFlip(constraints, { ...analysed, detected_key_confidence: 0.2, audio_quality_status: 'failed' }),
+    { status: 'failed', reasons: ['quality_failed', 'key_uncertain'] },
+  );
+});
+
+test('stored reasons are read defensively', () => {
+  assert.deepEqual(getSampleFlipReasons({ reasons: ['bpm_out_of_range', 'nope'] }), ['bpm_out_of_range']);
+  assert.deepEqual(getSampleFlipReasons({}), []);
+  assert.deepEqual(getSampleFlipReasons(null), []);
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  MAX_STEM_FILES_PER_UPLOAD,
+  MAX_STEM_FILE_SIZE,
+  classifyStemFile,
+  isDeliverableStemStatus,
+  selectStemFiles,
+} from '../../src/lib/audio/stems.ts';
+
+const fakeFile = (name: string, type: string, size = 1024) => ({ name, type, size }) as File;
+
+test('classifyStemFile accepts zip packs and WAV stems', () => {
+  assert.equal(classifyStemFile(fakeFile('trackout.zip', 'application/zip')), 'stem_archive');
+  assert.equal(classifyStemFile(fakeFile('trackout.zip', 'application/x-zip-compressed')), 'stem_archive');
+  assert.equal(classifyStemFile(fakeFile('trackout.ZIP', '')), 'stem_archive');
+  assert.equal(classifyStemFile(fakeFile('Kick.wav', 'audio/wav')), 'stem');
+  assert.equal(classifyStemFile(fakeFile('Kick.wav', '')), 'stem');
+});
+
+test('classifyStemFile rejects other formats', () => {
+  assert.equal(classifyStemFile(fakeFile('kick.mp3', 'audio/mpeg')), null);
+  assert.equal(classifyStemFile(fakeFile('stems.rar', 'application/vnd.rar')), null);
+  assert.equal(classifyStemFile(fakeFile('cover.png', 'image/png')), null);
+});
+
+test('selectStemFiles reports the first blocking error', () => {
+  assert.deepEqual(selectStemFiles([fakeFile('kick.wav', 'audio/wav'), fakeFile('notes.txt', 'text/plain')]), {
+    selections: [],
+    error: 'format',
+  });
+  assert.equal(selectStemFiles([fakeFile('pack.zip', 'application/zip', MAX_STEM_FILE_SIZE + 1)]).error, 'size');
+  assert.equal(
+    selectStemFiles(Array.from({ length: MAX_STEM_FILES_PER_UPLOAD + 1 }, (_, index) => fakeFile(`${index}.wav`, 'audio/wav')))
+      .error,
+    'count',
+  );
+
+  const { selections, error } = selectStemFiles([fakeFile('kick.wav', 'audio/wav'), fakeFile('pack.zip', 'application/zip')]);
+  assert.equal(error, null);
+  assert.deepEqual(selections.map((selection) => selection.kind), ['stem', 'stem_archive']);
+});
+
+test('isDeliverableStemStatus keeps warnings and drops invalid stems', () => {
+  assert.equal(isDeliverableStemStatus('valid'), true);
+  assert.equal(isDeliverableStemStatus('warning'), true);
+  assert.equal(isDeliverableStemStatus('invalid'), false);
+  assert.equal(isDeliverableStemStatus('pending'), false);
+});
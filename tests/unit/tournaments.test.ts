@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { getTournamentRoundLabel, groupTournamentRounds } from '../../src/lib/battles/tournaments.ts';
+import type { TranslateFn } from '../../src/lib/i18n/index.ts';
+import type { TournamentBracket } from '../../src/lib/supabase/types.ts';
+
+const t: TranslateFn = (key, params) => (params ? `${key}:${JSON.stringify(params)}` : key);
+
+const match = (id: string, bracket: TournamentBracket, round: number, position: number) => ({
+  id,
+  bracket,
+  round,
+  position,
+});
+
+test('matches are grouped winners first, then losers, then the grand final', () => {
+  const sections = groupTournamentRounds([
+    match('gf', 'grand_final', 1, 1),
+    match('l1', 'losers', 1, 1),
+    match('w2', 'winners', 2, 1),
+    match('w1b', 'winners', 1, 2),
+    match('w1a', 'winners', 1, 1),
+  ]);
+
+  assert.deepEqual(
+    sections.map((section) => [section.bracket, section.rounds.map((round) => round.matches.map((row) => row.id))]),
+    [
+      ['winners', [['w1a', 'w1b'], ['w2']]],
+      ['losers', [['l1']]],
+      ['grand_final', [['gf']]],
+    ],
+  );
+});
+
+test('single elimination has no losers section', () => {
+  const sections = groupTournamentRounds([match('w1', 'winners', 1, 1)]);
+  assert.deepEqual(sections.map((section) => section.bracket), ['winners']);
+});
+
+test('the last two winners rounds are named', () => {
+  assert.equal(getTournamentRoundLabel('winners', 3, 3, t), 'tournaments.final');
+  assert.equal(getTournamentRoundLabel('winners', 2, 3, t), 'tournaments.semiFinal');
+  assert.equal(getTournamentRoundLabel('winners', 1, 3, t), 'tournaments.round:{"round":1}');
+  assert.equal(getTournamentRoundLabel('losers', 2, 3, t), 'tournaments.losersRound:{"round":2}');
+  assert.equal(getTournamentRoundLabel('grand_final', 1, 1, t), 'tournaments.grandFinal');
+});
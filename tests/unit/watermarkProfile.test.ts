@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  MAX_VOICE_TAG_SIZE,
+  buildVoiceTagPath,
+  isAcceptedVoiceTagFile,
+  parseWatermarkProfileForm,
+} from '../../src/lib/audio/watermarkProfile.ts';
+
+test('buildVoiceTagPath keeps tags under the producer folder', () => {
+  assert.equal(buildVoiceTagPath('p1', 'My Tag.WAV', 42), 'producers/p1/voice-tag-42.wav');
+  assert.equal(buildVoiceTagPath('p1', 'tag.mp3', 42), 'producers/p1/voice-tag-42.mp3');
+});
+
+test('isAcceptedVoiceTagFile checks type and bucket size limit', () => {
+  assert.equal(isAcceptedVoiceTagFile({ type: 'audio/wav', size: 1024 }), true);
+  assert.equal(isAcceptedVoiceTagFile({ type: 'audio/mpeg', size: MAX_VOICE_TAG_SIZE + 1 }), false);
+  assert.equal(isAcceptedVoiceTagFile({ type: 'audio/flac', size: 1024 }), false);
+});
+
+test('parseWatermarkProfileForm validates gain and interval range', () => {
+  assert.deepEqual(parseWatermarkProfileForm({ gainDb: '-8.5', minIntervalSec: '15', maxIntervalSec: '30' }), {
+    settings: { gainDb: -8.5, minIntervalSec: 15, maxIntervalSec: 30 },
+    error: null,
+  });
+  assert.equal(parseWatermarkProfileForm({ gainDb: '', minIntervalSec: '15', maxIntervalSec: '30' }).error, 'numeric');
+  assert.equal(parseWatermarkProfileForm({ gainDb: '-8', minIntervalSec: '15.5', maxIntervalSec: '30' }).error, 'numeric');
+  assert.equal(parseWatermarkProfileForm({ gainDb: '20', minIntervalSec: '15', maxIntervalSec: '30' }).error, 'gain');
+  assert.equal(parseWatermarkProfileForm({ gainDb: '-8', minIntervalSec: '2', maxIntervalSec: '30' }).error, 'interval');
+  assert.equal(parseWatermarkProfileForm({ gainDb: '-8', minIntervalSec: '40', maxIntervalSec: '30' }).error, 'interval');
+});
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  deriveWaveformPathFromPreview,
+  downsamplePeaks,
+  isWaveformCurrent,
+  parseWaveformPayload,
+} from '../../src/lib/audio/peaks.ts';
+
+test('parseWaveformPayload accepts the worker v1 payload and clamps values', () => {
+  const peaks = parseWaveformPayload({
+    version: 1,
+    peak_count: 3,
+    sample_rate: 8000,
+    duration_sec: 12.5,
+    peaks: [0, 0.5, 1.2],
+  });
+
+  assert.deepEqual(peaks, [0, 0.5, 1]);
+});
+
+test('parseWaveformPayload rejects unknown versions and malformed peaks', () => {
+  assert.equal(parseWaveformPayload({ version: 2, peaks: [0.1] }), null);
+  assert.equal(parseWaveformPayload({ version: 1, peaks: [] }), null);
+  assert.equal(parseWaveformPayload({ version: 1, peaks: [0.1, 'loud'] }), null);
+  assert.equal(parseWaveformPayload(null), null);
+});
+
+test('downsamplePeaks keeps the loudest value of each group', () => {
+  assert.deepEqual(downsamplePeaks([0.1, 0.9, 0.2, 0.3, 0.8, 0.4], 3), [0.9, 0.3, 0.8]);
+  assert.deepEqual(downsamplePeaks([0.1, 0.2], 10), [0.1, 0.2]);
+  assert.deepEqual(downsamplePeaks([], 10), []);
+});
+
+test('deriveWaveformPathFromPreview maps preview_vN.mp3 to its sibling waveform', () => {
+  assert.equal(
+    deriveWaveformPathFromPreview('beats-watermarked/abc/preview_v4.mp3'),
+    'beats-watermarked/abc/waveform_v4.json',
+  );
+  assert.equal(
+    deriveWaveformPathFromPreview(
+      'https://x.supabase.co/storage/v1/object/public/beats-watermarked/abc/preview_v2.mp3?t=1',
+    ),
+    'https://x.supabase.co/storage/v1/object/public/beats-watermarked/abc/waveform_v2.json',
+  );
+  assert.equal(deriveWaveformPathFromPreview('beats-watermarked/abc/legacy.mp3'), null);
+});
+
+test('isWaveformCurrent ignores peaks from another or a failed extraction', () => {
+  const preview = 'beats-watermarked/abc/preview_v3.mp3';
+
+  assert.equal(isWaveformCurrent(3, preview), true);
+  assert.equal(isWaveformCurrent(2, preview), false);
+  assert.equal(isWaveformCurrent(null, preview), false);
+  assert.equal(isWaveformCurrent(undefined, preview), true);
+  assert.equal(isWaveformCurrent(1, 'https://cdn.example.com/legacy.mp3'), true);
+});